@@ -16,6 +16,8 @@ async function main() {
       phone: '(555) 123-4567',
       email: 'demo@justsell.com',
       taxId: '12-3456789',
+      // The simulator only approves test cards; production stores configure a real processor
+      paymentProcessor: process.env.NODE_ENV === 'production' ? undefined : 'SIMULATOR',
     },
   })
 
@@ -66,7 +68,7 @@ async function main() {
       ruleDetails: {
         bannedFlavors: ['Fruit', 'Candy', 'Dessert'],
         exceptions: ['Tobacco', 'Menthol'],
-        effectiveProducts: ['disposable_vapes', 'pods'],
+        effectiveProducts: ['disposables', 'pods'],
       },
       effectiveDate: new Date('2022-01-01'),
       ruleSource: 'California Department of Public Health',
@@ -116,8 +118,14 @@ async function main() {
     },
   ]
 
+  // All of the sample stock is on hand at the demo store
   for (const productData of sampleProducts) {
-    await prisma.product.create({ data: productData })
+    await prisma.product.create({
+      data: {
+        ...productData,
+        storeInventory: { create: { storeId: store.id, quantity: productData.quantity } },
+      },
+    })
   }
 
   // Create sample customer
@@ -0,0 +1,85 @@
+import { PrismaClient } from '../src/generated/prisma'
+import { verifyAuditChain, createDailyCheckpoint } from '../src/shared/services/auditChain'
+import { SYSTEM_STORE_ID } from '../src/shared/services/auditTrail'
+import { getBusinessDate, formatBusinessDate } from '../src/shared/utils/businessDate'
+
+/**
+ * Audit chain maintenance.
+ *
+ *   npm run audit:verify [-- <storeId>]      Walk each store's chain and report the first break
+ *   npm run audit:checkpoint [-- <storeId>]  Sign yesterday's chain head for each store (run nightly)
+ *
+ * Exits non-zero if any chain is broken.
+ */
+
+const prisma = new PrismaClient()
+const ONE_DAY_MS = 24 * 60 * 60 * 1000
+
+// Every active store, plus the chain for events that belong to no store
+async function loadStores(storeId?: string) {
+  const stores = await prisma.storeLocation.findMany({
+    where: storeId ? { id: storeId } : { isActive: true },
+    select: { id: true, storeName: true, timezone: true },
+    orderBy: { storeName: 'asc' },
+  })
+  if (storeId && storeId !== SYSTEM_STORE_ID) return stores
+  return [...stores, { id: SYSTEM_STORE_ID, storeName: 'System events', timezone: 'UTC' }]
+}
+
+async function verify(storeId?: string): Promise<boolean> {
+  const stores = await loadStores(storeId)
+  let allValid = true
+
+  for (const store of stores) {
+    const result = await verifyAuditChain(prisma, store.id)
+    if (result.valid) {
+      console.log(
+        `✅ ${store.storeName}: ${result.entriesChecked} entries, ${result.checkpointsChecked} checkpoints verified`,
+      )
+    } else {
+      allValid = false
+      console.error(
+        `❌ ${store.storeName}: ${result.firstBreak?.reason} at entry ${result.firstBreak?.sequence} - ${result.firstBreak?.message}`,
+      )
+    }
+  }
+
+  return allValid
+}
+
+async function checkpoint(storeId?: string): Promise<boolean> {
+  const stores = await loadStores(storeId)
+  const now = new Date()
+
+  for (const store of stores) {
+    const today = getBusinessDate(now, store.timezone)
+    const yesterday = new Date(today.getTime() - ONE_DAY_MS)
+    const created = await createDailyCheckpoint(prisma, store, yesterday, now)
+    console.log(
+      `✅ ${store.storeName}: ${formatBusinessDate(yesterday)} signed at entry ${created.lastSequence}`,
+    )
+  }
+
+  return true
+}
+
+async function main() {
+  const [command, storeId] = process.argv.slice(2)
+
+  if (command === 'verify') return verify(storeId)
+  if (command === 'checkpoint') return checkpoint(storeId)
+
+  console.error('Usage: audit-chain.ts <verify|checkpoint> [storeId]')
+  return false
+}
+
+main()
+  .then(async (ok) => {
+    await prisma.$disconnect()
+    if (!ok) process.exit(1)
+  })
+  .catch(async (e) => {
+    console.error('❌ Audit chain command failed:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
@@ -0,0 +1,74 @@
+import { PrismaClient } from '../src/generated/prisma'
+import { findInventoryDiscrepancies, recordOpeningStock } from '../src/shared/services/inventoryLedger'
+import { assignStockToStore } from '../src/shared/services/storeInventory'
+
+/**
+ * Inventory movement ledger maintenance.
+ *
+ *   npm run inventory:assign-store -- <storeId>  Put stock from before it was kept per store into one store (run once, first)
+ *   npm run inventory:opening-balances           Give stock from before the movement ledger an opening movement (run once)
+ *   npm run inventory:reconcile                  List stock whose quantity does not add up from its movements
+ */
+
+const prisma = new PrismaClient()
+
+async function assignStore(storeId: string | undefined): Promise<boolean> {
+  if (!storeId) {
+    console.error('Usage: inventory-ledger.ts assign-store <storeId>')
+    return false
+  }
+  const store = await prisma.storeLocation.findUnique({ where: { id: storeId } })
+  if (!store) {
+    console.error(`❌ Store ${storeId} not found`)
+    return false
+  }
+
+  const assigned = await assignStockToStore(prisma, store.id)
+  console.log(
+    `✅ Stock for ${assigned.products} products and ${assigned.movements} movements assigned to ${store.storeName}`,
+  )
+  return true
+}
+
+async function openingBalances(): Promise<boolean> {
+  const count = await recordOpeningStock(prisma)
+  console.log(`✅ Opening balance recorded for ${count} store stock levels`)
+  return true
+}
+
+async function reconcile(): Promise<boolean> {
+  const discrepancies = await findInventoryDiscrepancies(prisma)
+  if (discrepancies.length === 0) {
+    console.log('✅ Every quantity adds up from its movements')
+    return true
+  }
+
+  for (const row of discrepancies) {
+    console.error(
+      `❌ ${row.sku} ${row.name} (${row.storeName || 'all stores'}): ${row.quantity} on hand, movements add up to ${row.movementTotal}`,
+    )
+  }
+  return false
+}
+
+async function main() {
+  const [command, storeId] = process.argv.slice(2)
+
+  if (command === 'assign-store') return assignStore(storeId)
+  if (command === 'opening-balances') return openingBalances()
+  if (command === 'reconcile') return reconcile()
+
+  console.error('Usage: inventory-ledger.ts <assign-store|opening-balances|reconcile>')
+  return false
+}
+
+main()
+  .then(async (ok) => {
+    await prisma.$disconnect()
+    if (!ok) process.exit(1)
+  })
+  .catch(async (e) => {
+    console.error('❌ Inventory ledger job failed:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
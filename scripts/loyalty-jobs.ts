@@ -0,0 +1,49 @@
+import { PrismaClient } from '../src/generated/prisma'
+import { runLoyaltyJobs, recordOpeningBalances } from '../src/shared/services/loyaltyLedger'
+
+/**
+ * Loyalty program maintenance.
+ *
+ *   npm run loyalty:jobs              Expire inactive points and recalculate tiers (run nightly)
+ *   npm run loyalty:opening-balances  Give balances from before the points ledger an opening entry (run once)
+ */
+
+const prisma = new PrismaClient()
+
+async function jobs(): Promise<boolean> {
+  const result = await runLoyaltyJobs(prisma, new Date())
+  console.log(
+    `✅ Expired ${result.pointsExpired} points from ${result.expiredCustomers} inactive customers`,
+  )
+  console.log(
+    `✅ Tiers recalculated: ${result.tiersUpgraded} upgraded, ${result.tiersDowngraded} downgraded`,
+  )
+  return true
+}
+
+async function openingBalances(): Promise<boolean> {
+  const count = await recordOpeningBalances(prisma)
+  console.log(`✅ Opening balance recorded for ${count} customers`)
+  return true
+}
+
+async function main() {
+  const [command] = process.argv.slice(2)
+
+  if (command === 'run') return jobs()
+  if (command === 'opening-balances') return openingBalances()
+
+  console.error('Usage: loyalty-jobs.ts <run|opening-balances>')
+  return false
+}
+
+main()
+  .then(async (ok) => {
+    await prisma.$disconnect()
+    if (!ok) process.exit(1)
+  })
+  .catch(async (e) => {
+    console.error('❌ Loyalty job failed:', e)
+    await prisma.$disconnect()
+    process.exit(1)
+  })
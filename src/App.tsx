@@ -3,6 +3,9 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { AuthProvider, LoginForm } from './shared/components/auth'
 import { useAuth } from './shared/hooks/useAuth'
 import { ProductsPage } from './admin-app/pages/Products'
+import { CompliancePage } from './admin-app/pages/Compliance'
+import { OffersPage } from './admin-app/pages/Offers'
+import { ReportsPage } from './admin-app/pages/Reports'
 import { POSPage } from './pos-app/pages/POS'
 import { Navigation } from './shared/components/Navigation'
 import './App.css'
@@ -35,6 +38,9 @@ function AppContent() {
         <Route path="/" element={<Navigate to="/pos" replace />} />
         <Route path="/pos" element={<POSPage />} />
         <Route path="/admin/products" element={<ProductsPage />} />
+        <Route path="/admin/compliance" element={<CompliancePage />} />
+        <Route path="/admin/offers" element={<OffersPage />} />
+        <Route path="/admin/reports" element={<ReportsPage />} />
         <Route path="*" element={<Navigate to="/pos" replace />} />
       </Routes>
     </div>
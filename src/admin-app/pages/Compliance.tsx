@@ -0,0 +1,291 @@
+import { useState } from 'react'
+import { ProtectedRoute } from '../../shared/components/auth'
+import {
+  ComplianceRuleForm,
+  ComplianceRuleList,
+  CompliancePreviewPanel
+} from '../../shared/components/compliance'
+import {
+  useComplianceRules,
+  useCreateComplianceRule,
+  useUpdateComplianceRule,
+  useRetireComplianceRule,
+  useComplianceOverlaps,
+  usePreviewComplianceRule
+} from '../../shared/hooks/useCompliance'
+import type { ComplianceRuleStatus, ComplianceOverlapQuery } from '../../shared/services/compliance'
+import type { RuleType, JurisdictionType } from '../../shared/types/database'
+import type {
+  ComplianceRuleResponse,
+  CreateComplianceRuleData,
+  ComplianceRulePreview
+} from '../../shared/types/compliance'
+
+export function CompliancePage() {
+  const [ruleType, setRuleType] = useState<RuleType | ''>('')
+  const [jurisdictionType, setJurisdictionType] = useState<JurisdictionType | ''>('')
+  const [status, setStatus] = useState<ComplianceRuleStatus>('active')
+  const [showForm, setShowForm] = useState(false)
+  const [editingRule, setEditingRule] = useState<ComplianceRuleResponse | null>(null)
+  const [formErrors, setFormErrors] = useState<string[]>([])
+  const [preview, setPreview] = useState<ComplianceRulePreview | null>(null)
+  const [locationInput, setLocationInput] = useState<ComplianceOverlapQuery>({ stateCode: '', county: '', city: '' })
+  const [overlapQuery, setOverlapQuery] = useState<ComplianceOverlapQuery>({})
+
+  // React Query hooks
+  const { data: rulesData, isLoading, error } = useComplianceRules({
+    ruleType: ruleType || undefined,
+    jurisdictionType: jurisdictionType || undefined,
+    status
+  })
+  const { data: overlapData, isLoading: overlapsLoading } = useComplianceOverlaps(overlapQuery)
+  const createRuleMutation = useCreateComplianceRule()
+  const updateRuleMutation = useUpdateComplianceRule()
+  const retireRuleMutation = useRetireComplianceRule()
+  const previewMutation = usePreviewComplianceRule()
+
+  const rules = rulesData?.rules || []
+
+  const getErrors = (error: any): string[] =>
+    error.response?.data?.errors || [error.response?.data?.message || error.message]
+
+  const handleSubmit = async (data: CreateComplianceRuleData) => {
+    try {
+      if (editingRule) {
+        const { ruleType: _ruleType, ...changes } = data
+        await updateRuleMutation.mutateAsync({ id: editingRule.id, data: changes })
+      } else {
+        await createRuleMutation.mutateAsync(data)
+      }
+      setShowForm(false)
+      setEditingRule(null)
+      setFormErrors([])
+    } catch (error: any) {
+      setFormErrors(getErrors(error))
+    }
+  }
+
+  const handlePreviewDraft = async (data: CreateComplianceRuleData) => {
+    try {
+      setPreview(await previewMutation.mutateAsync({ rule: data }))
+      setFormErrors([])
+    } catch (error: any) {
+      setFormErrors(getErrors(error))
+    }
+  }
+
+  const handlePreviewRule = async (rule: ComplianceRuleResponse) => {
+    try {
+      setPreview(await previewMutation.mutateAsync({ rule: { id: rule.id } }))
+    } catch (error: any) {
+      alert(`Failed to preview rule: ${getErrors(error).join(', ')}`)
+    }
+  }
+
+  const handleRetireRule = async (rule: ComplianceRuleResponse) => {
+    const endDate = prompt(
+      'Enter the last day this rule applies (YYYY-MM-DD), or leave blank to retire it now:',
+      ''
+    )
+    if (endDate === null) return
+
+    try {
+      await retireRuleMutation.mutateAsync({ id: rule.id, endDate: endDate || undefined })
+    } catch (error: any) {
+      alert(`Failed to retire rule: ${getErrors(error).join(', ')}`)
+    }
+  }
+
+  const handleCheckOverlaps = (e: React.FormEvent) => {
+    e.preventDefault()
+    setOverlapQuery({
+      stateCode: locationInput.stateCode?.trim().toUpperCase(),
+      county: locationInput.county?.trim() || undefined,
+      city: locationInput.city?.trim() || undefined
+    })
+  }
+
+  const handleCancelForm = () => {
+    setShowForm(false)
+    setEditingRule(null)
+    setFormErrors([])
+    setPreview(null)
+  }
+
+  if (showForm) {
+    return (
+      <ProtectedRoute requiredPermission="compliance:manage">
+        <div className="min-h-screen bg-gray-50 p-6">
+          {preview && (
+            <div className="max-w-3xl mx-auto">
+              <CompliancePreviewPanel preview={preview} onClose={() => setPreview(null)} />
+            </div>
+          )}
+          <ComplianceRuleForm
+            rule={editingRule || undefined}
+            onSubmit={handleSubmit}
+            onPreview={handlePreviewDraft}
+            onCancel={handleCancelForm}
+            isLoading={createRuleMutation.isPending || updateRuleMutation.isPending || previewMutation.isPending}
+            serverErrors={formErrors}
+          />
+        </div>
+      </ProtectedRoute>
+    )
+  }
+
+  return (
+    <ProtectedRoute requiredPermission="compliance:manage">
+      <div className="min-h-screen bg-gray-50 p-6">
+        <div className="max-w-7xl mx-auto">
+          {/* Header */}
+          <div className="flex justify-between items-center mb-6">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Compliance Rules</h1>
+              <p className="text-gray-600 mt-1">
+                Age, flavor, tax and quantity rules enforced at checkout
+              </p>
+            </div>
+            <button
+              onClick={() => setShowForm(true)}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+            >
+              Add Rule
+            </button>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white p-4 rounded-lg shadow mb-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+            <select
+              value={ruleType}
+              onChange={(e) => setRuleType(e.target.value as RuleType | '')}
+              className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All rule types</option>
+              <option value="AGE_VERIFICATION">Age Verification</option>
+              <option value="FLAVOR_BAN">Flavor Ban</option>
+              <option value="TAX_RATE">Tax Rate</option>
+              <option value="PRODUCT_RESTRICTION">Product Restriction</option>
+              <option value="QUANTITY_LIMIT">Quantity Limit</option>
+            </select>
+            <select
+              value={jurisdictionType}
+              onChange={(e) => setJurisdictionType(e.target.value as JurisdictionType | '')}
+              className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All jurisdictions</option>
+              <option value="FEDERAL">Federal</option>
+              <option value="STATE">State</option>
+              <option value="COUNTY">County</option>
+              <option value="CITY">City</option>
+            </select>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as ComplianceRuleStatus)}
+              className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="active">In effect</option>
+              <option value="scheduled">Scheduled</option>
+              <option value="expired">Expired</option>
+              <option value="retired">Retired</option>
+              <option value="all">All</option>
+            </select>
+          </div>
+
+          {preview && <CompliancePreviewPanel preview={preview} onClose={() => setPreview(null)} />}
+
+          {/* Error State */}
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+              <p className="text-red-800">Error loading compliance rules: {error.message}</p>
+            </div>
+          )}
+
+          {/* Loading State */}
+          {isLoading && (
+            <div className="text-center py-8">
+              <p className="text-gray-600">Loading compliance rules...</p>
+            </div>
+          )}
+
+          {/* Rules List */}
+          {!isLoading && !error && (
+            <div className="bg-white rounded-lg shadow mb-6">
+              <ComplianceRuleList
+                rules={rules}
+                onEditRule={(rule) => {
+                  setEditingRule(rule)
+                  setShowForm(true)
+                }}
+                onRetireRule={handleRetireRule}
+                onPreviewRule={handlePreviewRule}
+              />
+            </div>
+          )}
+
+          {/* Overlapping rules for a location */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">Rules by Location</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              See every rule in force for a location and where federal, state, county and city rules overlap
+            </p>
+            <form onSubmit={handleCheckOverlaps} className="flex flex-wrap gap-3 mb-4">
+              <input
+                type="text"
+                placeholder="State (e.g. CA)"
+                maxLength={2}
+                value={locationInput.stateCode}
+                onChange={(e) => setLocationInput(prev => ({ ...prev, stateCode: e.target.value }))}
+                className="w-32 px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <input
+                type="text"
+                placeholder="County"
+                value={locationInput.county}
+                onChange={(e) => setLocationInput(prev => ({ ...prev, county: e.target.value }))}
+                className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <input
+                type="text"
+                placeholder="City"
+                value={locationInput.city}
+                onChange={(e) => setLocationInput(prev => ({ ...prev, city: e.target.value }))}
+                className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={!locationInput.stateCode}
+                className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700 disabled:bg-gray-400"
+              >
+                Check Location
+              </button>
+            </form>
+
+            {overlapsLoading && <p className="text-gray-600">Checking rules...</p>}
+
+            {overlapData && (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-700">
+                  {overlapData.rules.length} rules in force across{' '}
+                  {overlapData.jurisdictions.map(j => j.jurisdictionCode).join(', ')}
+                </p>
+                {overlapData.overlaps.length === 0 ? (
+                  <p className="text-sm text-green-700">No overlapping rules for this location</p>
+                ) : (
+                  overlapData.overlaps.map(overlap => (
+                    <div key={overlap.ruleType} className="border border-amber-200 bg-amber-50 rounded p-3">
+                      <h3 className="text-sm font-medium text-amber-800 mb-2">
+                        {overlap.rules.length} overlapping {overlap.ruleType.replace(/_/g, ' ').toLowerCase()} rules
+                      </h3>
+                      <ComplianceRuleList rules={overlap.rules} />
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </ProtectedRoute>
+  )
+}
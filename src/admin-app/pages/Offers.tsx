@@ -0,0 +1,246 @@
+import { useState } from 'react'
+import { ProtectedRoute } from '../../shared/components/auth'
+import { OfferForm, OfferList, OfferRedemptionReport } from '../../shared/components/offers'
+import {
+  useOffers,
+  useOffer,
+  useCreateOffer,
+  useUpdateOffer,
+  useDeleteOffer,
+  useOfferRedemptionReport
+} from '../../shared/hooks/useOffers'
+import type { OfferReportQuery } from '../../shared/services/offers'
+import type { OfferType, TargetAudience } from '../../shared/types/database'
+import type { CreateOfferData, OfferResponse, OfferStatus } from '../../shared/types/offers'
+
+export function OffersPage() {
+  const [offerType, setOfferType] = useState<OfferType | ''>('')
+  const [targetAudience, setTargetAudience] = useState<TargetAudience | ''>('')
+  const [status, setStatus] = useState<OfferStatus>('active')
+  const [search, setSearch] = useState('')
+  const [showForm, setShowForm] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [formErrors, setFormErrors] = useState<string[]>([])
+  const [reportInput, setReportInput] = useState({ startDate: '', endDate: '' })
+  const [reportQuery, setReportQuery] = useState<OfferReportQuery>({})
+
+  // React Query hooks
+  const { data: offersData, isLoading, error } = useOffers({
+    offerType: offerType || undefined,
+    targetAudience: targetAudience || undefined,
+    status,
+    search: search.trim() || undefined
+  })
+  const { data: editingData, isLoading: editingLoading } = useOffer(editingId || '', !!editingId)
+  const { data: report, isLoading: reportLoading } = useOfferRedemptionReport(reportQuery)
+  const createOfferMutation = useCreateOffer()
+  const updateOfferMutation = useUpdateOffer()
+  const deleteOfferMutation = useDeleteOffer()
+
+  const offers = offersData?.offers || []
+
+  const getErrors = (error: any): string[] =>
+    error.response?.data?.errors || [error.response?.data?.message || error.message]
+
+  const handleSubmit = async (data: CreateOfferData) => {
+    try {
+      if (editingId) {
+        await updateOfferMutation.mutateAsync({ id: editingId, data })
+      } else {
+        await createOfferMutation.mutateAsync(data)
+      }
+      setShowForm(false)
+      setEditingId(null)
+      setFormErrors([])
+    } catch (error: any) {
+      setFormErrors(getErrors(error))
+    }
+  }
+
+  const handleDeleteOffer = async (offer: OfferResponse) => {
+    if (!confirm(`Delete "${offer.name}"? Offers already used on sales are deactivated instead.`)) return
+
+    try {
+      const result = await deleteOfferMutation.mutateAsync(offer.id)
+      if (result.offer) alert(result.message)
+    } catch (error: any) {
+      alert(`Failed to delete offer: ${getErrors(error).join(', ')}`)
+    }
+  }
+
+  const handleRunReport = (e: React.FormEvent) => {
+    e.preventDefault()
+    setReportQuery({
+      // Whole local days, start of the first to end of the last
+      startDate: reportInput.startDate ? new Date(`${reportInput.startDate}T00:00:00`).toISOString() : undefined,
+      endDate: reportInput.endDate ? new Date(`${reportInput.endDate}T23:59:59.999`).toISOString() : undefined
+    })
+  }
+
+  const handleCancelForm = () => {
+    setShowForm(false)
+    setEditingId(null)
+    setFormErrors([])
+  }
+
+  if (showForm) {
+    return (
+      <ProtectedRoute requiredPermission="offer:manage">
+        <div className="min-h-screen bg-gray-50 p-6">
+          {editingId && editingLoading ? (
+            <p className="text-center text-gray-600">Loading offer...</p>
+          ) : (
+            <OfferForm
+              key={editingId || 'new'}
+              offer={editingId ? editingData?.offer : undefined}
+              products={editingId ? editingData?.products : undefined}
+              onSubmit={handleSubmit}
+              onCancel={handleCancelForm}
+              isLoading={createOfferMutation.isPending || updateOfferMutation.isPending}
+              serverErrors={formErrors}
+            />
+          )}
+        </div>
+      </ProtectedRoute>
+    )
+  }
+
+  return (
+    <ProtectedRoute requiredPermission="offer:manage">
+      <div className="min-h-screen bg-gray-50 p-6">
+        <div className="max-w-7xl mx-auto">
+          {/* Header */}
+          <div className="flex justify-between items-center mb-6">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Offers</h1>
+              <p className="text-gray-600 mt-1">
+                Discounts and loyalty promotions applied automatically at checkout
+              </p>
+            </div>
+            <button
+              onClick={() => setShowForm(true)}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+            >
+              Add Offer
+            </button>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white p-4 rounded-lg shadow mb-6 grid grid-cols-1 md:grid-cols-4 gap-4">
+            <input
+              type="text"
+              placeholder="Search by name"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <select
+              value={offerType}
+              onChange={(e) => setOfferType(e.target.value as OfferType | '')}
+              className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All offer types</option>
+              <option value="PERCENTAGE">Percentage</option>
+              <option value="FIXED_AMOUNT">Fixed Amount</option>
+              <option value="BOGO">Buy One, Get One</option>
+              <option value="POINTS_MULTIPLIER">Points Multiplier</option>
+            </select>
+            <select
+              value={targetAudience}
+              onChange={(e) => setTargetAudience(e.target.value as TargetAudience | '')}
+              className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All audiences</option>
+              <option value="ALL">Everyone</option>
+              <option value="LOYALTY_MEMBERS">Loyalty Members</option>
+              <option value="NEW_CUSTOMERS">New Customers</option>
+              <option value="VIP">VIP</option>
+              <option value="EXPIRING_PRODUCT_BUYERS">Expiring Products</option>
+            </select>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as OfferStatus)}
+              className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="active">Running</option>
+              <option value="scheduled">Scheduled</option>
+              <option value="expired">Ended</option>
+              <option value="inactive">Inactive</option>
+              <option value="all">All</option>
+            </select>
+          </div>
+
+          {/* Error State */}
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+              <p className="text-red-800">Error loading offers: {error.message}</p>
+            </div>
+          )}
+
+          {/* Loading State */}
+          {isLoading && (
+            <div className="text-center py-8">
+              <p className="text-gray-600">Loading offers...</p>
+            </div>
+          )}
+
+          {/* Offers List */}
+          {!isLoading && !error && (
+            <div className="bg-white rounded-lg shadow mb-6">
+              <OfferList
+                offers={offers}
+                onEditOffer={(offer) => {
+                  setEditingId(offer.id)
+                  setShowForm(true)
+                }}
+                onDeleteOffer={handleDeleteOffer}
+                onViewRedemptions={(offer) => setReportQuery(prev => ({ ...prev, offerId: offer.id }))}
+              />
+            </div>
+          )}
+
+          {/* Redemption report */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">Redemptions</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Discount dollars and transactions per offer. Voided sales are not counted.
+            </p>
+            <form onSubmit={handleRunReport} className="flex flex-wrap items-center gap-3 mb-4">
+              <input
+                type="date"
+                value={reportInput.startDate}
+                onChange={(e) => setReportInput(prev => ({ ...prev, startDate: e.target.value }))}
+                className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <span className="text-gray-500">to</span>
+              <input
+                type="date"
+                value={reportInput.endDate}
+                onChange={(e) => setReportInput(prev => ({ ...prev, endDate: e.target.value }))}
+                className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                type="submit"
+                className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700"
+              >
+                Run Report
+              </button>
+              {reportQuery.offerId && (
+                <button
+                  type="button"
+                  onClick={() => setReportQuery(prev => ({ ...prev, offerId: undefined }))}
+                  className="text-sm text-blue-600 hover:text-blue-900"
+                >
+                  Show all offers
+                </button>
+              )}
+            </form>
+
+            {reportLoading && <p className="text-gray-600">Loading redemptions...</p>}
+            {report && <OfferRedemptionReport report={report} />}
+          </div>
+        </div>
+      </div>
+    </ProtectedRoute>
+  )
+}
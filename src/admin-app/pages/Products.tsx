@@ -1,5 +1,10 @@
 import { useState } from 'react'
-import { ProductList, ProductForm } from '../../shared/components/products'
+import {
+  ProductList,
+  ProductForm,
+  InventoryMovementHistory,
+  StockTransferList
+} from '../../shared/components/products'
 import { ProtectedRoute } from '../../shared/components/auth'
 import { usePermissions } from '../../shared/hooks/useAuth'
 import type { Product } from '../../shared/types/database'
@@ -7,14 +12,19 @@ import type { Product } from '../../shared/types/database'
 export function ProductsPage() {
   const [showForm, setShowForm] = useState(false)
   const [editingProduct, setEditingProduct] = useState<Product | undefined>()
+  const [stockProduct, setStockProduct] = useState<Product | undefined>()
+  const [showTransfers, setShowTransfers] = useState(false)
   const { hasPermission } = usePermissions()
 
   const handleAddProduct = () => {
+    setShowTransfers(false)
     setEditingProduct(undefined)
     setShowForm(true)
   }
 
   const handleEditProduct = (product: Product) => {
+    setShowTransfers(false)
+    setStockProduct(undefined)
     setEditingProduct(product)
     setShowForm(true)
   }
@@ -42,17 +52,25 @@ export function ProductsPage() {
                   Manage your product catalog, inventory, and pricing
                 </p>
               </div>
-              {hasPermission('product:create') && (
+              <div className="flex gap-3">
                 <button
-                  onClick={handleAddProduct}
-                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  onClick={() => setShowTransfers(!showTransfers)}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md shadow-sm text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
                 >
-                  <svg className="-ml-1 mr-2 h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4" />
-                  </svg>
-                  Add Product
+                  Transfers
                 </button>
-              )}
+                {hasPermission('product:create') && (
+                  <button
+                    onClick={handleAddProduct}
+                    className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                  >
+                    <svg className="-ml-1 mr-2 h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v16m8-8H4" />
+                    </svg>
+                    Add Product
+                  </button>
+                )}
+              </div>
             </div>
           </div>
 
@@ -64,9 +82,18 @@ export function ProductsPage() {
               onCancel={handleFormCancel}
               className="max-w-4xl"
             />
+          ) : showTransfers ? (
+            <StockTransferList onClose={() => setShowTransfers(false)} className="max-w-5xl" />
+          ) : stockProduct ? (
+            <InventoryMovementHistory
+              product={stockProduct}
+              onClose={() => setStockProduct(undefined)}
+              className="max-w-5xl"
+            />
           ) : (
             <ProductList
               onEditProduct={handleEditProduct}
+              onViewStock={setStockProduct}
             />
           )}
         </div>
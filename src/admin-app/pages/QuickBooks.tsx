@@ -225,6 +225,7 @@ export function QuickBooksPage() {
                   { key: 'cashAccount', label: 'Cash Account' },
                   { key: 'cardAccount', label: 'Credit Card Clearing' },
                   { key: 'giftCardAccount', label: 'Gift Cards Outstanding' },
+                  { key: 'storeCreditAccount', label: 'Store Credit Outstanding' },
                   { key: 'inventoryAccount', label: 'Inventory Asset' },
                   { key: 'cogsAccount', label: 'Cost of Goods Sold' },
                   { key: 'tobaccoTaxAccount', label: 'Tobacco Tax Payable' }
@@ -0,0 +1,193 @@
+import { useState } from 'react'
+import { ProtectedRoute } from '../../shared/components/auth'
+import { DailyReportDisplay, SalesDashboard, TransferReport } from '../../shared/components/reports'
+import { useAuth } from '../../shared/hooks/useAuth'
+import {
+  useXReport,
+  useZReports,
+  useCreateZReport,
+  useReprintZReport,
+  useSendZReportToQuickBooks
+} from '../../shared/hooks/useReports'
+import type { ZReportResponse } from '../../shared/types/reports'
+import { getErrorMessage } from '../../shared/utils/errors'
+
+const formatMoney = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`
+
+export function ReportsPage() {
+  const { user } = useAuth()
+  const storeId = user?.storeId || undefined
+
+  const [businessDate, setBusinessDate] = useState('')
+  const [showXReport, setShowXReport] = useState(false)
+  const [printing, setPrinting] = useState<ZReportResponse | null>(null)
+
+  const xReportQuery = { storeId, businessDate: businessDate || undefined }
+  const { data: xReport, isFetching: xLoading, refetch: refetchXReport } = useXReport(
+    xReportQuery,
+    showXReport
+  )
+  const { data: zReports = [], isLoading: zLoading } = useZReports({ storeId })
+  const createZReportMutation = useCreateZReport()
+  const reprintMutation = useReprintZReport()
+  const quickBooksMutation = useSendZReportToQuickBooks()
+
+  const handleRunXReport = () => {
+    setPrinting(null)
+    if (showXReport) {
+      refetchXReport()
+    } else {
+      setShowXReport(true)
+    }
+  }
+
+  const handleRunZReport = async () => {
+    const day = businessDate || 'today'
+    if (!confirm(`Close ${day} with a Z report? No more sales can be rung for that day.`)) return
+
+    try {
+      const zReport = await createZReportMutation.mutateAsync({
+        storeId,
+        businessDate: businessDate || undefined
+      })
+      setShowXReport(false)
+      setPrinting(zReport)
+    } catch (error) {
+      alert(`Z report failed: ${getErrorMessage(error, 'Unknown error')}`)
+    }
+  }
+
+  const handleReprint = async (zReport: ZReportResponse) => {
+    try {
+      const reprinted = await reprintMutation.mutateAsync(zReport.id)
+      setShowXReport(false)
+      setPrinting(reprinted)
+      // Let the report render before the print dialog opens
+      setTimeout(() => window.print(), 0)
+    } catch (error) {
+      alert(`Reprint failed: ${getErrorMessage(error, 'Unknown error')}`)
+    }
+  }
+
+  const handleSendToQuickBooks = async (zReport: ZReportResponse) => {
+    try {
+      const result = await quickBooksMutation.mutateAsync(zReport.id)
+      alert(result.status === 'SYNCED' ? 'Sent to QuickBooks' : result.message || result.status)
+    } catch (error) {
+      alert(`QuickBooks sync failed: ${getErrorMessage(error, 'Unknown error')}`)
+    }
+  }
+
+  return (
+    <ProtectedRoute requiredPermission="reports:view">
+      <div className="min-h-screen bg-gray-50 p-6">
+        <div className="max-w-7xl mx-auto">
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold text-gray-900">Reports</h1>
+            <p className="text-gray-600 mt-1">Sales and margin, mid-shift X reports, end-of-day Z reports and stock transfers</p>
+          </div>
+
+          <SalesDashboard />
+
+          <h2 className="text-2xl font-bold text-gray-900 mt-10 mb-4">End of Day</h2>
+
+          {/* End of day */}
+          <div className="bg-white p-4 rounded-lg shadow mb-6 flex flex-wrap items-end gap-4">
+            <label className="text-sm text-gray-700">
+              Business date
+              <input
+                type="date"
+                value={businessDate}
+                onChange={(e) => setBusinessDate(e.target.value)}
+                className="block mt-1 px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <button
+              onClick={handleRunXReport}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+            >
+              {xLoading ? 'Running...' : 'X Report'}
+            </button>
+            <button
+              onClick={handleRunZReport}
+              disabled={createZReportMutation.isPending}
+              className="px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 font-medium disabled:bg-gray-400"
+            >
+              Close Day (Z Report)
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              {printing ? (
+                <DailyReportDisplay report={printing.report} title={`Z Report #${printing.reportNumber}`} />
+              ) : showXReport && xReport ? (
+                <DailyReportDisplay report={xReport} title="X Report" />
+              ) : (
+                <p className="text-gray-500">Run an X report for a snapshot of the day so far.</p>
+              )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow overflow-hidden">
+              <h2 className="text-lg font-medium text-gray-900 p-4 border-b">Z Reports</h2>
+              {zLoading ? (
+                <p className="p-4 text-gray-500">Loading...</p>
+              ) : zReports.length === 0 ? (
+                <p className="p-4 text-gray-500">No business days closed yet</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-600">
+                    <tr>
+                      <th className="px-4 py-2">#</th>
+                      <th className="px-4 py-2">Date</th>
+                      <th className="px-4 py-2 text-right">Net sales</th>
+                      <th className="px-4 py-2 text-right">Over/short</th>
+                      <th className="px-4 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {zReports.map(zReport => (
+                      <tr key={zReport.id}>
+                        <td className="px-4 py-2">{zReport.reportNumber}</td>
+                        <td className="px-4 py-2">{zReport.businessDate}</td>
+                        <td className="px-4 py-2 text-right">{formatMoney(zReport.report.sales.netSales)}</td>
+                        <td className="px-4 py-2 text-right">{formatMoney(zReport.report.cashOverShort)}</td>
+                        <td className="px-4 py-2 text-right space-x-2 whitespace-nowrap">
+                          <button
+                            onClick={() => handleReprint(zReport)}
+                            className="text-blue-600 hover:underline"
+                          >
+                            Reprint
+                          </button>
+                          {zReport.quickBooksId ? (
+                            <span className="text-green-700">In QuickBooks</span>
+                          ) : (
+                            <button
+                              onClick={() => handleSendToQuickBooks(zReport)}
+                              disabled={quickBooksMutation.isPending}
+                              className="text-blue-600 hover:underline disabled:text-gray-400"
+                            >
+                              Send to QuickBooks
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+
+          {storeId && (
+            <>
+              <h2 className="text-2xl font-bold text-gray-900 mt-10 mb-4">Stock Transfers</h2>
+              <TransferReport storeId={storeId} />
+            </>
+          )}
+        </div>
+      </div>
+    </ProtectedRoute>
+  )
+}
@@ -0,0 +1,267 @@
+import { Request, Response } from 'express'
+import { PrismaClient } from '../../generated/prisma'
+import type { AgeVerificationOverrideRequest } from '../../shared/types/ageVerification'
+import {
+  parseAgeVerificationRequest,
+  applyBarcodeScan,
+  evaluateAgeVerification,
+  applyIdPolicy,
+  loadAgeVerificationPolicy,
+  toAgeVerificationLogData,
+  toAgeVerificationResult,
+  toAgeVerificationHistoryEntry,
+  checkOverridable,
+  AgeVerificationError
+} from '../../shared/services/ageVerificationLog'
+import { recordAuditEvent, getRequestMetadata } from '../../shared/services/auditTrail'
+import { resolveApprover, ManagerApprovalError } from '../../shared/services/managerApproval'
+import { getBusinessDate } from '../../shared/utils/businessDate'
+
+const prisma = new PrismaClient()
+
+const DEFAULT_HISTORY_DAYS = 30
+const MAX_HISTORY_DAYS = 366
+
+// Admins can work with every store; everyone else only with their own
+const scopeToUserStore = (req: Request, storeId?: string): string | undefined | null => {
+  if (req.user?.role === 'ADMIN') return storeId
+  if (!req.user?.storeId) return null
+  if (storeId && storeId !== req.user.storeId) return null
+  return req.user.storeId
+}
+
+export const ageVerificationController = {
+  // Check a customer's ID and keep the result for checkout to reference
+  async verifyAge(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = req.user
+      if (!user) {
+        return res.status(401).json({ message: 'Employee authentication required' })
+      }
+
+      const verifiedAt = new Date()
+      const { request, warnings: scanWarnings } = applyBarcodeScan(
+        parseAgeVerificationRequest(req.body),
+        verifiedAt
+      )
+
+      const storeId = scopeToUserStore(req, request.storeId)
+      if (storeId === null) {
+        return res.status(403).json({ message: 'Access denied to this store' })
+      }
+      if (!storeId) {
+        return res.status(400).json({ message: 'Store is required to verify age' })
+      }
+
+      const store = await prisma.storeLocation.findUnique({ where: { id: storeId } })
+      if (!store) {
+        return res.status(400).json({ message: `Store ${storeId} not found` })
+      }
+
+      const policy = await loadAgeVerificationPolicy(prisma, store, verifiedAt)
+
+      // Age is counted on the store's calendar, not the server's
+      const evaluation = applyIdPolicy(
+        evaluateAgeVerification(
+          request.customerDob,
+          request.idExpirationDate,
+          getBusinessDate(verifiedAt, store.timezone),
+          policy.minimumAge
+        ),
+        request,
+        policy
+      )
+
+      const log = await prisma.$transaction(async (tx) => {
+        const created = await tx.ageVerificationLog.create({
+          data: {
+            ...toAgeVerificationLogData(request, evaluation),
+            employeeId: user.id,
+            storeId,
+            verificationDate: verifiedAt
+          }
+        })
+
+        await recordAuditEvent(tx, {
+          userId: user.id,
+          userRole: user.role,
+          storeId,
+          action: evaluation.isVerified ? 'age_verification_passed' : 'age_verification_failed',
+          entityType: 'age_verification',
+          entityId: created.id,
+          details: {
+            customerId: request.customerId,
+            idType: request.idType,
+            idIssuingState: request.idIssuingState,
+            verificationMethod: request.verificationMethod,
+            calculatedAge: evaluation.calculatedAge,
+            minimumAge: policy.minimumAge,
+            policyRuleIds: policy.ruleIds,
+            reasonForDenial: evaluation.reasonForDenial,
+            scanConfidenceScore: request.scannerData?.confidenceScore,
+            scanWarnings
+          },
+          metadata: getRequestMetadata(req),
+          severity: evaluation.isVerified ? 'medium' : 'high'
+        })
+
+        return created
+      })
+
+      return res.status(201).json(
+        toAgeVerificationResult(log, policy, [
+          ...evaluation.complianceWarnings,
+          ...scanWarnings
+        ])
+      )
+    } catch (error) {
+      if (error instanceof AgeVerificationError) {
+        return res.status(400).json({ message: error.message })
+      }
+      console.error('Age verification error:', error)
+      return res.status(500).json({ message: 'Failed to record age verification' })
+    }
+  },
+
+  // Let a manager accept an expired ID from a customer who is old enough
+  async overrideVerification(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = req.user
+      if (!user) {
+        return res.status(401).json({ message: 'Employee authentication required' })
+      }
+
+      const { verificationId, reason, notes, managerCredentials }: AgeVerificationOverrideRequest =
+        req.body
+      if (!verificationId) {
+        return res.status(400).json({ message: 'verificationId is required' })
+      }
+      if (!reason || !reason.trim()) {
+        return res.status(400).json({ message: 'A reason is required to override age verification' })
+      }
+
+      const log = await prisma.ageVerificationLog.findUnique({ where: { id: verificationId } })
+      if (!log || scopeToUserStore(req, log.storeId) === null) {
+        return res.status(404).json({ message: 'Age verification not found' })
+      }
+
+      const store = await prisma.storeLocation.findUnique({ where: { id: log.storeId } })
+      if (!store) {
+        return res.status(400).json({ message: `Store ${log.storeId} not found` })
+      }
+      const policy = await loadAgeVerificationPolicy(prisma, store, new Date())
+
+      checkOverridable(log, policy)
+
+      const approver = await resolveApprover(
+        prisma,
+        user,
+        'compliance:manage',
+        log.storeId,
+        managerCredentials
+      )
+
+      const overrideReason = notes?.trim() ? `${reason.trim()}: ${notes.trim()}` : reason.trim()
+
+      const updated = await prisma.$transaction(async (tx) => {
+        const overridden = await tx.ageVerificationLog.update({
+          where: { id: log.id },
+          data: {
+            managerOverride: true,
+            overrideManagerId: approver.id,
+            overrideReason
+          }
+        })
+
+        await recordAuditEvent(tx, {
+          userId: user.id,
+          userRole: user.role,
+          storeId: log.storeId,
+          action: 'manager_override_applied',
+          entityType: 'age_verification',
+          entityId: log.id,
+          details: {
+            customerId: log.customerId,
+            calculatedAge: log.calculatedAge,
+            reasonForDenial: log.reasonForDenial,
+            overrideReason,
+            approvedBy: approver.id,
+            approvedByRole: approver.role
+          },
+          metadata: getRequestMetadata(req),
+          severity: 'high'
+        })
+
+        return overridden
+      })
+
+      return res.json(toAgeVerificationResult(updated, policy))
+    } catch (error) {
+      if (error instanceof AgeVerificationError) {
+        return res.status(400).json({ message: error.message })
+      }
+      if (error instanceof ManagerApprovalError) {
+        return res.status(403).json({ message: error.message })
+      }
+      console.error('Age verification override error:', error)
+      return res.status(500).json({ message: 'Failed to override age verification' })
+    }
+  },
+
+  // The minimum age and ID rules the register should apply at a store
+  async getPolicy(req: Request, res: Response): Promise<Response> {
+    try {
+      const storeId = scopeToUserStore(req, req.query.storeId as string | undefined)
+      if (storeId === null) {
+        return res.status(403).json({ message: 'Access denied to this store' })
+      }
+      if (!storeId) {
+        return res.status(400).json({ message: 'storeId is required' })
+      }
+
+      const store = await prisma.storeLocation.findUnique({ where: { id: storeId } })
+      if (!store) {
+        return res.status(404).json({ message: 'Store not found' })
+      }
+
+      return res.json(await loadAgeVerificationPolicy(prisma, store, new Date()))
+    } catch (error) {
+      console.error('Age verification policy error:', error)
+      return res.status(500).json({ message: 'Failed to load age verification policy' })
+    }
+  },
+
+  // Recent ID checks, optionally for one customer
+  async getHistory(req: Request, res: Response): Promise<Response> {
+    try {
+      const days = req.query.days === undefined ? DEFAULT_HISTORY_DAYS : Number(req.query.days)
+      if (!Number.isInteger(days) || days <= 0 || days > MAX_HISTORY_DAYS) {
+        return res.status(400).json({
+          message: `days must be a whole number between 1 and ${MAX_HISTORY_DAYS}`
+        })
+      }
+
+      const storeId = scopeToUserStore(req, req.query.storeId as string | undefined)
+      if (storeId === null) {
+        return res.status(403).json({ message: 'Access denied to this store' })
+      }
+
+      const customerId = req.query.customerId as string | undefined
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+      const logs = await prisma.ageVerificationLog.findMany({
+        where: {
+          verificationDate: { gte: since },
+          ...(storeId && { storeId }),
+          ...(customerId && { customerId })
+        },
+        orderBy: { verificationDate: 'desc' }
+      })
+
+      return res.json(logs.map(toAgeVerificationHistoryEntry))
+    } catch (error) {
+      console.error('Age verification history error:', error)
+      return res.status(500).json({ message: 'Failed to fetch age verification history' })
+    }
+  }
+}
@@ -0,0 +1,273 @@
+import { Request, Response } from 'express'
+import { PrismaClient } from '../../generated/prisma'
+import type {
+  AuditExportBundle,
+  AuditExportFormat,
+  AuditQuery
+} from '../../shared/types/audit'
+import {
+  appendAuditEvent,
+  validateClientAuditEvent,
+  getRequestMetadata,
+  parseAuditQuery,
+  buildAuditWhere,
+  queryAuditLogs,
+  summarizeAuditLogs,
+  toAuditLogEntry,
+  formatAuditLogsCsv,
+  AuditValidationError,
+  SYSTEM_STORE_ID
+} from '../../shared/services/auditTrail'
+import {
+  verifyAuditChain,
+  createDailyCheckpoint,
+  listCheckpoints,
+  toSignedCheckpoint,
+  AuditChainError
+} from '../../shared/services/auditChain'
+
+const prisma = new PrismaClient()
+
+const EXPORT_FORMATS: AuditExportFormat[] = ['csv', 'json']
+const DEFAULT_SUMMARY_DAYS = 30
+const MAX_SUMMARY_DAYS = 366
+
+// Calendar part of an ISO date, as the UTC midnight Prisma uses for @db.Date
+const toBusinessDate = (value: string): Date => new Date(value.slice(0, 10))
+
+// Admins can see every store; everyone else only sees their own
+const scopeToUserStore = (req: Request, storeId?: string): string | undefined | null => {
+  if (req.user?.role === 'ADMIN') return storeId
+  if (!req.user?.storeId) return null
+  if (storeId && storeId !== req.user.storeId) return null
+  return req.user.storeId
+}
+
+/**
+ * The audit log is append-only: there are no routes to change or remove entries.
+ */
+export const auditController = {
+  // Record an event reported by the register
+  async logEvent(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = req.user
+      if (!user) {
+        return res.status(401).json({ message: 'Authentication required' })
+      }
+
+      const event = validateClientAuditEvent(req.body)
+
+      // Who, where and when come from the session, not from the submitted entry
+      const entry = await appendAuditEvent(prisma, {
+        ...event,
+        userId: user.id,
+        userRole: user.role,
+        storeId: user.storeId || SYSTEM_STORE_ID,
+        metadata: { ...event.metadata, ...getRequestMetadata(req) }
+      })
+
+      return res.status(201).json(toAuditLogEntry(entry))
+    } catch (error) {
+      if (error instanceof AuditValidationError) {
+        return res.status(400).json({ message: error.message })
+      }
+      console.error('Audit log error:', error)
+      return res.status(500).json({ message: 'Failed to record audit event' })
+    }
+  },
+
+  // Search the audit log
+  async queryLogs(req: Request, res: Response): Promise<Response> {
+    try {
+      const query = parseAuditQuery(req.query as Record<string, unknown>)
+
+      const storeId = scopeToUserStore(req, query.storeId)
+      if (storeId === null) {
+        return res.status(403).json({ message: 'Access denied to this store' })
+      }
+
+      const result = await queryAuditLogs(prisma, { ...query, storeId })
+      return res.json(result)
+    } catch (error) {
+      if (error instanceof AuditValidationError) {
+        return res.status(400).json({ message: error.message })
+      }
+      console.error('Audit query error:', error)
+      return res.status(500).json({ message: 'Failed to query audit log' })
+    }
+  },
+
+  // Event counts for the audit dashboard
+  async getSummary(req: Request, res: Response): Promise<Response> {
+    try {
+      const days = req.query.days === undefined ? DEFAULT_SUMMARY_DAYS : Number(req.query.days)
+      if (!Number.isInteger(days) || days <= 0 || days > MAX_SUMMARY_DAYS) {
+        return res.status(400).json({
+          message: `days must be a whole number between 1 and ${MAX_SUMMARY_DAYS}`
+        })
+      }
+
+      const storeId = scopeToUserStore(req, req.query.storeId as string | undefined)
+      if (storeId === null) {
+        return res.status(403).json({ message: 'Access denied to this store' })
+      }
+
+      const summary = await summarizeAuditLogs(prisma, storeId, days)
+      return res.json(summary)
+    } catch (error) {
+      console.error('Audit summary error:', error)
+      return res.status(500).json({ message: 'Failed to summarise audit log' })
+    }
+  },
+
+  // Export a date range of the audit log for inspectors
+  async exportLogs(req: Request, res: Response): Promise<Response> {
+    try {
+      const { startDate, endDate, storeId, format = 'csv' } = req.body as AuditQuery & {
+        format?: AuditExportFormat
+      }
+
+      if (!startDate || !endDate) {
+        return res.status(400).json({ message: 'startDate and endDate are required' })
+      }
+      if (!EXPORT_FORMATS.includes(format)) {
+        return res.status(400).json({
+          message: `format must be one of ${EXPORT_FORMATS.join(', ')}`
+        })
+      }
+
+      const query = parseAuditQuery({ startDate, endDate, storeId })
+      const scopedStoreId = scopeToUserStore(req, query.storeId)
+      if (scopedStoreId === null) {
+        return res.status(403).json({ message: 'Access denied to this store' })
+      }
+
+      // Chain order, so the export can be verified entry by entry
+      const rows = await prisma.auditLog.findMany({
+        where: buildAuditWhere({ ...query, storeId: scopedStoreId }),
+        orderBy: [{ storeId: 'asc' }, { sequence: 'asc' }]
+      })
+      const entries = rows.map(toAuditLogEntry)
+      const checkpoints = await listCheckpoints(prisma, {
+        storeId: scopedStoreId,
+        startDate: toBusinessDate(query.startDate),
+        endDate: toBusinessDate(query.endDate)
+      })
+
+      await appendAuditEvent(prisma, {
+        userId: req.user.id,
+        userRole: req.user.role,
+        storeId: scopedStoreId || req.user.storeId || SYSTEM_STORE_ID,
+        action: 'data_export',
+        entityType: 'report',
+        details: {
+          exportType: 'audit_logs',
+          startDate: query.startDate,
+          endDate: query.endDate,
+          storeId: scopedStoreId || 'all',
+          format,
+          entryCount: entries.length,
+          checkpointCount: checkpoints.length
+        },
+        metadata: getRequestMetadata(req),
+        severity: 'medium'
+      })
+
+      const filename = `audit-log-${query.startDate.slice(0, 10)}-${query.endDate.slice(0, 10)}`
+      if (format === 'json') {
+        res.setHeader('Content-Disposition', `attachment; filename="${filename}.json"`)
+        const bundle: AuditExportBundle = { entries, checkpoints }
+        return res.json(bundle)
+      }
+
+      res.setHeader('Content-Type', 'text/csv')
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`)
+      return res.send(formatAuditLogsCsv(entries))
+    } catch (error) {
+      if (error instanceof AuditValidationError) {
+        return res.status(400).json({ message: error.message })
+      }
+      console.error('Audit export error:', error)
+      return res.status(500).json({ message: 'Failed to export audit log' })
+    }
+  },
+
+  // Walk a store's hash chain and report the first break
+  async verifyChain(req: Request, res: Response): Promise<Response> {
+    try {
+      const storeId = scopeToUserStore(req, req.query.storeId as string | undefined)
+      if (storeId === null) {
+        return res.status(403).json({ message: 'Access denied to this store' })
+      }
+      if (!storeId) {
+        return res.status(400).json({ message: 'storeId is required' })
+      }
+
+      const verification = await verifyAuditChain(prisma, storeId)
+      return res.json(verification)
+    } catch (error) {
+      console.error('Audit verification error:', error)
+      return res.status(500).json({ message: 'Failed to verify audit chain' })
+    }
+  },
+
+  // List signed daily checkpoints for a date range
+  async getCheckpoints(req: Request, res: Response): Promise<Response> {
+    try {
+      const query = parseAuditQuery({
+        startDate: req.query.startDate,
+        endDate: req.query.endDate,
+        storeId: req.query.storeId
+      })
+      const storeId = scopeToUserStore(req, query.storeId)
+      if (storeId === null) {
+        return res.status(403).json({ message: 'Access denied to this store' })
+      }
+
+      const checkpoints = await listCheckpoints(prisma, {
+        storeId,
+        startDate: query.startDate ? toBusinessDate(query.startDate) : undefined,
+        endDate: query.endDate ? toBusinessDate(query.endDate) : undefined
+      })
+      return res.json(checkpoints)
+    } catch (error) {
+      if (error instanceof AuditValidationError) {
+        return res.status(400).json({ message: error.message })
+      }
+      console.error('Audit checkpoint list error:', error)
+      return res.status(500).json({ message: 'Failed to list audit checkpoints' })
+    }
+  },
+
+  // Sign the chain head at the end of a finished business day
+  async createCheckpoint(req: Request, res: Response): Promise<Response> {
+    try {
+      const { businessDate } = req.body as { businessDate?: string; storeId?: string }
+      if (!businessDate || !/^\d{4}-\d{2}-\d{2}$/.test(businessDate)) {
+        return res.status(400).json({ message: 'businessDate must be a date in the form YYYY-MM-DD' })
+      }
+
+      const storeId = scopeToUserStore(req, req.body.storeId)
+      if (storeId === null) {
+        return res.status(403).json({ message: 'Access denied to this store' })
+      }
+      if (!storeId) {
+        return res.status(400).json({ message: 'storeId is required' })
+      }
+
+      const store = await prisma.storeLocation.findUnique({ where: { id: storeId } })
+      if (!store) {
+        return res.status(404).json({ message: 'Store not found' })
+      }
+
+      const checkpoint = await createDailyCheckpoint(prisma, store, toBusinessDate(businessDate))
+      return res.status(201).json(toSignedCheckpoint(checkpoint))
+    } catch (error) {
+      if (error instanceof AuditChainError) {
+        return res.status(400).json({ message: error.message })
+      }
+      console.error('Audit checkpoint error:', error)
+      return res.status(500).json({ message: 'Failed to create audit checkpoint' })
+    }
+  }
+}
@@ -6,17 +6,27 @@ import {
   toAuthenticatedUser,
   hashPassword,
   validatePassword,
+  MAX_LOGIN_ATTEMPTS,
+  LOCKOUT_DURATION,
 } from '../../shared/services/auth'
-import type { LoginRequest, RefreshTokenRequest, LoginResponse } from '../../shared/types/auth'
+import type {
+  LoginRequest,
+  RefreshTokenRequest,
+  LoginResponse,
+  AuthenticatedUser,
+} from '../../shared/types/auth'
 import { AuthenticationError } from '../../shared/types/auth'
+import type { AuditAction, AuditSeverity } from '../../shared/types/audit'
+import {
+  recordAuditEventSafely,
+  getRequestMetadata,
+  SYSTEM_STORE_ID,
+} from '../../shared/services/auditTrail'
 import { prisma } from '../../shared/utils/database'
 
 // Track failed login attempts (in production, use Redis or database)
 const failedAttempts = new Map<string, { count: number; lockedUntil?: Date }>()
 
-const MAX_LOGIN_ATTEMPTS = 5
-const LOCKOUT_DURATION = 15 * 60 * 1000 // 15 minutes
-
 /**
  * Login endpoint
  * POST /api/auth/login
@@ -52,7 +62,11 @@ export async function login(req: Request, res: Response): Promise<void> {
 
     if (!user) {
       // Record failed attempt
-      recordFailedAttempt(username)
+      const locked = recordFailedAttempt(username)
+      await auditAuthEvent(req, locked ? 'account_locked' : 'login_failed', null, {
+        username,
+        reason: 'unknown_user',
+      })
       res.status(401).json({
         error: 'Invalid credentials',
         code: 'INVALID_CREDENTIALS',
@@ -62,6 +76,7 @@ export async function login(req: Request, res: Response): Promise<void> {
 
     // Check if user is active
     if (!user.isActive) {
+      await auditAuthEvent(req, 'login_failed', user, { username, reason: 'account_disabled' })
       res.status(401).json({
         error: 'Account is disabled',
         code: 'ACCOUNT_DISABLED',
@@ -71,6 +86,7 @@ export async function login(req: Request, res: Response): Promise<void> {
 
     // Check if account is locked (database level)
     if (user.lockedUntil && user.lockedUntil > new Date()) {
+      await auditAuthEvent(req, 'login_failed', user, { username, reason: 'account_locked' })
       res.status(401).json({
         error: 'Account is temporarily locked',
         code: 'ACCOUNT_LOCKED',
@@ -85,15 +101,20 @@ export async function login(req: Request, res: Response): Promise<void> {
       // Record failed attempt and increment database counter
       recordFailedAttempt(username)
 
+      const failedLoginAttempts = user.failedLoginAttempts + 1
+      const lockedUntil =
+        failedLoginAttempts >= MAX_LOGIN_ATTEMPTS ? new Date(Date.now() + LOCKOUT_DURATION) : null
+
       await prisma.user.update({
         where: { id: user.id },
-        data: {
-          failedLoginAttempts: user.failedLoginAttempts + 1,
-          lockedUntil:
-            user.failedLoginAttempts + 1 >= MAX_LOGIN_ATTEMPTS
-              ? new Date(Date.now() + LOCKOUT_DURATION)
-              : null,
-        },
+        data: { failedLoginAttempts, lockedUntil },
+      })
+
+      await auditAuthEvent(req, lockedUntil ? 'account_locked' : 'login_failed', user, {
+        username,
+        reason: 'invalid_password',
+        failedLoginAttempts,
+        ...(lockedUntil && { lockedUntil: lockedUntil.toISOString() }),
       })
 
       res.status(401).json({
@@ -120,6 +141,8 @@ export async function login(req: Request, res: Response): Promise<void> {
     const tokens = generateTokens(user)
     const authenticatedUser = toAuthenticatedUser(user)
 
+    await auditAuthEvent(req, 'login', authenticatedUser, { username: user.username })
+
     const response: LoginResponse = {
       user: authenticatedUser,
       tokens,
@@ -237,9 +260,12 @@ export async function getCurrentUser(req: Request, res: Response): Promise<void>
  * Logout endpoint (client-side token invalidation)
  * POST /api/auth/logout
  */
-export function logout(_req: Request, res: Response): void {
+export async function logout(req: Request, res: Response): Promise<void> {
   // In a full implementation, you might want to maintain a blacklist of tokens
   // For now, we rely on client-side token removal
+  if (req.user) {
+    await auditAuthEvent(req, 'logout', req.user, { username: req.user.username })
+  }
   res.json({ message: 'Logged out successfully' })
 }
 
@@ -313,6 +339,8 @@ export async function changePassword(req: Request, res: Response): Promise<void>
       },
     })
 
+    await auditAuthEvent(req, 'password_changed', req.user, { username: user.username })
+
     res.json({ message: 'Password changed successfully' })
   } catch (error) {
     console.error('Change password error:', error)
@@ -325,8 +353,9 @@ export async function changePassword(req: Request, res: Response): Promise<void>
 
 /**
  * Helper function to record failed login attempts
+ * Returns true when this attempt locks the username out
  */
-function recordFailedAttempt(username: string): void {
+function recordFailedAttempt(username: string): boolean {
   const current = failedAttempts.get(username) || { count: 0 }
   current.count++
 
@@ -335,4 +364,34 @@ function recordFailedAttempt(username: string): void {
   }
 
   failedAttempts.set(username, current)
+  return current.count === MAX_LOGIN_ATTEMPTS
+}
+
+const AUTH_EVENT_SEVERITY: Partial<Record<AuditAction, AuditSeverity>> = {
+  login_failed: 'medium',
+  account_locked: 'high',
+  password_changed: 'medium',
+}
+
+/**
+ * Helper function to write an authentication event to the audit log
+ * Attempts against unknown usernames are recorded against the system store
+ */
+async function auditAuthEvent(
+  req: Request,
+  action: AuditAction,
+  user: Pick<AuthenticatedUser, 'id' | 'role' | 'storeId'> | null,
+  details: Record<string, unknown>,
+): Promise<void> {
+  await recordAuditEventSafely(prisma, {
+    userId: user?.id || 'unknown',
+    userRole: user?.role || 'unknown',
+    storeId: user?.storeId || SYSTEM_STORE_ID,
+    action,
+    entityType: 'user',
+    entityId: user?.id,
+    details,
+    metadata: getRequestMetadata(req),
+    severity: AUTH_EVENT_SEVERITY[action] || 'low',
+  })
 }
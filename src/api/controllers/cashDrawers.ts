@@ -0,0 +1,326 @@
+import { Request, Response } from 'express'
+import { PrismaClient, Prisma } from '../../generated/prisma'
+import type { CashDrawerStatus } from '../../shared/types/database'
+import type {
+  OpenCashDrawerData,
+  CashDrawerEventData,
+  CloseCashDrawerData
+} from '../../shared/types/cashDrawers'
+import {
+  countDenominations,
+  findOpenDrawer,
+  summariseDrawer,
+  toCashDrawerEventResponse,
+  toCashDrawerResponse,
+  validateCashAvailable,
+  validateDenominationCount,
+  validateDrawerEvent,
+  validateOpeningFloat
+} from '../../shared/services/cashDrawer'
+import { recordAuditEvent, getRequestMetadata } from '../../shared/services/auditTrail'
+import { resolveApprover, ManagerApprovalError } from '../../shared/services/managerApproval'
+import { hasPermission } from '../../shared/services/auth'
+import { roundCurrency } from '../../shared/utils/money'
+
+const prisma = new PrismaClient()
+
+// Who performed a drawer action and from where, as recorded on audit entries
+const auditActor = (req: Request, storeId: string) => ({
+  userId: req.user.id,
+  userRole: req.user.role,
+  storeId,
+  metadata: getRequestMetadata(req)
+})
+
+// Managers may work any drawer in their store; cashiers only their own
+const canManageDrawer = (req: Request, session: { userId: string; storeId: string }) =>
+  session.userId === req.user.id ||
+  (hasPermission(req.user.role, 'transaction:update') &&
+    (req.user.role === 'ADMIN' || req.user.storeId === session.storeId))
+
+// Expected cash and over/short are for managers; cashiers count blind
+const canSeeReconciliation = (req: Request) => hasPermission(req.user.role, 'reports:view')
+
+export const cashDrawersController = {
+  // Open a drawer with its starting float
+  async openDrawer(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = req.user
+      if (!user) {
+        return res.status(401).json({ message: 'Employee authentication required' })
+      }
+
+      const { openingFloat, notes }: OpenCashDrawerData = req.body
+      const storeId = req.body.storeId || user.storeId
+      if (!storeId) {
+        return res.status(400).json({ message: 'Store is required to open a cash drawer' })
+      }
+
+      const errors = validateOpeningFloat(openingFloat)
+      if (errors.length > 0) {
+        return res.status(400).json({ message: 'Invalid cash drawer', errors })
+      }
+
+      if (await findOpenDrawer(prisma, user.id, storeId)) {
+        return res.status(409).json({ message: 'You already have an open cash drawer' })
+      }
+
+      const session = await prisma.$transaction(async (tx) => {
+        const session = await tx.cashDrawerSession.create({
+          data: { storeId, userId: user.id, openingFloat, notes }
+        })
+
+        await recordAuditEvent(tx, {
+          ...auditActor(req, storeId),
+          action: 'cash_drawer_opened',
+          entityType: 'cash_drawer',
+          entityId: session.id,
+          details: { openingFloat },
+          severity: 'low'
+        })
+
+        return session
+      })
+
+      return res.status(201).json({ session: toCashDrawerResponse({ ...session, events: [] }) })
+    } catch (error) {
+      console.error('Open cash drawer error:', error)
+      return res.status(500).json({ message: 'Failed to open cash drawer' })
+    }
+  },
+
+  // The signed-in employee's open drawer, if any; never shows what it should hold
+  async getCurrentDrawer(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = req.user
+      const storeId = (req.query.storeId as string) || user.storeId
+      if (!storeId) {
+        return res.status(400).json({ message: 'Store is required' })
+      }
+
+      const open = await findOpenDrawer(prisma, user.id, storeId)
+      if (!open) {
+        return res.json({ session: null })
+      }
+
+      const events = await prisma.cashDrawerEvent.findMany({
+        where: { sessionId: open.id },
+        orderBy: { createdAt: 'asc' }
+      })
+
+      return res.json({ session: toCashDrawerResponse({ ...open, events }) })
+    } catch (error) {
+      console.error('Get current cash drawer error:', error)
+      return res.status(500).json({ message: 'Failed to fetch cash drawer' })
+    }
+  },
+
+  // Pay cash in or out of a drawer, or drop it to the safe; paid-outs need a manager
+  async recordEvent(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = req.user
+      const input: CashDrawerEventData = req.body
+
+      const errors = validateDrawerEvent(input)
+      if (errors.length > 0) {
+        return res.status(400).json({ message: 'Invalid cash drawer event', errors })
+      }
+
+      const session = await prisma.cashDrawerSession.findUnique({ where: { id: req.params.id } })
+      if (!session || !canManageDrawer(req, session)) {
+        return res.status(404).json({ message: 'Cash drawer not found' })
+      }
+      if (session.status !== 'OPEN') {
+        return res.status(409).json({ message: 'Cash drawer is closed' })
+      }
+
+      const approver = input.eventType === 'PAID_OUT'
+        ? await resolveApprover(
+          prisma,
+          user,
+          'transaction:update',
+          session.storeId,
+          input.managerCredentials
+        )
+        : undefined
+
+      const summary = await summariseDrawer(prisma, session)
+      const cashErrors = validateCashAvailable(input.eventType, input.amount, summary)
+      if (cashErrors.length > 0) {
+        return res.status(400).json({ message: 'Invalid cash drawer event', errors: cashErrors })
+      }
+
+      const event = await prisma.$transaction(async (tx) => {
+        const event = await tx.cashDrawerEvent.create({
+          data: {
+            sessionId: session.id,
+            eventType: input.eventType,
+            amount: input.amount,
+            reason: input.reason?.trim() || undefined,
+            employeeId: user.id,
+            approvedById: approver?.id
+          }
+        })
+
+        await recordAuditEvent(tx, {
+          ...auditActor(req, session.storeId),
+          action: 'cash_drawer_adjusted',
+          entityType: 'cash_drawer',
+          entityId: session.id,
+          details: {
+            eventType: input.eventType,
+            amount: input.amount,
+            reason: input.reason,
+            approvedBy: approver && approver.id !== user.id ? approver.id : undefined
+          },
+          severity: input.eventType === 'PAID_OUT' ? 'medium' : 'low'
+        })
+
+        return event
+      })
+
+      return res.status(201).json({ event: toCashDrawerEventResponse(event) })
+    } catch (error) {
+      if (error instanceof ManagerApprovalError) {
+        return res.status(403).json({ message: error.message })
+      }
+      console.error('Cash drawer event error:', error)
+      return res.status(500).json({ message: 'Failed to record cash drawer event' })
+    }
+  },
+
+  // Close a drawer with a blind count; the over/short is worked out here, not by the cashier
+  async closeDrawer(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = req.user
+      const { denominations, notes }: CloseCashDrawerData = req.body
+
+      const errors = validateDenominationCount(denominations)
+      if (errors.length > 0) {
+        return res.status(400).json({ message: 'Invalid cash count', errors })
+      }
+
+      const session = await prisma.cashDrawerSession.findUnique({ where: { id: req.params.id } })
+      if (!session || !canManageDrawer(req, session)) {
+        return res.status(404).json({ message: 'Cash drawer not found' })
+      }
+
+      const closedAt = new Date()
+      const countedAmount = countDenominations(denominations)
+
+      const closed = await prisma.$transaction(async (tx) => {
+        const summary = await summariseDrawer(tx, session)
+        const overShort = roundCurrency(countedAmount - summary.expectedAmount)
+
+        // Only one close wins if the drawer is closed from two registers at once
+        const { count } = await tx.cashDrawerSession.updateMany({
+          where: { id: session.id, status: 'OPEN' },
+          data: {
+            status: 'CLOSED',
+            closedAt,
+            closedById: user.id,
+            denominationCount: denominations as Prisma.InputJsonValue,
+            countedAmount,
+            expectedAmount: summary.expectedAmount,
+            overShort,
+            notes: notes?.trim() || session.notes
+          }
+        })
+        if (count === 0) return null
+
+        await recordAuditEvent(tx, {
+          ...auditActor(req, session.storeId),
+          action: 'cash_drawer_closed',
+          entityType: 'cash_drawer',
+          entityId: session.id,
+          details: { ...summary, countedAmount, overShort },
+          severity: overShort === 0 ? 'low' : 'medium'
+        })
+
+        const closed = await tx.cashDrawerSession.findUnique({
+          where: { id: session.id },
+          include: { events: { orderBy: { createdAt: 'asc' } } }
+        })
+        return { session: closed!, summary }
+      })
+
+      if (!closed) {
+        return res.status(409).json({ message: 'Cash drawer is already closed' })
+      }
+
+      return res.json({
+        message: 'Cash drawer closed',
+        session: toCashDrawerResponse(closed.session, {
+          reconciled: canSeeReconciliation(req),
+          summary: closed.summary
+        })
+      })
+    } catch (error) {
+      console.error('Close cash drawer error:', error)
+      return res.status(500).json({ message: 'Failed to close cash drawer' })
+    }
+  },
+
+  // Drawer sessions with their over/short, for managers
+  async getDrawers(req: Request, res: Response): Promise<Response> {
+    try {
+      const { storeId, userId, status, startDate, endDate, page = 1, limit = 50 } = req.query
+      const pageNum = Math.max(1, Number(page) || 1)
+      const limitNum = Math.min(200, Math.max(1, Number(limit) || 50))
+
+      const where: Prisma.CashDrawerSessionWhereInput = {
+        storeId: (storeId as string) || undefined,
+        userId: (userId as string) || undefined,
+        status: (status as CashDrawerStatus) || undefined
+      }
+      if (startDate || endDate) {
+        where.openedAt = {
+          gte: startDate ? new Date(startDate as string) : undefined,
+          lte: endDate ? new Date(endDate as string) : undefined
+        }
+      }
+
+      const [sessions, total] = await Promise.all([
+        prisma.cashDrawerSession.findMany({
+          where,
+          orderBy: { openedAt: 'desc' },
+          skip: (pageNum - 1) * limitNum,
+          take: limitNum
+        }),
+        prisma.cashDrawerSession.count({ where })
+      ])
+
+      return res.json({
+        sessions: sessions.map(session => toCashDrawerResponse(session, { reconciled: true })),
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum)
+        }
+      })
+    } catch (error) {
+      console.error('Get cash drawers error:', error)
+      return res.status(500).json({ message: 'Failed to fetch cash drawers' })
+    }
+  },
+
+  // One drawer with its events and where its expected cash came from
+  async getDrawer(req: Request, res: Response): Promise<Response> {
+    try {
+      const session = await prisma.cashDrawerSession.findUnique({
+        where: { id: req.params.id },
+        include: { events: { orderBy: { createdAt: 'asc' } } }
+      })
+      if (!session) {
+        return res.status(404).json({ message: 'Cash drawer not found' })
+      }
+
+      const summary = await summariseDrawer(prisma, session)
+      return res.json({ session: toCashDrawerResponse(session, { reconciled: true, summary }) })
+    } catch (error) {
+      console.error('Get cash drawer error:', error)
+      return res.status(500).json({ message: 'Failed to fetch cash drawer' })
+    }
+  }
+}
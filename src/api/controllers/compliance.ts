@@ -0,0 +1,466 @@
+import { Request, Response } from 'express'
+import { PrismaClient, Prisma } from '../../generated/prisma'
+import type { ComplianceRule } from '../../generated/prisma'
+import type { JurisdictionType, RuleType, EnforcementPriority } from '../../shared/types/database'
+import type {
+  CreateComplianceRuleData,
+  UpdateComplianceRuleData
+} from '../../shared/types/compliance'
+import {
+  getStoreJurisdictions,
+  loadActiveComplianceRules
+} from '../../shared/services/complianceEngine'
+import {
+  validateRuleDetails,
+  normaliseJurisdictionCode,
+  groupOverlappingRules,
+  previewRuleAgainstCatalog
+} from '../../shared/services/complianceRules'
+
+const prisma = new PrismaClient()
+
+const RULE_TYPES: RuleType[] = [
+  'AGE_VERIFICATION',
+  'FLAVOR_BAN',
+  'TAX_RATE',
+  'PRODUCT_RESTRICTION',
+  'QUANTITY_LIMIT'
+]
+const JURISDICTION_TYPES: JurisdictionType[] = ['FEDERAL', 'STATE', 'COUNTY', 'CITY']
+const PRIORITIES: EnforcementPriority[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']
+const DEFAULT_PREVIEW_TIMEZONE = 'America/New_York'
+const ONE_DAY_MS = 24 * 60 * 60 * 1000
+
+// Rule dates are calendar dates (@db.Date), held as UTC midnight
+const toDateOnly = (value: string | Date): Date | null => {
+  const date = new Date(value)
+  if (isNaN(date.getTime())) return null
+  return new Date(date.toISOString().slice(0, 10))
+}
+
+const today = (): Date => toDateOnly(new Date()) as Date
+
+interface RuleInputResult {
+  data?: Prisma.ComplianceRuleUncheckedCreateInput
+  errors: string[]
+}
+
+// Validates and normalises a full rule definition (create, or update merged onto the existing rule)
+const buildRuleInput = (input: CreateComplianceRuleData): RuleInputResult => {
+  const errors: string[] = []
+
+  if (!RULE_TYPES.includes(input.ruleType)) {
+    errors.push(`ruleType must be one of ${RULE_TYPES.join(', ')}`)
+  }
+  if (!JURISDICTION_TYPES.includes(input.jurisdictionType)) {
+    errors.push(`jurisdictionType must be one of ${JURISDICTION_TYPES.join(', ')}`)
+  }
+  if (input.enforcementPriority && !PRIORITIES.includes(input.enforcementPriority)) {
+    errors.push(`enforcementPriority must be one of ${PRIORITIES.join(', ')}`)
+  }
+
+  const jurisdictionCode = normaliseJurisdictionCode(input.jurisdictionType, input.jurisdictionCode)
+  if (!jurisdictionCode) {
+    errors.push(
+      input.jurisdictionType === 'COUNTY' || input.jurisdictionType === 'CITY'
+        ? 'jurisdictionCode must be in the form <STATE>-<NAME>, e.g. CA-SAN FRANCISCO'
+        : 'jurisdictionCode must be a two-letter code'
+    )
+  }
+
+  const effectiveDate = input.effectiveDate ? toDateOnly(input.effectiveDate) : null
+  if (!effectiveDate) {
+    errors.push('effectiveDate is required and must be a valid date')
+  }
+
+  const endDate = input.endDate ? toDateOnly(input.endDate) : null
+  if (input.endDate && !endDate) {
+    errors.push('endDate must be a valid date')
+  } else if (endDate && effectiveDate && endDate < effectiveDate) {
+    errors.push('endDate must not be before effectiveDate')
+  }
+
+  if (RULE_TYPES.includes(input.ruleType)) {
+    errors.push(...validateRuleDetails(input.ruleType, input.ruleDetails))
+  }
+
+  if (errors.length > 0) {
+    return { errors }
+  }
+
+  return {
+    errors,
+    data: {
+      ruleType: input.ruleType,
+      jurisdictionType: input.jurisdictionType,
+      jurisdictionCode: jurisdictionCode as string,
+      ruleDetails: input.ruleDetails as Prisma.InputJsonValue,
+      effectiveDate: effectiveDate as Date,
+      endDate,
+      ruleSource: input.ruleSource || null,
+      referenceUrl: input.referenceUrl || null,
+      enforcementPriority: input.enforcementPriority || 'HIGH'
+    }
+  }
+}
+
+const toRuleInput = (rule: ComplianceRule): CreateComplianceRuleData => ({
+  ruleType: rule.ruleType,
+  jurisdictionType: rule.jurisdictionType,
+  jurisdictionCode: rule.jurisdictionCode,
+  ruleDetails: rule.ruleDetails as CreateComplianceRuleData['ruleDetails'],
+  effectiveDate: rule.effectiveDate.toISOString(),
+  endDate: rule.endDate ? rule.endDate.toISOString() : null,
+  ruleSource: rule.ruleSource || undefined,
+  referenceUrl: rule.referenceUrl || undefined,
+  enforcementPriority: rule.enforcementPriority
+})
+
+export const complianceController = {
+  // Get compliance rules with filters and pagination
+  async getRules(req: Request, res: Response): Promise<Response> {
+    try {
+      const page = parseInt(req.query.page as string) || 1
+      const limit = parseInt(req.query.limit as string) || 50
+      const skip = (page - 1) * limit
+      const status = (req.query.status as string) || 'all'
+      const includeHistory = req.query.includeHistory === 'true'
+      const now = today()
+
+      const where: Prisma.ComplianceRuleWhereInput = {}
+      if (req.query.ruleType) where.ruleType = req.query.ruleType as RuleType
+      if (req.query.jurisdictionType) {
+        where.jurisdictionType = req.query.jurisdictionType as JurisdictionType
+      }
+      if (req.query.jurisdictionCode) {
+        where.jurisdictionCode = (req.query.jurisdictionCode as string).toUpperCase()
+      }
+      if (!includeHistory) {
+        // Only the latest version of each rule
+        where.nextVersion = { is: null }
+      }
+
+      switch (status) {
+        case 'active':
+          where.isActive = true
+          where.effectiveDate = { lte: now }
+          where.OR = [{ endDate: null }, { endDate: { gte: now } }]
+          break
+        case 'scheduled':
+          where.isActive = true
+          where.effectiveDate = { gt: now }
+          break
+        case 'expired':
+          where.isActive = true
+          where.endDate = { lt: now }
+          break
+        case 'retired':
+          where.isActive = false
+          break
+      }
+
+      const [rules, total] = await Promise.all([
+        prisma.complianceRule.findMany({
+          where,
+          skip,
+          take: limit,
+          orderBy: [{ ruleType: 'asc' }, { jurisdictionType: 'asc' }, { effectiveDate: 'desc' }]
+        }),
+        prisma.complianceRule.count({ where })
+      ])
+
+      return res.json({
+        rules,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      })
+    } catch (error) {
+      console.error('Get compliance rules error:', error)
+      return res.status(500).json({ message: 'Failed to retrieve compliance rules' })
+    }
+  },
+
+  // Get a rule with its version history (newest first)
+  async getRule(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params
+
+      const rule = await prisma.complianceRule.findUnique({
+        where: { id },
+        include: { nextVersion: { select: { id: true } } }
+      })
+
+      if (!rule) {
+        return res.status(404).json({ message: 'Compliance rule not found' })
+      }
+
+      const versions: ComplianceRule[] = []
+      let previousVersionId = rule.previousVersionId
+      while (previousVersionId) {
+        const previous = await prisma.complianceRule.findUnique({ where: { id: previousVersionId } })
+        if (!previous) break
+        versions.push(previous)
+        previousVersionId = previous.previousVersionId
+      }
+
+      return res.json({ rule, versions })
+    } catch (error) {
+      console.error('Get compliance rule error:', error)
+      return res.status(500).json({ message: 'Failed to retrieve compliance rule' })
+    }
+  },
+
+  // Create a new compliance rule
+  async createRule(req: Request, res: Response): Promise<Response> {
+    try {
+      const input: CreateComplianceRuleData = req.body
+      const { data, errors } = buildRuleInput(input)
+
+      if (!data) {
+        return res.status(400).json({ message: 'Invalid compliance rule', errors })
+      }
+
+      const rule = await prisma.complianceRule.create({ data })
+
+      return res.status(201).json({
+        message: 'Compliance rule created successfully',
+        rule
+      })
+    } catch (error) {
+      console.error('Compliance rule creation error:', error)
+      return res.status(500).json({
+        message: 'Failed to create compliance rule',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  },
+
+  // Update a rule. Rules that have not taken effect yet are edited in place;
+  // rules already in effect are end-dated and replaced by a new version so the
+  // rule that applied to past sales is preserved.
+  async updateRule(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params
+      const changes: UpdateComplianceRuleData = req.body
+
+      const existing = await prisma.complianceRule.findUnique({
+        where: { id },
+        include: { nextVersion: { select: { id: true } } }
+      })
+
+      if (!existing) {
+        return res.status(404).json({ message: 'Compliance rule not found' })
+      }
+
+      if (existing.nextVersion) {
+        return res.status(400).json({
+          message: 'Only the latest version of a rule can be edited',
+          latestVersionId: existing.nextVersion.id
+        })
+      }
+
+      if (!existing.isActive) {
+        return res.status(400).json({ message: 'Retired rules cannot be edited' })
+      }
+
+      const now = today()
+      const inEffect = existing.effectiveDate <= now
+      const merged: CreateComplianceRuleData = {
+        ...toRuleInput(existing),
+        ...changes,
+        ruleType: existing.ruleType,
+        // A new version takes effect today unless a later date is given
+        effectiveDate:
+          changes.effectiveDate ||
+          (inEffect ? now.toISOString() : existing.effectiveDate.toISOString())
+      }
+
+      const { data, errors } = buildRuleInput(merged)
+      if (!data) {
+        return res.status(400).json({ message: 'Invalid compliance rule', errors })
+      }
+
+      if (!inEffect) {
+        const rule = await prisma.complianceRule.update({
+          where: { id },
+          data
+        })
+
+        return res.json({
+          message: 'Compliance rule updated successfully',
+          rule
+        })
+      }
+
+      const newEffectiveDate = data.effectiveDate as Date
+      if (newEffectiveDate < now) {
+        return res.status(400).json({
+          message: 'A new version of a rule in effect cannot take effect in the past'
+        })
+      }
+
+      const previousEndDate = new Date(newEffectiveDate.getTime() - ONE_DAY_MS)
+      const supersededBeforeStart = previousEndDate < existing.effectiveDate
+
+      const [previousVersion, rule] = await prisma.$transaction([
+        prisma.complianceRule.update({
+          where: { id },
+          data: supersededBeforeStart
+            ? { isActive: false, endDate: existing.effectiveDate }
+            : { endDate: previousEndDate }
+        }),
+        prisma.complianceRule.create({
+          data: {
+            ...data,
+            previousVersionId: existing.id
+          }
+        })
+      ])
+
+      return res.json({
+        message: 'Compliance rule updated as a new version',
+        rule,
+        previousVersion
+      })
+    } catch (error) {
+      console.error('Compliance rule update error:', error)
+      return res.status(500).json({
+        message: 'Failed to update compliance rule',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  },
+
+  // Retire a rule, either immediately or from a future end date
+  async retireRule(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params
+      const { endDate } = req.body as { endDate?: string }
+
+      const existing = await prisma.complianceRule.findUnique({ where: { id } })
+
+      if (!existing) {
+        return res.status(404).json({ message: 'Compliance rule not found' })
+      }
+
+      if (!existing.isActive) {
+        return res.status(400).json({ message: 'Compliance rule is already retired' })
+      }
+
+      let data: Prisma.ComplianceRuleUpdateInput
+      if (endDate) {
+        const lastDay = toDateOnly(endDate)
+        if (!lastDay || lastDay < today()) {
+          return res.status(400).json({ message: 'endDate must be today or later' })
+        }
+        if (lastDay < existing.effectiveDate) {
+          return res.status(400).json({ message: 'endDate must not be before effectiveDate' })
+        }
+        data = { endDate: lastDay }
+      } else {
+        data = { isActive: false, endDate: existing.endDate || today() }
+      }
+
+      const rule = await prisma.complianceRule.update({ where: { id }, data })
+
+      return res.json({
+        message: endDate ? 'Compliance rule scheduled to end' : 'Compliance rule retired',
+        rule
+      })
+    } catch (error) {
+      console.error('Compliance rule retire error:', error)
+      return res.status(500).json({ message: 'Failed to retire compliance rule' })
+    }
+  },
+
+  // Show rules in force for a location and where they overlap across jurisdictions
+  async getOverlaps(req: Request, res: Response): Promise<Response> {
+    try {
+      const { storeId, stateCode, county, city } = req.query as Record<string, string | undefined>
+
+      let location: { countryCode: string; stateCode: string; county: string | null; city: string | null }
+      let timezone = DEFAULT_PREVIEW_TIMEZONE
+
+      if (storeId) {
+        const store = await prisma.storeLocation.findUnique({ where: { id: storeId } })
+        if (!store) {
+          return res.status(404).json({ message: 'Store not found' })
+        }
+        location = store
+        timezone = store.timezone
+      } else if (stateCode) {
+        location = { countryCode: 'US', stateCode, county: county || null, city: city || null }
+      } else {
+        return res.status(400).json({ message: 'storeId or stateCode is required' })
+      }
+
+      const jurisdictions = getStoreJurisdictions(location)
+      const rules = await loadActiveComplianceRules(prisma, jurisdictions, new Date(), timezone)
+
+      return res.json({
+        jurisdictions,
+        rules,
+        overlaps: groupOverlappingRules(rules)
+      })
+    } catch (error) {
+      console.error('Compliance overlap error:', error)
+      return res.status(500).json({ message: 'Failed to check overlapping rules' })
+    }
+  },
+
+  // Preview what a saved or draft rule would block against the current catalog
+  async previewRule(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params
+      const timezone = (req.body?.timezone as string) || DEFAULT_PREVIEW_TIMEZONE
+
+      let rule: ComplianceRule
+      if (id) {
+        const existing = await prisma.complianceRule.findUnique({ where: { id } })
+        if (!existing) {
+          return res.status(404).json({ message: 'Compliance rule not found' })
+        }
+        rule = existing
+      } else {
+        const { data, errors } = buildRuleInput(req.body as CreateComplianceRuleData)
+        if (!data) {
+          return res.status(400).json({ message: 'Invalid compliance rule', errors })
+        }
+        rule = {
+          ...data,
+          id: 'preview',
+          ruleDetails: data.ruleDetails as Prisma.JsonValue,
+          endDate: data.endDate as Date | null,
+          ruleSource: data.ruleSource || null,
+          referenceUrl: data.referenceUrl || null,
+          enforcementPriority: data.enforcementPriority || 'HIGH',
+          previousVersionId: null,
+          isActive: true,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        } as ComplianceRule
+      }
+
+      const products = await prisma.product.findMany({
+        where: { isActive: true },
+        select: {
+          id: true,
+          name: true,
+          sku: true,
+          category: true,
+          flavorProfile: true,
+          ageRestricted: true
+        }
+      })
+
+      return res.json(previewRuleAgainstCatalog(rule, products, timezone))
+    } catch (error) {
+      console.error('Compliance rule preview error:', error)
+      return res.status(500).json({ message: 'Failed to preview compliance rule' })
+    }
+  }
+}
@@ -1,9 +1,39 @@
 import { Request, Response } from 'express'
 import { PrismaClient } from '../../generated/prisma'
-import type { CreateCustomerData, UpdateCustomerData } from '../../shared/types/customers'
+import type {
+  CreateCustomerData,
+  UpdateCustomerData,
+  LoyaltyPointsUpdate
+} from '../../shared/types/customers'
+import type { LoyaltyLedgerType } from '../../shared/types/database'
+import {
+  recordAuditEvent,
+  getRequestMetadata,
+  SYSTEM_STORE_ID
+} from '../../shared/services/auditTrail'
+import { resolveApprover, ManagerApprovalError } from '../../shared/services/managerApproval'
+import {
+  LoyaltyRedemptionError,
+  loadAllTierSettings,
+  resolveTier
+} from '../../shared/services/loyalty'
+import {
+  postLoyaltyEntry,
+  toLedgerEntry,
+  LOYALTY_LEDGER_TYPES
+} from '../../shared/services/loyaltyLedger'
 
 const prisma = new PrismaClient()
 
+// Points change through the ledger and tiers through the tier rules, never by editing the customer
+const LOYALTY_MANAGED_FIELDS = [
+  'loyaltyPoints',
+  'loyaltyTier',
+  'totalSpent',
+  'pointsLifetimeEarned',
+  'pointsLifetimeRedeemed'
+]
+
 export const customerController = {
   // Create a new customer
   async createCustomer(req: Request, res: Response): Promise<Response> {
@@ -30,18 +60,35 @@ export const customerController = {
         }
       }
 
-      // Calculate loyalty tier based on total spent
-      const loyaltyTier = calculateLoyaltyTier(customerData.totalSpent || 0)
-
-      const customer = await prisma.customer.create({
-        data: {
-          ...customerData,
-          loyaltyTier,
-          loyaltyPoints: customerData.loyaltyPoints || 0,
-          pointsLifetimeEarned: customerData.loyaltyPoints || 0,
-          totalSpent: customerData.totalSpent || 0,
-          transactionCount: 0
-        }
+      // Imported customers start in the tier their spend so far qualifies for;
+      // the nightly loyalty job settles it against the last 12 months
+      const loyaltyTier = resolveTier(
+        await loadAllTierSettings(prisma),
+        customerData.totalSpent || 0
+      )
+
+      const customer = await prisma.$transaction(async (tx) => {
+        const created = await tx.customer.create({
+          data: {
+            ...customerData,
+            loyaltyTier,
+            loyaltyPoints: 0,
+            pointsLifetimeEarned: customerData.loyaltyPoints || 0,
+            totalSpent: customerData.totalSpent || 0,
+            transactionCount: 0
+          }
+        })
+
+        // Points brought over from another program go through the ledger
+        if (!customerData.loyaltyPoints) return created
+        await postLoyaltyEntry(tx, {
+          customerId: created.id,
+          entryType: 'ADJUST',
+          points: customerData.loyaltyPoints,
+          employeeId: req.user?.id,
+          reason: 'Opening balance'
+        })
+        return tx.customer.findUniqueOrThrow({ where: { id: created.id } })
       })
 
       return res.status(201).json({
@@ -168,7 +215,11 @@ export const customerController = {
   async updateCustomer(req: Request, res: Response): Promise<Response> {
     try {
       const { id } = req.params
-      const updateData: UpdateCustomerData = req.body
+      const updateData = Object.fromEntries(
+        Object.entries(req.body as UpdateCustomerData).filter(
+          ([field]) => !LOYALTY_MANAGED_FIELDS.includes(field)
+        )
+      ) as UpdateCustomerData
 
       // Check if customer exists
       const existingCustomer = await prisma.customer.findUnique({
@@ -192,11 +243,6 @@ export const customerController = {
         }
       }
 
-      // Update loyalty tier if total spent changed
-      if (updateData.totalSpent !== undefined) {
-        updateData.loyaltyTier = calculateLoyaltyTier(updateData.totalSpent)
-      }
-
       const customer = await prisma.customer.update({
         where: { id },
         data: updateData
@@ -242,7 +288,8 @@ export const customerController = {
           email: true,
           phoneNumber: true,
           loyaltyTier: true,
-          loyaltyPoints: true
+          loyaltyPoints: true,
+          storeCreditBalance: true
         }
       })
 
@@ -253,18 +300,80 @@ export const customerController = {
     }
   },
 
+  // Points history for a customer, newest first
+  async getLoyaltyLedger(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params
+      const page = parseInt(req.query.page as string) || 1
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100)
+      const entryType = req.query.entryType as LoyaltyLedgerType | undefined
+      const skip = (page - 1) * limit
+
+      if (entryType && !LOYALTY_LEDGER_TYPES.includes(entryType)) {
+        return res.status(400).json({
+          message: `entryType must be one of ${LOYALTY_LEDGER_TYPES.join(', ')}`
+        })
+      }
+
+      const customer = await prisma.customer.findUnique({
+        where: { id },
+        select: { loyaltyPoints: true }
+      })
+
+      if (!customer) {
+        return res.status(404).json({ message: 'Customer not found' })
+      }
+
+      const where = { customerId: id, ...(entryType && { entryType }) }
+      const [entries, total] = await Promise.all([
+        prisma.loyaltyLedger.findMany({
+          where,
+          include: {
+            transaction: { select: { receiptNumber: true } },
+            employee: { select: { firstName: true, lastName: true } }
+          },
+          orderBy: { createdAt: 'desc' },
+          skip,
+          take: limit
+        }),
+        prisma.loyaltyLedger.count({ where })
+      ])
+
+      return res.json({
+        entries: entries.map(toLedgerEntry),
+        balance: customer.loyaltyPoints,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      })
+    } catch (error) {
+      console.error('Get loyalty ledger error:', error)
+      return res.status(500).json({ message: 'Failed to fetch loyalty history' })
+    }
+  },
+
   // Calculate and update customer loyalty points
   async updateLoyaltyPoints(req: Request, res: Response): Promise<Response> {
     try {
-      const { id } = req.params
-      const { points, operation } = req.body as {
-        points: number
-        operation: 'earn' | 'redeem'
-        reason: string
+      const user = req.user
+      if (!user) {
+        return res.status(401).json({ message: 'Employee authentication required' })
       }
 
-      if (!points || points <= 0) {
-        return res.status(400).json({ message: 'Points must be a positive number' })
+      const { id } = req.params
+      const { points, operation, reason, managerCredentials } = req.body as LoyaltyPointsUpdate
+
+      if (!Number.isInteger(points) || points <= 0) {
+        return res.status(400).json({ message: 'Points must be a positive whole number' })
+      }
+      if (operation !== 'earn' && operation !== 'redeem') {
+        return res.status(400).json({ message: "Operation must be 'earn' or 'redeem'" })
+      }
+      if (!reason || !reason.trim()) {
+        return res.status(400).json({ message: 'A reason is required to adjust loyalty points' })
       }
 
       const customer = await prisma.customer.findUnique({
@@ -275,46 +384,69 @@ export const customerController = {
         return res.status(404).json({ message: 'Customer not found' })
       }
 
-      let updateData: any = {}
+      const approver = await resolveApprover(
+        prisma,
+        user,
+        'loyalty:adjust',
+        user.storeId || '',
+        managerCredentials
+      )
 
-      if (operation === 'earn') {
-        updateData = {
-          loyaltyPoints: { increment: points },
-          pointsLifetimeEarned: { increment: points }
-        }
-      } else if (operation === 'redeem') {
-        if (customer.loyaltyPoints < points) {
-          return res.status(400).json({
-            message: `Insufficient points. Customer has ${customer.loyaltyPoints} points.`
-          })
-        }
-        updateData = {
-          loyaltyPoints: { decrement: points },
-          pointsLifetimeRedeemed: { increment: points }
-        }
+      if (operation === 'redeem' && customer.loyaltyPoints < points) {
+        return res.status(400).json({
+          message: `Insufficient points. Customer has ${customer.loyaltyPoints} points.`
+        })
       }
 
-      const updatedCustomer = await prisma.customer.update({
-        where: { id },
-        data: updateData
+      // Manual adjustments correct the balance only; lifetime totals count
+      // points earned and spent on sales
+      const updatedCustomer = await prisma.$transaction(async (tx) => {
+        await postLoyaltyEntry(tx, {
+          customerId: id,
+          entryType: 'ADJUST',
+          points: operation === 'earn' ? points : -points,
+          employeeId: user.id,
+          reason: reason.trim()
+        })
+        const updated = await tx.customer.findUniqueOrThrow({ where: { id } })
+
+        await recordAuditEvent(tx, {
+          userId: user.id,
+          userRole: user.role,
+          storeId: user.storeId || SYSTEM_STORE_ID,
+          action: 'loyalty_points_adjusted',
+          entityType: 'customer',
+          entityId: id,
+          details: {
+            operation,
+            points,
+            reason: reason.trim(),
+            balanceBefore: customer.loyaltyPoints,
+            balanceAfter: updated.loyaltyPoints,
+            approvedBy: approver.id,
+            approvedByRole: approver.role
+          },
+          metadata: getRequestMetadata(req),
+          severity: 'medium'
+        })
+
+        return updated
       })
 
       return res.json({
-        message: `Points ${operation === 'earn' ? 'earned' : 'redeemed'} successfully`,
+        message: `Points ${operation === 'earn' ? 'added' : 'deducted'} successfully`,
         customer: updatedCustomer,
         pointsChanged: operation === 'earn' ? points : -points
       })
     } catch (error) {
+      if (error instanceof LoyaltyRedemptionError) {
+        return res.status(400).json({ message: error.message })
+      }
+      if (error instanceof ManagerApprovalError) {
+        return res.status(403).json({ message: error.message })
+      }
       console.error('Loyalty points update error:', error)
       return res.status(500).json({ message: 'Failed to update loyalty points' })
     }
   }
 }
-
-// Helper function to calculate loyalty tier based on total spent
-function calculateLoyaltyTier(totalSpent: number) {
-  if (totalSpent >= 5000) return 'PLATINUM'
-  if (totalSpent >= 2000) return 'GOLD'  
-  if (totalSpent >= 500) return 'SILVER'
-  return 'BRONZE'
-}
\ No newline at end of file
@@ -0,0 +1,564 @@
+import { Request, Response } from 'express'
+import { PrismaClient, Prisma } from '../../generated/prisma'
+import type { GiftCardStatus, PaymentMethod } from '../../shared/types/database'
+import type { TransactionTenderData } from '../../shared/types/transactions'
+import type {
+  ActivateGiftCardData,
+  ReloadGiftCardData,
+  GiftCardBalanceRequest,
+  RedeemGiftCardData,
+  RefundToGiftCardData,
+  UpdateGiftCardStatusData
+} from '../../shared/types/giftCards'
+import {
+  GIFT_CARD_FUNDING_METHODS,
+  GIFT_CARD_STATUSES,
+  GiftCardError,
+  assertGiftCardUsable,
+  authorizeGiftCard,
+  generateCardNumber,
+  generatePin,
+  getGiftCardLiability,
+  hashGiftCardPin,
+  normalizeCardNumber,
+  postGiftCardEntry,
+  redeemGiftCard,
+  toGiftCardLedgerEntry,
+  toGiftCardResponse,
+  validateActivation,
+  validateLoadAmount
+} from '../../shared/services/giftCardLedger'
+import { postQuickBooksGiftCardEntry } from '../../shared/services/quickbooksSync'
+import { recordAuditEvent, getRequestMetadata } from '../../shared/services/auditTrail'
+import { resolveApprover, ManagerApprovalError } from '../../shared/services/managerApproval'
+import {
+  releaseCardTenders,
+  verifyCardTenders,
+  TenderError
+} from '../../shared/services/checkoutTenders'
+import { getStoreProcessor } from '../../shared/services/paymentGateway'
+import { PaymentProcessorError } from '../../shared/services/paymentProcessor'
+import type { PaymentProcessor } from '../../shared/services/paymentProcessor'
+import { requireOpenDrawer, CashDrawerError } from '../../shared/services/cashDrawer'
+import { roundCurrency, toAmount } from '../../shared/utils/money'
+
+const prisma = new PrismaClient()
+
+// Who performed a gift card action and from where, as recorded on audit entries
+const auditActor = (req: Request, storeId: string) => ({
+  userId: req.user.id,
+  userRole: req.user.role,
+  storeId,
+  metadata: getRequestMetadata(req)
+})
+
+// Keeps non-admins to their own store; null means the store asked for is not theirs
+const scopeToUserStore = (req: Request, storeId?: string): string | undefined | null => {
+  if (req.user?.role === 'ADMIN') return storeId || req.user.storeId || undefined
+  if (!req.user?.storeId) return null
+  if (storeId && storeId !== req.user.storeId) return null
+  return req.user.storeId
+}
+
+const findCard = (cardNumber: string) =>
+  prisma.giftCard.findUnique({ where: { cardNumber: normalizeCardNumber(cardNumber) } })
+
+// How a card load is paid for: cash into the cashier's drawer, or a card the processor authorized
+interface LoadPayment {
+  cashDrawerSessionId?: string
+  processor: PaymentProcessor | null
+  card?: TransactionTenderData
+}
+
+// Checks the money for a load is there before the card is touched, the same way checkout does
+const prepareLoadPayment = async (
+  userId: string,
+  storeId: string,
+  paymentMethod: PaymentMethod,
+  amount: number,
+  paymentReference?: string
+): Promise<LoadPayment> => {
+  if (paymentMethod === 'CASH') {
+    const drawer = await requireOpenDrawer(prisma, userId, storeId)
+    return { cashDrawerSessionId: drawer.id, processor: null }
+  }
+
+  const store = await prisma.storeLocation.findUnique({ where: { id: storeId } })
+  const processor = store ? getStoreProcessor(store) : null
+  const [card] = await verifyCardTenders(processor, [
+    { method: 'CARD', amount, reference: paymentReference }
+  ])
+  return { processor, card }
+}
+
+// Ledger fields recording how a load was paid for
+const toLoadPaymentFields = (paymentMethod: PaymentMethod, payment: LoadPayment) => ({
+  paymentMethod,
+  paymentReference: payment.card?.reference,
+  paymentProcessor: payment.card?.processor,
+  cashDrawerSessionId: payment.cashDrawerSessionId
+})
+
+// Takes the card money once the load has saved; a failed capture is left for the store to follow up
+const captureLoadPayment = async (payment: LoadPayment): Promise<void> => {
+  if (!payment.processor || !payment.card?.reference) return
+  try {
+    await payment.processor.capture(payment.card.reference, payment.card.amount)
+  } catch (error) {
+    console.error('Gift card load capture error:', error)
+  }
+}
+
+const releaseLoadPayment = (payment: LoadPayment) =>
+  releaseCardTenders(payment.processor, payment.card ? [payment.card] : [])
+
+// Problems paying for a load, as responses
+const respondToLoadPaymentError = (res: Response, error: unknown): Response | undefined => {
+  if (error instanceof TenderError) {
+    return res.status(400).json({ message: error.message })
+  }
+  if (error instanceof PaymentProcessorError) {
+    return res.status(error.code === 'TIMEOUT' ? 504 : 502).json({ message: error.message })
+  }
+  if (error instanceof CashDrawerError) {
+    return res.status(409).json({ message: error.message })
+  }
+  return undefined
+}
+
+export const giftCardsController = {
+  // Sell a card and load its opening balance; the money is a liability, not a sale
+  async activateGiftCard(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = req.user
+      if (!user) {
+        return res.status(401).json({ message: 'Employee authentication required' })
+      }
+
+      const storeId = scopeToUserStore(req, req.body.storeId)
+      if (storeId === null) {
+        return res.status(403).json({ message: 'Access denied to this store' })
+      }
+      if (!storeId) {
+        return res.status(400).json({ message: 'Store is required to sell a gift card' })
+      }
+
+      const input: ActivateGiftCardData = req.body
+      const now = new Date()
+      const errors = validateActivation(input, now)
+      if (errors.length > 0) {
+        return res.status(400).json({ message: 'Invalid gift card', errors })
+      }
+
+      const cardNumber = input.cardNumber ? normalizeCardNumber(input.cardNumber) : generateCardNumber()
+      // A generated PIN is shown once so it can be written on the card
+      const generatedPin = input.pin ? undefined : generatePin()
+      const pinHash = await hashGiftCardPin(input.pin || generatedPin!)
+
+      if (await findCard(cardNumber)) {
+        return res.status(409).json({ message: 'Gift card has already been issued' })
+      }
+
+      const payment = await prepareLoadPayment(
+        user.id,
+        storeId,
+        input.paymentMethod,
+        input.amount,
+        input.paymentReference
+      )
+
+      const { card, entry } = await prisma.$transaction(async (tx) => {
+        const card = await tx.giftCard.create({
+          data: {
+            cardNumber,
+            pinHash,
+            storeId,
+            customerId: input.customerId || null,
+            expiresAt: input.expiresAt ? new Date(input.expiresAt) : null
+          }
+        })
+
+        const entry = await postGiftCardEntry(tx, {
+          giftCardId: card.id,
+          entryType: 'ACTIVATE',
+          amount: input.amount,
+          storeId,
+          employeeId: user.id,
+          ...toLoadPaymentFields(input.paymentMethod, payment)
+        })
+
+        await recordAuditEvent(tx, {
+          ...auditActor(req, storeId),
+          action: 'gift_card_issued',
+          entityType: 'gift_card',
+          entityId: card.id,
+          details: {
+            last4: cardNumber.slice(-4),
+            amount: input.amount,
+            paymentMethod: input.paymentMethod,
+            customerId: card.customerId
+          },
+          severity: 'medium'
+        })
+
+        return { card: await tx.giftCard.findUniqueOrThrow({ where: { id: card.id } }), entry }
+      }).catch(async (error) => {
+        await releaseLoadPayment(payment)
+        throw error
+      })
+
+      await captureLoadPayment(payment)
+      const quickBooks = await postQuickBooksGiftCardEntry(prisma, entry)
+
+      return res.status(201).json({
+        message: 'Gift card activated',
+        giftCard: toGiftCardResponse(card),
+        cardNumber,
+        pin: generatedPin,
+        entry: toGiftCardLedgerEntry(entry),
+        quickBooks
+      })
+    } catch (error) {
+      if (error instanceof GiftCardError) {
+        return res.status(400).json({ message: error.message })
+      }
+      const paymentResponse = respondToLoadPaymentError(res, error)
+      if (paymentResponse) return paymentResponse
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return res.status(409).json({ message: 'Gift card has already been issued' })
+      }
+      console.error('Activate gift card error:', error)
+      return res.status(500).json({ message: 'Failed to activate gift card' })
+    }
+  },
+
+  // Add money to an active card; no PIN is needed to put value on a card
+  async reloadGiftCard(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = req.user
+      if (!user) {
+        return res.status(401).json({ message: 'Employee authentication required' })
+      }
+
+      const storeId = scopeToUserStore(req, req.body.storeId)
+      if (storeId === null) {
+        return res.status(403).json({ message: 'Access denied to this store' })
+      }
+      if (!storeId) {
+        return res.status(400).json({ message: 'Store is required to reload a gift card' })
+      }
+
+      const { amount, paymentMethod, paymentReference }: ReloadGiftCardData = req.body
+      if (!GIFT_CARD_FUNDING_METHODS.includes(paymentMethod)) {
+        return res.status(400).json({
+          message: `paymentMethod must be one of ${GIFT_CARD_FUNDING_METHODS.join(', ')}`
+        })
+      }
+
+      const card = await findCard(req.params.cardNumber)
+      if (!card) {
+        return res.status(404).json({ message: 'Gift card not found' })
+      }
+      assertGiftCardUsable(card, new Date())
+
+      const errors = validateLoadAmount(amount, toAmount(card.balance))
+      if (errors.length > 0) {
+        return res.status(400).json({ message: errors[0], errors })
+      }
+
+      const payment = await prepareLoadPayment(user.id, storeId, paymentMethod, amount, paymentReference)
+
+      const entry = await prisma.$transaction(async (tx) => {
+        const entry = await postGiftCardEntry(tx, {
+          giftCardId: card.id,
+          entryType: 'RELOAD',
+          amount,
+          storeId,
+          employeeId: user.id,
+          ...toLoadPaymentFields(paymentMethod, payment)
+        })
+
+        await recordAuditEvent(tx, {
+          ...auditActor(req, storeId),
+          action: 'gift_card_reloaded',
+          entityType: 'gift_card',
+          entityId: card.id,
+          details: {
+            last4: card.cardNumber.slice(-4),
+            amount,
+            paymentMethod,
+            balanceAfter: toAmount(entry.balanceAfter)
+          },
+          severity: 'low'
+        })
+
+        return entry
+      }).catch(async (error) => {
+        await releaseLoadPayment(payment)
+        throw error
+      })
+
+      await captureLoadPayment(payment)
+      const quickBooks = await postQuickBooksGiftCardEntry(prisma, entry)
+
+      return res.json({
+        message: 'Gift card reloaded',
+        giftCard: toGiftCardResponse({ ...card, balance: entry.balanceAfter }),
+        entry: toGiftCardLedgerEntry(entry),
+        quickBooks
+      })
+    } catch (error) {
+      if (error instanceof GiftCardError) {
+        return res.status(400).json({ message: error.message })
+      }
+      const paymentResponse = respondToLoadPaymentError(res, error)
+      if (paymentResponse) return paymentResponse
+      console.error('Reload gift card error:', error)
+      return res.status(500).json({ message: 'Failed to reload gift card' })
+    }
+  },
+
+  // Check a card's balance at the register; the PIN is sent in the body, never the URL
+  async getBalance(req: Request, res: Response): Promise<Response> {
+    try {
+      const { cardNumber, pin }: GiftCardBalanceRequest = req.body
+      if (!cardNumber || !pin) {
+        return res.status(400).json({ message: 'cardNumber and pin are required' })
+      }
+
+      const card = await authorizeGiftCard(prisma, cardNumber, pin, new Date())
+
+      return res.json({ giftCard: toGiftCardResponse(card) })
+    } catch (error) {
+      if (error instanceof GiftCardError) {
+        return res.status(400).json({ message: error.message })
+      }
+      console.error('Gift card balance error:', error)
+      return res.status(500).json({ message: 'Failed to check gift card balance' })
+    }
+  },
+
+  // Spend part or all of a card's balance outside checkout
+  async redeemGiftCard(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = req.user
+      if (!user) {
+        return res.status(401).json({ message: 'Employee authentication required' })
+      }
+
+      const storeId = scopeToUserStore(req, req.body.storeId)
+      if (storeId === null) {
+        return res.status(403).json({ message: 'Access denied to this store' })
+      }
+      if (!storeId) {
+        return res.status(400).json({ message: 'Store is required to redeem a gift card' })
+      }
+
+      const { pin, amount, transactionId }: RedeemGiftCardData = req.body
+
+      // Checked before the redemption's transaction, so a wrong PIN is counted even though nothing saves
+      await authorizeGiftCard(prisma, req.params.cardNumber, pin, new Date())
+
+      const entry = await prisma.$transaction(async (tx) => {
+        const entry = await redeemGiftCard(tx, {
+          cardNumber: req.params.cardNumber,
+          pin,
+          amount,
+          storeId,
+          transactionId,
+          employeeId: user.id,
+          at: new Date()
+        })
+
+        await recordAuditEvent(tx, {
+          ...auditActor(req, storeId),
+          action: 'gift_card_redeemed',
+          entityType: 'gift_card',
+          entityId: entry.giftCardId,
+          details: { amount, transactionId, balanceAfter: toAmount(entry.balanceAfter) },
+          severity: 'low'
+        })
+
+        return entry
+      })
+
+      return res.json({
+        message: 'Gift card redeemed',
+        entry: toGiftCardLedgerEntry(entry),
+        balance: toAmount(entry.balanceAfter)
+      })
+    } catch (error) {
+      if (error instanceof GiftCardError) {
+        return res.status(400).json({ message: error.message })
+      }
+      console.error('Redeem gift card error:', error)
+      return res.status(500).json({ message: 'Failed to redeem gift card' })
+    }
+  },
+
+  // Put money back on a card outside a return (manager approval)
+  async refundToGiftCard(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = req.user
+      if (!user) {
+        return res.status(401).json({ message: 'Employee authentication required' })
+      }
+
+      const { amount, reason, transactionId, managerCredentials }: RefundToGiftCardData = req.body
+      if (!reason || !reason.trim()) {
+        return res.status(400).json({ message: 'A reason is required to refund to a gift card' })
+      }
+      if (typeof amount !== 'number' || !(amount > 0) || roundCurrency(amount) !== amount) {
+        return res.status(400).json({ message: 'amount must be more than zero in whole cents' })
+      }
+
+      const card = await findCard(req.params.cardNumber)
+      if (!card) {
+        return res.status(404).json({ message: 'Gift card not found' })
+      }
+
+      const storeId = req.body.storeId || user.storeId || card.storeId
+      const approver = await resolveApprover(
+        prisma,
+        user,
+        'transaction:update',
+        storeId,
+        managerCredentials
+      )
+
+      const entry = await prisma.$transaction(async (tx) => {
+        const entry = await postGiftCardEntry(tx, {
+          giftCardId: card.id,
+          entryType: 'REFUND',
+          amount,
+          storeId,
+          transactionId,
+          employeeId: approver.id,
+          reason: reason.trim()
+        })
+
+        await recordAuditEvent(tx, {
+          ...auditActor(req, storeId),
+          action: 'gift_card_refunded',
+          entityType: 'gift_card',
+          entityId: card.id,
+          details: {
+            last4: card.cardNumber.slice(-4),
+            amount,
+            transactionId,
+            reason: reason.trim(),
+            approvedBy: approver.id,
+            managerOverride: approver.id !== user.id,
+            balanceAfter: toAmount(entry.balanceAfter)
+          },
+          severity: 'medium'
+        })
+
+        return entry
+      })
+
+      return res.json({
+        message: 'Refund added to gift card',
+        entry: toGiftCardLedgerEntry(entry),
+        balance: toAmount(entry.balanceAfter)
+      })
+    } catch (error) {
+      if (error instanceof GiftCardError) {
+        return res.status(400).json({ message: error.message })
+      }
+      if (error instanceof ManagerApprovalError) {
+        return res.status(403).json({ message: error.message })
+      }
+      console.error('Refund to gift card error:', error)
+      return res.status(500).json({ message: 'Failed to refund to gift card' })
+    }
+  },
+
+  // Suspend a lost or stolen card, or reactivate it
+  async updateStatus(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = req.user
+      if (!user) {
+        return res.status(401).json({ message: 'Employee authentication required' })
+      }
+
+      const { status, reason }: UpdateGiftCardStatusData = req.body
+      if (!GIFT_CARD_STATUSES.includes(status as GiftCardStatus)) {
+        return res.status(400).json({ message: `status must be one of ${GIFT_CARD_STATUSES.join(', ')}` })
+      }
+      if (!reason || !reason.trim()) {
+        return res.status(400).json({ message: 'A reason is required to change a gift card status' })
+      }
+
+      const card = await findCard(req.params.cardNumber)
+      if (!card) {
+        return res.status(404).json({ message: 'Gift card not found' })
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        const updated = await tx.giftCard.update({ where: { id: card.id }, data: { status } })
+
+        await recordAuditEvent(tx, {
+          ...auditActor(req, user.storeId || card.storeId),
+          action: 'gift_card_status_changed',
+          entityType: 'gift_card',
+          entityId: card.id,
+          details: { last4: card.cardNumber.slice(-4), from: card.status, to: status, reason: reason.trim() },
+          severity: 'medium'
+        })
+
+        return updated
+      })
+
+      return res.json({ message: `Gift card ${status.toLowerCase()}`, giftCard: toGiftCardResponse(updated) })
+    } catch (error) {
+      console.error('Update gift card status error:', error)
+      return res.status(500).json({ message: 'Failed to update gift card status' })
+    }
+  },
+
+  // A card with its ledger, newest first, for back-office lookups
+  async getGiftCard(req: Request, res: Response): Promise<Response> {
+    try {
+      const page = parseInt(req.query.page as string) || 1
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 100)
+
+      const card = await findCard(req.params.cardNumber)
+      if (!card) {
+        return res.status(404).json({ message: 'Gift card not found' })
+      }
+
+      const [rows, total] = await Promise.all([
+        prisma.giftCardLedger.findMany({
+          where: { giftCardId: card.id },
+          include: { transaction: { select: { receiptNumber: true } } },
+          orderBy: { createdAt: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit
+        }),
+        prisma.giftCardLedger.count({ where: { giftCardId: card.id } })
+      ])
+
+      return res.json({
+        giftCard: toGiftCardResponse(card),
+        entries: rows.map(toGiftCardLedgerEntry),
+        pagination: { page, limit, total, pages: Math.ceil(total / limit) }
+      })
+    } catch (error) {
+      console.error('Get gift card error:', error)
+      return res.status(500).json({ message: 'Failed to fetch gift card' })
+    }
+  },
+
+  // Money held on cards, owed to their holders
+  async getLiability(req: Request, res: Response): Promise<Response> {
+    try {
+      const liability = await getGiftCardLiability(prisma, req.query.storeId as string | undefined)
+
+      return res.json(liability)
+    } catch (error) {
+      console.error('Gift card liability error:', error)
+      return res.status(500).json({ message: 'Failed to fetch gift card liability' })
+    }
+  }
+}
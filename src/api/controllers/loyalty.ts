@@ -0,0 +1,136 @@
+import { Request, Response } from 'express'
+import { PrismaClient } from '../../generated/prisma'
+import type { LoyaltyTier } from '../../shared/types/database'
+import type { LoyaltyTierSettings, UpdateLoyaltyTierRuleData } from '../../shared/types/loyalty'
+import {
+  LOYALTY_TIERS,
+  loadAllTierSettings,
+  validateTierSettings,
+  validateTierLadder,
+  toTierSettings
+} from '../../shared/services/loyalty'
+import { runLoyaltyJobs } from '../../shared/services/loyaltyLedger'
+import {
+  recordAuditEvent,
+  recordAuditEventSafely,
+  getRequestMetadata,
+  SYSTEM_STORE_ID
+} from '../../shared/services/auditTrail'
+
+const prisma = new PrismaClient()
+
+export const loyaltyController = {
+  // Rules for every tier, including tiers still on the defaults
+  async getTierRules(_req: Request, res: Response): Promise<Response> {
+    try {
+      const rules = await loadAllTierSettings(prisma)
+
+      return res.json({ rules })
+    } catch (error) {
+      console.error('Get loyalty tier rules error:', error)
+      return res.status(500).json({ message: 'Failed to fetch loyalty tier rules' })
+    }
+  },
+
+  // Change how customers reach one tier, earn and redeem points in it
+  async updateTierRule(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = req.user
+      if (!user) {
+        return res.status(401).json({ message: 'Employee authentication required' })
+      }
+
+      const tier = req.params.tier?.toUpperCase() as LoyaltyTier
+      if (!LOYALTY_TIERS.includes(tier)) {
+        return res.status(400).json({ message: `tier must be one of ${LOYALTY_TIERS.join(', ')}` })
+      }
+
+      // Fields left out keep their current value
+      const body = req.body as UpdateLoyaltyTierRuleData
+      const current = await loadAllTierSettings(prisma)
+      const existing = current.find((entry) => entry.tier === tier)!
+      const data: Omit<LoyaltyTierSettings, 'tier'> = {
+        pointValue: body.pointValue ?? existing.pointValue,
+        minRedemptionPoints: body.minRedemptionPoints ?? existing.minRedemptionPoints,
+        maxRedemptionPoints: body.maxRedemptionPoints !== undefined
+          ? body.maxRedemptionPoints
+          : existing.maxRedemptionPoints,
+        maxRedemptionPercent: body.maxRedemptionPercent !== undefined
+          ? body.maxRedemptionPercent
+          : existing.maxRedemptionPercent,
+        minAnnualSpend: body.minAnnualSpend ?? existing.minAnnualSpend,
+        earnMultiplier: body.earnMultiplier ?? existing.earnMultiplier,
+        pointsExpireMonths: body.pointsExpireMonths !== undefined
+          ? body.pointsExpireMonths
+          : existing.pointsExpireMonths
+      }
+      const updated: LoyaltyTierSettings = { tier, ...data }
+
+      const errors = [
+        ...validateTierSettings(updated),
+        ...validateTierLadder(current.map((entry) => (entry.tier === tier ? updated : entry)))
+      ]
+      if (errors.length > 0) {
+        return res.status(400).json({ message: 'Invalid loyalty tier rule', errors })
+      }
+
+      const saved = await prisma.$transaction(async (tx) => {
+        const row = await tx.loyaltyTierRule.upsert({
+          where: { tier },
+          create: { tier, ...data },
+          update: data
+        })
+
+        await recordAuditEvent(tx, {
+          userId: user.id,
+          userRole: user.role,
+          storeId: user.storeId || SYSTEM_STORE_ID,
+          action: 'settings_changed',
+          entityType: 'system',
+          entityId: row.id,
+          details: { setting: 'loyalty_tier_rule', before: existing, after: updated },
+          metadata: getRequestMetadata(req),
+          severity: 'medium'
+        })
+
+        return row
+      })
+
+      return res.json({
+        message: `${tier} tier rule saved`,
+        rule: toTierSettings(tier, saved)
+      })
+    } catch (error) {
+      console.error('Update loyalty tier rule error:', error)
+      return res.status(500).json({ message: 'Failed to update loyalty tier rule' })
+    }
+  },
+
+  // Run the nightly expiration and tier jobs now, e.g. after changing tier rules
+  async runJobs(req: Request, res: Response): Promise<Response> {
+    try {
+      const user = req.user
+      if (!user) {
+        return res.status(401).json({ message: 'Employee authentication required' })
+      }
+
+      const result = await runLoyaltyJobs(prisma, new Date())
+
+      await recordAuditEventSafely(prisma, {
+        userId: user.id,
+        userRole: user.role,
+        storeId: user.storeId || SYSTEM_STORE_ID,
+        action: 'settings_changed',
+        entityType: 'system',
+        details: { setting: 'loyalty_jobs_run', ...result },
+        metadata: getRequestMetadata(req),
+        severity: 'low'
+      })
+
+      return res.json(result)
+    } catch (error) {
+      console.error('Loyalty jobs error:', error)
+      return res.status(500).json({ message: 'Failed to run loyalty jobs' })
+    }
+  }
+}
@@ -0,0 +1,334 @@
+import { Request, Response } from 'express'
+import { PrismaClient, Prisma } from '../../generated/prisma'
+import type { Offer } from '../../generated/prisma'
+import type { OfferType, TargetAudience, CustomerSegments } from '../../shared/types/database'
+import type {
+  CreateOfferData,
+  UpdateOfferData,
+  OfferResponse,
+  OfferStatus
+} from '../../shared/types/offers'
+import { validateOfferData, buildRedemptionReport } from '../../shared/services/offerRules'
+import { toAmount } from '../../shared/utils/money'
+
+const prisma = new PrismaClient()
+
+const toStringList = (value: Prisma.JsonValue | null): string[] | null =>
+  Array.isArray(value) ? value.map(String) : null
+
+// Decimals and JSON columns as the admin screens expect them
+const toOfferResponse = (offer: Offer): OfferResponse => ({
+  id: offer.id,
+  name: offer.name,
+  description: offer.description,
+  offerType: offer.offerType,
+  discountValue: toAmount(offer.discountValue),
+  minPurchaseAmount: toAmount(offer.minPurchaseAmount),
+  maxDiscountAmount: offer.maxDiscountAmount === null ? null : toAmount(offer.maxDiscountAmount),
+  targetAudience: offer.targetAudience,
+  customerSegments: (offer.customerSegments as CustomerSegments | null) || null,
+  applicableProducts: toStringList(offer.applicableProducts),
+  excludedProducts: toStringList(offer.excludedProducts),
+  maxUsesTotal: offer.maxUsesTotal,
+  maxUsesPerCustomer: offer.maxUsesPerCustomer,
+  currentUses: offer.currentUses,
+  startDate: offer.startDate.toISOString(),
+  endDate: offer.endDate.toISOString(),
+  isActive: offer.isActive,
+  createdAt: offer.createdAt.toISOString(),
+  updatedAt: offer.updatedAt.toISOString()
+})
+
+const toOfferInput = (offer: Offer): CreateOfferData => {
+  const response = toOfferResponse(offer)
+  return {
+    name: response.name,
+    description: response.description,
+    offerType: response.offerType,
+    discountValue: response.discountValue,
+    minPurchaseAmount: response.minPurchaseAmount,
+    maxDiscountAmount: response.maxDiscountAmount,
+    targetAudience: response.targetAudience,
+    customerSegments: response.customerSegments,
+    applicableProducts: response.applicableProducts,
+    excludedProducts: response.excludedProducts,
+    maxUsesTotal: response.maxUsesTotal,
+    maxUsesPerCustomer: response.maxUsesPerCustomer,
+    startDate: response.startDate,
+    endDate: response.endDate,
+    isActive: response.isActive
+  }
+}
+
+// Empty lists mean "every product", stored as null
+const toProductListJson = (
+  value: string[] | null | undefined
+): Prisma.InputJsonValue | typeof Prisma.DbNull =>
+  value && value.length > 0 ? value.map((entry) => entry.trim()) : Prisma.DbNull
+
+const toSegmentsJson = (
+  value: CustomerSegments | null | undefined
+): Prisma.InputJsonValue | typeof Prisma.DbNull =>
+  value && Object.keys(value).length > 0 ? (value as Prisma.InputJsonValue) : Prisma.DbNull
+
+const buildOfferInput = (input: CreateOfferData): Prisma.OfferUncheckedCreateInput => ({
+  name: input.name.trim(),
+  description: input.description || null,
+  offerType: input.offerType,
+  discountValue: input.discountValue,
+  minPurchaseAmount: input.minPurchaseAmount || 0,
+  maxDiscountAmount: input.maxDiscountAmount ?? null,
+  targetAudience: input.targetAudience || 'ALL',
+  customerSegments: toSegmentsJson(input.customerSegments),
+  applicableProducts: toProductListJson(input.applicableProducts),
+  excludedProducts: toProductListJson(input.excludedProducts),
+  maxUsesTotal: input.maxUsesTotal ?? null,
+  maxUsesPerCustomer: input.maxUsesPerCustomer ?? 1,
+  startDate: new Date(input.startDate),
+  endDate: new Date(input.endDate),
+  isActive: input.isActive ?? true
+})
+
+// Looks up the products an offer's lists refer to by id, for display
+const loadReferencedProducts = async (offer: Offer) => {
+  const entries = [
+    ...(toStringList(offer.applicableProducts) || []),
+    ...(toStringList(offer.excludedProducts) || [])
+  ]
+  if (entries.length === 0) return []
+
+  return prisma.product.findMany({
+    where: { id: { in: entries } },
+    select: { id: true, name: true, sku: true }
+  })
+}
+
+export const offersController = {
+  // List offers with filters and pagination
+  async getOffers(req: Request, res: Response): Promise<Response> {
+    try {
+      const page = parseInt(req.query.page as string) || 1
+      const limit = parseInt(req.query.limit as string) || 50
+      const skip = (page - 1) * limit
+      const status = (req.query.status as OfferStatus) || 'all'
+      const now = new Date()
+
+      const where: Prisma.OfferWhereInput = {}
+      if (req.query.offerType) where.offerType = req.query.offerType as OfferType
+      if (req.query.targetAudience) {
+        where.targetAudience = req.query.targetAudience as TargetAudience
+      }
+      if (req.query.search) {
+        where.name = { contains: req.query.search as string, mode: 'insensitive' }
+      }
+
+      switch (status) {
+        case 'active':
+          where.isActive = true
+          where.startDate = { lte: now }
+          where.endDate = { gte: now }
+          break
+        case 'scheduled':
+          where.isActive = true
+          where.startDate = { gt: now }
+          break
+        case 'expired':
+          where.isActive = true
+          where.endDate = { lt: now }
+          break
+        case 'inactive':
+          where.isActive = false
+          break
+      }
+
+      const [offers, total] = await Promise.all([
+        prisma.offer.findMany({
+          where,
+          skip,
+          take: limit,
+          orderBy: [{ startDate: 'desc' }, { name: 'asc' }]
+        }),
+        prisma.offer.count({ where })
+      ])
+
+      return res.json({
+        offers: offers.map(toOfferResponse),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      })
+    } catch (error) {
+      console.error('Get offers error:', error)
+      return res.status(500).json({ message: 'Failed to retrieve offers' })
+    }
+  },
+
+  // Get an offer with the products it refers to
+  async getOffer(req: Request, res: Response): Promise<Response> {
+    try {
+      const offer = await prisma.offer.findUnique({ where: { id: req.params.id } })
+
+      if (!offer) {
+        return res.status(404).json({ message: 'Offer not found' })
+      }
+
+      return res.json({
+        offer: toOfferResponse(offer),
+        products: await loadReferencedProducts(offer)
+      })
+    } catch (error) {
+      console.error('Get offer error:', error)
+      return res.status(500).json({ message: 'Failed to retrieve offer' })
+    }
+  },
+
+  // Create a new offer
+  async createOffer(req: Request, res: Response): Promise<Response> {
+    try {
+      const input: CreateOfferData = req.body
+      const errors = validateOfferData(input)
+
+      if (errors.length > 0) {
+        return res.status(400).json({ message: 'Invalid offer', errors })
+      }
+
+      const offer = await prisma.offer.create({ data: buildOfferInput(input) })
+
+      return res.status(201).json({
+        message: 'Offer created successfully',
+        offer: toOfferResponse(offer)
+      })
+    } catch (error) {
+      console.error('Offer creation error:', error)
+      return res.status(500).json({
+        message: 'Failed to create offer',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  },
+
+  // Update an offer; use counts are kept, and the use limit cannot drop below them
+  async updateOffer(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params
+      const changes: UpdateOfferData = req.body
+
+      const existing = await prisma.offer.findUnique({ where: { id } })
+
+      if (!existing) {
+        return res.status(404).json({ message: 'Offer not found' })
+      }
+
+      const merged: CreateOfferData = { ...toOfferInput(existing), ...changes }
+      const errors = validateOfferData(merged, existing.currentUses)
+      if (errors.length > 0) {
+        return res.status(400).json({ message: 'Invalid offer', errors })
+      }
+
+      const offer = await prisma.offer.update({
+        where: { id },
+        data: buildOfferInput(merged)
+      })
+
+      return res.json({
+        message: 'Offer updated successfully',
+        offer: toOfferResponse(offer)
+      })
+    } catch (error) {
+      console.error('Offer update error:', error)
+      return res.status(500).json({
+        message: 'Failed to update offer',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  },
+
+  // Delete an offer. Offers already used on sales are switched off instead,
+  // so their redemptions keep pointing at them.
+  async deleteOffer(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params
+
+      const existing = await prisma.offer.findUnique({ where: { id } })
+
+      if (!existing) {
+        return res.status(404).json({ message: 'Offer not found' })
+      }
+
+      const redemptions = await prisma.offerRedemption.count({ where: { offerId: id } })
+      if (redemptions > 0) {
+        const offer = await prisma.offer.update({ where: { id }, data: { isActive: false } })
+        return res.json({
+          message: 'Offer has been used on sales and was deactivated instead of deleted',
+          offer: toOfferResponse(offer)
+        })
+      }
+
+      await prisma.offer.delete({ where: { id } })
+
+      return res.json({ message: 'Offer deleted successfully' })
+    } catch (error) {
+      console.error('Offer delete error:', error)
+      return res.status(500).json({ message: 'Failed to delete offer' })
+    }
+  },
+
+  // Discount dollars and transactions per offer, optionally for a date range
+  async getRedemptionReport(req: Request, res: Response): Promise<Response> {
+    try {
+      const { startDate, endDate, offerId } = req.query as Record<string, string | undefined>
+
+      const createdAt: Prisma.DateTimeFilter = {}
+      if (startDate) {
+        const start = new Date(startDate)
+        if (isNaN(start.getTime())) {
+          return res.status(400).json({ message: 'startDate must be a valid date' })
+        }
+        createdAt.gte = start
+      }
+      if (endDate) {
+        const end = new Date(endDate)
+        if (isNaN(end.getTime())) {
+          return res.status(400).json({ message: 'endDate must be a valid date' })
+        }
+        createdAt.lte = end
+      }
+
+      // Voided sales give their uses back, so reversed redemptions are left out
+      const where: Prisma.OfferRedemptionWhereInput = { reversedAt: null }
+      if (startDate || endDate) where.createdAt = createdAt
+      if (offerId) where.offerId = offerId
+
+      const groups = await prisma.offerRedemption.groupBy({
+        by: ['offerId'],
+        where,
+        _sum: { discountAmount: true, bonusPoints: true },
+        _count: { _all: true }
+      })
+
+      const offers = await prisma.offer.findMany({
+        where: offerId ? { id: offerId } : { id: { in: groups.map((group) => group.offerId) } }
+      })
+
+      const report = buildRedemptionReport(
+        offers,
+        groups.map((group) => ({
+          offerId: group.offerId,
+          discountAmount: toAmount(group._sum.discountAmount || 0),
+          bonusPoints: group._sum.bonusPoints || 0,
+          // One redemption per offer per sale
+          transactionCount: group._count._all
+        })),
+        { startDate, endDate }
+      )
+
+      return res.json(report)
+    } catch (error) {
+      console.error('Offer redemption report error:', error)
+      return res.status(500).json({ message: 'Failed to build offer redemption report' })
+    }
+  }
+}
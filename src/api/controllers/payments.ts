@@ -0,0 +1,170 @@
+import { Request, Response } from 'express'
+import { PrismaClient } from '../../generated/prisma'
+import type { AuthorizePaymentData } from '../../shared/types/payments'
+import { getStoreProcessor } from '../../shared/services/paymentGateway'
+import { PaymentProcessorError } from '../../shared/services/paymentProcessor'
+import type { PaymentProcessorErrorCode } from '../../shared/services/paymentProcessor'
+import { recordAuditEventSafely, getRequestMetadata } from '../../shared/services/auditTrail'
+import { roundCurrency } from '../../shared/utils/money'
+
+const prisma = new PrismaClient()
+
+// How each processor failure is reported to the register
+const PROCESSOR_ERROR_STATUS: Record<PaymentProcessorErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  INVALID_STATE: 409,
+  UNKNOWN_PAYMENT: 404,
+  TIMEOUT: 504,
+  UNAVAILABLE: 502
+}
+
+const isWholeCents = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && roundCurrency(value) === value
+
+// Who took a card payment action and from where, as recorded on audit entries
+const auditActor = (req: Request, storeId: string) => ({
+  userId: req.user.id,
+  userRole: req.user.role,
+  storeId,
+  metadata: getRequestMetadata(req)
+})
+
+// The store a request is for; its processor handles the request's card payments
+const loadStore = (req: Request) => {
+  const storeId = req.body?.storeId || req.query.storeId || req.user?.storeId
+  if (!storeId) return Promise.resolve(null)
+
+  return prisma.storeLocation.findUnique({ where: { id: String(storeId) } })
+}
+
+const sendProcessorError = (res: Response, error: PaymentProcessorError) =>
+  res.status(PROCESSOR_ERROR_STATUS[error.code]).json({ message: error.message, code: error.code })
+
+// A store takes no cards until it has a processor configured
+const sendNoProcessor = (res: Response) =>
+  res.status(409).json({ message: 'No card payment processor is configured for this store' })
+
+export const paymentsController = {
+  // Authorize a tokenized card; the sale captures it when it completes
+  async authorizePayment(req: Request, res: Response): Promise<Response> {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Employee authentication required' })
+      }
+
+      const { token, amount }: AuthorizePaymentData = req.body
+      const errors: string[] = []
+      if (typeof token !== 'string' || token.trim() === '') {
+        errors.push('Card token is required')
+      }
+      if (!isWholeCents(amount) || amount <= 0) {
+        errors.push('Amount must be more than zero in whole cents')
+      }
+      if (errors.length > 0) {
+        return res.status(400).json({ message: 'Invalid payment', errors })
+      }
+
+      const store = await loadStore(req)
+      if (!store) {
+        return res.status(400).json({ message: 'Store is required to take a card payment' })
+      }
+
+      const processor = getStoreProcessor(store)
+      if (!processor) {
+        return sendNoProcessor(res)
+      }
+
+      const payment = await processor.authorize({ token, amount })
+
+      if (payment.status === 'DECLINED') {
+        await recordAuditEventSafely(prisma, {
+          ...auditActor(req, store.id),
+          action: 'payment_failed',
+          entityType: 'payment',
+          entityId: payment.reference,
+          details: {
+            processor: payment.processor,
+            amount,
+            last4: payment.last4,
+            reason: payment.declineReason
+          },
+          severity: 'medium'
+        })
+        return res.status(402).json({ message: payment.declineReason || 'Card declined', payment })
+      }
+
+      return res.status(201).json({ payment })
+    } catch (error) {
+      if (error instanceof PaymentProcessorError) {
+        return sendProcessorError(res, error)
+      }
+      console.error('Authorize payment error:', error)
+      return res.status(500).json({ message: 'Failed to authorize card payment' })
+    }
+  },
+
+  // Where a card payment stands at the processor
+  async getPayment(req: Request, res: Response): Promise<Response> {
+    try {
+      const store = await loadStore(req)
+      if (!store) {
+        return res.status(400).json({ message: 'Store is required to look up a card payment' })
+      }
+
+      const processor = getStoreProcessor(store)
+      if (!processor) {
+        return sendNoProcessor(res)
+      }
+
+      const payment = await processor.status(req.params.reference)
+      return res.json({ payment })
+    } catch (error) {
+      if (error instanceof PaymentProcessorError) {
+        return sendProcessorError(res, error)
+      }
+      console.error('Get payment error:', error)
+      return res.status(500).json({ message: 'Failed to fetch card payment' })
+    }
+  },
+
+  // Release an authorization the register will not use; completed sales are voided instead
+  async voidPayment(req: Request, res: Response): Promise<Response> {
+    try {
+      const { reference } = req.params
+
+      const sale = await prisma.transactionPayment.findFirst({
+        where: {
+          reference,
+          paymentMethod: 'CARD',
+          amount: { gt: 0 },
+          transaction: { paymentStatus: 'COMPLETED' }
+        },
+        include: { transaction: { select: { receiptNumber: true } } }
+      })
+      if (sale) {
+        return res.status(409).json({
+          message: `Card payment paid for sale ${sale.transaction.receiptNumber}; void or return the sale instead`
+        })
+      }
+
+      const store = await loadStore(req)
+      if (!store) {
+        return res.status(400).json({ message: 'Store is required to void a card payment' })
+      }
+
+      const processor = getStoreProcessor(store)
+      if (!processor) {
+        return sendNoProcessor(res)
+      }
+
+      const payment = await processor.void(reference)
+      return res.json({ payment })
+    } catch (error) {
+      if (error instanceof PaymentProcessorError) {
+        return sendProcessorError(res, error)
+      }
+      console.error('Void payment error:', error)
+      return res.status(500).json({ message: 'Failed to void card payment' })
+    }
+  }
+}
@@ -1,8 +1,85 @@
 import type { Request, Response } from 'express'
 import { prisma } from '../../shared/utils/database'
 import type { CreateProductData } from '../../shared/services/products'
+import type { AuditAction, AuditSeverity } from '../../shared/types/audit'
+import type {
+  BulkStockCountData,
+  InventoryMovementQuery,
+  RecordInventoryMovementData,
+  StockCountData
+} from '../../shared/types/inventory'
+import {
+  recordAuditEventSafely,
+  getRequestMetadata,
+  SYSTEM_STORE_ID
+} from '../../shared/services/auditTrail'
+import {
+  postInventoryMovement,
+  recordStockCount,
+  validateInventoryMovement,
+  validateStockCount,
+  findInventoryDiscrepancies,
+  toInventoryMovementEntry,
+  InventoryMovementError,
+  INVENTORY_MOVEMENT_TYPES
+} from '../../shared/services/inventoryLedger'
+import {
+  storeStockInclude,
+  withStoreStock,
+  findLowStockProductIds,
+  setStoreMinStockLevel
+} from '../../shared/services/storeInventory'
+import type { InventoryMovementType, Product } from '../../shared/types/database'
+import type { ProductWithStoreStock } from '../../shared/services/storeInventory'
 import { Decimal } from '@prisma/client/runtime/library'
 
+// Most movements the history view loads at once
+const MAX_MOVEMENTS = 500
+
+// Who moved stock and where, as recorded on each movement
+const stockActor = (req: Request, storeId: string) => ({
+  userId: req.user?.id || null,
+  storeId
+})
+
+/**
+ * The store whose stock a request sees or changes: the user's own, or any
+ * store an admin names. Undefined when an admin without a store names none,
+ * meaning the totals across every store; null when the store is off limits.
+ */
+const scopeToUserStore = (req: Request, storeId?: string): string | undefined | null => {
+  if (req.user?.role === 'ADMIN') return storeId || req.user.storeId || undefined
+  if (!req.user?.storeId) return null
+  if (storeId && storeId !== req.user.storeId) return null
+  return req.user.storeId
+}
+
+// Loads a product's stock at the store in scope, if there is one
+const stockInclude = (storeId: string | undefined) =>
+  storeId ? storeStockInclude(storeId) : undefined
+
+// A product as the store in scope sees it; without a store it keeps its totals
+const asStoreProduct = (
+  product: Product & Partial<Pick<ProductWithStoreStock, 'storeInventory'>>
+): Product =>
+  product.storeInventory
+    ? withStoreStock({ ...product, storeInventory: product.storeInventory })
+    : product
+
+function denyStore(res: Response): void {
+  res.status(403).json({
+    error: 'Access denied to this store',
+    code: 'STORE_ACCESS_DENIED'
+  })
+}
+
+function requireStore(res: Response): void {
+  res.status(400).json({
+    error: 'storeId is required to change stock',
+    code: 'STORE_REQUIRED'
+  })
+}
+
 /**
  * Get all products with filtering and pagination
  * GET /api/products
@@ -20,6 +97,12 @@ export async function getProducts(req: Request, res: Response): Promise<void> {
       isActive = 'true'
     } = req.query as Record<string, string>
 
+    const storeId = scopeToUserStore(req, req.query.storeId as string | undefined)
+    if (storeId === null) {
+      denyStore(res)
+      return
+    }
+
     const pageNum = parseInt(page, 10)
     const pageSizeNum = parseInt(pageSize, 10)
     const skip = (pageNum - 1) * pageSizeNum
@@ -42,9 +125,7 @@ export async function getProducts(req: Request, res: Response): Promise<void> {
     }
 
     if (lowStock === 'true') {
-      where.quantity = {
-        lte: prisma.product.fields.minStockLevel
-      }
+      where.id = { in: await findLowStockProductIds(prisma, storeId) }
     }
 
     if (search) {
@@ -60,6 +141,7 @@ export async function getProducts(req: Request, res: Response): Promise<void> {
     const [products, total] = await Promise.all([
       prisma.product.findMany({
         where,
+        include: stockInclude(storeId),
         skip,
         take: pageSizeNum,
         orderBy: { name: 'asc' }
@@ -70,7 +152,7 @@ export async function getProducts(req: Request, res: Response): Promise<void> {
     const totalPages = Math.ceil(total / pageSizeNum)
 
     res.json({
-      products,
+      products: products.map(asStoreProduct),
       total,
       page: pageNum,
       pageSize: pageSizeNum,
@@ -93,8 +175,15 @@ export async function getProductById(req: Request, res: Response): Promise<void>
   try {
     const { id } = req.params
 
+    const storeId = scopeToUserStore(req, req.query.storeId as string | undefined)
+    if (storeId === null) {
+      denyStore(res)
+      return
+    }
+
     const product = await prisma.product.findUnique({
-      where: { id }
+      where: { id },
+      include: stockInclude(storeId)
     })
 
     if (!product) {
@@ -105,7 +194,7 @@ export async function getProductById(req: Request, res: Response): Promise<void>
       return
     }
 
-    res.json(product)
+    res.json(asStoreProduct(product))
   } catch (error) {
     console.error('Get product by ID error:', error)
     res.status(500).json({
@@ -123,6 +212,12 @@ export async function searchProductByCode(req: Request, res: Response): Promise<
   try {
     const { code } = req.params
 
+    const storeId = scopeToUserStore(req, req.query.storeId as string | undefined)
+    if (storeId === null) {
+      denyStore(res)
+      return
+    }
+
     const product = await prisma.product.findFirst({
       where: {
         OR: [
@@ -130,7 +225,8 @@ export async function searchProductByCode(req: Request, res: Response): Promise<
           { barcode: code }
         ],
         isActive: true
-      }
+      },
+      include: stockInclude(storeId)
     })
 
     if (!product) {
@@ -141,7 +237,7 @@ export async function searchProductByCode(req: Request, res: Response): Promise<
       return
     }
 
-    res.json(product)
+    res.json(asStoreProduct(product))
   } catch (error) {
     console.error('Search product by code error:', error)
     res.status(500).json({
@@ -181,31 +277,71 @@ export async function createProduct(req: Request, res: Response): Promise<void>
       return
     }
 
-    // Create product
-    const product = await prisma.product.create({
-      data: {
-        name: data.name,
-        sku: data.sku,
-        barcode: data.barcode,
-        price: new Decimal(data.price),
-        cost: data.cost ? new Decimal(data.cost) : null,
-        quantity: data.quantity || 0,
-        minStockLevel: data.minStockLevel || 0,
-        category: data.category,
-        vendor: data.vendor,
-        description: data.description,
-        imageUrl: data.imageUrl,
-        flavorProfile: data.flavorProfile,
-        isSyntheticNicotine: data.isSyntheticNicotine || false,
-        volumeInMl: data.volumeInMl ? new Decimal(data.volumeInMl) : null,
-        isClosedSystem: data.isClosedSystem,
-        numCartridges: data.numCartridges,
-        nicotineStrength: data.nicotineStrength ? new Decimal(data.nicotineStrength) : null,
-        ageRestricted: data.ageRestricted ?? true,
-        expirationDate: data.expirationDate,
-        lotNumber: data.lotNumber,
-        supplierItemId: data.supplierItemId
-      }
+    if (data.quantity !== undefined && validateStockCount({ quantity: data.quantity }).length > 0) {
+      res.status(400).json({
+        error: 'Quantity must be a whole number of zero or more',
+        code: 'INVALID_QUANTITY'
+      })
+      return
+    }
+
+    // Starting stock is received at the store in scope
+    const storeId = scopeToUserStore(req, req.query.storeId as string | undefined)
+    if (storeId === null) {
+      denyStore(res)
+      return
+    }
+    if (!storeId && data.quantity) {
+      requireStore(res)
+      return
+    }
+
+    // Create product; its starting stock is received through the ledger
+    const product = await prisma.$transaction(async (tx) => {
+      const created = await tx.product.create({
+        data: {
+          name: data.name,
+          sku: data.sku,
+          barcode: data.barcode,
+          price: new Decimal(data.price),
+          cost: data.cost ? new Decimal(data.cost) : null,
+          quantity: 0,
+          minStockLevel: data.minStockLevel || 0,
+          category: data.category,
+          vendor: data.vendor,
+          description: data.description,
+          imageUrl: data.imageUrl,
+          flavorProfile: data.flavorProfile,
+          isSyntheticNicotine: data.isSyntheticNicotine || false,
+          volumeInMl: data.volumeInMl ? new Decimal(data.volumeInMl) : null,
+          isClosedSystem: data.isClosedSystem,
+          numCartridges: data.numCartridges,
+          nicotineStrength: data.nicotineStrength ? new Decimal(data.nicotineStrength) : null,
+          ageRestricted: data.ageRestricted ?? true,
+          expirationDate: data.expirationDate,
+          lotNumber: data.lotNumber,
+          supplierItemId: data.supplierItemId
+        }
+      })
+
+      const movement = storeId
+        ? await postInventoryMovement(tx, {
+          ...stockActor(req, storeId),
+          productId: created.id,
+          movementType: 'RECEIVE',
+          reasonCode: 'RECEIVED',
+          quantity: data.quantity || 0,
+          notes: 'Initial stock'
+        })
+        : null
+      return movement ? { ...created, quantity: movement.quantityAfter } : created
+    })
+
+    await auditProductEvent(req, 'product_created', product.id, {
+      sku: product.sku,
+      name: product.name,
+      price: data.price,
+      quantity: product.quantity
     })
 
     res.status(201).json(product)
@@ -227,10 +363,19 @@ export async function updateProduct(req: Request, res: Response): Promise<void>
     const { id } = req.params
     const data: Partial<CreateProductData> = req.body
 
+    // Stock and reorder point on the form are the store's when there is one in scope
+    const storeId = scopeToUserStore(req, req.query.storeId as string | undefined)
+    if (storeId === null) {
+      denyStore(res)
+      return
+    }
+
     // Check if product exists
-    const existingProduct = await prisma.product.findUnique({
-      where: { id }
+    const found = await prisma.product.findUnique({
+      where: { id },
+      include: stockInclude(storeId)
     })
+    const existingProduct = found && asStoreProduct(found)
 
     if (!existingProduct) {
       res.status(404).json({
@@ -255,8 +400,22 @@ export async function updateProduct(req: Request, res: Response): Promise<void>
       }
     }
 
-    // Update product
-    const updateData: any = { ...data }
+    if (data.quantity !== undefined && validateStockCount({ quantity: data.quantity }).length > 0) {
+      res.status(400).json({
+        error: 'Quantity must be a whole number of zero or more',
+        code: 'INVALID_QUANTITY'
+      })
+      return
+    }
+    if (!storeId && data.quantity !== undefined) {
+      requireStore(res)
+      return
+    }
+
+    // Update product; a changed quantity is recorded as a stock count, never written directly
+    const { quantity, ...fields } = data
+    const updateData: any = { ...fields }
+    if (storeId) delete updateData.minStockLevel
     
     // Convert number fields to Decimal where needed
     if (data.price !== undefined) updateData.price = new Decimal(data.price)
@@ -264,9 +423,32 @@ export async function updateProduct(req: Request, res: Response): Promise<void>
     if (data.volumeInMl !== undefined) updateData.volumeInMl = data.volumeInMl ? new Decimal(data.volumeInMl) : null
     if (data.nicotineStrength !== undefined) updateData.nicotineStrength = data.nicotineStrength ? new Decimal(data.nicotineStrength) : null
 
-    const product = await prisma.product.update({
-      where: { id },
-      data: updateData
+    const product = await prisma.$transaction(async (tx) => {
+      if (storeId && quantity !== undefined) {
+        await recordStockCount(tx, id, { quantity, notes: 'Changed on the product form' }, stockActor(req, storeId))
+      }
+      if (storeId && data.minStockLevel !== undefined) {
+        await setStoreMinStockLevel(tx, id, storeId, data.minStockLevel)
+      }
+      const updated = await tx.product.update({
+        where: { id },
+        data: updateData,
+        include: stockInclude(storeId)
+      })
+      return asStoreProduct(updated)
+    })
+
+    await auditProductEvent(req, 'product_updated', id, {
+      sku: product.sku,
+      changedFields: Object.keys(data),
+      ...(data.price !== undefined && {
+        previousPrice: existingProduct.price.toString(),
+        price: product.price.toString()
+      }),
+      ...(quantity !== undefined && {
+        previousQuantity: existingProduct.quantity,
+        quantity: product.quantity
+      })
     })
 
     res.json(product)
@@ -305,6 +487,8 @@ export async function deleteProduct(req: Request, res: Response): Promise<void>
       data: { isActive: false }
     })
 
+    await auditProductEvent(req, 'product_deleted', id, { sku: product.sku, name: product.name }, 'medium')
+
     res.status(204).send()
   } catch (error) {
     console.error('Delete product error:', error)
@@ -319,16 +503,23 @@ export async function deleteProduct(req: Request, res: Response): Promise<void>
  * Get low stock products
  * GET /api/products/low-stock
  */
-export async function getLowStockProducts(_req: Request, res: Response): Promise<void> {
+export async function getLowStockProducts(req: Request, res: Response): Promise<void> {
   try {
-    const products = await prisma.$queryRaw`
-      SELECT * FROM products 
-      WHERE quantity <= min_stock_level 
-      AND is_active = true
-      ORDER BY (quantity - min_stock_level) ASC
-    `
-
-    res.json(products)
+    const storeId = scopeToUserStore(req, req.query.storeId as string | undefined)
+    if (storeId === null) {
+      denyStore(res)
+      return
+    }
+
+    const ids = await findLowStockProductIds(prisma, storeId)
+    const products = await prisma.product.findMany({
+      where: { id: { in: ids } },
+      include: stockInclude(storeId)
+    })
+
+    // Emptiest first, as the stock query ranked them
+    const byId = new Map(products.map(product => [product.id, asStoreProduct(product)]))
+    res.json(ids.flatMap(productId => byId.get(productId) || []))
   } catch (error) {
     console.error('Get low stock products error:', error)
     res.status(500).json({
@@ -399,27 +590,73 @@ export async function getProductVendors(_req: Request, res: Response): Promise<v
 }
 
 /**
- * Update product stock
+ * Record a stock count, setting the store's quantity on hand
  * PATCH /api/products/:id/stock
  */
 export async function updateStock(req: Request, res: Response): Promise<void> {
   try {
     const { id } = req.params
-    const { quantity } = req.body
+    const count: StockCountData = req.body
 
-    if (typeof quantity !== 'number' || quantity < 0) {
+    const errors = validateStockCount(count)
+    if (errors.length > 0) {
       res.status(400).json({
-        error: 'Invalid quantity',
+        error: errors.join('; '),
         code: 'INVALID_QUANTITY'
       })
       return
     }
 
-    const product = await prisma.product.update({
+    const storeId = scopeToUserStore(req, count.storeId)
+    if (storeId === null) {
+      denyStore(res)
+      return
+    }
+    if (!storeId) {
+      requireStore(res)
+      return
+    }
+
+    const found = await prisma.product.findUnique({
       where: { id },
-      data: { quantity }
+      include: storeStockInclude(storeId)
     })
 
+    if (!found) {
+      res.status(404).json({
+        error: 'Product not found',
+        code: 'PRODUCT_NOT_FOUND'
+      })
+      return
+    }
+    const existingProduct = withStoreStock(found)
+
+    const { product, movement } = await prisma.$transaction(async (tx) => {
+      const movement = await recordStockCount(tx, id, count, stockActor(req, storeId))
+      const product = await tx.product.findUniqueOrThrow({
+        where: { id },
+        include: storeStockInclude(storeId)
+      })
+      return { product: withStoreStock(product), movement }
+    })
+
+    if (movement) {
+      await auditProductEvent(
+        req,
+        'inventory_adjusted',
+        id,
+        {
+          sku: product.sku,
+          storeId,
+          previousQuantity: existingProduct.quantity,
+          quantity: product.quantity,
+          reasonCode: movement.reasonCode,
+          movementId: movement.id
+        },
+        'medium'
+      )
+    }
+
     res.json(product)
   } catch (error) {
     console.error('Update stock error:', error)
@@ -431,12 +668,12 @@ export async function updateStock(req: Request, res: Response): Promise<void> {
 }
 
 /**
- * Bulk update product stock
+ * Record stock counts for several products at once; all are saved or none
  * PATCH /api/products/bulk-stock
  */
 export async function bulkUpdateStock(req: Request, res: Response): Promise<void> {
   try {
-    const { updates } = req.body
+    const { updates } = req.body as BulkStockCountData
 
     if (!Array.isArray(updates)) {
       res.status(400).json({
@@ -446,20 +683,285 @@ export async function bulkUpdateStock(req: Request, res: Response): Promise<void
       return
     }
 
-    const updatePromises = updates.map(({ id, quantity }) =>
-      prisma.product.update({
-        where: { id },
-        data: { quantity }
-      })
+    const errors = updates.flatMap((update, index) =>
+      validateStockCount(update).map(error => `updates[${index}]: ${error}`)
     )
+    if (errors.length > 0) {
+      res.status(400).json({
+        error: errors.join('; '),
+        code: 'INVALID_UPDATES'
+      })
+      return
+    }
 
-    const products = await Promise.all(updatePromises)
-    res.json(products)
+    const storeIds = updates.map(update => scopeToUserStore(req, update.storeId))
+    if (storeIds.includes(null)) {
+      denyStore(res)
+      return
+    }
+    if (storeIds.includes(undefined)) {
+      requireStore(res)
+      return
+    }
+
+    const results = await prisma.$transaction(async (tx) => {
+      const results = []
+      for (const [index, { id, ...count }] of updates.entries()) {
+        const storeId = storeIds[index] as string
+        const movement = await recordStockCount(tx, id, count, stockActor(req, storeId))
+        const product = await tx.product.findUniqueOrThrow({
+          where: { id },
+          include: storeStockInclude(storeId)
+        })
+        results.push({ product: withStoreStock(product), movement, storeId })
+      }
+      return results
+    })
+
+    for (const { product, movement, storeId } of results) {
+      if (!movement) continue
+      await auditProductEvent(
+        req,
+        'inventory_adjusted',
+        product.id,
+        {
+          sku: product.sku,
+          storeId,
+          quantity: product.quantity,
+          change: movement.quantity,
+          reasonCode: movement.reasonCode,
+          movementId: movement.id,
+          bulkUpdate: true
+        },
+        'medium'
+      )
+    }
+
+    res.json(results.map(result => result.product))
   } catch (error) {
+    if (error instanceof InventoryMovementError) {
+      res.status(404).json({
+        error: error.message,
+        code: 'PRODUCT_NOT_FOUND'
+      })
+      return
+    }
     console.error('Bulk update stock error:', error)
     res.status(500).json({
       error: 'Failed to bulk update stock',
       code: 'BULK_UPDATE_STOCK_ERROR'
     })
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Receive stock, or adjust it for damage, theft or expiry
+ * POST /api/products/:id/movements
+ */
+export async function recordInventoryMovement(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params
+    const data: RecordInventoryMovementData = req.body
+
+    const errors = validateInventoryMovement(data)
+    if (errors.length > 0) {
+      res.status(400).json({
+        error: errors.join('; '),
+        code: 'INVALID_MOVEMENT'
+      })
+      return
+    }
+
+    const storeId = scopeToUserStore(req, data.storeId)
+    if (storeId === null) {
+      denyStore(res)
+      return
+    }
+    if (!storeId) {
+      requireStore(res)
+      return
+    }
+
+    const found = await prisma.product.findUnique({
+      where: { id },
+      include: storeStockInclude(storeId)
+    })
+
+    if (!found) {
+      res.status(404).json({
+        error: 'Product not found',
+        code: 'PRODUCT_NOT_FOUND'
+      })
+      return
+    }
+    const existingProduct = withStoreStock(found)
+
+    const movement = await prisma.$transaction(tx =>
+      postInventoryMovement(tx, {
+        ...stockActor(req, storeId),
+        productId: id,
+        movementType: data.movementType,
+        reasonCode: data.reasonCode,
+        quantity: data.quantity,
+        reference: data.reference,
+        notes: data.notes
+      })
+    )
+
+    await auditProductEvent(
+      req,
+      data.movementType === 'RECEIVE' ? 'inventory_received' : 'inventory_adjusted',
+      id,
+      {
+        storeId,
+        previousQuantity: existingProduct.quantity,
+        quantity: movement?.quantityAfter,
+        change: data.quantity,
+        reasonCode: data.reasonCode,
+        reference: data.reference,
+        movementId: movement?.id
+      },
+      'medium'
+    )
+
+    res.status(201).json(movement && toInventoryMovementEntry(movement))
+  } catch (error) {
+    if (error instanceof InventoryMovementError) {
+      res.status(409).json({
+        error: error.message,
+        code: 'INVALID_MOVEMENT'
+      })
+      return
+    }
+    console.error('Record inventory movement error:', error)
+    res.status(500).json({
+      error: 'Failed to record inventory movement',
+      code: 'RECORD_MOVEMENT_ERROR'
+    })
+  }
+}
+
+/**
+ * A product's stock movements, newest first
+ * GET /api/products/:id/movements
+ */
+export async function getInventoryMovements(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params
+    const query = req.query as Record<keyof InventoryMovementQuery, string | undefined>
+    const { startDate, endDate, limit } = query
+    const movementType = query.movementType as InventoryMovementType | undefined
+
+    // Admins without a store see movements at every store
+    const storeId = scopeToUserStore(req, query.storeId)
+    if (storeId === null) {
+      denyStore(res)
+      return
+    }
+
+    if (movementType && !INVENTORY_MOVEMENT_TYPES.includes(movementType)) {
+      res.status(400).json({
+        error: `movementType must be one of ${INVENTORY_MOVEMENT_TYPES.join(', ')}`,
+        code: 'INVALID_MOVEMENT_TYPE'
+      })
+      return
+    }
+
+    const product = await prisma.product.findUnique({
+      where: { id },
+      select: { id: true }
+    })
+
+    if (!product) {
+      res.status(404).json({
+        error: 'Product not found',
+        code: 'PRODUCT_NOT_FOUND'
+      })
+      return
+    }
+
+    const take = Math.min(parseInt(limit || '100', 10) || 100, MAX_MOVEMENTS)
+    const [movements, discrepancies] = await Promise.all([
+      prisma.inventoryMovement.findMany({
+        where: {
+          productId: id,
+          ...(storeId && { storeId }),
+          ...(movementType && { movementType }),
+          ...((startDate || endDate) && {
+            createdAt: {
+              ...(startDate && { gte: new Date(startDate) }),
+              ...(endDate && { lte: new Date(endDate) })
+            }
+          })
+        },
+        include: {
+          store: { select: { storeName: true } },
+          transaction: { select: { receiptNumber: true } },
+          user: { select: { firstName: true, lastName: true, username: true } }
+        },
+        orderBy: { createdAt: 'desc' },
+        take
+      }),
+      findInventoryDiscrepancies(prisma, { productId: id, storeId })
+    ])
+
+    res.json({
+      movements: movements.map(toInventoryMovementEntry),
+      discrepancy: discrepancies.find(row => row.storeId === (storeId || null)) || null
+    })
+  } catch (error) {
+    console.error('Get inventory movements error:', error)
+    res.status(500).json({
+      error: 'Failed to fetch inventory movements',
+      code: 'FETCH_MOVEMENTS_ERROR'
+    })
+  }
+}
+
+/**
+ * Stock whose quantity on hand does not add up from its movements
+ * GET /api/products/inventory/reconciliation
+ */
+export async function getInventoryReconciliation(req: Request, res: Response): Promise<void> {
+  try {
+    // Admins without a store reconcile every store and the totals across them
+    const storeId = scopeToUserStore(req, req.query.storeId as string | undefined)
+    if (storeId === null) {
+      denyStore(res)
+      return
+    }
+
+    const discrepancies = await findInventoryDiscrepancies(prisma, { storeId })
+    res.json({ discrepancies })
+  } catch (error) {
+    console.error('Inventory reconciliation error:', error)
+    res.status(500).json({
+      error: 'Failed to reconcile inventory',
+      code: 'RECONCILE_INVENTORY_ERROR'
+    })
+  }
+}
+
+/**
+ * Helper function to write a catalog change to the audit log
+ * Products are shared across stores, so entries are filed under the user's store
+ */
+async function auditProductEvent(
+  req: Request,
+  action: AuditAction,
+  productId: string,
+  details: Record<string, unknown>,
+  severity: AuditSeverity = 'low'
+): Promise<void> {
+  await recordAuditEventSafely(prisma, {
+    userId: req.user?.id || 'unknown',
+    userRole: req.user?.role || 'unknown',
+    storeId: req.user?.storeId || SYSTEM_STORE_ID,
+    action,
+    entityType: 'product',
+    entityId: productId,
+    details,
+    metadata: getRequestMetadata(req),
+    severity
+  })
+}
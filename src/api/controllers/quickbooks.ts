@@ -1,6 +1,7 @@
 import type { Request, Response } from 'express'
 import { prisma } from '../../shared/utils/database'
 import { auditLoggingService } from '../../shared/services/auditLogging'
+import { toSalesReceiptPayments } from '../../shared/services/quickbooksSync'
 
 // QuickBooks SDK would be imported here
 // import * as QuickBooks from 'node-quickbooks'
@@ -368,6 +369,7 @@ export const quickBooksController = {
           transactionItems: {
             include: { product: true }
           },
+          payments: { orderBy: { sequence: 'asc' } },
           customer: true
         }
       })
@@ -377,6 +379,10 @@ export const quickBooksController = {
         return
       }
 
+      const mapping = await prisma.quickBooksAccountMapping.findUnique({
+        where: { storeId: transaction.storeId }
+      })
+
       // Mock QuickBooks sales receipt creation
       const qbSalesReceipt = {
         id: `qb_receipt_${transactionId}`,
@@ -385,6 +391,7 @@ export const quickBooksController = {
         totalAmount: transaction.totalAmount,
         taxAmount: transaction.taxAmount,
         paymentMethod: transaction.paymentMethod,
+        payments: toSalesReceiptPayments(transaction.payments, mapping),
         lineItems: transaction.transactionItems.map(item => ({
           itemId: item.product.quickBooksId || `qb_${item.product.id}`,
           quantity: item.quantity,
@@ -0,0 +1,370 @@
+import { Request, Response } from 'express'
+import { PrismaClient, Prisma } from '../../generated/prisma'
+import type {
+  CreateZReportData,
+  SalesBreakdown,
+  SalesExportQuery,
+  SalesReport,
+  SalesReportQuery
+} from '../../shared/types/reports'
+import type { StockTransferReportQuery } from '../../shared/types/stockTransfers'
+import {
+  buildDailyReport,
+  createZReport,
+  parseBusinessDate,
+  toZReportResponse,
+  DailyReportError
+} from '../../shared/services/dailyReports'
+import {
+  buildSalesReport,
+  formatSalesReportCsv,
+  getSalesReportRows,
+  parseSalesReportQuery,
+  SalesReportError,
+  SALES_BREAKDOWNS
+} from '../../shared/services/salesReports'
+import { buildStockTransferReport } from '../../shared/services/stockTransfer'
+import { postQuickBooksDailySummary } from '../../shared/services/quickbooksSync'
+import {
+  recordAuditEvent,
+  recordAuditEventSafely,
+  getRequestMetadata,
+  SYSTEM_STORE_ID
+} from '../../shared/services/auditTrail'
+import { formatBusinessDate, getBusinessDate } from '../../shared/utils/businessDate'
+import { toAmount } from '../../shared/utils/money'
+
+const prisma = new PrismaClient()
+
+// Who ran or reprinted a report and from where, as recorded on audit entries
+const auditActor = (req: Request, storeId: string) => ({
+  userId: req.user.id,
+  userRole: req.user.role,
+  storeId,
+  metadata: getRequestMetadata(req)
+})
+
+// Admins can report on every store; everyone else only on their own
+const scopeToUserStore = (req: Request, storeId?: string): string | undefined | null => {
+  if (req.user?.role === 'ADMIN') return storeId || req.user.storeId || undefined
+  if (!req.user?.storeId) return null
+  if (storeId && storeId !== req.user.storeId) return null
+  return req.user.storeId
+}
+
+// Builds a sales report for the stores the user may see; admins see every store unless they pick one
+async function loadSalesReport(
+  req: Request,
+  query: SalesReportQuery
+): Promise<{ report: SalesReport } | { status: number; message: string }> {
+  const { startDate, endDate, interval } = parseSalesReportQuery(query)
+
+  const storeId =
+    req.user.role === 'ADMIN' ? query.storeId : scopeToUserStore(req, query.storeId)
+  if (storeId === null) return { status: 403, message: 'Access denied to this store' }
+
+  const stores = await prisma.storeLocation.findMany({
+    where: storeId ? { id: storeId } : {},
+    select: { id: true, storeName: true, timezone: true }
+  })
+  if (storeId && stores.length === 0) return { status: 404, message: 'Store not found' }
+
+  const report = await buildSalesReport(prisma, {
+    stores,
+    storeId: storeId || null,
+    startDate,
+    endDate,
+    interval
+  })
+  return { report }
+}
+
+export const reportsController = {
+  // Sales by period, category, vendor, product, employee and store, with margin and returns
+  async getSalesReport(req: Request, res: Response): Promise<Response> {
+    try {
+      const result = await loadSalesReport(req, req.query as SalesReportQuery)
+      if ('status' in result) {
+        return res.status(result.status).json({ message: result.message })
+      }
+
+      return res.json({ report: result.report })
+    } catch (error) {
+      if (error instanceof SalesReportError) {
+        return res.status(400).json({ message: error.message })
+      }
+      console.error('Sales report error:', error)
+      return res.status(500).json({ message: 'Failed to build sales report' })
+    }
+  },
+
+  // One breakdown of a sales report as CSV
+  async exportSalesReport(req: Request, res: Response): Promise<Response> {
+    try {
+      const query = req.query as SalesExportQuery
+      const groupBy: SalesBreakdown = query.groupBy || 'period'
+      if (!SALES_BREAKDOWNS.includes(groupBy)) {
+        return res.status(400).json({
+          message: `groupBy must be one of ${SALES_BREAKDOWNS.join(', ')}`
+        })
+      }
+
+      const result = await loadSalesReport(req, query)
+      if ('status' in result) {
+        return res.status(result.status).json({ message: result.message })
+      }
+      const { report } = result
+      const rows = getSalesReportRows(report, groupBy)
+
+      await recordAuditEventSafely(prisma, {
+        ...auditActor(req, report.storeId || req.user.storeId || SYSTEM_STORE_ID),
+        action: 'data_export',
+        entityType: 'report',
+        details: {
+          exportType: 'sales_report',
+          groupBy,
+          interval: report.interval,
+          startDate: report.startDate,
+          endDate: report.endDate,
+          storeId: report.storeId || 'all',
+          rowCount: rows.length
+        },
+        severity: 'low'
+      })
+
+      const filename = `sales-by-${groupBy}-${report.startDate}-${report.endDate}`
+      res.setHeader('Content-Type', 'text/csv')
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`)
+      return res.send(formatSalesReportCsv(rows))
+    } catch (error) {
+      if (error instanceof SalesReportError) {
+        return res.status(400).json({ message: error.message })
+      }
+      console.error('Sales report export error:', error)
+      return res.status(500).json({ message: 'Failed to export sales report' })
+    }
+  },
+
+  // X report: the business day so far for a store, or for one register's drawer
+  async getXReport(req: Request, res: Response): Promise<Response> {
+    try {
+      const storeId = scopeToUserStore(req, req.query.storeId as string | undefined)
+      if (storeId === null) {
+        return res.status(403).json({ message: 'Access denied to this store' })
+      }
+      if (!storeId) {
+        return res.status(400).json({ message: 'storeId is required' })
+      }
+
+      const store = await prisma.storeLocation.findUnique({ where: { id: storeId } })
+      if (!store) {
+        return res.status(404).json({ message: 'Store not found' })
+      }
+
+      const now = new Date()
+      const businessDate = req.query.businessDate
+        ? parseBusinessDate(req.query.businessDate)
+        : getBusinessDate(now, store.timezone)
+      if (!businessDate) {
+        return res.status(400).json({ message: 'businessDate must be a date in YYYY-MM-DD form' })
+      }
+
+      const cashDrawerSessionId = req.query.cashDrawerSessionId as string | undefined
+      const cashDrawerSession = cashDrawerSessionId
+        ? await prisma.cashDrawerSession.findUnique({ where: { id: cashDrawerSessionId } })
+        : undefined
+      if (cashDrawerSession === null || (cashDrawerSession && cashDrawerSession.storeId !== store.id)) {
+        return res.status(404).json({ message: 'Cash drawer not found' })
+      }
+
+      const report = await buildDailyReport(prisma, { store, businessDate, cashDrawerSession }, now)
+      return res.json({ report })
+    } catch (error) {
+      console.error('X report error:', error)
+      return res.status(500).json({ message: 'Failed to build X report' })
+    }
+  },
+
+  // Stock a store shipped out and received in by transfer, with shortages and what is in transit
+  async getTransferReport(req: Request, res: Response): Promise<Response> {
+    try {
+      const query = req.query as StockTransferReportQuery
+      const storeId = scopeToUserStore(req, query.storeId)
+      if (storeId === null) {
+        return res.status(403).json({ message: 'Access denied to this store' })
+      }
+      if (!storeId) {
+        return res.status(400).json({ message: 'storeId is required' })
+      }
+
+      const store = await prisma.storeLocation.findUnique({
+        where: { id: storeId },
+        select: { id: true, storeName: true, timezone: true }
+      })
+      if (!store) {
+        return res.status(404).json({ message: 'Store not found' })
+      }
+
+      // The current business day unless a period is given
+      const today = getBusinessDate(new Date(), store.timezone)
+      const startDate = query.startDate ? parseBusinessDate(query.startDate) : today
+      const endDate = query.endDate ? parseBusinessDate(query.endDate) : startDate
+      if (!startDate || !endDate) {
+        return res.status(400).json({ message: 'Dates must be in YYYY-MM-DD form' })
+      }
+      if (startDate > endDate) {
+        return res.status(400).json({ message: 'startDate must not be after endDate' })
+      }
+
+      const report = await buildStockTransferReport(prisma, { store, startDate, endDate })
+      return res.json({ report })
+    } catch (error) {
+      console.error('Transfer report error:', error)
+      return res.status(500).json({ message: 'Failed to build transfer report' })
+    }
+  },
+
+  // Z report: close a store's business day with the next numbered report
+  async createZReport(req: Request, res: Response): Promise<Response> {
+    try {
+      const body: CreateZReportData = req.body
+      const storeId = scopeToUserStore(req, body.storeId)
+      if (storeId === null) {
+        return res.status(403).json({ message: 'Access denied to this store' })
+      }
+      if (!storeId) {
+        return res.status(400).json({ message: 'storeId is required' })
+      }
+
+      const store = await prisma.storeLocation.findUnique({ where: { id: storeId } })
+      if (!store) {
+        return res.status(404).json({ message: 'Store not found' })
+      }
+
+      const now = new Date()
+      const businessDate = body.businessDate
+        ? parseBusinessDate(body.businessDate)
+        : getBusinessDate(now, store.timezone)
+      if (!businessDate) {
+        return res.status(400).json({ message: 'businessDate must be a date in YYYY-MM-DD form' })
+      }
+
+      const zReport = await prisma.$transaction(async (tx) => {
+        const zReport = await createZReport(tx, store, businessDate, req.user.id, now)
+
+        await recordAuditEvent(tx, {
+          ...auditActor(req, store.id),
+          action: 'z_report_generated',
+          entityType: 'report',
+          entityId: zReport.id,
+          details: {
+            reportNumber: zReport.reportNumber,
+            businessDate: formatBusinessDate(zReport.businessDate),
+            netSales: toAmount(zReport.netSales),
+            overShort: toAmount(zReport.overShort)
+          },
+          severity: 'medium'
+        })
+
+        return zReport
+      })
+
+      return res.status(201).json({ message: 'Business day closed', zReport: toZReportResponse(zReport) })
+    } catch (error) {
+      if (error instanceof DailyReportError) {
+        return res.status(409).json({ message: error.message })
+      }
+      // Two managers closing the same day at once; the other one won
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return res.status(409).json({ message: 'This business day has just been closed' })
+      }
+      console.error('Z report error:', error)
+      return res.status(500).json({ message: 'Failed to run Z report' })
+    }
+  },
+
+  // Z reports for a store, newest first
+  async getZReports(req: Request, res: Response): Promise<Response> {
+    try {
+      const storeId = scopeToUserStore(req, req.query.storeId as string | undefined)
+      if (storeId === null) {
+        return res.status(403).json({ message: 'Access denied to this store' })
+      }
+
+      const startDate = req.query.startDate ? parseBusinessDate(req.query.startDate) : undefined
+      const endDate = req.query.endDate ? parseBusinessDate(req.query.endDate) : undefined
+      if (startDate === null || endDate === null) {
+        return res.status(400).json({ message: 'Dates must be in YYYY-MM-DD form' })
+      }
+
+      const zReports = await prisma.zReport.findMany({
+        where: {
+          storeId,
+          ...((startDate || endDate) && { businessDate: { gte: startDate, lte: endDate } })
+        },
+        orderBy: [{ businessDate: 'desc' }, { reportNumber: 'desc' }],
+        take: 366
+      })
+
+      return res.json({ zReports: zReports.map(toZReportResponse) })
+    } catch (error) {
+      console.error('Get Z reports error:', error)
+      return res.status(500).json({ message: 'Failed to fetch Z reports' })
+    }
+  },
+
+  // One Z report exactly as it was run
+  async getZReport(req: Request, res: Response): Promise<Response> {
+    try {
+      const zReport = await prisma.zReport.findUnique({ where: { id: req.params.id } })
+      if (!zReport || scopeToUserStore(req, zReport.storeId) !== zReport.storeId) {
+        return res.status(404).json({ message: 'Z report not found' })
+      }
+
+      return res.json({ zReport: toZReportResponse(zReport) })
+    } catch (error) {
+      console.error('Get Z report error:', error)
+      return res.status(500).json({ message: 'Failed to fetch Z report' })
+    }
+  },
+
+  // Reprint a Z report; the figures are the stored ones, and the reprint is audited
+  async reprintZReport(req: Request, res: Response): Promise<Response> {
+    try {
+      const zReport = await prisma.zReport.findUnique({ where: { id: req.params.id } })
+      if (!zReport || scopeToUserStore(req, zReport.storeId) !== zReport.storeId) {
+        return res.status(404).json({ message: 'Z report not found' })
+      }
+
+      await recordAuditEventSafely(prisma, {
+        ...auditActor(req, zReport.storeId),
+        action: 'z_report_reprinted',
+        entityType: 'report',
+        entityId: zReport.id,
+        details: { reportNumber: zReport.reportNumber },
+        severity: 'low'
+      })
+
+      return res.json({ zReport: toZReportResponse(zReport), reprint: true })
+    } catch (error) {
+      console.error('Reprint Z report error:', error)
+      return res.status(500).json({ message: 'Failed to reprint Z report' })
+    }
+  },
+
+  // Send a Z report to QuickBooks as the day's summary journal entry
+  async syncZReport(req: Request, res: Response): Promise<Response> {
+    try {
+      const zReport = await prisma.zReport.findUnique({ where: { id: req.params.id } })
+      if (!zReport || scopeToUserStore(req, zReport.storeId) !== zReport.storeId) {
+        return res.status(404).json({ message: 'Z report not found' })
+      }
+
+      const quickBooks = await postQuickBooksDailySummary(prisma, zReport)
+      return res.status(quickBooks.status === 'FAILED' ? 502 : 200).json({ quickBooks })
+    } catch (error) {
+      console.error('Z report QuickBooks sync error:', error)
+      return res.status(500).json({ message: 'Failed to send Z report to QuickBooks' })
+    }
+  }
+}
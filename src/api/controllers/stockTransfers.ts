@@ -0,0 +1,370 @@
+import { Request, Response } from 'express'
+import { PrismaClient, Prisma } from '../../generated/prisma'
+import type { StockTransferStatus } from '../../shared/types/database'
+import type {
+  CreateStockTransferData,
+  ReceiveStockTransferData,
+  ShipStockTransferData
+} from '../../shared/types/stockTransfers'
+import {
+  advanceStockTransfer,
+  findTransferDiscrepancies,
+  receiveStockTransfer,
+  shipStockTransfer,
+  stockTransferInclude,
+  toStockTransferResponse,
+  transferReference,
+  validateReceipt,
+  validateShipment,
+  validateStockTransferRequest,
+  StockTransferError,
+  STOCK_TRANSFER_STATUSES
+} from '../../shared/services/stockTransfer'
+import { InventoryMovementError } from '../../shared/services/inventoryLedger'
+import { recordAuditEvent, getRequestMetadata } from '../../shared/services/auditTrail'
+import { validateStoreAccess } from '../../shared/services/auth'
+
+const prisma = new PrismaClient()
+
+// Who acted on a transfer and from where, as recorded on audit entries
+const auditActor = (req: Request, storeId: string) => ({
+  userId: req.user.id,
+  userRole: req.user.role,
+  storeId,
+  metadata: getRequestMetadata(req)
+})
+
+// Anyone at either end of a transfer can see it
+const canSeeTransfer = (req: Request, transfer: { fromStoreId: string; toStoreId: string }) =>
+  validateStoreAccess(req.user, transfer.fromStoreId) ||
+  validateStoreAccess(req.user, transfer.toStoreId)
+
+/**
+ * Resolves the store at one end of the transfer named in the route, so
+ * requireStoreAccess can check it before the step runs: approving and
+ * shipping belong to the source store, receiving to the destination
+ */
+export const transferStore = (end: 'fromStoreId' | 'toStoreId') =>
+  async (req: Request): Promise<string | undefined> => {
+    const transfer = await prisma.stockTransfer.findUnique({
+      where: { id: req.params.id },
+      select: { fromStoreId: true, toStoreId: true }
+    })
+    return transfer?.[end]
+  }
+
+const loadTransfer = (client: Prisma.TransactionClient, id: string) =>
+  client.stockTransfer.findUnique({ where: { id }, include: stockTransferInclude })
+
+// Conflicts with the transfer's state or the stock on hand are the caller's to fix
+const sendTransferError = (res: Response, error: unknown, action: string): Response => {
+  if (error instanceof StockTransferError || error instanceof InventoryMovementError) {
+    return res.status(409).json({ message: error.message })
+  }
+  console.error(`${action} stock transfer error:`, error)
+  return res.status(500).json({ message: `Failed to ${action.toLowerCase()} stock transfer` })
+}
+
+export const stockTransfersController = {
+  // Request stock from one store for another
+  async createTransfer(req: Request, res: Response): Promise<Response> {
+    try {
+      const input: CreateStockTransferData = req.body
+
+      const errors = validateStockTransferRequest(input)
+      if (errors.length > 0) {
+        return res.status(400).json({ message: 'Invalid stock transfer', errors })
+      }
+      if (!canSeeTransfer(req, input)) {
+        return res.status(403).json({ message: 'Access denied to these stores' })
+      }
+
+      const [stores, products] = await Promise.all([
+        prisma.storeLocation.count({
+          where: { id: { in: [input.fromStoreId, input.toStoreId] }, isActive: true }
+        }),
+        prisma.product.findMany({
+          where: { id: { in: input.items.map(item => item.productId) } },
+          select: { id: true }
+        })
+      ])
+      if (stores !== 2) {
+        return res.status(404).json({ message: 'Store not found' })
+      }
+      const found = new Set(products.map(product => product.id))
+      const missing = input.items.filter(item => !found.has(item.productId))
+      if (missing.length > 0) {
+        return res.status(404).json({
+          message: 'Product not found',
+          errors: missing.map(item => `${item.productId} not found`)
+        })
+      }
+
+      const transfer = await prisma.$transaction(async (tx) => {
+        const transfer = await tx.stockTransfer.create({
+          data: {
+            fromStoreId: input.fromStoreId,
+            toStoreId: input.toStoreId,
+            requestedById: req.user.id,
+            notes: input.notes?.trim() || undefined,
+            items: {
+              create: input.items.map(item => ({
+                productId: item.productId,
+                quantityRequested: item.quantity
+              }))
+            }
+          },
+          include: stockTransferInclude
+        })
+
+        await recordAuditEvent(tx, {
+          ...auditActor(req, transfer.fromStoreId),
+          action: 'stock_transfer_requested',
+          entityType: 'stock_transfer',
+          entityId: transfer.id,
+          details: {
+            reference: transferReference(transfer.transferNumber),
+            toStoreId: transfer.toStoreId,
+            items: input.items
+          },
+          severity: 'low'
+        })
+
+        return transfer
+      })
+
+      return res.status(201).json({ transfer: toStockTransferResponse(transfer) })
+    } catch (error) {
+      console.error('Create stock transfer error:', error)
+      return res.status(500).json({ message: 'Failed to create stock transfer' })
+    }
+  },
+
+  // Active stores stock can be sent to or from
+  async getStores(_req: Request, res: Response): Promise<Response> {
+    try {
+      const stores = await prisma.storeLocation.findMany({
+        where: { isActive: true },
+        select: { id: true, storeName: true },
+        orderBy: { storeName: 'asc' }
+      })
+
+      return res.json({ stores })
+    } catch (error) {
+      console.error('Get transfer stores error:', error)
+      return res.status(500).json({ message: 'Failed to fetch stores' })
+    }
+  },
+
+  // Transfers to or from the stores the user can see, newest first
+  async getTransfers(req: Request, res: Response): Promise<Response> {
+    try {
+      const { storeId, status, limit } = req.query as Record<string, string | undefined>
+      if (status && !STOCK_TRANSFER_STATUSES.includes(status as StockTransferStatus)) {
+        return res
+          .status(400)
+          .json({ message: `status must be one of ${STOCK_TRANSFER_STATUSES.join(', ')}` })
+      }
+
+      // Admins see every store unless they pick one; everyone else sees their own
+      const scopedStoreId = req.user.role === 'ADMIN' ? storeId : req.user.storeId
+      if (req.user.role !== 'ADMIN' && (!scopedStoreId || (storeId && storeId !== scopedStoreId))) {
+        return res.status(403).json({ message: 'Access denied to this store' })
+      }
+
+      const transfers = await prisma.stockTransfer.findMany({
+        where: {
+          status: (status as StockTransferStatus) || undefined,
+          ...(scopedStoreId && {
+            OR: [{ fromStoreId: scopedStoreId }, { toStoreId: scopedStoreId }]
+          })
+        },
+        include: stockTransferInclude,
+        orderBy: { createdAt: 'desc' },
+        take: Math.min(200, Math.max(1, Number(limit) || 50))
+      })
+
+      return res.json({ transfers: transfers.map(toStockTransferResponse) })
+    } catch (error) {
+      console.error('Get stock transfers error:', error)
+      return res.status(500).json({ message: 'Failed to fetch stock transfers' })
+    }
+  },
+
+  // One transfer with its lines
+  async getTransfer(req: Request, res: Response): Promise<Response> {
+    try {
+      const transfer = await loadTransfer(prisma, req.params.id)
+      if (!transfer || !canSeeTransfer(req, transfer)) {
+        return res.status(404).json({ message: 'Stock transfer not found' })
+      }
+
+      return res.json({ transfer: toStockTransferResponse(transfer) })
+    } catch (error) {
+      console.error('Get stock transfer error:', error)
+      return res.status(500).json({ message: 'Failed to fetch stock transfer' })
+    }
+  },
+
+  // Approve a requested transfer; the route has already checked access to the source store
+  async approveTransfer(req: Request, res: Response): Promise<Response> {
+    try {
+      const transfer = await prisma.$transaction(async (tx) => {
+        const existing = await loadTransfer(tx, req.params.id)
+        if (!existing) return null
+
+        await advanceStockTransfer(tx, existing.id, ['REQUESTED'], {
+          status: 'APPROVED',
+          approvedById: req.user.id,
+          approvedAt: new Date()
+        })
+
+        await recordAuditEvent(tx, {
+          ...auditActor(req, existing.fromStoreId),
+          action: 'stock_transfer_approved',
+          entityType: 'stock_transfer',
+          entityId: existing.id,
+          details: { reference: transferReference(existing.transferNumber) },
+          severity: 'low'
+        })
+
+        return loadTransfer(tx, existing.id)
+      })
+
+      if (!transfer) {
+        return res.status(404).json({ message: 'Stock transfer not found' })
+      }
+      return res.json({ transfer: toStockTransferResponse(transfer) })
+    } catch (error) {
+      return sendTransferError(res, error, 'Approve')
+    }
+  },
+
+  // Ship an approved transfer: its stock leaves the source store and is in transit
+  async shipTransfer(req: Request, res: Response): Promise<Response> {
+    try {
+      const input: ShipStockTransferData = req.body || {}
+
+      const existing = await loadTransfer(prisma, req.params.id)
+      if (!existing) {
+        return res.status(404).json({ message: 'Stock transfer not found' })
+      }
+      const errors = validateShipment(existing, input)
+      if (errors.length > 0) {
+        return res.status(400).json({ message: 'Invalid shipment', errors })
+      }
+
+      const transfer = await prisma.$transaction(async (tx) => {
+        await shipStockTransfer(tx, existing, input, req.user.id)
+        const transfer = (await loadTransfer(tx, existing.id))!
+
+        await recordAuditEvent(tx, {
+          ...auditActor(req, transfer.fromStoreId),
+          action: 'stock_transfer_shipped',
+          entityType: 'stock_transfer',
+          entityId: transfer.id,
+          details: {
+            reference: transferReference(transfer.transferNumber),
+            items: transfer.items.map(item => ({
+              productId: item.productId,
+              quantityRequested: item.quantityRequested,
+              quantityShipped: item.quantityShipped,
+              lotNumber: item.lotNumber
+            }))
+          },
+          severity: 'low'
+        })
+
+        return transfer
+      })
+
+      return res.json({ transfer: toStockTransferResponse(transfer) })
+    } catch (error) {
+      return sendTransferError(res, error, 'Ship')
+    }
+  },
+
+  // Receive a transfer in transit, noting any line that arrived short or over
+  async receiveTransfer(req: Request, res: Response): Promise<Response> {
+    try {
+      const input: ReceiveStockTransferData = req.body || {}
+
+      const existing = await loadTransfer(prisma, req.params.id)
+      if (!existing) {
+        return res.status(404).json({ message: 'Stock transfer not found' })
+      }
+      const errors = validateReceipt(existing, input)
+      if (errors.length > 0) {
+        return res.status(400).json({ message: 'Invalid receipt', errors })
+      }
+
+      const result = await prisma.$transaction(async (tx) => {
+        await receiveStockTransfer(tx, existing, input, req.user.id)
+        const transfer = (await loadTransfer(tx, existing.id))!
+        const discrepancies = findTransferDiscrepancies(transfer)
+
+        await recordAuditEvent(tx, {
+          ...auditActor(req, transfer.toStoreId),
+          action: 'stock_transfer_received',
+          entityType: 'stock_transfer',
+          entityId: transfer.id,
+          details: {
+            reference: transferReference(transfer.transferNumber),
+            discrepancies: discrepancies.map(({ productId, difference, note }) => ({
+              productId,
+              difference,
+              note
+            }))
+          },
+          severity: discrepancies.length > 0 ? 'medium' : 'low'
+        })
+
+        return { transfer, discrepancies }
+      })
+
+      return res.json({
+        transfer: toStockTransferResponse(result.transfer),
+        discrepancies: result.discrepancies
+      })
+    } catch (error) {
+      return sendTransferError(res, error, 'Receive')
+    }
+  },
+
+  // Cancel a transfer that has not shipped; either store can call it off
+  async cancelTransfer(req: Request, res: Response): Promise<Response> {
+    try {
+      const transfer = await prisma.$transaction(async (tx) => {
+        const existing = await loadTransfer(tx, req.params.id)
+        if (!existing || !canSeeTransfer(req, existing)) return null
+
+        await advanceStockTransfer(tx, existing.id, ['REQUESTED', 'APPROVED'], {
+          status: 'CANCELLED',
+          cancelledAt: new Date()
+        })
+
+        await recordAuditEvent(tx, {
+          ...auditActor(req, existing.fromStoreId),
+          action: 'stock_transfer_cancelled',
+          entityType: 'stock_transfer',
+          entityId: existing.id,
+          details: {
+            reference: transferReference(existing.transferNumber),
+            previousStatus: existing.status,
+            reason: req.body?.reason
+          },
+          severity: 'low'
+        })
+
+        return loadTransfer(tx, existing.id)
+      })
+
+      if (!transfer) {
+        return res.status(404).json({ message: 'Stock transfer not found' })
+      }
+      return res.json({ transfer: toStockTransferResponse(transfer) })
+    } catch (error) {
+      return sendTransferError(res, error, 'Cancel')
+    }
+  }
+}
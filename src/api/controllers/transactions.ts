@@ -1,6 +1,88 @@
 import { Request, Response } from 'express'
-import { PrismaClient } from '../../generated/prisma'
-import type { CreateTransactionData } from '../../shared/types/transactions'
+import { PrismaClient, Prisma } from '../../generated/prisma'
+import type { PaymentMethod, AgeVerificationLog } from '../../generated/prisma'
+import type {
+  CreateTransactionData,
+  CalculateTaxRequest,
+  CartQuoteRequest,
+  CreateReturnData,
+  Receipt,
+  TenderMethod,
+  VoidTransactionData,
+  TaxBreakdown,
+  TaxJurisdictionAmount,
+  TaxQuote
+} from '../../shared/types/transactions'
+import type { AppliedOffer } from '../../shared/types/offers'
+import {
+  getStoreJurisdictions,
+  loadActiveComplianceRules
+} from '../../shared/services/complianceEngine'
+import {
+  priceCart,
+  toCartQuote,
+  CheckoutPricingError
+} from '../../shared/services/checkoutPricing'
+import {
+  calculateTransactionTax,
+  summariseTax,
+  toTaxableLine
+} from '../../shared/services/taxEngine'
+import {
+  planReturn,
+  calculatePointsReversal,
+  loadPriorReturnLines,
+  lockSale,
+  ReturnValidationError
+} from '../../shared/services/returns'
+import type { TaxableLine } from '../../shared/services/taxEngine'
+import { roundCurrency, toAmount } from '../../shared/utils/money'
+import { isSameBusinessDay } from '../../shared/utils/businessDate'
+import {
+  recordAuditEvent,
+  recordAuditEventSafely,
+  getRequestMetadata
+} from '../../shared/services/auditTrail'
+import { resolveApprover, ManagerApprovalError } from '../../shared/services/managerApproval'
+import {
+  checkVerificationForSale,
+  claimVerificationForSale,
+  AgeVerificationError
+} from '../../shared/services/ageVerificationLog'
+import {
+  recordOfferRedemptions,
+  releaseOfferRedemptions,
+  OfferRedemptionError
+} from '../../shared/services/offerEngine'
+import { calculateRedemptionRefund, LoyaltyRedemptionError } from '../../shared/services/loyalty'
+import { postLoyaltyEntry, upgradeCustomerTier } from '../../shared/services/loyaltyLedger'
+import { refundSaleToGiftCards, GiftCardError } from '../../shared/services/giftCardLedger'
+import { postInventoryMovement } from '../../shared/services/inventoryLedger'
+import {
+  resolveTenders,
+  validateTenders,
+  summariseTenders,
+  settleTenders,
+  getTenderAmounts,
+  loadRefundedTenders,
+  planTenderRefund,
+  refundTenders,
+  toReceiptTenders,
+  verifyCardTenders,
+  authorizeGiftCardTenders,
+  captureCardTenders,
+  releaseCardTenders,
+  voidCardPayments,
+  planCardRefunds,
+  refundCardTenders,
+  TenderError
+} from '../../shared/services/checkoutTenders'
+import type { RefundTender } from '../../shared/services/checkoutTenders'
+import { getStoreProcessor } from '../../shared/services/paymentGateway'
+import { PaymentProcessorError } from '../../shared/services/paymentProcessor'
+import { findOpenDrawer, requireOpenDrawer, CashDrawerError } from '../../shared/services/cashDrawer'
+import { requireOpenBusinessDay, DailyReportError } from '../../shared/services/dailyReports'
+import { voidQuickBooksSalesReceipt } from '../../shared/services/quickbooksSync'
 
 const prisma = new PrismaClient()
 
@@ -10,12 +92,54 @@ interface LineItemData {
   productSku: string
   quantity: number
   unitPrice: number
+  lineDiscount: number
   lineTotal: number
   ageVerificationRequired: boolean
   lotNumber?: string | null
   expirationDate?: Date | null
+  complianceChecked: boolean
+  lineTaxAmount?: number
+  taxDetails?: TaxJurisdictionAmount[]
 }
 
+const generateReceiptNumber = () =>
+  `R${Date.now()}${Math.random().toString(36).substr(2, 4).toUpperCase()}`
+
+// Who performed a register action and from where, as recorded on audit entries
+const auditActor = (req: Request, storeId: string) => ({
+  userId: req.user.id,
+  userRole: req.user.role,
+  storeId,
+  metadata: getRequestMetadata(req)
+})
+
+// Admins can ring up at any store; everyone else only at their own. Null means access denied
+const scopeToUserStore = (req: Request, storeId?: string): string | undefined | null => {
+  if (req.user?.role === 'ADMIN') return storeId || req.user.storeId || undefined
+  if (!req.user?.storeId) return null
+  if (storeId && storeId !== req.user.storeId) return null
+  return req.user.storeId
+}
+
+// The ID check backing a sale of age-restricted products
+const loadSaleVerification = async (
+  ageVerificationId: string | undefined,
+  sale: { storeId: string; customerId?: string | null; minimumAge?: number; at: Date }
+): Promise<AgeVerificationLog> => {
+  if (!ageVerificationId) {
+    throw new AgeVerificationError('Age verification required for restricted products')
+  }
+  const log = await prisma.ageVerificationLog.findUnique({ where: { id: ageVerificationId } })
+  return checkVerificationForSale(log, sale)
+}
+
+const negateTaxDetails = (details: TaxJurisdictionAmount[]): TaxJurisdictionAmount[] =>
+  details.map(detail => ({
+    ...detail,
+    taxableAmount: -detail.taxableAmount,
+    taxAmount: -detail.taxAmount
+  }))
+
 export const transactionController = {
   // Create a new transaction (checkout)
   async createTransaction(req: Request, res: Response): Promise<Response | void> {
@@ -25,8 +149,13 @@ export const transactionController = {
         cartItems,
         paymentMethod,
         cashTendered,
-        ageVerificationCompleted,
-        storeId
+        ageVerificationId,
+        storeId,
+        loyaltyPointsToRedeem,
+        giftCardNumber,
+        giftCardPin,
+        paymentReference,
+        payments
       }: CreateTransactionData = req.body
 
       const employeeId = req.user?.id
@@ -34,166 +163,287 @@ export const transactionController = {
         return res.status(401).json({ message: 'Employee authentication required' })
       }
 
-      // Calculate totals
-      let subtotal = 0
-      const lineItems: LineItemData[] = []
-      let ageVerificationRequired = false
-
-      for (const item of cartItems) {
-        const product = await prisma.product.findUnique({
-          where: { id: item.productId }
-        })
-
-        if (!product) {
-          return res.status(400).json({ 
-            message: `Product ${item.productId} not found` 
-          })
-        }
+      const effectiveStoreId = scopeToUserStore(req, storeId)
+      if (effectiveStoreId === null) {
+        return res.status(403).json({ message: 'Access denied to this store' })
+      }
+      if (!effectiveStoreId) {
+        return res.status(400).json({ message: 'Store is required to process a transaction' })
+      }
 
-        // Check stock availability
-        if (product.quantity < item.quantity) {
-          return res.status(400).json({
-            message: `Insufficient stock for ${product.name}. Available: ${product.quantity}, Requested: ${item.quantity}`
-          })
-        }
+      const store = await prisma.storeLocation.findUnique({
+        where: { id: effectiveStoreId }
+      })
 
-        const lineTotal = parseFloat(product.price.toString()) * item.quantity
-        subtotal += lineTotal
+      if (!store) {
+        return res.status(400).json({ message: `Store ${effectiveStoreId} not found` })
+      }
 
-        if (product.ageRestricted) {
-          ageVerificationRequired = true
-        }
+      // Price the cart with the same pipeline the quote endpoint uses
+      const saleTime = new Date()
+      await requireOpenBusinessDay(prisma, store, saleTime)
+      const pricing = await priceCart(prisma, {
+        store,
+        cartItems,
+        customerId,
+        at: saleTime,
+        applyOffers: true,
+        redeemPoints: loyaltyPointsToRedeem || 0
+      })
 
-        lineItems.push({
-          productId: product.id,
-          productName: product.name,
-          productSku: product.sku,
-          quantity: item.quantity,
-          unitPrice: parseFloat(product.price.toString()),
-          lineTotal: lineTotal,
-          ageVerificationRequired: product.ageRestricted,
-          lotNumber: product.lotNumber,
-          expirationDate: product.expirationDate
+      if (!pricing.compliance.passed) {
+        await recordAuditEventSafely(prisma, {
+          ...auditActor(req, effectiveStoreId),
+          action: 'compliance_violation',
+          entityType: 'transaction',
+          details: {
+            customerId,
+            productIds: pricing.lines.map(line => line.productId),
+            violations: pricing.compliance.violations
+          },
+          severity: 'high'
         })
-      }
-
-      // Age verification check
-      if (ageVerificationRequired && !ageVerificationCompleted) {
         return res.status(400).json({
-          message: 'Age verification required for restricted products',
-          requiresAgeVerification: true
+          message: 'Transaction blocked by compliance rules',
+          complianceViolations: pricing.compliance.violations
         })
       }
 
-      // Calculate tax (8% for now - will be enhanced later)
-      const taxRate = 0.08
-      const taxAmount = subtotal * taxRate
-      const totalAmount = subtotal + taxAmount
-
-      // Calculate loyalty points if customer is provided
-      let loyaltyPointsEarned = 0
-      if (customerId) {
-        // 1 point per dollar spent (rounded down)
-        loyaltyPointsEarned = Math.floor(totalAmount)
-      }
+      const { ageVerificationRequired, evaluation: compliance } = pricing
 
-      // Validate cash payment
-      if (paymentMethod === 'CASH' && cashTendered) {
-        if (cashTendered < totalAmount) {
+      // Restricted products need a recent passing ID check from this store
+      let ageVerification: AgeVerificationLog | undefined
+      if (ageVerificationRequired) {
+        try {
+          ageVerification = await loadSaleVerification(ageVerificationId, {
+            storeId: effectiveStoreId,
+            customerId,
+            minimumAge: compliance.minimumAge,
+            at: saleTime
+          })
+        } catch (error) {
+          if (!(error instanceof AgeVerificationError)) throw error
+          await recordAuditEventSafely(prisma, {
+            ...auditActor(req, effectiveStoreId),
+            action: 'age_verification_failed',
+            entityType: 'age_verification',
+            entityId: ageVerificationId,
+            details: {
+              customerId,
+              minimumAge: compliance.minimumAge,
+              reason: error.message
+            },
+            severity: 'high'
+          })
           return res.status(400).json({
-            message: 'Insufficient cash tendered'
+            message: error.message,
+            requiresAgeVerification: true
           })
         }
       }
 
+      const subtotal = pricing.subtotal
+      const taxAmount = pricing.taxAmount
+      const totalAmount = pricing.totalAmount
+      const loyaltyPointsEarned = pricing.loyaltyPointsEarned
+      const pointsRedeemed = pricing.loyaltyRedemption?.points || 0
+      const redemptionAmount = pricing.loyaltyRedemption?.amount || 0
+      // What is left for cash or card once points are applied
+      const amountDue = pricing.amountDue
+      const lineItems: LineItemData[] = pricing.lines.map(line => ({
+        productId: line.productId,
+        productName: line.productName,
+        productSku: line.productSku,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        lineDiscount: line.lineDiscount,
+        lineTotal: line.lineTotal,
+        ageVerificationRequired: line.ageVerificationRequired,
+        lotNumber: line.lotNumber,
+        expirationDate: line.expirationDate,
+        complianceChecked: true,
+        lineTaxAmount: line.lineTaxAmount,
+        taxDetails: line.taxDetails
+      }))
+
+      // The tenders must pay exactly what points did not
+      const requestedTenders = resolveTenders(
+        { paymentMethod, cashTendered, giftCardNumber, giftCardPin, paymentReference, payments },
+        amountDue
+      )
+      const tenderErrors = validateTenders(requestedTenders, amountDue, paymentMethod)
+      if (tenderErrors.length > 0) {
+        return res.status(400).json({ message: 'Invalid payment', errors: tenderErrors })
+      }
+      // Sales are rung on the cashier's open drawer, which must be open to take cash
+      const cashDrawer = requestedTenders.some(tender => tender.method === 'CASH')
+        ? await requireOpenDrawer(prisma, employeeId, effectiveStoreId)
+        : await findOpenDrawer(prisma, employeeId, effectiveStoreId)
+
+      // Cards are authorized by the register beforehand; only their processor references come in
+      const processor = requestedTenders.some(tender => tender.method === 'CARD')
+        ? getStoreProcessor(store)
+        : null
+      const tenders = await verifyCardTenders(processor, requestedTenders)
+      await authorizeGiftCardTenders(prisma, tenders, saleTime)
+      const tenderSummary = summariseTenders(tenders, paymentMethod)
+
       // Generate receipt number
-      const receiptNumber = `R${Date.now()}${Math.random().toString(36).substr(2, 4).toUpperCase()}`
+      const receiptNumber = generateReceiptNumber()
 
-      // Create transaction in database
+      // Create transaction in database; card holds are dropped if the sale does not save
       const transaction = await prisma.$transaction(async (tx) => {
         // Create the transaction
         const newTransaction = await tx.transaction.create({
           data: {
             receiptNumber,
-            storeId: storeId || 'default-store-id', // TODO: Get from user context
+            storeId: effectiveStoreId,
             customerId,
             employeeId,
+            cashDrawerSessionId: cashDrawer?.id,
             subtotalAmount: subtotal,
+            discountAmount: pricing.discountAmount,
             taxAmount,
             totalAmount,
-            paymentMethod,
+            ...tenderSummary,
             paymentStatus: 'COMPLETED',
-            cashTendered: paymentMethod === 'CASH' ? cashTendered : undefined,
-            changeGiven: paymentMethod === 'CASH' && cashTendered ? cashTendered - totalAmount : undefined,
             ageVerificationRequired,
-            ageVerificationCompleted: (ageVerificationRequired ? !!ageVerificationCompleted : false) as boolean,
+            ageVerificationCompleted: !!ageVerification,
+            complianceFlags: {
+              rulesEvaluated: compliance.rulesEvaluated,
+              minimumAge: compliance.minimumAge,
+              warnings: compliance.warnings,
+              evaluatedAt: compliance.evaluatedAt
+            } as unknown as Prisma.InputJsonValue,
             loyaltyPointsEarned,
-            loyaltyPointsRedeemed: 0, // TODO: Implement point redemption
-            taxBreakdown: {
-              subtotal,
-              taxRate,
-              taxAmount,
-              total: totalAmount
-            }
+            loyaltyPointsRedeemed: pointsRedeemed,
+            loyaltyRedemptionAmount: redemptionAmount,
+            taxBreakdown: pricing.taxBreakdown as unknown as Prisma.InputJsonValue,
+            offersApplied: pricing.offersApplied.length > 0
+              ? pricing.offersApplied as unknown as Prisma.InputJsonValue
+              : undefined
           }
         })
 
-        // Create line items
+        if (ageVerification) {
+          await claimVerificationForSale(tx, ageVerification.id, newTransaction.id)
+        }
+
+        await settleTenders(tx, tenders, {
+          transactionId: newTransaction.id,
+          storeId: effectiveStoreId,
+          customerId,
+          employeeId,
+          at: saleTime
+        })
+
+        await recordOfferRedemptions(tx, pricing.offersApplied, {
+          transactionId: newTransaction.id,
+          customerId
+        })
+
+        if (customerId) {
+          await postLoyaltyEntry(tx, {
+            customerId,
+            entryType: 'REDEEM',
+            points: -pointsRedeemed,
+            transactionId: newTransaction.id,
+            employeeId
+          })
+        }
+
+        // Create line items and take the stock off the shelf
         for (const item of lineItems) {
-          await tx.lineItem.create({
+          const lineItem = await tx.lineItem.create({
             data: {
               transactionId: newTransaction.id,
-              ...item
+              ...item,
+              taxDetails: item.taxDetails as unknown as Prisma.InputJsonValue
             }
           })
 
-          // Update product inventory
-          await tx.product.update({
-            where: { id: item.productId },
-            data: {
-              quantity: {
-                decrement: item.quantity
-              }
-            }
+          await postInventoryMovement(tx, {
+            productId: item.productId,
+            movementType: 'SALE',
+            reasonCode: 'SOLD',
+            quantity: -item.quantity,
+            storeId: effectiveStoreId,
+            userId: employeeId,
+            transactionId: newTransaction.id,
+            lineItemId: lineItem.id,
+            allowNegativeStock: true
           })
         }
 
         // Update customer loyalty points and stats if customer is provided
-        if (customerId && loyaltyPointsEarned > 0) {
+        if (customerId) {
           await tx.customer.update({
             where: { id: customerId },
             data: {
-              loyaltyPoints: { increment: loyaltyPointsEarned },
-              pointsLifetimeEarned: { increment: loyaltyPointsEarned },
               totalSpent: { increment: totalAmount },
               transactionCount: { increment: 1 },
               lastPurchaseDate: new Date()
             }
           })
 
-          // Update loyalty tier based on new total spent
-          const customer = await tx.customer.findUnique({
-            where: { id: customerId },
-            select: { totalSpent: true }
+          await postLoyaltyEntry(tx, {
+            customerId,
+            entryType: 'EARN',
+            points: loyaltyPointsEarned,
+            transactionId: newTransaction.id,
+            employeeId
           })
 
-          if (customer) {
-            const newTotalSpent = parseFloat(customer.totalSpent.toString()) + totalAmount
-            let newTier = 'BRONZE'
-            if (newTotalSpent >= 5000) newTier = 'PLATINUM'
-            else if (newTotalSpent >= 2000) newTier = 'GOLD'
-            else if (newTotalSpent >= 500) newTier = 'SILVER'
+          await upgradeCustomerTier(tx, customerId, new Date())
+        }
 
-            await tx.customer.update({
-              where: { id: customerId },
-              data: { loyaltyTier: newTier as any }
-            })
-          }
+        await recordAuditEvent(tx, {
+          ...auditActor(req, effectiveStoreId),
+          action: 'transaction_created',
+          entityType: 'transaction',
+          entityId: newTransaction.id,
+          details: {
+            receiptNumber,
+            totalAmount,
+            discountAmount: pricing.discountAmount,
+            offerIds: pricing.offersApplied.map(offer => offer.offerId),
+            pointsRedeemed,
+            redemptionAmount,
+            paymentMethod: tenderSummary.paymentMethod,
+            tenders: tenders.map(tender => ({ method: tender.method, amount: tender.amount })),
+            customerId,
+            itemCount: lineItems.reduce((sum, item) => sum + item.quantity, 0)
+          },
+          severity: 'low'
+        })
+
+        if (ageVerification) {
+          await recordAuditEvent(tx, {
+            ...auditActor(req, effectiveStoreId),
+            action: 'age_verification_passed',
+            entityType: 'age_verification',
+            entityId: ageVerification.id,
+            details: {
+              transactionId: newTransaction.id,
+              receiptNumber,
+              customerId,
+              minimumAge: compliance.minimumAge,
+              calculatedAge: ageVerification.calculatedAge,
+              managerOverride: ageVerification.managerOverride
+            },
+            severity: 'medium'
+          })
         }
 
         return newTransaction
+      }).catch(async (error) => {
+        await releaseCardTenders(processor, tenders)
+        throw error
       })
 
+      // The sale stands even if a capture fails; the card payment is left PENDING
+      await captureCardTenders(prisma, processor, transaction.id, tenders)
+
       // Fetch complete transaction with relations
       const completeTransaction = await prisma.transaction.findUnique({
         where: { id: transaction.id },
@@ -203,6 +453,7 @@ export const transactionController = {
               product: true
             }
           },
+          payments: { orderBy: { sequence: 'asc' } },
           customer: true,
           employee: {
             select: {
@@ -220,6 +471,25 @@ export const transactionController = {
       })
 
     } catch (error) {
+      if (
+        error instanceof CheckoutPricingError ||
+        error instanceof AgeVerificationError ||
+        error instanceof LoyaltyRedemptionError ||
+        error instanceof GiftCardError ||
+        error instanceof TenderError
+      ) {
+        return res.status(400).json({ message: error.message })
+      }
+      if (error instanceof PaymentProcessorError) {
+        return res.status(error.code === 'TIMEOUT' ? 504 : 502).json({ message: error.message })
+      }
+      if (error instanceof CashDrawerError || error instanceof DailyReportError) {
+        return res.status(409).json({ message: error.message })
+      }
+      // An offer ran out between pricing and commit; the register should re-quote
+      if (error instanceof OfferRedemptionError) {
+        return res.status(409).json({ message: error.message })
+      }
       console.error('Transaction creation error:', error)
       return res.status(500).json({ 
         message: 'Failed to process transaction',
@@ -228,6 +498,770 @@ export const transactionController = {
     }
   },
 
+  // Quote tax for a cart before tender, using the same calculation as checkout
+  async calculateTax(req: Request, res: Response): Promise<Response> {
+    try {
+      const { cartItems, storeId }: CalculateTaxRequest = req.body
+
+      const effectiveStoreId = scopeToUserStore(req, storeId)
+      if (effectiveStoreId === null) {
+        return res.status(403).json({ message: 'Access denied to this store' })
+      }
+      if (!effectiveStoreId) {
+        return res.status(400).json({ message: 'Store is required to calculate tax' })
+      }
+
+      const store = await prisma.storeLocation.findUnique({
+        where: { id: effectiveStoreId }
+      })
+
+      if (!store) {
+        return res.status(400).json({ message: `Store ${effectiveStoreId} not found` })
+      }
+
+      const taxableLines: TaxableLine[] = []
+      for (const item of cartItems || []) {
+        if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+          return res.status(400).json({
+            message: `Quantity for ${item.productId} must be a whole number more than zero`
+          })
+        }
+
+        const product = await prisma.product.findUnique({
+          where: { id: item.productId }
+        })
+
+        if (!product) {
+          return res.status(400).json({
+            message: `Product ${item.productId} not found`
+          })
+        }
+
+        taxableLines.push(
+          toTaxableLine(
+            product,
+            item.quantity,
+            roundCurrency(parseFloat(product.price.toString()) * item.quantity)
+          )
+        )
+      }
+
+      const rules = await loadActiveComplianceRules(
+        prisma,
+        getStoreJurisdictions(store),
+        new Date(),
+        store.timezone
+      )
+      const tax = calculateTransactionTax(store, taxableLines, rules)
+
+      const quote: TaxQuote = {
+        subtotal: tax.breakdown.subtotal,
+        taxAmount: tax.breakdown.totalTaxAmount,
+        totalAmount: tax.breakdown.totalAmount,
+        taxBreakdown: tax.breakdown,
+        lines: tax.lines
+      }
+
+      return res.json(quote)
+    } catch (error) {
+      console.error('Tax calculation error:', error)
+      return res.status(500).json({ message: 'Failed to calculate tax' })
+    }
+  },
+
+  // Preview everything checkout would charge for a cart, without saving or touching stock
+  async quoteTransaction(req: Request, res: Response): Promise<Response> {
+    try {
+      const { cartItems, storeId, customerId, loyaltyPointsToRedeem }: CartQuoteRequest = req.body
+
+      if (!Array.isArray(cartItems)) {
+        return res.status(400).json({ message: 'cartItems is required' })
+      }
+
+      const effectiveStoreId = scopeToUserStore(req, storeId)
+      if (effectiveStoreId === null) {
+        return res.status(403).json({ message: 'Access denied to this store' })
+      }
+      if (!effectiveStoreId) {
+        return res.status(400).json({ message: 'Store is required to quote a transaction' })
+      }
+
+      const store = await prisma.storeLocation.findUnique({
+        where: { id: effectiveStoreId }
+      })
+
+      if (!store) {
+        return res.status(400).json({ message: `Store ${effectiveStoreId} not found` })
+      }
+
+      const pricing = await priceCart(prisma, {
+        store,
+        cartItems,
+        customerId,
+        at: new Date(),
+        applyOffers: true,
+        redeemPoints: loyaltyPointsToRedeem || 0
+      })
+
+      return res.json(toCartQuote(pricing))
+    } catch (error) {
+      if (error instanceof CheckoutPricingError || error instanceof LoyaltyRedemptionError) {
+        return res.status(400).json({ message: error.message })
+      }
+      console.error('Transaction quote error:', error)
+      return res.status(500).json({ message: 'Failed to quote transaction' })
+    }
+  },
+
+  // Return (and optionally exchange) lines from an earlier sale
+  async returnTransaction(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params
+      const {
+        items,
+        refundMethod = 'ORIGINAL',
+        reason,
+        exchangeItems = [],
+        paymentMethod,
+        cashTendered,
+        giftCardNumber,
+        giftCardPin,
+        paymentReference,
+        ageVerificationId
+      }: CreateReturnData = req.body
+
+      const employeeId = req.user?.id
+      if (!employeeId) {
+        return res.status(401).json({ message: 'Employee authentication required' })
+      }
+
+      if (refundMethod !== 'ORIGINAL' && refundMethod !== 'STORE_CREDIT') {
+        return res.status(400).json({ message: 'refundMethod must be ORIGINAL or STORE_CREDIT' })
+      }
+
+      const original = await prisma.transaction.findUnique({
+        where: { id },
+        include: { lineItems: true, store: true, payments: true }
+      })
+
+      if (!original) {
+        return res.status(404).json({ message: 'Transaction not found' })
+      }
+
+      if (original.transactionType !== 'SALE' && original.transactionType !== 'EXCHANGE') {
+        return res.status(400).json({ message: `Cannot return a ${original.transactionType} transaction` })
+      }
+
+      if (original.paymentStatus !== 'COMPLETED') {
+        return res.status(400).json({
+          message: `Cannot return a transaction with status ${original.paymentStatus}`
+        })
+      }
+
+      if (refundMethod === 'STORE_CREDIT' && !original.customerId) {
+        return res.status(400).json({ message: 'Store credit refunds require a customer on the original sale' })
+      }
+
+      await requireOpenBusinessDay(prisma, original.store)
+
+      // Only lines sold on the original can be returned, not lines it gave back itself
+      const soldLines = original.lineItems
+        .filter(line => line.quantity > 0)
+        .map(line => ({
+          id: line.id,
+          productId: line.productId,
+          productName: line.productName,
+          productSku: line.productSku,
+          quantity: line.quantity,
+          unitPrice: toAmount(line.unitPrice),
+          lineTotal: toAmount(line.lineTotal),
+          lineTaxAmount: toAmount(line.lineTaxAmount),
+          taxDetails: line.taxDetails as unknown as TaxJurisdictionAmount[] | null
+        }))
+
+      const soldLineIds = soldLines.map(line => line.id)
+      const priorLines = await loadPriorReturnLines(prisma, soldLineIds)
+
+      const plan = planReturn(soldLines, priorLines, items)
+
+      // Price any exchange items exactly as a new sale would be priced
+      const exchange = exchangeItems.length > 0
+        ? await priceCart(prisma, {
+          store: original.store,
+          cartItems: exchangeItems,
+          customerId: original.customerId || undefined,
+          at: new Date()
+        })
+        : null
+
+      if (exchange && !exchange.compliance.passed) {
+        return res.status(400).json({
+          message: 'Exchange blocked by compliance rules',
+          complianceViolations: exchange.compliance.violations
+        })
+      }
+
+      let ageVerification: AgeVerificationLog | undefined
+      if (exchange?.ageVerificationRequired) {
+        try {
+          ageVerification = await loadSaleVerification(ageVerificationId, {
+            storeId: original.storeId,
+            customerId: original.customerId,
+            minimumAge: exchange.evaluation.minimumAge,
+            at: new Date()
+          })
+        } catch (error) {
+          if (!(error instanceof AgeVerificationError)) throw error
+          return res.status(400).json({
+            message: error.message,
+            requiresAgeVerification: true
+          })
+        }
+      }
+
+      const subtotal = roundCurrency((exchange?.subtotal || 0) - plan.refundSubtotal)
+      const taxAmount = roundCurrency((exchange?.taxAmount || 0) - plan.refundTaxAmount)
+      const totalAmount = roundCurrency(subtotal + taxAmount)
+
+      const saleTotal = toAmount(original.totalAmount)
+      const previouslyRefunded = priorLines.reduce(
+        (sum, line) => sum + Math.abs(line.lineTotal) + Math.abs(line.lineTaxAmount),
+        0
+      )
+      const pointsReversed = calculatePointsReversal(
+        original.loyaltyPointsEarned,
+        saleTotal,
+        previouslyRefunded,
+        plan.refundTotal,
+        plan.completesReturn
+      )
+      // The share of the refund that points paid for goes back as points, not money
+      const redemptionRefund = calculateRedemptionRefund(
+        {
+          points: original.loyaltyPointsRedeemed,
+          amount: toAmount(original.loyaltyRedemptionAmount)
+        },
+        saleTotal,
+        previouslyRefunded,
+        plan.refundTotal,
+        plan.completesReturn
+      )
+      const moneyTotal = roundCurrency(totalAmount + redemptionRefund.amount)
+
+      // A positive balance is owed by the customer; a negative one is refunded
+      const balanceDue = Math.max(0, moneyTotal)
+      const refundAmount = Math.max(0, -moneyTotal)
+
+      if (balanceDue > 0) {
+        if (!paymentMethod) {
+          return res.status(400).json({ message: 'paymentMethod is required to collect the exchange balance' })
+        }
+        if (paymentMethod === 'CASH' && (!cashTendered || cashTendered < balanceDue)) {
+          return res.status(400).json({ message: 'Insufficient cash tendered' })
+        }
+        if (paymentMethod === 'GIFT_CARD' && (!giftCardNumber || !giftCardPin)) {
+          return res.status(400).json({ message: 'Gift card number and PIN are required' })
+        }
+      }
+
+      // A refund goes back to the tenders that paid for the sale, or onto store credit
+      const plannedRefunds: RefundTender[] = refundAmount === 0
+        ? []
+        : refundMethod === 'STORE_CREDIT'
+          ? [{ method: 'STORE_CREDIT', amount: refundAmount }]
+          : planTenderRefund(
+            getTenderAmounts(original),
+            await loadRefundedTenders(prisma, original.id),
+            refundAmount
+          )
+
+      const tenderMethod: PaymentMethod = balanceDue > 0
+        ? paymentMethod
+        : plannedRefunds.length > 1
+          ? 'SPLIT'
+          : plannedRefunds[0]?.method || (refundMethod === 'STORE_CREDIT' ? 'STORE_CREDIT' : original.paymentMethod)
+
+      // Cash refunded or taken on an exchange goes through the cashier's open drawer
+      const cashDrawer = plannedRefunds.some(refund => refund.method === 'CASH') ||
+        (balanceDue > 0 && paymentMethod === 'CASH')
+        ? await requireOpenDrawer(prisma, employeeId, original.storeId)
+        : await findOpenDrawer(prisma, employeeId, original.storeId)
+
+      // A card balance is authorized by the register beforehand, like a card sale
+      const processor = balanceDue > 0 && paymentMethod === 'CARD'
+        ? getStoreProcessor(original.store)
+        : null
+      const balanceTenders = balanceDue > 0
+        ? await verifyCardTenders(processor, [{
+          method: paymentMethod as TenderMethod,
+          amount: balanceDue,
+          cashTendered,
+          giftCardNumber,
+          giftCardPin,
+          reference: paymentReference
+        }])
+        : []
+      await authorizeGiftCardTenders(prisma, balanceTenders, new Date())
+
+      const loyaltyPointsEarned = (exchange?.loyaltyPointsEarned || 0) - pointsReversed
+
+      const taxBreakdown = summariseTax([
+        ...plan.lines.map(line => ({
+          productId: line.productId,
+          lineTotal: -line.refundAmount,
+          taxAmount: -line.refundTaxAmount,
+          taxDetails: negateTaxDetails(line.taxDetails)
+        })),
+        ...(exchange?.lines || []).map(line => ({
+          productId: line.productId,
+          lineTotal: line.lineTotal,
+          taxAmount: line.lineTaxAmount,
+          taxDetails: line.taxDetails
+        }))
+      ])
+
+      // Card refunds are matched to the payments they go back to now and sent once the return saves
+      const refunds = await planCardRefunds(original.payments, plannedRefunds)
+
+      const returnTransaction = await prisma.$transaction(async (tx) => {
+        // Another register may have returned or voided the sale since it was read above;
+        // hold it until this return saves and check it against what is there now
+        await lockSale(tx, original.id)
+        const stillCompleted = await tx.transaction.count({
+          where: { id: original.id, paymentStatus: 'COMPLETED' }
+        })
+        if (stillCompleted === 0) {
+          throw new ReturnValidationError('The sale was voided or fully returned while this return was in progress')
+        }
+        const latestPriorLines = await loadPriorReturnLines(tx, soldLineIds)
+        planReturn(soldLines, latestPriorLines, items)
+        if (latestPriorLines.length !== priorLines.length) {
+          throw new ReturnValidationError('Another return was made against this sale; start the return again')
+        }
+
+        const created = await tx.transaction.create({
+          data: {
+            receiptNumber: generateReceiptNumber(),
+            storeId: original.storeId,
+            customerId: original.customerId,
+            employeeId,
+            cashDrawerSessionId: cashDrawer?.id,
+            transactionType: exchange ? 'EXCHANGE' : 'RETURN',
+            originalTransactionId: original.id,
+            subtotalAmount: subtotal,
+            discountAmount: exchange?.discountAmount || 0,
+            taxAmount,
+            totalAmount,
+            paymentMethod: tenderMethod,
+            paymentProcessor: [...refunds, ...balanceTenders].find(tender => tender.processor)?.processor,
+            paymentReference: balanceTenders[0]?.method === 'CARD' ? balanceTenders[0].reference : undefined,
+            paymentStatus: refundAmount > 0 ? 'REFUNDED' : 'COMPLETED',
+            cashTendered: balanceDue > 0 && paymentMethod === 'CASH' ? cashTendered : undefined,
+            changeGiven: balanceDue > 0 && paymentMethod === 'CASH' && cashTendered
+              ? roundCurrency(cashTendered - balanceDue)
+              : undefined,
+            ageVerificationRequired: !!exchange?.ageVerificationRequired,
+            ageVerificationCompleted: !!ageVerification,
+            loyaltyPointsEarned,
+            // Stored negative, like the returned lines
+            loyaltyPointsRedeemed: -redemptionRefund.points,
+            loyaltyRedemptionAmount: -redemptionRefund.amount,
+            taxBreakdown: taxBreakdown as unknown as Prisma.InputJsonValue,
+            notes: reason
+          }
+        })
+
+        if (ageVerification) {
+          await claimVerificationForSale(tx, ageVerification.id, created.id)
+        }
+
+        // Money goes back to the tenders that paid, or the customer pays the exchange balance
+        if (refunds.length > 0) {
+          await refundTenders(tx, refunds, {
+            saleTransactionId: original.id,
+            transactionId: created.id,
+            storeId: original.storeId,
+            customerId: original.customerId,
+            employeeId,
+            reason
+          })
+        } else if (balanceDue > 0) {
+          await settleTenders(
+            tx,
+            balanceTenders,
+            {
+              transactionId: created.id,
+              storeId: original.storeId,
+              customerId: original.customerId,
+              employeeId,
+              at: new Date()
+            }
+          )
+        }
+
+        // Returned lines are stored negative and point back at the line they give back
+        for (const line of plan.lines) {
+          const lineItem = await tx.lineItem.create({
+            data: {
+              transactionId: created.id,
+              productId: line.productId,
+              productName: line.productName,
+              productSku: line.productSku,
+              quantity: -line.quantity,
+              unitPrice: line.unitPrice,
+              lineTotal: -line.refundAmount,
+              lineTaxAmount: -line.refundTaxAmount,
+              taxDetails: negateTaxDetails(line.taxDetails) as unknown as Prisma.InputJsonValue,
+              originalLineItemId: line.originalLineItemId,
+              returnDisposition: line.disposition
+            }
+          })
+
+          // Written-off stock never comes back on hand, so it has no movement
+          if (line.disposition === 'RESTOCK') {
+            await postInventoryMovement(tx, {
+              productId: line.productId,
+              movementType: 'RETURN',
+              reasonCode: 'RESTOCKED',
+              quantity: line.quantity,
+              storeId: original.storeId,
+              userId: employeeId,
+              transactionId: created.id,
+              lineItemId: lineItem.id
+            })
+          }
+        }
+
+        for (const line of exchange?.lines || []) {
+          const lineItem = await tx.lineItem.create({
+            data: {
+              transactionId: created.id,
+              productId: line.productId,
+              productName: line.productName,
+              productSku: line.productSku,
+              quantity: line.quantity,
+              unitPrice: line.unitPrice,
+              lineDiscount: line.lineDiscount,
+              lineTotal: line.lineTotal,
+              lineTaxAmount: line.lineTaxAmount,
+              taxDetails: line.taxDetails as unknown as Prisma.InputJsonValue,
+              ageVerificationRequired: line.ageVerificationRequired,
+              complianceChecked: true,
+              lotNumber: line.lotNumber,
+              expirationDate: line.expirationDate
+            }
+          })
+
+          await postInventoryMovement(tx, {
+            productId: line.productId,
+            movementType: 'SALE',
+            reasonCode: 'SOLD',
+            quantity: -line.quantity,
+            storeId: original.storeId,
+            userId: employeeId,
+            transactionId: created.id,
+            lineItemId: lineItem.id,
+            allowNegativeStock: true
+          })
+        }
+
+        if (original.customerId) {
+          await tx.customer.update({
+            where: { id: original.customerId },
+            data: { totalSpent: { increment: totalAmount } }
+          })
+
+          // Give redeemed points back first, then take back what the returned
+          // goods earned, never below zero if the customer already spent them
+          await postLoyaltyEntry(tx, {
+            customerId: original.customerId,
+            entryType: 'REDEEM',
+            points: redemptionRefund.points,
+            transactionId: created.id,
+            employeeId
+          })
+          await postLoyaltyEntry(tx, {
+            customerId: original.customerId,
+            entryType: 'EARN',
+            points: loyaltyPointsEarned,
+            transactionId: created.id,
+            employeeId,
+            clampToBalance: true
+          })
+        }
+
+        if (plan.completesReturn) {
+          await tx.transaction.update({
+            where: { id: original.id },
+            data: { paymentStatus: 'REFUNDED' }
+          })
+        }
+
+        await recordAuditEvent(tx, {
+          ...auditActor(req, original.storeId),
+          action: 'transaction_refunded',
+          entityType: 'transaction',
+          entityId: created.id,
+          details: {
+            receiptNumber: created.receiptNumber,
+            originalTransactionId: original.id,
+            originalReceiptNumber: original.receiptNumber,
+            transactionType: created.transactionType,
+            refundAmount,
+            refundMethod: refundAmount > 0 ? tenderMethod : undefined,
+            refundTenders: refunds,
+            balanceDue,
+            pointsReversed,
+            pointsRestored: redemptionRefund.points,
+            reason
+          },
+          severity: 'medium'
+        })
+
+        return created
+      }).catch(async (error) => {
+        await releaseCardTenders(processor, balanceTenders)
+        throw error
+      })
+
+      await refundCardTenders(prisma, returnTransaction.id, refunds)
+      await captureCardTenders(prisma, processor, returnTransaction.id, balanceTenders)
+
+      const completeReturn = await prisma.transaction.findUnique({
+        where: { id: returnTransaction.id },
+        include: { lineItems: true, payments: { orderBy: { sequence: 'asc' } } }
+      })
+
+      return res.status(201).json({
+        message: exchange ? 'Exchange processed successfully' : 'Return processed successfully',
+        transaction: completeReturn,
+        refundAmount,
+        refundMethod: refundAmount > 0 ? tenderMethod : undefined,
+        balanceDue,
+        pointsReversed,
+        pointsRestored: redemptionRefund.points
+      })
+    } catch (error) {
+      if (
+        error instanceof ReturnValidationError ||
+        error instanceof CheckoutPricingError ||
+        error instanceof AgeVerificationError ||
+        error instanceof GiftCardError ||
+        error instanceof TenderError
+      ) {
+        return res.status(400).json({ message: error.message })
+      }
+      if (error instanceof PaymentProcessorError) {
+        return res.status(error.code === 'TIMEOUT' ? 504 : 502).json({ message: error.message })
+      }
+      if (error instanceof CashDrawerError || error instanceof DailyReportError) {
+        return res.status(409).json({ message: error.message })
+      }
+      console.error('Transaction return error:', error)
+      return res.status(500).json({ message: 'Failed to process return' })
+    }
+  },
+
+  // Void a completed sale on the day it was rung up
+  async voidTransaction(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params
+      const { reason, managerCredentials }: VoidTransactionData = req.body
+
+      const user = req.user
+      if (!user) {
+        return res.status(401).json({ message: 'Employee authentication required' })
+      }
+
+      if (!reason || !reason.trim()) {
+        return res.status(400).json({ message: 'A reason is required to void a transaction' })
+      }
+
+      const original = await prisma.transaction.findUnique({
+        where: { id },
+        include: { lineItems: true, store: true, payments: true }
+      })
+
+      if (!original) {
+        return res.status(404).json({ message: 'Transaction not found' })
+      }
+
+      if (original.transactionType !== 'SALE') {
+        return res.status(400).json({ message: `Cannot void a ${original.transactionType} transaction` })
+      }
+
+      if (original.paymentStatus !== 'COMPLETED') {
+        return res.status(400).json({
+          message: `Cannot void a transaction with status ${original.paymentStatus}`
+        })
+      }
+
+      const voidedAt = new Date()
+      if (!isSameBusinessDay(original.transactionDate, voidedAt, original.store.timezone)) {
+        return res.status(400).json({
+          message: 'Only transactions from the current business day can be voided; process a return instead'
+        })
+      }
+      await requireOpenBusinessDay(prisma, original.store, voidedAt)
+
+      const activeReturns = await prisma.transaction.count({
+        where: { originalTransactionId: original.id, paymentStatus: { not: 'VOIDED' } }
+      })
+      if (activeReturns > 0) {
+        return res.status(400).json({
+          message: 'Transaction has returns against it; process a return instead'
+        })
+      }
+
+      const approver = await resolveApprover(
+        prisma,
+        user,
+        'transaction:delete',
+        original.storeId,
+        managerCredentials
+      )
+
+      const totalAmount = toAmount(original.totalAmount)
+
+      const voided = await prisma.$transaction(async (tx) => {
+        // Another register may have voided the sale or returned against it since it was read;
+        // only one of them gets through
+        await lockSale(tx, original.id)
+        const returnsSince = await tx.transaction.count({
+          where: { originalTransactionId: original.id, paymentStatus: { not: 'VOIDED' } }
+        })
+        if (returnsSince > 0) return null
+
+        const { count } = await tx.transaction.updateMany({
+          where: { id: original.id, paymentStatus: 'COMPLETED' },
+          data: {
+            paymentStatus: 'VOIDED',
+            voidedAt,
+            voidedById: approver.id,
+            voidReason: reason.trim()
+          }
+        })
+        if (count === 0) return null
+
+        // Put the sold stock back on the shelf
+        for (const line of original.lineItems) {
+          await postInventoryMovement(tx, {
+            productId: line.productId,
+            movementType: 'VOID',
+            reasonCode: 'VOIDED',
+            quantity: line.quantity,
+            storeId: original.storeId,
+            userId: approver.id,
+            transactionId: original.id,
+            lineItemId: line.id
+          })
+        }
+
+        const offerUsesReleased = await releaseOfferRedemptions(tx, original.id, voidedAt)
+
+        // Put back what gift cards and store credit paid and void every tender with the sale
+        const tenderAmounts = getTenderAmounts(original)
+        const cardAmount = tenderAmounts.get('GIFT_CARD') || 0
+        const storeCreditAmount = tenderAmounts.get('STORE_CREDIT') || 0
+        if (cardAmount > 0) {
+          await refundSaleToGiftCards(tx, {
+            saleTransactionId: original.id,
+            amount: cardAmount,
+            storeId: original.storeId,
+            transactionId: original.id,
+            employeeId: approver.id,
+            reason: 'Sale voided'
+          })
+        }
+        await tx.transactionPayment.updateMany({
+          where: { transactionId: original.id },
+          data: { status: 'VOIDED' }
+        })
+
+        // Undo exactly what checkout did to the customer's record, giving redeemed points
+        // and spent store credit back
+        if (original.customerId) {
+          await tx.customer.update({
+            where: { id: original.customerId },
+            data: {
+              totalSpent: { decrement: totalAmount },
+              transactionCount: { decrement: 1 },
+              storeCreditBalance: storeCreditAmount > 0 ? { increment: storeCreditAmount } : undefined
+            }
+          })
+
+          await postLoyaltyEntry(tx, {
+            customerId: original.customerId,
+            entryType: 'REDEEM',
+            points: original.loyaltyPointsRedeemed,
+            transactionId: original.id,
+            employeeId: approver.id,
+            reason: 'Sale voided'
+          })
+          await postLoyaltyEntry(tx, {
+            customerId: original.customerId,
+            entryType: 'EARN',
+            points: -original.loyaltyPointsEarned,
+            transactionId: original.id,
+            employeeId: approver.id,
+            reason: 'Sale voided',
+            clampToBalance: true
+          })
+        }
+
+        await recordAuditEvent(tx, {
+          ...auditActor(req, original.storeId),
+          action: 'transaction_voided',
+          entityType: 'transaction',
+          entityId: original.id,
+          details: {
+            receiptNumber: original.receiptNumber,
+            totalAmount,
+            reason: reason.trim(),
+            approvedBy: approver.id,
+            approvedByRole: approver.role,
+            managerOverride: approver.id !== user.id,
+            offerUsesReleased,
+            pointsRestored: original.loyaltyPointsRedeemed
+          },
+          severity: 'high'
+        })
+
+        return tx.transaction.findUnique({ where: { id: original.id } })
+      })
+
+      if (!voided) {
+        return res.status(409).json({
+          message: 'Transaction was voided or returned from another register; reload it and try again'
+        })
+      }
+
+      // Card payments and the accounting entry are only reversed once the void has committed
+      await voidCardPayments(prisma, original.id, original.payments)
+      const quickBooks = original.quickBooksId
+        ? await voidQuickBooksSalesReceipt(prisma, original.storeId, original.quickBooksId, reason.trim())
+        : undefined
+
+      return res.json({
+        message: 'Transaction voided successfully',
+        transaction: voided,
+        quickBooks
+      })
+    } catch (error) {
+      if (error instanceof ManagerApprovalError) {
+        return res.status(403).json({ message: error.message })
+      }
+      if (error instanceof GiftCardError) {
+        return res.status(400).json({ message: error.message })
+      }
+      if (error instanceof DailyReportError) {
+        return res.status(409).json({ message: error.message })
+      }
+      console.error('Transaction void error:', error)
+      return res.status(500).json({ message: 'Failed to void transaction' })
+    }
+  },
+
   // Get transaction by ID
   async getTransaction(req: Request, res: Response): Promise<Response> {
     try {
@@ -342,6 +1376,7 @@ export const transactionController = {
               lastName: true
             }
           },
+          payments: { orderBy: { sequence: 'asc' } },
           store: {
             select: {
               storeName: true,
@@ -368,8 +1403,15 @@ export const transactionController = {
         `${transaction.store.city}, ${transaction.store.stateCode} ${transaction.store.zipCode}`
       ].filter(Boolean).join(', ')
 
+      // Itemised tax lines (sales, local and excise) as recorded at checkout
+      const taxBreakdown = transaction.taxBreakdown as unknown as TaxBreakdown | null
+      const taxLines = taxBreakdown?.jurisdictions?.map(jurisdiction => ({
+        name: jurisdiction.name,
+        amount: jurisdiction.taxAmount
+      }))
+
       // Generate receipt
-      const receipt = {
+      const receipt: Receipt = {
         transactionId: transaction.id,
         receiptNumber: transaction.receiptNumber,
         storeInfo: {
@@ -391,9 +1433,20 @@ export const transactionController = {
           lineTotal: parseFloat(item.lineTotal.toString())
         })),
         subtotal: parseFloat(transaction.subtotalAmount.toString()),
+        discounts: ((transaction.offersApplied || []) as unknown as AppliedOffer[])
+          .filter(offer => offer.discountAmount > 0)
+          .map(offer => ({ name: offer.name, amount: offer.discountAmount })),
         taxAmount: parseFloat(transaction.taxAmount.toString()),
+        taxLines,
         totalAmount: parseFloat(transaction.totalAmount.toString()),
         paymentMethod: transaction.paymentMethod,
+        tenders: toReceiptTenders(transaction.payments),
+        pointsTendered: transaction.loyaltyPointsRedeemed > 0
+          ? {
+              points: transaction.loyaltyPointsRedeemed,
+              amount: toAmount(transaction.loyaltyRedemptionAmount)
+            }
+          : undefined,
         cashTendered: transaction.cashTendered 
           ? parseFloat(transaction.cashTendered.toString()) 
           : undefined,
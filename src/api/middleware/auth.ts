@@ -190,10 +190,13 @@ export function requireRole(...roles: string[]) {
 
 /**
  * Middleware to validate store access
- * Can be used with a static store ID or extract from request params
+ * Can be used with a static store ID, extract from request params, or look the
+ * store up from the record the request is about
  */
-export function requireStoreAccess(storeIdParam?: string) {
-  return (req: Request, res: Response, next: NextFunction): void => {
+export function requireStoreAccess(
+  storeIdParam?: string | ((req: Request) => Promise<string | null | undefined>),
+) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     if (!req.user) {
       res.status(401).json({
         error: 'Authentication required',
@@ -202,8 +205,11 @@ export function requireStoreAccess(storeIdParam?: string) {
       return
     }
 
-    // Get store ID from parameter or request params
-    const requiredStoreId = storeIdParam || req.params.storeId
+    // Get store ID from parameter, resolver or request params
+    const requiredStoreId =
+      typeof storeIdParam === 'function'
+        ? await storeIdParam(req)
+        : storeIdParam || req.params.storeId
 
     if (requiredStoreId && !validateStoreAccess(req.user, requiredStoreId)) {
       res.status(403).json({
@@ -0,0 +1,37 @@
+import { Request, Response, NextFunction } from 'express'
+
+interface RateLimitOptions {
+  // Length of each window, in milliseconds
+  windowMs: number
+  // Requests allowed per employee (or address, before login) in a window
+  max: number
+  message: string
+}
+
+/**
+ * Caps how often one employee can call a route, counted in memory per
+ * server (in production, use Redis so every server shares the count)
+ */
+export const rateLimit = ({ windowMs, max, message }: RateLimitOptions) => {
+  const windows = new Map<string, { count: number; resetAt: number }>()
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const key = req.user?.id || req.ip || 'unknown'
+    const now = Date.now()
+
+    let current = windows.get(key)
+    if (!current || current.resetAt <= now) {
+      current = { count: 0, resetAt: now + windowMs }
+      windows.set(key, current)
+    }
+    current.count++
+
+    if (current.count > max) {
+      res.setHeader('Retry-After', Math.ceil((current.resetAt - now) / 1000).toString())
+      res.status(429).json({ message })
+      return
+    }
+
+    next()
+  }
+}
@@ -0,0 +1,23 @@
+import { Router } from 'express'
+import { ageVerificationController } from '../controllers/ageVerification'
+import { authenticate } from '../middleware/auth'
+import { checkPermission } from '../middleware/permissions'
+
+const router = Router()
+
+// Apply authentication to all age verification routes
+router.use(authenticate)
+
+// POST /api/age-verification - Check a customer's ID before an age-restricted sale
+router.post('/', checkPermission('transaction:create'), ageVerificationController.verifyAge)
+
+// POST /api/age-verification/override - Manager override of a failed check
+router.post('/override', checkPermission('transaction:create'), ageVerificationController.overrideVerification)
+
+// GET /api/age-verification/policy - ID rules in force at a store
+router.get('/policy', checkPermission('transaction:read'), ageVerificationController.getPolicy)
+
+// GET /api/age-verification/history - Recent ID checks for the store or a customer
+router.get('/history', checkPermission('transaction:read'), ageVerificationController.getHistory)
+
+export { router as ageVerificationRoutes }
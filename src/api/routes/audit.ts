@@ -0,0 +1,32 @@
+import { Router } from 'express'
+import { auditController } from '../controllers/audit'
+import { authenticate } from '../middleware/auth'
+import { checkPermission } from '../middleware/permissions'
+
+const router = Router()
+
+// Apply authentication to all audit routes
+router.use(authenticate)
+
+// POST /api/audit/log - Record an event from the register
+router.post('/log', auditController.logEvent)
+
+// GET /api/audit/query - Search the audit log with filters and pagination
+router.get('/query', checkPermission('audit:view'), auditController.queryLogs)
+
+// GET /api/audit/summary - Event counts for the audit dashboard
+router.get('/summary', checkPermission('audit:view'), auditController.getSummary)
+
+// POST /api/audit/export - Export a date range as CSV or JSON
+router.post('/export', checkPermission('audit:view'), auditController.exportLogs)
+
+// GET /api/audit/verify - Walk a store's hash chain and report the first break
+router.get('/verify', checkPermission('audit:view'), auditController.verifyChain)
+
+// GET /api/audit/checkpoints - Signed daily checkpoints for a date range
+router.get('/checkpoints', checkPermission('audit:view'), auditController.getCheckpoints)
+
+// POST /api/audit/checkpoints - Sign the chain head for a finished business day
+router.post('/checkpoints', checkPermission('audit:view'), auditController.createCheckpoint)
+
+export { router as auditRoutes }
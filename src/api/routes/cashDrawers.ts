@@ -0,0 +1,29 @@
+import { Router } from 'express'
+import { cashDrawersController } from '../controllers/cashDrawers'
+import { authenticate } from '../middleware/auth'
+import { checkPermission } from '../middleware/permissions'
+
+const router = Router()
+
+// Apply authentication to all cash drawer routes
+router.use(authenticate)
+
+// POST /api/cash-drawers - Open a drawer with its starting float
+router.post('/', checkPermission('transaction:create'), cashDrawersController.openDrawer)
+
+// GET /api/cash-drawers - Drawer sessions with over/short
+router.get('/', checkPermission('reports:view'), cashDrawersController.getDrawers)
+
+// GET /api/cash-drawers/current - The signed-in employee's open drawer
+router.get('/current', checkPermission('transaction:create'), cashDrawersController.getCurrentDrawer)
+
+// GET /api/cash-drawers/:id - One drawer with its events and expected cash
+router.get('/:id', checkPermission('reports:view'), cashDrawersController.getDrawer)
+
+// POST /api/cash-drawers/:id/events - Pay in, pay out or drop cash
+router.post('/:id/events', checkPermission('transaction:create'), cashDrawersController.recordEvent)
+
+// POST /api/cash-drawers/:id/close - Close a drawer with a blind count
+router.post('/:id/close', checkPermission('transaction:create'), cashDrawersController.closeDrawer)
+
+export { router as cashDrawerRoutes }
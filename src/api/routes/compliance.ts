@@ -0,0 +1,36 @@
+import { Router } from 'express'
+import { complianceController } from '../controllers/compliance'
+import { authenticate } from '../middleware/auth'
+import { checkPermission } from '../middleware/permissions'
+
+const router = Router()
+
+// Apply authentication and compliance permission to all compliance routes
+router.use(authenticate)
+router.use(checkPermission('compliance:manage'))
+
+// GET /api/compliance/rules - List rules with filters and pagination
+router.get('/rules', complianceController.getRules)
+
+// POST /api/compliance/rules - Create new rule
+router.post('/rules', complianceController.createRule)
+
+// GET /api/compliance/rules/overlaps - Rules in force for a location, grouped by overlap
+router.get('/rules/overlaps', complianceController.getOverlaps)
+
+// POST /api/compliance/rules/preview - Preview a draft rule against the product catalog
+router.post('/rules/preview', complianceController.previewRule)
+
+// GET /api/compliance/rules/:id - Get rule with version history
+router.get('/rules/:id', complianceController.getRule)
+
+// PUT /api/compliance/rules/:id - Update rule (creates a new version once in effect)
+router.put('/rules/:id', complianceController.updateRule)
+
+// POST /api/compliance/rules/:id/retire - Retire rule now or from an end date
+router.post('/rules/:id/retire', complianceController.retireRule)
+
+// POST /api/compliance/rules/:id/preview - Preview a saved rule against the product catalog
+router.post('/rules/:id/preview', complianceController.previewRule)
+
+export { router as complianceRoutes }
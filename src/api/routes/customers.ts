@@ -43,7 +43,14 @@ router.put(
   customerController.updateCustomer
 )
 
-// POST /api/customers/:id/loyalty - Update loyalty points
+// GET /api/customers/:id/loyalty/ledger - Points history
+router.get(
+  '/:id/loyalty/ledger',
+  checkPermission('customer:read'),
+  customerController.getLoyaltyLedger
+)
+
+// POST /api/customers/:id/loyalty - Adjust loyalty points (manager approval)
 router.post(
   '/:id/loyalty',
   checkPermission('customer:update'),
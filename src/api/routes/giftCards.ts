@@ -0,0 +1,41 @@
+import { Router } from 'express'
+import { giftCardsController } from '../controllers/giftCards'
+import { authenticate } from '../middleware/auth'
+import { checkPermission } from '../middleware/permissions'
+import { rateLimit } from '../middleware/rateLimit'
+
+const router = Router()
+
+// Apply authentication to all gift card routes
+router.use(authenticate)
+
+// POST /api/gift-cards - Sell and activate a gift card
+router.post('/', checkPermission('transaction:create'), giftCardsController.activateGiftCard)
+
+// POST /api/gift-cards/balance - Check a card's balance with its PIN
+router.post(
+  '/balance',
+  checkPermission('transaction:create'),
+  rateLimit({ windowMs: 60 * 1000, max: 10, message: 'Too many balance checks; wait a minute and try again' }),
+  giftCardsController.getBalance
+)
+
+// GET /api/gift-cards/liability - Outstanding balances owed to card holders
+router.get('/liability', checkPermission('reports:view'), giftCardsController.getLiability)
+
+// GET /api/gift-cards/:cardNumber - Card details and ledger
+router.get('/:cardNumber', checkPermission('reports:view'), giftCardsController.getGiftCard)
+
+// POST /api/gift-cards/:cardNumber/reload - Add money to a card
+router.post('/:cardNumber/reload', checkPermission('transaction:create'), giftCardsController.reloadGiftCard)
+
+// POST /api/gift-cards/:cardNumber/redeem - Spend part or all of a card's balance
+router.post('/:cardNumber/redeem', checkPermission('transaction:create'), giftCardsController.redeemGiftCard)
+
+// POST /api/gift-cards/:cardNumber/refund - Put money back on a card (manager approval)
+router.post('/:cardNumber/refund', checkPermission('transaction:create'), giftCardsController.refundToGiftCard)
+
+// PUT /api/gift-cards/:cardNumber/status - Suspend or reactivate a card
+router.put('/:cardNumber/status', checkPermission('transaction:update'), giftCardsController.updateStatus)
+
+export { router as giftCardRoutes }
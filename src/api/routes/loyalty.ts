@@ -0,0 +1,20 @@
+import { Router } from 'express'
+import { loyaltyController } from '../controllers/loyalty'
+import { authenticate } from '../middleware/auth'
+import { checkPermission } from '../middleware/permissions'
+
+const router = Router()
+
+// Apply authentication to all loyalty routes
+router.use(authenticate)
+
+// GET /api/loyalty/tier-rules - Qualification, earning and redemption rules for each tier
+router.get('/tier-rules', checkPermission('customer:read'), loyaltyController.getTierRules)
+
+// PUT /api/loyalty/tier-rules/:tier - Update the rules for one tier
+router.put('/tier-rules/:tier', checkPermission('store:manage'), loyaltyController.updateTierRule)
+
+// POST /api/loyalty/jobs/run - Expire inactive points and recalculate tiers now
+router.post('/jobs/run', checkPermission('store:manage'), loyaltyController.runJobs)
+
+export { router as loyaltyRoutes }
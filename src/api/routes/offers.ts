@@ -0,0 +1,30 @@
+import { Router } from 'express'
+import { offersController } from '../controllers/offers'
+import { authenticate } from '../middleware/auth'
+import { checkPermission } from '../middleware/permissions'
+
+const router = Router()
+
+// Apply authentication and offer permission to all offer routes
+router.use(authenticate)
+router.use(checkPermission('offer:manage'))
+
+// GET /api/offers - List offers with filters and pagination
+router.get('/', offersController.getOffers)
+
+// POST /api/offers - Create new offer
+router.post('/', offersController.createOffer)
+
+// GET /api/offers/redemptions - Discount dollars and transactions per offer
+router.get('/redemptions', offersController.getRedemptionReport)
+
+// GET /api/offers/:id - Get offer with the products it refers to
+router.get('/:id', offersController.getOffer)
+
+// PUT /api/offers/:id - Update offer
+router.put('/:id', offersController.updateOffer)
+
+// DELETE /api/offers/:id - Delete offer (deactivates offers already used on sales)
+router.delete('/:id', offersController.deleteOffer)
+
+export { router as offerRoutes }
@@ -0,0 +1,20 @@
+import { Router } from 'express'
+import { paymentsController } from '../controllers/payments'
+import { authenticate } from '../middleware/auth'
+import { checkPermission } from '../middleware/permissions'
+
+const router = Router()
+
+// Apply authentication to all card payment routes
+router.use(authenticate)
+
+// POST /api/payments/authorize - Authorize a tokenized card with the store's processor
+router.post('/authorize', checkPermission('transaction:create'), paymentsController.authorizePayment)
+
+// GET /api/payments/:reference - Card payment status at the processor
+router.get('/:reference', checkPermission('transaction:create'), paymentsController.getPayment)
+
+// POST /api/payments/:reference/void - Release an authorization not used for a sale
+router.post('/:reference/void', checkPermission('transaction:create'), paymentsController.voidPayment)
+
+export { router as paymentRoutes }
@@ -10,7 +10,10 @@ import {
   getProductCategories,
   getProductVendors,
   updateStock,
-  bulkUpdateStock
+  bulkUpdateStock,
+  recordInventoryMovement,
+  getInventoryMovements,
+  getInventoryReconciliation
 } from '../controllers/products'
 import { authenticate, requirePermission } from '../middleware/auth'
 
@@ -26,6 +29,7 @@ router.get('/', requirePermission('product:read'), getProducts)
 router.get('/low-stock', requirePermission('product:read'), getLowStockProducts)
 router.get('/categories', requirePermission('product:read'), getProductCategories)
 router.get('/vendors', requirePermission('product:read'), getProductVendors)
+router.get('/inventory/reconciliation', requirePermission('product:read'), getInventoryReconciliation)
 router.get('/search/:code', requirePermission('product:read'), searchProductByCode)
 router.get('/:id', requirePermission('product:read'), getProductById)
 
@@ -41,5 +45,7 @@ router.delete('/:id', requirePermission('product:delete'), deleteProduct)
  */
 router.patch('/:id/stock', requirePermission('product:update'), updateStock)
 router.patch('/bulk-stock', requirePermission('product:update'), bulkUpdateStock)
+router.get('/:id/movements', requirePermission('product:read'), getInventoryMovements)
+router.post('/:id/movements', requirePermission('product:update'), recordInventoryMovement)
 
 export default router
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { Router } from 'express'
+import { reportsController } from '../controllers/reports'
+import { authenticate } from '../middleware/auth'
+import { checkPermission } from '../middleware/permissions'
+
+const router = Router()
+
+// Apply authentication to all report routes
+router.use(authenticate)
+
+// GET /api/reports/sales - Sales by period, category, vendor, product, employee and store
+router.get('/sales', checkPermission('reports:view'), reportsController.getSalesReport)
+
+// GET /api/reports/sales/export - One breakdown of the sales report as CSV
+router.get('/sales/export', checkPermission('reports:view'), reportsController.exportSalesReport)
+
+// GET /api/reports/transfers - Stock a store shipped and received by transfer, and what is in transit
+router.get('/transfers', checkPermission('reports:view'), reportsController.getTransferReport)
+
+// GET /api/reports/x - The business day so far for a store or one register
+router.get('/x', checkPermission('reports:view'), reportsController.getXReport)
+
+// POST /api/reports/z - Close a business day with a numbered Z report
+router.post('/z', checkPermission('transaction:update'), reportsController.createZReport)
+
+// GET /api/reports/z - Z reports for a store
+router.get('/z', checkPermission('reports:view'), reportsController.getZReports)
+
+// GET /api/reports/z/:id - One Z report as it was run
+router.get('/z/:id', checkPermission('reports:view'), reportsController.getZReport)
+
+// POST /api/reports/z/:id/reprint - Reprint a Z report
+router.post('/z/:id/reprint', checkPermission('reports:view'), reportsController.reprintZReport)
+
+// POST /api/reports/z/:id/quickbooks - Send a Z report to QuickBooks as a journal entry
+router.post('/z/:id/quickbooks', checkPermission('transaction:update'), reportsController.syncZReport)
+
+export { router as reportRoutes }
@@ -0,0 +1,50 @@
+import { Router } from 'express'
+import { stockTransfersController, transferStore } from '../controllers/stockTransfers'
+import { authenticate, requireStoreAccess } from '../middleware/auth'
+import { checkPermission } from '../middleware/permissions'
+
+const router = Router()
+
+// Apply authentication to all stock transfer routes
+router.use(authenticate)
+
+// POST /api/stock-transfers - Request stock from one store for another
+router.post('/', checkPermission('product:update'), stockTransfersController.createTransfer)
+
+// GET /api/stock-transfers - Transfers to or from the user's stores
+router.get('/', checkPermission('product:read'), stockTransfersController.getTransfers)
+
+// GET /api/stock-transfers/stores - Stores stock can be sent to or from
+router.get('/stores', checkPermission('product:read'), stockTransfersController.getStores)
+
+// GET /api/stock-transfers/:id - One transfer with its lines
+router.get('/:id', checkPermission('product:read'), stockTransfersController.getTransfer)
+
+// POST /api/stock-transfers/:id/approve - Approve a request; needs access to the source store
+router.post(
+  '/:id/approve',
+  checkPermission('product:update'),
+  requireStoreAccess(transferStore('fromStoreId')),
+  stockTransfersController.approveTransfer
+)
+
+// POST /api/stock-transfers/:id/ship - Ship an approved transfer out of the source store
+router.post(
+  '/:id/ship',
+  checkPermission('product:update'),
+  requireStoreAccess(transferStore('fromStoreId')),
+  stockTransfersController.shipTransfer
+)
+
+// POST /api/stock-transfers/:id/receive - Receive a transfer in transit at the destination
+router.post(
+  '/:id/receive',
+  checkPermission('product:update'),
+  requireStoreAccess(transferStore('toStoreId')),
+  stockTransfersController.receiveTransfer
+)
+
+// POST /api/stock-transfers/:id/cancel - Cancel a transfer that has not shipped
+router.post('/:id/cancel', checkPermission('product:update'), stockTransfersController.cancelTransfer)
+
+export { router as stockTransferRoutes }
@@ -15,6 +15,20 @@ router.post(
   transactionController.createTransaction
 )
 
+// POST /api/transactions/calculate-tax - Quote tax for a cart before tender
+router.post(
+  '/calculate-tax',
+  checkPermission('transaction:create'),
+  transactionController.calculateTax
+)
+
+// POST /api/transactions/quote - Price a cart exactly as checkout would, without saving
+router.post(
+  '/quote',
+  checkPermission('transaction:create'),
+  transactionController.quoteTransaction
+)
+
 // GET /api/transactions - Get all transactions with pagination
 router.get(
   '/',
@@ -36,6 +50,20 @@ router.get(
   transactionController.generateReceipt
 )
 
+// POST /api/transactions/:id/return - Return or exchange lines from an earlier sale
+router.post(
+  '/:id/return',
+  checkPermission('transaction:update'),
+  transactionController.returnTransaction
+)
+
+// POST /api/transactions/:id/void - Same-day void; needs transaction:delete or a manager's credentials
+router.post(
+  '/:id/void',
+  checkPermission('transaction:create'),
+  transactionController.voidTransaction
+)
+
 // POST /api/transactions/:id/print - Print receipt for transaction
 router.post(
   '/:id/print',
@@ -4,6 +4,16 @@ import authRoutes from './routes/auth'
 import productRoutes from './routes/products'
 import { transactionRoutes } from './routes/transactions'
 import { customerRoutes } from './routes/customers'
+import { complianceRoutes } from './routes/compliance'
+import { auditRoutes } from './routes/audit'
+import { ageVerificationRoutes } from './routes/ageVerification'
+import { offerRoutes } from './routes/offers'
+import { loyaltyRoutes } from './routes/loyalty'
+import { giftCardRoutes } from './routes/giftCards'
+import { paymentRoutes } from './routes/payments'
+import { cashDrawerRoutes } from './routes/cashDrawers'
+import { stockTransferRoutes } from './routes/stockTransfers'
+import { reportRoutes } from './routes/reports'
 
 const app = express()
 const port = process.env.API_PORT || 3001
@@ -23,6 +33,16 @@ app.use('/api/auth', authRoutes)
 app.use('/api/products', productRoutes)
 app.use('/api/transactions', transactionRoutes)
 app.use('/api/customers', customerRoutes)
+app.use('/api/compliance', complianceRoutes)
+app.use('/api/audit', auditRoutes)
+app.use('/api/age-verification', ageVerificationRoutes)
+app.use('/api/offers', offerRoutes)
+app.use('/api/loyalty', loyaltyRoutes)
+app.use('/api/gift-cards', giftCardRoutes)
+app.use('/api/payments', paymentRoutes)
+app.use('/api/cash-drawers', cashDrawerRoutes)
+app.use('/api/stock-transfers', stockTransferRoutes)
+app.use('/api/reports', reportRoutes)
 
 // Error handling middleware
 app.use((err: any, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
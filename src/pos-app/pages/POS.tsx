@@ -2,11 +2,16 @@ import { useState } from 'react'
 import { ProductList } from '../../shared/components/products'
 import { ProtectedRoute } from '../../shared/components/auth'
 import { CustomerSearch } from '../../shared/components/customers'
+import { AgeVerificationModal } from '../../shared/components/ageVerification'
+import { CashDrawerPanel } from '../../shared/components/cashDrawers'
 import { useAuth } from '../../shared/hooks/useAuth'
-import { useCreateTransaction } from '../../shared/hooks/useTransactions'
+import { useCreateTransaction, useCartQuote } from '../../shared/hooks/useTransactions'
+import { paymentService } from '../../shared/services/payments'
+import type { PaymentResult } from '../../shared/services/payments'
 import type { Product, PaymentMethod } from '../../shared/types/database'
-import type { CreateTransactionData } from '../../shared/types/transactions'
+import type { CreateTransactionData, TenderMethod } from '../../shared/types/transactions'
 import type { CustomerSearchResult } from '../../shared/types/customers'
+import type { AgeVerificationResult } from '../../shared/types/ageVerification'
 
 interface CartItem {
   product: Product
@@ -14,17 +19,68 @@ interface CartItem {
   lineTotal: number
 }
 
+// Card details as keyed in; they are tokenized in the browser and never sent to the API
+interface CardFields {
+  cardNumber: string
+  expiry: string
+  cvv: string
+}
+
+const emptyCard = (): CardFields => ({ cardNumber: '', expiry: '', cvv: '' })
+
+// One row of a split payment as keyed in at the register
+interface SplitTenderRow {
+  method: TenderMethod
+  amount: string
+  giftCardNumber: string
+  giftCardPin: string
+  card: CardFields
+}
+
+const emptySplitTender = (): SplitTenderRow => ({
+  method: 'CASH',
+  amount: '',
+  giftCardNumber: '',
+  giftCardPin: '',
+  card: emptyCard()
+})
+
 export function POSPage() {
   const [cart, setCart] = useState<CartItem[]>([])
   const [searchCode, setSearchCode] = useState('')
   const [showCheckout, setShowCheckout] = useState(false)
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('CASH')
   const [cashTendered, setCashTendered] = useState('')
+  const [giftCardNumber, setGiftCardNumber] = useState('')
+  const [giftCardPin, setGiftCardPin] = useState('')
+  const [card, setCard] = useState<CardFields>(emptyCard())
+  const [splitTenders, setSplitTenders] = useState<SplitTenderRow[]>([emptySplitTender(), emptySplitTender()])
   const [isProcessing, setIsProcessing] = useState(false)
   const [selectedCustomer, setSelectedCustomer] = useState<CustomerSearchResult | null>(null)
+  const [pointsToRedeem, setPointsToRedeem] = useState('')
+  const [showAgeVerification, setShowAgeVerification] = useState(false)
+  const [ageVerification, setAgeVerification] = useState<AgeVerificationResult | null>(null)
   const { user } = useAuth()
   const createTransactionMutation = useCreateTransaction()
 
+  // Points only count towards a sale with a customer attached
+  const requestedPoints = selectedCustomer ? parseInt(pointsToRedeem, 10) || undefined : undefined
+
+  // Totals, tax, points and verifications are always priced by the server
+  const {
+    data: cartQuote,
+    isFetching: isQuoting,
+    error: quoteError
+  } = useCartQuote({
+    cartItems: cart.map(item => ({
+      productId: item.product.id,
+      quantity: item.quantity
+    })),
+    storeId: user?.storeId || undefined,
+    customerId: selectedCustomer?.id,
+    loyaltyPointsToRedeem: requestedPoints
+  })
+
   const addToCart = (product: Product) => {
     setCart(prev => {
       const existingItem = prev.find(item => item.product.id === product.id)
@@ -78,6 +134,20 @@ export function POSPage() {
     return cart.reduce((total, item) => total + item.lineTotal, 0)
   }
 
+  // Quoted total including tax, or null while the quote is loading
+  const getQuotedTotal = (): number | null => {
+    if (!cartQuote || isQuoting) return null
+    return cartQuote.totalAmount
+  }
+
+  // What is left to pay after loyalty points, or null while the quote is loading
+  const getAmountDue = (): number | null => {
+    if (!cartQuote || isQuoting) return null
+    return cartQuote.amountDue
+  }
+
+  const isQuoteBlocked = () => cartQuote?.compliance.passed === false
+
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -85,8 +155,12 @@ export function POSPage() {
     }).format(price)
   }
 
+  const getAgeVerification = () => {
+    return cartQuote?.requiredVerifications.find(verification => verification.type === 'AGE')
+  }
+
   const hasAgeRestrictedItems = () => {
-    return cart.some(item => item.product.ageRestricted)
+    return !!getAgeVerification() || cart.some(item => item.product.ageRestricted)
   }
 
   const handleCheckout = async () => {
@@ -94,7 +168,27 @@ export function POSPage() {
 
     setIsProcessing(true)
 
+    // Card authorizations taken for this checkout, released if the sale fails
+    const authorized: PaymentResult[] = []
+    const authorize = async (fields: CardFields, amount: number) => {
+      const result = await authorizeCard(fields, amount)
+      authorized.push(result)
+      return result.transactionId
+    }
+
     try {
+      const paymentReference = paymentMethod === 'CARD'
+        ? await authorize(card, getAmountDue()!)
+        : undefined
+      const splitReferences: (string | undefined)[] = []
+      if (paymentMethod === 'SPLIT') {
+        for (const tender of splitTenders) {
+          splitReferences.push(
+            tender.method === 'CARD' ? await authorize(tender.card, parseFloat(tender.amount)) : undefined
+          )
+        }
+      }
+
       const transactionData: CreateTransactionData = {
         customerId: selectedCustomer?.id,
         cartItems: cart.map(item => ({
@@ -103,8 +197,21 @@ export function POSPage() {
         })),
         paymentMethod,
         cashTendered: paymentMethod === 'CASH' ? parseFloat(cashTendered) || undefined : undefined,
-        ageVerificationCompleted: hasAgeRestrictedItems() ? true : undefined, // TODO: Implement proper age verification
-        storeId: user?.storeId || undefined
+        giftCardNumber: paymentMethod === 'GIFT_CARD' ? giftCardNumber : undefined,
+        giftCardPin: paymentMethod === 'GIFT_CARD' ? giftCardPin : undefined,
+        paymentReference,
+        payments: paymentMethod === 'SPLIT'
+          ? splitTenders.map((tender, index) => ({
+            method: tender.method,
+            amount: parseFloat(tender.amount),
+            giftCardNumber: tender.method === 'GIFT_CARD' ? tender.giftCardNumber : undefined,
+            giftCardPin: tender.method === 'GIFT_CARD' ? tender.giftCardPin : undefined,
+            reference: splitReferences[index]
+          }))
+          : undefined,
+        ageVerificationId: hasAgeRestrictedItems() ? ageVerification?.verificationId : undefined,
+        storeId: user?.storeId || undefined,
+        loyaltyPointsToRedeem: requestedPoints
       }
 
       const transaction = await createTransactionMutation.mutateAsync(transactionData)
@@ -113,15 +220,25 @@ export function POSPage() {
       setCart([])
       setShowCheckout(false)
       setCashTendered('')
+      setGiftCardNumber('')
+      setGiftCardPin('')
+      setCard(emptyCard())
+      setSplitTenders([emptySplitTender(), emptySplitTender()])
       setSelectedCustomer(null)
+      setPointsToRedeem('')
+      setAgeVerification(null)
       
       const loyaltyMessage = selectedCustomer && transaction.loyaltyPointsEarned > 0 
         ? `\nLoyalty Points Earned: ${transaction.loyaltyPointsEarned}`
         : ''
+      const redeemedMessage = transaction.loyaltyPointsRedeemed > 0
+        ? `\nLoyalty Points Redeemed: ${transaction.loyaltyPointsRedeemed}`
+        : ''
       
-      alert(`Transaction completed successfully!\nReceipt: ${transaction.receiptNumber}\nTotal: ${formatPrice(transaction.totalAmount)}${loyaltyMessage}`)
+      alert(`Transaction completed successfully!\nReceipt: ${transaction.receiptNumber}\nTotal: ${formatPrice(transaction.totalAmount)}${redeemedMessage}${loyaltyMessage}`)
       
     } catch (error: any) {
+      await paymentService.releaseCardPayments(authorized)
       console.error('Checkout error:', error)
       alert(`Checkout failed: ${error.response?.data?.message || error.message || 'Unknown error'}`)
     } finally {
@@ -129,13 +246,113 @@ export function POSPage() {
     }
   }
 
+  // Restricted carts need a passing ID check, recorded by the server, before tender
+  const isAgeVerified = () => !hasAgeRestrictedItems() || !!ageVerification?.isVerified
+
   const validateCashPayment = () => {
     if (paymentMethod !== 'CASH') return true
     const cash = parseFloat(cashTendered) || 0
-    const total = getCartTotal() * 1.08 // Including tax
-    return cash >= total
+    const amountDue = getAmountDue()
+    return amountDue !== null && cash >= amountDue
+  }
+
+  // The server checks the balance and PIN when the sale is completed
+  const isGiftCardComplete = (cardNumber: string, pin: string) =>
+    cardNumber.replace(/[\s-]/g, '').length >= 10 && /^\d{4,8}$/.test(pin)
+
+  const validateGiftCardPayment = () => {
+    if (paymentMethod !== 'GIFT_CARD') return true
+    return isGiftCardComplete(giftCardNumber, giftCardPin)
   }
 
+  // Cards are authorized for the whole amount or not at all; partial approvals are released
+  const authorizeCard = async (fields: CardFields, amount: number) => {
+    const [expiryMonth = '', expiryYear = ''] = fields.expiry.split('/')
+    const result = await paymentService.processCardPayment({
+      cardNumber: fields.cardNumber,
+      expiryMonth,
+      expiryYear,
+      cvv: fields.cvv,
+      cardholderName: '',
+      amount
+    })
+    if (!result.success) {
+      throw new Error(`Card payment failed: ${result.errorMessage}`)
+    }
+    return result
+  }
+
+  const isCardComplete = (fields: CardFields) =>
+    paymentService.validateCardNumber(fields.cardNumber) &&
+    /^\d{2}\/\d{2}$/.test(fields.expiry) &&
+    /^\d{3,4}$/.test(fields.cvv)
+
+  const validateCardPayment = () => {
+    if (paymentMethod !== 'CARD') return true
+    return isCardComplete(card)
+  }
+
+  // What the split rows still leave to pay, in cents to avoid float drift
+  const getSplitRemaining = (): number | null => {
+    const amountDue = getAmountDue()
+    if (amountDue === null) return null
+    const paidCents = splitTenders.reduce(
+      (sum, tender) => sum + Math.round((parseFloat(tender.amount) || 0) * 100),
+      0
+    )
+    return (Math.round(amountDue * 100) - paidCents) / 100
+  }
+
+  const validateSplitPayment = () => {
+    if (paymentMethod !== 'SPLIT') return true
+    return splitTenders.length >= 2 &&
+      getSplitRemaining() === 0 &&
+      splitTenders.every(tender =>
+        parseFloat(tender.amount) > 0 &&
+        (tender.method !== 'GIFT_CARD' || isGiftCardComplete(tender.giftCardNumber, tender.giftCardPin)) &&
+        (tender.method !== 'CARD' || isCardComplete(tender.card))
+      )
+  }
+
+  const updateSplitTender = (index: number, changes: Partial<SplitTenderRow>) => {
+    setSplitTenders(prev => prev.map((tender, i) => (i === index ? { ...tender, ...changes } : tender)))
+  }
+
+  const renderCardFields = (fields: CardFields, onChange: (fields: CardFields) => void) => (
+    <div className="grid grid-cols-4 gap-2">
+      <input
+        type="text"
+        inputMode="numeric"
+        autoComplete="off"
+        value={paymentService.formatCardNumber(fields.cardNumber)}
+        onChange={(e) => onChange({ ...fields, cardNumber: e.target.value.replace(/\s/g, '') })}
+        className="col-span-2 px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        placeholder="Card number"
+        maxLength={23}
+      />
+      <input
+        type="text"
+        inputMode="numeric"
+        autoComplete="off"
+        value={fields.expiry}
+        onChange={(e) => onChange({ ...fields, expiry: e.target.value })}
+        className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        placeholder="MM/YY"
+        maxLength={5}
+      />
+      <input
+        type="password"
+        inputMode="numeric"
+        autoComplete="off"
+        value={fields.cvv}
+        onChange={(e) => onChange({ ...fields, cvv: e.target.value })}
+        className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        placeholder="CVV"
+        maxLength={4}
+      />
+    </div>
+  )
+
   return (
     <ProtectedRoute requiredPermission="transaction:create">
       <div className="min-h-screen bg-gray-50 flex">
@@ -146,6 +363,11 @@ export function POSPage() {
             <p className="text-gray-600">Cashier: {user?.firstName} {user?.lastName}</p>
           </div>
 
+          {/* Cash sales need an open drawer */}
+          <div className="mb-6">
+            <CashDrawerPanel storeId={user?.storeId || undefined} />
+          </div>
+
           {/* Quick Search */}
           <div className="mb-6">
             <div className="flex gap-2">
@@ -248,22 +470,43 @@ export function POSPage() {
               <div className="space-y-2 mb-4">
                 <div className="flex justify-between">
                   <span>Subtotal:</span>
-                  <span>{formatPrice(getCartTotal())}</span>
+                  <span>{formatPrice(cartQuote?.subtotal ?? getCartTotal())}</span>
                 </div>
+                {cartQuote && cartQuote.discountAmount > 0 && (
+                  <div className="flex justify-between text-green-700">
+                    <span>Discounts:</span>
+                    <span>-{formatPrice(cartQuote.discountAmount)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span>Tax:</span>
-                  <span>{formatPrice(getCartTotal() * 0.08)}</span>
+                  <span>{cartQuote && !isQuoting ? formatPrice(cartQuote.taxAmount) : 'Calculating...'}</span>
                 </div>
                 <div className="flex justify-between font-bold text-lg border-t pt-2">
                   <span>Total:</span>
-                  <span>{formatPrice(getCartTotal() * 1.08)}</span>
+                  <span>{getQuotedTotal() !== null ? formatPrice(getQuotedTotal()!) : '—'}</span>
                 </div>
+                {quoteError && (
+                  <p className="text-sm text-red-600">
+                    Unable to price cart: {(quoteError as any).response?.data?.message || quoteError.message}
+                  </p>
+                )}
+                {cartQuote?.compliance.violations.map(violation => (
+                  <p key={`${violation.ruleId}-${violation.productId}`} className="text-sm text-red-600">
+                    {violation.message}
+                  </p>
+                ))}
+                {cartQuote?.compliance.warnings.map(warning => (
+                  <p key={`${warning.ruleId}-${warning.productId}`} className="text-sm text-yellow-700">
+                    {warning.message}
+                  </p>
+                ))}
               </div>
               
               <button
                 className="w-full px-4 py-3 bg-green-600 text-white rounded-md hover:bg-green-700 font-medium disabled:bg-gray-400"
                 onClick={() => setShowCheckout(true)}
-                disabled={isProcessing}
+                disabled={isProcessing || getQuotedTotal() === null || isQuoteBlocked()}
               >
                 {isProcessing ? 'Processing...' : 'Checkout'}
               </button>
@@ -292,8 +535,23 @@ export function POSPage() {
                   ⚠️ Age Verification Required
                 </p>
                 <p className="text-red-700 text-xs">
-                  Cart contains age-restricted products. Verify customer age before completing transaction.
+                  Cart contains age-restricted products. Verify customer
+                  {getAgeVerification()?.minimumAge ? ` is at least ${getAgeVerification()!.minimumAge}` : ' age'} before
+                  completing transaction.
                 </p>
+                {ageVerification?.isVerified ? (
+                  <p className="text-green-700 text-xs mt-2">
+                    ✅ ID verified (age {ageVerification.calculatedAge}
+                    {ageVerification.managerOverride ? ', manager override' : ''})
+                  </p>
+                ) : (
+                  <button
+                    onClick={() => setShowAgeVerification(true)}
+                    className="mt-2 px-3 py-1 bg-red-600 text-white text-sm rounded hover:bg-red-700"
+                  >
+                    Verify ID
+                  </button>
+                )}
               </div>
             )}
 
@@ -302,14 +560,17 @@ export function POSPage() {
               <label className="block text-sm font-medium mb-2">Customer (Optional):</label>
               <CustomerSearch
                 onSelectCustomer={setSelectedCustomer}
-                onClearCustomer={() => setSelectedCustomer(null)}
+                onClearCustomer={() => {
+                  setSelectedCustomer(null)
+                  setPointsToRedeem('')
+                }}
                 selectedCustomer={selectedCustomer}
                 placeholder="Search by name, email, or phone..."
                 className="w-full"
               />
-              {selectedCustomer && (
+              {selectedCustomer && cartQuote && (
                 <div className="mt-2 text-sm text-green-600">
-                  💰 Will earn {Math.floor(getCartTotal() * 1.08)} loyalty points!
+                  💰 Will earn {cartQuote.loyaltyPointsEarned} loyalty points!
                 </div>
               )}
             </div>
@@ -318,18 +579,87 @@ export function POSPage() {
             <div className="mb-4">
               <div className="flex justify-between mb-2">
                 <span>Subtotal:</span>
-                <span>{formatPrice(getCartTotal())}</span>
+                <span>{formatPrice(cartQuote?.subtotal ?? getCartTotal())}</span>
               </div>
+              {cartQuote?.discounts.map(discount => (
+                <div key={discount.code || discount.description} className="flex justify-between mb-1 text-sm text-green-700">
+                  <span>{discount.description}:</span>
+                  <span>-{formatPrice(discount.amount)}</span>
+                </div>
+              ))}
+              {cartQuote?.taxBreakdown.jurisdictions.map(jurisdiction => (
+                <div key={jurisdiction.code} className="flex justify-between mb-1 text-sm text-gray-600">
+                  <span>
+                    {jurisdiction.type === 'excise'
+                      ? jurisdiction.name
+                      : `${jurisdiction.name} (${(jurisdiction.rate * 100).toFixed(2)}%)`}:
+                  </span>
+                  <span>{formatPrice(jurisdiction.taxAmount)}</span>
+                </div>
+              ))}
               <div className="flex justify-between mb-2">
                 <span>Tax:</span>
-                <span>{formatPrice(getCartTotal() * 0.08)}</span>
+                <span>{cartQuote && !isQuoting ? formatPrice(cartQuote.taxAmount) : 'Calculating...'}</span>
               </div>
               <div className="flex justify-between font-bold text-lg border-t pt-2">
                 <span>Total:</span>
-                <span>{formatPrice(getCartTotal() * 1.08)}</span>
+                <span>{getQuotedTotal() !== null ? formatPrice(getQuotedTotal()!) : '—'}</span>
               </div>
+              {cartQuote?.loyaltyRedemption && cartQuote.loyaltyRedemption.points > 0 && (
+                <>
+                  <div className="flex justify-between mt-1 text-sm text-green-700">
+                    <span>Loyalty Points ({cartQuote.loyaltyRedemption.points}):</span>
+                    <span>-{formatPrice(cartQuote.loyaltyRedemption.amount)}</span>
+                  </div>
+                  <div className="flex justify-between font-bold text-lg">
+                    <span>Amount Due:</span>
+                    <span>{getAmountDue() !== null ? formatPrice(getAmountDue()!) : '—'}</span>
+                  </div>
+                </>
+              )}
             </div>
 
+            {/* Loyalty Points Redemption */}
+            {selectedCustomer && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium mb-2">Redeem Points:</label>
+                <div className="flex space-x-2">
+                  <input
+                    type="number"
+                    step="1"
+                    min="0"
+                    value={pointsToRedeem}
+                    onChange={(e) => setPointsToRedeem(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="0"
+                  />
+                  {cartQuote?.loyaltyRedemption && cartQuote.loyaltyRedemption.maxPoints > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => setPointsToRedeem(String(cartQuote.loyaltyRedemption!.maxPoints))}
+                      className="px-3 py-2 border border-gray-300 rounded text-sm hover:bg-gray-50"
+                    >
+                      Use Max
+                    </button>
+                  )}
+                </div>
+                {cartQuote?.loyaltyRedemption && (
+                  <p className="text-xs text-gray-600 mt-1">
+                    {cartQuote.loyaltyRedemption.availablePoints} points available
+                    {cartQuote.loyaltyRedemption.maxPoints > 0
+                      ? ` · redeem ${cartQuote.loyaltyRedemption.minPoints}–${cartQuote.loyaltyRedemption.maxPoints}` +
+                        ` · each point is worth ${formatPrice(cartQuote.loyaltyRedemption.pointValue)}`
+                      : ' · not enough to redeem on this sale'}
+                  </p>
+                )}
+                {requestedPoints && quoteError && (
+                  <p className="text-sm text-red-600 mt-1">
+                    {(quoteError as any).response?.data?.message || quoteError.message}
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Payment Method Selection */}
             <div className="mb-4">
               <label className="block text-sm font-medium mb-2">Payment Method:</label>
@@ -341,7 +671,14 @@ export function POSPage() {
                 <option value="CASH">Cash</option>
                 <option value="CARD">Card</option>
                 <option value="GIFT_CARD">Gift Card</option>
+                {selectedCustomer && <option value="STORE_CREDIT">Store Credit</option>}
+                <option value="SPLIT">Split Payment</option>
               </select>
+              {selectedCustomer && cartQuote?.storeCreditBalance !== undefined && (
+                <p className="text-xs text-gray-600 mt-1">
+                  {formatPrice(cartQuote.storeCreditBalance)} store credit available
+                </p>
+              )}
             </div>
 
             {/* Cash Payment Fields */}
@@ -355,11 +692,11 @@ export function POSPage() {
                   value={cashTendered}
                   onChange={(e) => setCashTendered(e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  placeholder={`Minimum: ${formatPrice(getCartTotal() * 1.08)}`}
+                  placeholder={getAmountDue() !== null ? `Minimum: ${formatPrice(getAmountDue()!)}` : ''}
                 />
-                {cashTendered && parseFloat(cashTendered) >= (getCartTotal() * 1.08) && (
+                {cashTendered && validateCashPayment() && (
                   <p className="text-sm text-green-600 mt-1">
-                    Change: {formatPrice(parseFloat(cashTendered) - (getCartTotal() * 1.08))}
+                    Change: {formatPrice(parseFloat(cashTendered) - getAmountDue()!)}
                   </p>
                 )}
                 {cashTendered && !validateCashPayment() && (
@@ -370,10 +707,124 @@ export function POSPage() {
               </div>
             )}
 
+            {/* Gift Card Payment Fields */}
+            {paymentMethod === 'GIFT_CARD' && (
+              <div className="mb-4 grid grid-cols-3 gap-3">
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium mb-2">Gift Card Number:</label>
+                  <input
+                    type="text"
+                    value={giftCardNumber}
+                    onChange={(e) => setGiftCardNumber(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Scan or enter card number"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">PIN:</label>
+                  <input
+                    type="password"
+                    inputMode="numeric"
+                    value={giftCardPin}
+                    onChange={(e) => setGiftCardPin(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    maxLength={8}
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Card Payment Fields */}
+            {paymentMethod === 'CARD' && (
+              <div className="mb-4">
+                {renderCardFields(card, setCard)}
+              </div>
+            )}
+
+            {/* Split Payment Fields */}
+            {paymentMethod === 'SPLIT' && (
+              <div className="mb-4 space-y-3">
+                {splitTenders.map((tender, index) => (
+                  <div key={index} className="border border-gray-200 rounded p-3">
+                    <div className="flex space-x-2">
+                      <select
+                        value={tender.method}
+                        onChange={(e) => updateSplitTender(index, { method: e.target.value as TenderMethod })}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="CASH">Cash</option>
+                        <option value="CARD">Card</option>
+                        <option value="GIFT_CARD">Gift Card</option>
+                        {selectedCustomer && <option value="STORE_CREDIT">Store Credit</option>}
+                      </select>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={tender.amount}
+                        onChange={(e) => updateSplitTender(index, { amount: e.target.value })}
+                        className="w-28 px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder="Amount"
+                      />
+                      {splitTenders.length > 2 && (
+                        <button
+                          onClick={() => setSplitTenders(prev => prev.filter((_, i) => i !== index))}
+                          className="px-2 text-red-600 hover:text-red-800"
+                        >
+                          ×
+                        </button>
+                      )}
+                    </div>
+                    {tender.method === 'GIFT_CARD' && (
+                      <div className="mt-2 grid grid-cols-3 gap-2">
+                        <input
+                          type="text"
+                          value={tender.giftCardNumber}
+                          onChange={(e) => updateSplitTender(index, { giftCardNumber: e.target.value })}
+                          className="col-span-2 px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          placeholder="Gift card number"
+                        />
+                        <input
+                          type="password"
+                          inputMode="numeric"
+                          value={tender.giftCardPin}
+                          onChange={(e) => updateSplitTender(index, { giftCardPin: e.target.value })}
+                          className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          placeholder="PIN"
+                          maxLength={8}
+                        />
+                      </div>
+                    )}
+                    {tender.method === 'CARD' && (
+                      <div className="mt-2">
+                        {renderCardFields(tender.card, fields => updateSplitTender(index, { card: fields }))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+                <div className="flex justify-between items-center text-sm">
+                  <button
+                    onClick={() => setSplitTenders(prev => [...prev, emptySplitTender()])}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    + Add Payment
+                  </button>
+                  {getSplitRemaining() !== null && (
+                    <span className={getSplitRemaining() === 0 ? 'text-green-600' : 'text-red-600'}>
+                      Remaining: {formatPrice(getSplitRemaining()!)}
+                    </span>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Action Buttons */}
             <div className="flex space-x-3">
               <button
-                onClick={() => setShowCheckout(false)}
+                onClick={() => {
+                  setShowCheckout(false)
+                  setAgeVerification(null)
+                }}
                 className="flex-1 px-4 py-2 border border-gray-300 rounded hover:bg-gray-50"
                 disabled={isProcessing}
               >
@@ -381,7 +832,7 @@ export function POSPage() {
               </button>
               <button
                 onClick={handleCheckout}
-                disabled={isProcessing || !validateCashPayment()}
+                disabled={isProcessing || getQuotedTotal() === null || isQuoteBlocked() || !isAgeVerified() || !validateCashPayment() || !validateGiftCardPayment() || !validateCardPayment() || !validateSplitPayment()}
                 className="flex-1 px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-gray-400"
               >
                 {isProcessing ? 'Processing...' : 'Complete Transaction'}
@@ -390,6 +841,17 @@ export function POSPage() {
           </div>
         </div>
       )}
+
+      <AgeVerificationModal
+        isOpen={showAgeVerification}
+        customerId={selectedCustomer?.id}
+        storeId={user?.storeId || undefined}
+        onComplete={(result) => {
+          setAgeVerification(result)
+          setShowAgeVerification(false)
+        }}
+        onCancel={() => setShowAgeVerification(false)}
+      />
     </ProtectedRoute>
   )
 }
\ No newline at end of file
@@ -1,15 +1,37 @@
 import { useState, useEffect } from 'react'
+import { useQuery } from '@tanstack/react-query'
 import { ageVerificationService } from '../../services/ageVerification'
-import type { AgeVerificationData, AgeVerificationResult, ManagerOverride } from '../../services/ageVerification'
+import type { AgeVerificationData, AgeVerificationResult } from '../../services/ageVerification'
+import type { IdType } from '../../types/ageVerification'
+import { getErrorMessage } from '../../utils/errors'
 
 interface AgeVerificationModalProps {
   isOpen: boolean
+  // Receives the server's result; pass its verificationId to checkout
   onComplete: (result: AgeVerificationResult) => void
   onCancel: () => void
   customerId?: string
-  transactionId?: string
-  employeeId: string
-  storeId: string
+  storeId?: string
+}
+
+interface OverrideForm {
+  reason: string
+  notes: string
+  username: string
+  password: string
+}
+
+const ID_TYPE_OPTIONS: { value: IdType; label: string }[] = [
+  { value: 'drivers_license', label: "Driver's License" },
+  { value: 'state_id', label: 'State ID' },
+  { value: 'passport', label: 'Passport' },
+  { value: 'military_id', label: 'Military ID' }
+]
+
+const OUT_OF_STATE_LABELS = {
+  ACCEPT: 'Accepted',
+  MANAGER_APPROVAL: 'Manager approval required',
+  REJECT: 'Not accepted'
 }
 
 export function AgeVerificationModal({
@@ -17,37 +39,46 @@ export function AgeVerificationModal({
   onComplete,
   onCancel,
   customerId,
-  transactionId,
-  employeeId,
   storeId
 }: AgeVerificationModalProps) {
   const [step, setStep] = useState<'method' | 'manual' | 'scanner' | 'result' | 'override'>('method')
   const [verificationData, setVerificationData] = useState<Partial<AgeVerificationData>>({
     customerId,
-    transactionId,
-    employeeId,
     storeId,
     idType: 'drivers_license',
     verificationMethod: 'manual'
   })
   const [result, setResult] = useState<AgeVerificationResult | null>(null)
   const [isProcessing, setIsProcessing] = useState(false)
-  const [managerOverride, setManagerOverride] = useState<Partial<ManagerOverride>>({})
+  const [managerOverride, setManagerOverride] = useState<Partial<OverrideForm>>({})
   const [errors, setErrors] = useState<string[]>([])
+  const [scanInput, setScanInput] = useState('')
+  const [scanWarnings, setScanWarnings] = useState<string[]>([])
+
+  const { data: policy, isLoading: isPolicyLoading } = useQuery({
+    queryKey: ['age-verification-policy', storeId],
+    queryFn: () => ageVerificationService.getPolicy(storeId),
+    enabled: isOpen
+  })
 
   // Reset state when modal opens/closes
   useEffect(() => {
     if (isOpen) {
       setStep('method')
       setResult(null)
+      setManagerOverride({})
       setErrors([])
+      setScanInput('')
+      setScanWarnings([])
     }
   }, [isOpen])
 
   if (!isOpen) return null
 
   const handleMethodSelect = (method: 'manual' | 'scanner') => {
-    setVerificationData(prev => ({ ...prev, verificationMethod: method }))
+    setVerificationData(prev => ({ ...prev, verificationMethod: method, scannerData: undefined }))
+    setScanInput('')
+    setScanWarnings([])
     setStep(method)
   }
 
@@ -61,35 +92,41 @@ export function AgeVerificationModal({
     }
   }
 
-  const handleScanId = async () => {
-    setIsProcessing(true)
-    try {
-      const scanResult = await ageVerificationService.scanId('barcode')
-      
-      if (scanResult.success && scanResult.data) {
-        setVerificationData(prev => ({
-          ...prev,
-          idNumber: scanResult.data!.idNumber,
-          idIssuingState: scanResult.data!.issuingState,
-          idExpirationDate: scanResult.data!.expirationDate,
-          customerDob: scanResult.data!.dateOfBirth,
-          calculatedAge: ageVerificationService.calculateAge(scanResult.data!.dateOfBirth),
-          scannerData: {
-            model: 'MockScanner v1.0',
-            softwareVersion: '2.1.0',
-            confidenceScore: 0.95
-          }
-        }))
-        setStep('result')
-      } else {
-        setErrors([scanResult.error || 'Scanner failed to read ID'])
-        setStep('manual')
+  const handleScanId = () => {
+    setErrors([])
+    const scanResult = ageVerificationService.scanId(scanInput)
+
+    if (scanResult.success && scanResult.data) {
+      const scanned = scanResult.data
+      const denial = policy && ageVerificationService.checkIdAgainstPolicy(
+        { idType: scanned.idType, idIssuingState: scanned.issuingState },
+        policy
+      )
+      if (denial && !denial.overridable) {
+        setErrors([denial.reason])
+        setScanInput('')
+        return
       }
-    } catch (error) {
-      setErrors(['Scanner error occurred'])
+      // Fill in the form so the cashier can compare it with the ID before verifying
+      setVerificationData(prev => ({
+        ...prev,
+        idType: scanned.idType,
+        idNumber: scanned.idNumber,
+        idIssuingState: scanned.issuingState,
+        idExpirationDate: scanned.expirationDate,
+        customerDob: scanned.dateOfBirth,
+        calculatedAge: ageVerificationService.calculateAge(scanned.dateOfBirth),
+        scannerData: {
+          model: 'PDF417 keyboard wedge',
+          confidenceScore: scanResult.confidenceScore,
+          rawData: scanInput
+        }
+      }))
+      setScanWarnings(scanResult.warnings || [])
       setStep('manual')
-    } finally {
-      setIsProcessing(false)
+    } else {
+      setErrors([scanResult.error || 'Scanner failed to read ID'])
+      setScanInput('')
     }
   }
 
@@ -108,47 +145,81 @@ export function AgeVerificationModal({
         return
       }
 
+      // Overridable problems go to the server so a manager can approve them there
+      const denial = policy && ageVerificationService.checkIdAgainstPolicy(
+        verificationData as AgeVerificationData,
+        policy
+      )
+      if (denial && !denial.overridable) {
+        setErrors([denial.reason])
+        setIsProcessing(false)
+        return
+      }
+
       const verificationResult = await ageVerificationService.verifyAge(verificationData as AgeVerificationData)
       setResult(verificationResult)
       setStep('result')
     } catch (error) {
-      setErrors([error instanceof Error ? error.message : 'Verification failed'])
+      setErrors([getErrorMessage(error, 'Verification failed')])
     } finally {
       setIsProcessing(false)
     }
   }
 
   const handleManagerOverride = async () => {
-    if (!result || !managerOverride.managerId || !managerOverride.reason) {
-      setErrors(['Manager ID and reason are required for override'])
+    if (!result || !managerOverride.reason) {
+      setErrors(['A reason is required for override'])
       return
     }
 
     setIsProcessing(true)
+    setErrors([])
     try {
-      const success = await ageVerificationService.processManagerOverride({
+      const overridden = await ageVerificationService.processManagerOverride({
         verificationId: result.verificationId,
-        managerId: managerOverride.managerId!,
-        reason: managerOverride.reason!,
-        notes: managerOverride.notes
+        reason: managerOverride.reason,
+        notes: managerOverride.notes,
+        managerCredentials: managerOverride.username && managerOverride.password
+          ? { username: managerOverride.username, password: managerOverride.password }
+          : undefined
       })
-
-      if (success) {
-        onComplete({
-          ...result,
-          isVerified: true,
-          reasonForDenial: undefined
-        })
-      } else {
-        setErrors(['Manager override failed'])
-      }
+      onComplete(overridden)
     } catch (error) {
-      setErrors([error instanceof Error ? error.message : 'Override failed'])
+      setErrors([getErrorMessage(error, 'Override failed')])
     } finally {
       setIsProcessing(false)
     }
   }
 
+  const renderPolicy = () => {
+    if (isPolicyLoading) {
+      return <p className="text-sm text-gray-500">Loading store ID policy...</p>
+    }
+    if (!policy) return null
+
+    return (
+      <div className="bg-gray-50 border border-gray-200 rounded p-3 text-sm">
+        <h4 className="font-medium mb-1">ID Policy ({policy.stateCode})</h4>
+        <ul className="text-gray-700 space-y-1">
+          <li>Minimum age: {policy.minimumAge}</li>
+          {policy.requireIdUnder && (
+            <li>Check ID for anyone who appears under {policy.requireIdUnder}</li>
+          )}
+          <li>
+            Accepted IDs:{' '}
+            {policy.acceptableIdTypes.length > 0
+              ? ID_TYPE_OPTIONS
+                  .filter(option => policy.acceptableIdTypes.includes(option.value))
+                  .map(option => option.label)
+                  .join(', ')
+              : 'None'}
+          </li>
+          <li>Out-of-state IDs: {OUT_OF_STATE_LABELS[policy.outOfStateIds]}</li>
+        </ul>
+      </div>
+    )
+  }
+
   const getStepTitle = () => {
     switch (step) {
       case 'method': return 'Age Verification Method'
@@ -183,6 +254,8 @@ export function AgeVerificationModal({
             <p className="text-gray-600">
               Age-restricted products require customer age verification. Choose a verification method:
             </p>
+
+            {renderPolicy()}
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <button
@@ -214,23 +287,33 @@ export function AgeVerificationModal({
             <div className="bg-blue-50 border border-blue-200 rounded p-4">
               <p className="text-blue-800 font-medium">Scanner Ready</p>
               <p className="text-blue-700 text-sm">
-                Please scan the customer's ID using the barcode or magnetic stripe scanner.
+                Scan the barcode on the back of the customer's ID, then read the scan.
               </p>
             </div>
 
+            {/* The scanner types the barcode into this field, line breaks included */}
+            <textarea
+              autoFocus
+              value={scanInput}
+              onChange={(e) => setScanInput(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded font-mono text-xs"
+              rows={4}
+              placeholder="Waiting for scan..."
+            />
+
             <div className="text-center">
               <button
                 onClick={handleScanId}
-                disabled={isProcessing}
+                disabled={!scanInput.trim()}
                 className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
               >
-                {isProcessing ? 'Scanning...' : 'Scan ID'}
+                Read Scan
               </button>
             </div>
 
             <div className="text-center">
               <button
-                onClick={() => setStep('manual')}
+                onClick={() => handleMethodSelect('manual')}
                 className="text-blue-600 hover:text-blue-800 text-sm"
               >
                 Enter information manually instead
@@ -242,6 +325,19 @@ export function AgeVerificationModal({
         {/* Manual Entry Step */}
         {step === 'manual' && (
           <div className="space-y-4">
+            {scanWarnings.length > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded p-3">
+                <h4 className="text-yellow-800 font-medium text-sm mb-2">⚠️ Check the ID by hand:</h4>
+                <ul className="text-yellow-700 text-sm list-disc pl-5">
+                  {scanWarnings.map((warning, index) => (
+                    <li key={index}>{warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {renderPolicy()}
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium mb-2">ID Type:</label>
@@ -250,10 +346,14 @@ export function AgeVerificationModal({
                   onChange={(e) => handleManualEntry('idType', e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded"
                 >
-                  <option value="drivers_license">Driver's License</option>
-                  <option value="state_id">State ID</option>
-                  <option value="passport">Passport</option>
-                  <option value="military_id">Military ID</option>
+                  {ID_TYPE_OPTIONS.map(option => {
+                    const accepted = !policy || policy.acceptableIdTypes.includes(option.value)
+                    return (
+                      <option key={option.value} value={option.value} disabled={!accepted}>
+                        {option.label}{accepted ? '' : ' (not accepted)'}
+                      </option>
+                    )
+                  })}
                 </select>
               </div>
 
@@ -295,6 +395,12 @@ export function AgeVerificationModal({
                     Calculated age: {verificationData.calculatedAge}
                   </p>
                 )}
+                {policy && verificationData.calculatedAge !== undefined &&
+                  verificationData.calculatedAge < policy.minimumAge && (
+                  <p className="text-sm text-red-600 mt-1">
+                    ⚠️ Under the minimum age of {policy.minimumAge}
+                  </p>
+                )}
               </div>
 
               <div>
@@ -410,16 +516,31 @@ export function AgeVerificationModal({
               </p>
             </div>
 
-            <div>
-              <label className="block text-sm font-medium mb-2">Manager ID:</label>
-              <input
-                type="text"
-                value={managerOverride.managerId || ''}
-                onChange={(e) => setManagerOverride(prev => ({ ...prev, managerId: e.target.value }))}
-                className="w-full px-3 py-2 border border-gray-300 rounded"
-                placeholder="Enter manager employee ID"
-              />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Manager Username:</label>
+                <input
+                  type="text"
+                  value={managerOverride.username || ''}
+                  onChange={(e) => setManagerOverride(prev => ({ ...prev, username: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded"
+                  autoComplete="off"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Manager Password:</label>
+                <input
+                  type="password"
+                  value={managerOverride.password || ''}
+                  onChange={(e) => setManagerOverride(prev => ({ ...prev, password: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded"
+                  autoComplete="off"
+                />
+              </div>
             </div>
+            <p className="text-xs text-gray-500">
+              Not needed if you are signed in as a manager.
+            </p>
 
             <div>
               <label className="block text-sm font-medium mb-2">Reason for Override:</label>
@@ -429,8 +550,10 @@ export function AgeVerificationModal({
                 className="w-full px-3 py-2 border border-gray-300 rounded"
               >
                 <option value="">Select reason...</option>
-                <option value="Expired ID but customer verified over 21">Expired ID - Customer clearly over 21</option>
-                <option value="System error with valid customer">System calculation error</option>
+                <option value={`Expired ID but customer verified over ${result?.minAge ?? 21}`}>
+                  Expired ID - Customer clearly over {result?.minAge ?? 21}
+                </option>
+                <option value="Out-of-state ID checked by manager">Out-of-state ID checked by manager</option>
                 <option value="Returning customer with history">Known customer with purchase history</option>
                 <option value="Other">Other (specify in notes)</option>
               </select>
@@ -456,7 +579,7 @@ export function AgeVerificationModal({
               </button>
               <button
                 onClick={handleManagerOverride}
-                disabled={isProcessing || !managerOverride.managerId || !managerOverride.reason}
+                disabled={isProcessing || !managerOverride.reason}
                 className="flex-1 px-4 py-2 bg-yellow-600 text-white rounded hover:bg-yellow-700 disabled:bg-gray-400"
               >
                 {isProcessing ? 'Processing Override...' : 'Approve Override'}
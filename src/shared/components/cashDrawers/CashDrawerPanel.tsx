@@ -0,0 +1,266 @@
+import { useState } from 'react'
+import {
+  useCurrentCashDrawer,
+  useOpenCashDrawer,
+  useCashDrawerEvent,
+  useCloseCashDrawer
+} from '../../hooks/useCashDrawers'
+import { CASH_DENOMINATIONS, countDenominations } from '../../services/cashDrawer'
+import type { CashDrawerEventType } from '../../types/database'
+import type { CashDrawerSessionResponse, DenominationCount } from '../../types/cashDrawers'
+import { getErrorMessage } from '../../utils/errors'
+
+interface CashDrawerPanelProps {
+  storeId?: string
+}
+
+interface EventForm {
+  eventType: CashDrawerEventType
+  amount: string
+  reason: string
+  username: string
+  password: string
+}
+
+const EVENT_LABELS: Record<CashDrawerEventType, string> = {
+  PAID_IN: 'Pay In',
+  PAID_OUT: 'Pay Out',
+  DROP: 'Drop to Safe'
+}
+
+const formatMoney = (amount: number) => `$${amount.toFixed(2)}`
+
+// Opens, adjusts and blind-closes the cashier's drawer from the register
+export function CashDrawerPanel({ storeId }: CashDrawerPanelProps) {
+  const { data: drawer, isLoading } = useCurrentCashDrawer(storeId)
+  const openDrawer = useOpenCashDrawer()
+  const recordEvent = useCashDrawerEvent()
+  const closeDrawer = useCloseCashDrawer()
+
+  const [openingFloat, setOpeningFloat] = useState('')
+  const [eventForm, setEventForm] = useState<EventForm | null>(null)
+  const [counts, setCounts] = useState<Record<string, string>>({})
+  const [isClosing, setIsClosing] = useState(false)
+  const [closed, setClosed] = useState<CashDrawerSessionResponse | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const denominations: DenominationCount = Object.fromEntries(
+    Object.entries(counts)
+      .filter(([, value]) => value !== '')
+      .map(([denomination, value]) => [denomination, Number(value)])
+  )
+
+  const handleOpen = async () => {
+    setError(null)
+    setClosed(null)
+    try {
+      await openDrawer.mutateAsync({ openingFloat: parseFloat(openingFloat) || 0, storeId })
+      setOpeningFloat('')
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to open cash drawer'))
+    }
+  }
+
+  const handleEvent = async () => {
+    if (!drawer || !eventForm) return
+    setError(null)
+    try {
+      await recordEvent.mutateAsync({
+        id: drawer.id,
+        data: {
+          eventType: eventForm.eventType,
+          amount: parseFloat(eventForm.amount) || 0,
+          reason: eventForm.reason || undefined,
+          managerCredentials: eventForm.username && eventForm.password
+            ? { username: eventForm.username, password: eventForm.password }
+            : undefined
+        }
+      })
+      setEventForm(null)
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to record cash drawer event'))
+    }
+  }
+
+  const handleClose = async () => {
+    if (!drawer) return
+    setError(null)
+    try {
+      const session = await closeDrawer.mutateAsync({ id: drawer.id, data: { denominations } })
+      setClosed(session)
+      setCounts({})
+      setIsClosing(false)
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to close cash drawer'))
+    }
+  }
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading cash drawer...</p>
+  }
+
+  return (
+    <div className="border rounded-md p-4 bg-white">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-medium text-gray-900">Cash Drawer</h3>
+        <span className={`text-xs px-2 py-1 rounded ${drawer ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
+          {drawer ? 'Open' : 'Closed'}
+        </span>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+
+      {closed && (
+        <div className="text-sm bg-gray-50 rounded p-2 mb-2">
+          <p>Counted: {formatMoney(closed.countedAmount || 0)}</p>
+          {closed.expectedAmount != null && <p>Expected: {formatMoney(closed.expectedAmount)}</p>}
+          {closed.overShort != null && (
+            <p className={closed.overShort === 0 ? 'text-green-700' : 'text-red-600'}>
+              {closed.overShort >= 0 ? 'Over' : 'Short'}: {formatMoney(Math.abs(closed.overShort))}
+            </p>
+          )}
+        </div>
+      )}
+
+      {!drawer && (
+        <div className="flex gap-2">
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            placeholder="Opening float"
+            value={openingFloat}
+            onChange={(e) => setOpeningFloat(e.target.value)}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+          />
+          <button
+            onClick={handleOpen}
+            disabled={openDrawer.isPending}
+            className="px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            Open
+          </button>
+        </div>
+      )}
+
+      {drawer && !isClosing && !eventForm && (
+        <div>
+          <p className="text-sm text-gray-600 mb-2">
+            Opened {new Date(drawer.openedAt).toLocaleTimeString()} with {formatMoney(drawer.openingFloat)}
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(EVENT_LABELS) as CashDrawerEventType[]).map(eventType => (
+              <button
+                key={eventType}
+                onClick={() => setEventForm({ eventType, amount: '', reason: '', username: '', password: '' })}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm hover:bg-gray-50"
+              >
+                {EVENT_LABELS[eventType]}
+              </button>
+            ))}
+            <button
+              onClick={() => setIsClosing(true)}
+              className="px-3 py-2 bg-gray-800 text-white rounded-md text-sm hover:bg-gray-900"
+            >
+              Close Drawer
+            </button>
+          </div>
+        </div>
+      )}
+
+      {drawer && eventForm && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">{EVENT_LABELS[eventForm.eventType]}</p>
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            placeholder="Amount"
+            value={eventForm.amount}
+            onChange={(e) => setEventForm({ ...eventForm, amount: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+          {eventForm.eventType !== 'DROP' && (
+            <input
+              type="text"
+              placeholder="Reason"
+              value={eventForm.reason}
+              onChange={(e) => setEventForm({ ...eventForm, reason: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          )}
+          {eventForm.eventType === 'PAID_OUT' && (
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                type="text"
+                placeholder="Manager username"
+                value={eventForm.username}
+                onChange={(e) => setEventForm({ ...eventForm, username: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-md"
+              />
+              <input
+                type="password"
+                placeholder="Manager password"
+                value={eventForm.password}
+                onChange={(e) => setEventForm({ ...eventForm, password: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={() => setEventForm(null)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleEvent}
+              disabled={recordEvent.isPending}
+              className="flex-1 px-3 py-2 bg-blue-600 text-white rounded-md text-sm disabled:bg-gray-400"
+            >
+              Record
+            </button>
+          </div>
+        </div>
+      )}
+
+      {drawer && isClosing && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">Count the drawer and enter how many of each you have.</p>
+          <div className="grid grid-cols-3 gap-2">
+            {CASH_DENOMINATIONS.map(denomination => (
+              <label key={denomination} className="text-xs text-gray-600">
+                ${denomination}
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={counts[denomination] || ''}
+                  onChange={(e) => setCounts({ ...counts, [denomination]: e.target.value })}
+                  className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                />
+              </label>
+            ))}
+          </div>
+          <p className="text-sm font-medium">Counted: {formatMoney(countDenominations(denominations))}</p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setIsClosing(false)}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleClose}
+              disabled={closeDrawer.isPending}
+              className="flex-1 px-3 py-2 bg-gray-800 text-white rounded-md text-sm disabled:bg-gray-400"
+            >
+              Close Drawer
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1 @@
+export { CashDrawerPanel } from './CashDrawerPanel'
\ No newline at end of file
@@ -0,0 +1,65 @@
+import type { ComplianceRulePreview } from '../../types/compliance'
+
+interface CompliancePreviewPanelProps {
+  preview: ComplianceRulePreview
+  onClose: () => void
+}
+
+export function CompliancePreviewPanel({ preview, onClose }: CompliancePreviewPanelProps) {
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Rule Impact Preview</h2>
+          <p className="text-sm text-gray-600">
+            {preview.productsInScope} of {preview.productsEvaluated} active products are in scope
+            as of {new Date(preview.evaluatedAt).toLocaleString()}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+          ✕
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h3 className="text-sm font-medium text-red-700 mb-2">
+            Would be blocked ({preview.blocked.length})
+          </h3>
+          {preview.blocked.length === 0 ? (
+            <p className="text-sm text-gray-500">No products would be blocked</p>
+          ) : (
+            <ul className="space-y-2 max-h-64 overflow-y-auto">
+              {preview.blocked.map(item => (
+                <li key={item.productId} className="text-sm border border-red-200 bg-red-50 rounded p-2">
+                  <div className="font-medium">{item.productName} <span className="text-gray-500">({item.sku})</span></div>
+                  <div className="text-xs text-gray-600">{item.flags.map(flag => flag.message).join('; ')}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div>
+          <h3 className="text-sm font-medium text-yellow-700 mb-2">
+            Would warn ({preview.warned.length})
+          </h3>
+          {preview.warned.length === 0 ? (
+            <p className="text-sm text-gray-500">No warnings</p>
+          ) : (
+            <ul className="space-y-2 max-h-64 overflow-y-auto">
+              {preview.warned.map(item => (
+                <li key={item.productId} className="text-sm border border-yellow-200 bg-yellow-50 rounded p-2">
+                  <div className="font-medium">{item.productName} <span className="text-gray-500">({item.sku})</span></div>
+                  <div className="text-xs text-gray-600">{item.flags.map(flag => flag.message).join('; ')}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mt-4">
+        Each product is checked as a single-unit sale; daily limits based on a customer's earlier purchases are not shown.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,263 @@
+import { useState } from 'react'
+import type { RuleType, JurisdictionType, EnforcementPriority, ComplianceRuleDetails } from '../../types/database'
+import type { CreateComplianceRuleData, ComplianceRuleResponse } from '../../types/compliance'
+
+interface ComplianceRuleFormProps {
+  rule?: ComplianceRuleResponse
+  onSubmit: (data: CreateComplianceRuleData) => void
+  onPreview?: (data: CreateComplianceRuleData) => void
+  onCancel: () => void
+  isLoading?: boolean
+  serverErrors?: string[]
+}
+
+// Starting point for the details editor when a rule type is picked
+const DETAIL_TEMPLATES: Record<RuleType, ComplianceRuleDetails> = {
+  AGE_VERIFICATION: { minAge: 21, requireIdUnder: 30, acceptableIds: ['DRIVER_LICENSE', 'STATE_ID', 'PASSPORT'], outOfStateIds: 'ACCEPT' },
+  FLAVOR_BAN: { bannedFlavors: ['Fruit', 'Candy', 'Dessert'], exceptions: ['Tobacco', 'Menthol'], effectiveProducts: [] },
+  TAX_RATE: { taxType: 'PERCENTAGE', rate: 0.1, basis: 'RETAIL' },
+  PRODUCT_RESTRICTION: { restrictedHours: [{ start: '22:00', end: '06:00' }] },
+  QUANTITY_LIMIT: { maxQuantityPerTransaction: 10 }
+}
+
+const RULE_TYPES: RuleType[] = ['AGE_VERIFICATION', 'FLAVOR_BAN', 'TAX_RATE', 'PRODUCT_RESTRICTION', 'QUANTITY_LIMIT']
+const JURISDICTION_TYPES: JurisdictionType[] = ['FEDERAL', 'STATE', 'COUNTY', 'CITY']
+const PRIORITIES: EnforcementPriority[] = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW']
+
+export function ComplianceRuleForm({
+  rule,
+  onSubmit,
+  onPreview,
+  onCancel,
+  isLoading,
+  serverErrors = []
+}: ComplianceRuleFormProps) {
+  const [ruleType, setRuleType] = useState<RuleType>(rule?.ruleType || 'FLAVOR_BAN')
+  const [jurisdictionType, setJurisdictionType] = useState<JurisdictionType>(rule?.jurisdictionType || 'STATE')
+  const [jurisdictionCode, setJurisdictionCode] = useState(rule?.jurisdictionCode || '')
+  const [effectiveDate, setEffectiveDate] = useState(
+    rule?.effectiveDate?.slice(0, 10) || new Date().toISOString().slice(0, 10)
+  )
+  const [endDate, setEndDate] = useState(rule?.endDate?.slice(0, 10) || '')
+  const [enforcementPriority, setEnforcementPriority] = useState<EnforcementPriority>(
+    rule?.enforcementPriority || 'HIGH'
+  )
+  const [ruleSource, setRuleSource] = useState(rule?.ruleSource || '')
+  const [referenceUrl, setReferenceUrl] = useState(rule?.referenceUrl || '')
+  const [detailsText, setDetailsText] = useState(
+    JSON.stringify(rule?.ruleDetails || DETAIL_TEMPLATES[ruleType], null, 2)
+  )
+  const [errors, setErrors] = useState<string[]>([])
+
+  const isInEffect = !!rule && rule.effectiveDate.slice(0, 10) <= new Date().toISOString().slice(0, 10)
+
+  const handleRuleTypeChange = (value: RuleType) => {
+    setRuleType(value)
+    setDetailsText(JSON.stringify(DETAIL_TEMPLATES[value], null, 2))
+  }
+
+  const buildData = (): CreateComplianceRuleData | null => {
+    let ruleDetails: ComplianceRuleDetails
+    try {
+      ruleDetails = JSON.parse(detailsText)
+    } catch {
+      setErrors(['Rule details must be valid JSON'])
+      return null
+    }
+
+    const validationErrors: string[] = []
+    if (!jurisdictionCode.trim()) validationErrors.push('Jurisdiction code is required')
+    if (!effectiveDate) validationErrors.push('Effective date is required')
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors)
+      return null
+    }
+
+    setErrors([])
+    return {
+      ruleType,
+      jurisdictionType,
+      jurisdictionCode: jurisdictionCode.trim().toUpperCase(),
+      ruleDetails,
+      effectiveDate,
+      endDate: endDate || null,
+      enforcementPriority,
+      ruleSource: ruleSource || undefined,
+      referenceUrl: referenceUrl || undefined
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const data = buildData()
+    if (data) onSubmit(data)
+  }
+
+  const handlePreview = () => {
+    const data = buildData()
+    if (data) onPreview?.(data)
+  }
+
+  const allErrors = [...errors, ...serverErrors]
+
+  return (
+    <div className="max-w-3xl mx-auto p-6 bg-white rounded-lg shadow">
+      <h2 className="text-2xl font-bold mb-2">
+        {rule ? 'Edit Compliance Rule' : 'Add Compliance Rule'}
+      </h2>
+      {isInEffect && (
+        <p className="mb-6 text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded p-3">
+          This rule is already in effect. Saving will end the current version and create a new
+          version from the effective date below, so past sales keep the rule that applied to them.
+        </p>
+      )}
+
+      {allErrors.length > 0 && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded">
+          <ul className="list-disc list-inside text-sm text-red-700">
+            {allErrors.map((error, index) => (
+              <li key={index}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Rule Type</label>
+            <select
+              value={ruleType}
+              onChange={(e) => handleRuleTypeChange(e.target.value as RuleType)}
+              disabled={!!rule}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+            >
+              {RULE_TYPES.map(type => (
+                <option key={type} value={type}>{type.replace(/_/g, ' ')}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Jurisdiction</label>
+            <select
+              value={jurisdictionType}
+              onChange={(e) => setJurisdictionType(e.target.value as JurisdictionType)}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {JURISDICTION_TYPES.map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Jurisdiction Code</label>
+            <input
+              type="text"
+              value={jurisdictionCode}
+              onChange={(e) => setJurisdictionCode(e.target.value)}
+              placeholder={jurisdictionType === 'COUNTY' || jurisdictionType === 'CITY' ? 'CA-SAN FRANCISCO' : 'CA'}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Effective Date</label>
+            <input
+              type="date"
+              value={effectiveDate}
+              onChange={(e) => setEffectiveDate(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">End Date (optional)</label>
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Enforcement</label>
+            <select
+              value={enforcementPriority}
+              onChange={(e) => setEnforcementPriority(e.target.value as EnforcementPriority)}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {PRIORITIES.map(priority => (
+                <option key={priority} value={priority}>
+                  {priority} {priority === 'CRITICAL' || priority === 'HIGH' ? '(blocks sale)' : '(warning only)'}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Source</label>
+            <input
+              type="text"
+              value={ruleSource}
+              onChange={(e) => setRuleSource(e.target.value)}
+              placeholder="e.g. California Department of Public Health"
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reference URL</label>
+            <input
+              type="url"
+              value={referenceUrl}
+              onChange={(e) => setReferenceUrl(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Rule Details (JSON)</label>
+          <textarea
+            value={detailsText}
+            onChange={(e) => setDetailsText(e.target.value)}
+            rows={10}
+            className="w-full px-3 py-2 border border-gray-300 rounded font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Use effectiveProducts to limit the rule to product categories (e.g. "pods", "disposable_vapes").
+          </p>
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-4">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          {onPreview && (
+            <button
+              type="button"
+              onClick={handlePreview}
+              disabled={isLoading}
+              className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700 disabled:bg-gray-400"
+            >
+              Preview Impact
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {isLoading ? 'Saving...' : rule ? 'Save Rule' : 'Create Rule'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
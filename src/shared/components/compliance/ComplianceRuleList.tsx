@@ -0,0 +1,121 @@
+import { complianceService } from '../../services/compliance'
+import type { ComplianceRuleResponse } from '../../types/compliance'
+
+interface ComplianceRuleListProps {
+  rules: ComplianceRuleResponse[]
+  onEditRule?: (rule: ComplianceRuleResponse) => void
+  onRetireRule?: (rule: ComplianceRuleResponse) => void
+  onPreviewRule?: (rule: ComplianceRuleResponse) => void
+  className?: string
+}
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'active': return 'text-green-700 bg-green-100'
+    case 'scheduled': return 'text-blue-700 bg-blue-100'
+    case 'expired': return 'text-gray-600 bg-gray-100'
+    case 'retired': return 'text-red-700 bg-red-100'
+    default: return 'text-gray-600 bg-gray-100'
+  }
+}
+
+const getPriorityColor = (priority: string) => {
+  switch (priority) {
+    case 'CRITICAL': return 'text-red-700'
+    case 'HIGH': return 'text-orange-600'
+    case 'MEDIUM': return 'text-yellow-600'
+    default: return 'text-gray-500'
+  }
+}
+
+export function ComplianceRuleList({
+  rules,
+  onEditRule,
+  onRetireRule,
+  onPreviewRule,
+  className = ''
+}: ComplianceRuleListProps) {
+  if (rules.length === 0) {
+    return (
+      <div className={`text-center py-8 text-gray-500 ${className}`}>
+        <p>No compliance rules found</p>
+        <p className="text-sm">Try adjusting your filters</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className={`overflow-x-auto ${className}`}>
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Rule</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Jurisdiction</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Details</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Effective</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {rules.map((rule) => {
+            const status = complianceService.getRuleStatus(rule)
+            const canChange = status !== 'retired' && status !== 'expired'
+
+            return (
+              <tr key={rule.id}>
+                <td className="px-4 py-3">
+                  <div className="font-medium text-gray-900">{rule.ruleType.replace(/_/g, ' ')}</div>
+                  <div className={`text-xs font-medium ${getPriorityColor(rule.enforcementPriority)}`}>
+                    {rule.enforcementPriority}
+                  </div>
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-700">
+                  <div>{rule.jurisdictionCode}</div>
+                  <div className="text-xs text-gray-500">{rule.jurisdictionType}</div>
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-700 max-w-xs">
+                  {complianceService.describeRule(rule)}
+                  {rule.ruleSource && (
+                    <div className="text-xs text-gray-500">Source: {rule.ruleSource}</div>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-700">
+                  <div>{rule.effectiveDate.slice(0, 10)}</div>
+                  {rule.endDate && (
+                    <div className="text-xs text-gray-500">until {rule.endDate.slice(0, 10)}</div>
+                  )}
+                  {rule.previousVersionId && (
+                    <div className="text-xs text-gray-500">revised version</div>
+                  )}
+                </td>
+                <td className="px-4 py-3">
+                  <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(status)}`}>
+                    {status}
+                  </span>
+                </td>
+                <td className="px-4 py-3 text-right text-sm space-x-3 whitespace-nowrap">
+                  {onPreviewRule && (
+                    <button onClick={() => onPreviewRule(rule)} className="text-gray-600 hover:text-gray-900">
+                      Preview
+                    </button>
+                  )}
+                  {onEditRule && canChange && (
+                    <button onClick={() => onEditRule(rule)} className="text-blue-600 hover:text-blue-900">
+                      Edit
+                    </button>
+                  )}
+                  {onRetireRule && canChange && (
+                    <button onClick={() => onRetireRule(rule)} className="text-red-600 hover:text-red-900">
+                      Retire
+                    </button>
+                  )}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
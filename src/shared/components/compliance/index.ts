@@ -0,0 +1,3 @@
+export { ComplianceRuleForm } from './ComplianceRuleForm'
+export { ComplianceRuleList } from './ComplianceRuleList'
+export { CompliancePreviewPanel } from './CompliancePreviewPanel'
@@ -0,0 +1,375 @@
+import { useState } from 'react'
+import { OfferProductPicker } from './OfferProductPicker'
+import { OfferUsageBar } from './OfferUsageBar'
+import type { OfferType, TargetAudience, LoyaltyTier, CustomerSegments } from '../../types/database'
+import type { CreateOfferData, OfferResponse, OfferProductRef } from '../../types/offers'
+
+interface OfferFormProps {
+  offer?: OfferResponse
+  products?: OfferProductRef[]
+  onSubmit: (data: CreateOfferData) => void
+  onCancel: () => void
+  isLoading?: boolean
+  serverErrors?: string[]
+}
+
+// Free shipping has no meaning at the register, so it is not offered here
+const OFFER_TYPES: { value: OfferType; label: string; valueLabel: string }[] = [
+  { value: 'PERCENTAGE', label: 'Percentage off', valueLabel: 'Percent off' },
+  { value: 'FIXED_AMOUNT', label: 'Fixed amount off', valueLabel: 'Dollars off' },
+  { value: 'BOGO', label: 'Buy one, get one', valueLabel: 'Percent off every second unit' },
+  { value: 'POINTS_MULTIPLIER', label: 'Loyalty points multiplier', valueLabel: 'Points multiplier' }
+]
+
+const AUDIENCES: { value: TargetAudience; label: string }[] = [
+  { value: 'ALL', label: 'Everyone' },
+  { value: 'LOYALTY_MEMBERS', label: 'Loyalty members' },
+  { value: 'NEW_CUSTOMERS', label: 'New customers (first purchase)' },
+  { value: 'VIP', label: 'VIP (Gold and Platinum)' },
+  { value: 'EXPIRING_PRODUCT_BUYERS', label: 'Products expiring within 30 days' }
+]
+
+const LOYALTY_TIERS: LoyaltyTier[] = ['BRONZE', 'SILVER', 'GOLD', 'PLATINUM']
+
+// <input type="datetime-local"> works in local time without a zone
+const toLocalInput = (iso?: string): string => {
+  if (!iso) return ''
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+const toOptionalNumber = (value: string): number | undefined =>
+  value.trim() === '' ? undefined : Number(value)
+
+export function OfferForm({
+  offer,
+  products = [],
+  onSubmit,
+  onCancel,
+  isLoading,
+  serverErrors = []
+}: OfferFormProps) {
+  const segments = offer?.customerSegments || {}
+  const [name, setName] = useState(offer?.name || '')
+  const [description, setDescription] = useState(offer?.description || '')
+  const [offerType, setOfferType] = useState<OfferType>(offer?.offerType || 'PERCENTAGE')
+  const [discountValue, setDiscountValue] = useState(offer ? String(offer.discountValue) : '')
+  const [minPurchaseAmount, setMinPurchaseAmount] = useState(
+    offer?.minPurchaseAmount ? String(offer.minPurchaseAmount) : ''
+  )
+  const [maxDiscountAmount, setMaxDiscountAmount] = useState(
+    offer?.maxDiscountAmount ? String(offer.maxDiscountAmount) : ''
+  )
+  const [targetAudience, setTargetAudience] = useState<TargetAudience>(offer?.targetAudience || 'ALL')
+  const [tiers, setTiers] = useState<LoyaltyTier[]>(segments.tiers || [])
+  const [minSpent, setMinSpent] = useState(segments.minSpent !== undefined ? String(segments.minSpent) : '')
+  const [maxSpent, setMaxSpent] = useState(segments.maxSpent !== undefined ? String(segments.maxSpent) : '')
+  const [minAge, setMinAge] = useState(segments.ageRange ? String(segments.ageRange.min) : '')
+  const [maxAge, setMaxAge] = useState(segments.ageRange ? String(segments.ageRange.max) : '')
+  const [lastPurchaseDays, setLastPurchaseDays] = useState(
+    segments.lastPurchaseDays !== undefined ? String(segments.lastPurchaseDays) : ''
+  )
+  const [applicableProducts, setApplicableProducts] = useState<string[]>(offer?.applicableProducts || [])
+  const [excludedProducts, setExcludedProducts] = useState<string[]>(offer?.excludedProducts || [])
+  const [startDate, setStartDate] = useState(toLocalInput(offer?.startDate))
+  const [endDate, setEndDate] = useState(toLocalInput(offer?.endDate))
+  const [maxUsesTotal, setMaxUsesTotal] = useState(offer?.maxUsesTotal ? String(offer.maxUsesTotal) : '')
+  const [maxUsesPerCustomer, setMaxUsesPerCustomer] = useState(String(offer?.maxUsesPerCustomer ?? 1))
+  const [isActive, setIsActive] = useState(offer?.isActive ?? true)
+  const [errors, setErrors] = useState<string[]>([])
+
+  const valueLabel = OFFER_TYPES.find(type => type.value === offerType)?.valueLabel || 'Value'
+
+  const toggleTier = (tier: LoyaltyTier) => {
+    setTiers(prev => (prev.includes(tier) ? prev.filter(t => t !== tier) : [...prev, tier]))
+  }
+
+  const buildSegments = (): CustomerSegments | null => {
+    const result: CustomerSegments = {}
+    if (tiers.length > 0) result.tiers = tiers
+    if (minSpent.trim()) result.minSpent = Number(minSpent)
+    if (maxSpent.trim()) result.maxSpent = Number(maxSpent)
+    if (minAge.trim() || maxAge.trim()) {
+      result.ageRange = { min: Number(minAge || 0), max: Number(maxAge || 150) }
+    }
+    if (lastPurchaseDays.trim()) result.lastPurchaseDays = Number(lastPurchaseDays)
+    // Keep segment keys the form does not edit
+    if (segments.favoriteCategories) result.favoriteCategories = segments.favoriteCategories
+    return Object.keys(result).length > 0 ? result : null
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const validationErrors: string[] = []
+    if (!name.trim()) validationErrors.push('Name is required')
+    if (!discountValue.trim() || isNaN(Number(discountValue))) validationErrors.push(`${valueLabel} is required`)
+    if (!startDate) validationErrors.push('Start date is required')
+    if (!endDate) validationErrors.push('End date is required')
+    if (startDate && endDate && endDate <= startDate) validationErrors.push('End date must be after start date')
+    if (validationErrors.length > 0) {
+      setErrors(validationErrors)
+      return
+    }
+
+    setErrors([])
+    onSubmit({
+      name: name.trim(),
+      description: description.trim() || null,
+      offerType,
+      discountValue: Number(discountValue),
+      minPurchaseAmount: toOptionalNumber(minPurchaseAmount) ?? 0,
+      maxDiscountAmount: toOptionalNumber(maxDiscountAmount) ?? null,
+      targetAudience,
+      customerSegments: buildSegments(),
+      applicableProducts,
+      excludedProducts,
+      maxUsesTotal: toOptionalNumber(maxUsesTotal) ?? null,
+      maxUsesPerCustomer: toOptionalNumber(maxUsesPerCustomer) ?? 1,
+      startDate: new Date(startDate).toISOString(),
+      endDate: new Date(endDate).toISOString(),
+      isActive
+    })
+  }
+
+  const allErrors = [...errors, ...serverErrors]
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    <div className="max-w-3xl mx-auto p-6 bg-white rounded-lg shadow">
+      <h2 className="text-2xl font-bold mb-6">{offer ? 'Edit Offer' : 'Add Offer'}</h2>
+
+      {allErrors.length > 0 && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded">
+          <ul className="list-disc list-inside text-sm text-red-700">
+            {allErrors.map((error, index) => (
+              <li key={index}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {/* Offer */}
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description (optional)</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Offer Type</label>
+              <select
+                value={offerType}
+                onChange={(e) => setOfferType(e.target.value as OfferType)}
+                className={inputClass}
+              >
+                {OFFER_TYPES.map(type => (
+                  <option key={type.value} value={type.value}>{type.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{valueLabel}</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={discountValue}
+                onChange={(e) => setDiscountValue(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Minimum Purchase (optional)</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={minPurchaseAmount}
+                onChange={(e) => setMinPurchaseAmount(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            {offerType !== 'POINTS_MULTIPLIER' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Maximum Discount (optional)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={maxDiscountAmount}
+                  onChange={(e) => setMaxDiscountAmount(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Products */}
+        <div className="space-y-4 border-t pt-4">
+          <h3 className="text-lg font-semibold text-gray-900">Products</h3>
+          <OfferProductPicker
+            label="Applies To"
+            hint="Leave empty to apply to every product"
+            value={applicableProducts}
+            onChange={setApplicableProducts}
+            knownProducts={products}
+          />
+          <OfferProductPicker
+            label="Excluded"
+            value={excludedProducts}
+            onChange={setExcludedProducts}
+            knownProducts={products}
+          />
+        </div>
+
+        {/* Audience */}
+        <div className="space-y-4 border-t pt-4">
+          <h3 className="text-lg font-semibold text-gray-900">Audience</h3>
+          <select
+            value={targetAudience}
+            onChange={(e) => setTargetAudience(e.target.value as TargetAudience)}
+            className={inputClass}
+          >
+            {AUDIENCES.map(audience => (
+              <option key={audience.value} value={audience.value}>{audience.label}</option>
+            ))}
+          </select>
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">Loyalty Tiers (optional)</span>
+            <div className="flex flex-wrap gap-4">
+              {LOYALTY_TIERS.map(tier => (
+                <label key={tier} className="inline-flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={tiers.includes(tier)}
+                    onChange={() => toggleTier(tier)}
+                    className="mr-2"
+                  />
+                  {tier}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Min Spent</label>
+              <input type="number" min="0" value={minSpent} onChange={(e) => setMinSpent(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Max Spent</label>
+              <input type="number" min="0" value={maxSpent} onChange={(e) => setMaxSpent(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Min Age</label>
+              <input type="number" min="0" value={minAge} onChange={(e) => setMinAge(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Max Age</label>
+              <input type="number" min="0" value={maxAge} onChange={(e) => setMaxAge(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Bought Within (days)</label>
+              <input
+                type="number"
+                min="1"
+                value={lastPurchaseDays}
+                onChange={(e) => setLastPurchaseDays(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Schedule and limits */}
+        <div className="space-y-4 border-t pt-4">
+          <h3 className="text-lg font-semibold text-gray-900">Schedule and Limits</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+              <input
+                type="datetime-local"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Ends</label>
+              <input
+                type="datetime-local"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Total Uses (optional)</label>
+              <input
+                type="number"
+                min="1"
+                value={maxUsesTotal}
+                onChange={(e) => setMaxUsesTotal(e.target.value)}
+                placeholder="Unlimited"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Uses per Customer</label>
+              <input
+                type="number"
+                min="1"
+                value={maxUsesPerCustomer}
+                onChange={(e) => setMaxUsesPerCustomer(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          {offer && <OfferUsageBar currentUses={offer.currentUses} maxUsesTotal={offer.maxUsesTotal} />}
+          <label className="inline-flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={isActive}
+              onChange={(e) => setIsActive(e.target.checked)}
+              className="mr-2"
+            />
+            Active
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-3 pt-4 border-t">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 border border-gray-300 rounded text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {isLoading ? 'Saving...' : offer ? 'Save Offer' : 'Create Offer'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+import { offersService } from '../../services/offers'
+import { OfferUsageBar } from './OfferUsageBar'
+import type { OfferResponse } from '../../types/offers'
+
+interface OfferListProps {
+  offers: OfferResponse[]
+  onEditOffer?: (offer: OfferResponse) => void
+  onDeleteOffer?: (offer: OfferResponse) => void
+  onViewRedemptions?: (offer: OfferResponse) => void
+  className?: string
+}
+
+const getStatusColor = (status: string) => {
+  switch (status) {
+    case 'active': return 'text-green-700 bg-green-100'
+    case 'scheduled': return 'text-blue-700 bg-blue-100'
+    case 'expired': return 'text-gray-600 bg-gray-100'
+    case 'inactive': return 'text-red-700 bg-red-100'
+    default: return 'text-gray-600 bg-gray-100'
+  }
+}
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })
+
+export function OfferList({
+  offers,
+  onEditOffer,
+  onDeleteOffer,
+  onViewRedemptions,
+  className = ''
+}: OfferListProps) {
+  if (offers.length === 0) {
+    return (
+      <div className={`text-center py-8 text-gray-500 ${className}`}>
+        <p>No offers found</p>
+        <p className="text-sm">Try adjusting your filters</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className={`overflow-x-auto ${className}`}>
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Offer</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Audience</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Schedule</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Usage</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {offers.map((offer) => {
+            const status = offersService.getOfferStatus(offer)
+
+            return (
+              <tr key={offer.id}>
+                <td className="px-4 py-3 max-w-xs">
+                  <div className="font-medium text-gray-900">{offer.name}</div>
+                  <div className="text-sm text-gray-600">{offersService.describeOffer(offer)}</div>
+                  {offer.applicableProducts && (
+                    <div className="text-xs text-gray-500">
+                      Selected products only ({offer.applicableProducts.length})
+                    </div>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-700">
+                  {offer.targetAudience.replace(/_/g, ' ').toLowerCase()}
+                  {offer.customerSegments?.tiers?.length ? (
+                    <div className="text-xs text-gray-500">{offer.customerSegments.tiers.join(', ')}</div>
+                  ) : null}
+                </td>
+                <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+                  <div>{formatDateTime(offer.startDate)}</div>
+                  <div className="text-xs text-gray-500">until {formatDateTime(offer.endDate)}</div>
+                </td>
+                <td className="px-4 py-3">
+                  <OfferUsageBar currentUses={offer.currentUses} maxUsesTotal={offer.maxUsesTotal} />
+                </td>
+                <td className="px-4 py-3">
+                  <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(status)}`}>
+                    {status}
+                  </span>
+                </td>
+                <td className="px-4 py-3 text-right text-sm space-x-3 whitespace-nowrap">
+                  {onViewRedemptions && (
+                    <button onClick={() => onViewRedemptions(offer)} className="text-gray-600 hover:text-gray-900">
+                      Redemptions
+                    </button>
+                  )}
+                  {onEditOffer && (
+                    <button onClick={() => onEditOffer(offer)} className="text-blue-600 hover:text-blue-900">
+                      Edit
+                    </button>
+                  )}
+                  {onDeleteOffer && (
+                    <button onClick={() => onDeleteOffer(offer)} className="text-red-600 hover:text-red-900">
+                      Delete
+                    </button>
+                  )}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { ProductService } from '../../services/products'
+import { useProductCategories } from '../../hooks/useProducts'
+import type { OfferProductRef } from '../../types/offers'
+
+interface OfferProductPickerProps {
+  label: string
+  hint?: string
+  value: string[]
+  onChange: (value: string[]) => void
+  // Products already referenced by the offer, so their ids show as names
+  knownProducts?: OfferProductRef[]
+}
+
+// Picks products (stored by id) and categories for an offer's product lists
+export function OfferProductPicker({
+  label,
+  hint,
+  value,
+  onChange,
+  knownProducts = []
+}: OfferProductPickerProps) {
+  const [search, setSearch] = useState('')
+  const [labels, setLabels] = useState<Record<string, string>>(() =>
+    Object.fromEntries(knownProducts.map(product => [product.id, `${product.name} (${product.sku})`]))
+  )
+  const { data: categories = [] } = useProductCategories()
+
+  const term = search.trim()
+  const { data: results, isLoading } = useQuery({
+    queryKey: ['offers', 'productPicker', term],
+    queryFn: () => ProductService.getProducts({ search: term }, 1, 10),
+    enabled: term.length >= 2
+  })
+
+  const add = (entry: string) => {
+    if (!value.some(existing => existing.toLowerCase() === entry.toLowerCase())) {
+      onChange([...value, entry])
+    }
+  }
+
+  const remove = (entry: string) => {
+    onChange(value.filter(existing => existing !== entry))
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      {hint && <p className="text-xs text-gray-500 mb-2">{hint}</p>}
+
+      <div className="flex flex-wrap gap-2 mb-2">
+        {value.length === 0 && <span className="text-sm text-gray-500">None</span>}
+        {value.map(entry => (
+          <span
+            key={entry}
+            className="inline-flex items-center px-2 py-1 text-xs rounded bg-blue-100 text-blue-800"
+          >
+            {labels[entry] || entry}
+            <button
+              type="button"
+              onClick={() => remove(entry)}
+              className="ml-1 text-blue-600 hover:text-blue-900"
+              aria-label={`Remove ${labels[entry] || entry}`}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        <div className="relative">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search products by name, SKU or barcode"
+            className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {term.length >= 2 && (
+            <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded shadow max-h-60 overflow-y-auto">
+              {isLoading && <p className="px-3 py-2 text-sm text-gray-500">Searching...</p>}
+              {results?.products.length === 0 && (
+                <p className="px-3 py-2 text-sm text-gray-500">No products found</p>
+              )}
+              {results?.products.map(product => (
+                <button
+                  key={product.id}
+                  type="button"
+                  onClick={() => {
+                    setLabels(prev => ({ ...prev, [product.id]: `${product.name} (${product.sku})` }))
+                    add(product.id)
+                    setSearch('')
+                  }}
+                  className="block w-full text-left px-3 py-2 text-sm hover:bg-gray-100"
+                >
+                  {product.name} <span className="text-gray-500">{product.sku}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <select
+          value=""
+          onChange={(e) => e.target.value && add(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Add a whole category...</option>
+          {categories.map(category => (
+            <option key={category} value={category}>{category}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+import { OfferUsageBar } from './OfferUsageBar'
+import type { OfferRedemptionReport as OfferRedemptionReportData } from '../../types/offers'
+
+interface OfferRedemptionReportProps {
+  report: OfferRedemptionReportData
+  className?: string
+}
+
+const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`
+
+export function OfferRedemptionReport({ report, className = '' }: OfferRedemptionReportProps) {
+  if (report.offers.length === 0) {
+    return (
+      <div className={`text-center py-8 text-gray-500 ${className}`}>
+        <p>No offer redemptions for this period</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className={`overflow-x-auto ${className}`}>
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Offer</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Transactions</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Discount</th>
+            <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Bonus Points</th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Usage</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {report.offers.map((row) => (
+            <tr key={row.offerId}>
+              <td className="px-4 py-3">
+                <div className="font-medium text-gray-900">{row.name}</div>
+                <div className="text-xs text-gray-500">{row.offerType.replace(/_/g, ' ').toLowerCase()}</div>
+              </td>
+              <td className="px-4 py-3 text-right text-sm text-gray-700">{row.transactionCount}</td>
+              <td className="px-4 py-3 text-right text-sm text-gray-700">{formatCurrency(row.discountAmount)}</td>
+              <td className="px-4 py-3 text-right text-sm text-gray-700">{row.bonusPoints}</td>
+              <td className="px-4 py-3">
+                <OfferUsageBar currentUses={row.currentUses} maxUsesTotal={row.maxUsesTotal} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot className="bg-gray-50">
+          <tr>
+            <td className="px-4 py-3 text-sm font-semibold text-gray-900">Total</td>
+            <td className="px-4 py-3 text-right text-sm font-semibold text-gray-900">{report.totals.transactionCount}</td>
+            <td className="px-4 py-3 text-right text-sm font-semibold text-gray-900">
+              {formatCurrency(report.totals.discountAmount)}
+            </td>
+            <td className="px-4 py-3 text-right text-sm font-semibold text-gray-900">{report.totals.bonusPoints}</td>
+            <td />
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  )
+}
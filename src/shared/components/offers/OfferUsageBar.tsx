@@ -0,0 +1,26 @@
+interface OfferUsageBarProps {
+  currentUses: number
+  maxUsesTotal: number | null
+}
+
+// Uses so far against the offer's total use limit
+export function OfferUsageBar({ currentUses, maxUsesTotal }: OfferUsageBarProps) {
+  if (!maxUsesTotal) {
+    return <div className="text-sm text-gray-700">{currentUses} uses (no limit)</div>
+  }
+
+  const percent = Math.min(100, Math.round((currentUses / maxUsesTotal) * 100))
+  const color = percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-amber-500' : 'bg-green-500'
+
+  return (
+    <div className="min-w-[8rem]">
+      <div className="text-sm text-gray-700">
+        {currentUses} / {maxUsesTotal} uses
+      </div>
+      <div className="w-full h-2 bg-gray-200 rounded mt-1">
+        <div className={`h-2 rounded ${color}`} style={{ width: `${percent}%` }} />
+      </div>
+      {percent >= 100 && <div className="text-xs text-red-700 mt-1">Use limit reached</div>}
+    </div>
+  )
+}
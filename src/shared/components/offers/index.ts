@@ -0,0 +1,5 @@
+export { OfferForm } from './OfferForm'
+export { OfferList } from './OfferList'
+export { OfferProductPicker } from './OfferProductPicker'
+export { OfferRedemptionReport } from './OfferRedemptionReport'
+export { OfferUsageBar } from './OfferUsageBar'
@@ -30,6 +30,7 @@ export function PaymentModal({ totalAmount, onComplete, onCancel, isOpen }: Paym
 
   // Gift card state
   const [giftCardNumber, setGiftCardNumber] = useState('')
+  const [giftCardPin, setGiftCardPin] = useState('')
 
   // Split payment state
   const [splitPayments, setSplitPayments] = useState<SplitPaymentData['payments']>([
@@ -68,7 +69,7 @@ export function PaymentModal({ totalAmount, onComplete, onCancel, isOpen }: Paym
           break
 
         case 'GIFT_CARD':
-          result = await paymentService.processGiftCardPayment(giftCardNumber, totalAmount)
+          result = await paymentService.processGiftCardPayment(giftCardNumber, giftCardPin, totalAmount)
           break
 
         default:
@@ -142,7 +143,7 @@ export function PaymentModal({ totalAmount, onComplete, onCancel, isOpen }: Paym
       } else if (selectedMethod === 'CARD') {
         return cardData.cardNumber && cardData.cvv && cardData.cardholderName
       } else if (selectedMethod === 'GIFT_CARD') {
-        return giftCardNumber.length >= 10
+        return giftCardNumber.length >= 10 && giftCardPin.length >= 4
       }
     } else {
       return Math.abs(getSplitTotal() - totalAmount) < 0.01
@@ -314,6 +315,15 @@ export function PaymentModal({ totalAmount, onComplete, onCancel, isOpen }: Paym
                   className="w-full px-3 py-2 border border-gray-300 rounded"
                   placeholder="Enter gift card number"
                 />
+                <label className="block text-sm font-medium mb-2 mt-3">PIN:</label>
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  value={giftCardPin}
+                  onChange={(e) => setGiftCardPin(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded"
+                  maxLength={8}
+                />
               </div>
             )}
           </div>
@@ -0,0 +1,335 @@
+import { useState } from 'react'
+import { useAuth, usePermissions } from '../../hooks/useAuth'
+import {
+  useInventoryMovements,
+  useProduct,
+  useRecordInventoryMovement,
+  useUpdateStock
+} from '../../hooks/useProducts'
+import { useCreateStockTransfer, useTransferStores } from '../../hooks/useStockTransfers'
+import type { InventoryMovementType, InventoryReasonCode, Product } from '../../types/database'
+import { getErrorMessage } from '../../utils/errors'
+
+interface InventoryMovementHistoryProps {
+  product: Product
+  onClose?: () => void
+  className?: string
+}
+
+type StockAction = 'COUNT' | 'RECEIVE' | 'ADJUST' | 'TRANSFER'
+
+const MOVEMENT_LABELS: Record<InventoryMovementType, string> = {
+  SALE: 'Sale',
+  RETURN: 'Return',
+  RECEIVE: 'Received',
+  ADJUSTMENT: 'Adjustment',
+  TRANSFER: 'Transfer',
+  VOID: 'Void'
+}
+
+const REASON_LABELS: Record<InventoryReasonCode, string> = {
+  SOLD: 'Sold',
+  RESTOCKED: 'Restocked',
+  VOIDED: 'Sale voided',
+  RECEIVED: 'Received',
+  DAMAGE: 'Damaged',
+  THEFT: 'Theft',
+  EXPIRED: 'Expired',
+  COUNT: 'Stock count',
+  OPENING_BALANCE: 'Opening balance',
+  TRANSFERRED: 'Transferred'
+}
+
+// Losses a manager can write stock off for
+const LOSS_REASONS: InventoryReasonCode[] = ['DAMAGE', 'THEFT', 'EXPIRED']
+
+// A product's stock movements at the user's store, with counts, receipts, write-offs and transfer requests recorded against them
+export function InventoryMovementHistory({
+  product,
+  onClose,
+  className = ''
+}: InventoryMovementHistoryProps) {
+  const { user } = useAuth()
+  const { hasPermission } = usePermissions()
+  // Quantities are the store's own, so read them fresh as stock moves
+  const { data: current } = useProduct(product.id)
+  const [movementType, setMovementType] = useState<InventoryMovementType | ''>('')
+  const { data, isLoading } = useInventoryMovements(product.id, {
+    movementType: movementType || undefined
+  })
+  const recordMovement = useRecordInventoryMovement()
+  const updateStock = useUpdateStock()
+  const createTransfer = useCreateStockTransfer()
+  const { data: stores = [] } = useTransferStores()
+
+  const [action, setAction] = useState<StockAction>('COUNT')
+  const [quantity, setQuantity] = useState('')
+  const [reasonCode, setReasonCode] = useState<InventoryReasonCode>('DAMAGE')
+  const [reference, setReference] = useState('')
+  const [notes, setNotes] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  // Transfers default to asking another store for stock to come to this one
+  const [fromStoreId, setFromStoreId] = useState('')
+  const [toStoreId, setToStoreId] = useState(user?.storeId || '')
+
+  const movements = data?.movements || []
+  const onHand = (current || product).quantity
+  // Admins without a store see every store's movements
+  const showStore = movements.some(movement => movement.storeId !== movements[0].storeId)
+  const isSaving = recordMovement.isPending || updateStock.isPending || createTransfer.isPending
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setMessage(null)
+
+    const amount = Number(quantity)
+    const details = { reference: reference || undefined, notes: notes || undefined }
+    try {
+      if (action === 'COUNT') {
+        await updateStock.mutateAsync({ id: product.id, quantity: amount, ...details })
+      } else if (action === 'RECEIVE') {
+        await recordMovement.mutateAsync({
+          id: product.id,
+          movementType: 'RECEIVE',
+          reasonCode: 'RECEIVED',
+          quantity: amount,
+          ...details
+        })
+      } else if (action === 'TRANSFER') {
+        // Stock only moves once the transfer is approved and shipped
+        const transfer = await createTransfer.mutateAsync({
+          fromStoreId,
+          toStoreId,
+          items: [{ productId: product.id, quantity: amount }],
+          notes: notes || undefined
+        })
+        setMessage(`Transfer ${transfer.reference} requested`)
+      } else {
+        // Write-offs are entered as the number lost
+        await recordMovement.mutateAsync({
+          id: product.id,
+          movementType: 'ADJUSTMENT',
+          reasonCode,
+          quantity: -amount,
+          ...details
+        })
+      }
+      setQuantity('')
+      setReference('')
+      setNotes('')
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to record stock change'))
+    }
+  }
+
+  return (
+    <div className={`bg-white shadow rounded-lg p-6 space-y-6 ${className}`}>
+      <div className="flex justify-between items-start">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">{product.name}</h2>
+          <p className="text-sm text-gray-500">
+            {product.sku} · {onHand} on hand
+          </p>
+        </div>
+        {onClose && (
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            Close
+          </button>
+        )}
+      </div>
+
+      {data?.discrepancy && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 rounded p-3 text-sm">
+          Recorded quantity {data.discrepancy.quantity}
+          {data.discrepancy.storeName ? ` at ${data.discrepancy.storeName}` : ''} does not match its
+          movements, which add up to {data.discrepancy.movementTotal}.
+        </div>
+      )}
+
+      {hasPermission('product:update') && (
+        <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3 text-sm">
+          <label className="text-gray-700">
+            Action
+            <select
+              value={action}
+              onChange={(e) => setAction(e.target.value as StockAction)}
+              className="block mt-1 px-3 py-2 border border-gray-300 rounded"
+            >
+              <option value="COUNT">Stock count</option>
+              <option value="RECEIVE">Receive stock</option>
+              <option value="ADJUST">Write off</option>
+              <option value="TRANSFER">Request transfer</option>
+            </select>
+          </label>
+          {action === 'TRANSFER' && (
+            <>
+              <label className="text-gray-700">
+                From
+                <select
+                  value={fromStoreId}
+                  onChange={(e) => setFromStoreId(e.target.value)}
+                  required
+                  className="block mt-1 px-3 py-2 border border-gray-300 rounded"
+                >
+                  <option value="">Select store</option>
+                  {stores.map(store => (
+                    <option key={store.id} value={store.id}>{store.storeName}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-gray-700">
+                To
+                <select
+                  value={toStoreId}
+                  onChange={(e) => setToStoreId(e.target.value)}
+                  required
+                  className="block mt-1 px-3 py-2 border border-gray-300 rounded"
+                >
+                  <option value="">Select store</option>
+                  {stores.map(store => (
+                    <option key={store.id} value={store.id}>{store.storeName}</option>
+                  ))}
+                </select>
+              </label>
+            </>
+          )}
+          <label className="text-gray-700">
+            {action === 'COUNT'
+              ? 'Counted'
+              : action === 'RECEIVE'
+                ? 'Received'
+                : action === 'TRANSFER'
+                  ? 'Quantity'
+                  : 'Lost'}
+            <input
+              type="number"
+              min={action === 'COUNT' ? 0 : 1}
+              step={1}
+              required
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              className="block mt-1 w-24 px-3 py-2 border border-gray-300 rounded"
+            />
+          </label>
+          {action === 'ADJUST' && (
+            <label className="text-gray-700">
+              Reason
+              <select
+                value={reasonCode}
+                onChange={(e) => setReasonCode(e.target.value as InventoryReasonCode)}
+                className="block mt-1 px-3 py-2 border border-gray-300 rounded"
+              >
+                {LOSS_REASONS.map(reason => (
+                  <option key={reason} value={reason}>{REASON_LABELS[reason]}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          {action !== 'TRANSFER' && (
+            <label className="text-gray-700">
+              {action === 'RECEIVE' ? 'PO / invoice' : 'Reference'}
+              <input
+                type="text"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                className="block mt-1 w-36 px-3 py-2 border border-gray-300 rounded"
+              />
+            </label>
+          )}
+          <label className="text-gray-700 flex-1 min-w-[10rem]">
+            Notes
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="block mt-1 w-full px-3 py-2 border border-gray-300 rounded"
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={isSaving || quantity === ''}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {isSaving ? 'Saving...' : action === 'TRANSFER' ? 'Request' : 'Record'}
+          </button>
+        </form>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {message && <p className="text-sm text-green-700">{message}</p>}
+
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-lg font-medium text-gray-900">Movement history</h3>
+          <select
+            value={movementType}
+            onChange={(e) => setMovementType(e.target.value as InventoryMovementType | '')}
+            className="px-3 py-1 border border-gray-300 rounded text-sm"
+          >
+            <option value="">All movements</option>
+            {(Object.keys(MOVEMENT_LABELS) as InventoryMovementType[]).map(type => (
+              <option key={type} value={type}>{MOVEMENT_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+
+        {isLoading ? (
+          <p className="text-gray-500">Loading...</p>
+        ) : movements.length === 0 ? (
+          <p className="text-gray-500">No stock movements recorded</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-3 py-2">When</th>
+                  {showStore && <th className="px-3 py-2">Store</th>}
+                  <th className="px-3 py-2">Movement</th>
+                  <th className="px-3 py-2">Reason</th>
+                  <th className="px-3 py-2 text-right">Change</th>
+                  <th className="px-3 py-2 text-right">On hand</th>
+                  <th className="px-3 py-2">By</th>
+                  <th className="px-3 py-2">Reference</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {movements.map(movement => (
+                  <tr key={movement.id}>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      {new Date(movement.createdAt).toLocaleString()}
+                    </td>
+                    {showStore && <td className="px-3 py-2">{movement.storeName || '—'}</td>}
+                    <td className="px-3 py-2">{MOVEMENT_LABELS[movement.movementType]}</td>
+                    <td className="px-3 py-2">{REASON_LABELS[movement.reasonCode]}</td>
+                    <td
+                      className={`px-3 py-2 text-right ${
+                        movement.quantity < 0 ? 'text-red-600' : 'text-green-700'
+                      }`}
+                    >
+                      {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                    </td>
+                    <td className="px-3 py-2 text-right">{movement.quantityAfter}</td>
+                    <td className="px-3 py-2">{movement.userName || 'System'}</td>
+                    <td className="px-3 py-2">
+                      {movement.receiptNumber || movement.reference || ''}
+                      {movement.lotNumber && (
+                        <span className="block text-xs text-gray-500">
+                          Lot {movement.lotNumber}
+                          {movement.expirationDate && `, expires ${movement.expirationDate}`}
+                        </span>
+                      )}
+                      {movement.notes && (
+                        <span className="block text-xs text-gray-500">{movement.notes}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -7,6 +7,7 @@ import type { Product } from '../../types/database'
 interface ProductListProps {
   onSelectProduct?: (product: Product) => void
   onEditProduct?: (product: Product) => void
+  onViewStock?: (product: Product) => void
   selectable?: boolean
   className?: string
 }
@@ -14,6 +15,7 @@ interface ProductListProps {
 export function ProductList({
   onSelectProduct,
   onEditProduct,
+  onViewStock,
   selectable = false,
   className = ''
 }: ProductListProps) {
@@ -247,6 +249,17 @@ export function ProductList({
                           </span>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                          {onViewStock && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                onViewStock(product)
+                              }}
+                              className="text-gray-600 hover:text-gray-900"
+                            >
+                              Stock
+                            </button>
+                          )}
                           {hasPermission('product:update') && (
                             <button
                               onClick={(e) => {
@@ -0,0 +1,282 @@
+import { useState } from 'react'
+import { useAuth, usePermissions } from '../../hooks/useAuth'
+import {
+  useApproveStockTransfer,
+  useCancelStockTransfer,
+  useReceiveStockTransfer,
+  useShipStockTransfer,
+  useStockTransfers
+} from '../../hooks/useStockTransfers'
+import type { StockTransferStatus } from '../../types/database'
+import type { StockTransferResponse } from '../../types/stockTransfers'
+import { getErrorMessage } from '../../utils/errors'
+
+interface StockTransferListProps {
+  onClose?: () => void
+  className?: string
+}
+
+const STATUS_LABELS: Record<StockTransferStatus, string> = {
+  REQUESTED: 'Requested',
+  APPROVED: 'Approved',
+  IN_TRANSIT: 'In transit',
+  RECEIVED: 'Received',
+  CANCELLED: 'Cancelled'
+}
+
+const STATUS_STYLES: Record<StockTransferStatus, string> = {
+  REQUESTED: 'bg-yellow-100 text-yellow-800',
+  APPROVED: 'bg-blue-100 text-blue-800',
+  IN_TRANSIT: 'bg-purple-100 text-purple-800',
+  RECEIVED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-gray-100 text-gray-600'
+}
+
+// Counted quantities and notes for each line of the transfer being received
+type ReceiptCounts = Record<string, { quantity: string; note: string }>
+
+// Transfers to and from the user's store, moved on a step at a time by whoever is at the right end
+export function StockTransferList({ onClose, className = '' }: StockTransferListProps) {
+  const { user } = useAuth()
+  const { hasPermission } = usePermissions()
+  const [status, setStatus] = useState<StockTransferStatus | ''>('')
+  const { data: transfers = [], isLoading } = useStockTransfers({ status: status || undefined })
+  const approveTransfer = useApproveStockTransfer()
+  const shipTransfer = useShipStockTransfer()
+  const receiveTransfer = useReceiveStockTransfer()
+  const cancelTransfer = useCancelStockTransfer()
+
+  const [receiving, setReceiving] = useState<string | null>(null)
+  const [counts, setCounts] = useState<ReceiptCounts>({})
+  const [error, setError] = useState<string | null>(null)
+
+  const canUpdate = hasPermission('product:update')
+  const canAccess = (storeId: string) => user?.role === 'ADMIN' || user?.storeId === storeId
+
+  const run = async (action: () => Promise<unknown>, fallback: string) => {
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(getErrorMessage(err, fallback))
+    }
+  }
+
+  const startReceiving = (transfer: StockTransferResponse) => {
+    setReceiving(transfer.id)
+    setCounts(
+      Object.fromEntries(
+        transfer.items.map(item => [item.id, { quantity: String(item.quantityShipped ?? 0), note: '' }])
+      )
+    )
+  }
+
+  const handleReceive = (transfer: StockTransferResponse) =>
+    run(async () => {
+      await receiveTransfer.mutateAsync({
+        id: transfer.id,
+        data: {
+          items: transfer.items.map(item => ({
+            itemId: item.id,
+            quantityReceived: Number(counts[item.id]?.quantity),
+            discrepancyNote: counts[item.id]?.note || undefined
+          }))
+        }
+      })
+      setReceiving(null)
+    }, 'Failed to receive transfer')
+
+  const handleCancel = (transfer: StockTransferResponse) => {
+    const reason = prompt(`Cancel ${transfer.reference}? Give a reason:`)
+    if (reason === null) return
+    run(
+      () => cancelTransfer.mutateAsync({ id: transfer.id, reason: reason || undefined }),
+      'Failed to cancel transfer'
+    )
+  }
+
+  const setCount = (itemId: string, field: 'quantity' | 'note', value: string) =>
+    setCounts(current => ({ ...current, [itemId]: { ...current[itemId], [field]: value } }))
+
+  return (
+    <div className={`bg-white shadow rounded-lg p-6 space-y-4 ${className}`}>
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-900">Stock transfers</h2>
+        <div className="flex items-center gap-3">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as StockTransferStatus | '')}
+            className="px-3 py-1 border border-gray-300 rounded text-sm"
+          >
+            <option value="">All transfers</option>
+            {(Object.keys(STATUS_LABELS) as StockTransferStatus[]).map(value => (
+              <option key={value} value={value}>{STATUS_LABELS[value]}</option>
+            ))}
+          </select>
+          {onClose && (
+            <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading...</p>
+      ) : transfers.length === 0 ? (
+        <p className="text-gray-500">No stock transfers</p>
+      ) : (
+        <div className="space-y-4">
+          {transfers.map(transfer => (
+            <div key={transfer.id} className="border border-gray-200 rounded p-4 text-sm">
+              <div className="flex flex-wrap justify-between items-center gap-2">
+                <div>
+                  <span className="font-medium text-gray-900">{transfer.reference}</span>
+                  <span className="text-gray-600">
+                    {' '}· {transfer.fromStoreName} → {transfer.toStoreName}
+                  </span>
+                  <span
+                    className={`ml-2 px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[transfer.status]}`}
+                  >
+                    {STATUS_LABELS[transfer.status]}
+                  </span>
+                  <span className="block text-xs text-gray-500">
+                    Requested {new Date(transfer.createdAt).toLocaleString()}
+                    {transfer.shippedAt && ` · shipped ${new Date(transfer.shippedAt).toLocaleString()}`}
+                    {transfer.receivedAt &&
+                      ` · received ${new Date(transfer.receivedAt).toLocaleString()}`}
+                  </span>
+                </div>
+
+                {canUpdate && (
+                  <div className="flex gap-2">
+                    {transfer.status === 'REQUESTED' && canAccess(transfer.fromStoreId) && (
+                      <button
+                        onClick={() =>
+                          run(() => approveTransfer.mutateAsync(transfer.id), 'Failed to approve transfer')
+                        }
+                        disabled={approveTransfer.isPending}
+                        className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+                      >
+                        Approve
+                      </button>
+                    )}
+                    {transfer.status === 'APPROVED' && canAccess(transfer.fromStoreId) && (
+                      <button
+                        onClick={() =>
+                          run(() => shipTransfer.mutateAsync({ id: transfer.id }), 'Failed to ship transfer')
+                        }
+                        disabled={shipTransfer.isPending}
+                        className="px-3 py-1 bg-purple-600 text-white rounded hover:bg-purple-700 disabled:bg-gray-400"
+                      >
+                        Ship
+                      </button>
+                    )}
+                    {transfer.status === 'IN_TRANSIT' &&
+                      canAccess(transfer.toStoreId) &&
+                      receiving !== transfer.id && (
+                      <button
+                        onClick={() => startReceiving(transfer)}
+                        className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700"
+                      >
+                        Receive
+                      </button>
+                    )}
+                    {(transfer.status === 'REQUESTED' || transfer.status === 'APPROVED') && (
+                      <button
+                        onClick={() => handleCancel(transfer)}
+                        disabled={cancelTransfer.isPending}
+                        className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {transfer.notes && <p className="mt-1 text-gray-600">{transfer.notes}</p>}
+
+              <table className="min-w-full mt-3">
+                <thead className="bg-gray-50 text-left text-gray-600">
+                  <tr>
+                    <th className="px-3 py-1">Product</th>
+                    <th className="px-3 py-1">Lot / expiry</th>
+                    <th className="px-3 py-1 text-right">Requested</th>
+                    <th className="px-3 py-1 text-right">Shipped</th>
+                    <th className="px-3 py-1 text-right">Received</th>
+                    <th className="px-3 py-1">Note</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {transfer.items.map(item => (
+                    <tr key={item.id}>
+                      <td className="px-3 py-1">
+                        {item.name}
+                        <span className="block text-xs text-gray-500">{item.sku}</span>
+                      </td>
+                      <td className="px-3 py-1">
+                        {[item.lotNumber, item.expirationDate].filter(Boolean).join(' · ') || '—'}
+                      </td>
+                      <td className="px-3 py-1 text-right">{item.quantityRequested}</td>
+                      <td className="px-3 py-1 text-right">{item.quantityShipped ?? '—'}</td>
+                      <td className="px-3 py-1 text-right">
+                        {receiving === transfer.id ? (
+                          <input
+                            type="number"
+                            min={0}
+                            step={1}
+                            value={counts[item.id]?.quantity ?? ''}
+                            onChange={(e) => setCount(item.id, 'quantity', e.target.value)}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded text-right"
+                          />
+                        ) : (
+                          <span className={item.discrepancy ? 'text-red-600 font-medium' : ''}>
+                            {item.quantityReceived ?? '—'}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-1">
+                        {receiving === transfer.id ? (
+                          <input
+                            type="text"
+                            placeholder="Why the count differs"
+                            value={counts[item.id]?.note ?? ''}
+                            onChange={(e) => setCount(item.id, 'note', e.target.value)}
+                            className="w-full px-2 py-1 border border-gray-300 rounded"
+                          />
+                        ) : (
+                          item.discrepancyNote || ''
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {receiving === transfer.id && (
+                <div className="flex justify-end gap-2 mt-3">
+                  <button
+                    onClick={() => setReceiving(null)}
+                    className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50"
+                  >
+                    Back
+                  </button>
+                  <button
+                    onClick={() => handleReceive(transfer)}
+                    disabled={receiveTransfer.isPending}
+                    className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-gray-400"
+                  >
+                    {receiveTransfer.isPending ? 'Receiving...' : 'Confirm receipt'}
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,2 +1,4 @@
 export { ProductList } from './ProductList'
-export { ProductForm } from './ProductForm'
\ No newline at end of file
+export { ProductForm } from './ProductForm'
+export { InventoryMovementHistory } from './InventoryMovementHistory'
+export { StockTransferList } from './StockTransferList'
\ No newline at end of file
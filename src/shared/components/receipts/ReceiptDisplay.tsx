@@ -161,6 +161,12 @@ export function ReceiptDisplay({
               <span>Tax:</span>
               <span>${receipt.taxAmount.toFixed(2)}</span>
             </div>
+            {receipt.taxLines?.map((taxLine) => (
+              <div key={taxLine.name} className="flex justify-between pl-2 text-gray-600">
+                <span>{taxLine.name}</span>
+                <span>${taxLine.amount.toFixed(2)}</span>
+              </div>
+            ))}
             <div className="flex justify-between font-bold text-sm border-t border-gray-400 pt-1">
               <span>TOTAL:</span>
               <span>${receipt.totalAmount.toFixed(2)}</span>
@@ -170,6 +176,17 @@ export function ReceiptDisplay({
           {/* Payment Info */}
           <div className="mb-3 text-xs">
             <div>Payment: {receipt.paymentMethod}</div>
+            {receipt.tenders?.map((tender, index) => (
+              <div key={index} className="pl-2">
+                <div className="flex justify-between">
+                  <span>{tender.method}{tender.last4 ? ` ****${tender.last4}` : ''}</span>
+                  <span>{receiptService.formatAmount(tender.amount)}</span>
+                </div>
+                {tender.authCode && (
+                  <div className="text-gray-600">Auth: {tender.authCode}</div>
+                )}
+              </div>
+            ))}
             {receipt.cashTendered && (
               <div>Cash Tendered: ${receipt.cashTendered.toFixed(2)}</div>
             )}
@@ -0,0 +1,137 @@
+import type { DailySalesReport } from '../../types/reports'
+
+interface DailyReportDisplayProps {
+  report: DailySalesReport
+  // Shown in the heading, e.g. "X Report" or "Z Report #12"
+  title: string
+  className?: string
+}
+
+const formatMoney = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`
+
+const formatTime = (value: string) => new Date(value).toLocaleString()
+
+const TENDER_LABELS: Record<string, string> = {
+  CASH: 'Cash',
+  CARD: 'Card',
+  GIFT_CARD: 'Gift card',
+  STORE_CREDIT: 'Store credit',
+  SPLIT: 'Split'
+}
+
+function Row({ label, value, strong }: { label: string; value: string; strong?: boolean }) {
+  return (
+    <div className={`flex justify-between ${strong ? 'font-semibold' : ''}`}>
+      <span>{label}</span>
+      <span>{value}</span>
+    </div>
+  )
+}
+
+// An X or Z report laid out for the screen and the receipt printer
+export function DailyReportDisplay({ report, title, className = '' }: DailyReportDisplayProps) {
+  const { sales } = report
+
+  return (
+    <div className={`bg-white border rounded-md p-4 font-mono text-sm space-y-4 ${className}`}>
+      <div className="text-center">
+        <h3 className="text-base font-bold">{title}</h3>
+        <p>Business date {report.businessDate}</p>
+        <p className="text-xs text-gray-500">
+          {formatTime(report.periodStart)} – {formatTime(report.periodEnd)}
+        </p>
+        {report.cashDrawerSessionId && (
+          <p className="text-xs text-gray-500">Register drawer {report.cashDrawerSessionId.slice(0, 8)}</p>
+        )}
+      </div>
+
+      <section>
+        <h4 className="font-semibold border-b mb-1">Sales</h4>
+        <Row label={`Sales (${sales.transactionCount})`} value={formatMoney(sales.grossSales)} />
+        <Row label="Discounts" value={formatMoney(-sales.discounts)} />
+        <Row label={`Returns (${report.returns.count})`} value={formatMoney(sales.returns)} />
+        <Row label="Net sales" value={formatMoney(sales.netSales)} strong />
+        <Row label="Tax" value={formatMoney(sales.taxAmount)} />
+        <Row label="Total" value={formatMoney(sales.totalSales)} strong />
+        {sales.loyaltyRedemptions !== 0 && (
+          <Row label="Paid with points" value={formatMoney(sales.loyaltyRedemptions)} />
+        )}
+      </section>
+
+      <section>
+        <h4 className="font-semibold border-b mb-1">Tax by jurisdiction</h4>
+        {report.taxByJurisdiction.length === 0 ? (
+          <p className="text-gray-500">No tax collected</p>
+        ) : (
+          report.taxByJurisdiction.map(jurisdiction => (
+            <Row key={jurisdiction.code} label={jurisdiction.name} value={formatMoney(jurisdiction.taxAmount)} />
+          ))
+        )}
+      </section>
+
+      <section>
+        <h4 className="font-semibold border-b mb-1">Tenders</h4>
+        {report.tenders.length === 0 ? (
+          <p className="text-gray-500">No payments taken</p>
+        ) : (
+          report.tenders.map(tender => (
+            <Row
+              key={tender.paymentMethod}
+              label={`${TENDER_LABELS[tender.paymentMethod] || tender.paymentMethod} (${tender.count})`}
+              value={formatMoney(tender.amount)}
+            />
+          ))
+        )}
+      </section>
+
+      {report.giftCardLoads?.length > 0 && (
+        <section>
+          <h4 className="font-semibold border-b mb-1">Gift cards sold and reloaded</h4>
+          {report.giftCardLoads.map(load => (
+            <Row
+              key={load.paymentMethod}
+              label={`${TENDER_LABELS[load.paymentMethod] || load.paymentMethod} (${load.count})`}
+              value={formatMoney(load.amount)}
+            />
+          ))}
+        </section>
+      )}
+
+      <section>
+        <h4 className="font-semibold border-b mb-1">Voids and age checks</h4>
+        <Row label={`Voided sales (${report.voids.count})`} value={formatMoney(report.voids.amount)} />
+        <Row label="ID checks denied" value={String(report.ageVerification.denials)} />
+        <Row label="Manager overrides" value={String(report.ageVerification.overrides)} />
+      </section>
+
+      <section>
+        <h4 className="font-semibold border-b mb-1">Cash drawers</h4>
+        {report.cashDrawers.length === 0 ? (
+          <p className="text-gray-500">No drawers opened</p>
+        ) : (
+          report.cashDrawers.map(drawer => (
+            <div key={drawer.cashDrawerSessionId} className="mb-2">
+              <Row
+                label={`Drawer ${drawer.cashDrawerSessionId.slice(0, 8)} (${drawer.status.toLowerCase()})`}
+                value={formatMoney(drawer.netSales)}
+              />
+              <Row label="  Expected cash" value={formatMoney(drawer.expectedAmount)} />
+              <Row
+                label="  Counted"
+                value={drawer.countedAmount === null ? '—' : formatMoney(drawer.countedAmount)}
+              />
+              <Row
+                label="  Over/short"
+                value={drawer.overShort === null ? '—' : formatMoney(drawer.overShort)}
+              />
+            </div>
+          ))
+        )}
+        <Row label="Total over/short" value={formatMoney(report.cashOverShort)} strong />
+      </section>
+
+      <p className="text-center text-xs text-gray-500">Printed {formatTime(report.generatedAt)}</p>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+import type { SalesReportRow } from '../../types/reports'
+
+const formatMoney = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`
+
+interface SalesTrendChartProps {
+  rows: SalesReportRow[]
+  className?: string
+}
+
+// Net sales per hour, day or week as columns; returns can take a period below zero
+export function SalesTrendChart({ rows, className = '' }: SalesTrendChartProps) {
+  const highest = Math.max(0, ...rows.map(row => row.netSales))
+  const lowest = Math.min(0, ...rows.map(row => row.netSales))
+  const range = highest - lowest || 1
+  // Only label every nth column so long ranges stay readable
+  const labelEvery = Math.ceil(rows.length / 12)
+
+  return (
+    <div className={className}>
+      <div className="flex items-stretch h-48 gap-px">
+        {rows.map(row => (
+          <div
+            key={row.key}
+            className="flex-1 flex flex-col min-w-0"
+            title={`${row.label}: ${formatMoney(row.netSales)} (${row.transactionCount} sales)`}
+          >
+            <div className="flex flex-col justify-end" style={{ height: `${(highest / range) * 100}%` }}>
+              {row.netSales > 0 && (
+                <div className="bg-blue-500 rounded-t" style={{ height: `${(row.netSales / highest) * 100}%` }} />
+              )}
+            </div>
+            <div className="flex flex-col" style={{ height: `${(-lowest / range) * 100}%` }}>
+              {row.netSales < 0 && (
+                <div className="bg-red-400 rounded-b" style={{ height: `${(row.netSales / lowest) * 100}%` }} />
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-px mt-1 text-xs text-gray-500">
+        {rows.map((row, index) => (
+          <div key={row.key} className="flex-1 min-w-0 truncate text-center">
+            {index % labelEvery === 0 ? row.key : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+interface SalesBarChartProps {
+  rows: SalesReportRow[]
+  // Show only the top rows by net sales
+  limit?: number
+  onSelect?: (row: SalesReportRow) => void
+  className?: string
+}
+
+// Net sales per group as horizontal bars, with the margin each group earned
+export function SalesBarChart({ rows, limit = 10, onSelect, className = '' }: SalesBarChartProps) {
+  const shown = rows.slice(0, limit)
+  const highest = Math.max(0, ...shown.map(row => Math.abs(row.netSales))) || 1
+
+  if (shown.length === 0) {
+    return <p className={`text-gray-500 ${className}`}>No sales in this range</p>
+  }
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {shown.map(row => (
+        <div
+          key={row.key}
+          onClick={onSelect ? () => onSelect(row) : undefined}
+          className={`text-sm ${onSelect ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+        >
+          <div className="flex justify-between">
+            <span className="truncate">{row.label}</span>
+            <span className="ml-2 whitespace-nowrap">
+              {formatMoney(row.netSales)}
+              {row.marginPercent !== null && (
+                <span className="text-gray-500"> · {row.marginPercent.toFixed(1)}% margin</span>
+              )}
+            </span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded">
+            <div
+              className={`h-2 rounded ${row.netSales < 0 ? 'bg-red-400' : 'bg-blue-500'}`}
+              style={{ width: `${(Math.abs(row.netSales) / highest) * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,240 @@
+import { useState } from 'react'
+import { useAuth } from '../../hooks/useAuth'
+import { useSalesReport, useExportSalesReport } from '../../hooks/useReports'
+import type { SalesBreakdown, SalesInterval, SalesReportRow } from '../../types/reports'
+import { SalesBarChart, SalesTrendChart } from './SalesCharts'
+
+const formatMoney = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)}%`)
+
+// Browser-local calendar date, YYYY-MM-DD
+const toDateInput = (date: Date) => date.toLocaleDateString('en-CA')
+
+const daysAgo = (days: number) => toDateInput(new Date(Date.now() - days * 24 * 60 * 60 * 1000))
+
+const BREAKDOWNS: { value: Exclude<SalesBreakdown, 'period'>; label: string }[] = [
+  { value: 'category', label: 'Category' },
+  { value: 'vendor', label: 'Vendor' },
+  { value: 'product', label: 'Product' },
+  { value: 'employee', label: 'Employee' },
+  { value: 'store', label: 'Store' }
+]
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="bg-white p-4 rounded-lg shadow">
+      <p className="text-sm text-gray-600">{label}</p>
+      <p className="text-2xl font-bold text-gray-900">{value}</p>
+      {detail && <p className="text-xs text-gray-500 mt-1">{detail}</p>}
+    </div>
+  )
+}
+
+// Sales, margin and returns over a date range, charted by period and by group
+export function SalesDashboard() {
+  const { user } = useAuth()
+  const isAdmin = user?.role === 'ADMIN'
+
+  const [startDate, setStartDate] = useState(daysAgo(6))
+  const [endDate, setEndDate] = useState(daysAgo(0))
+  const [interval, setTrendInterval] = useState<SalesInterval>('day')
+  const [breakdown, setBreakdown] = useState<Exclude<SalesBreakdown, 'period'>>('category')
+  // Admins report across every store until they pick one from the store breakdown
+  const [store, setStore] = useState<SalesReportRow | null>(null)
+
+  const query = {
+    startDate,
+    endDate,
+    interval,
+    storeId: isAdmin ? store?.key : user?.storeId || undefined
+  }
+  const { data: report, isFetching, error } = useSalesReport(query, Boolean(startDate && endDate))
+  const exportMutation = useExportSalesReport()
+
+  const breakdownRows: Record<Exclude<SalesBreakdown, 'period'>, SalesReportRow[]> = {
+    category: report?.byCategory || [],
+    vendor: report?.byVendor || [],
+    product: report?.byProduct || [],
+    employee: report?.byEmployee || [],
+    store: report?.byStore || []
+  }
+  const rows = breakdownRows[breakdown]
+
+  const handleExport = async (groupBy: SalesBreakdown) => {
+    try {
+      await exportMutation.mutateAsync({ ...query, groupBy })
+    } catch (error: any) {
+      alert(`Export failed: ${error.response?.data?.message || error.message || 'Unknown error'}`)
+    }
+  }
+
+  const summary = report?.summary
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-lg shadow flex flex-wrap items-end gap-4">
+        <label className="text-sm text-gray-700">
+          From
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="block mt-1 px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          To
+          <input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="block mt-1 px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Trend by
+          <select
+            value={interval}
+            onChange={(e) => setTrendInterval(e.target.value as SalesInterval)}
+            className="block mt-1 px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="hour">Hour of day</option>
+            <option value="day">Day</option>
+            <option value="week">Week</option>
+          </select>
+        </label>
+        {isAdmin && store && (
+          <button
+            onClick={() => setStore(null)}
+            className="px-3 py-2 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 text-sm"
+          >
+            {store.label} ✕ (show all stores)
+          </button>
+        )}
+        {isFetching && <span className="text-sm text-gray-500">Loading...</span>}
+      </div>
+
+      {error && (
+        <p className="text-red-600">
+          {(error as any).response?.data?.message || 'Failed to load sales report'}
+        </p>
+      )}
+
+      {summary && (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          <StatCard
+            label="Net sales"
+            value={formatMoney(summary.netSales)}
+            detail={`${summary.transactionCount} transactions`}
+          />
+          <StatCard
+            label="Gross margin"
+            value={formatMoney(summary.grossMargin)}
+            detail={`${formatPercent(summary.marginPercent)} of costed sales`}
+          />
+          <StatCard
+            label="Basket size"
+            value={summary.basketSize === null ? '—' : formatMoney(summary.basketSize)}
+          />
+          <StatCard
+            label="Units per transaction"
+            value={summary.unitsPerTransaction === null ? '—' : summary.unitsPerTransaction.toFixed(2)}
+            detail={`${summary.unitsSold} units sold`}
+          />
+          <StatCard
+            label="Return rate"
+            value={formatPercent(summary.returnRate)}
+            detail={`${summary.returnCount} returns, ${formatMoney(summary.returnAmount)}`}
+          />
+          <StatCard
+            label="Sales without a cost"
+            value={formatMoney(summary.uncostedSales)}
+            detail="Left out of the margin"
+          />
+        </div>
+      )}
+
+      {report && (
+        <>
+          <div className="bg-white p-4 rounded-lg shadow">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-medium text-gray-900">Net sales by {interval === 'hour' ? 'hour of day' : interval}</h2>
+              <button
+                onClick={() => handleExport('period')}
+                disabled={exportMutation.isPending}
+                className="text-sm text-blue-600 hover:underline disabled:text-gray-400"
+              >
+                Export CSV
+              </button>
+            </div>
+            <SalesTrendChart rows={report.byPeriod} />
+          </div>
+
+          <div className="bg-white p-4 rounded-lg shadow">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+              <div className="flex gap-1">
+                {BREAKDOWNS.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setBreakdown(option.value)}
+                    className={`px-3 py-1 rounded text-sm ${
+                      breakdown === option.value
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => handleExport(breakdown)}
+                disabled={exportMutation.isPending}
+                className="text-sm text-blue-600 hover:underline disabled:text-gray-400"
+              >
+                Export CSV
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <SalesBarChart
+                rows={rows}
+                onSelect={isAdmin && breakdown === 'store' ? setStore : undefined}
+              />
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-600">
+                    <tr>
+                      <th className="px-3 py-2">Name</th>
+                      <th className="px-3 py-2 text-right">Sales</th>
+                      <th className="px-3 py-2 text-right">Units</th>
+                      <th className="px-3 py-2 text-right">Net sales</th>
+                      <th className="px-3 py-2 text-right">Margin</th>
+                      <th className="px-3 py-2 text-right">Returns</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {rows.map(row => (
+                      <tr key={row.key}>
+                        <td className="px-3 py-2">{row.label}</td>
+                        <td className="px-3 py-2 text-right">{row.transactionCount}</td>
+                        <td className="px-3 py-2 text-right">{row.unitsSold}</td>
+                        <td className="px-3 py-2 text-right">{formatMoney(row.netSales)}</td>
+                        <td className="px-3 py-2 text-right">{formatPercent(row.marginPercent)}</td>
+                        <td className="px-3 py-2 text-right">{formatPercent(row.returnRate)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
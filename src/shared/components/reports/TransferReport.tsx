@@ -0,0 +1,108 @@
+import { useState } from 'react'
+import { useTransferReport } from '../../hooks/useReports'
+import type { StockTransferTotals } from '../../types/stockTransfers'
+
+interface TransferReportProps {
+  storeId: string
+}
+
+// Browser-local calendar date, YYYY-MM-DD
+const toDateInput = (date: Date) => date.toLocaleDateString('en-CA')
+
+const daysAgo = (days: number) => toDateInput(new Date(Date.now() - days * 24 * 60 * 60 * 1000))
+
+function TotalsCard({ label, totals }: { label: string; totals?: StockTransferTotals }) {
+  return (
+    <div className="bg-white p-4 rounded-lg shadow">
+      <p className="text-sm text-gray-600">{label}</p>
+      <p className="text-2xl font-bold text-gray-900">{totals?.units ?? 0} units</p>
+      <p className="text-xs text-gray-500 mt-1">
+        {totals?.transfers ?? 0} transfer{totals?.transfers === 1 ? '' : 's'}
+      </p>
+    </div>
+  )
+}
+
+// Stock a store sent and took in by transfer, what arrived short or over, and what is on the road
+export function TransferReport({ storeId }: TransferReportProps) {
+  const [startDate, setStartDate] = useState(daysAgo(6))
+  const [endDate, setEndDate] = useState(daysAgo(0))
+  const { data: report, isFetching } = useTransferReport(
+    { storeId, startDate, endDate },
+    Boolean(startDate && endDate)
+  )
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-4 rounded-lg shadow flex flex-wrap items-end gap-4">
+        <label className="text-sm text-gray-700">
+          From
+          <input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="block mt-1 px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          To
+          <input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="block mt-1 px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        {isFetching && <span className="text-sm text-gray-500">Loading...</span>}
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <TotalsCard label="Shipped out" totals={report?.shippedOut} />
+        <TotalsCard label="Received in" totals={report?.receivedIn} />
+        <TotalsCard label="In transit out (now)" totals={report?.inTransitOut} />
+        <TotalsCard label="In transit in (now)" totals={report?.inTransitIn} />
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <h3 className="text-lg font-medium text-gray-900 p-4 border-b">Receiving discrepancies</h3>
+        {!report || report.discrepancies.length === 0 ? (
+          <p className="p-4 text-gray-500">Every transfer received matched what was shipped.</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-2">Transfer</th>
+                <th className="px-4 py-2">From</th>
+                <th className="px-4 py-2">Product</th>
+                <th className="px-4 py-2 text-right">Shipped</th>
+                <th className="px-4 py-2 text-right">Received</th>
+                <th className="px-4 py-2 text-right">Difference</th>
+                <th className="px-4 py-2">Note</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {report.discrepancies.map(row => (
+                <tr key={`${row.transferId}:${row.productId}`}>
+                  <td className="px-4 py-2">{row.reference}</td>
+                  <td className="px-4 py-2">{row.fromStoreName}</td>
+                  <td className="px-4 py-2">
+                    {row.name}
+                    <span className="block text-xs text-gray-500">{row.sku}</span>
+                  </td>
+                  <td className="px-4 py-2 text-right">{row.quantityShipped}</td>
+                  <td className="px-4 py-2 text-right">{row.quantityReceived}</td>
+                  <td
+                    className={`px-4 py-2 text-right ${row.difference < 0 ? 'text-red-600' : 'text-green-700'}`}
+                  >
+                    {row.difference > 0 ? `+${row.difference}` : row.difference}
+                  </td>
+                  <td className="px-4 py-2">{row.note || ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,4 @@
+export { DailyReportDisplay } from './DailyReportDisplay'
+export { SalesDashboard } from './SalesDashboard'
+export { SalesBarChart, SalesTrendChart } from './SalesCharts'
+export { TransferReport } from './TransferReport'
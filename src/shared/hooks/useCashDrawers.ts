@@ -0,0 +1,50 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { cashDrawersService } from '../services/cashDrawers'
+import type {
+  OpenCashDrawerData,
+  CashDrawerEventData,
+  CloseCashDrawerData
+} from '../types/cashDrawers'
+
+export const useCurrentCashDrawer = (storeId?: string) => {
+  return useQuery({
+    queryKey: ['cashDrawers', 'current', storeId],
+    queryFn: () => cashDrawersService.getCurrentDrawer(storeId),
+    refetchOnWindowFocus: false
+  })
+}
+
+export const useOpenCashDrawer = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: OpenCashDrawerData) => cashDrawersService.openDrawer(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cashDrawers'] })
+    }
+  })
+}
+
+export const useCashDrawerEvent = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: CashDrawerEventData }) =>
+      cashDrawersService.recordEvent(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cashDrawers'] })
+    }
+  })
+}
+
+export const useCloseCashDrawer = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: CloseCashDrawerData }) =>
+      cashDrawersService.closeDrawer(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cashDrawers'] })
+    }
+  })
+}
@@ -0,0 +1,80 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { complianceService } from '../services/compliance'
+import type { ComplianceRuleFilters, ComplianceOverlapQuery } from '../services/compliance'
+import type { CreateComplianceRuleData, UpdateComplianceRuleData } from '../types/compliance'
+
+export const useComplianceRules = (filters: ComplianceRuleFilters = {}, page = 1, limit = 50) => {
+  return useQuery({
+    queryKey: ['compliance', 'rules', filters, page, limit],
+    queryFn: () => complianceService.getRules(filters, page, limit),
+    refetchOnWindowFocus: false
+  })
+}
+
+export const useComplianceRule = (id: string, enabled = true) => {
+  return useQuery({
+    queryKey: ['compliance', 'rule', id],
+    queryFn: () => complianceService.getRule(id),
+    enabled: enabled && !!id
+  })
+}
+
+export const useCreateComplianceRule = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateComplianceRuleData) => complianceService.createRule(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['compliance'] })
+    },
+    onError: (error: any) => {
+      console.error('Compliance rule creation failed:', error)
+    }
+  })
+}
+
+export const useUpdateComplianceRule = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateComplianceRuleData }) =>
+      complianceService.updateRule(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['compliance'] })
+    },
+    onError: (error: any) => {
+      console.error('Compliance rule update failed:', error)
+    }
+  })
+}
+
+export const useRetireComplianceRule = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, endDate }: { id: string; endDate?: string }) =>
+      complianceService.retireRule(id, endDate),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['compliance'] })
+    },
+    onError: (error: any) => {
+      console.error('Compliance rule retire failed:', error)
+    }
+  })
+}
+
+export const useComplianceOverlaps = (query: ComplianceOverlapQuery) => {
+  return useQuery({
+    queryKey: ['compliance', 'overlaps', query],
+    queryFn: () => complianceService.getOverlaps(query),
+    enabled: !!(query.storeId || query.stateCode),
+    refetchOnWindowFocus: false
+  })
+}
+
+export const usePreviewComplianceRule = () => {
+  return useMutation({
+    mutationFn: ({ rule, timezone }: { rule: CreateComplianceRuleData | { id: string }; timezone?: string }) =>
+      complianceService.previewRule(rule, timezone)
+  })
+}
@@ -0,0 +1,71 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { offersService } from '../services/offers'
+import type { OfferFilters, OfferReportQuery } from '../services/offers'
+import type { CreateOfferData, UpdateOfferData } from '../types/offers'
+
+export const useOffers = (filters: OfferFilters = {}, page = 1, limit = 50) => {
+  return useQuery({
+    queryKey: ['offers', 'list', filters, page, limit],
+    queryFn: () => offersService.getOffers(filters, page, limit),
+    refetchOnWindowFocus: false
+  })
+}
+
+export const useOffer = (id: string, enabled = true) => {
+  return useQuery({
+    queryKey: ['offers', 'offer', id],
+    queryFn: () => offersService.getOffer(id),
+    enabled: enabled && !!id
+  })
+}
+
+export const useCreateOffer = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateOfferData) => offersService.createOffer(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['offers'] })
+    },
+    onError: (error: any) => {
+      console.error('Offer creation failed:', error)
+    }
+  })
+}
+
+export const useUpdateOffer = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateOfferData }) =>
+      offersService.updateOffer(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['offers'] })
+    },
+    onError: (error: any) => {
+      console.error('Offer update failed:', error)
+    }
+  })
+}
+
+export const useDeleteOffer = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => offersService.deleteOffer(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['offers'] })
+    },
+    onError: (error: any) => {
+      console.error('Offer delete failed:', error)
+    }
+  })
+}
+
+export const useOfferRedemptionReport = (query: OfferReportQuery = {}) => {
+  return useQuery({
+    queryKey: ['offers', 'redemptions', query],
+    queryFn: () => offersService.getRedemptionReport(query),
+    refetchOnWindowFocus: false
+  })
+}
@@ -5,6 +5,11 @@ import type {
   UpdateProductData, 
   ProductFilters
 } from '../services/products'
+import type {
+  InventoryMovementQuery,
+  RecordInventoryMovementData,
+  StockCountData
+} from '../types/inventory'
 
 // Query keys for React Query
 export const productKeys = {
@@ -18,6 +23,8 @@ export const productKeys = {
   categories: () => [...productKeys.all, 'categories'] as const,
   vendors: () => [...productKeys.all, 'vendors'] as const,
   lowStock: () => [...productKeys.all, 'lowStock'] as const,
+  movements: (id: string, query: InventoryMovementQuery) =>
+    [...productKeys.all, 'movements', id, query] as const,
 }
 
 /**
@@ -158,8 +165,8 @@ export function useUpdateStock() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: ({ id, quantity }: { id: string; quantity: number }) =>
-      ProductService.updateStock(id, quantity),
+    mutationFn: ({ id, ...count }: StockCountData & { id: string }) =>
+      ProductService.updateStock(id, count),
     onSuccess: (updatedProduct) => {
       // Update the specific product in cache
       queryClient.setQueryData(
@@ -170,6 +177,7 @@ export function useUpdateStock() {
       // Invalidate lists that might show stock information
       queryClient.invalidateQueries({ queryKey: productKeys.lists() })
       queryClient.invalidateQueries({ queryKey: productKeys.lowStock() })
+      queryClient.invalidateQueries({ queryKey: [...productKeys.all, 'movements', updatedProduct.id] })
     },
   })
 }
@@ -181,7 +189,7 @@ export function useBulkUpdateStock() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: (updates: Array<{ id: string; quantity: number }>) =>
+    mutationFn: (updates: Array<StockCountData & { id: string }>) =>
       ProductService.bulkUpdateStock(updates),
     onSuccess: (updatedProducts) => {
       // Update individual products in cache
@@ -199,6 +207,35 @@ export function useBulkUpdateStock() {
   })
 }
 
+/**
+ * Hook for fetching a product's stock movement history
+ */
+export function useInventoryMovements(id: string, query: InventoryMovementQuery = {}) {
+  return useQuery({
+    queryKey: productKeys.movements(id, query),
+    queryFn: () => ProductService.getInventoryMovements(id, query),
+    enabled: !!id,
+  })
+}
+
+/**
+ * Hook for receiving stock or adjusting it for damage, theft or expiry
+ */
+export function useRecordInventoryMovement() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, ...data }: RecordInventoryMovementData & { id: string }) =>
+      ProductService.recordInventoryMovement(id, data),
+    onSuccess: (movement) => {
+      queryClient.invalidateQueries({ queryKey: productKeys.detail(movement.productId) })
+      queryClient.invalidateQueries({ queryKey: [...productKeys.all, 'movements', movement.productId] })
+      queryClient.invalidateQueries({ queryKey: productKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: productKeys.lowStock() })
+    },
+  })
+}
+
 /**
  * Custom hook for product form management
  */
@@ -0,0 +1,90 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { reportsService } from '../services/reports'
+import type { ZReportFilters } from '../services/reports'
+import type {
+  XReportQuery,
+  CreateZReportData,
+  SalesReportQuery,
+  SalesExportQuery
+} from '../types/reports'
+import type { StockTransferReportQuery } from '../types/stockTransfers'
+
+export const useSalesReport = (query: SalesReportQuery, enabled = true) => {
+  return useQuery({
+    queryKey: ['reports', 'sales', query],
+    queryFn: () => reportsService.getSalesReport(query),
+    enabled,
+    refetchOnWindowFocus: false
+  })
+}
+
+export const useExportSalesReport = () => {
+  return useMutation({
+    mutationFn: (query: SalesExportQuery) => reportsService.exportSalesReport(query),
+    onSuccess: (blob, query) => {
+      // Download the CSV under the name the breakdown and range suggest
+      const url = window.URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `sales-by-${query.groupBy || 'period'}-${query.startDate}-${query.endDate}.csv`
+      link.click()
+      window.URL.revokeObjectURL(url)
+    }
+  })
+}
+
+export const useXReport = (query: XReportQuery, enabled = true) => {
+  return useQuery({
+    queryKey: ['reports', 'x', query],
+    queryFn: () => reportsService.getXReport(query),
+    enabled,
+    // A snapshot is only as good as when it was taken
+    staleTime: 0,
+    refetchOnWindowFocus: false
+  })
+}
+
+export const useTransferReport = (query: StockTransferReportQuery, enabled = true) => {
+  return useQuery({
+    queryKey: ['reports', 'transfers', query],
+    queryFn: () => reportsService.getTransferReport(query),
+    enabled,
+    refetchOnWindowFocus: false
+  })
+}
+
+export const useZReports = (filters: ZReportFilters = {}) => {
+  return useQuery({
+    queryKey: ['reports', 'z', filters],
+    queryFn: () => reportsService.getZReports(filters),
+    refetchOnWindowFocus: false
+  })
+}
+
+export const useCreateZReport = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateZReportData) => reportsService.createZReport(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reports'] })
+    }
+  })
+}
+
+export const useReprintZReport = () => {
+  return useMutation({
+    mutationFn: (id: string) => reportsService.reprintZReport(id)
+  })
+}
+
+export const useSendZReportToQuickBooks = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => reportsService.sendZReportToQuickBooks(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reports', 'z'] })
+    }
+  })
+}
@@ -0,0 +1,88 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { stockTransfersService } from '../services/stockTransfers'
+import { productKeys } from './useProducts'
+import type {
+  CreateStockTransferData,
+  ReceiveStockTransferData,
+  ShipStockTransferData,
+  StockTransferQuery
+} from '../types/stockTransfers'
+
+export const useTransferStores = () => {
+  return useQuery({
+    queryKey: ['stockTransfers', 'stores'],
+    queryFn: () => stockTransfersService.getStores(),
+    staleTime: 5 * 60 * 1000
+  })
+}
+
+export const useStockTransfers = (query: StockTransferQuery = {}) => {
+  return useQuery({
+    queryKey: ['stockTransfers', 'list', query],
+    queryFn: () => stockTransfersService.getTransfers(query),
+    refetchOnWindowFocus: false
+  })
+}
+
+export const useCreateStockTransfer = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: CreateStockTransferData) => stockTransfersService.createTransfer(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stockTransfers', 'list'] })
+    }
+  })
+}
+
+export const useApproveStockTransfer = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => stockTransfersService.approveTransfer(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stockTransfers', 'list'] })
+    }
+  })
+}
+
+export const useCancelStockTransfer = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; reason?: string }) =>
+      stockTransfersService.cancelTransfer(id, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stockTransfers', 'list'] })
+    }
+  })
+}
+
+// Shipping and receiving move stock, so product quantities and their histories are refetched too
+export const useShipStockTransfer = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data?: ShipStockTransferData }) =>
+      stockTransfersService.shipTransfer(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stockTransfers', 'list'] })
+      queryClient.invalidateQueries({ queryKey: productKeys.all })
+      queryClient.invalidateQueries({ queryKey: ['reports', 'transfers'] })
+    }
+  })
+}
+
+export const useReceiveStockTransfer = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data?: ReceiveStockTransferData }) =>
+      stockTransfersService.receiveTransfer(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stockTransfers', 'list'] })
+      queryClient.invalidateQueries({ queryKey: productKeys.all })
+      queryClient.invalidateQueries({ queryKey: ['reports', 'transfers'] })
+    }
+  })
+}
@@ -1,5 +1,6 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { transactionService } from '../services/transactions'
+import type { CartQuoteRequest, CreateReturnData, VoidTransactionData } from '../types/transactions'
 
 export const useCreateTransaction = () => {
   const queryClient = useQueryClient()
@@ -19,6 +20,32 @@ export const useCreateTransaction = () => {
   })
 }
 
+export const useReturnTransaction = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: CreateReturnData }) =>
+      transactionService.returnTransaction(id, data),
+    onSuccess: (_result, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['transactions'] })
+      queryClient.invalidateQueries({ queryKey: ['transaction', id] })
+    }
+  })
+}
+
+export const useVoidTransaction = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: VoidTransactionData }) =>
+      transactionService.voidTransaction(id, data),
+    onSuccess: (_result, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['transactions'] })
+      queryClient.invalidateQueries({ queryKey: ['transaction', id] })
+    }
+  })
+}
+
 export const useTransaction = (id: string, enabled = true) => {
   return useQuery({
     queryKey: ['transaction', id],
@@ -50,11 +77,18 @@ export const useAgeVerification = () => {
 
 export const useTaxCalculation = () => {
   return useMutation({
-    mutationFn: ({ subtotal, storeId, customerId }: { 
-      subtotal: number
-      storeId?: string
-      customerId?: string 
-    }) => transactionService.calculateTax(subtotal, storeId, customerId)
+    mutationFn: transactionService.calculateTax
+  })
+}
+
+// Server price quote for the current cart; refetches whenever the cart or customer changes
+export const useCartQuote = (data: CartQuoteRequest) => {
+  return useQuery({
+    queryKey: ['transactions', 'quote', data],
+    queryFn: () => transactionService.quoteTransaction(data),
+    enabled: data.cartItems.length > 0,
+    staleTime: 60 * 1000, // 1 minute
+    refetchOnWindowFocus: false
   })
 }
 
@@ -0,0 +1,498 @@
+/**
+ * Parser for the PDF417 barcode on the back of North American driver's
+ * licenses and ID cards (AAMVA DL/ID Card Design Standard, versions 1-10).
+ *
+ * The payload is a header, a directory of subfiles and then the DL or ID
+ * subfile itself: three-letter element codes (DAQ, DBB, ...) each followed
+ * by a value and separated by line feeds. Keyboard-wedge scanners often
+ * mangle the control characters, so the parser locates fields by their
+ * codes rather than trusting separators and offsets alone, and reports
+ * anything out of place as an issue instead of failing outright.
+ */
+
+export type AamvaIssueCode =
+  | 'INVALID_HEADER'
+  | 'UNSUPPORTED_VERSION'
+  | 'MISSING_SUBFILE'
+  | 'MISSING_FIELD'
+  | 'INVALID_DATE'
+  | 'DOB_IN_FUTURE'
+  | 'UNKNOWN_IIN'
+  | 'IIN_JURISDICTION_MISMATCH'
+  | 'SUBFILE_OFFSET_MISMATCH'
+  | 'AMBIGUOUS_DATE_FORMAT'
+  | 'IMPLAUSIBLE_AGE'
+  | 'ISSUE_DATE_IN_FUTURE'
+  | 'EXPIRES_BEFORE_ISSUE'
+  | 'INVALID_ID_NUMBER'
+  | 'MISSING_NAME'
+
+// Errors mean the scan cannot be used; warnings mean the ID should be looked at by hand
+export type AamvaIssueSeverity = 'error' | 'warning'
+
+export interface AamvaIssue {
+  code: AamvaIssueCode
+  severity: AamvaIssueSeverity
+  message: string
+  element?: string
+}
+
+export interface AamvaAddress {
+  street: string
+  street2?: string
+  city: string
+  jurisdiction: string
+  postalCode: string
+}
+
+export interface AamvaLicense {
+  documentType: 'DL' | 'ID'
+  idNumber: string
+  firstName?: string
+  middleName?: string
+  lastName?: string
+  dateOfBirth: string // YYYY-MM-DD
+  expirationDate: string // YYYY-MM-DD
+  issueDate?: string // YYYY-MM-DD
+  issuingJurisdiction?: string
+  country: 'USA' | 'CAN'
+  address?: AamvaAddress
+}
+
+export interface AamvaParseResult {
+  valid: boolean
+  aamvaVersion?: number
+  jurisdictionVersion?: number
+  issuerIdentificationNumber?: string
+  license?: AamvaLicense
+  // Every element found in the DL/ID subfile, keyed by its three-letter code
+  elements: Record<string, string>
+  issues: AamvaIssue[]
+  // 0-1; 0 when the scan has errors, lowered for each warning
+  confidenceScore: number
+}
+
+export const MIN_AAMVA_VERSION = 1
+export const MAX_AAMVA_VERSION = 10
+
+// Oldest customer a scan is believed for before it is flagged
+const MAX_PLAUSIBLE_AGE = 120
+
+const WARNING_PENALTY = 0.2
+const OFFSET_MISMATCH_PENALTY = 0.05
+
+/**
+ * Issuer Identification Numbers assigned by AAMVA, mapped to the
+ * jurisdiction code the issuer prints in DAJ
+ */
+export const AAMVA_ISSUERS: Record<string, { jurisdiction: string; country: 'USA' | 'CAN' }> = {
+  '604426': { jurisdiction: 'PE', country: 'CAN' },
+  '604428': { jurisdiction: 'QC', country: 'CAN' },
+  '604429': { jurisdiction: 'YT', country: 'CAN' },
+  '604430': { jurisdiction: 'MP', country: 'USA' },
+  '604431': { jurisdiction: 'PR', country: 'USA' },
+  '604432': { jurisdiction: 'AB', country: 'CAN' },
+  '604433': { jurisdiction: 'NU', country: 'CAN' },
+  '604434': { jurisdiction: 'NT', country: 'CAN' },
+  '636000': { jurisdiction: 'VA', country: 'USA' },
+  '636001': { jurisdiction: 'NY', country: 'USA' },
+  '636002': { jurisdiction: 'MA', country: 'USA' },
+  '636003': { jurisdiction: 'MD', country: 'USA' },
+  '636004': { jurisdiction: 'NC', country: 'USA' },
+  '636005': { jurisdiction: 'SC', country: 'USA' },
+  '636006': { jurisdiction: 'CT', country: 'USA' },
+  '636007': { jurisdiction: 'LA', country: 'USA' },
+  '636008': { jurisdiction: 'MT', country: 'USA' },
+  '636009': { jurisdiction: 'NM', country: 'USA' },
+  '636010': { jurisdiction: 'FL', country: 'USA' },
+  '636011': { jurisdiction: 'DE', country: 'USA' },
+  '636012': { jurisdiction: 'ON', country: 'CAN' },
+  '636013': { jurisdiction: 'NS', country: 'CAN' },
+  '636014': { jurisdiction: 'CA', country: 'USA' },
+  '636015': { jurisdiction: 'TX', country: 'USA' },
+  '636016': { jurisdiction: 'NL', country: 'CAN' },
+  '636017': { jurisdiction: 'NB', country: 'CAN' },
+  '636018': { jurisdiction: 'IA', country: 'USA' },
+  '636019': { jurisdiction: 'GU', country: 'USA' },
+  '636020': { jurisdiction: 'CO', country: 'USA' },
+  '636021': { jurisdiction: 'AR', country: 'USA' },
+  '636022': { jurisdiction: 'KS', country: 'USA' },
+  '636023': { jurisdiction: 'OH', country: 'USA' },
+  '636024': { jurisdiction: 'VT', country: 'USA' },
+  '636025': { jurisdiction: 'PA', country: 'USA' },
+  '636026': { jurisdiction: 'AZ', country: 'USA' },
+  '636028': { jurisdiction: 'BC', country: 'CAN' },
+  '636029': { jurisdiction: 'OR', country: 'USA' },
+  '636030': { jurisdiction: 'MO', country: 'USA' },
+  '636031': { jurisdiction: 'WI', country: 'USA' },
+  '636032': { jurisdiction: 'MI', country: 'USA' },
+  '636033': { jurisdiction: 'AL', country: 'USA' },
+  '636034': { jurisdiction: 'ND', country: 'USA' },
+  '636035': { jurisdiction: 'IL', country: 'USA' },
+  '636036': { jurisdiction: 'NJ', country: 'USA' },
+  '636037': { jurisdiction: 'IN', country: 'USA' },
+  '636038': { jurisdiction: 'MN', country: 'USA' },
+  '636039': { jurisdiction: 'NH', country: 'USA' },
+  '636040': { jurisdiction: 'UT', country: 'USA' },
+  '636041': { jurisdiction: 'ME', country: 'USA' },
+  '636042': { jurisdiction: 'SD', country: 'USA' },
+  '636043': { jurisdiction: 'DC', country: 'USA' },
+  '636044': { jurisdiction: 'SK', country: 'CAN' },
+  '636045': { jurisdiction: 'WA', country: 'USA' },
+  '636046': { jurisdiction: 'KY', country: 'USA' },
+  '636047': { jurisdiction: 'HI', country: 'USA' },
+  '636048': { jurisdiction: 'MB', country: 'CAN' },
+  '636049': { jurisdiction: 'NV', country: 'USA' },
+  '636050': { jurisdiction: 'ID', country: 'USA' },
+  '636051': { jurisdiction: 'MS', country: 'USA' },
+  '636052': { jurisdiction: 'RI', country: 'USA' },
+  '636053': { jurisdiction: 'TN', country: 'USA' },
+  '636054': { jurisdiction: 'NE', country: 'USA' },
+  '636055': { jurisdiction: 'GA', country: 'USA' },
+  '636058': { jurisdiction: 'OK', country: 'USA' },
+  '636059': { jurisdiction: 'AK', country: 'USA' },
+  '636060': { jurisdiction: 'WY', country: 'USA' },
+  '636061': { jurisdiction: 'WV', country: 'USA' },
+  '636062': { jurisdiction: 'VI', country: 'USA' },
+}
+
+// "ANSI " since version 1; some early cards print "AAMVA"
+const HEADER_PATTERN = /(ANSI ?|AAMVA)(\d{6})(\d{2})/
+const DESIGNATOR_PATTERN = /^([A-Z]{2})(\d{4})(\d{4})/
+const ELEMENT_CODE_PATTERN = /^[A-Z]{3}$/
+const RECORD_SEPARATOR = '\u001e'
+
+interface SubfileDesignator {
+  type: string
+  offset: number
+  length: number
+}
+
+interface Header {
+  aamvaVersion: number
+  jurisdictionVersion?: number
+  issuerIdentificationNumber: string
+  designators: SubfileDesignator[]
+  directoryEnd: number
+}
+
+function issue(
+  code: AamvaIssueCode,
+  severity: AamvaIssueSeverity,
+  message: string,
+  element?: string,
+): AamvaIssue {
+  return element ? { code, severity, message, element } : { code, severity, message }
+}
+
+function parseHeader(raw: string, issues: AamvaIssue[]): Header | undefined {
+  const complianceIndicator = raw.indexOf('@')
+  const match = HEADER_PATTERN.exec(raw)
+  if (complianceIndicator === -1 || !match || match.index - complianceIndicator > 8) {
+    issues.push(issue('INVALID_HEADER', 'error', 'Barcode is not an AAMVA driver license or ID'))
+    return undefined
+  }
+
+  const aamvaVersion = parseInt(match[3], 10)
+  if (aamvaVersion < MIN_AAMVA_VERSION || aamvaVersion > MAX_AAMVA_VERSION) {
+    issues.push(issue('UNSUPPORTED_VERSION', 'error', `AAMVA version ${match[3]} is not supported`))
+    return undefined
+  }
+
+  // Version 1 headers have no jurisdiction version before the entry count
+  let position = match.index + match[0].length
+  let jurisdictionVersion: number | undefined
+  if (aamvaVersion > 1) {
+    jurisdictionVersion = parseInt(raw.slice(position, position + 2), 10)
+    position += 2
+  }
+  const entryCount = parseInt(raw.slice(position, position + 2), 10)
+  position += 2
+
+  const designators: SubfileDesignator[] = []
+  for (let i = 0; i < (Number.isNaN(entryCount) ? 0 : entryCount); i++) {
+    const designator = DESIGNATOR_PATTERN.exec(raw.slice(position))
+    if (!designator) break
+    designators.push({
+      type: designator[1],
+      offset: parseInt(designator[2], 10),
+      length: parseInt(designator[3], 10),
+    })
+    position += designator[0].length
+  }
+
+  return {
+    aamvaVersion,
+    jurisdictionVersion: Number.isNaN(jurisdictionVersion) ? undefined : jurisdictionVersion,
+    issuerIdentificationNumber: match[2],
+    designators,
+    directoryEnd: position,
+  }
+}
+
+// Finds the DL or ID subfile, preferring its directory offset and falling back to a search
+function findSubfile(
+  raw: string,
+  header: Header,
+  issues: AamvaIssue[],
+): { type: 'DL' | 'ID'; content: string } | undefined {
+  const complianceIndicator = raw.indexOf('@')
+  for (const type of ['DL', 'ID'] as const) {
+    const designator = header.designators.find((entry) => entry.type === type)
+    const atOffset = designator ? complianceIndicator + designator.offset : -1
+    if (designator && raw.startsWith(type, atOffset)) {
+      return { type, content: raw.slice(atOffset + 2, atOffset + designator.length) }
+    }
+
+    const found = raw.indexOf(type, header.directoryEnd)
+    if (found !== -1 && /^[A-Z]{3}/.test(raw.slice(found + 2))) {
+      if (designator) {
+        issues.push(
+          issue(
+            'SUBFILE_OFFSET_MISMATCH',
+            'warning',
+            `${type} subfile is not where the barcode directory says it is`,
+          ),
+        )
+      }
+      return { type, content: raw.slice(found + 2) }
+    }
+  }
+
+  issues.push(issue('MISSING_SUBFILE', 'error', 'Barcode has no driver license or ID data'))
+  return undefined
+}
+
+function parseElements(content: string): Record<string, string> {
+  const elements: Record<string, string> = {}
+  for (const line of content
+    .split(RECORD_SEPARATOR)
+    .join('\n')
+    .split(/[\n\r]+/)) {
+    const code = line.slice(0, 3)
+    // The first value of each code wins; later copies are usually padding or jurisdiction extras
+    if (ELEMENT_CODE_PATTERN.test(code) && !(code in elements)) {
+      elements[code] = line.slice(3).trim()
+    }
+  }
+  return elements
+}
+
+function toIsoDate(year: string, month: string, day: string): string | undefined {
+  const iso = `${year}-${month}-${day}`
+  const date = new Date(`${iso}T00:00:00.000Z`)
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === iso ? iso : undefined
+}
+
+/**
+ * Reads an AAMVA date. Version 1 and Canadian cards use CCYYMMDD; US cards
+ * from version 2 on use MMDDCCYY. A date that only makes sense in the other
+ * layout is still read, but flagged.
+ */
+function parseAamvaDate(
+  value: string | undefined,
+  element: string,
+  yearFirst: boolean,
+  issues: AamvaIssue[],
+): string | undefined {
+  const digits = value?.replace(/\D/g, '')
+  if (!digits || digits.length !== 8) return undefined
+
+  const asYearFirst = toIsoDate(digits.slice(0, 4), digits.slice(4, 6), digits.slice(6, 8))
+  const asMonthFirst = toIsoDate(digits.slice(4, 8), digits.slice(0, 2), digits.slice(2, 4))
+  const preferred = yearFirst ? asYearFirst : asMonthFirst
+  if (preferred) return preferred
+
+  const fallback = yearFirst ? asMonthFirst : asYearFirst
+  if (fallback) {
+    issues.push(
+      issue(
+        'AMBIGUOUS_DATE_FORMAT',
+        'warning',
+        `${element} is not in the date layout this card version uses`,
+        element,
+      ),
+    )
+  }
+  return fallback
+}
+
+function formatPostalCode(value: string, country: 'USA' | 'CAN'): string {
+  const code = value.replace(/\s+/g, '')
+  if (country === 'CAN') return code
+  // ZIP+4 is printed as nine digits, with zeros when the card has no +4
+  const plusFour = code.slice(5, 9)
+  return plusFour && plusFour !== '0000' ? `${code.slice(0, 5)}-${plusFour}` : code.slice(0, 5)
+}
+
+// Family, first and middle names across the layouts used by versions 1-10
+function parseName(elements: Record<string, string>): {
+  firstName?: string
+  middleName?: string
+  lastName?: string
+} {
+  const fullName = elements.DAA?.split(/[,$]/).map((part) => part.trim())
+  const givenNames = elements.DCT?.split(/[,$ ]+/).filter(Boolean)
+  const value = (...candidates: (string | undefined)[]) =>
+    candidates.find((candidate) => candidate && candidate !== 'NONE' && candidate !== 'unavail')
+
+  return {
+    lastName: value(elements.DCS, elements.DAB, fullName?.[0]),
+    firstName: value(elements.DAC, givenNames?.[0], fullName?.[1]),
+    middleName: value(elements.DAD, givenNames?.slice(1).join(' '), fullName?.[2]),
+  }
+}
+
+function yearsBetween(from: string, to: Date): number {
+  const birth = new Date(`${from}T00:00:00.000Z`)
+  let years = to.getUTCFullYear() - birth.getUTCFullYear()
+  const monthDiff = to.getUTCMonth() - birth.getUTCMonth()
+  if (monthDiff < 0 || (monthDiff === 0 && to.getUTCDate() < birth.getUTCDate())) years--
+  return years
+}
+
+function scoreConfidence(issues: AamvaIssue[]): number {
+  if (issues.some((entry) => entry.severity === 'error')) return 0
+  const penalty = issues.reduce(
+    (sum, entry) =>
+      sum + (entry.code === 'SUBFILE_OFFSET_MISMATCH' ? OFFSET_MISMATCH_PENALTY : WARNING_PENALTY),
+    0,
+  )
+  return Math.max(0, Math.round((1 - penalty) * 100) / 100)
+}
+
+/**
+ * Parses the raw text a PDF417 scanner emits for a driver license or ID card
+ */
+export function parseAamvaBarcode(raw: string, now = new Date()): AamvaParseResult {
+  const issues: AamvaIssue[] = []
+  const result = (
+    fields: Omit<AamvaParseResult, 'valid' | 'issues' | 'confidenceScore' | 'elements'> & {
+      elements?: Record<string, string>
+    } = {},
+  ): AamvaParseResult => ({
+    ...fields,
+    elements: fields.elements || {},
+    issues,
+    valid: !issues.some((entry) => entry.severity === 'error'),
+    confidenceScore: scoreConfidence(issues),
+  })
+
+  const header = parseHeader(raw, issues)
+  if (!header) return result()
+
+  const versionFields = {
+    aamvaVersion: header.aamvaVersion,
+    jurisdictionVersion: header.jurisdictionVersion,
+    issuerIdentificationNumber: header.issuerIdentificationNumber,
+  }
+
+  const subfile = findSubfile(raw, header, issues)
+  if (!subfile) return result(versionFields)
+
+  const elements = parseElements(subfile.content)
+  const issuer = AAMVA_ISSUERS[header.issuerIdentificationNumber]
+  if (!issuer) {
+    issues.push(
+      issue(
+        'UNKNOWN_IIN',
+        'warning',
+        `Issuer ${header.issuerIdentificationNumber} is not a known AAMVA jurisdiction`,
+      ),
+    )
+  }
+
+  const issuingJurisdiction = elements.DAJ?.toUpperCase() || issuer?.jurisdiction
+  if (issuer && elements.DAJ && issuer.jurisdiction !== issuingJurisdiction) {
+    issues.push(
+      issue(
+        'IIN_JURISDICTION_MISMATCH',
+        'warning',
+        `Card says it was issued in ${issuingJurisdiction} but its issuer number belongs to ${issuer.jurisdiction}`,
+        'DAJ',
+      ),
+    )
+  }
+
+  const country: 'USA' | 'CAN' =
+    elements.DCG === 'CAN' || (!elements.DCG && issuer?.country === 'CAN') ? 'CAN' : 'USA'
+  const yearFirst = header.aamvaVersion === 1 || country === 'CAN'
+
+  const requireElement = (code: string, label: string): string | undefined => {
+    if (!elements[code]) {
+      issues.push(issue('MISSING_FIELD', 'error', `${label} (${code}) is missing`, code))
+    }
+    return elements[code]
+  }
+  const requireDate = (code: string, label: string): string | undefined => {
+    const value = requireElement(code, label)
+    if (!value) return undefined
+    const date = parseAamvaDate(value, code, yearFirst, issues)
+    if (!date) {
+      issues.push(issue('INVALID_DATE', 'error', `${label} (${code}) is not a valid date`, code))
+    }
+    return date
+  }
+
+  const idNumber = requireElement('DAQ', 'ID number')
+  const dateOfBirth = requireDate('DBB', 'Date of birth')
+  const expirationDate = requireDate('DBA', 'Expiration date')
+  const issueDate = elements.DBD
+    ? parseAamvaDate(elements.DBD, 'DBD', yearFirst, issues)
+    : undefined
+
+  if (idNumber && !/^[A-Z0-9 -]+$/i.test(idNumber)) {
+    issues.push(
+      issue('INVALID_ID_NUMBER', 'warning', 'ID number contains unexpected characters', 'DAQ'),
+    )
+  }
+
+  const today = now.toISOString().slice(0, 10)
+  if (dateOfBirth && dateOfBirth > today) {
+    issues.push(issue('DOB_IN_FUTURE', 'error', 'Date of birth is in the future', 'DBB'))
+  } else if (dateOfBirth && yearsBetween(dateOfBirth, now) > MAX_PLAUSIBLE_AGE) {
+    issues.push(
+      issue('IMPLAUSIBLE_AGE', 'warning', `Date of birth ${dateOfBirth} is not plausible`, 'DBB'),
+    )
+  }
+  if (issueDate && issueDate > today) {
+    issues.push(issue('ISSUE_DATE_IN_FUTURE', 'warning', 'Issue date is in the future', 'DBD'))
+  }
+  if (issueDate && expirationDate && expirationDate < issueDate) {
+    issues.push(
+      issue('EXPIRES_BEFORE_ISSUE', 'warning', 'Card expires before it was issued', 'DBA'),
+    )
+  }
+
+  const name = parseName(elements)
+  if (!name.lastName && !name.firstName) {
+    issues.push(issue('MISSING_NAME', 'warning', 'Card holder name is missing'))
+  }
+
+  const address: AamvaAddress | undefined = elements.DAG
+    ? {
+        street: elements.DAG,
+        street2: elements.DAH || undefined,
+        city: elements.DAI || '',
+        jurisdiction: issuingJurisdiction || '',
+        postalCode: formatPostalCode(elements.DAK || '', country),
+      }
+    : undefined
+
+  const license: AamvaLicense | undefined =
+    idNumber && dateOfBirth && expirationDate
+      ? {
+          documentType: subfile.type,
+          idNumber,
+          ...name,
+          dateOfBirth,
+          expirationDate,
+          issueDate,
+          issuingJurisdiction,
+          country,
+          address,
+        }
+      : undefined
+
+  return result({ ...versionFields, license, elements })
+}
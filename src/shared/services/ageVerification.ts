@@ -1,123 +1,74 @@
 import { api } from './api'
-
-export interface AgeVerificationData {
-  customerId?: string
-  transactionId?: string
-  idType: 'drivers_license' | 'state_id' | 'passport' | 'military_id'
+import type {
+  AgeVerificationRequest,
+  AgeVerificationResult,
+  AgeVerificationOverrideRequest,
+  AgeVerificationHistoryEntry,
+  AgeVerificationPolicy,
+  IdType
+} from '../types/ageVerification'
+import { parseAamvaBarcode } from './aamva'
+import { checkIdAgainstPolicy } from './ageVerificationLog'
+import type { AamvaAddress } from './aamva'
+
+export type {
+  AgeVerificationResult,
+  AgeVerificationOverrideRequest,
+  AgeVerificationHistoryEntry,
+  AgeVerificationPolicy
+} from '../types/ageVerification'
+
+// What the cashier keys in or scans; only the fields in AgeVerificationRequest are sent
+export interface AgeVerificationData extends AgeVerificationRequest {
   idNumber: string
-  idIssuingState?: string
-  idExpirationDate: string
-  customerDob: string
-  calculatedAge: number
-  verificationMethod: 'manual' | 'scanner' | 'digital'
-  scannerData?: {
-    model?: string
-    softwareVersion?: string
-    confidenceScore?: number
-    rawData?: any
-  }
-  employeeId: string
-  storeId: string
+  // Shown while typing; the server works out the age that counts
+  calculatedAge?: number
 }
 
-export interface AgeVerificationResult {
-  isVerified: boolean
-  verificationId: string
-  calculatedAge: number
-  minAge: number
-  reasonForDenial?: string
-  requiresManagerOverride?: boolean
-  complianceWarnings?: string[]
-}
-
-export interface ManagerOverride {
-  verificationId: string
-  managerId: string
-  reason: string
-  notes?: string
+export interface ScannedIdResult {
+  success: boolean
+  data?: {
+    idType: IdType
+    idNumber: string
+    firstName?: string
+    middleName?: string
+    lastName?: string
+    dateOfBirth: string
+    expirationDate: string
+    issuingState?: string
+    address?: AamvaAddress
+  }
+  // Anything odd about the barcode; check these against the card itself
+  warnings?: string[]
+  confidenceScore?: number
+  error?: string
 }
 
 export const ageVerificationService = {
-  // Verify customer age
+  // Record an ID check; the server works out the age and whether it passed
   async verifyAge(data: AgeVerificationData): Promise<AgeVerificationResult> {
-    try {
-      // Calculate age from DOB
-      const birthDate = new Date(data.customerDob)
-      const today = new Date()
-      let age = today.getFullYear() - birthDate.getFullYear()
-      const monthDiff = today.getMonth() - birthDate.getMonth()
-      
-      if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
-        age--
-      }
-
-      // Check if ID is expired
-      const expirationDate = new Date(data.idExpirationDate)
-      const isExpired = expirationDate < today
-
-      // Compliance checks
-      const warnings: string[] = []
-      
-      if (isExpired) {
-        warnings.push('ID has expired')
-      }
-
-      if (age < 18) {
-        warnings.push('Customer is under 18')
-      }
-
-      if (age >= 18 && age < 21) {
-        warnings.push('Customer is under 21 (tobacco age restriction)')
-      }
-
-      // Determine verification result
-      const minAge = 21 // Tobacco age requirement
-      const isVerified = age >= minAge && !isExpired
-      
-      let reasonForDenial: string | undefined
-      if (age < minAge) {
-        reasonForDenial = `Customer age (${age}) is below minimum age requirement (${minAge})`
-      } else if (isExpired) {
-        reasonForDenial = 'Expired identification document'
-      }
-
-      // Create verification log
-      const response = await api.post('/api/age-verification', {
-        ...data,
-        calculatedAge: age,
-        isVerified,
-        reasonForDenial,
-        complianceWarnings: warnings
-      })
-
-      return {
-        isVerified,
-        verificationId: response.data.verificationId,
-        calculatedAge: age,
-        minAge,
-        reasonForDenial,
-        requiresManagerOverride: !isVerified && age >= 18,
-        complianceWarnings: warnings
-      }
-    } catch (error) {
-      console.error('Age verification error:', error)
-      throw new Error('Age verification failed')
+    const request: AgeVerificationRequest = {
+      customerId: data.customerId,
+      idType: data.idType,
+      idIssuingState: data.idIssuingState,
+      idExpirationDate: data.idExpirationDate,
+      customerDob: data.customerDob,
+      verificationMethod: data.verificationMethod,
+      scannerData: data.scannerData,
+      storeId: data.storeId
     }
+    const response = await api.post('/api/age-verification', request)
+    return response.data
   },
 
-  // Process manager override
-  async processManagerOverride(override: ManagerOverride): Promise<boolean> {
-    try {
-      await api.post('/api/age-verification/override', override)
-      return true
-    } catch (error) {
-      console.error('Manager override error:', error)
-      return false
-    }
+  // Manager override of a failed check
+  async processManagerOverride(override: AgeVerificationOverrideRequest): Promise<AgeVerificationResult> {
+    const response = await api.post('/api/age-verification/override', override)
+    return response.data
   },
 
   // Get verification history
-  async getVerificationHistory(customerId?: string, days = 30) {
+  async getVerificationHistory(customerId?: string, days = 30): Promise<AgeVerificationHistoryEntry[]> {
     try {
       const response = await api.get('/api/age-verification/history', {
         params: { customerId, days }
@@ -171,75 +122,52 @@ export const ageVerificationService = {
     return new Date(expirationDate) < new Date()
   },
 
-  // Mock ID scanner integration
-  async scanId(scannerType: 'barcode' | 'magnetic' | 'rfid'): Promise<{
-    success: boolean
-    data?: {
-      idType: string
-      idNumber: string
-      firstName: string
-      lastName: string
-      dateOfBirth: string
-      expirationDate: string
-      issuingState: string
-      address?: string
-    }
-    error?: string
-  }> {
-    // Simulate scanner processing time
-    await new Promise(resolve => setTimeout(resolve, 2000))
-
-    // Mock successful scan (80% success rate)
-    if (Math.random() > 0.2) {
-      return {
-        success: true,
-        data: {
-          idType: 'drivers_license',
-          idNumber: 'DL123456789',
-          firstName: 'John',
-          lastName: 'Doe',
-          dateOfBirth: '1990-05-15',
-          expirationDate: '2025-05-15',
-          issuingState: 'NY',
-          address: '123 Main St, Anytown, NY 12345'
-        }
-      }
-    } else {
+  // Read the PDF417 payload a keyboard-wedge scanner typed in; the server reads it again on submit
+  scanId(rawData: string): ScannedIdResult {
+    const scan = parseAamvaBarcode(rawData)
+    if (!scan.valid || !scan.license) {
+      const problem = scan.issues.find(issue => issue.severity === 'error')
       return {
         success: false,
-        error: 'Failed to read ID. Please try again or enter information manually.'
+        error: problem
+          ? `${problem.message}. Please scan again or enter information manually.`
+          : 'Failed to read ID. Please try again or enter information manually.'
       }
     }
-  },
 
-  // Get state-specific compliance rules
-  getStateCompliance(state: string) {
-    const stateRules: Record<string, {
-      tobaccoAge: number
-      acceptableIds: string[]
-      specialRequirements: string[]
-    }> = {
-      'NY': {
-        tobaccoAge: 21,
-        acceptableIds: ['drivers_license', 'state_id', 'passport'],
-        specialRequirements: ['Must be valid (not expired)', 'Photo must be clearly visible']
-      },
-      'CA': {
-        tobaccoAge: 21,
-        acceptableIds: ['drivers_license', 'state_id', 'passport', 'military_id'],
-        specialRequirements: ['Must be valid (not expired)', 'Real ID compliant preferred']
+    const { license } = scan
+    return {
+      success: true,
+      data: {
+        idType: license.documentType === 'ID' ? 'state_id' : 'drivers_license',
+        idNumber: license.idNumber,
+        firstName: license.firstName,
+        middleName: license.middleName,
+        lastName: license.lastName,
+        dateOfBirth: license.dateOfBirth,
+        expirationDate: license.expirationDate,
+        issuingState: license.issuingJurisdiction,
+        address: license.address
       },
-      'TX': {
-        tobaccoAge: 21,
-        acceptableIds: ['drivers_license', 'state_id', 'passport', 'military_id'],
-        specialRequirements: ['Must be valid (not expired)', 'Out-of-state IDs require additional verification']
-      }
+      warnings: scan.issues.filter(issue => issue.severity === 'warning').map(issue => issue.message),
+      confidenceScore: scan.confidenceScore
     }
+  },
 
-    return stateRules[state] || {
-      tobaccoAge: 21,
-      acceptableIds: ['drivers_license', 'state_id', 'passport'],
-      specialRequirements: ['Must be valid (not expired)']
-    }
+  // Minimum age and ID rules in force at a store
+  async getPolicy(storeId?: string): Promise<AgeVerificationPolicy> {
+    const response = await api.get('/api/age-verification/policy', { params: { storeId } })
+    return response.data
+  },
+
+  // Same check the server makes, so the cashier hears about an unacceptable ID before submitting
+  checkIdAgainstPolicy(
+    id: { idType: IdType; idIssuingState?: string },
+    policy: AgeVerificationPolicy
+  ): { reason: string; overridable: boolean } | undefined {
+    return checkIdAgainstPolicy(
+      { idType: id.idType, idIssuingState: id.idIssuingState?.trim().toUpperCase() || undefined },
+      policy
+    )
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,569 @@
+import type {
+  Prisma,
+  AgeVerificationLog,
+  ComplianceRule,
+  StoreLocation,
+} from '../../generated/prisma'
+import type {
+  AgeVerificationHistoryEntry,
+  AgeVerificationPolicy,
+  AgeVerificationResult,
+  IdType,
+  ScannerData,
+  VerificationMethod,
+} from '../types/ageVerification'
+import type { ComplianceRuleDetails, OutOfStateIdPolicy } from '../types/database'
+import { parseAamvaBarcode } from './aamva'
+import { getStoreJurisdictions, loadActiveComplianceRules } from './complianceEngine'
+
+/**
+ * Server side of ID checks at the register.
+ *
+ * The register submits what is printed on the ID; the customer's age and
+ * whether the check passed are worked out here and kept on an
+ * AgeVerificationLog. Checkout then references that log by id, and each log
+ * can back exactly one sale. The minimum age and which IDs are accepted come
+ * from the AGE_VERIFICATION compliance rules for the store's jurisdictions.
+ */
+
+export const ID_TYPES: IdType[] = ['drivers_license', 'state_id', 'passport', 'military_id']
+
+export const VERIFICATION_METHODS: VerificationMethod[] = ['manual', 'scanner', 'digital']
+
+const ID_TYPE_LABELS: Record<IdType, string> = {
+  drivers_license: "Driver's license",
+  state_id: 'State ID',
+  passport: 'Passport',
+  military_id: 'Military ID',
+}
+
+// Compliance rules spell ID types in upper case ("DRIVER_LICENSE")
+const RULE_ID_TYPES: Record<string, IdType> = {
+  DRIVER_LICENSE: 'drivers_license',
+  DRIVERS_LICENSE: 'drivers_license',
+  STATE_ID: 'state_id',
+  PASSPORT: 'passport',
+  MILITARY_ID: 'military_id',
+}
+
+export const RULE_ID_TYPE_CODES = Object.keys(RULE_ID_TYPES)
+
+// Least to most strict; when rules disagree the strictest wins
+export const OUT_OF_STATE_ID_POLICIES: OutOfStateIdPolicy[] = [
+  'ACCEPT',
+  'MANAGER_APPROVAL',
+  'REJECT',
+]
+
+// Only state-issued IDs have a home state to compare with the store's
+const STATE_ISSUED_ID_TYPES: IdType[] = ['drivers_license', 'state_id']
+
+// Federal minimum age for tobacco and nicotine products
+export const DEFAULT_MINIMUM_AGE = 21
+
+// How long after the ID check the verification can still be used at checkout
+export const VERIFICATION_VALID_MINUTES = 30
+
+// Raised when a verification request is malformed or a verification cannot back a sale
+export class AgeVerificationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AgeVerificationError'
+  }
+}
+
+export interface ParsedAgeVerification {
+  customerId?: string
+  storeId?: string
+  idType: IdType
+  idIssuingState?: string
+  idExpirationDate: Date
+  customerDob: Date
+  verificationMethod: VerificationMethod
+  scannerData?: ScannerData
+}
+
+export interface AgeEvaluation {
+  calculatedAge: number
+  isVerified: boolean
+  reasonForDenial?: string
+  requiresManagerOverride: boolean
+  complianceWarnings: string[]
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined
+}
+
+function parseOption<T extends string>(value: unknown, options: readonly T[], field: string): T {
+  if (!options.includes(value as T)) {
+    throw new AgeVerificationError(`${field} must be one of ${options.join(', ')}`)
+  }
+  return value as T
+}
+
+// Calendar dates only, as UTC midnight to match @db.Date columns
+function parseCalendarDate(value: unknown, field: string): Date {
+  const match = typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})/.exec(value) : null
+  const date = match ? new Date(`${match[1]}-${match[2]}-${match[3]}T00:00:00.000Z`) : undefined
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new AgeVerificationError(`${field} must be a date in the form YYYY-MM-DD`)
+  }
+  return date
+}
+
+function parseScannerData(value: unknown): ScannerData | undefined {
+  if (value === undefined || value === null) return undefined
+  if (typeof value !== 'object') {
+    throw new AgeVerificationError('scannerData must be an object')
+  }
+  const data = value as Record<string, unknown>
+  const confidenceScore = data.confidenceScore ?? undefined
+  if (
+    confidenceScore !== undefined &&
+    (typeof confidenceScore !== 'number' || confidenceScore < 0 || confidenceScore > 1)
+  ) {
+    throw new AgeVerificationError('scannerData.confidenceScore must be between 0 and 1')
+  }
+  return {
+    model: asString(data.model),
+    softwareVersion: asString(data.softwareVersion),
+    confidenceScore: confidenceScore as number | undefined,
+    rawData: data.rawData,
+  }
+}
+
+/**
+ * Checks an ID submitted by the register. Any age or outcome the register
+ * worked out itself is ignored.
+ */
+export function parseAgeVerificationRequest(input: unknown): ParsedAgeVerification {
+  if (!input || typeof input !== 'object') {
+    throw new AgeVerificationError('Verification must be an object')
+  }
+  const request = input as Record<string, unknown>
+
+  const idIssuingState = asString(request.idIssuingState)?.toUpperCase()
+  if (idIssuingState && !/^[A-Z]{2}$/.test(idIssuingState)) {
+    throw new AgeVerificationError('idIssuingState must be a two-letter state code')
+  }
+
+  return {
+    customerId: asString(request.customerId),
+    storeId: asString(request.storeId),
+    idType: parseOption(request.idType, ID_TYPES, 'idType'),
+    idIssuingState,
+    idExpirationDate: parseCalendarDate(request.idExpirationDate, 'idExpirationDate'),
+    customerDob: parseCalendarDate(request.customerDob, 'customerDob'),
+    verificationMethod: parseOption(
+      request.verificationMethod ?? 'manual',
+      VERIFICATION_METHODS,
+      'verificationMethod',
+    ),
+    scannerData: parseScannerData(request.scannerData),
+  }
+}
+
+export interface ScannedId {
+  request: ParsedAgeVerification
+  // Problems with the barcode the cashier should check against the card
+  warnings: string[]
+}
+
+/**
+ * For scanned IDs, reads the raw barcode again on the server and takes the
+ * ID type, dates and issuing state from it rather than from the form.
+ * A barcode that cannot be read is rejected; manual entry is the fallback.
+ */
+export function applyBarcodeScan(request: ParsedAgeVerification, now: Date): ScannedId {
+  const rawData = request.scannerData?.rawData
+  if (request.verificationMethod !== 'scanner' || typeof rawData !== 'string') {
+    return { request, warnings: [] }
+  }
+
+  const scan = parseAamvaBarcode(rawData, now)
+  if (!scan.valid || !scan.license) {
+    const problem = scan.issues.find((entry) => entry.severity === 'error')
+    throw new AgeVerificationError(
+      `Scanned ID could not be read: ${problem?.message || 'no license data'}`,
+    )
+  }
+
+  const { license } = scan
+  const issuingState = license.issuingJurisdiction
+  return {
+    request: {
+      ...request,
+      idType: license.documentType === 'ID' ? 'state_id' : 'drivers_license',
+      idIssuingState:
+        issuingState && /^[A-Z]{2}$/.test(issuingState) ? issuingState : request.idIssuingState,
+      customerDob: parseCalendarDate(license.dateOfBirth, 'customerDob'),
+      idExpirationDate: parseCalendarDate(license.expirationDate, 'idExpirationDate'),
+      scannerData: {
+        ...request.scannerData,
+        confidenceScore: scan.confidenceScore,
+        rawData: {
+          aamvaVersion: scan.aamvaVersion,
+          jurisdictionVersion: scan.jurisdictionVersion,
+          issuerIdentificationNumber: scan.issuerIdentificationNumber,
+          elements: scan.elements,
+          issues: scan.issues,
+        },
+      },
+    },
+    warnings: scan.issues
+      .filter((entry) => entry.severity === 'warning')
+      .map((entry) => entry.message),
+  }
+}
+
+export function toIdType(code: string): IdType | undefined {
+  return RULE_ID_TYPES[
+    code
+      .trim()
+      .toUpperCase()
+      .replace(/[^A-Z]+/g, '_')
+  ]
+}
+
+/**
+ * Combines the AGE_VERIFICATION rules in force at a store into one policy.
+ * The highest minimum age and carding age apply, an ID type must be accepted
+ * by every rule that lists ID types, and the strictest out-of-state policy wins.
+ * With no rules the federal minimum age applies and every ID type is accepted.
+ */
+export function resolveAgeVerificationPolicy(
+  rules: ComplianceRule[],
+  store: Pick<StoreLocation, 'id' | 'stateCode'>,
+): AgeVerificationPolicy {
+  const ageRules = rules.filter((rule) => rule.ruleType === 'AGE_VERIFICATION')
+
+  let minimumAge: number | undefined
+  let requireIdUnder: number | undefined
+  let acceptableIdTypes = [...ID_TYPES]
+  let outOfStateIds: OutOfStateIdPolicy = 'ACCEPT'
+
+  for (const rule of ageRules) {
+    const details = (rule.ruleDetails || {}) as ComplianceRuleDetails
+    if (details.minAge && (!minimumAge || details.minAge > minimumAge)) {
+      minimumAge = details.minAge
+    }
+    if (details.requireIdUnder && (!requireIdUnder || details.requireIdUnder > requireIdUnder)) {
+      requireIdUnder = details.requireIdUnder
+    }
+    if (details.acceptableIds?.length) {
+      const accepted = details.acceptableIds.map(toIdType)
+      acceptableIdTypes = acceptableIdTypes.filter((idType) => accepted.includes(idType))
+    }
+    if (
+      details.outOfStateIds &&
+      OUT_OF_STATE_ID_POLICIES.indexOf(details.outOfStateIds) >
+        OUT_OF_STATE_ID_POLICIES.indexOf(outOfStateIds)
+    ) {
+      outOfStateIds = details.outOfStateIds
+    }
+  }
+
+  return {
+    storeId: store.id,
+    stateCode: store.stateCode.toUpperCase(),
+    minimumAge: minimumAge ?? DEFAULT_MINIMUM_AGE,
+    requireIdUnder,
+    acceptableIdTypes,
+    outOfStateIds,
+    ruleIds: ageRules.map((rule) => rule.id),
+  }
+}
+
+/**
+ * Loads the age verification policy in force at a store at the given moment
+ */
+export async function loadAgeVerificationPolicy(
+  client: Prisma.TransactionClient,
+  store: Pick<StoreLocation, 'id' | 'countryCode' | 'stateCode' | 'county' | 'city' | 'timezone'>,
+  at: Date,
+): Promise<AgeVerificationPolicy> {
+  const rules = await loadActiveComplianceRules(
+    client,
+    getStoreJurisdictions(store),
+    at,
+    store.timezone,
+  )
+  return resolveAgeVerificationPolicy(rules, store)
+}
+
+/**
+ * Checks the kind of ID against the store's policy, whatever the customer's age.
+ * Returns why the ID cannot be used and whether a manager may accept it anyway.
+ */
+export function checkIdAgainstPolicy(
+  id: { idType: IdType; idIssuingState?: string },
+  policy: AgeVerificationPolicy,
+): { reason: string; overridable: boolean } | undefined {
+  const label = ID_TYPE_LABELS[id.idType]
+  if (!policy.acceptableIdTypes.includes(id.idType)) {
+    return { reason: `${label} is not accepted in ${policy.stateCode}`, overridable: false }
+  }
+
+  if (!STATE_ISSUED_ID_TYPES.includes(id.idType) || policy.outOfStateIds === 'ACCEPT') {
+    return undefined
+  }
+  if (!id.idIssuingState) {
+    return {
+      reason: `Issuing state is required for a ${label.toLowerCase()} in ${policy.stateCode}`,
+      overridable: false,
+    }
+  }
+  if (id.idIssuingState === policy.stateCode) return undefined
+
+  return policy.outOfStateIds === 'REJECT'
+    ? {
+        reason: `Out-of-state IDs (${id.idIssuingState}) are not accepted in ${policy.stateCode}`,
+        overridable: false,
+      }
+    : {
+        reason: `Out-of-state ID (${id.idIssuingState}) requires manager approval`,
+        overridable: true,
+      }
+}
+
+/**
+ * Applies the store's ID policy on top of the age and expiry evaluation.
+ * A manager can only accept the ID when every reason it failed is overridable.
+ */
+export function applyIdPolicy(
+  evaluation: AgeEvaluation,
+  id: { idType: IdType; idIssuingState?: string },
+  policy: AgeVerificationPolicy,
+): AgeEvaluation {
+  const denial = checkIdAgainstPolicy(id, policy)
+  if (!denial) return evaluation
+
+  const oldEnough = evaluation.calculatedAge >= policy.minimumAge
+  return {
+    ...evaluation,
+    isVerified: false,
+    reasonForDenial: [evaluation.reasonForDenial, denial.reason].filter(Boolean).join('; '),
+    requiresManagerOverride: oldEnough && denial.overridable,
+    complianceWarnings: [...evaluation.complianceWarnings, denial.reason],
+  }
+}
+
+/**
+ * Whole years between a date of birth and a calendar date, both as UTC midnight.
+ * Someone born on 29 February turns a year older on 1 March in common years.
+ */
+export function calculateAge(dateOfBirth: Date, today: Date): number {
+  let age = today.getUTCFullYear() - dateOfBirth.getUTCFullYear()
+  const monthDiff = today.getUTCMonth() - dateOfBirth.getUTCMonth()
+  if (monthDiff < 0 || (monthDiff === 0 && today.getUTCDate() < dateOfBirth.getUTCDate())) {
+    age--
+  }
+  return age
+}
+
+/**
+ * Decides whether an ID proves the customer is old enough, on the store's
+ * calendar date. An ID is valid through its expiration date.
+ *
+ * Only an expired ID held by a customer who is old enough can be overridden
+ * by a manager; nobody can override an underage customer.
+ */
+export function evaluateAgeVerification(
+  customerDob: Date,
+  idExpirationDate: Date,
+  today: Date,
+  minimumAge = DEFAULT_MINIMUM_AGE,
+): AgeEvaluation {
+  if (customerDob > today) {
+    throw new AgeVerificationError('customerDob cannot be in the future')
+  }
+
+  const calculatedAge = calculateAge(customerDob, today)
+  const isExpired = idExpirationDate < today
+  const oldEnough = calculatedAge >= minimumAge
+
+  const complianceWarnings: string[] = []
+  if (isExpired) complianceWarnings.push('ID has expired')
+  if (calculatedAge < 18) {
+    complianceWarnings.push('Customer is under 18')
+  } else if (!oldEnough) {
+    complianceWarnings.push(`Customer is under ${minimumAge} (tobacco age restriction)`)
+  }
+
+  let reasonForDenial: string | undefined
+  if (!oldEnough) {
+    reasonForDenial = `Customer age (${calculatedAge}) is below minimum age requirement (${minimumAge})`
+  } else if (isExpired) {
+    reasonForDenial = 'Expired identification document'
+  }
+
+  return {
+    calculatedAge,
+    isVerified: oldEnough && !isExpired,
+    reasonForDenial,
+    requiresManagerOverride: oldEnough && isExpired,
+    complianceWarnings,
+  }
+}
+
+// The kind of ID a log recorded, for checking against a policy
+function loggedId(
+  log: AgeVerificationLog,
+): { idType: IdType; idIssuingState?: string } | undefined {
+  return ID_TYPES.includes(log.idType as IdType)
+    ? { idType: log.idType as IdType, idIssuingState: log.idIssuingState || undefined }
+    : undefined
+}
+
+export function toAgeVerificationResult(
+  log: AgeVerificationLog,
+  policy?: AgeVerificationPolicy,
+  complianceWarnings: string[] = [],
+): AgeVerificationResult {
+  const calculatedAge = log.calculatedAge ?? 0
+  const minimumAge = policy?.minimumAge ?? DEFAULT_MINIMUM_AGE
+  const id = loggedId(log)
+  const denial = policy && id ? checkIdAgainstPolicy(id, policy) : undefined
+  return {
+    isVerified: log.isVerified || log.managerOverride,
+    verificationId: log.id,
+    calculatedAge,
+    minAge: minimumAge,
+    reasonForDenial: log.managerOverride ? undefined : log.reasonForDenial || undefined,
+    requiresManagerOverride:
+      !log.isVerified &&
+      !log.managerOverride &&
+      calculatedAge >= minimumAge &&
+      (!denial || denial.overridable),
+    complianceWarnings,
+    managerOverride: log.managerOverride,
+    verifiedAt: log.verificationDate.toISOString(),
+  }
+}
+
+export function toAgeVerificationHistoryEntry(
+  log: AgeVerificationLog,
+): AgeVerificationHistoryEntry {
+  return {
+    id: log.id,
+    verificationDate: log.verificationDate.toISOString(),
+    customerId: log.customerId,
+    transactionId: log.transactionId,
+    employeeId: log.employeeId,
+    storeId: log.storeId,
+    idType: log.idType,
+    idIssuingState: log.idIssuingState,
+    calculatedAge: log.calculatedAge,
+    isVerified: log.isVerified,
+    verificationMethod: log.verificationMethod,
+    reasonForDenial: log.reasonForDenial,
+    managerOverride: log.managerOverride,
+    overrideManagerId: log.overrideManagerId,
+    overrideReason: log.overrideReason,
+  }
+}
+
+/**
+ * Checks that a failed verification can still be overridden by a manager
+ * under the store's current policy
+ */
+export function checkOverridable(log: AgeVerificationLog, policy?: AgeVerificationPolicy): void {
+  const minimumAge = policy?.minimumAge ?? DEFAULT_MINIMUM_AGE
+  if (log.isVerified || log.managerOverride) {
+    throw new AgeVerificationError('Verification has already passed')
+  }
+  if (log.transactionId) {
+    throw new AgeVerificationError('Verification has already been used for a sale')
+  }
+  if ((log.calculatedAge ?? 0) < minimumAge) {
+    throw new AgeVerificationError('Underage customers cannot be overridden')
+  }
+
+  const id = loggedId(log)
+  const denial = policy && id ? checkIdAgainstPolicy(id, policy) : undefined
+  if (denial && !denial.overridable) {
+    throw new AgeVerificationError(`${denial.reason} and cannot be overridden`)
+  }
+}
+
+/**
+ * Checks that a verification log can back a sale of age-restricted products:
+ * it passed (or a manager overrode it) at this store, for this customer, for
+ * the sale's minimum age, recently enough, and has not backed another sale
+ */
+export function checkVerificationForSale(
+  log: AgeVerificationLog | null,
+  sale: { storeId: string; customerId?: string | null; minimumAge?: number; at: Date },
+): AgeVerificationLog {
+  if (!log) {
+    throw new AgeVerificationError('Age verification not found')
+  }
+  if (log.storeId !== sale.storeId) {
+    throw new AgeVerificationError('Age verification was recorded at a different store')
+  }
+  if (!log.isVerified && !log.managerOverride) {
+    throw new AgeVerificationError('Age verification did not pass')
+  }
+  if (log.transactionId) {
+    throw new AgeVerificationError('Age verification has already been used for another sale')
+  }
+  if (log.customerId && sale.customerId && log.customerId !== sale.customerId) {
+    throw new AgeVerificationError('Age verification belongs to a different customer')
+  }
+
+  const minimumAge = sale.minimumAge ?? DEFAULT_MINIMUM_AGE
+  if ((log.calculatedAge ?? 0) < minimumAge) {
+    throw new AgeVerificationError(`Customer must be at least ${minimumAge} for this sale`)
+  }
+
+  const ageMinutes = (sale.at.getTime() - log.verificationDate.getTime()) / (60 * 1000)
+  if (ageMinutes > VERIFICATION_VALID_MINUTES) {
+    throw new AgeVerificationError('Age verification has expired; check the ID again')
+  }
+
+  return log
+}
+
+/**
+ * Links a verification to the sale it backs. Fails if another sale claimed it
+ * first, so one ID check can never cover two sales.
+ */
+export async function claimVerificationForSale(
+  client: Prisma.TransactionClient,
+  verificationId: string,
+  transactionId: string,
+): Promise<void> {
+  const { count } = await client.ageVerificationLog.updateMany({
+    where: { id: verificationId, transactionId: null },
+    data: { transactionId },
+  })
+  if (count === 0) {
+    throw new AgeVerificationError('Age verification has already been used for another sale')
+  }
+}
+
+// Fields written to AgeVerificationLog for a checked ID
+export function toAgeVerificationLogData(
+  request: ParsedAgeVerification,
+  evaluation: AgeEvaluation,
+): Omit<Prisma.AgeVerificationLogUncheckedCreateInput, 'employeeId' | 'storeId'> {
+  return {
+    customerId: request.customerId,
+    idType: request.idType,
+    idIssuingState: request.idIssuingState,
+    idExpirationDate: request.idExpirationDate,
+    customerDob: request.customerDob,
+    calculatedAge: evaluation.calculatedAge,
+    isVerified: evaluation.isVerified,
+    verificationMethod: request.verificationMethod,
+    reasonForDenial: evaluation.reasonForDenial,
+    scannerModel: request.scannerData?.model,
+    scannerSoftwareVersion: request.scannerData?.softwareVersion,
+    scanConfidenceScore: request.scannerData?.confidenceScore,
+    rawScanData:
+      request.scannerData?.rawData === undefined
+        ? undefined
+        : (request.scannerData.rawData as Prisma.InputJsonValue),
+  }
+}
@@ -0,0 +1,373 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto'
+import type { Prisma, AuditLog, AuditCheckpoint } from '../../generated/prisma'
+import type {
+  AuditChainHead,
+  AuditChainBreak,
+  AuditChainBreakReason,
+  AuditChainVerification,
+  SignedAuditCheckpoint,
+} from '../types/audit'
+import { getBusinessDateRange, formatBusinessDate } from '../utils/businessDate'
+
+/**
+ * Tamper evidence for the audit log.
+ *
+ * Each store's entries form a hash chain: an entry's hash covers its own
+ * content and the hash of the entry before it, and sequence numbers run
+ * 1, 2, 3... without gaps. Editing an entry breaks its hash, deleting one
+ * leaves a gap, and rewriting the tail is caught by the signed daily
+ * checkpoints, which pin the chain head at the end of each business day
+ * with a key the database does not hold.
+ */
+
+// previousHash of the first entry in a store's chain
+export const GENESIS_HASH = '0'.repeat(64)
+
+const CHECKPOINT_SECRET =
+  process.env.AUDIT_CHECKPOINT_SECRET || 'dev-audit-checkpoint-secret-change-in-production'
+
+const VERIFY_BATCH_SIZE = 500
+
+// Raised when a checkpoint cannot be created for the requested day
+export class AuditChainError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AuditChainError'
+  }
+}
+
+// The parts of an entry covered by its hash
+export interface ChainedAuditFields {
+  storeId: string
+  sequence: number
+  timestamp: Date
+  userId: string
+  userRole: string
+  action: string
+  entityType: string
+  entityId: string | null
+  details: unknown
+  metadata: unknown
+  severity: string
+  previousHash: string
+}
+
+/**
+ * Serialises JSON with object keys sorted at every level, so a value hashes
+ * the same before and after a round trip through a JSONB column
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(canonicalise(value)) ?? 'null'
+}
+
+function canonicalise(value: unknown): unknown {
+  if (value === undefined || value === null) return null
+  if (value instanceof Date) return value.toISOString()
+  if (Array.isArray(value)) return value.map(canonicalise)
+  if (typeof value === 'object') {
+    const sorted: Record<string, unknown> = {}
+    for (const key of Object.keys(value).sort()) {
+      const child = (value as Record<string, unknown>)[key]
+      if (child !== undefined) sorted[key] = canonicalise(child)
+    }
+    return sorted
+  }
+  return value
+}
+
+/**
+ * Converts a value to what a JSON column will hand back when it is read
+ */
+export function toStoredJson(value: unknown): Prisma.InputJsonValue {
+  return JSON.parse(canonicalJson(value)) as Prisma.InputJsonValue
+}
+
+export function computeEntryHash(fields: ChainedAuditFields): string {
+  return createHash('sha256')
+    .update(
+      canonicalJson({
+        storeId: fields.storeId,
+        sequence: fields.sequence,
+        timestamp: fields.timestamp.toISOString(),
+        userId: fields.userId,
+        userRole: fields.userRole,
+        action: fields.action,
+        entityType: fields.entityType,
+        entityId: fields.entityId,
+        details: fields.details,
+        metadata: fields.metadata,
+        severity: fields.severity,
+        previousHash: fields.previousHash,
+      }),
+    )
+    .digest('hex')
+}
+
+/**
+ * Serialises writers to a store's chain until the surrounding transaction ends.
+ * Must be called on an interactive transaction client.
+ */
+export async function lockAuditChain(
+  client: Prisma.TransactionClient,
+  storeId: string,
+): Promise<void> {
+  await client.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`audit_chain:${storeId}`}))`
+}
+
+export async function getChainHead(
+  client: Prisma.TransactionClient,
+  storeId: string,
+): Promise<AuditChainHead> {
+  const last = await client.auditLog.findFirst({
+    where: { storeId },
+    orderBy: { sequence: 'desc' },
+    select: { sequence: true, entryHash: true },
+  })
+  return last || { sequence: 0, entryHash: GENESIS_HASH }
+}
+
+function checkpointPayload(checkpoint: Omit<SignedAuditCheckpoint, 'signature'>): string {
+  return canonicalJson({
+    storeId: checkpoint.storeId,
+    businessDate: checkpoint.businessDate,
+    lastSequence: checkpoint.lastSequence,
+    lastEntryHash: checkpoint.lastEntryHash,
+    entryCount: checkpoint.entryCount,
+  })
+}
+
+export function signCheckpoint(
+  checkpoint: Omit<SignedAuditCheckpoint, 'signature'>,
+  secret = CHECKPOINT_SECRET,
+): string {
+  return createHmac('sha256', secret).update(checkpointPayload(checkpoint)).digest('hex')
+}
+
+export function verifyCheckpointSignature(
+  checkpoint: SignedAuditCheckpoint,
+  secret = CHECKPOINT_SECRET,
+): boolean {
+  const expected = Buffer.from(signCheckpoint(checkpoint, secret), 'hex')
+  const actual = Buffer.from(checkpoint.signature, 'hex')
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+export function toSignedCheckpoint(checkpoint: AuditCheckpoint): SignedAuditCheckpoint {
+  return {
+    storeId: checkpoint.storeId,
+    businessDate: formatBusinessDate(checkpoint.businessDate),
+    lastSequence: checkpoint.lastSequence,
+    lastEntryHash: checkpoint.lastEntryHash,
+    entryCount: checkpoint.entryCount,
+    signature: checkpoint.signature,
+  }
+}
+
+/**
+ * Signs the chain head as it stood at the end of a store's business day,
+ * given as a UTC-midnight date.
+ *
+ * Only days that have finished can be checkpointed, and a day is only ever
+ * checkpointed once; asking again returns the existing checkpoint.
+ */
+export async function createDailyCheckpoint(
+  client: Prisma.TransactionClient,
+  store: { id: string; timezone: string },
+  businessDate: Date,
+  now = new Date(),
+): Promise<AuditCheckpoint> {
+  const { start, end } = getBusinessDateRange(businessDate, store.timezone)
+  if (end > now) {
+    throw new AuditChainError('Checkpoints can only be created for business days that have ended')
+  }
+
+  const existing = await client.auditCheckpoint.findUnique({
+    where: { storeId_businessDate: { storeId: store.id, businessDate } },
+  })
+  if (existing) return existing
+
+  const [last, entryCount] = await Promise.all([
+    client.auditLog.findFirst({
+      where: { storeId: store.id, timestamp: { lt: end } },
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true, entryHash: true },
+    }),
+    client.auditLog.count({
+      where: { storeId: store.id, timestamp: { gte: start, lt: end } },
+    }),
+  ])
+
+  const unsigned = {
+    storeId: store.id,
+    businessDate: formatBusinessDate(businessDate),
+    lastSequence: last?.sequence || 0,
+    lastEntryHash: last?.entryHash || GENESIS_HASH,
+    entryCount,
+  }
+
+  return client.auditCheckpoint.create({
+    data: {
+      ...unsigned,
+      businessDate,
+      signature: signCheckpoint(unsigned),
+    },
+  })
+}
+
+/**
+ * Checkpoints for business dates in a range, as exported for inspectors
+ */
+export async function listCheckpoints(
+  client: Prisma.TransactionClient,
+  filter: { storeId?: string; startDate?: Date; endDate?: Date },
+): Promise<SignedAuditCheckpoint[]> {
+  const checkpoints = await client.auditCheckpoint.findMany({
+    where: {
+      ...(filter.storeId && { storeId: filter.storeId }),
+      ...((filter.startDate || filter.endDate) && {
+        businessDate: {
+          ...(filter.startDate && { gte: filter.startDate }),
+          ...(filter.endDate && { lte: filter.endDate }),
+        },
+      }),
+    },
+    orderBy: [{ storeId: 'asc' }, { businessDate: 'asc' }],
+  })
+  return checkpoints.map(toSignedCheckpoint)
+}
+
+function breakAt(
+  reason: AuditChainBreakReason,
+  sequence: number,
+  message: string,
+  ids: { entryId?: string; checkpointId?: string } = {},
+): AuditChainBreak {
+  return { reason, sequence, message, ...ids }
+}
+
+function checkEntry(entry: AuditLog, previous: AuditChainHead): AuditChainBreak | undefined {
+  if (entry.sequence !== previous.sequence + 1) {
+    return breakAt(
+      'SEQUENCE_GAP',
+      previous.sequence + 1,
+      `Expected entry ${previous.sequence + 1} but found ${entry.sequence}; entries are missing`,
+      { entryId: entry.id },
+    )
+  }
+  if (entry.previousHash !== previous.entryHash) {
+    return breakAt(
+      'PREVIOUS_HASH_MISMATCH',
+      entry.sequence,
+      `Entry ${entry.sequence} does not link to the entry before it`,
+      { entryId: entry.id },
+    )
+  }
+  if (computeEntryHash(entry) !== entry.entryHash) {
+    return breakAt(
+      'HASH_MISMATCH',
+      entry.sequence,
+      `Entry ${entry.sequence} has been altered since it was written`,
+      { entryId: entry.id },
+    )
+  }
+  return undefined
+}
+
+function checkCheckpoint(
+  checkpoint: AuditCheckpoint,
+  head: AuditChainHead,
+): AuditChainBreak | undefined {
+  if (!verifyCheckpointSignature(toSignedCheckpoint(checkpoint))) {
+    return breakAt(
+      'CHECKPOINT_SIGNATURE_INVALID',
+      checkpoint.lastSequence,
+      `Checkpoint for ${formatBusinessDate(checkpoint.businessDate)} has an invalid signature`,
+      { checkpointId: checkpoint.id },
+    )
+  }
+  if (checkpoint.lastEntryHash !== head.entryHash) {
+    return breakAt(
+      'CHECKPOINT_MISMATCH',
+      checkpoint.lastSequence,
+      `Entry ${checkpoint.lastSequence} does not match the checkpoint for ${formatBusinessDate(checkpoint.businessDate)}`,
+      { checkpointId: checkpoint.id },
+    )
+  }
+  return undefined
+}
+
+/**
+ * Walks a store's chain from the first entry and reports the first break
+ */
+export async function verifyAuditChain(
+  client: Prisma.TransactionClient,
+  storeId: string,
+  batchSize = VERIFY_BATCH_SIZE,
+): Promise<AuditChainVerification> {
+  const checkpoints = await client.auditCheckpoint.findMany({
+    where: { storeId },
+    orderBy: { lastSequence: 'asc' },
+  })
+
+  let head: AuditChainHead = { sequence: 0, entryHash: GENESIS_HASH }
+  let entriesChecked = 0
+  let checkpointsChecked = 0
+
+  // Checks every checkpoint that pins the current head; several days without
+  // entries share one, and checkpoints taken before the first entry pin the genesis hash
+  const checkDueCheckpoints = (): AuditChainBreak | undefined => {
+    while (
+      checkpointsChecked < checkpoints.length &&
+      checkpoints[checkpointsChecked].lastSequence <= head.sequence
+    ) {
+      const checkpoint = checkpoints[checkpointsChecked]
+      checkpointsChecked++
+      const problem = checkCheckpoint(checkpoint, head)
+      if (problem) return problem
+    }
+    return undefined
+  }
+
+  let firstBreak = checkDueCheckpoints()
+
+  while (!firstBreak) {
+    const batch = await client.auditLog.findMany({
+      where: { storeId, sequence: { gt: head.sequence } },
+      orderBy: { sequence: 'asc' },
+      take: batchSize,
+    })
+    if (batch.length === 0) break
+
+    for (const entry of batch) {
+      firstBreak = checkEntry(entry, head)
+      if (firstBreak) break
+
+      head = { sequence: entry.sequence, entryHash: entry.entryHash }
+      entriesChecked++
+
+      firstBreak = checkDueCheckpoints()
+      if (firstBreak) break
+    }
+  }
+
+  // A checkpoint beyond the last entry means the tail of the chain was removed
+  if (!firstBreak && checkpointsChecked < checkpoints.length) {
+    const checkpoint = checkpoints[checkpointsChecked]
+    firstBreak = breakAt(
+      'TRUNCATED',
+      head.sequence + 1,
+      `Checkpoint for ${formatBusinessDate(checkpoint.businessDate)} covers entry ${checkpoint.lastSequence} but the chain ends at ${head.sequence}`,
+      { checkpointId: checkpoint.id },
+    )
+  }
+
+  return {
+    storeId,
+    valid: !firstBreak,
+    entriesChecked,
+    checkpointsChecked,
+    head,
+    firstBreak,
+    verifiedAt: new Date().toISOString(),
+  }
+}
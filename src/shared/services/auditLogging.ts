@@ -1,58 +1,27 @@
 import { api } from './api'
+import type {
+  AuditLogEntry,
+  AuditQuery,
+  AuditQueryResult,
+  AuditSummary,
+  AuditExportFormat,
+  AuditChainVerification,
+  SignedAuditCheckpoint
+} from '../types/audit'
 
-export interface AuditLogEntry {
-  id?: string
-  timestamp: string
-  userId: string
-  userRole: string
-  storeId: string
-  action: AuditAction
-  entityType: AuditEntityType
-  entityId?: string
-  details: Record<string, any>
-  metadata?: {
-    ipAddress?: string
-    userAgent?: string
-    sessionId?: string
-    clientVersion?: string
-  }
-  severity: AuditSeverity
-}
-
-export type AuditAction = 
-  // Authentication actions
-  | 'login' | 'logout' | 'login_failed' | 'password_changed' | 'account_locked'
-  // Product actions
-  | 'product_created' | 'product_updated' | 'product_deleted' | 'inventory_adjusted'
-  // Customer actions
-  | 'customer_created' | 'customer_updated' | 'customer_deleted'
-  // Transaction actions
-  | 'transaction_created' | 'transaction_voided' | 'transaction_refunded'
-  | 'payment_processed' | 'payment_failed' | 'payment_refunded'
-  // Age verification actions
-  | 'age_verification_passed' | 'age_verification_failed' | 'manager_override_applied'
-  // System actions
-  | 'system_error' | 'data_export' | 'settings_changed' | 'user_permissions_changed'
-  // Compliance actions
-  | 'tax_exemption_applied' | 'compliance_violation' | 'audit_report_generated'
-
-export type AuditEntityType = 
-  | 'user' | 'product' | 'customer' | 'transaction' | 'payment'
-  | 'age_verification' | 'tax_calculation' | 'system' | 'report'
-
-export type AuditSeverity = 'low' | 'medium' | 'high' | 'critical'
-
-export interface AuditQuery {
-  startDate?: string
-  endDate?: string
-  userId?: string
-  storeId?: string
-  action?: AuditAction
-  entityType?: AuditEntityType
-  severity?: AuditSeverity
-  limit?: number
-  offset?: number
-}
+export type {
+  AuditLogEntry,
+  AuditAction,
+  AuditEntityType,
+  AuditSeverity,
+  AuditQuery,
+  AuditQueryResult,
+  AuditSummary,
+  AuditExportFormat,
+  AuditExportBundle,
+  AuditChainVerification,
+  SignedAuditCheckpoint
+} from '../types/audit'
 
 export const auditLoggingService = {
   // Log an audit event
@@ -231,11 +200,7 @@ export const auditLoggingService = {
   },
 
   // Query audit logs
-  async queryLogs(query: AuditQuery): Promise<{
-    logs: AuditLogEntry[]
-    totalCount: number
-    hasMore: boolean
-  }> {
+  async queryLogs(query: AuditQuery): Promise<AuditQueryResult> {
     try {
       const response = await api.get('/api/audit/query', { params: query })
       return response.data
@@ -250,15 +215,7 @@ export const auditLoggingService = {
   },
 
   // Get audit summary for dashboard
-  async getAuditSummary(storeId?: string, days = 30): Promise<{
-    totalEvents: number
-    criticalEvents: number
-    highSeverityEvents: number
-    loginEvents: number
-    transactionEvents: number
-    complianceEvents: number
-    recentEvents: AuditLogEntry[]
-  }> {
+  async getAuditSummary(storeId?: string, days = 30): Promise<AuditSummary> {
     try {
       const response = await api.get('/api/audit/summary', {
         params: { storeId, days }
@@ -278,12 +235,12 @@ export const auditLoggingService = {
     }
   },
 
-  // Export audit logs for compliance
+  // Export audit logs for compliance; the server records the export itself
   async exportAuditLogs(
     startDate: string,
     endDate: string,
     storeId?: string,
-    format: 'csv' | 'json' | 'pdf' = 'csv'
+    format: AuditExportFormat = 'csv'
   ): Promise<Blob> {
     try {
       const response = await api.post('/api/audit/export', {
@@ -295,23 +252,6 @@ export const auditLoggingService = {
         responseType: 'blob'
       })
 
-      // Log the export event
-      await this.logEvent({
-        userId: 'current_user', // Would be filled with actual user ID
-        userRole: 'admin',
-        storeId: storeId || 'all',
-        action: 'data_export',
-        entityType: 'report',
-        details: {
-          exportType: 'audit_logs',
-          startDate,
-          endDate,
-          format,
-          timestamp: new Date().toISOString()
-        },
-        severity: 'medium'
-      })
-
       return response.data
     } catch (error) {
       console.error('Audit export failed:', error)
@@ -319,6 +259,24 @@ export const auditLoggingService = {
     }
   },
 
+  // Signed daily checkpoints, exported alongside the logs so inspectors can verify them
+  async exportAuditCheckpoints(
+    startDate: string,
+    endDate: string,
+    storeId?: string
+  ): Promise<SignedAuditCheckpoint[]> {
+    const response = await api.get('/api/audit/checkpoints', {
+      params: { startDate, endDate, storeId }
+    })
+    return response.data
+  },
+
+  // Walk a store's hash chain on the server and report the first break
+  async verifyAuditChain(storeId?: string): Promise<AuditChainVerification> {
+    const response = await api.get('/api/audit/verify', { params: { storeId } })
+    return response.data
+  },
+
   // Store audit entry locally (for offline capability)
   storeLocalAuditEntry(entry: AuditLogEntry): void {
     try {
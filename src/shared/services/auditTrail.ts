@@ -0,0 +1,459 @@
+import type { Prisma, PrismaClient, AuditLog } from '../../generated/prisma'
+import type {
+  AuditAction,
+  AuditEntityType,
+  AuditLogEntry,
+  AuditQuery,
+  AuditQueryResult,
+  AuditSeverity,
+  AuditSummary,
+} from '../types/audit'
+import {
+  lockAuditChain,
+  getChainHead,
+  computeEntryHash,
+  toStoredJson,
+  canonicalJson,
+} from './auditChain'
+
+export type AuditEvent = Omit<AuditLogEntry, 'id' | 'timestamp'>
+
+export type AuditMetadata = NonNullable<AuditLogEntry['metadata']>
+
+// Store id recorded for events that do not belong to a store, e.g. an unknown login
+export const SYSTEM_STORE_ID = 'system'
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'login',
+  'logout',
+  'login_failed',
+  'password_changed',
+  'account_locked',
+  'product_created',
+  'product_updated',
+  'product_deleted',
+  'inventory_adjusted',
+  'inventory_received',
+  'stock_transfer_requested',
+  'stock_transfer_approved',
+  'stock_transfer_shipped',
+  'stock_transfer_received',
+  'stock_transfer_cancelled',
+  'customer_created',
+  'customer_updated',
+  'customer_deleted',
+  'loyalty_points_adjusted',
+  'gift_card_issued',
+  'gift_card_reloaded',
+  'gift_card_redeemed',
+  'gift_card_refunded',
+  'gift_card_status_changed',
+  'transaction_created',
+  'transaction_voided',
+  'transaction_refunded',
+  'payment_processed',
+  'payment_failed',
+  'payment_refunded',
+  'cash_drawer_opened',
+  'cash_drawer_adjusted',
+  'cash_drawer_closed',
+  'age_verification_passed',
+  'age_verification_failed',
+  'manager_override_applied',
+  'system_error',
+  'data_export',
+  'settings_changed',
+  'user_permissions_changed',
+  'tax_exemption_applied',
+  'compliance_violation',
+  'audit_report_generated',
+  'z_report_generated',
+  'z_report_reprinted',
+]
+
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = [
+  'user',
+  'product',
+  'customer',
+  'transaction',
+  'payment',
+  'gift_card',
+  'cash_drawer',
+  'stock_transfer',
+  'age_verification',
+  'tax_calculation',
+  'system',
+  'report',
+]
+
+export const AUDIT_SEVERITIES: AuditSeverity[] = ['low', 'medium', 'high', 'critical']
+
+const DEFAULT_QUERY_LIMIT = 100
+const MAX_QUERY_LIMIT = 1000
+const RECENT_EVENT_COUNT = 10
+
+const LOGIN_ACTIONS: AuditAction[] = ['login', 'logout', 'login_failed', 'account_locked']
+const TRANSACTION_ACTIONS: AuditAction[] = [
+  'transaction_created',
+  'transaction_voided',
+  'transaction_refunded',
+]
+const COMPLIANCE_ACTIONS: AuditAction[] = [
+  'age_verification_passed',
+  'age_verification_failed',
+  'manager_override_applied',
+  'tax_exemption_applied',
+  'compliance_violation',
+]
+
+// Raised when a submitted audit entry or query is malformed
+export class AuditValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AuditValidationError'
+  }
+}
+
+/**
+ * Appends an entry to the end of its store's hash chain.
+ *
+ * Must be called inside an interactive transaction: the store's chain stays
+ * locked until it ends. Pass the transaction of the database change the
+ * event belongs to, so the entry is only kept if the change commits.
+ */
+export async function recordAuditEvent(
+  client: Prisma.TransactionClient,
+  event: AuditEvent,
+): Promise<AuditLog> {
+  await lockAuditChain(client, event.storeId)
+  const head = await getChainHead(client, event.storeId)
+
+  // Stamped after taking the lock so timestamps follow sequence order
+  const entry = {
+    storeId: event.storeId,
+    sequence: head.sequence + 1,
+    timestamp: new Date(),
+    userId: event.userId,
+    userRole: event.userRole,
+    action: event.action,
+    entityType: event.entityType,
+    entityId: event.entityId ?? null,
+    details: toStoredJson(event.details),
+    metadata: event.metadata ? toStoredJson(event.metadata) : null,
+    severity: event.severity,
+    previousHash: head.entryHash,
+  }
+
+  return client.auditLog.create({
+    data: {
+      ...entry,
+      metadata: entry.metadata ?? undefined,
+      entryHash: computeEntryHash(entry),
+    },
+  })
+}
+
+/**
+ * Records an event in a transaction of its own, for events that are not
+ * part of a larger database change
+ */
+export async function appendAuditEvent(client: PrismaClient, event: AuditEvent): Promise<AuditLog> {
+  return client.$transaction((tx) => recordAuditEvent(tx, event))
+}
+
+/**
+ * Records an event such as a failed login on its own. A failure to write
+ * the entry is logged but never fails the request that triggered it.
+ */
+export async function recordAuditEventSafely(
+  client: PrismaClient,
+  event: AuditEvent,
+): Promise<void> {
+  try {
+    await appendAuditEvent(client, event)
+  } catch (error) {
+    console.error('Audit event write failed:', error)
+  }
+}
+
+/**
+ * Request details kept with each entry. Taken from the connection, never from
+ * the submitted entry.
+ */
+export function getRequestMetadata(req: {
+  ip?: string
+  get(name: string): string | undefined
+}): AuditMetadata {
+  return {
+    ipAddress: req.ip,
+    userAgent: req.get('user-agent'),
+  }
+}
+
+/**
+ * Checks the parts of a client-submitted entry the server does not fill in
+ * itself. Who, where and when always come from the session.
+ */
+export function validateClientAuditEvent(
+  input: unknown,
+): Pick<AuditEvent, 'action' | 'entityType' | 'entityId' | 'details' | 'severity' | 'metadata'> {
+  if (!input || typeof input !== 'object') {
+    throw new AuditValidationError('Audit entry must be an object')
+  }
+  const entry = input as Record<string, unknown>
+
+  const action = parseOption(entry.action, AUDIT_ACTIONS, 'action')
+  const entityType = parseOption(entry.entityType, AUDIT_ENTITY_TYPES, 'entityType')
+  const severity = parseOption(entry.severity, AUDIT_SEVERITIES, 'severity')
+  if (!action || !entityType || !severity) {
+    throw new AuditValidationError('action, entityType and severity are required')
+  }
+  if (
+    entry.entityId !== undefined &&
+    entry.entityId !== null &&
+    typeof entry.entityId !== 'string'
+  ) {
+    throw new AuditValidationError('entityId must be a string')
+  }
+  if (
+    entry.details !== undefined &&
+    (typeof entry.details !== 'object' || entry.details === null)
+  ) {
+    throw new AuditValidationError('details must be an object')
+  }
+
+  const metadata = (entry.metadata || {}) as Record<string, unknown>
+
+  return {
+    action,
+    entityType,
+    entityId: asString(entry.entityId),
+    details: (entry.details as Record<string, unknown>) || {},
+    severity,
+    metadata: {
+      sessionId: asString(metadata.sessionId),
+      clientVersion: asString(metadata.clientVersion),
+    },
+  }
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined
+}
+
+// Returns the value if it is one of the allowed options, undefined if it is missing
+function parseOption<T extends string>(
+  value: unknown,
+  options: readonly T[],
+  field: string,
+): T | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  if (!options.includes(value as T)) {
+    throw new AuditValidationError(`${field} must be one of ${options.join(', ')}`)
+  }
+  return value as T
+}
+
+function parseDate(value: unknown, field: string): Date | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  const date = typeof value === 'string' ? new Date(value) : undefined
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new AuditValidationError(`${field} must be a valid date`)
+  }
+  return date
+}
+
+/**
+ * Turns query-string parameters into an AuditQuery, rejecting unknown filters
+ */
+export function parseAuditQuery(params: Record<string, unknown>): AuditQuery {
+  const query: AuditQuery = {
+    startDate: parseDate(params.startDate, 'startDate')?.toISOString(),
+    endDate: parseDate(params.endDate, 'endDate')?.toISOString(),
+    userId: asString(params.userId),
+    storeId: asString(params.storeId),
+    action: parseOption(params.action, AUDIT_ACTIONS, 'action'),
+    entityType: parseOption(params.entityType, AUDIT_ENTITY_TYPES, 'entityType'),
+    severity: parseOption(params.severity, AUDIT_SEVERITIES, 'severity'),
+  }
+
+  if (params.limit !== undefined) {
+    const limit = Number(params.limit)
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new AuditValidationError('limit must be a positive whole number')
+    }
+    query.limit = Math.min(limit, MAX_QUERY_LIMIT)
+  }
+  if (params.offset !== undefined) {
+    const offset = Number(params.offset)
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new AuditValidationError('offset must be a non-negative whole number')
+    }
+    query.offset = offset
+  }
+
+  return query
+}
+
+export function buildAuditWhere(query: AuditQuery): Prisma.AuditLogWhereInput {
+  const where: Prisma.AuditLogWhereInput = {}
+
+  if (query.storeId) where.storeId = query.storeId
+  if (query.userId) where.userId = query.userId
+  if (query.action) where.action = query.action
+  if (query.entityType) where.entityType = query.entityType
+  if (query.severity) where.severity = query.severity
+
+  if (query.startDate || query.endDate) {
+    where.timestamp = {
+      ...(query.startDate && { gte: new Date(query.startDate) }),
+      ...(query.endDate && { lte: new Date(query.endDate) }),
+    }
+  }
+
+  return where
+}
+
+export function toAuditLogEntry(row: AuditLog): AuditLogEntry {
+  return {
+    id: row.id,
+    timestamp: row.timestamp.toISOString(),
+    userId: row.userId,
+    userRole: row.userRole,
+    storeId: row.storeId,
+    action: row.action as AuditAction,
+    entityType: row.entityType as AuditEntityType,
+    entityId: row.entityId ?? undefined,
+    details: (row.details as Record<string, unknown>) || {},
+    metadata: (row.metadata as AuditMetadata | null) ?? undefined,
+    severity: row.severity as AuditSeverity,
+    sequence: row.sequence,
+    previousHash: row.previousHash,
+    entryHash: row.entryHash,
+  }
+}
+
+/**
+ * Pages through the audit log, newest first
+ */
+export async function queryAuditLogs(
+  client: Prisma.TransactionClient,
+  query: AuditQuery,
+): Promise<AuditQueryResult> {
+  const where = buildAuditWhere(query)
+  const limit = Math.min(query.limit || DEFAULT_QUERY_LIMIT, MAX_QUERY_LIMIT)
+  const offset = query.offset || 0
+
+  const [rows, totalCount] = await Promise.all([
+    client.auditLog.findMany({
+      where,
+      orderBy: { timestamp: 'desc' },
+      skip: offset,
+      take: limit,
+    }),
+    client.auditLog.count({ where }),
+  ])
+
+  return {
+    logs: rows.map(toAuditLogEntry),
+    totalCount,
+    hasMore: offset + rows.length < totalCount,
+  }
+}
+
+/**
+ * Event counts for the audit dashboard over the last `days` days
+ */
+export async function summarizeAuditLogs(
+  client: Prisma.TransactionClient,
+  storeId: string | undefined,
+  days: number,
+  now = new Date(),
+): Promise<AuditSummary> {
+  const since = new Date(now.getTime() - days * 24 * 60 * 60 * 1000)
+  const where: Prisma.AuditLogWhereInput = {
+    timestamp: { gte: since },
+    ...(storeId && { storeId }),
+  }
+
+  const [
+    totalEvents,
+    criticalEvents,
+    highSeverityEvents,
+    loginEvents,
+    transactionEvents,
+    complianceEvents,
+    recent,
+  ] = await Promise.all([
+    client.auditLog.count({ where }),
+    client.auditLog.count({ where: { ...where, severity: 'critical' } }),
+    client.auditLog.count({ where: { ...where, severity: 'high' } }),
+    client.auditLog.count({ where: { ...where, action: { in: LOGIN_ACTIONS } } }),
+    client.auditLog.count({ where: { ...where, action: { in: TRANSACTION_ACTIONS } } }),
+    client.auditLog.count({ where: { ...where, action: { in: COMPLIANCE_ACTIONS } } }),
+    client.auditLog.findMany({ where, orderBy: { timestamp: 'desc' }, take: RECENT_EVENT_COUNT }),
+  ])
+
+  return {
+    totalEvents,
+    criticalEvents,
+    highSeverityEvents,
+    loginEvents,
+    transactionEvents,
+    complianceEvents,
+    recentEvents: recent.map(toAuditLogEntry),
+  }
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'timestamp',
+  'storeId',
+  'sequence',
+  'userId',
+  'userRole',
+  'action',
+  'entityType',
+  'entityId',
+  'severity',
+  'ipAddress',
+  'details',
+  'metadata',
+  'previousHash',
+  'entryHash',
+] as const
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  const text = typeof value === 'string' ? value : canonicalJson(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Renders entries as CSV. Details and metadata are written as canonical JSON
+ * so each row's entryHash can be recomputed from the file alone.
+ */
+export function formatAuditLogsCsv(entries: AuditLogEntry[]): string {
+  const rows = entries.map((entry) =>
+    [
+      entry.id,
+      entry.timestamp,
+      entry.storeId,
+      entry.sequence,
+      entry.userId,
+      entry.userRole,
+      entry.action,
+      entry.entityType,
+      entry.entityId,
+      entry.severity,
+      entry.metadata?.ipAddress,
+      entry.details,
+      entry.metadata,
+      entry.previousHash,
+      entry.entryHash,
+    ]
+      .map(csvCell)
+      .join(','),
+  )
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n'
+}
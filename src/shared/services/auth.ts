@@ -21,6 +21,10 @@ const JWT_REFRESH_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || '7d'
 // Salt rounds for bcrypt
 const BCRYPT_SALT_ROUNDS = 12
 
+// Wrong passwords allowed before an account is locked, and how long it stays locked
+export const MAX_LOGIN_ATTEMPTS = 5
+export const LOCKOUT_DURATION = 15 * 60 * 1000 // 15 minutes
+
 // Password requirements
 export const PASSWORD_REQUIREMENTS: PasswordRequirements = {
   minLength: 8,
@@ -0,0 +1,249 @@
+import type {
+  CashDrawerEvent,
+  CashDrawerEventType,
+  CashDrawerSession,
+  Prisma,
+} from '../../generated/prisma'
+import type {
+  CashDrawerEventData,
+  CashDrawerEventResponse,
+  CashDrawerSessionResponse,
+  CashDrawerSummary,
+  DenominationCount,
+} from '../types/cashDrawers'
+import { roundCurrency, toAmount } from '../utils/money'
+
+export const CASH_DRAWER_EVENT_TYPES: CashDrawerEventType[] = ['PAID_IN', 'PAID_OUT', 'DROP']
+
+// Face values a drawer is counted in, largest first
+export const CASH_DENOMINATIONS = [
+  '100',
+  '50',
+  '20',
+  '10',
+  '5',
+  '2',
+  '1',
+  '0.50',
+  '0.25',
+  '0.10',
+  '0.05',
+  '0.01',
+]
+
+// Raised when cash is taken or moved without an open drawer to account for it
+export class CashDrawerError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CashDrawerError'
+  }
+}
+
+const formatAmount = (amount: number) => `$${amount.toFixed(2)}`
+
+const isWholeCents = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && roundCurrency(value) === value
+
+export function validateOpeningFloat(amount: unknown): string[] {
+  if (!isWholeCents(amount) || amount < 0) {
+    return ['openingFloat must be zero or more in whole cents']
+  }
+  return []
+}
+
+/**
+ * Validates a paid-in, paid-out or drop.
+ * Returns a list of human-readable problems; an empty list means the event is valid.
+ */
+export function validateDrawerEvent(input: CashDrawerEventData): string[] {
+  const errors: string[] = []
+
+  if (!CASH_DRAWER_EVENT_TYPES.includes(input.eventType)) {
+    errors.push(`eventType must be one of ${CASH_DRAWER_EVENT_TYPES.join(', ')}`)
+  }
+  if (!isWholeCents(input.amount) || input.amount <= 0) {
+    errors.push('amount must be more than zero in whole cents')
+  }
+  if (input.eventType !== 'DROP' && (!input.reason || !input.reason.trim())) {
+    errors.push('A reason is required for cash paid in or out')
+  }
+
+  return errors
+}
+
+/**
+ * Validates a blind count: known denominations only, each a whole number of notes or coins
+ */
+export function validateDenominationCount(count: unknown): string[] {
+  if (!count || typeof count !== 'object' || Array.isArray(count)) {
+    return ['denominations must list how many of each note and coin were counted']
+  }
+
+  const errors: string[] = []
+  for (const [denomination, quantity] of Object.entries(count)) {
+    if (!CASH_DENOMINATIONS.includes(denomination)) {
+      errors.push(
+        `${denomination} is not a denomination; use one of ${CASH_DENOMINATIONS.join(', ')}`,
+      )
+    } else if (!Number.isInteger(quantity) || (quantity as number) < 0) {
+      errors.push(`Count of ${denomination} must be a whole number of zero or more`)
+    }
+  }
+  return errors
+}
+
+/**
+ * What a denomination count adds up to, summed in cents to avoid float drift
+ */
+export function countDenominations(count: DenominationCount): number {
+  const cents = Object.entries(count).reduce(
+    (sum, [denomination, quantity]) => sum + Math.round(Number(denomination) * 100) * quantity,
+    0,
+  )
+  return cents / 100
+}
+
+export function findOpenDrawer(
+  client: Prisma.TransactionClient,
+  userId: string,
+  storeId: string,
+): Promise<CashDrawerSession | null> {
+  return client.cashDrawerSession.findFirst({
+    where: { userId, storeId, status: 'OPEN' },
+    orderBy: { openedAt: 'desc' },
+  })
+}
+
+/**
+ * The drawer an employee's cash sales and refunds go through. Cash cannot be
+ * taken or given back without one, so every dollar is accounted for at close.
+ */
+export async function requireOpenDrawer(
+  client: Prisma.TransactionClient,
+  userId: string,
+  storeId: string,
+): Promise<CashDrawerSession> {
+  const drawer = await findOpenDrawer(client, userId, storeId)
+  if (!drawer) {
+    throw new CashDrawerError('Open a cash drawer before taking or refunding cash')
+  }
+  return drawer
+}
+
+/**
+ * What should be in a drawer: the opening float, plus cash taken on sales,
+ * gift card loads and paid in, less cash refunded, paid out and dropped to
+ * the safe. Cash on voided sales was handed back, so it does not count.
+ */
+export async function summariseDrawer(
+  client: Prisma.TransactionClient,
+  session: Pick<CashDrawerSession, 'id' | 'openingFloat'>,
+): Promise<CashDrawerSummary> {
+  const cashWhere = {
+    paymentMethod: 'CASH' as const,
+    status: { not: 'VOIDED' as const },
+    transaction: { cashDrawerSessionId: session.id },
+  }
+  const [sales, refunds, giftCardLoads, events] = await Promise.all([
+    client.transactionPayment.aggregate({
+      where: { ...cashWhere, amount: { gt: 0 } },
+      _sum: { amount: true },
+    }),
+    client.transactionPayment.aggregate({
+      where: { ...cashWhere, amount: { lt: 0 } },
+      _sum: { amount: true },
+    }),
+    client.giftCardLedger.aggregate({
+      where: { cashDrawerSessionId: session.id, paymentMethod: 'CASH' },
+      _sum: { amount: true },
+    }),
+    client.cashDrawerEvent.groupBy({
+      by: ['eventType'],
+      where: { sessionId: session.id },
+      _sum: { amount: true },
+    }),
+  ])
+
+  const eventTotal = (type: CashDrawerEventType) =>
+    toAmount(events.find((row) => row.eventType === type)?._sum.amount)
+
+  const summary = {
+    openingFloat: toAmount(session.openingFloat),
+    cashSales: toAmount(sales._sum.amount),
+    // Refunds are stored negative
+    cashRefunds: Math.abs(toAmount(refunds._sum.amount)),
+    giftCardLoads: toAmount(giftCardLoads._sum.amount),
+    paidIn: eventTotal('PAID_IN'),
+    paidOut: eventTotal('PAID_OUT'),
+    drops: eventTotal('DROP'),
+  }
+
+  return {
+    ...summary,
+    expectedAmount: roundCurrency(
+      summary.openingFloat +
+        summary.cashSales -
+        summary.cashRefunds +
+        summary.giftCardLoads +
+        summary.paidIn -
+        summary.paidOut -
+        summary.drops,
+    ),
+  }
+}
+
+/**
+ * Checks a paid-out or drop does not take more cash than the drawer should hold
+ */
+export function validateCashAvailable(
+  eventType: CashDrawerEventType,
+  amount: number,
+  summary: CashDrawerSummary,
+): string[] {
+  if (eventType === 'PAID_IN' || amount <= summary.expectedAmount) return []
+  return [`The drawer should only hold ${formatAmount(summary.expectedAmount)}`]
+}
+
+export function toCashDrawerEventResponse(event: CashDrawerEvent): CashDrawerEventResponse {
+  return {
+    id: event.id,
+    eventType: event.eventType,
+    amount: toAmount(event.amount),
+    reason: event.reason,
+    employeeId: event.employeeId,
+    approvedById: event.approvedById,
+    createdAt: event.createdAt.toISOString(),
+  }
+}
+
+/**
+ * A drawer session as returned by the API. Expected cash and over/short are
+ * only included when `reconciled` is set, so a cashier's count stays blind.
+ */
+export function toCashDrawerResponse(
+  session: CashDrawerSession & { events?: CashDrawerEvent[] },
+  options: { reconciled?: boolean; summary?: CashDrawerSummary } = {},
+): CashDrawerSessionResponse {
+  const response: CashDrawerSessionResponse = {
+    id: session.id,
+    storeId: session.storeId,
+    userId: session.userId,
+    status: session.status,
+    openingFloat: toAmount(session.openingFloat),
+    openedAt: session.openedAt.toISOString(),
+    closedAt: session.closedAt ? session.closedAt.toISOString() : null,
+    closedById: session.closedById,
+    countedAmount: session.countedAmount === null ? null : toAmount(session.countedAmount),
+    denominationCount: (session.denominationCount as DenominationCount | null) ?? null,
+    notes: session.notes,
+    events: session.events?.map(toCashDrawerEventResponse),
+  }
+
+  if (options.reconciled) {
+    response.summary = options.summary
+    response.expectedAmount =
+      session.expectedAmount === null ? null : toAmount(session.expectedAmount)
+    response.overShort = session.overShort === null ? null : toAmount(session.overShort)
+  }
+  return response
+}
@@ -0,0 +1,58 @@
+import { api } from './api'
+import type {
+  OpenCashDrawerData,
+  CashDrawerEventData,
+  CloseCashDrawerData,
+  CashDrawerSessionResponse,
+  CashDrawerEventResponse
+} from '../types/cashDrawers'
+import type { CashDrawerStatus } from '../types/database'
+
+export interface CashDrawerFilters {
+  storeId?: string
+  userId?: string
+  status?: CashDrawerStatus
+  startDate?: string
+  endDate?: string
+}
+
+export const cashDrawersService = {
+  // The signed-in employee's open drawer, or null when they have none
+  async getCurrentDrawer(storeId?: string): Promise<CashDrawerSessionResponse | null> {
+    const response = await api.get('/api/cash-drawers/current', { params: { storeId } })
+    return response.data.session
+  },
+
+  // Open a drawer with its starting float
+  async openDrawer(data: OpenCashDrawerData): Promise<CashDrawerSessionResponse> {
+    const response = await api.post('/api/cash-drawers', data)
+    return response.data.session
+  },
+
+  // Pay cash in or out, or drop it to the safe
+  async recordEvent(id: string, data: CashDrawerEventData): Promise<CashDrawerEventResponse> {
+    const response = await api.post(`/api/cash-drawers/${id}/events`, data)
+    return response.data.event
+  },
+
+  // Close with a blind count; expected cash only comes back for managers
+  async closeDrawer(id: string, data: CloseCashDrawerData): Promise<CashDrawerSessionResponse> {
+    const response = await api.post(`/api/cash-drawers/${id}/close`, data)
+    return response.data.session
+  },
+
+  // Drawer sessions with their over/short (manager)
+  async getDrawers(filters: CashDrawerFilters = {}, page = 1, limit = 50): Promise<{
+    sessions: CashDrawerSessionResponse[]
+    pagination: { page: number; limit: number; total: number; pages: number }
+  }> {
+    const response = await api.get('/api/cash-drawers', { params: { ...filters, page, limit } })
+    return response.data
+  },
+
+  // One drawer with its events and where its expected cash came from (manager)
+  async getDrawer(id: string): Promise<CashDrawerSessionResponse> {
+    const response = await api.get(`/api/cash-drawers/${id}`)
+    return response.data.session
+  }
+}
@@ -0,0 +1,387 @@
+import type { Prisma, Product, StoreLocation } from '../../generated/prisma'
+import type { ComplianceEvaluation, ComplianceLineInput } from '../types/compliance'
+import type { AppliedOffer } from '../types/offers'
+import type { LoyaltyRedemptionQuote, LoyaltyTierSettings } from '../types/loyalty'
+import type {
+  CartItem,
+  CartQuote,
+  QuotedLineItem,
+  RequiredVerification,
+} from '../types/transactions'
+import {
+  getStoreJurisdictions,
+  loadActiveComplianceRules,
+  evaluateCompliance,
+} from './complianceEngine'
+import { calculateTransactionTax, toTaxableLine } from './taxEngine'
+import { loadActiveOffers, loadOfferCustomer, applyOffers } from './offerEngine'
+import { storeStockInclude, withStoreStock } from './storeInventory'
+import type { OfferApplication } from './offerEngine'
+import {
+  loadTierSettings,
+  planPointsRedemption,
+  calculatePointsEarned,
+  LoyaltyRedemptionError,
+} from './loyalty'
+import { getBusinessDayRange } from '../utils/businessDate'
+import { roundCurrency, toAmount } from '../utils/money'
+
+// Raised when a cart cannot be priced at all (unknown product, not enough stock)
+export class CheckoutPricingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CheckoutPricingError'
+  }
+}
+
+export interface PriceCartInput {
+  store: StoreLocation
+  cartItems: CartItem[]
+  customerId?: string
+  at: Date
+  // Checkout and quotes apply offers; exchanges are priced without them
+  applyOffers?: boolean
+  // Loyalty points to tender; when set (even to 0) the quote reports what the customer can redeem
+  redeemPoints?: number
+}
+
+export interface PricedCartLine extends QuotedLineItem {
+  lotNumber: string | null
+  expirationDate: Date | null
+}
+
+// A priced cart plus what checkout needs to persist it
+export interface PricedCart extends CartQuote {
+  lines: PricedCartLine[]
+  evaluation: ComplianceEvaluation
+  ageVerificationRequired: boolean
+  offersApplied: AppliedOffer[]
+}
+
+// The customer's points and store credit balances and the rules of their tier
+interface LoyaltyAccount {
+  points: number
+  storeCredit: number
+  settings: LoyaltyTierSettings
+}
+
+async function loadLoyaltyAccount(
+  client: Prisma.TransactionClient,
+  customerId: string | undefined,
+): Promise<LoyaltyAccount | undefined> {
+  if (!customerId) return undefined
+
+  const customer = await client.customer.findUnique({
+    where: { id: customerId },
+    select: { loyaltyTier: true, loyaltyPoints: true, storeCreditBalance: true },
+  })
+  if (!customer) return undefined
+
+  return {
+    points: customer.loyaltyPoints,
+    storeCredit: toAmount(customer.storeCreditBalance),
+    settings: await loadTierSettings(client, customer.loyaltyTier),
+  }
+}
+
+/**
+ * Prices a points redemption against the sale total for the customer's tier
+ */
+function priceRedemption(
+  account: LoyaltyAccount | undefined,
+  customerId: string | undefined,
+  points: number,
+  totalAmount: number,
+): LoyaltyRedemptionQuote | undefined {
+  if (!customerId) {
+    if (points > 0) {
+      throw new LoyaltyRedemptionError('A customer is required to redeem loyalty points')
+    }
+    return undefined
+  }
+  if (!account) {
+    throw new CheckoutPricingError(`Customer ${customerId} not found`)
+  }
+
+  return planPointsRedemption(points, account.settings, account.points, totalAmount)
+}
+
+/**
+ * Sums what a customer has already bought today per product, for daily
+ * quantity limits
+ */
+async function loadPriorQuantitiesToday(
+  client: Prisma.TransactionClient,
+  store: StoreLocation,
+  customerId: string,
+  productIds: string[],
+  at: Date,
+): Promise<Record<string, number>> {
+  const { start, end } = getBusinessDayRange(at, store.timezone)
+  const priorLines = await client.lineItem.findMany({
+    where: {
+      productId: { in: productIds },
+      transaction: {
+        customerId,
+        paymentStatus: 'COMPLETED',
+        transactionDate: { gte: start, lt: end },
+      },
+    },
+    select: { productId: true, quantity: true },
+  })
+
+  const totals: Record<string, number> = {}
+  for (const line of priorLines) {
+    totals[line.productId] = (totals[line.productId] || 0) + line.quantity
+  }
+  return totals
+}
+
+/**
+ * Picks and allocates the offers running now for the cart's lines
+ */
+async function priceOffers(
+  client: Prisma.TransactionClient,
+  lines: PricedCartLine[],
+  products: Product[],
+  customerId: string | undefined,
+  at: Date,
+): Promise<OfferApplication> {
+  const offers = await loadActiveOffers(client, at)
+  const customer =
+    customerId && offers.length > 0
+      ? await loadOfferCustomer(
+          client,
+          customerId,
+          offers.map((offer) => offer.id),
+        )
+      : undefined
+
+  return applyOffers(
+    offers,
+    lines.map((line, index) => ({
+      productId: line.productId,
+      productSku: line.productSku,
+      category: products[index].category,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      amount: line.lineTotal,
+      expirationDate: line.expirationDate,
+    })),
+    { at, customer },
+  )
+}
+
+/**
+ * Prices a cart exactly as checkout would: product lookup, stock checks,
+ * offers, compliance evaluation, per-line tax and loyalty earn. Nothing is written,
+ * so the same pipeline serves both the quote endpoint and createTransaction.
+ *
+ * Compliance violations are reported on the result rather than thrown;
+ * callers decide whether to block.
+ */
+export async function priceCart(
+  client: Prisma.TransactionClient,
+  input: PriceCartInput,
+): Promise<PricedCart> {
+  const { store, cartItems, customerId, at } = input
+
+  const lines: PricedCartLine[] = []
+  const products: Product[] = []
+  const complianceLines: ComplianceLineInput[] = []
+  // Units asked for so far by product, so a product split over lines is checked as a whole
+  const requested = new Map<string, number>()
+
+  for (const item of cartItems) {
+    if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+      throw new CheckoutPricingError(
+        `Quantity for ${item.productId} must be a whole number more than zero`,
+      )
+    }
+
+    const found = await client.product.findUnique({
+      where: { id: item.productId },
+      include: storeStockInclude(store.id),
+    })
+
+    if (!found) {
+      throw new CheckoutPricingError(`Product ${item.productId} not found`)
+    }
+    // Stock is checked at the selling store
+    const product = withStoreStock(found)
+
+    const quantityRequested = (requested.get(product.id) || 0) + item.quantity
+    requested.set(product.id, quantityRequested)
+    if (product.quantity < quantityRequested) {
+      throw new CheckoutPricingError(
+        `Insufficient stock for ${product.name}. Available: ${product.quantity}, Requested: ${quantityRequested}`,
+      )
+    }
+
+    const unitPrice = toAmount(product.price)
+    const lineTotal = roundCurrency(unitPrice * item.quantity)
+
+    lines.push({
+      productId: product.id,
+      productName: product.name,
+      productSku: product.sku,
+      quantity: item.quantity,
+      unitPrice,
+      lineDiscount: 0,
+      lineTotal,
+      lineTaxAmount: 0,
+      taxDetails: [],
+      ageVerificationRequired: product.ageRestricted,
+      lotNumber: product.lotNumber,
+      expirationDate: product.expirationDate,
+    })
+
+    complianceLines.push({
+      productId: product.id,
+      productName: product.name,
+      category: product.category,
+      flavorProfile: product.flavorProfile,
+      ageRestricted: product.ageRestricted,
+      quantity: item.quantity,
+    })
+
+    products.push(product)
+  }
+
+  // Line totals are what the customer pays for the line, after its discount
+  const offers = input.applyOffers
+    ? await priceOffers(client, lines, products, customerId, at)
+    : { lineDiscounts: [], discountAmount: 0, bonusPoints: 0, applied: [] }
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.lineTotal, 0))
+  offers.lineDiscounts.forEach((discount, index) => {
+    lines[index].lineDiscount = discount
+    lines[index].lineTotal = roundCurrency(lines[index].lineTotal - discount)
+  })
+  const taxableLines = lines.map((line, index) =>
+    toTaxableLine(products[index], line.quantity, line.lineTotal),
+  )
+
+  // Evaluate every compliance rule in force for the store's jurisdictions
+  const rules = await loadActiveComplianceRules(
+    client,
+    getStoreJurisdictions(store),
+    at,
+    store.timezone,
+  )
+
+  const hasDailyLimit = rules.some(
+    (rule) => (rule.ruleDetails as { maxQuantityPerDay?: number } | null)?.maxQuantityPerDay,
+  )
+  const priorQuantitiesToday =
+    customerId && hasDailyLimit && complianceLines.length > 0
+      ? await loadPriorQuantitiesToday(
+          client,
+          store,
+          customerId,
+          complianceLines.map((line) => line.productId),
+          at,
+        )
+      : {}
+
+  const evaluation = evaluateCompliance(rules, complianceLines, {
+    timezone: store.timezone,
+    at,
+    priorQuantitiesToday,
+  })
+
+  const ageVerificationRequired =
+    evaluation.ageVerificationRequired || lines.some((line) => line.ageVerificationRequired)
+
+  const requiredVerifications: RequiredVerification[] = []
+  if (ageVerificationRequired) {
+    requiredVerifications.push({
+      type: 'AGE',
+      minimumAge: evaluation.minimumAge,
+      reason: 'Cart contains age-restricted products',
+    })
+  }
+
+  // Per-line tax for the store's jurisdictions
+  const tax = calculateTransactionTax(store, taxableLines, rules)
+  tax.lines.forEach((lineTax, index) => {
+    lines[index].lineTaxAmount = lineTax.taxAmount
+    lines[index].taxDetails = lineTax.taxDetails
+  })
+
+  const totalAmount = tax.breakdown.totalAmount
+
+  // Points are a tender: they pay part of the total without changing its tax
+  const account = await loadLoyaltyAccount(client, customerId)
+  const loyaltyRedemption =
+    input.redeemPoints !== undefined
+      ? priceRedemption(account, customerId, input.redeemPoints, totalAmount)
+      : undefined
+  const redeemedAmount = loyaltyRedemption?.amount || 0
+
+  return {
+    lines,
+    subtotal,
+    discountAmount: offers.discountAmount,
+    taxAmount: tax.breakdown.totalTaxAmount,
+    totalAmount,
+    taxBreakdown: tax.breakdown,
+    discounts: offers.applied.map((offer) => ({
+      offerId: offer.offerId,
+      description:
+        offer.bonusPoints > 0 ? `${offer.name} (+${offer.bonusPoints} points)` : offer.name,
+      amount: offer.discountAmount,
+    })),
+    // The tier's points per dollar paid (rounded down), plus any points multiplier
+    // offer; the part paid with points earns nothing
+    loyaltyPointsEarned: customerId
+      ? calculatePointsEarned(
+          roundCurrency(totalAmount - redeemedAmount),
+          account?.settings.earnMultiplier ?? 1,
+        ) + offers.bonusPoints
+      : 0,
+    loyaltyRedemption,
+    storeCreditBalance: account?.storeCredit,
+    amountDue: roundCurrency(totalAmount - redeemedAmount),
+    requiredVerifications,
+    compliance: {
+      passed: evaluation.passed,
+      violations: evaluation.violations,
+      warnings: evaluation.warnings,
+    },
+    evaluation,
+    ageVerificationRequired,
+    offersApplied: offers.applied,
+  }
+}
+
+/**
+ * Strips the checkout-only fields from a priced cart for API responses
+ */
+export function toCartQuote(priced: PricedCart): CartQuote {
+  return {
+    lines: priced.lines.map((line) => ({
+      productId: line.productId,
+      productName: line.productName,
+      productSku: line.productSku,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      lineDiscount: line.lineDiscount,
+      lineTotal: line.lineTotal,
+      lineTaxAmount: line.lineTaxAmount,
+      taxDetails: line.taxDetails,
+      ageVerificationRequired: line.ageVerificationRequired,
+    })),
+    subtotal: priced.subtotal,
+    discountAmount: priced.discountAmount,
+    taxAmount: priced.taxAmount,
+    totalAmount: priced.totalAmount,
+    taxBreakdown: priced.taxBreakdown,
+    discounts: priced.discounts,
+    loyaltyPointsEarned: priced.loyaltyPointsEarned,
+    loyaltyRedemption: priced.loyaltyRedemption,
+    storeCreditBalance: priced.storeCreditBalance,
+    amountDue: priced.amountDue,
+    requiredVerifications: priced.requiredVerifications,
+    compliance: priced.compliance,
+  }
+}
@@ -0,0 +1,664 @@
+import type { Prisma, TransactionPayment } from '../../generated/prisma'
+import type { PaymentMethod } from '../types/database'
+import type { ProcessorPayment } from '../types/payments'
+import type {
+  CreateTransactionData,
+  Receipt,
+  TenderMethod,
+  TransactionTenderData,
+} from '../types/transactions'
+import {
+  authorizeGiftCard,
+  maskCardNumber,
+  normalizeCardNumber,
+  redeemGiftCard,
+  refundSaleToGiftCards,
+} from './giftCardLedger'
+import type { PaymentProcessor } from './paymentProcessor'
+import { PaymentProcessorError } from './paymentProcessor'
+import { getPaymentProcessor } from './paymentGateway'
+import { roundCurrency, toAmount } from '../utils/money'
+
+export const TENDER_METHODS: TenderMethod[] = ['CASH', 'CARD', 'GIFT_CARD', 'STORE_CREDIT']
+
+// Refunds go back to cards and store credit before cash, so a return cannot turn them into cash
+const REFUND_ORDER: PaymentMethod[] = ['GIFT_CARD', 'STORE_CREDIT', 'CARD', 'CASH']
+
+// Raised when the tenders offered cannot pay for a sale or take a refund
+export class TenderError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TenderError'
+  }
+}
+
+// What the transaction row itself records about how it was paid
+export interface TenderSummary {
+  paymentMethod: PaymentMethod
+  paymentProcessor?: string
+  paymentReference?: string
+  cashTendered?: number
+  changeGiven?: number
+}
+
+// A sale as far as working out what each tender paid is concerned
+export interface TenderedSale {
+  paymentMethod: PaymentMethod
+  totalAmount: Prisma.Decimal | number
+  loyaltyRedemptionAmount: Prisma.Decimal | number
+  payments: Pick<TransactionPayment, 'paymentMethod' | 'amount'>[]
+}
+
+// A card payment as recorded on a sale, for voiding or refunding it at the processor
+export type ProcessedPayment = Pick<
+  TransactionPayment,
+  'paymentMethod' | 'amount' | 'processor' | 'reference'
+>
+
+export interface RefundTender {
+  method: PaymentMethod
+  amount: number
+  // The card payment refunded, for card refunds that went through a processor
+  processor?: string
+  reference?: string
+}
+
+export interface SettleTendersInput {
+  transactionId: string
+  storeId: string
+  // The customer whose store credit pays any store credit tender
+  customerId?: string | null
+  employeeId?: string
+  at: Date
+}
+
+export interface RefundTendersInput {
+  saleTransactionId: string
+  transactionId: string
+  storeId: string
+  // The customer any store credit refund is owed to
+  customerId?: string | null
+  employeeId?: string
+  reason?: string
+}
+
+const formatAmount = (amount: number) => `$${amount.toFixed(2)}`
+
+const isWholeCents = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && roundCurrency(value) === value
+
+const sumAmounts = (tenders: { amount: number }[]) =>
+  roundCurrency(tenders.reduce((sum, tender) => sum + tender.amount, 0))
+
+const changeFor = (tender: TransactionTenderData) =>
+  tender.method === 'CASH' && tender.cashTendered
+    ? roundCurrency(tender.cashTendered - tender.amount)
+    : undefined
+
+/**
+ * The tenders a checkout request pays with. A split payment lists them in
+ * `payments`; a single-method sale may instead send its cash or gift card
+ * details on the request, and that one tender pays the whole amount due.
+ */
+export function resolveTenders(
+  data: Pick<
+    CreateTransactionData,
+    | 'paymentMethod'
+    | 'cashTendered'
+    | 'giftCardNumber'
+    | 'giftCardPin'
+    | 'paymentReference'
+    | 'payments'
+  >,
+  amountDue: number,
+): TransactionTenderData[] {
+  if (data.payments && data.payments.length > 0) return data.payments
+  if (data.paymentMethod === 'SPLIT' || amountDue <= 0) return []
+
+  return [
+    {
+      method: data.paymentMethod as TenderMethod,
+      amount: amountDue,
+      cashTendered: data.cashTendered,
+      giftCardNumber: data.giftCardNumber,
+      giftCardPin: data.giftCardPin,
+      reference: data.paymentReference,
+    },
+  ]
+}
+
+/**
+ * Checks the tenders can pay for the sale: each is a supported method for a
+ * positive amount, cash covers its share, gift cards come with their PIN and
+ * together they add up to exactly the amount due
+ */
+export function validateTenders(
+  tenders: TransactionTenderData[],
+  amountDue: number,
+  paymentMethod?: PaymentMethod,
+): string[] {
+  const errors: string[] = []
+
+  if (paymentMethod === 'SPLIT' && tenders.length < 2) {
+    errors.push('A split payment needs at least two payments')
+  }
+
+  tenders.forEach((tender, index) => {
+    const label = tenders.length > 1 ? `payments[${index}]` : 'payment'
+    if (!TENDER_METHODS.includes(tender.method)) {
+      errors.push(`${label} method must be one of ${TENDER_METHODS.join(', ')}`)
+    } else if (paymentMethod && paymentMethod !== 'SPLIT' && tender.method !== paymentMethod) {
+      errors.push(`${label} must be paid by ${paymentMethod}; use SPLIT to mix payment methods`)
+    }
+    if (!isWholeCents(tender.amount) || tender.amount <= 0) {
+      errors.push(`${label} amount must be more than zero in whole cents`)
+    }
+    if (tender.method === 'CASH' && tender.cashTendered != null) {
+      if (!isWholeCents(tender.cashTendered) || tender.cashTendered < tender.amount) {
+        errors.push('Insufficient cash tendered')
+      }
+    }
+    if (tender.method === 'GIFT_CARD' && (!tender.giftCardNumber || !tender.giftCardPin)) {
+      errors.push('Gift card number and PIN are required')
+    }
+  })
+
+  const paid = sumAmounts(tenders)
+  if (amountDue > 0 && tenders.length === 0) {
+    errors.push('At least one payment is required')
+  } else if (tenders.length > 0 && paid !== roundCurrency(amountDue)) {
+    errors.push(`Payments add up to ${formatAmount(paid)} but ${formatAmount(amountDue)} is due`)
+  }
+
+  return errors
+}
+
+/**
+ * How the transaction row records its tenders: the method when only one was
+ * used, otherwise SPLIT, with cash tendered and change from the cash tenders only
+ */
+export function summariseTenders(
+  tenders: TransactionTenderData[],
+  fallbackMethod: PaymentMethod,
+): TenderSummary {
+  const methods = new Set(tenders.map((tender) => tender.method))
+  const paymentMethod: PaymentMethod =
+    methods.size === 0 ? fallbackMethod : methods.size === 1 ? tenders[0].method : 'SPLIT'
+
+  const cash = tenders.filter((tender) => tender.method === 'CASH' && tender.cashTendered)
+  const only = tenders.length === 1 ? tenders[0] : undefined
+
+  return {
+    paymentMethod,
+    paymentProcessor: tenders.find((tender) => tender.processor)?.processor,
+    paymentReference:
+      only?.method === 'GIFT_CARD'
+        ? maskCardNumber(normalizeCardNumber(only.giftCardNumber))
+        : only?.reference,
+    cashTendered:
+      cash.length > 0
+        ? roundCurrency(cash.reduce((sum, tender) => sum + tender.cashTendered, 0))
+        : undefined,
+    changeGiven:
+      cash.length > 0
+        ? roundCurrency(cash.reduce((sum, tender) => sum + changeFor(tender), 0))
+        : undefined,
+  }
+}
+
+/**
+ * Takes a store credit tender off the customer's balance. The balance is
+ * checked in the same statement that reduces it, so two sales cannot both
+ * spend the same credit.
+ */
+async function spendStoreCredit(
+  tx: Prisma.TransactionClient,
+  customerId: string | null | undefined,
+  amount: number,
+): Promise<void> {
+  if (!customerId) {
+    throw new TenderError('Store credit can only pay for a sale with the customer on it')
+  }
+
+  const { count } = await tx.customer.updateMany({
+    where: { id: customerId, storeCreditBalance: { gte: amount } },
+    data: { storeCreditBalance: { decrement: amount } },
+  })
+  if (count === 0) {
+    throw new TenderError(`Customer does not have ${formatAmount(amount)} in store credit`)
+  }
+}
+
+// A payment as the processor sees it, or undefined when the processor has no record of it
+async function findProcessorPayment(
+  processor: PaymentProcessor,
+  reference: string,
+): Promise<ProcessorPayment | undefined> {
+  try {
+    return await processor.status(reference)
+  } catch (error) {
+    if (error instanceof PaymentProcessorError && error.code === 'UNKNOWN_PAYMENT') return undefined
+    throw error
+  }
+}
+
+/**
+ * Checks each card tender against the authorization the register obtained
+ * for it, and takes the processor, last four digits and auth code from the
+ * processor rather than the request. A store with no processor takes no cards.
+ */
+export async function verifyCardTenders(
+  processor: PaymentProcessor | null,
+  tenders: TransactionTenderData[],
+): Promise<TransactionTenderData[]> {
+  const references = new Set<string>()
+  const verified: TransactionTenderData[] = []
+
+  for (const tender of tenders) {
+    if (tender.method !== 'CARD') {
+      verified.push(tender)
+      continue
+    }
+    if (!processor) {
+      throw new TenderError('No card payment processor is configured for this store')
+    }
+    if (!tender.reference) {
+      throw new TenderError('Card payments must be authorized before checkout')
+    }
+    if (references.has(tender.reference)) {
+      throw new TenderError(`Card payment ${tender.reference} can only pay once`)
+    }
+    references.add(tender.reference)
+
+    const payment = await findProcessorPayment(processor, tender.reference)
+    if (!payment) {
+      throw new TenderError(`Card payment ${tender.reference} not found`)
+    }
+    if (payment.status !== 'AUTHORIZED') {
+      throw new TenderError(
+        `Card payment ${tender.reference} is ${payment.status.toLowerCase()}, not authorized`,
+      )
+    }
+    if (payment.amount !== tender.amount) {
+      throw new TenderError(
+        `Card payment ${tender.reference} was approved for ${formatAmount(payment.amount)}, not ${formatAmount(tender.amount)}`,
+      )
+    }
+
+    verified.push({
+      ...tender,
+      processor: payment.processor,
+      last4: payment.last4,
+      authCode: payment.authCode,
+    })
+  }
+
+  return verified
+}
+
+/**
+ * Checks the number and PIN of each gift card tender before the sale's
+ * transaction opens, so a wrong PIN counts towards the card's lockout even
+ * though the sale is never saved.
+ */
+export async function authorizeGiftCardTenders(
+  client: Prisma.TransactionClient,
+  tenders: TransactionTenderData[],
+  at: Date,
+): Promise<void> {
+  for (const tender of tenders) {
+    if (tender.method !== 'GIFT_CARD') continue
+    await authorizeGiftCard(client, tender.giftCardNumber, tender.giftCardPin, at)
+  }
+}
+
+/**
+ * Captures the card authorizations of a committed sale. A capture that
+ * fails leaves the sale standing with its card payment PENDING, to be
+ * captured again or followed up with the processor.
+ */
+export async function captureCardTenders(
+  client: Prisma.TransactionClient,
+  processor: PaymentProcessor | null,
+  transactionId: string,
+  tenders: TransactionTenderData[],
+): Promise<void> {
+  if (!processor) return
+
+  for (const tender of tenders) {
+    if (tender.method !== 'CARD' || !tender.reference) continue
+
+    try {
+      await processor.capture(tender.reference, tender.amount)
+    } catch (error) {
+      console.error('Card capture error:', error)
+      await client.transactionPayment.updateMany({
+        where: { transactionId, reference: tender.reference },
+        data: { status: 'PENDING' },
+      })
+    }
+  }
+}
+
+/**
+ * Drops the holds on a sale's card authorizations when the sale did not go
+ * through. Best effort: an authorization that cannot be voided expires.
+ */
+export async function releaseCardTenders(
+  processor: PaymentProcessor | null,
+  tenders: TransactionTenderData[],
+): Promise<void> {
+  if (!processor) return
+
+  for (const tender of tenders) {
+    if (tender.method !== 'CARD' || !tender.reference) continue
+
+    try {
+      await processor.void(tender.reference)
+    } catch (error) {
+      console.error('Card authorization release error:', error)
+    }
+  }
+}
+
+/**
+ * Voids a voided sale's card payments at the processors that took them. Runs
+ * once the void has committed; a payment the processor will not void is left
+ * PENDING for the store to settle by hand. Card payments recorded without a
+ * processor were taken outside the POS.
+ */
+export async function voidCardPayments(
+  client: Prisma.TransactionClient,
+  transactionId: string,
+  payments: ProcessedPayment[],
+): Promise<void> {
+  for (const payment of payments) {
+    if (payment.paymentMethod !== 'CARD' || !payment.processor || !payment.reference) continue
+    if (toAmount(payment.amount) <= 0) continue
+
+    try {
+      await getPaymentProcessor(payment.processor).void(payment.reference)
+    } catch (error) {
+      // Nothing to void when the processor never took the payment
+      if (error instanceof PaymentProcessorError && error.code === 'UNKNOWN_PAYMENT') continue
+      console.error('Card void error:', error)
+      await client.transactionPayment.updateMany({
+        where: { transactionId, reference: payment.reference },
+        data: { status: 'PENDING' },
+      })
+    }
+  }
+}
+
+/**
+ * Takes each tender and records it against the transaction, in the order
+ * given. Gift cards are charged here, inside the transaction of the sale,
+ * so a declined card rolls the whole sale back.
+ */
+export async function settleTenders(
+  tx: Prisma.TransactionClient,
+  tenders: TransactionTenderData[],
+  input: SettleTendersInput,
+): Promise<TransactionPayment[]> {
+  const payments: TransactionPayment[] = []
+
+  for (const [sequence, tender] of tenders.entries()) {
+    let reference = tender.reference
+    let last4 = tender.last4
+
+    if (tender.method === 'GIFT_CARD') {
+      await redeemGiftCard(tx, {
+        cardNumber: tender.giftCardNumber,
+        pin: tender.giftCardPin,
+        amount: tender.amount,
+        storeId: input.storeId,
+        transactionId: input.transactionId,
+        employeeId: input.employeeId,
+        at: input.at,
+      })
+      const cardNumber = normalizeCardNumber(tender.giftCardNumber)
+      reference = maskCardNumber(cardNumber)
+      last4 = cardNumber.slice(-4)
+    } else if (tender.method === 'STORE_CREDIT') {
+      await spendStoreCredit(tx, input.customerId, tender.amount)
+    }
+
+    payments.push(
+      await tx.transactionPayment.create({
+        data: {
+          transactionId: input.transactionId,
+          paymentMethod: tender.method,
+          amount: tender.amount,
+          cashTendered: tender.method === 'CASH' ? tender.cashTendered : undefined,
+          changeGiven: changeFor(tender),
+          processor: tender.processor,
+          reference,
+          last4,
+          authCode: tender.authCode,
+          sequence,
+        },
+      }),
+    )
+  }
+
+  return payments
+}
+
+/**
+ * What each method paid towards a sale. Sales rung up before tenders were
+ * recorded separately were paid in full by their one method, less any points.
+ */
+export function getTenderAmounts(sale: TenderedSale): Map<PaymentMethod, number> {
+  const amounts = new Map<PaymentMethod, number>()
+
+  if (sale.payments.length === 0) {
+    const amount = roundCurrency(
+      toAmount(sale.totalAmount) - toAmount(sale.loyaltyRedemptionAmount),
+    )
+    if (amount > 0) amounts.set(sale.paymentMethod, amount)
+    return amounts
+  }
+
+  for (const payment of sale.payments) {
+    const amount = roundCurrency(
+      (amounts.get(payment.paymentMethod) || 0) + toAmount(payment.amount),
+    )
+    amounts.set(payment.paymentMethod, amount)
+  }
+  return amounts
+}
+
+/**
+ * What earlier returns against a sale already refunded, by method
+ */
+export async function loadRefundedTenders(
+  client: Prisma.TransactionClient,
+  saleTransactionId: string,
+): Promise<Map<PaymentMethod, number>> {
+  const rows = await client.transactionPayment.groupBy({
+    by: ['paymentMethod'],
+    where: { transaction: { originalTransactionId: saleTransactionId }, amount: { lt: 0 } },
+    _sum: { amount: true },
+  })
+
+  return new Map(rows.map((row) => [row.paymentMethod, -toAmount(row._sum.amount)]))
+}
+
+/**
+ * Splits a refund across the tenders that paid for the sale, gift cards and
+ * bank cards first and cash last, never giving a method back more than it
+ * paid less what earlier returns refunded to it
+ */
+export function planTenderRefund(
+  paid: Map<PaymentMethod, number>,
+  refunded: Map<PaymentMethod, number>,
+  amount: number,
+): RefundTender[] {
+  const methods = [
+    ...REFUND_ORDER.filter((method) => paid.has(method)),
+    ...[...paid.keys()].filter((method) => !REFUND_ORDER.includes(method)),
+  ]
+
+  let remaining = roundCurrency(amount)
+  const refunds: RefundTender[] = []
+  for (const method of methods) {
+    if (remaining <= 0) break
+    const available = roundCurrency((paid.get(method) || 0) - (refunded.get(method) || 0))
+    const share = roundCurrency(Math.min(remaining, available))
+    if (share <= 0) continue
+
+    refunds.push({ method, amount: share })
+    remaining = roundCurrency(remaining - share)
+  }
+
+  if (remaining > 0) {
+    throw new TenderError(
+      `Refund is ${formatAmount(remaining)} more than was paid on this sale and not yet refunded`,
+    )
+  }
+
+  return refunds
+}
+
+/**
+ * Works out how the card share of a refund goes back through the processors
+ * that took the sale's card payments, as far as each still has captured money
+ * to refund. What is left, from card payments taken outside the POS, stays a
+ * plain card refund for the register to key in. Nothing is refunded here.
+ */
+export async function planCardRefunds(
+  payments: ProcessedPayment[],
+  refunds: RefundTender[],
+): Promise<RefundTender[]> {
+  const planned: RefundTender[] = []
+
+  for (const refund of refunds) {
+    if (refund.method !== 'CARD') {
+      planned.push(refund)
+      continue
+    }
+
+    let remaining = refund.amount
+    for (const payment of payments) {
+      if (remaining <= 0) break
+      if (payment.paymentMethod !== 'CARD' || !payment.processor || !payment.reference) continue
+      if (toAmount(payment.amount) <= 0) continue
+
+      const processor = getPaymentProcessor(payment.processor)
+      const current = await findProcessorPayment(processor, payment.reference)
+      if (!current) continue
+      const share = roundCurrency(
+        Math.min(remaining, current.capturedAmount - current.refundedAmount),
+      )
+      if (share <= 0) continue
+
+      planned.push({
+        method: 'CARD',
+        amount: share,
+        processor: payment.processor,
+        reference: payment.reference,
+      })
+      remaining = roundCurrency(remaining - share)
+    }
+
+    if (remaining > 0) planned.push({ method: 'CARD', amount: remaining })
+  }
+
+  return planned
+}
+
+/**
+ * Sends a saved return's card refunds through the processors that took the
+ * sale's card payments. Runs once the return has committed, so money never
+ * goes back for a return that did not save; a refund the processor turns
+ * down is left PENDING on the return for the store to settle by hand.
+ */
+export async function refundCardTenders(
+  client: Prisma.TransactionClient,
+  transactionId: string,
+  refunds: RefundTender[],
+): Promise<void> {
+  for (const refund of refunds) {
+    if (refund.method !== 'CARD' || !refund.processor || !refund.reference) continue
+
+    try {
+      await getPaymentProcessor(refund.processor).refund(refund.reference, refund.amount)
+    } catch (error) {
+      console.error('Card refund error:', error)
+      await client.transactionPayment.updateMany({
+        where: { transactionId, reference: refund.reference },
+        data: { status: 'PENDING' },
+      })
+    }
+  }
+}
+
+/**
+ * Records the refund tenders against a return, stored negative, puts the
+ * gift card share back on the cards that paid for the sale and the store
+ * credit share on the customer's balance
+ */
+export async function refundTenders(
+  tx: Prisma.TransactionClient,
+  refunds: RefundTender[],
+  input: RefundTendersInput,
+): Promise<TransactionPayment[]> {
+  const payments: TransactionPayment[] = []
+
+  for (const [sequence, refund] of refunds.entries()) {
+    if (refund.method === 'GIFT_CARD') {
+      await refundSaleToGiftCards(tx, {
+        saleTransactionId: input.saleTransactionId,
+        amount: refund.amount,
+        storeId: input.storeId,
+        transactionId: input.transactionId,
+        employeeId: input.employeeId,
+        reason: input.reason,
+      })
+    } else if (refund.method === 'STORE_CREDIT') {
+      if (!input.customerId) {
+        throw new TenderError('Store credit can only be refunded to a customer')
+      }
+      await tx.customer.update({
+        where: { id: input.customerId },
+        data: { storeCreditBalance: { increment: refund.amount } },
+      })
+    }
+
+    payments.push(
+      await tx.transactionPayment.create({
+        data: {
+          transactionId: input.transactionId,
+          paymentMethod: refund.method,
+          amount: -refund.amount,
+          processor: refund.processor,
+          reference: refund.reference,
+          status: 'REFUNDED',
+          sequence,
+        },
+      }),
+    )
+  }
+
+  return payments
+}
+
+/**
+ * A transaction's tenders as printed on its receipt
+ */
+export function toReceiptTenders(
+  payments: Pick<
+    TransactionPayment,
+    'paymentMethod' | 'amount' | 'reference' | 'last4' | 'authCode' | 'cashTendered' | 'changeGiven'
+  >[],
+): Receipt['tenders'] {
+  return payments.map((payment) => ({
+    method: payment.paymentMethod,
+    amount: toAmount(payment.amount),
+    reference: payment.reference || undefined,
+    last4: payment.last4 || undefined,
+    authCode: payment.authCode || undefined,
+    cashTendered: payment.cashTendered ? toAmount(payment.cashTendered) : undefined,
+    changeGiven: payment.changeGiven ? toAmount(payment.changeGiven) : undefined,
+  }))
+}
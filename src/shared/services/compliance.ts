@@ -0,0 +1,130 @@
+import { api } from './api'
+import type { RuleType, JurisdictionType } from '../types/database'
+import type {
+  CreateComplianceRuleData,
+  UpdateComplianceRuleData,
+  ComplianceRuleResponse,
+  ComplianceRuleOverlap,
+  ComplianceRulePreview,
+  JurisdictionRef
+} from '../types/compliance'
+
+export type ComplianceRuleStatus = 'all' | 'active' | 'scheduled' | 'expired' | 'retired'
+
+export interface ComplianceRuleFilters {
+  ruleType?: RuleType
+  jurisdictionType?: JurisdictionType
+  jurisdictionCode?: string
+  status?: ComplianceRuleStatus
+  includeHistory?: boolean
+}
+
+export interface ComplianceOverlapQuery {
+  storeId?: string
+  stateCode?: string
+  county?: string
+  city?: string
+}
+
+export const complianceService = {
+  // Get compliance rules list with filters
+  async getRules(filters: ComplianceRuleFilters = {}, page = 1, limit = 50) {
+    const response = await api.get('/api/compliance/rules', {
+      params: { ...filters, page, limit }
+    })
+    return response.data as {
+      rules: ComplianceRuleResponse[]
+      pagination: { page: number; limit: number; total: number; pages: number }
+    }
+  },
+
+  // Get a rule with its version history
+  async getRule(id: string): Promise<{ rule: ComplianceRuleResponse; versions: ComplianceRuleResponse[] }> {
+    const response = await api.get(`/api/compliance/rules/${id}`)
+    return response.data
+  },
+
+  // Create a new rule
+  async createRule(data: CreateComplianceRuleData): Promise<ComplianceRuleResponse> {
+    const response = await api.post('/api/compliance/rules', data)
+    return response.data.rule
+  },
+
+  // Update a rule (the server creates a new version if the rule is already in effect)
+  async updateRule(id: string, data: UpdateComplianceRuleData): Promise<ComplianceRuleResponse> {
+    const response = await api.put(`/api/compliance/rules/${id}`, data)
+    return response.data.rule
+  },
+
+  // Retire a rule immediately, or schedule its last day
+  async retireRule(id: string, endDate?: string): Promise<ComplianceRuleResponse> {
+    const response = await api.post(`/api/compliance/rules/${id}/retire`, { endDate })
+    return response.data.rule
+  },
+
+  // Rules in force for a location, grouped where jurisdictions overlap
+  async getOverlaps(query: ComplianceOverlapQuery): Promise<{
+    jurisdictions: JurisdictionRef[]
+    rules: ComplianceRuleResponse[]
+    overlaps: ComplianceRuleOverlap[]
+  }> {
+    const response = await api.get('/api/compliance/rules/overlaps', { params: query })
+    return response.data
+  },
+
+  // Preview what a draft or saved rule would block right now
+  async previewRule(
+    rule: CreateComplianceRuleData | { id: string },
+    timezone?: string
+  ): Promise<ComplianceRulePreview> {
+    const response = 'id' in rule
+      ? await api.post(`/api/compliance/rules/${rule.id}/preview`, { timezone })
+      : await api.post('/api/compliance/rules/preview', { ...rule, timezone })
+    return response.data
+  },
+
+  // Human readable summary of a rule's details for lists
+  describeRule(rule: Pick<ComplianceRuleResponse, 'ruleType' | 'ruleDetails'>): string {
+    const d = rule.ruleDetails || {}
+    switch (rule.ruleType) {
+      case 'AGE_VERIFICATION':
+        return `Minimum age ${d.minAge}${d.requireIdUnder ? `, ID required under ${d.requireIdUnder}` : ''}${
+          d.outOfStateIds && d.outOfStateIds !== 'ACCEPT'
+            ? `, out-of-state IDs ${d.outOfStateIds === 'REJECT' ? 'refused' : 'need manager approval'}`
+            : ''
+        }`
+      case 'FLAVOR_BAN':
+        return `Bans ${(d.bannedFlavors || []).join(', ')}${d.exceptions?.length ? ` (except ${d.exceptions.join(', ')})` : ''}`
+      case 'TAX_RATE': {
+        const rate = d.taxType === 'PERCENTAGE'
+          ? `${((d.rate || 0) * 100).toFixed(2)}% on ${(d.basis || 'RETAIL').toLowerCase()}`
+          : `${d.taxType} at ${d.rate}`
+        const scope = d.appliesTo && d.appliesTo !== 'ALL'
+          ? ` (${d.appliesTo.replace('_', ' ').toLowerCase()} only)`
+          : ''
+        return `${rate}${scope}${d.excludeSyntheticNicotine ? ', excludes synthetic nicotine' : ''}`
+      }
+      case 'PRODUCT_RESTRICTION':
+      case 'QUANTITY_LIMIT': {
+        const parts: string[] = []
+        if (d.maxQuantityPerTransaction) parts.push(`max ${d.maxQuantityPerTransaction} per sale`)
+        if (d.maxQuantityPerDay) parts.push(`max ${d.maxQuantityPerDay} per day`)
+        if (d.restrictedHours?.length) {
+          parts.push(`no sales ${d.restrictedHours.map(h => `${h.start}-${h.end}`).join(', ')}`)
+        }
+        return parts.join(', ')
+      }
+      default:
+        return ''
+    }
+  },
+
+  // Current state of a rule relative to today
+  getRuleStatus(rule: Pick<ComplianceRuleResponse, 'isActive' | 'effectiveDate' | 'endDate'>): ComplianceRuleStatus {
+    const today = new Date().toISOString().slice(0, 10)
+    if (!rule.isActive) return 'retired'
+    if (rule.effectiveDate.slice(0, 10) > today) return 'scheduled'
+    if (rule.endDate && rule.endDate.slice(0, 10) < today) return 'expired'
+    return 'active'
+  }
+}
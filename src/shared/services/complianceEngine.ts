@@ -0,0 +1,289 @@
+import type { Prisma, ComplianceRule, StoreLocation } from '../../generated/prisma'
+import type { ComplianceRuleDetails, EnforcementPriority } from '../types/database'
+import type {
+  JurisdictionRef,
+  ComplianceLineInput,
+  ComplianceContext,
+  ComplianceFlag,
+  ComplianceEvaluation,
+} from '../types/compliance'
+import { getBusinessDate, getZonedTime } from '../utils/businessDate'
+
+// Priorities that stop the sale; anything lower is recorded as a warning only
+const BLOCKING_PRIORITIES: EnforcementPriority[] = ['CRITICAL', 'HIGH']
+
+/**
+ * Lists every jurisdiction a store falls under, from federal down to city.
+ * County and city codes are prefixed with the state so that identically
+ * named places in different states never collide (e.g. "CA-SAN FRANCISCO").
+ */
+export function getStoreJurisdictions(
+  store: Pick<StoreLocation, 'countryCode' | 'stateCode' | 'county' | 'city'>,
+): JurisdictionRef[] {
+  const stateCode = store.stateCode.toUpperCase()
+  const jurisdictions: JurisdictionRef[] = [
+    { jurisdictionType: 'FEDERAL', jurisdictionCode: (store.countryCode || 'US').toUpperCase() },
+    { jurisdictionType: 'STATE', jurisdictionCode: stateCode },
+  ]
+
+  if (store.county) {
+    jurisdictions.push({
+      jurisdictionType: 'COUNTY',
+      jurisdictionCode: `${stateCode}-${store.county.trim().toUpperCase()}`,
+    })
+  }
+
+  if (store.city) {
+    jurisdictions.push({
+      jurisdictionType: 'CITY',
+      jurisdictionCode: `${stateCode}-${store.city.trim().toUpperCase()}`,
+    })
+  }
+
+  return jurisdictions
+}
+
+/**
+ * Loads the rules in force for the given jurisdictions on the store-local business date
+ */
+export async function loadActiveComplianceRules(
+  client: Prisma.TransactionClient,
+  jurisdictions: JurisdictionRef[],
+  at: Date,
+  timezone: string,
+): Promise<ComplianceRule[]> {
+  const businessDate = getBusinessDate(at, timezone)
+
+  return client.complianceRule.findMany({
+    where: {
+      isActive: true,
+      effectiveDate: { lte: businessDate },
+      AND: [
+        { OR: [{ endDate: null }, { endDate: { gte: businessDate } }] },
+        {
+          OR: jurisdictions.map((jurisdiction) => ({
+            jurisdictionType: jurisdiction.jurisdictionType,
+            jurisdictionCode: jurisdiction.jurisdictionCode,
+          })),
+        },
+      ],
+    },
+    orderBy: [{ jurisdictionType: 'asc' }, { effectiveDate: 'asc' }],
+  })
+}
+
+/**
+ * Evaluates the cart against the loaded rules. Pure function - all data the
+ * rules need (including today's prior purchases) must be supplied by the caller.
+ */
+export function evaluateCompliance(
+  rules: ComplianceRule[],
+  lines: ComplianceLineInput[],
+  context: ComplianceContext,
+): ComplianceEvaluation {
+  const flags: ComplianceFlag[] = []
+  let ageVerificationRequired = false
+  let minimumAge: number | undefined
+
+  for (const rule of rules) {
+    const details = (rule.ruleDetails || {}) as ComplianceRuleDetails
+    const scopedLines = lines.filter((line) => isLineInScope(line, details))
+    if (scopedLines.length === 0) continue
+
+    const flag = (message: string, line?: ComplianceLineInput): ComplianceFlag => ({
+      ruleId: rule.id,
+      ruleType: rule.ruleType,
+      jurisdictionType: rule.jurisdictionType,
+      jurisdictionCode: rule.jurisdictionCode,
+      enforcementPriority: rule.enforcementPriority,
+      productId: line?.productId,
+      productName: line?.productName,
+      blocking: BLOCKING_PRIORITIES.includes(rule.enforcementPriority),
+      message,
+    })
+
+    switch (rule.ruleType) {
+      case 'FLAVOR_BAN':
+        for (const line of scopedLines) {
+          const bannedFlavor = findBannedFlavor(line.flavorProfile, details)
+          if (bannedFlavor) {
+            flags.push(
+              flag(
+                `${line.productName} (${line.flavorProfile}) falls under a ${bannedFlavor} flavor ban in ${rule.jurisdictionCode}`,
+                line,
+              ),
+            )
+          }
+        }
+        break
+
+      case 'QUANTITY_LIMIT':
+        flags.push(...evaluateQuantityLimits(details, scopedLines, context, flag))
+        break
+
+      case 'PRODUCT_RESTRICTION':
+        flags.push(...evaluateQuantityLimits(details, scopedLines, context, flag))
+        if (details.restrictedHours?.length && isWithinRestrictedHours(details, context)) {
+          for (const line of scopedLines) {
+            flags.push(
+              flag(
+                `${line.productName} cannot be sold at this time in ${rule.jurisdictionCode}`,
+                line,
+              ),
+            )
+          }
+        }
+        break
+
+      case 'AGE_VERIFICATION':
+        if (scopedLines.some((line) => line.ageRestricted)) {
+          ageVerificationRequired = true
+          if (details.minAge && (!minimumAge || details.minAge > minimumAge)) {
+            minimumAge = details.minAge
+          }
+        }
+        break
+
+      case 'TAX_RATE':
+        // Tax rules affect pricing, not whether the sale may proceed
+        break
+    }
+  }
+
+  const violations = flags.filter((f) => f.blocking)
+  const warnings = flags.filter((f) => !f.blocking)
+
+  return {
+    passed: violations.length === 0,
+    rulesEvaluated: rules.length,
+    ageVerificationRequired,
+    minimumAge,
+    violations,
+    warnings,
+    evaluatedAt: context.at.toISOString(),
+  }
+}
+
+// Normalises a category or rule product key for comparison ("Disposable Vapes" -> "disposable_vapes")
+function normaliseKey(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+}
+
+// The whole normalised category with each word singular, so "pods" matches "Pod" but
+// "e_liquids" does not match "E-Cigarettes"
+function categoryKey(value: string): string {
+  return normaliseKey(value)
+    .split('_')
+    .map((word) => word.replace(/s$/, ''))
+    .join('_')
+}
+
+/**
+ * Checks whether a cart line falls under a rule's `effectiveProducts` scope.
+ * Rules without a scope apply to every line.
+ */
+export function isLineInScope(line: ComplianceLineInput, details: ComplianceRuleDetails): boolean {
+  if (!details.effectiveProducts || details.effectiveProducts.length === 0) return true
+  if (!line.category) return false
+
+  const category = categoryKey(line.category)
+  return details.effectiveProducts.some((product) => categoryKey(product) === category)
+}
+
+// The words of a flavor ("Tropical FRUIT" -> ["tropical", "fruit"])
+function flavorWords(value: string): string[] {
+  return value
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+}
+
+// Whether a profile has all the words of a flavor, whole and in order, so "Fruit" is not "Grapefruit"
+function hasFlavor(profile: string[], flavor: string[]): boolean {
+  if (flavor.length === 0) return false
+  return profile.some((_, start) =>
+    flavor.every((word, offset) => profile[start + offset] === word),
+  )
+}
+
+/**
+ * Returns the banned flavor a product's flavor profile matches, if any.
+ * Exceptions (e.g. Tobacco, Menthol) win over bans only for a profile made
+ * up entirely of excepted flavors, so "Tobacco Mango" is still mango.
+ */
+export function findBannedFlavor(
+  flavorProfile: string | null,
+  details: ComplianceRuleDetails,
+): string | null {
+  if (!flavorProfile || !details.bannedFlavors?.length) return null
+
+  const profile = flavorWords(flavorProfile)
+  const exceptionWords = new Set((details.exceptions || []).flatMap(flavorWords))
+  if (profile.length > 0 && profile.every((word) => exceptionWords.has(word))) return null
+
+  // A ban on "*" or "ALL" covers every non-exempt flavor
+  const banned = details.bannedFlavors.find(
+    (flavor) =>
+      flavor === '*' || flavor.toUpperCase() === 'ALL' || hasFlavor(profile, flavorWords(flavor)),
+  )
+  return banned || null
+}
+
+function evaluateQuantityLimits(
+  details: ComplianceRuleDetails,
+  scopedLines: ComplianceLineInput[],
+  context: ComplianceContext,
+  flag: (message: string, line?: ComplianceLineInput) => ComplianceFlag,
+): ComplianceFlag[] {
+  const flags: ComplianceFlag[] = []
+  const cartQuantity = scopedLines.reduce((sum, line) => sum + line.quantity, 0)
+
+  if (details.maxQuantityPerTransaction && cartQuantity > details.maxQuantityPerTransaction) {
+    flags.push(
+      flag(
+        `Quantity ${cartQuantity} exceeds the limit of ${details.maxQuantityPerTransaction} per transaction`,
+      ),
+    )
+  }
+
+  if (details.maxQuantityPerDay) {
+    const prior = context.priorQuantitiesToday || {}
+    const priorQuantity = scopedLines.reduce((sum, line) => sum + (prior[line.productId] || 0), 0)
+    if (priorQuantity + cartQuantity > details.maxQuantityPerDay) {
+      flags.push(
+        flag(
+          `Quantity ${cartQuantity} plus ${priorQuantity} already purchased today exceeds the daily limit of ${details.maxQuantityPerDay}`,
+        ),
+      )
+    }
+  }
+
+  return flags
+}
+
+// Restricted hour windows are "HH:MM" in store-local time and may wrap past midnight
+function isWithinRestrictedHours(
+  details: ComplianceRuleDetails,
+  context: ComplianceContext,
+): boolean {
+  const { hour, minute } = getZonedTime(context.at, context.timezone)
+  const now = hour * 60 + minute
+
+  return (details.restrictedHours || []).some(({ start, end }) => {
+    const startMinutes = toMinutes(start)
+    const endMinutes = toMinutes(end)
+    if (startMinutes <= endMinutes) {
+      return now >= startMinutes && now < endMinutes
+    }
+    return now >= startMinutes || now < endMinutes
+  })
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part, 10))
+  return (hours || 0) * 60 + (minutes || 0)
+}
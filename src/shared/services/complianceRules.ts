@@ -0,0 +1,219 @@
+import type { ComplianceRule, Product } from '../../generated/prisma'
+import type { ComplianceRuleDetails, JurisdictionType, RuleType } from '../types/database'
+import type { ComplianceRulePreview, ComplianceRulePreviewItem } from '../types/compliance'
+import { evaluateCompliance, isLineInScope } from './complianceEngine'
+import { OUT_OF_STATE_ID_POLICIES, RULE_ID_TYPE_CODES, toIdType } from './ageVerificationLog'
+
+const TAX_TYPES = ['PERCENTAGE', 'PER_ML', 'PER_CARTRIDGE', 'FIXED']
+const TAX_BASES = ['WHOLESALE', 'RETAIL']
+const TAX_PRODUCT_SCOPES = ['ALL', 'OPEN_SYSTEM', 'CLOSED_SYSTEM']
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+/**
+ * Validates the ruleDetails JSON for a rule type.
+ * Returns a list of human-readable problems; an empty list means the details are valid.
+ */
+export function validateRuleDetails(ruleType: RuleType, details: unknown): string[] {
+  if (!details || typeof details !== 'object' || Array.isArray(details)) {
+    return ['ruleDetails must be an object']
+  }
+
+  const d = details as ComplianceRuleDetails
+  const errors: string[] = []
+
+  const checkStringArray = (field: keyof ComplianceRuleDetails, required = false) => {
+    const value = d[field]
+    if (value === undefined) {
+      if (required) errors.push(`${field} is required`)
+      return
+    }
+    if (!Array.isArray(value) || value.some((v) => typeof v !== 'string' || !v.trim())) {
+      errors.push(`${field} must be a list of non-empty strings`)
+    } else if (required && value.length === 0) {
+      errors.push(`${field} must not be empty`)
+    }
+  }
+
+  const checkPositiveInteger = (field: keyof ComplianceRuleDetails) => {
+    const value = d[field]
+    if (value !== undefined && (!Number.isInteger(value) || (value as number) <= 0)) {
+      errors.push(`${field} must be a positive whole number`)
+    }
+  }
+
+  const checkRestrictedHours = () => {
+    if (d.restrictedHours === undefined) return
+    if (
+      !Array.isArray(d.restrictedHours) ||
+      d.restrictedHours.some(
+        (window) =>
+          !window || !TIME_PATTERN.test(window.start || '') || !TIME_PATTERN.test(window.end || ''),
+      )
+    ) {
+      errors.push('restrictedHours must be a list of { start, end } times in HH:MM format')
+    }
+  }
+
+  // Any rule may be scoped to product categories
+  checkStringArray('effectiveProducts')
+
+  switch (ruleType) {
+    case 'AGE_VERIFICATION':
+      if (!Number.isInteger(d.minAge) || d.minAge < 18 || d.minAge > 30) {
+        errors.push('minAge is required and must be a whole number between 18 and 30')
+      }
+      if (d.requireIdUnder !== undefined) {
+        if (!Number.isInteger(d.requireIdUnder)) {
+          errors.push('requireIdUnder must be a whole number')
+        } else if (d.minAge && d.requireIdUnder < d.minAge) {
+          errors.push('requireIdUnder must not be lower than minAge')
+        }
+      }
+      checkStringArray('acceptableIds')
+      if (
+        Array.isArray(d.acceptableIds) &&
+        d.acceptableIds.some((id) => typeof id === 'string' && id.trim() && !toIdType(id))
+      ) {
+        errors.push(`acceptableIds must only contain ${RULE_ID_TYPE_CODES.join(', ')}`)
+      }
+      if (d.outOfStateIds !== undefined && !OUT_OF_STATE_ID_POLICIES.includes(d.outOfStateIds)) {
+        errors.push(`outOfStateIds must be one of ${OUT_OF_STATE_ID_POLICIES.join(', ')}`)
+      }
+      break
+
+    case 'FLAVOR_BAN':
+      checkStringArray('bannedFlavors', true)
+      checkStringArray('exceptions')
+      break
+
+    case 'TAX_RATE':
+      if (!d.taxType || !TAX_TYPES.includes(d.taxType)) {
+        errors.push(`taxType is required and must be one of ${TAX_TYPES.join(', ')}`)
+      }
+      if (typeof d.rate !== 'number' || d.rate < 0) {
+        errors.push('rate is required and must be a non-negative number')
+      } else if (d.taxType === 'PERCENTAGE' && d.rate > 1) {
+        errors.push('rate for PERCENTAGE taxes is a fraction (0.15 for 15%)')
+      }
+      if (d.basis !== undefined && !TAX_BASES.includes(d.basis)) {
+        errors.push(`basis must be one of ${TAX_BASES.join(', ')}`)
+      }
+      if (d.appliesTo !== undefined && !TAX_PRODUCT_SCOPES.includes(d.appliesTo)) {
+        errors.push(`appliesTo must be one of ${TAX_PRODUCT_SCOPES.join(', ')}`)
+      }
+      if (
+        d.excludeSyntheticNicotine !== undefined &&
+        typeof d.excludeSyntheticNicotine !== 'boolean'
+      ) {
+        errors.push('excludeSyntheticNicotine must be true or false')
+      }
+      break
+
+    case 'PRODUCT_RESTRICTION':
+      checkPositiveInteger('maxQuantityPerTransaction')
+      checkPositiveInteger('maxQuantityPerDay')
+      checkRestrictedHours()
+      if (!d.restrictedHours?.length && !d.maxQuantityPerTransaction && !d.maxQuantityPerDay) {
+        errors.push('A product restriction needs restrictedHours or a quantity limit')
+      }
+      break
+
+    case 'QUANTITY_LIMIT':
+      checkPositiveInteger('maxQuantityPerTransaction')
+      checkPositiveInteger('maxQuantityPerDay')
+      if (!d.maxQuantityPerTransaction && !d.maxQuantityPerDay) {
+        errors.push('maxQuantityPerTransaction or maxQuantityPerDay is required')
+      }
+      break
+
+    default:
+      errors.push(`Unknown rule type ${String(ruleType)}`)
+  }
+
+  return errors
+}
+
+/**
+ * Normalises a jurisdiction code, returning null when it is not valid for the type.
+ * FEDERAL and STATE codes are two-letter codes; COUNTY and CITY codes are "<STATE>-<NAME>".
+ */
+export function normaliseJurisdictionCode(
+  jurisdictionType: JurisdictionType,
+  code: string,
+): string | null {
+  const normalised = (code || '').trim().toUpperCase().replace(/\s+/g, ' ')
+
+  if (jurisdictionType === 'FEDERAL' || jurisdictionType === 'STATE') {
+    return /^[A-Z]{2}$/.test(normalised) ? normalised : null
+  }
+
+  return /^[A-Z]{2}-[A-Z0-9 .'-]+$/.test(normalised) ? normalised : null
+}
+
+/**
+ * Groups rules that apply to the same location by rule type, keeping only the
+ * types where more than one rule is in force (e.g. a state and a city flavor ban).
+ */
+export function groupOverlappingRules<T extends Pick<ComplianceRule, 'ruleType'>>(
+  rules: T[],
+): { ruleType: RuleType; rules: T[] }[] {
+  const byType = new Map<RuleType, T[]>()
+  for (const rule of rules) {
+    byType.set(rule.ruleType, [...(byType.get(rule.ruleType) || []), rule])
+  }
+
+  return Array.from(byType.entries())
+    .filter(([, grouped]) => grouped.length > 1)
+    .map(([ruleType, grouped]) => ({ ruleType, rules: grouped }))
+}
+
+/**
+ * Runs a single (possibly unsaved) rule against the product catalog to show
+ * which products it would block or warn on right now. Each product is
+ * evaluated as a one-unit sale; daily quantity history is not considered.
+ */
+export function previewRuleAgainstCatalog(
+  rule: ComplianceRule,
+  products: Pick<Product, 'id' | 'name' | 'sku' | 'category' | 'flavorProfile' | 'ageRestricted'>[],
+  timezone: string,
+  at: Date = new Date(),
+): ComplianceRulePreview {
+  const details = (rule.ruleDetails || {}) as ComplianceRuleDetails
+  const blocked: ComplianceRulePreviewItem[] = []
+  const warned: ComplianceRulePreviewItem[] = []
+  let productsInScope = 0
+
+  for (const product of products) {
+    const line = {
+      productId: product.id,
+      productName: product.name,
+      category: product.category,
+      flavorProfile: product.flavorProfile,
+      ageRestricted: product.ageRestricted,
+      quantity: 1,
+    }
+    if (!isLineInScope(line, details)) continue
+    productsInScope++
+
+    const result = evaluateCompliance([rule], [line], { timezone, at })
+    const item = {
+      productId: product.id,
+      productName: product.name,
+      sku: product.sku,
+      category: product.category,
+      flavorProfile: product.flavorProfile,
+      flags: [...result.violations, ...result.warnings],
+    }
+
+    if (result.violations.length > 0) blocked.push(item)
+    else if (result.warnings.length > 0) warned.push(item)
+  }
+
+  return {
+    productsEvaluated: products.length,
+    productsInScope,
+    blocked,
+    warned,
+    evaluatedAt: at.toISOString(),
+  }
+}
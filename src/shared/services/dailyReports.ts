@@ -0,0 +1,336 @@
+import type {
+  CashDrawerSession,
+  Prisma,
+  StoreLocation,
+  Transaction,
+  ZReport,
+} from '../../generated/prisma'
+import type { DailySalesReport, DrawerReconciliation, ZReportResponse } from '../types/reports'
+import type { TaxBreakdown } from '../types/transactions'
+import { summariseDrawer } from './cashDrawer'
+import { summariseTax } from './taxEngine'
+import { formatBusinessDate, getBusinessDate, getBusinessDateRange } from '../utils/businessDate'
+import { roundCurrency, toAmount } from '../utils/money'
+
+/**
+ * X and Z reports.
+ *
+ * An X report is a read-only snapshot of a store's business day so far, or
+ * of one register's drawer session. A Z report closes a store's business day:
+ * it is numbered per store, stored with the figures as they stood, and never
+ * recalculated. Once a day has its Z report no more sales or returns can be
+ * rung for that day.
+ */
+
+// Raised when a Z report cannot be run, or a sale falls on a day already closed
+export class DailyReportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DailyReportError'
+  }
+}
+
+type ReportStore = Pick<StoreLocation, 'id' | 'timezone'>
+
+export interface DailyReportScope {
+  store: ReportStore
+  businessDate: Date
+  // One register's drawer; its own open-to-close window replaces the business day
+  cashDrawerSession?: CashDrawerSession
+}
+
+type ReportTransaction = Pick<
+  Transaction,
+  | 'id'
+  | 'transactionType'
+  | 'paymentStatus'
+  | 'subtotalAmount'
+  | 'discountAmount'
+  | 'taxAmount'
+  | 'totalAmount'
+  | 'loyaltyRedemptionAmount'
+  | 'taxBreakdown'
+  | 'cashDrawerSessionId'
+>
+
+const BUSINESS_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const sum = (values: number[]) => roundCurrency(values.reduce((total, value) => total + value, 0))
+
+// What a transaction sold (or refunded, when negative) before tax
+const netAmount = (transaction: ReportTransaction) =>
+  roundCurrency(toAmount(transaction.totalAmount) - toAmount(transaction.taxAmount))
+
+/**
+ * Parses a YYYY-MM-DD business date into the UTC midnight Prisma uses for
+ * @db.Date columns; returns null when it is not a real date
+ */
+export function parseBusinessDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || !BUSINESS_DATE_PATTERN.test(value)) return null
+  const date = new Date(`${value}T00:00:00.000Z`)
+  return Number.isNaN(date.getTime()) || formatBusinessDate(date) !== value ? null : date
+}
+
+async function reconcileDrawer(
+  client: Prisma.TransactionClient,
+  session: CashDrawerSession,
+  transactions: ReportTransaction[],
+): Promise<DrawerReconciliation> {
+  const rung = transactions.filter((transaction) => transaction.cashDrawerSessionId === session.id)
+  // A closed drawer keeps what it was expected to hold when it was counted
+  const expectedAmount =
+    session.status === 'CLOSED' && session.expectedAmount !== null
+      ? toAmount(session.expectedAmount)
+      : (await summariseDrawer(client, session)).expectedAmount
+
+  return {
+    cashDrawerSessionId: session.id,
+    userId: session.userId,
+    status: session.status,
+    openedAt: session.openedAt.toISOString(),
+    closedAt: session.closedAt ? session.closedAt.toISOString() : null,
+    transactionCount: rung.filter((transaction) => transaction.transactionType === 'SALE').length,
+    netSales: sum(rung.map(netAmount)),
+    openingFloat: toAmount(session.openingFloat),
+    expectedAmount,
+    countedAmount: session.countedAmount === null ? null : toAmount(session.countedAmount),
+    overShort: session.overShort === null ? null : toAmount(session.overShort),
+  }
+}
+
+/**
+ * Builds an X or Z report for a store's business day, or for one drawer
+ * session. Voided sales are reported as voids and left out of every other
+ * figure, including tenders.
+ */
+export async function buildDailyReport(
+  client: Prisma.TransactionClient,
+  scope: DailyReportScope,
+  now = new Date(),
+): Promise<DailySalesReport> {
+  const { store, cashDrawerSession: drawer } = scope
+
+  const businessDate = drawer
+    ? getBusinessDate(drawer.openedAt, store.timezone)
+    : scope.businessDate
+  const day = getBusinessDateRange(businessDate, store.timezone)
+  const periodStart = drawer ? drawer.openedAt : day.start
+  const periodEnd = drawer ? drawer.closedAt || now : day.end < now ? day.end : now
+
+  const transactionWhere: Prisma.TransactionWhereInput = drawer
+    ? { cashDrawerSessionId: drawer.id }
+    : { storeId: store.id, transactionDate: { gte: day.start, lt: day.end } }
+  const giftCardLoadWhere: Prisma.GiftCardLedgerWhereInput = {
+    entryType: { in: ['ACTIVATE', 'RELOAD'] },
+    ...(drawer
+      ? { cashDrawerSessionId: drawer.id }
+      : { storeId: store.id, createdAt: { gte: day.start, lt: day.end } }),
+  }
+  const verificationWhere: Prisma.AgeVerificationLogWhereInput = {
+    storeId: store.id,
+    verificationDate: { gte: periodStart, lt: drawer ? periodEnd : day.end },
+    ...(drawer && { employeeId: drawer.userId }),
+  }
+
+  const [transactions, tenders, giftCardLoads, denials, overrides, drawers] = await Promise.all([
+    client.transaction.findMany({
+      where: transactionWhere,
+      select: {
+        id: true,
+        transactionType: true,
+        paymentStatus: true,
+        subtotalAmount: true,
+        discountAmount: true,
+        taxAmount: true,
+        totalAmount: true,
+        loyaltyRedemptionAmount: true,
+        taxBreakdown: true,
+        cashDrawerSessionId: true,
+      },
+    }),
+    client.transactionPayment.groupBy({
+      by: ['paymentMethod'],
+      where: {
+        status: { not: 'VOIDED' },
+        transaction: { ...transactionWhere, paymentStatus: { not: 'VOIDED' } },
+      },
+      _sum: { amount: true },
+      _count: { _all: true },
+    }),
+    client.giftCardLedger.groupBy({
+      by: ['paymentMethod'],
+      where: giftCardLoadWhere,
+      _sum: { amount: true },
+      _count: { _all: true },
+    }),
+    client.ageVerificationLog.count({
+      where: { ...verificationWhere, isVerified: false, managerOverride: false },
+    }),
+    client.ageVerificationLog.count({
+      where: { ...verificationWhere, managerOverride: true },
+    }),
+    drawer
+      ? Promise.resolve([drawer])
+      : client.cashDrawerSession.findMany({
+          where: { storeId: store.id, openedAt: { gte: day.start, lt: day.end } },
+          orderBy: { openedAt: 'asc' },
+        }),
+  ])
+
+  const voided = transactions.filter((transaction) => transaction.paymentStatus === 'VOIDED')
+  const live = transactions.filter((transaction) => transaction.paymentStatus !== 'VOIDED')
+  const sales = live.filter((transaction) => transaction.transactionType === 'SALE')
+  const returns = live.filter((transaction) => transaction.transactionType !== 'SALE')
+
+  const grossSales = sum(sales.map((transaction) => toAmount(transaction.subtotalAmount)))
+  const discounts = sum(sales.map((transaction) => toAmount(transaction.discountAmount)))
+  const returnAmount = sum(returns.map(netAmount))
+  const netSales = roundCurrency(grossSales - discounts + returnAmount)
+  const taxAmount = sum(live.map((transaction) => toAmount(transaction.taxAmount)))
+
+  // Returns carry their tax breakdown negated, so they net off here
+  const taxByJurisdiction = summariseTax(
+    live
+      .filter((transaction) => transaction.taxBreakdown)
+      .map((transaction) => ({
+        productId: transaction.id,
+        lineTotal: netAmount(transaction),
+        taxAmount: toAmount(transaction.taxAmount),
+        taxDetails: (transaction.taxBreakdown as unknown as TaxBreakdown).jurisdictions || [],
+      })),
+  ).jurisdictions
+
+  const cashDrawers = await Promise.all(
+    drawers.map((session) => reconcileDrawer(client, session, live)),
+  )
+
+  return {
+    storeId: store.id,
+    businessDate: formatBusinessDate(businessDate),
+    cashDrawerSessionId: drawer ? drawer.id : null,
+    periodStart: periodStart.toISOString(),
+    periodEnd: periodEnd.toISOString(),
+    generatedAt: now.toISOString(),
+    sales: {
+      transactionCount: sales.length,
+      grossSales,
+      discounts,
+      returns: returnAmount,
+      netSales,
+      taxAmount,
+      totalSales: roundCurrency(netSales + taxAmount),
+      loyaltyRedemptions: sum(
+        live.map((transaction) => toAmount(transaction.loyaltyRedemptionAmount)),
+      ),
+    },
+    taxByJurisdiction,
+    tenders: tenders.map((row) => ({
+      paymentMethod: row.paymentMethod,
+      count: row._count._all,
+      amount: toAmount(row._sum.amount),
+    })),
+    giftCardLoads: giftCardLoads.map((row) => ({
+      paymentMethod: row.paymentMethod,
+      count: row._count._all,
+      amount: toAmount(row._sum.amount),
+    })),
+    returns: { count: returns.length, amount: returnAmount },
+    voids: {
+      count: voided.length,
+      amount: sum(voided.map((transaction) => toAmount(transaction.totalAmount))),
+    },
+    ageVerification: { denials, overrides },
+    cashDrawers,
+    cashOverShort: sum(cashDrawers.map((reconciled) => reconciled.overShort || 0)),
+  }
+}
+
+/**
+ * Closes a store's business day with the next numbered Z report. Every
+ * drawer opened that day must be counted first, and a day closes only once.
+ */
+export async function createZReport(
+  client: Prisma.TransactionClient,
+  store: ReportStore,
+  businessDate: Date,
+  generatedById: string,
+  now = new Date(),
+): Promise<ZReport> {
+  const date = formatBusinessDate(businessDate)
+  if (businessDate > getBusinessDate(now, store.timezone)) {
+    throw new DailyReportError('Z reports cannot be run for a future business day')
+  }
+
+  const existing = await client.zReport.findUnique({
+    where: { storeId_businessDate: { storeId: store.id, businessDate } },
+  })
+  if (existing) {
+    throw new DailyReportError(
+      `Business day ${date} was already closed by Z report #${existing.reportNumber}`,
+    )
+  }
+
+  const { end } = getBusinessDateRange(businessDate, store.timezone)
+  const openDrawers = await client.cashDrawerSession.count({
+    where: { storeId: store.id, status: 'OPEN', openedAt: { lt: end } },
+  })
+  if (openDrawers > 0) {
+    throw new DailyReportError('Close every cash drawer before running the Z report')
+  }
+
+  const report = await buildDailyReport(client, { store, businessDate }, now)
+  const last = await client.zReport.findFirst({
+    where: { storeId: store.id },
+    orderBy: { reportNumber: 'desc' },
+    select: { reportNumber: true },
+  })
+
+  return client.zReport.create({
+    data: {
+      storeId: store.id,
+      reportNumber: (last?.reportNumber || 0) + 1,
+      businessDate,
+      periodStart: new Date(report.periodStart),
+      periodEnd: new Date(report.periodEnd),
+      grossSales: report.sales.grossSales,
+      netSales: report.sales.netSales,
+      taxAmount: report.sales.taxAmount,
+      overShort: report.cashOverShort,
+      report: report as unknown as Prisma.InputJsonValue,
+      generatedById,
+    },
+  })
+}
+
+/**
+ * Refuses a sale or return on a business day its Z report has already closed
+ */
+export async function requireOpenBusinessDay(
+  client: Prisma.TransactionClient,
+  store: ReportStore,
+  at = new Date(),
+): Promise<void> {
+  const businessDate = getBusinessDate(at, store.timezone)
+  const closed = await client.zReport.findUnique({
+    where: { storeId_businessDate: { storeId: store.id, businessDate } },
+    select: { reportNumber: true },
+  })
+  if (closed) {
+    throw new DailyReportError(
+      `Business day ${formatBusinessDate(businessDate)} was closed by Z report #${closed.reportNumber}`,
+    )
+  }
+}
+
+export function toZReportResponse(zReport: ZReport): ZReportResponse {
+  return {
+    id: zReport.id,
+    storeId: zReport.storeId,
+    reportNumber: zReport.reportNumber,
+    businessDate: formatBusinessDate(zReport.businessDate),
+    generatedById: zReport.generatedById,
+    quickBooksId: zReport.quickBooksId,
+    createdAt: zReport.createdAt.toISOString(),
+    report: zReport.report as unknown as DailySalesReport,
+  }
+}
@@ -0,0 +1,252 @@
+import type { ComplianceRule } from '../../generated/prisma'
+import type { ComplianceRuleDetails } from '../types/database'
+import type { TaxJurisdictionAmount } from '../types/transactions'
+import { roundCurrency } from '../utils/money'
+
+/**
+ * Nicotine excise taxes.
+ *
+ * States tax vapor products in different ways: per ml of e-liquid, per
+ * cartridge for closed systems, as a percentage of wholesale cost, or a mix
+ * split by product type. Each way of measuring the tax is an ExciseCalculator
+ * registered by basis; a state's formula is a list of components that each
+ * pick a calculator, a rate and the products they apply to.
+ */
+
+export type ExciseBasis =
+  | 'PER_ML'
+  | 'PER_CARTRIDGE'
+  | 'PER_UNIT'
+  | 'WHOLESALE_PERCENT'
+  | 'RETAIL_PERCENT'
+
+export type ExciseProductScope = 'ALL' | 'OPEN_SYSTEM' | 'CLOSED_SYSTEM'
+
+export interface ExciseComponent {
+  basis: ExciseBasis
+  rate: number
+  appliesTo?: ExciseProductScope
+  excludeSyntheticNicotine?: boolean
+}
+
+export interface ExciseFormula {
+  name: string
+  components: ExciseComponent[]
+}
+
+// The product facts excise calculators measure, for one cart line
+export interface ExciseLine {
+  quantity: number
+  amount: number
+  unitCost?: number | null
+  volumeInMl?: number | null
+  numCartridges?: number | null
+  isClosedSystem?: boolean | null
+  isSyntheticNicotine?: boolean
+}
+
+export interface ExciseMeasure {
+  // What the rate is applied to: ml, cartridges, units or dollars
+  taxableAmount: number
+  taxAmount: number
+}
+
+export type ExciseCalculator = (line: ExciseLine, rate: number) => ExciseMeasure | null
+
+const exciseCalculators = new Map<ExciseBasis, ExciseCalculator>()
+
+/**
+ * Registers (or replaces) the calculator for an excise basis
+ */
+export function registerExciseCalculator(basis: ExciseBasis, calculator: ExciseCalculator): void {
+  exciseCalculators.set(basis, calculator)
+}
+
+registerExciseCalculator('PER_ML', (line, rate) => {
+  if (!line.volumeInMl) return null
+  const ml = line.volumeInMl * line.quantity
+  return { taxableAmount: ml, taxAmount: roundCurrency(ml * rate) }
+})
+
+registerExciseCalculator('PER_CARTRIDGE', (line, rate) => {
+  const cartridges = (line.numCartridges || 1) * line.quantity
+  return { taxableAmount: cartridges, taxAmount: roundCurrency(cartridges * rate) }
+})
+
+registerExciseCalculator('PER_UNIT', (line, rate) => ({
+  taxableAmount: line.quantity,
+  taxAmount: roundCurrency(line.quantity * rate),
+}))
+
+// Falls back to the retail amount when the product has no recorded cost, so tax is never under-collected
+registerExciseCalculator('WHOLESALE_PERCENT', (line, rate) => {
+  const wholesale = typeof line.unitCost === 'number' ? line.unitCost * line.quantity : line.amount
+  return { taxableAmount: roundCurrency(wholesale), taxAmount: roundCurrency(wholesale * rate) }
+})
+
+registerExciseCalculator('RETAIL_PERCENT', (line, rate) => ({
+  taxableAmount: line.amount,
+  taxAmount: roundCurrency(line.amount * rate),
+}))
+
+/**
+ * Built-in state formulas, used when no STATE-level TAX_RATE rule covers a
+ * product. Rules entered through the compliance admin always take precedence.
+ */
+export const STATE_EXCISE_FORMULAS: Record<string, ExciseFormula> = {
+  CT: {
+    name: 'CT Electronic Nicotine Tax',
+    components: [
+      { basis: 'PER_ML', rate: 0.4, appliesTo: 'CLOSED_SYSTEM' },
+      { basis: 'WHOLESALE_PERCENT', rate: 0.1, appliesTo: 'OPEN_SYSTEM' },
+    ],
+  },
+  KY: {
+    name: 'KY Vapor Products Tax',
+    components: [
+      { basis: 'PER_CARTRIDGE', rate: 1.5, appliesTo: 'CLOSED_SYSTEM' },
+      { basis: 'WHOLESALE_PERCENT', rate: 0.15, appliesTo: 'OPEN_SYSTEM' },
+    ],
+  },
+  LA: { name: 'LA Vapor Products Tax', components: [{ basis: 'PER_ML', rate: 0.15 }] },
+  NC: { name: 'NC Vapor Products Tax', components: [{ basis: 'PER_ML', rate: 0.405 }] },
+  DE: { name: 'DE Vapor Products Tax', components: [{ basis: 'PER_ML', rate: 0.05 }] },
+  KS: { name: 'KS Vapor Products Tax', components: [{ basis: 'PER_ML', rate: 0.05 }] },
+  WI: { name: 'WI Vapor Products Tax', components: [{ basis: 'PER_ML', rate: 0.05 }] },
+  WV: { name: 'WV Vapor Products Tax', components: [{ basis: 'PER_ML', rate: 0.075 }] },
+  PA: {
+    name: 'PA Other Tobacco Products Tax',
+    components: [{ basis: 'WHOLESALE_PERCENT', rate: 0.4 }],
+  },
+  MN: { name: 'MN Tobacco Products Tax', components: [{ basis: 'WHOLESALE_PERCENT', rate: 0.95 }] },
+}
+
+/**
+ * Translates a TAX_RATE rule into an excise component.
+ * Returns null for plain retail percentage rules, which the tax engine treats as rate taxes.
+ */
+export function exciseComponentFromRule(details: ComplianceRuleDetails): ExciseComponent | null {
+  if (typeof details.rate !== 'number') return null
+
+  let basis: ExciseBasis | null = null
+  switch (details.taxType) {
+    case 'PER_ML':
+      basis = 'PER_ML'
+      break
+    case 'PER_CARTRIDGE':
+      basis = 'PER_CARTRIDGE'
+      break
+    case 'FIXED':
+      basis = 'PER_UNIT'
+      break
+    case 'PERCENTAGE':
+      basis = details.basis === 'WHOLESALE' ? 'WHOLESALE_PERCENT' : null
+      break
+  }
+  if (!basis) return null
+
+  return {
+    basis,
+    rate: details.rate,
+    appliesTo: details.appliesTo || 'ALL',
+    excludeSyntheticNicotine: details.excludeSyntheticNicotine,
+  }
+}
+
+const componentApplies = (component: ExciseComponent, line: ExciseLine): boolean => {
+  if (component.excludeSyntheticNicotine && line.isSyntheticNicotine) return false
+  switch (component.appliesTo || 'ALL') {
+    case 'CLOSED_SYSTEM':
+      return line.isClosedSystem === true
+    case 'OPEN_SYSTEM':
+      return line.isClosedSystem !== true
+    default:
+      return true
+  }
+}
+
+const BASIS_LABELS: Record<ExciseBasis, (rate: number) => string> = {
+  PER_ML: (rate) => `$${rate.toFixed(3).replace(/0$/, '')}/ml`,
+  PER_CARTRIDGE: (rate) => `$${rate.toFixed(2)}/cartridge`,
+  PER_UNIT: (rate) => `$${rate.toFixed(2)}/unit`,
+  WHOLESALE_PERCENT: (rate) => `${(rate * 100).toFixed(2)}% of wholesale`,
+  RETAIL_PERCENT: (rate) => `${(rate * 100).toFixed(2)}% of retail`,
+}
+
+/**
+ * Applies a formula's components to one line, producing a separate excise
+ * tax line for each component that applies
+ */
+export function calculateExcise(
+  code: string,
+  name: string,
+  components: ExciseComponent[],
+  line: ExciseLine,
+): TaxJurisdictionAmount[] {
+  const results: TaxJurisdictionAmount[] = []
+
+  for (const component of components) {
+    if (!componentApplies(component, line)) continue
+
+    const calculator = exciseCalculators.get(component.basis)
+    const measure = calculator?.(line, component.rate)
+    if (!measure || measure.taxAmount <= 0) continue
+
+    results.push({
+      code: `${code}_EXCISE_${component.basis}`,
+      name: `${name} (${BASIS_LABELS[component.basis](component.rate)})`,
+      type: 'excise',
+      rate: component.rate,
+      taxableAmount: measure.taxableAmount,
+      taxAmount: measure.taxAmount,
+    })
+  }
+
+  return results
+}
+
+const ruleExcise = (rule: ComplianceRule, line: ExciseLine): TaxJurisdictionAmount[] => {
+  const component = exciseComponentFromRule((rule.ruleDetails || {}) as ComplianceRuleDetails)
+  if (!component) return []
+  return calculateExcise(
+    rule.jurisdictionCode,
+    `${rule.jurisdictionCode} Nicotine Excise Tax`,
+    [component],
+    line,
+  )
+}
+
+/**
+ * Works out the excise lines for a nicotine product at a store.
+ *
+ * `exciseRules` are the TAX_RATE rules already matched to the product.
+ * STATE-level rules replace the built-in formula for the state; COUNTY and
+ * CITY rules are added on top. Returns null when neither a rule nor a
+ * built-in formula exists, so the caller can fall back to the flat tobacco rate.
+ * `useStateFormula` is false when a state retail-percentage rule already
+ * taxes the product.
+ */
+export function calculateExciseForLine(
+  stateCode: string,
+  line: ExciseLine,
+  exciseRules: ComplianceRule[],
+  useStateFormula = true,
+): TaxJurisdictionAmount[] | null {
+  const stateRules = exciseRules.filter((rule) => rule.jurisdictionType === 'STATE')
+  const localRules = exciseRules.filter(
+    (rule) => rule.jurisdictionType === 'COUNTY' || rule.jurisdictionType === 'CITY',
+  )
+
+  let stateLines: TaxJurisdictionAmount[] | null = null
+  if (stateRules.length > 0) {
+    stateLines = stateRules.flatMap((rule) => ruleExcise(rule, line))
+  } else if (useStateFormula && STATE_EXCISE_FORMULAS[stateCode]) {
+    const formula = STATE_EXCISE_FORMULAS[stateCode]
+    stateLines = calculateExcise(stateCode, formula.name, formula.components, line)
+  }
+
+  const localLines = localRules.flatMap((rule) => ruleExcise(rule, line))
+
+  if (stateLines === null && localLines.length === 0) return null
+  return [...(stateLines || []), ...localLines]
+}
@@ -0,0 +1,438 @@
+import { randomInt } from 'crypto'
+import type { Prisma, GiftCard, GiftCardLedger } from '../../generated/prisma'
+import type { GiftCardLedgerType, GiftCardStatus, PaymentMethod } from '../types/database'
+import type {
+  ActivateGiftCardData,
+  GiftCardLedgerEntry,
+  GiftCardLiability,
+  GiftCardResponse,
+} from '../types/giftCards'
+import { hashPassword, verifyPassword } from './auth'
+import { roundCurrency, toAmount } from '../utils/money'
+
+export const GIFT_CARD_STATUSES: GiftCardStatus[] = ['ACTIVE', 'SUSPENDED']
+export const GIFT_CARD_FUNDING_METHODS: PaymentMethod[] = ['CASH', 'CARD']
+
+// Smallest amount a card can be sold or reloaded for, and the most it may hold
+export const GIFT_CARD_MIN_LOAD = 5
+export const GIFT_CARD_MAX_BALANCE = 500
+
+const CARD_NUMBER_PATTERN = /^\d{10,19}$/
+const PIN_PATTERN = /^\d{6,8}$/
+const GENERATED_CARD_NUMBER_LENGTH = 16
+const GENERATED_PIN_LENGTH = 8
+
+// Wrong PINs in a row before a card is locked, and for how long
+const MAX_PIN_ATTEMPTS = 5
+const PIN_LOCKOUT_DURATION = 30 * 60 * 1000 // 30 minutes
+
+// Entries that take money in for the card rather than moving value on it
+const LOAD_TYPES: GiftCardLedgerType[] = ['ACTIVATE', 'RELOAD']
+
+// Raised when a gift card cannot be used or changed as asked
+export class GiftCardError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'GiftCardError'
+  }
+}
+
+export interface PostGiftCardEntryInput {
+  giftCardId: string
+  entryType: GiftCardLedgerType
+  // Signed change to the balance
+  amount: number
+  storeId: string
+  transactionId?: string
+  employeeId?: string
+  paymentMethod?: PaymentMethod
+  paymentReference?: string
+  paymentProcessor?: string
+  // Drawer that took the cash for a load
+  cashDrawerSessionId?: string
+  reason?: string
+}
+
+export interface RedeemGiftCardInput {
+  cardNumber: string
+  pin: string
+  amount: number
+  storeId: string
+  transactionId?: string
+  employeeId?: string
+  at: Date
+}
+
+export interface RefundSaleToGiftCardsInput {
+  // The sale the cards paid for
+  saleTransactionId: string
+  amount: number
+  storeId: string
+  // The return or voided sale the refund is recorded against
+  transactionId: string
+  employeeId?: string
+  reason?: string
+}
+
+// A ledger row with the receipt it belongs to
+export type GiftCardLedgerRow = GiftCardLedger & {
+  transaction?: { receiptNumber: string } | null
+}
+
+const formatAmount = (amount: number) => `$${amount.toFixed(2)}`
+
+const isWholeCents = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && roundCurrency(value) === value
+
+// Card numbers are keyed in or scanned with spaces and dashes
+export function normalizeCardNumber(value: unknown): string {
+  return typeof value === 'string' ? value.replace(/[\s-]/g, '') : ''
+}
+
+const randomDigits = (length: number) =>
+  Array.from({ length }, () => randomInt(10).toString()).join('')
+
+export function generateCardNumber(): string {
+  return randomDigits(GENERATED_CARD_NUMBER_LENGTH)
+}
+
+export function generatePin(): string {
+  return randomDigits(GENERATED_PIN_LENGTH)
+}
+
+export function maskCardNumber(cardNumber: string): string {
+  return '*'.repeat(Math.max(0, cardNumber.length - 4)) + cardNumber.slice(-4)
+}
+
+export async function hashGiftCardPin(pin: string): Promise<string> {
+  return hashPassword(pin)
+}
+
+/**
+ * Checks an amount to sell or reload a card for against what it already holds.
+ * Returns a list of human-readable problems; an empty list means the amount is valid.
+ */
+export function validateLoadAmount(amount: unknown, currentBalance: number): string[] {
+  if (!isWholeCents(amount) || amount < GIFT_CARD_MIN_LOAD) {
+    return [`amount must be at least ${formatAmount(GIFT_CARD_MIN_LOAD)} in whole cents`]
+  }
+  if (roundCurrency(currentBalance + amount) > GIFT_CARD_MAX_BALANCE) {
+    const room = roundCurrency(Math.max(0, GIFT_CARD_MAX_BALANCE - currentBalance))
+    return [
+      `Gift cards can hold at most ${formatAmount(GIFT_CARD_MAX_BALANCE)}; this card can take ${formatAmount(room)} more`,
+    ]
+  }
+  return []
+}
+
+/**
+ * Validates a request to sell and activate a new card.
+ * Returns a list of human-readable problems; an empty list means the request is valid.
+ */
+export function validateActivation(input: ActivateGiftCardData, at: Date): string[] {
+  const errors: string[] = []
+
+  if (
+    input.cardNumber !== undefined &&
+    !CARD_NUMBER_PATTERN.test(normalizeCardNumber(input.cardNumber))
+  ) {
+    errors.push('cardNumber must be 10 to 19 digits')
+  }
+  if (input.pin !== undefined && (typeof input.pin !== 'string' || !PIN_PATTERN.test(input.pin))) {
+    errors.push('pin must be 6 to 8 digits')
+  }
+  errors.push(...validateLoadAmount(input.amount, 0))
+  if (!GIFT_CARD_FUNDING_METHODS.includes(input.paymentMethod)) {
+    errors.push(`paymentMethod must be one of ${GIFT_CARD_FUNDING_METHODS.join(', ')}`)
+  }
+  if (input.expiresAt !== undefined && input.expiresAt !== null) {
+    const expiresAt = new Date(input.expiresAt)
+    if (isNaN(expiresAt.getTime()) || expiresAt <= at) {
+      errors.push('expiresAt must be a date in the future')
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Throws when a card cannot be spent from or added to
+ */
+export function assertGiftCardUsable(card: GiftCard, at: Date): void {
+  if (card.status !== 'ACTIVE') {
+    throw new GiftCardError('Gift card is suspended')
+  }
+  if (card.expiresAt && card.expiresAt <= at) {
+    throw new GiftCardError(`Gift card expired on ${card.expiresAt.toISOString().slice(0, 10)}`)
+  }
+}
+
+// Counts a wrong PIN against a card, locking it once there have been too many in a row
+async function recordWrongPin(
+  client: Prisma.TransactionClient,
+  card: GiftCard,
+  at: Date,
+): Promise<void> {
+  const { failedPinAttempts } = await client.giftCard.update({
+    where: { id: card.id },
+    data: { failedPinAttempts: { increment: 1 } },
+    select: { failedPinAttempts: true },
+  })
+  if (failedPinAttempts >= MAX_PIN_ATTEMPTS) {
+    await client.giftCard.update({
+      where: { id: card.id },
+      data: {
+        failedPinAttempts: 0,
+        pinLockedUntil: new Date(at.getTime() + PIN_LOCKOUT_DURATION),
+      },
+    })
+  }
+}
+
+/**
+ * Finds a card by number and checks its PIN and status.
+ * An unknown number and a wrong PIN give the same message, so card numbers
+ * cannot be probed at the register. Wrong PINs are counted on the client
+ * given, so a sale should check its cards before its own transaction opens,
+ * or a rolled-back sale would forget them.
+ */
+export async function authorizeGiftCard(
+  client: Prisma.TransactionClient,
+  cardNumber: string,
+  pin: string,
+  at: Date,
+): Promise<GiftCard> {
+  const card = await client.giftCard.findUnique({
+    where: { cardNumber: normalizeCardNumber(cardNumber) },
+  })
+  if (!card) {
+    throw new GiftCardError('Gift card number or PIN is incorrect')
+  }
+  if (card.pinLockedUntil && card.pinLockedUntil > at) {
+    throw new GiftCardError('Gift card is locked after too many wrong PINs; try again later')
+  }
+  if (typeof pin !== 'string' || !(await verifyPassword(pin, card.pinHash))) {
+    await recordWrongPin(client, card, at)
+    throw new GiftCardError('Gift card number or PIN is incorrect')
+  }
+  if (card.failedPinAttempts > 0) {
+    await client.giftCard.update({ where: { id: card.id }, data: { failedPinAttempts: 0 } })
+  }
+  assertGiftCardUsable(card, at)
+  return card
+}
+
+/**
+ * Changes a card's balance and records the change in its ledger. Must be
+ * called inside the transaction of the sale, return or load it belongs to.
+ * The balance is checked in the same statement that changes it, so two
+ * registers cannot spend the same money or overfill a card.
+ */
+export async function postGiftCardEntry(
+  tx: Prisma.TransactionClient,
+  input: PostGiftCardEntryInput,
+): Promise<GiftCardLedger> {
+  const { giftCardId, entryType } = input
+  const amount = roundCurrency(input.amount)
+  if (amount === 0) {
+    throw new GiftCardError('Gift card amount must not be zero')
+  }
+
+  const where: Prisma.GiftCardWhereInput =
+    amount < 0
+      ? { id: giftCardId, balance: { gte: -amount } }
+      : LOAD_TYPES.includes(entryType)
+        ? { id: giftCardId, balance: { lte: roundCurrency(GIFT_CARD_MAX_BALANCE - amount) } }
+        : { id: giftCardId }
+
+  const { count } = await tx.giftCard.updateMany({
+    where,
+    data: { balance: { increment: amount } },
+  })
+  if (count === 0) {
+    const card = await tx.giftCard.findUnique({ where: { id: giftCardId } })
+    if (!card) throw new GiftCardError(`Gift card ${giftCardId} not found`)
+    throw new GiftCardError(
+      amount < 0
+        ? `Insufficient gift card balance. Available: ${formatAmount(toAmount(card.balance))}`
+        : validateLoadAmount(amount, toAmount(card.balance))[0] || 'Gift card balance changed',
+    )
+  }
+
+  const card = await tx.giftCard.findUnique({
+    where: { id: giftCardId },
+    select: { balance: true },
+  })
+
+  return tx.giftCardLedger.create({
+    data: {
+      giftCardId,
+      entryType,
+      amount,
+      balanceAfter: toAmount(card?.balance),
+      storeId: input.storeId,
+      transactionId: input.transactionId,
+      employeeId: input.employeeId,
+      paymentMethod: input.paymentMethod,
+      paymentReference: input.paymentReference,
+      paymentProcessor: input.paymentProcessor,
+      cashDrawerSessionId: input.cashDrawerSessionId,
+      reason: input.reason,
+    },
+  })
+}
+
+/**
+ * Spends part or all of a card's balance. Used by checkout when a card is
+ * the tender and by the stand-alone redeem endpoint.
+ */
+export async function redeemGiftCard(
+  tx: Prisma.TransactionClient,
+  input: RedeemGiftCardInput,
+): Promise<GiftCardLedger> {
+  if (!isWholeCents(input.amount) || input.amount <= 0) {
+    throw new GiftCardError('Amount to redeem must be more than zero in whole cents')
+  }
+
+  const card = await authorizeGiftCard(tx, input.cardNumber, input.pin, input.at)
+  const balance = toAmount(card.balance)
+  if (balance < input.amount) {
+    throw new GiftCardError(`Insufficient gift card balance. Available: ${formatAmount(balance)}`)
+  }
+
+  return postGiftCardEntry(tx, {
+    giftCardId: card.id,
+    entryType: 'REDEEM',
+    amount: -input.amount,
+    storeId: input.storeId,
+    transactionId: input.transactionId,
+    employeeId: input.employeeId,
+  })
+}
+
+/**
+ * Puts money a sale took from gift cards back on them, for returns and voids.
+ * Each card gets back at most what it paid less what earlier returns already
+ * refunded to it, in the order the cards were used. Throws when the cards
+ * paid less than the amount to refund.
+ */
+export async function refundSaleToGiftCards(
+  tx: Prisma.TransactionClient,
+  input: RefundSaleToGiftCardsInput,
+): Promise<GiftCardLedger[]> {
+  const redemptions = await tx.giftCardLedger.findMany({
+    where: { transactionId: input.saleTransactionId, entryType: 'REDEEM' },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  const earlierRefunds = await tx.giftCardLedger.findMany({
+    where: {
+      entryType: 'REFUND',
+      giftCardId: { in: redemptions.map((entry) => entry.giftCardId) },
+      OR: [
+        { transactionId: input.saleTransactionId },
+        { transaction: { originalTransactionId: input.saleTransactionId } },
+      ],
+    },
+    select: { giftCardId: true, amount: true },
+  })
+  const refunded = new Map<string, number>()
+  for (const entry of earlierRefunds) {
+    refunded.set(entry.giftCardId, (refunded.get(entry.giftCardId) || 0) + toAmount(entry.amount))
+  }
+
+  let remaining = roundCurrency(input.amount)
+  const entries: GiftCardLedger[] = []
+  for (const redemption of redemptions) {
+    if (remaining <= 0) break
+
+    const paid = -toAmount(redemption.amount)
+    const available = roundCurrency(paid - (refunded.get(redemption.giftCardId) || 0))
+    const amount = roundCurrency(Math.min(remaining, available))
+    if (amount <= 0) continue
+
+    entries.push(
+      await postGiftCardEntry(tx, {
+        giftCardId: redemption.giftCardId,
+        entryType: 'REFUND',
+        amount,
+        storeId: input.storeId,
+        transactionId: input.transactionId,
+        employeeId: input.employeeId,
+        reason: input.reason,
+      }),
+    )
+    refunded.set(redemption.giftCardId, (refunded.get(redemption.giftCardId) || 0) + amount)
+    remaining = roundCurrency(remaining - amount)
+  }
+
+  if (remaining > 0) {
+    throw new GiftCardError(
+      `Refund is ${formatAmount(remaining)} more than the gift cards paid on this sale`,
+    )
+  }
+
+  return entries
+}
+
+export function toGiftCardResponse(card: GiftCard): GiftCardResponse {
+  return {
+    id: card.id,
+    maskedNumber: maskCardNumber(card.cardNumber),
+    last4: card.cardNumber.slice(-4),
+    balance: toAmount(card.balance),
+    status: card.status,
+    expiresAt: card.expiresAt ? card.expiresAt.toISOString() : null,
+    storeId: card.storeId,
+    customerId: card.customerId,
+    createdAt: card.createdAt.toISOString(),
+  }
+}
+
+export function toGiftCardLedgerEntry(row: GiftCardLedgerRow): GiftCardLedgerEntry {
+  return {
+    id: row.id,
+    entryType: row.entryType,
+    amount: toAmount(row.amount),
+    balanceAfter: toAmount(row.balanceAfter),
+    storeId: row.storeId,
+    transactionId: row.transactionId,
+    receiptNumber: row.transaction?.receiptNumber || null,
+    employeeId: row.employeeId,
+    paymentMethod: row.paymentMethod,
+    reason: row.reason,
+    createdAt: row.createdAt.toISOString(),
+  }
+}
+
+/**
+ * Money held on cards, by the store that sold them. This is what the
+ * business owes card holders and stays a liability until spent.
+ */
+export async function getGiftCardLiability(
+  client: Prisma.TransactionClient,
+  storeId?: string,
+): Promise<GiftCardLiability> {
+  const rows = await client.giftCard.groupBy({
+    by: ['storeId'],
+    where: { balance: { gt: 0 }, ...(storeId ? { storeId } : {}) },
+    _sum: { balance: true },
+    _count: { _all: true },
+  })
+
+  const byStore = rows
+    .map((row) => ({
+      storeId: row.storeId,
+      outstandingBalance: roundCurrency(toAmount(row._sum.balance)),
+      cardCount: row._count._all,
+    }))
+    .sort((a, b) => b.outstandingBalance - a.outstandingBalance)
+
+  return {
+    outstandingBalance: roundCurrency(
+      byStore.reduce((sum, row) => sum + row.outstandingBalance, 0),
+    ),
+    cardCount: byStore.reduce((sum, row) => sum + row.cardCount, 0),
+    byStore,
+  }
+}
@@ -0,0 +1,78 @@
+import { api } from './api'
+import type {
+  ActivateGiftCardData,
+  ReloadGiftCardData,
+  RedeemGiftCardData,
+  RefundToGiftCardData,
+  UpdateGiftCardStatusData,
+  GiftCardResponse,
+  GiftCardLedgerEntry,
+  GiftCardLiability
+} from '../types/giftCards'
+
+export const giftCardsService = {
+  // Sell and activate a card; the PIN is only returned when the server generated it
+  async activateGiftCard(data: ActivateGiftCardData): Promise<{
+    giftCard: GiftCardResponse
+    cardNumber: string
+    pin?: string
+    entry: GiftCardLedgerEntry
+  }> {
+    const response = await api.post('/api/gift-cards', data)
+    return response.data
+  },
+
+  // Add money to a card
+  async reloadGiftCard(cardNumber: string, data: ReloadGiftCardData): Promise<GiftCardResponse> {
+    const response = await api.post(`/api/gift-cards/${encodeURIComponent(cardNumber)}/reload`, data)
+    return response.data.giftCard
+  },
+
+  // Check a card's balance with its PIN
+  async checkBalance(cardNumber: string, pin: string): Promise<GiftCardResponse> {
+    const response = await api.post('/api/gift-cards/balance', { cardNumber, pin })
+    return response.data.giftCard
+  },
+
+  // Spend part of a card's balance outside checkout
+  async redeemGiftCard(
+    cardNumber: string,
+    data: RedeemGiftCardData
+  ): Promise<{ entry: GiftCardLedgerEntry; balance: number }> {
+    const response = await api.post(`/api/gift-cards/${encodeURIComponent(cardNumber)}/redeem`, data)
+    return response.data
+  },
+
+  // Put money back on a card (manager approval)
+  async refundToGiftCard(
+    cardNumber: string,
+    data: RefundToGiftCardData
+  ): Promise<{ entry: GiftCardLedgerEntry; balance: number }> {
+    const response = await api.post(`/api/gift-cards/${encodeURIComponent(cardNumber)}/refund`, data)
+    return response.data
+  },
+
+  // Suspend or reactivate a card
+  async updateStatus(cardNumber: string, data: UpdateGiftCardStatusData): Promise<GiftCardResponse> {
+    const response = await api.put(`/api/gift-cards/${encodeURIComponent(cardNumber)}/status`, data)
+    return response.data.giftCard
+  },
+
+  // A card with its ledger
+  async getGiftCard(cardNumber: string, page = 1, limit = 50) {
+    const response = await api.get(`/api/gift-cards/${encodeURIComponent(cardNumber)}`, {
+      params: { page, limit }
+    })
+    return response.data as {
+      giftCard: GiftCardResponse
+      entries: GiftCardLedgerEntry[]
+      pagination: { page: number; limit: number; total: number; pages: number }
+    }
+  },
+
+  // Outstanding balances owed to card holders
+  async getLiability(storeId?: string): Promise<GiftCardLiability> {
+    const response = await api.get('/api/gift-cards/liability', { params: { storeId } })
+    return response.data
+  }
+}
@@ -0,0 +1,357 @@
+import type { Prisma, PrismaClient, InventoryMovement } from '../../generated/prisma'
+import type { InventoryMovementType, InventoryReasonCode } from '../types/database'
+import type {
+  InventoryDiscrepancy,
+  InventoryMovementEntry,
+  RecordInventoryMovementData,
+  StockCountData,
+} from '../types/inventory'
+
+/**
+ * The inventory movement ledger.
+ *
+ * Every change to a product's stock is written as a signed movement at a
+ * store, with a reason, who made it and what it belongs to: a sale, return or
+ * void, stock received, a transfer, or an adjustment for damage, theft,
+ * expiry or a count. The store's StoreInventory quantity and the product's
+ * total across stores are kept as running totals so the register can read
+ * them cheaply, and can always be reconciled against the movements.
+ */
+
+// Raised when a movement is not allowed, e.g. it would take stock below zero
+export class InventoryMovementError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InventoryMovementError'
+  }
+}
+
+export const INVENTORY_MOVEMENT_TYPES: InventoryMovementType[] = [
+  'SALE',
+  'RETURN',
+  'RECEIVE',
+  'ADJUSTMENT',
+  'TRANSFER',
+  'VOID',
+]
+
+// The reason codes each kind of movement can carry
+const REASONS_BY_TYPE: Record<InventoryMovementType, InventoryReasonCode[]> = {
+  SALE: ['SOLD'],
+  RETURN: ['RESTOCKED'],
+  VOID: ['VOIDED'],
+  RECEIVE: ['RECEIVED'],
+  TRANSFER: ['TRANSFERRED'],
+  ADJUSTMENT: ['DAMAGE', 'THEFT', 'EXPIRED', 'COUNT', 'OPENING_BALANCE'],
+}
+
+// Reasons staff can give for a stock count or adjustment
+export const ADJUSTMENT_REASON_CODES: InventoryReasonCode[] = [
+  'DAMAGE',
+  'THEFT',
+  'EXPIRED',
+  'COUNT',
+]
+
+export interface PostInventoryMovementInput {
+  productId: string
+  movementType: InventoryMovementType
+  reasonCode: InventoryReasonCode
+  // Signed change to the quantity on hand
+  quantity: number
+  // Store whose stock moves
+  storeId: string
+  userId?: string | null
+  transactionId?: string
+  lineItemId?: string
+  stockTransferId?: string
+  reference?: string
+  // Lot and expiry of the units moved, where known
+  lotNumber?: string | null
+  expirationDate?: Date | null
+  notes?: string
+  // Sales go through even when the recorded stock is already wrong
+  allowNegativeStock?: boolean
+}
+
+// A movement with the receipt and user names the history screen shows
+export type InventoryMovementRow = InventoryMovement & {
+  store?: { storeName: string } | null
+  transaction?: { receiptNumber: string } | null
+  user?: { firstName: string | null; lastName: string | null; username: string } | null
+}
+
+/**
+ * Changes a product's quantity on hand at a store and records the movement. Must be
+ * called inside the transaction of the sale, return or adjustment it
+ * belongs to, so a refused movement rolls the whole change back.
+ * Returns the movement written, or null when there was nothing to change.
+ */
+export async function postInventoryMovement(
+  tx: Prisma.TransactionClient,
+  input: PostInventoryMovementInput,
+): Promise<InventoryMovement | null> {
+  const { productId, storeId, movementType, reasonCode, quantity } = input
+
+  if (!REASONS_BY_TYPE[movementType].includes(reasonCode)) {
+    throw new InventoryMovementError(`${reasonCode} is not a reason for a ${movementType} movement`)
+  }
+  if (!Number.isInteger(quantity)) {
+    throw new InventoryMovementError('Stock moves in whole units')
+  }
+  if (quantity === 0) return null
+
+  const { quantity: quantityAfter } = await tx.storeInventory.upsert({
+    where: { productId_storeId: { productId, storeId } },
+    create: { productId, storeId, quantity },
+    update: { quantity: { increment: quantity } },
+    select: { quantity: true },
+  })
+  if (quantity < 0 && quantityAfter < 0 && !input.allowNegativeStock) {
+    throw new InventoryMovementError(
+      `Only ${quantityAfter - quantity} on hand; cannot take away ${-quantity}`,
+    )
+  }
+  await tx.product.update({
+    where: { id: productId },
+    data: { quantity: { increment: quantity } },
+  })
+
+  return tx.inventoryMovement.create({
+    data: {
+      productId,
+      movementType,
+      reasonCode,
+      quantity,
+      quantityAfter,
+      storeId,
+      userId: input.userId,
+      transactionId: input.transactionId,
+      lineItemId: input.lineItemId,
+      stockTransferId: input.stockTransferId,
+      reference: input.reference,
+      lotNumber: input.lotNumber,
+      expirationDate: input.expirationDate,
+      notes: input.notes,
+    },
+  })
+}
+
+/**
+ * Records a physical count at a store: the store's quantity on hand becomes
+ * what was counted and the difference is written as an adjustment.
+ * Returns the movement written, or null when the count matched.
+ */
+export async function recordStockCount(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  count: StockCountData,
+  actor: { storeId: string; userId?: string | null },
+): Promise<InventoryMovement | null> {
+  const product = await tx.product.findUnique({
+    where: { id: productId },
+    select: { storeInventory: { where: { storeId: actor.storeId }, select: { quantity: true } } },
+  })
+  if (!product) {
+    throw new InventoryMovementError(`Product ${productId} not found`)
+  }
+  const onHand = product.storeInventory[0]?.quantity ?? 0
+
+  return postInventoryMovement(tx, {
+    productId,
+    movementType: 'ADJUSTMENT',
+    reasonCode: count.reasonCode || 'COUNT',
+    quantity: count.quantity - onHand,
+    storeId: actor.storeId,
+    userId: actor.userId,
+    reference: count.reference,
+    notes: count.notes,
+  })
+}
+
+/**
+ * Validates stock received or adjusted by hand.
+ * Returns a list of human-readable problems; an empty list means the movement is valid.
+ */
+export function validateInventoryMovement(input: RecordInventoryMovementData): string[] {
+  const errors: string[] = []
+
+  if (input.movementType !== 'RECEIVE' && input.movementType !== 'ADJUSTMENT') {
+    errors.push('movementType must be RECEIVE or ADJUSTMENT')
+  } else if (input.movementType === 'RECEIVE') {
+    if (input.reasonCode !== 'RECEIVED') {
+      errors.push('Stock received must use reasonCode RECEIVED')
+    }
+    if (!Number.isInteger(input.quantity) || input.quantity <= 0) {
+      errors.push('quantity received must be a whole number more than zero')
+    }
+  } else {
+    if (!ADJUSTMENT_REASON_CODES.includes(input.reasonCode)) {
+      errors.push(`reasonCode must be one of ${ADJUSTMENT_REASON_CODES.join(', ')}`)
+    }
+    if (!Number.isInteger(input.quantity) || input.quantity === 0) {
+      errors.push('quantity must be a whole number other than zero')
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Validates a stock count.
+ * Returns a list of human-readable problems; an empty list means the count is valid.
+ */
+export function validateStockCount(input: StockCountData): string[] {
+  const errors: string[] = []
+
+  if (!Number.isInteger(input.quantity) || input.quantity < 0) {
+    errors.push('quantity must be a whole number of zero or more')
+  }
+  if (input.reasonCode !== undefined && !ADJUSTMENT_REASON_CODES.includes(input.reasonCode)) {
+    errors.push(`reasonCode must be one of ${ADJUSTMENT_REASON_CODES.join(', ')}`)
+  }
+
+  return errors
+}
+
+export function toInventoryMovementEntry(row: InventoryMovementRow): InventoryMovementEntry {
+  const userName = row.user
+    ? [row.user.firstName, row.user.lastName].filter(Boolean).join(' ') || row.user.username
+    : null
+  return {
+    id: row.id,
+    productId: row.productId,
+    movementType: row.movementType,
+    reasonCode: row.reasonCode,
+    quantity: row.quantity,
+    quantityAfter: row.quantityAfter,
+    storeId: row.storeId,
+    storeName: row.store?.storeName || null,
+    userId: row.userId,
+    userName,
+    transactionId: row.transactionId,
+    receiptNumber: row.transaction?.receiptNumber || null,
+    lineItemId: row.lineItemId,
+    stockTransferId: row.stockTransferId,
+    reference: row.reference,
+    lotNumber: row.lotNumber,
+    expirationDate: row.expirationDate ? row.expirationDate.toISOString().slice(0, 10) : null,
+    notes: row.notes,
+    createdAt: row.createdAt.toISOString(),
+  }
+}
+
+/**
+ * Stock whose quantity on hand differs from the sum of its movements: each
+ * store's quantity against the movements at that store, and each product's
+ * total (storeId null) against all of its movements.
+ * An empty list means every quantity is accounted for.
+ */
+export async function findInventoryDiscrepancies(
+  client: Prisma.TransactionClient,
+  filter: { productId?: string; storeId?: string } = {},
+): Promise<InventoryDiscrepancy[]> {
+  const { productId, storeId } = filter
+  const [products, levels, productTotals, storeTotals] = await Promise.all([
+    client.product.findMany({
+      where: productId ? { id: productId } : {},
+      select: { id: true, sku: true, name: true, quantity: true },
+      orderBy: { sku: 'asc' },
+    }),
+    client.storeInventory.findMany({
+      where: { ...(productId && { productId }), ...(storeId && { storeId }) },
+      select: {
+        productId: true,
+        storeId: true,
+        quantity: true,
+        store: { select: { storeName: true } },
+      },
+    }),
+    client.inventoryMovement.groupBy({
+      by: ['productId'],
+      where: productId ? { productId } : {},
+      _sum: { quantity: true },
+    }),
+    client.inventoryMovement.groupBy({
+      by: ['productId', 'storeId'],
+      where: { ...(productId && { productId }), ...(storeId && { storeId }) },
+      _sum: { quantity: true },
+    }),
+  ])
+
+  const productMovements = new Map(
+    productTotals.map((total) => [total.productId, total._sum.quantity || 0]),
+  )
+  const storeMovements = new Map(
+    storeTotals.map((total) => [`${total.productId}:${total.storeId}`, total._sum.quantity || 0]),
+  )
+  const levelsByProduct = new Map<string, typeof levels>()
+  for (const level of levels) {
+    levelsByProduct.set(level.productId, [...(levelsByProduct.get(level.productId) || []), level])
+  }
+
+  const rows: InventoryDiscrepancy[] = []
+  for (const product of products) {
+    const counts = [
+      ...(storeId
+        ? []
+        : [
+            {
+              storeId: null,
+              storeName: null,
+              quantity: product.quantity,
+              movementTotal: productMovements.get(product.id) || 0,
+            },
+          ]),
+      ...(levelsByProduct.get(product.id) || []).map((level) => ({
+        storeId: level.storeId,
+        storeName: level.store.storeName,
+        quantity: level.quantity,
+        movementTotal: storeMovements.get(`${product.id}:${level.storeId}`) || 0,
+      })),
+    ]
+    for (const count of counts) {
+      if (count.quantity === count.movementTotal) continue
+      rows.push({
+        productId: product.id,
+        sku: product.sku,
+        name: product.name,
+        ...count,
+        difference: count.quantity - count.movementTotal,
+      })
+    }
+  }
+  return rows
+}
+
+/**
+ * Gives store stock that predates the ledger an opening movement, so every
+ * quantity adds up from its movements. Safe to run more than once.
+ */
+export async function recordOpeningStock(client: PrismaClient): Promise<number> {
+  const [levels, totals] = await Promise.all([
+    client.storeInventory.findMany({
+      where: { quantity: { not: 0 } },
+      select: { productId: true, storeId: true, quantity: true },
+    }),
+    client.inventoryMovement.groupBy({ by: ['productId', 'storeId'], _count: { _all: true } }),
+  ])
+  const moved = new Set(totals.map((total) => `${total.productId}:${total.storeId}`))
+  const opening = levels.filter((level) => !moved.has(`${level.productId}:${level.storeId}`))
+
+  for (const level of opening) {
+    await client.inventoryMovement.create({
+      data: {
+        productId: level.productId,
+        storeId: level.storeId,
+        movementType: 'ADJUSTMENT',
+        reasonCode: 'OPENING_BALANCE',
+        quantity: level.quantity,
+        quantityAfter: level.quantity,
+        notes: 'Opening balance',
+      },
+    })
+  }
+
+  return opening.length
+}
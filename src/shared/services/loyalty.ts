@@ -0,0 +1,291 @@
+import type { Prisma, LoyaltyTierRule } from '../../generated/prisma'
+import type { LoyaltyTier } from '../types/database'
+import type {
+  LoyaltyRedemptionQuote,
+  LoyaltyRedemptionRule,
+  LoyaltyTierSettings,
+  UpdateLoyaltyTierRuleData,
+} from '../types/loyalty'
+import { calculatePointsReversal } from './returns'
+import { roundCurrency, toAmount } from '../utils/money'
+
+// Used for tiers without a LoyaltyTierRule row: 100 points = $1, from 100 points
+export const DEFAULT_POINT_VALUE = 0.01
+export const DEFAULT_MIN_REDEMPTION_POINTS = 100
+
+// Lowest to highest
+export const LOYALTY_TIERS: LoyaltyTier[] = ['BRONZE', 'SILVER', 'GOLD', 'PLATINUM']
+
+// 12-month spend for tiers without a LoyaltyTierRule row
+export const DEFAULT_MIN_ANNUAL_SPEND: Record<LoyaltyTier, number> = {
+  BRONZE: 0,
+  SILVER: 500,
+  GOLD: 2000,
+  PLATINUM: 5000,
+}
+
+// Raised when points cannot be redeemed as asked
+export class LoyaltyRedemptionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'LoyaltyRedemptionError'
+  }
+}
+
+/**
+ * Converts a stored tier rule to the engine's shape, falling back to the
+ * program defaults when the tier has no rule
+ */
+export function toTierSettings(
+  tier: LoyaltyTier,
+  row: LoyaltyTierRule | null,
+): LoyaltyTierSettings {
+  if (!row) {
+    return {
+      tier,
+      pointValue: DEFAULT_POINT_VALUE,
+      minRedemptionPoints: DEFAULT_MIN_REDEMPTION_POINTS,
+      maxRedemptionPoints: null,
+      maxRedemptionPercent: null,
+      minAnnualSpend: DEFAULT_MIN_ANNUAL_SPEND[tier],
+      earnMultiplier: 1,
+      pointsExpireMonths: null,
+    }
+  }
+  return {
+    tier,
+    pointValue: toAmount(row.pointValue),
+    minRedemptionPoints: row.minRedemptionPoints,
+    maxRedemptionPoints: row.maxRedemptionPoints,
+    maxRedemptionPercent:
+      row.maxRedemptionPercent === null ? null : toAmount(row.maxRedemptionPercent),
+    minAnnualSpend: toAmount(row.minAnnualSpend),
+    earnMultiplier: toAmount(row.earnMultiplier),
+    pointsExpireMonths: row.pointsExpireMonths,
+  }
+}
+
+export async function loadTierSettings(
+  client: Prisma.TransactionClient,
+  tier: LoyaltyTier,
+): Promise<LoyaltyTierSettings> {
+  const row = await client.loyaltyTierRule.findUnique({ where: { tier } })
+  return toTierSettings(tier, row)
+}
+
+// Settings for every tier, lowest first
+export async function loadAllTierSettings(
+  client: Prisma.TransactionClient,
+): Promise<LoyaltyTierSettings[]> {
+  const rows = await client.loyaltyTierRule.findMany()
+  return LOYALTY_TIERS.map((tier) =>
+    toTierSettings(tier, rows.find((row) => row.tier === tier) || null),
+  )
+}
+
+/**
+ * Validates a tier rule from the admin API.
+ * Returns a list of human-readable problems; an empty list means the rule is valid.
+ */
+export function validateTierSettings(rule: UpdateLoyaltyTierRuleData): string[] {
+  const errors: string[] = []
+
+  if (typeof rule.pointValue !== 'number' || !(rule.pointValue > 0) || rule.pointValue > 1) {
+    errors.push('pointValue must be more than 0 and at most 1 dollar per point')
+  }
+  if (!Number.isInteger(rule.minRedemptionPoints) || rule.minRedemptionPoints < 0) {
+    errors.push('minRedemptionPoints must be a whole number of zero or more')
+  }
+  if (rule.maxRedemptionPoints !== null && rule.maxRedemptionPoints !== undefined) {
+    if (!Number.isInteger(rule.maxRedemptionPoints) || rule.maxRedemptionPoints <= 0) {
+      errors.push('maxRedemptionPoints must be a positive whole number')
+    } else if (
+      Number.isInteger(rule.minRedemptionPoints) &&
+      rule.maxRedemptionPoints < rule.minRedemptionPoints
+    ) {
+      errors.push('maxRedemptionPoints must not be below minRedemptionPoints')
+    }
+  }
+  if (rule.maxRedemptionPercent !== null && rule.maxRedemptionPercent !== undefined) {
+    if (
+      typeof rule.maxRedemptionPercent !== 'number' ||
+      !(rule.maxRedemptionPercent > 0) ||
+      rule.maxRedemptionPercent > 100
+    ) {
+      errors.push('maxRedemptionPercent must be more than 0 and at most 100')
+    }
+  }
+  if (
+    typeof rule.minAnnualSpend !== 'number' ||
+    !Number.isFinite(rule.minAnnualSpend) ||
+    rule.minAnnualSpend < 0
+  ) {
+    errors.push('minAnnualSpend must be zero or more')
+  }
+  if (
+    typeof rule.earnMultiplier !== 'number' ||
+    !(rule.earnMultiplier > 0) ||
+    rule.earnMultiplier > 10
+  ) {
+    errors.push('earnMultiplier must be more than 0 and at most 10')
+  }
+  if (rule.pointsExpireMonths !== null && rule.pointsExpireMonths !== undefined) {
+    if (!Number.isInteger(rule.pointsExpireMonths) || rule.pointsExpireMonths <= 0) {
+      errors.push('pointsExpireMonths must be a positive whole number')
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Checks that the tiers still climb: every customer starts in BRONZE, and each
+ * higher tier needs more 12-month spend than the one below it
+ */
+export function validateTierLadder(settings: LoyaltyTierSettings[]): string[] {
+  const errors: string[] = []
+  const ordered = LOYALTY_TIERS.map((tier) => settings.find((entry) => entry.tier === tier))
+
+  if (ordered[0] && ordered[0].minAnnualSpend !== 0) {
+    errors.push('BRONZE minAnnualSpend must be 0')
+  }
+  for (let i = 1; i < ordered.length; i++) {
+    const lower = ordered[i - 1]
+    const higher = ordered[i]
+    if (lower && higher && higher.minAnnualSpend <= lower.minAnnualSpend) {
+      errors.push(`${higher.tier} minAnnualSpend must be above ${lower.tier}`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * The highest tier the 12-month spend qualifies for
+ */
+export function resolveTier(settings: LoyaltyTierSettings[], annualSpend: number): LoyaltyTier {
+  let tier: LoyaltyTier = 'BRONZE'
+  for (const entry of settings) {
+    if (
+      annualSpend >= entry.minAnnualSpend &&
+      LOYALTY_TIERS.indexOf(entry.tier) > LOYALTY_TIERS.indexOf(tier)
+    ) {
+      tier = entry.tier
+    }
+  }
+  return tier
+}
+
+/**
+ * Points earned on the amount paid (not counting points tendered), rounded down
+ */
+export function calculatePointsEarned(amountPaid: number, earnMultiplier: number): number {
+  if (amountPaid <= 0) return 0
+  return Math.floor(roundCurrency(amountPaid * earnMultiplier))
+}
+
+/**
+ * The range of points a customer may redeem against an amount due.
+ * maxPoints is the most the balance, the tier rule and the amount due allow;
+ * when it falls below minPoints nothing can be redeemed and it is reported as 0.
+ */
+export function getRedeemableRange(
+  rule: LoyaltyRedemptionRule,
+  availablePoints: number,
+  amountDue: number,
+): { minPoints: number; maxPoints: number } {
+  const minPoints = Math.max(1, rule.minRedemptionPoints)
+  const payable =
+    rule.maxRedemptionPercent === null
+      ? amountDue
+      : roundCurrency((amountDue * rule.maxRedemptionPercent) / 100)
+  // Whole points only, never worth more than the amount they pay
+  const byAmount = Math.floor(roundCurrency(payable / rule.pointValue))
+  const maxPoints = Math.min(
+    Math.max(0, availablePoints),
+    rule.maxRedemptionPoints ?? Number.MAX_SAFE_INTEGER,
+    Math.max(0, byAmount),
+  )
+
+  return { minPoints, maxPoints: maxPoints >= minPoints ? maxPoints : 0 }
+}
+
+/**
+ * Works out what a requested redemption is worth, or why it is not allowed
+ */
+export function planPointsRedemption(
+  requestedPoints: number,
+  rule: LoyaltyRedemptionRule,
+  availablePoints: number,
+  amountDue: number,
+): LoyaltyRedemptionQuote {
+  const { minPoints, maxPoints } = getRedeemableRange(rule, availablePoints, amountDue)
+  const quote: LoyaltyRedemptionQuote = {
+    availablePoints,
+    pointValue: rule.pointValue,
+    minPoints,
+    maxPoints,
+    points: 0,
+    amount: 0,
+  }
+  if (!requestedPoints) return quote
+
+  if (!Number.isInteger(requestedPoints) || requestedPoints < 0) {
+    throw new LoyaltyRedemptionError('Points to redeem must be a positive whole number')
+  }
+  if (requestedPoints > availablePoints) {
+    throw new LoyaltyRedemptionError(`Insufficient points. Customer has ${availablePoints} points.`)
+  }
+  if (requestedPoints < minPoints) {
+    throw new LoyaltyRedemptionError(
+      `At least ${minPoints} points must be redeemed for ${rule.tier} customers`,
+    )
+  }
+  if (requestedPoints > maxPoints) {
+    throw new LoyaltyRedemptionError(
+      maxPoints > 0
+        ? `At most ${maxPoints} points can be redeemed on this sale`
+        : 'Points cannot be redeemed on this sale',
+    )
+  }
+
+  return {
+    ...quote,
+    points: requestedPoints,
+    amount: roundCurrency(requestedPoints * rule.pointValue),
+  }
+}
+
+/**
+ * Redeemed points to give back for a refund, and the dollars they covered.
+ * Like earned points, they are restored in proportion to the share of the
+ * sale refunded so far, so partial returns add up to a full one.
+ */
+export function calculateRedemptionRefund(
+  redemption: { points: number; amount: number },
+  saleTotal: number,
+  previouslyRefunded: number,
+  refundTotal: number,
+  completesReturn: boolean,
+): { points: number; amount: number } {
+  if (redemption.points <= 0 || redemption.amount <= 0 || saleTotal <= 0) {
+    return { points: 0, amount: 0 }
+  }
+
+  const points = calculatePointsReversal(
+    redemption.points,
+    saleTotal,
+    previouslyRefunded,
+    refundTotal,
+    completesReturn,
+  )
+  const amountBefore = roundCurrency((redemption.amount * previouslyRefunded) / saleTotal)
+  const amountAfter = completesReturn
+    ? redemption.amount
+    : Math.min(
+        redemption.amount,
+        roundCurrency((redemption.amount * (previouslyRefunded + refundTotal)) / saleTotal),
+      )
+
+  return { points, amount: roundCurrency(Math.max(0, amountAfter - amountBefore)) }
+}
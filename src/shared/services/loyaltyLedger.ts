@@ -0,0 +1,287 @@
+import type { Prisma, PrismaClient, LoyaltyLedger } from '../../generated/prisma'
+import type { LoyaltyLedgerType, LoyaltyTier } from '../types/database'
+import type { LoyaltyJobResult, LoyaltyLedgerEntry } from '../types/loyalty'
+import { LOYALTY_TIERS, LoyaltyRedemptionError, loadAllTierSettings, resolveTier } from './loyalty'
+import { roundCurrency, toAmount } from '../utils/money'
+
+export const LOYALTY_LEDGER_TYPES: LoyaltyLedgerType[] = ['EARN', 'REDEEM', 'ADJUST', 'EXPIRE']
+
+export interface PostLoyaltyEntryInput {
+  customerId: string
+  entryType: LoyaltyLedgerType
+  // Signed change to the balance
+  points: number
+  transactionId?: string
+  employeeId?: string
+  reason?: string
+  // Stop at a zero balance instead of failing, when taking back points the customer may have spent
+  clampToBalance?: boolean
+}
+
+// A ledger row with the receipt and employee names the history screen shows
+export type LoyaltyLedgerRow = LoyaltyLedger & {
+  transaction?: { receiptNumber: string } | null
+  employee?: { firstName: string | null; lastName: string | null } | null
+}
+
+const tierRank = (tier: LoyaltyTier) => LOYALTY_TIERS.indexOf(tier)
+
+/**
+ * Changes a customer's points balance and records the change in the ledger.
+ * Must be called inside the transaction of the sale, return or adjustment it
+ * belongs to. Debits check the balance in the same statement, so two
+ * registers cannot spend the same points.
+ * Returns the entry written, or null when there was nothing to change.
+ */
+export async function postLoyaltyEntry(
+  tx: Prisma.TransactionClient,
+  input: PostLoyaltyEntryInput,
+): Promise<LoyaltyLedger | null> {
+  const { customerId, entryType } = input
+  let points = input.points
+
+  if (points < 0 && input.clampToBalance) {
+    const customer = await tx.customer.findUnique({
+      where: { id: customerId },
+      select: { loyaltyPoints: true },
+    })
+    points = Math.max(points, -(customer?.loyaltyPoints || 0))
+  }
+  if (points === 0) return null
+
+  // Lifetime totals follow sales only: earned on purchases, spent at checkout
+  const lifetime =
+    entryType === 'EARN'
+      ? { pointsLifetimeEarned: { increment: points } }
+      : entryType === 'REDEEM'
+        ? { pointsLifetimeRedeemed: { increment: -points } }
+        : {}
+
+  const { count } = await tx.customer.updateMany({
+    where: points < 0 ? { id: customerId, loyaltyPoints: { gte: -points } } : { id: customerId },
+    data: { loyaltyPoints: { increment: points }, ...lifetime },
+  })
+  if (count === 0) {
+    throw new LoyaltyRedemptionError(
+      points < 0
+        ? 'Customer no longer has enough points for this change'
+        : `Customer ${customerId} not found`,
+    )
+  }
+
+  const customer = await tx.customer.findUnique({
+    where: { id: customerId },
+    select: { loyaltyPoints: true },
+  })
+
+  return tx.loyaltyLedger.create({
+    data: {
+      customerId,
+      entryType,
+      points,
+      balanceAfter: customer?.loyaltyPoints ?? 0,
+      transactionId: input.transactionId,
+      employeeId: input.employeeId,
+      reason: input.reason,
+    },
+  })
+}
+
+export function toLedgerEntry(row: LoyaltyLedgerRow): LoyaltyLedgerEntry {
+  const employeeName = row.employee
+    ? [row.employee.firstName, row.employee.lastName].filter(Boolean).join(' ')
+    : ''
+  return {
+    id: row.id,
+    customerId: row.customerId,
+    entryType: row.entryType,
+    points: row.points,
+    balanceAfter: row.balanceAfter,
+    transactionId: row.transactionId,
+    receiptNumber: row.transaction?.receiptNumber || null,
+    employeeId: row.employeeId,
+    employeeName: employeeName || null,
+    reason: row.reason,
+    createdAt: row.createdAt.toISOString(),
+  }
+}
+
+// Start of the rolling 12 months that tiers are based on
+export function getAnnualSpendStart(at: Date): Date {
+  const start = new Date(at)
+  start.setUTCFullYear(start.getUTCFullYear() - 1)
+  return start
+}
+
+// Sales less returns over the rolling 12 months; voided sales do not count
+const annualSpendWhere = (at: Date): Prisma.TransactionWhereInput => ({
+  transactionDate: { gt: getAnnualSpendStart(at) },
+  paymentStatus: { not: 'VOIDED' },
+})
+
+export async function getAnnualSpend(
+  client: Prisma.TransactionClient,
+  customerId: string,
+  at: Date,
+): Promise<number> {
+  const result = await client.transaction.aggregate({
+    where: { ...annualSpendWhere(at), customerId },
+    _sum: { totalAmount: true },
+  })
+  return roundCurrency(toAmount(result._sum.totalAmount))
+}
+
+/**
+ * Moves a customer up to the tier their 12-month spend now qualifies for.
+ * Checkout only ever upgrades; downgrades wait for the scheduled job so a
+ * return does not drop a customer mid-visit.
+ * Returns the new tier, or null when it did not change.
+ */
+export async function upgradeCustomerTier(
+  tx: Prisma.TransactionClient,
+  customerId: string,
+  at: Date,
+): Promise<LoyaltyTier | null> {
+  const customer = await tx.customer.findUnique({
+    where: { id: customerId },
+    select: { loyaltyTier: true },
+  })
+  if (!customer) return null
+
+  const settings = await loadAllTierSettings(tx)
+  const tier = resolveTier(settings, await getAnnualSpend(tx, customerId, at))
+  if (tierRank(tier) <= tierRank(customer.loyaltyTier)) return null
+
+  await tx.customer.update({ where: { id: customerId }, data: { loyaltyTier: tier } })
+  return tier
+}
+
+/**
+ * Expires the whole balance of customers who have not bought anything for
+ * longer than their tier allows. Each customer is expired in its own
+ * transaction and rechecked first, so a sale rung up meanwhile keeps the points.
+ */
+export async function expireInactivePoints(
+  client: PrismaClient,
+  at: Date,
+): Promise<{ customers: number; points: number }> {
+  const settings = await loadAllTierSettings(client)
+  let customers = 0
+  let points = 0
+
+  for (const { tier, pointsExpireMonths } of settings) {
+    if (!pointsExpireMonths) continue
+
+    const cutoff = new Date(at)
+    cutoff.setUTCMonth(cutoff.getUTCMonth() - pointsExpireMonths)
+    const inactive: Prisma.CustomerWhereInput = {
+      loyaltyTier: tier,
+      loyaltyPoints: { gt: 0 },
+      OR: [
+        { lastPurchaseDate: { lt: cutoff } },
+        { lastPurchaseDate: null, createdAt: { lt: cutoff } },
+      ],
+    }
+
+    const candidates = await client.customer.findMany({ where: inactive, select: { id: true } })
+    for (const { id } of candidates) {
+      const entry = await client.$transaction(async (tx) => {
+        const customer = await tx.customer.findFirst({
+          where: { ...inactive, id },
+          select: { loyaltyPoints: true },
+        })
+        if (!customer) return null
+
+        return postLoyaltyEntry(tx, {
+          customerId: id,
+          entryType: 'EXPIRE',
+          points: -customer.loyaltyPoints,
+          reason: `No purchases in ${pointsExpireMonths} months`,
+          clampToBalance: true,
+        })
+      })
+      if (entry) {
+        customers += 1
+        points += -entry.points
+      }
+    }
+  }
+
+  return { customers, points }
+}
+
+/**
+ * Puts every active customer in the tier their 12-month spend qualifies for,
+ * moving them down as well as up
+ */
+export async function recalculateTiers(
+  client: PrismaClient,
+  at: Date,
+): Promise<{ upgraded: number; downgraded: number }> {
+  const settings = await loadAllTierSettings(client)
+  const spend = await client.transaction.groupBy({
+    by: ['customerId'],
+    where: { ...annualSpendWhere(at), customerId: { not: null } },
+    _sum: { totalAmount: true },
+  })
+  const spendByCustomer = new Map(
+    spend.map((row) => [row.customerId, roundCurrency(toAmount(row._sum.totalAmount))]),
+  )
+
+  const customers = await client.customer.findMany({
+    where: { isActive: true },
+    select: { id: true, loyaltyTier: true },
+  })
+
+  let upgraded = 0
+  let downgraded = 0
+  for (const customer of customers) {
+    const tier = resolveTier(settings, spendByCustomer.get(customer.id) || 0)
+    if (tier === customer.loyaltyTier) continue
+
+    await client.customer.update({ where: { id: customer.id }, data: { loyaltyTier: tier } })
+    if (tierRank(tier) > tierRank(customer.loyaltyTier)) upgraded += 1
+    else downgraded += 1
+  }
+
+  return { upgraded, downgraded }
+}
+
+// The nightly loyalty run: expire inactive balances, then settle tiers
+export async function runLoyaltyJobs(client: PrismaClient, at: Date): Promise<LoyaltyJobResult> {
+  const expired = await expireInactivePoints(client, at)
+  const tiers = await recalculateTiers(client, at)
+
+  return {
+    runAt: at.toISOString(),
+    expiredCustomers: expired.customers,
+    pointsExpired: expired.points,
+    tiersUpgraded: tiers.upgraded,
+    tiersDowngraded: tiers.downgraded,
+  }
+}
+
+/**
+ * Gives customers whose balance predates the ledger an opening entry, so
+ * every balance adds up from its entries. Safe to run more than once.
+ */
+export async function recordOpeningBalances(client: PrismaClient): Promise<number> {
+  const customers = await client.customer.findMany({
+    where: { loyaltyPoints: { not: 0 }, loyaltyLedger: { none: {} } },
+    select: { id: true, loyaltyPoints: true },
+  })
+
+  for (const customer of customers) {
+    await client.loyaltyLedger.create({
+      data: {
+        customerId: customer.id,
+        entryType: 'ADJUST',
+        points: customer.loyaltyPoints,
+        balanceAfter: customer.loyaltyPoints,
+        reason: 'Opening balance',
+      },
+    })
+  }
+
+  return customers.length
+}
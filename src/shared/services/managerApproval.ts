@@ -0,0 +1,79 @@
+import type { Prisma } from '../../generated/prisma'
+import type { AuthenticatedUser, ManagerCredentials, Permission } from '../types/auth'
+import {
+  hasPermission,
+  toAuthenticatedUser,
+  validateStoreAccess,
+  verifyPassword,
+  MAX_LOGIN_ATTEMPTS,
+  LOCKOUT_DURATION,
+} from './auth'
+
+// Raised when an action needs a manager and none approved it
+export class ManagerApprovalError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ManagerApprovalError'
+  }
+}
+
+/**
+ * Works out who approves a restricted action.
+ *
+ * Users who hold the permission approve their own actions. Anyone else must
+ * present the credentials of an active user who holds the permission for the
+ * store, typically a manager keying in at the register. A wrong password
+ * counts against the manager's account and locks it the same way a failed
+ * login does, so the prompt cannot be used to guess passwords. Pass a client
+ * outside any transaction that may roll back, or the count is lost.
+ */
+export async function resolveApprover(
+  client: Prisma.TransactionClient,
+  requester: AuthenticatedUser,
+  permission: Permission,
+  storeId: string,
+  credentials?: ManagerCredentials,
+): Promise<AuthenticatedUser> {
+  if (hasPermission(requester.role, permission) && validateStoreAccess(requester, storeId)) {
+    return requester
+  }
+
+  if (!credentials?.username || !credentials.password) {
+    throw new ManagerApprovalError('Manager credentials are required')
+  }
+
+  const manager = await client.user.findUnique({
+    where: { username: credentials.username },
+  })
+
+  const locked = manager?.lockedUntil && manager.lockedUntil > new Date()
+  if (!manager || !manager.isActive || locked) {
+    throw new ManagerApprovalError('Invalid manager credentials')
+  }
+
+  if (!(await verifyPassword(credentials.password, manager.passwordHash))) {
+    const failedLoginAttempts = manager.failedLoginAttempts + 1
+    const lockedUntil =
+      failedLoginAttempts >= MAX_LOGIN_ATTEMPTS ? new Date(Date.now() + LOCKOUT_DURATION) : null
+
+    await client.user.update({
+      where: { id: manager.id },
+      data: { failedLoginAttempts, lockedUntil },
+    })
+    throw new ManagerApprovalError('Invalid manager credentials')
+  }
+
+  if (manager.failedLoginAttempts > 0 || manager.lockedUntil) {
+    await client.user.update({
+      where: { id: manager.id },
+      data: { failedLoginAttempts: 0, lockedUntil: null },
+    })
+  }
+
+  const approver = toAuthenticatedUser(manager)
+  if (!hasPermission(approver.role, permission) || !validateStoreAccess(approver, storeId)) {
+    throw new ManagerApprovalError(`${approver.username} cannot approve this action`)
+  }
+
+  return approver
+}
@@ -0,0 +1,495 @@
+import type { Prisma, Offer, Customer } from '../../generated/prisma'
+import type { CustomerSegments, LoyaltyTier } from '../types/database'
+import type { AppliedOffer } from '../types/offers'
+import { calculateAge } from './ageVerificationLog'
+import { roundCurrency, toAmount } from '../utils/money'
+
+/**
+ * Applies Offer rows to a cart at checkout.
+ *
+ * Each cart line takes a price discount from at most one offer. Eligible
+ * offers are applied one at a time, largest discount first, each to the
+ * lines no earlier offer has used; ties go to the offer that started first,
+ * then the lower id, so the same cart always gets the same result.
+ * Points multipliers never conflict with price discounts, but only the
+ * highest multiplier applies.
+ */
+
+// Loyalty tiers that count as VIP for VIP-targeted offers
+export const VIP_TIERS: LoyaltyTier[] = ['GOLD', 'PLATINUM']
+
+// Products this close to expiring count for EXPIRING_PRODUCT_BUYERS offers
+export const EXPIRING_WITHIN_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Raised when an offer in a priced cart can no longer be used at commit time
+export class OfferRedemptionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'OfferRedemptionError'
+  }
+}
+
+// A priced cart line as seen by the offer engine
+export interface OfferLineInput {
+  productId: string
+  productSku: string
+  category: string | null
+  quantity: number
+  unitPrice: number
+  // Line amount before any discount
+  amount: number
+  expirationDate: Date | null
+}
+
+// What targeting needs to know about the customer on the sale
+export interface OfferCustomer {
+  id: string
+  loyaltyTier: LoyaltyTier
+  totalSpent: number
+  transactionCount: number
+  dateOfBirth: Date | null
+  lastPurchaseDate: Date | null
+  // Uses of each offer by this customer that have not been reversed
+  redemptions: Record<string, number>
+}
+
+export interface OfferContext {
+  at: Date
+  customer?: OfferCustomer
+}
+
+export interface OfferApplication {
+  // Discount for each input line, in input order
+  lineDiscounts: number[]
+  discountAmount: number
+  bonusPoints: number
+  applied: AppliedOffer[]
+}
+
+/**
+ * Loads offers that are switched on and running at the given moment.
+ * Use limits are checked by the engine, since Prisma cannot compare two columns.
+ */
+export async function loadActiveOffers(
+  client: Prisma.TransactionClient,
+  at: Date,
+): Promise<Offer[]> {
+  return client.offer.findMany({
+    where: { isActive: true, startDate: { lte: at }, endDate: { gte: at } },
+    orderBy: [{ startDate: 'asc' }, { id: 'asc' }],
+  })
+}
+
+/**
+ * Loads the customer facts offer targeting uses, with their past use of the given offers
+ */
+export async function loadOfferCustomer(
+  client: Prisma.TransactionClient,
+  customerId: string,
+  offerIds: string[],
+): Promise<OfferCustomer | undefined> {
+  const customer = await client.customer.findUnique({ where: { id: customerId } })
+  if (!customer) return undefined
+
+  const redemptions = await client.offerRedemption.findMany({
+    where: { customerId, offerId: { in: offerIds }, reversedAt: null },
+    select: { offerId: true },
+  })
+
+  return toOfferCustomer(
+    customer,
+    redemptions.map((redemption) => redemption.offerId),
+  )
+}
+
+export function toOfferCustomer(customer: Customer, redeemedOfferIds: string[]): OfferCustomer {
+  const redemptions: Record<string, number> = {}
+  for (const offerId of redeemedOfferIds) {
+    redemptions[offerId] = (redemptions[offerId] || 0) + 1
+  }
+
+  return {
+    id: customer.id,
+    loyaltyTier: customer.loyaltyTier,
+    totalSpent: toAmount(customer.totalSpent),
+    transactionCount: customer.transactionCount,
+    dateOfBirth: customer.dateOfBirth,
+    lastPurchaseDate: customer.lastPurchaseDate,
+    redemptions,
+  }
+}
+
+function asStringList(value: Prisma.JsonValue | null): string[] {
+  return Array.isArray(value)
+    ? value.filter((entry): entry is string => typeof entry === 'string' && entry.trim() !== '')
+    : []
+}
+
+// Product lists may name a product id, a SKU or a category
+function matchesProduct(line: OfferLineInput, entries: string[]): boolean {
+  const category = line.category?.trim().toLowerCase()
+  return entries.some((entry) => {
+    const key = entry.trim().toLowerCase()
+    return (
+      key === line.productId.toLowerCase() ||
+      key === line.productSku.toLowerCase() ||
+      key === category
+    )
+  })
+}
+
+/**
+ * Explains why an offer cannot be used on this sale, or returns null when it can.
+ * Per-customer limits only apply when a customer is on the sale.
+ */
+export function checkOfferEligibility(offer: Offer, context: OfferContext): string | null {
+  const { at, customer } = context
+
+  if (!offer.isActive) return 'Offer is not active'
+  if (at < offer.startDate || at > offer.endDate) return 'Offer is not running'
+  if (offer.offerType === 'FREE_SHIPPING') return 'Offer does not apply at the register'
+  if (offer.maxUsesTotal !== null && offer.currentUses >= offer.maxUsesTotal) {
+    return 'Offer has reached its use limit'
+  }
+  if (customer && (customer.redemptions[offer.id] || 0) >= offer.maxUsesPerCustomer) {
+    return 'Customer has already used this offer'
+  }
+
+  switch (offer.targetAudience) {
+    case 'LOYALTY_MEMBERS':
+      if (!customer) return 'Offer is for loyalty members'
+      break
+    case 'NEW_CUSTOMERS':
+      if (!customer || customer.transactionCount > 0) return 'Offer is for new customers'
+      break
+    case 'VIP':
+      if (!customer || !VIP_TIERS.includes(customer.loyaltyTier)) {
+        return 'Offer is for VIP customers'
+      }
+      break
+  }
+
+  return checkCustomerSegments(offer.customerSegments as CustomerSegments | null, context)
+}
+
+// favoriteCategories is for choosing who to send offers to, not for the register
+function checkCustomerSegments(
+  segments: CustomerSegments | null,
+  { at, customer }: OfferContext,
+): string | null {
+  if (!segments || typeof segments !== 'object') return null
+
+  const targetsCustomer =
+    !!segments.tiers?.length ||
+    segments.minSpent !== undefined ||
+    segments.maxSpent !== undefined ||
+    segments.ageRange !== undefined ||
+    segments.lastPurchaseDays !== undefined
+  if (!targetsCustomer) return null
+  if (!customer) return 'Offer is for selected customers'
+
+  if (segments.tiers?.length && !segments.tiers.includes(customer.loyaltyTier)) {
+    return 'Customer is not in a qualifying loyalty tier'
+  }
+  if (segments.minSpent !== undefined && customer.totalSpent < segments.minSpent) {
+    return 'Customer has not spent enough to qualify'
+  }
+  if (segments.maxSpent !== undefined && customer.totalSpent > segments.maxSpent) {
+    return 'Customer has spent more than this offer allows'
+  }
+  if (segments.ageRange) {
+    const age = customer.dateOfBirth ? calculateAge(customer.dateOfBirth, at) : undefined
+    if (age === undefined || age < segments.ageRange.min || age > segments.ageRange.max) {
+      return 'Customer is outside the offer age range'
+    }
+  }
+  // Recent shoppers only: a purchase within the last N days
+  if (segments.lastPurchaseDays !== undefined) {
+    const since = at.getTime() - segments.lastPurchaseDays * DAY_MS
+    if (!customer.lastPurchaseDate || customer.lastPurchaseDate.getTime() < since) {
+      return 'Customer has not purchased recently enough'
+    }
+  }
+
+  return null
+}
+
+/**
+ * Indexes of the cart lines an offer can discount
+ */
+export function getEligibleLines(offer: Offer, lines: OfferLineInput[], at: Date): number[] {
+  const applicable = asStringList(offer.applicableProducts)
+  const excluded = asStringList(offer.excludedProducts)
+  const expiringBefore = at.getTime() + EXPIRING_WITHIN_DAYS * DAY_MS
+
+  return lines
+    .map((line, index) => ({ line, index }))
+    .filter(({ line }) => {
+      if (applicable.length > 0 && !matchesProduct(line, applicable)) return false
+      if (excluded.length > 0 && matchesProduct(line, excluded)) return false
+      if (offer.targetAudience === 'EXPIRING_PRODUCT_BUYERS') {
+        return !!line.expirationDate && line.expirationDate.getTime() <= expiringBefore
+      }
+      return true
+    })
+    .map(({ index }) => index)
+}
+
+/**
+ * Splits a total across amounts in proportion, in whole cents.
+ * Leftover cents go to the largest remainders, earliest line first.
+ */
+export function allocateDiscount(total: number, amounts: number[]): number[] {
+  const base = amounts.reduce((sum, amount) => sum + amount, 0)
+  if (base <= 0 || total <= 0) return amounts.map(() => 0)
+
+  const totalCents = Math.round(total * 100)
+  const shares = amounts.map((amount) => (totalCents * amount) / base)
+  const cents = shares.map((share) => Math.floor(share))
+  let leftover = totalCents - cents.reduce((sum, value) => sum + value, 0)
+
+  const order = shares
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+  for (const { index } of order) {
+    if (leftover <= 0) break
+    cents[index]++
+    leftover--
+  }
+
+  return cents.map((value) => value / 100)
+}
+
+// Every second unit, pairing the dearest units first, gets discountValue percent off
+function calculateBogoDiscounts(percentOff: number, lines: OfferLineInput[]): number[] {
+  const units = lines
+    .flatMap((line, index) => Array.from({ length: line.quantity }, () => ({ index, line })))
+    .sort((a, b) => b.line.unitPrice - a.line.unitPrice || a.index - b.index)
+
+  const discounts = lines.map(() => 0)
+  units.forEach((unit, position) => {
+    if (position % 2 === 1) {
+      discounts[unit.index] = roundCurrency(
+        discounts[unit.index] + unit.line.unitPrice * (percentOff / 100),
+      )
+    }
+  })
+  return discounts
+}
+
+/**
+ * Works out what one price offer takes off each of the given lines, after
+ * its maximum discount cap. Returns zeros when the offer gives nothing.
+ */
+export function calculateOfferDiscounts(offer: Offer, lines: OfferLineInput[]): number[] {
+  const amounts = lines.map((line) => line.amount)
+  const eligibleAmount = roundCurrency(amounts.reduce((sum, amount) => sum + amount, 0))
+  const value = Math.max(0, toAmount(offer.discountValue))
+
+  let discounts: number[]
+  switch (offer.offerType) {
+    case 'PERCENTAGE':
+      discounts = allocateDiscount(
+        roundCurrency(eligibleAmount * (Math.min(value, 100) / 100)),
+        amounts,
+      )
+      break
+    case 'FIXED_AMOUNT':
+      discounts = allocateDiscount(Math.min(value, eligibleAmount), amounts)
+      break
+    case 'BOGO':
+      discounts = calculateBogoDiscounts(Math.min(value, 100), lines)
+      break
+    default:
+      return lines.map(() => 0)
+  }
+
+  const total = roundCurrency(discounts.reduce((sum, discount) => sum + discount, 0))
+  const cap = offer.maxDiscountAmount === null ? undefined : toAmount(offer.maxDiscountAmount)
+  return cap !== undefined && total > cap ? allocateDiscount(cap, discounts) : discounts
+}
+
+// Earlier start wins a tie, then the lower id
+function compareOffers(a: Offer, b: Offer): number {
+  return a.startDate.getTime() - b.startDate.getTime() || a.id.localeCompare(b.id)
+}
+
+/**
+ * Picks the offers that apply to a cart and allocates their discounts to lines.
+ * Pure: offers, use counts and customer facts must be loaded by the caller.
+ */
+export function applyOffers(
+  offers: Offer[],
+  lines: OfferLineInput[],
+  context: OfferContext,
+): OfferApplication {
+  const cartSubtotal = roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0))
+  const eligible = offers
+    .filter((offer) => checkOfferEligibility(offer, context) === null)
+    .filter((offer) => cartSubtotal >= toAmount(offer.minPurchaseAmount))
+    .map((offer) => ({ offer, lineIndexes: getEligibleLines(offer, lines, context.at) }))
+    .filter(({ lineIndexes }) => lineIndexes.length > 0)
+
+  const lineDiscounts = lines.map(() => 0)
+  const used = new Set<number>()
+  const applied: AppliedOffer[] = []
+  const pending = eligible.filter(({ offer }) => offer.offerType !== 'POINTS_MULTIPLIER')
+
+  // Largest discount first, each on the lines still free
+  while (pending.length > 0) {
+    let best: { position: number; indexes: number[]; discounts: number[]; total: number } | null =
+      null
+
+    for (const [position, { offer, lineIndexes }] of pending.entries()) {
+      const indexes = lineIndexes.filter((index) => !used.has(index))
+      const discounts = calculateOfferDiscounts(
+        offer,
+        indexes.map((index) => lines[index]),
+      )
+      const total = roundCurrency(discounts.reduce((sum, discount) => sum + discount, 0))
+      if (
+        total > 0 &&
+        (!best ||
+          total > best.total ||
+          (total === best.total && compareOffers(offer, pending[best.position].offer) < 0))
+      ) {
+        best = { position, indexes, discounts, total }
+      }
+    }
+
+    if (!best) break
+    const { position, indexes, discounts, total } = best
+    const { offer } = pending[position]
+    pending.splice(position, 1)
+
+    indexes.forEach((index, i) => {
+      used.add(index)
+      lineDiscounts[index] = discounts[i]
+    })
+    applied.push({
+      offerId: offer.id,
+      name: offer.name,
+      offerType: offer.offerType,
+      discountAmount: total,
+      bonusPoints: 0,
+      lines: indexes
+        .map((index, i) => ({
+          productId: lines[index].productId,
+          lineIndex: index,
+          amount: discounts[i],
+        }))
+        .filter((line) => line.amount > 0),
+    })
+  }
+
+  // Only the highest multiplier applies, on what its lines cost after discounts
+  const multiplier = eligible
+    .filter(({ offer }) => offer.offerType === 'POINTS_MULTIPLIER')
+    .filter(({ offer }) => toAmount(offer.discountValue) > 1)
+    .sort(
+      (a, b) =>
+        toAmount(b.offer.discountValue) - toAmount(a.offer.discountValue) ||
+        compareOffers(a.offer, b.offer),
+    )[0]
+
+  let bonusPoints = 0
+  if (multiplier) {
+    const netAmount = multiplier.lineIndexes.reduce(
+      (sum, index) => sum + lines[index].amount - lineDiscounts[index],
+      0,
+    )
+    bonusPoints = Math.floor(netAmount * (toAmount(multiplier.offer.discountValue) - 1))
+    if (bonusPoints > 0) {
+      applied.push({
+        offerId: multiplier.offer.id,
+        name: multiplier.offer.name,
+        offerType: multiplier.offer.offerType,
+        discountAmount: 0,
+        bonusPoints,
+        lines: [],
+      })
+    }
+  }
+
+  return {
+    lineDiscounts,
+    discountAmount: roundCurrency(lineDiscounts.reduce((sum, discount) => sum + discount, 0)),
+    bonusPoints,
+    applied,
+  }
+}
+
+/**
+ * Counts each applied offer against its limits and records the use. Limits
+ * are checked again here so two registers cannot both take the last use.
+ */
+export async function recordOfferRedemptions(
+  client: Prisma.TransactionClient,
+  applied: AppliedOffer[],
+  sale: { transactionId: string; customerId?: string | null },
+): Promise<void> {
+  for (const entry of applied) {
+    const offer = await client.offer.findUnique({ where: { id: entry.offerId } })
+    if (!offer || !offer.isActive) {
+      throw new OfferRedemptionError(`Offer ${entry.name} is no longer available`)
+    }
+
+    if (sale.customerId) {
+      const priorUses = await client.offerRedemption.count({
+        where: { offerId: offer.id, customerId: sale.customerId, reversedAt: null },
+      })
+      if (priorUses >= offer.maxUsesPerCustomer) {
+        throw new OfferRedemptionError(`Customer has already used offer ${offer.name}`)
+      }
+    }
+
+    const { count } = await client.offer.updateMany({
+      where: {
+        id: offer.id,
+        ...(offer.maxUsesTotal !== null && { currentUses: { lt: offer.maxUsesTotal } }),
+      },
+      data: { currentUses: { increment: 1 } },
+    })
+    if (count === 0) {
+      throw new OfferRedemptionError(`Offer ${offer.name} has reached its use limit`)
+    }
+
+    await client.offerRedemption.create({
+      data: {
+        offerId: offer.id,
+        transactionId: sale.transactionId,
+        customerId: sale.customerId,
+        discountAmount: entry.discountAmount,
+        bonusPoints: entry.bonusPoints,
+      },
+    })
+  }
+}
+
+/**
+ * Gives back the offer uses of a voided sale
+ */
+export async function releaseOfferRedemptions(
+  client: Prisma.TransactionClient,
+  transactionId: string,
+  at: Date,
+): Promise<number> {
+  const redemptions = await client.offerRedemption.findMany({
+    where: { transactionId, reversedAt: null },
+  })
+
+  for (const redemption of redemptions) {
+    await client.offerRedemption.update({
+      where: { id: redemption.id },
+      data: { reversedAt: at },
+    })
+    await client.offer.update({
+      where: { id: redemption.offerId },
+      data: { currentUses: { decrement: 1 } },
+    })
+  }
+
+  return redemptions.length
+}
@@ -0,0 +1,212 @@
+import type { Offer } from '../../generated/prisma'
+import type { CustomerSegments, LoyaltyTier, OfferType, TargetAudience } from '../types/database'
+import type { CreateOfferData, OfferRedemptionReport } from '../types/offers'
+import { roundCurrency } from '../utils/money'
+
+export const OFFER_TYPES: OfferType[] = [
+  'PERCENTAGE',
+  'FIXED_AMOUNT',
+  'BOGO',
+  'POINTS_MULTIPLIER',
+  'FREE_SHIPPING',
+]
+export const TARGET_AUDIENCES: TargetAudience[] = [
+  'ALL',
+  'LOYALTY_MEMBERS',
+  'NEW_CUSTOMERS',
+  'VIP',
+  'EXPIRING_PRODUCT_BUYERS',
+]
+const LOYALTY_TIERS: LoyaltyTier[] = ['BRONZE', 'SILVER', 'GOLD', 'PLATINUM']
+
+// Redemption totals for one offer, as summed from OfferRedemption rows
+export interface OfferRedemptionTotals {
+  offerId: string
+  discountAmount: number
+  bonusPoints: number
+  transactionCount: number
+}
+
+const isNonNegativeNumber = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0
+
+const isPositiveInteger = (value: unknown): boolean =>
+  Number.isInteger(value) && (value as number) > 0
+
+function validateCustomerSegments(segments: unknown): string[] {
+  if (segments === null || segments === undefined) return []
+  if (typeof segments !== 'object' || Array.isArray(segments)) {
+    return ['customerSegments must be an object']
+  }
+
+  const s = segments as CustomerSegments
+  const errors: string[] = []
+
+  if (s.tiers !== undefined) {
+    if (!Array.isArray(s.tiers) || s.tiers.some((tier) => !LOYALTY_TIERS.includes(tier))) {
+      errors.push(`customerSegments.tiers must only contain ${LOYALTY_TIERS.join(', ')}`)
+    }
+  }
+  if (s.minSpent !== undefined && !isNonNegativeNumber(s.minSpent)) {
+    errors.push('customerSegments.minSpent must be zero or more')
+  }
+  if (s.maxSpent !== undefined && !isNonNegativeNumber(s.maxSpent)) {
+    errors.push('customerSegments.maxSpent must be zero or more')
+  }
+  if (
+    isNonNegativeNumber(s.minSpent) &&
+    isNonNegativeNumber(s.maxSpent) &&
+    s.minSpent > s.maxSpent
+  ) {
+    errors.push('customerSegments.minSpent must not be above maxSpent')
+  }
+  if (s.ageRange !== undefined) {
+    const range = s.ageRange
+    if (
+      !range ||
+      !Number.isInteger(range.min) ||
+      !Number.isInteger(range.max) ||
+      range.min < 0 ||
+      range.min > range.max
+    ) {
+      errors.push('customerSegments.ageRange must be { min, max } whole years with min <= max')
+    }
+  }
+  if (s.lastPurchaseDays !== undefined && !isPositiveInteger(s.lastPurchaseDays)) {
+    errors.push('customerSegments.lastPurchaseDays must be a positive whole number')
+  }
+
+  return errors
+}
+
+function validateProductList(field: string, value: unknown): string[] {
+  if (value === null || value === undefined) return []
+  if (!Array.isArray(value) || value.some((entry) => typeof entry !== 'string' || !entry.trim())) {
+    return [`${field} must be a list of product ids, SKUs or categories`]
+  }
+  return []
+}
+
+/**
+ * Validates a full offer definition (create, or update merged onto the existing offer).
+ * Returns a list of human-readable problems; an empty list means the offer is valid.
+ * currentUses is the number of times the offer has already been used, which the
+ * total use limit must not drop below.
+ */
+export function validateOfferData(input: CreateOfferData, currentUses = 0): string[] {
+  const errors: string[] = []
+
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    errors.push('name is required')
+  }
+
+  if (!OFFER_TYPES.includes(input.offerType)) {
+    errors.push(`offerType must be one of ${OFFER_TYPES.join(', ')}`)
+  } else if (input.offerType === 'FREE_SHIPPING') {
+    errors.push('FREE_SHIPPING offers do not apply to in-store sales')
+  }
+
+  const value = input.discountValue
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    errors.push('discountValue must be greater than zero')
+  } else if ((input.offerType === 'PERCENTAGE' || input.offerType === 'BOGO') && value > 100) {
+    errors.push('discountValue is a percentage and must not be above 100')
+  } else if (input.offerType === 'POINTS_MULTIPLIER' && value <= 1) {
+    errors.push('discountValue is a points multiplier and must be above 1')
+  }
+
+  if (input.minPurchaseAmount !== undefined && !isNonNegativeNumber(input.minPurchaseAmount)) {
+    errors.push('minPurchaseAmount must be zero or more')
+  }
+  if (
+    input.maxDiscountAmount !== undefined &&
+    input.maxDiscountAmount !== null &&
+    !(isNonNegativeNumber(input.maxDiscountAmount) && input.maxDiscountAmount > 0)
+  ) {
+    errors.push('maxDiscountAmount must be greater than zero')
+  }
+
+  if (input.targetAudience !== undefined && !TARGET_AUDIENCES.includes(input.targetAudience)) {
+    errors.push(`targetAudience must be one of ${TARGET_AUDIENCES.join(', ')}`)
+  }
+  errors.push(...validateCustomerSegments(input.customerSegments))
+
+  errors.push(...validateProductList('applicableProducts', input.applicableProducts))
+  errors.push(...validateProductList('excludedProducts', input.excludedProducts))
+  if (Array.isArray(input.applicableProducts) && Array.isArray(input.excludedProducts)) {
+    const excluded = input.excludedProducts.map((entry) => String(entry).toLowerCase())
+    const both = input.applicableProducts.filter((entry) =>
+      excluded.includes(String(entry).toLowerCase()),
+    )
+    if (both.length > 0) {
+      errors.push(`Products cannot be both applicable and excluded: ${both.join(', ')}`)
+    }
+  }
+
+  if (input.maxUsesTotal !== undefined && input.maxUsesTotal !== null) {
+    if (!isPositiveInteger(input.maxUsesTotal)) {
+      errors.push('maxUsesTotal must be a positive whole number')
+    } else if (input.maxUsesTotal < currentUses) {
+      errors.push(`maxUsesTotal must not be below the ${currentUses} uses already made`)
+    }
+  }
+  if (input.maxUsesPerCustomer !== undefined && !isPositiveInteger(input.maxUsesPerCustomer)) {
+    errors.push('maxUsesPerCustomer must be a positive whole number')
+  }
+
+  const startDate = new Date(input.startDate)
+  const endDate = new Date(input.endDate)
+  if (!input.startDate || isNaN(startDate.getTime())) {
+    errors.push('startDate is required and must be a valid date')
+  }
+  if (!input.endDate || isNaN(endDate.getTime())) {
+    errors.push('endDate is required and must be a valid date')
+  } else if (!isNaN(startDate.getTime()) && endDate <= startDate) {
+    errors.push('endDate must be after startDate')
+  }
+
+  return errors
+}
+
+/**
+ * Builds the redemption report from per-offer totals, largest discount first.
+ * Offers without redemptions in the period are listed with zero totals.
+ */
+export function buildRedemptionReport(
+  offers: Offer[],
+  totals: OfferRedemptionTotals[],
+  period: { startDate?: string; endDate?: string } = {},
+): OfferRedemptionReport {
+  const totalsByOffer = new Map(totals.map((entry) => [entry.offerId, entry]))
+
+  const rows = offers
+    .map((offer) => {
+      const entry = totalsByOffer.get(offer.id)
+      return {
+        offerId: offer.id,
+        name: offer.name,
+        offerType: offer.offerType,
+        discountAmount: roundCurrency(entry?.discountAmount || 0),
+        bonusPoints: entry?.bonusPoints || 0,
+        transactionCount: entry?.transactionCount || 0,
+        currentUses: offer.currentUses,
+        maxUsesTotal: offer.maxUsesTotal,
+      }
+    })
+    .sort(
+      (a, b) =>
+        b.discountAmount - a.discountAmount ||
+        b.transactionCount - a.transactionCount ||
+        a.name.localeCompare(b.name),
+    )
+
+  return {
+    ...period,
+    offers: rows,
+    totals: {
+      discountAmount: roundCurrency(rows.reduce((sum, row) => sum + row.discountAmount, 0)),
+      bonusPoints: rows.reduce((sum, row) => sum + row.bonusPoints, 0),
+      transactionCount: rows.reduce((sum, row) => sum + row.transactionCount, 0),
+    },
+  }
+}
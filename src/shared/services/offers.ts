@@ -0,0 +1,100 @@
+import { api } from './api'
+import type { OfferType, TargetAudience } from '../types/database'
+import type {
+  CreateOfferData,
+  UpdateOfferData,
+  OfferResponse,
+  OfferStatus,
+  OfferProductRef,
+  OfferRedemptionReport
+} from '../types/offers'
+
+export interface OfferFilters {
+  offerType?: OfferType
+  targetAudience?: TargetAudience
+  status?: OfferStatus
+  search?: string
+}
+
+export interface OfferReportQuery {
+  startDate?: string
+  endDate?: string
+  offerId?: string
+}
+
+export const offersService = {
+  // Get offers list with filters
+  async getOffers(filters: OfferFilters = {}, page = 1, limit = 50) {
+    const response = await api.get('/api/offers', {
+      params: { ...filters, page, limit }
+    })
+    return response.data as {
+      offers: OfferResponse[]
+      pagination: { page: number; limit: number; total: number; pages: number }
+    }
+  },
+
+  // Get an offer with the products its lists refer to
+  async getOffer(id: string): Promise<{ offer: OfferResponse; products: OfferProductRef[] }> {
+    const response = await api.get(`/api/offers/${id}`)
+    return response.data
+  },
+
+  // Create a new offer
+  async createOffer(data: CreateOfferData): Promise<OfferResponse> {
+    const response = await api.post('/api/offers', data)
+    return response.data.offer
+  },
+
+  // Update an offer
+  async updateOffer(id: string, data: UpdateOfferData): Promise<OfferResponse> {
+    const response = await api.put(`/api/offers/${id}`, data)
+    return response.data.offer
+  },
+
+  // Delete an offer (the server deactivates it instead if it has been used)
+  async deleteOffer(id: string): Promise<{ message: string; offer?: OfferResponse }> {
+    const response = await api.delete(`/api/offers/${id}`)
+    return response.data
+  },
+
+  // Discount dollars and transactions per offer
+  async getRedemptionReport(query: OfferReportQuery = {}): Promise<OfferRedemptionReport> {
+    const response = await api.get('/api/offers/redemptions', { params: query })
+    return response.data
+  },
+
+  // Human readable summary of what an offer gives
+  describeOffer(offer: Pick<OfferResponse, 'offerType' | 'discountValue' | 'maxDiscountAmount' | 'minPurchaseAmount'>): string {
+    const parts: string[] = []
+    switch (offer.offerType) {
+      case 'PERCENTAGE':
+        parts.push(`${offer.discountValue}% off`)
+        break
+      case 'FIXED_AMOUNT':
+        parts.push(`$${offer.discountValue.toFixed(2)} off`)
+        break
+      case 'BOGO':
+        parts.push(offer.discountValue >= 100 ? 'Buy one, get one free' : `Buy one, get one ${offer.discountValue}% off`)
+        break
+      case 'POINTS_MULTIPLIER':
+        parts.push(`${offer.discountValue}x loyalty points`)
+        break
+      case 'FREE_SHIPPING':
+        parts.push('Free shipping')
+        break
+    }
+    if (offer.maxDiscountAmount) parts.push(`up to $${offer.maxDiscountAmount.toFixed(2)}`)
+    if (offer.minPurchaseAmount > 0) parts.push(`on $${offer.minPurchaseAmount.toFixed(2)}+`)
+    return parts.join(' ')
+  },
+
+  // Current state of an offer relative to now
+  getOfferStatus(offer: Pick<OfferResponse, 'isActive' | 'startDate' | 'endDate'>): OfferStatus {
+    const now = new Date().toISOString()
+    if (!offer.isActive) return 'inactive'
+    if (offer.startDate > now) return 'scheduled'
+    if (offer.endDate < now) return 'expired'
+    return 'active'
+  }
+}
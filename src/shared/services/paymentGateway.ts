@@ -0,0 +1,48 @@
+import type { StoreLocation } from '../../generated/prisma'
+import type { PaymentProcessor } from './paymentProcessor'
+import { PaymentProcessorError } from './paymentProcessor'
+import { SIMULATOR_PROCESSOR, SimulatorProcessor } from './paymentSimulator'
+
+// Adapters a store can be set to authorize cards through, by name
+const ADAPTERS: Record<string, () => PaymentProcessor> = {
+  [SIMULATOR_PROCESSOR]: () => new SimulatorProcessor(),
+}
+
+export const PAYMENT_PROCESSORS = Object.keys(ADAPTERS)
+
+// The simulator approves test cards without moving money, so production never uses it
+const isAvailable = (name: string) =>
+  name !== SIMULATOR_PROCESSOR || process.env.NODE_ENV !== 'production'
+
+// One adapter per processor for the life of the server, so in-flight payments are shared
+const processors = new Map<string, PaymentProcessor>()
+
+export function getPaymentProcessor(name: string): PaymentProcessor {
+  const adapter = ADAPTERS[name]
+  if (!adapter) {
+    throw new PaymentProcessorError(`Payment processor ${name} is not supported`, 'UNAVAILABLE')
+  }
+  if (!isAvailable(name)) {
+    throw new PaymentProcessorError(
+      `Payment processor ${name} is not available in production`,
+      'UNAVAILABLE',
+    )
+  }
+
+  let processor = processors.get(name)
+  if (!processor) {
+    processor = adapter()
+    processors.set(name, processor)
+  }
+  return processor
+}
+
+/**
+ * The processor a store's registers authorize cards through, or null when
+ * none is configured and the store cannot take cards
+ */
+export function getStoreProcessor(
+  store: Pick<StoreLocation, 'paymentProcessor'>,
+): PaymentProcessor | null {
+  return store.paymentProcessor ? getPaymentProcessor(store.paymentProcessor) : null
+}
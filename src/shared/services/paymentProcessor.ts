@@ -0,0 +1,39 @@
+import type { ProcessorPayment } from '../types/payments'
+
+export type PaymentProcessorErrorCode =
+  | 'INVALID_REQUEST'
+  | 'INVALID_STATE'
+  | 'UNKNOWN_PAYMENT'
+  | 'TIMEOUT'
+  | 'UNAVAILABLE'
+
+// Raised when a processor cannot act on a payment; a declined card is a result, not an error
+export class PaymentProcessorError extends Error {
+  constructor(
+    message: string,
+    public code: PaymentProcessorErrorCode,
+  ) {
+    super(message)
+    this.name = 'PaymentProcessorError'
+  }
+}
+
+export interface AuthorizeRequest {
+  // Token from the processor's hosted card fields; a card number never reaches the server
+  token: string
+  amount: number
+}
+
+/**
+ * A card processor adapter. Every call returns the payment as the processor
+ * now sees it. Authorizing holds funds; capturing takes them, voiding drops
+ * the hold (or an unsettled capture) and refunding returns captured money.
+ */
+export interface PaymentProcessor {
+  readonly name: string
+  authorize(request: AuthorizeRequest): Promise<ProcessorPayment>
+  capture(reference: string, amount?: number): Promise<ProcessorPayment>
+  void(reference: string): Promise<ProcessorPayment>
+  refund(reference: string, amount: number): Promise<ProcessorPayment>
+  status(reference: string): Promise<ProcessorPayment>
+}
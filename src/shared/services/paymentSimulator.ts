@@ -0,0 +1,269 @@
+import type { CardToken, ProcessorPayment } from '../types/payments'
+import type { AuthorizeRequest, PaymentProcessor } from './paymentProcessor'
+import { PaymentProcessorError } from './paymentProcessor'
+import { roundCurrency } from '../utils/money'
+
+export const SIMULATOR_PROCESSOR = 'SIMULATOR'
+
+// What the simulator does with an authorization
+export type SimulatorOutcome =
+  | 'APPROVE'
+  | 'DECLINE'
+  | 'INSUFFICIENT_FUNDS'
+  | 'EXPIRED_CARD'
+  | 'PARTIAL'
+  | 'TIMEOUT'
+
+/**
+ * Magic card numbers and what authorizing them does. Any other number that
+ * passes the Luhn check is approved.
+ */
+export const SIMULATOR_CARDS: Record<string, SimulatorOutcome> = {
+  '4242424242424242': 'APPROVE',
+  '4000000000000002': 'DECLINE',
+  '4000000000009995': 'INSUFFICIENT_FUNDS',
+  '4000000000000069': 'EXPIRED_CARD',
+  '4000000000000341': 'PARTIAL',
+  '4000000000000408': 'TIMEOUT',
+}
+
+/**
+ * Magic amounts, by their cents, that override an approving card so any
+ * test card can exercise the unhappy paths
+ */
+export const SIMULATOR_AMOUNT_CENTS: Record<number, SimulatorOutcome> = {
+  91: 'DECLINE',
+  92: 'PARTIAL',
+  93: 'TIMEOUT',
+}
+
+const DECLINE_REASONS: Partial<Record<SimulatorOutcome, string>> = {
+  DECLINE: 'Card declined',
+  INSUFFICIENT_FUNDS: 'Insufficient funds',
+  EXPIRED_CARD: 'Card expired',
+}
+
+const TOKEN_PREFIX = 'tok_sim'
+
+// Card details as keyed into the simulator's stand-in for hosted card fields
+export interface SimulatorCardInput {
+  cardNumber: string
+  expiryMonth: string
+  expiryYear: string
+  cvv: string
+}
+
+interface SimulatorCard {
+  outcome: SimulatorOutcome
+  brand: string
+  last4: string
+}
+
+let tokenSequence = 0
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+function cardBrand(digits: string): string {
+  if (/^4/.test(digits)) return 'visa'
+  if (/^5[1-5]/.test(digits)) return 'mastercard'
+  if (/^3[47]/.test(digits)) return 'amex'
+  if (/^6/.test(digits)) return 'discover'
+  return 'unknown'
+}
+
+/**
+ * Tokenizes a card in the browser, as a real processor's hosted card fields
+ * would. The token carries only the simulated outcome, brand and last four
+ * digits, so the card number and CVV never leave the register.
+ */
+export function tokenizeSimulatorCard(card: SimulatorCardInput, now = new Date()): CardToken {
+  const digits = card.cardNumber.replace(/[\s-]/g, '')
+  if (!/^\d{13,19}$/.test(digits) || !passesLuhn(digits)) {
+    throw new Error('Invalid card number')
+  }
+  if (!/^\d{3,4}$/.test(card.cvv)) {
+    throw new Error('Invalid CVV')
+  }
+
+  const month = Number(card.expiryMonth)
+  const year = Number(card.expiryYear.length === 2 ? `20${card.expiryYear}` : card.expiryYear)
+  if (!Number.isInteger(month) || month < 1 || month > 12 || !Number.isInteger(year)) {
+    throw new Error('Invalid expiry date')
+  }
+  // Cards are good through the last day of their expiry month
+  if (new Date(year, month, 1) <= now) {
+    throw new Error('Card has expired')
+  }
+
+  const outcome = SIMULATOR_CARDS[digits] || 'APPROVE'
+  const brand = cardBrand(digits)
+  const last4 = digits.slice(-4)
+  tokenSequence += 1
+  const nonce = `${Date.now().toString(36)}${tokenSequence.toString(36)}`
+
+  return { token: [TOKEN_PREFIX, outcome, brand, last4, nonce].join('.'), last4, brand }
+}
+
+function parseSimulatorToken(token: string): SimulatorCard {
+  const [prefix, outcome, brand, last4, nonce] = (token || '').split('.')
+  if (prefix !== TOKEN_PREFIX || !nonce || !/^\d{4}$/.test(last4 || '')) {
+    throw new PaymentProcessorError('Card token was not issued by the simulator', 'INVALID_REQUEST')
+  }
+  if (!Object.values(SIMULATOR_CARDS).includes(outcome as SimulatorOutcome)) {
+    throw new PaymentProcessorError('Card token was not issued by the simulator', 'INVALID_REQUEST')
+  }
+  return { outcome: outcome as SimulatorOutcome, brand, last4 }
+}
+
+const formatAmount = (amount: number) => `$${amount.toFixed(2)}`
+
+// Answers as a remote processor would: results resolve and failures reject
+const respond = <T>(action: () => T): Promise<T> => new Promise((resolve) => resolve(action()))
+
+/**
+ * A deterministic, in-memory card processor for development and tests.
+ * Outcomes come from the magic card numbers and amounts above; payments
+ * live only as long as the server process.
+ */
+export class SimulatorProcessor implements PaymentProcessor {
+  readonly name = SIMULATOR_PROCESSOR
+
+  private payments = new Map<string, ProcessorPayment>()
+  private usedTokens = new Set<string>()
+  private sequence = 0
+  // Keeps references unique across server restarts
+  private instanceId = Date.now().toString(36)
+
+  authorize({ token, amount }: AuthorizeRequest): Promise<ProcessorPayment> {
+    return respond(() => {
+      const card = parseSimulatorToken(token)
+      if (roundCurrency(amount) !== amount || amount <= 0) {
+        throw new PaymentProcessorError(
+          'Amount must be more than zero in whole cents',
+          'INVALID_REQUEST',
+        )
+      }
+      if (this.usedTokens.has(token)) {
+        throw new PaymentProcessorError('Card token has already been used', 'INVALID_REQUEST')
+      }
+      this.usedTokens.add(token)
+
+      const cents = Math.round(amount * 100) % 100
+      const outcome =
+        card.outcome === 'APPROVE' ? SIMULATOR_AMOUNT_CENTS[cents] || 'APPROVE' : card.outcome
+      if (outcome === 'TIMEOUT') {
+        throw new PaymentProcessorError('Card processor did not respond in time', 'TIMEOUT')
+      }
+
+      this.sequence += 1
+      const declineReason = DECLINE_REASONS[outcome]
+      const payment: ProcessorPayment = {
+        processor: this.name,
+        reference: `sim_${this.instanceId}_${this.sequence}`,
+        status: declineReason ? 'DECLINED' : 'AUTHORIZED',
+        requestedAmount: amount,
+        // Partial approvals cover half the amount, rounded down to the cent
+        amount: declineReason ? 0 : outcome === 'PARTIAL' ? Math.floor(amount * 50) / 100 : amount,
+        capturedAmount: 0,
+        refundedAmount: 0,
+        authCode: declineReason ? undefined : `SIM${String(this.sequence).padStart(3, '0')}`,
+        last4: card.last4,
+        brand: card.brand,
+        declineReason,
+      }
+      this.payments.set(payment.reference, payment)
+      return { ...payment }
+    })
+  }
+
+  capture(reference: string, amount?: number): Promise<ProcessorPayment> {
+    return respond(() => {
+      const payment = this.find(reference)
+      if (payment.status !== 'AUTHORIZED') {
+        throw new PaymentProcessorError(
+          `Cannot capture a ${payment.status.toLowerCase()} payment`,
+          'INVALID_STATE',
+        )
+      }
+      const captureAmount = amount ?? payment.amount
+      if (captureAmount <= 0 || captureAmount > payment.amount) {
+        throw new PaymentProcessorError(
+          `Capture must be between $0.01 and ${formatAmount(payment.amount)}`,
+          'INVALID_REQUEST',
+        )
+      }
+
+      payment.status = 'CAPTURED'
+      payment.capturedAmount = captureAmount
+      return { ...payment }
+    })
+  }
+
+  void(reference: string): Promise<ProcessorPayment> {
+    return respond(() => {
+      const payment = this.find(reference)
+      if (
+        (payment.status !== 'AUTHORIZED' && payment.status !== 'CAPTURED') ||
+        payment.refundedAmount > 0
+      ) {
+        throw new PaymentProcessorError(
+          `Cannot void a ${payment.status.toLowerCase()} payment`,
+          'INVALID_STATE',
+        )
+      }
+
+      payment.status = 'VOIDED'
+      return { ...payment }
+    })
+  }
+
+  refund(reference: string, amount: number): Promise<ProcessorPayment> {
+    return respond(() => {
+      const payment = this.find(reference)
+      if (payment.status !== 'CAPTURED') {
+        throw new PaymentProcessorError(
+          `Cannot refund a ${payment.status.toLowerCase()} payment`,
+          'INVALID_STATE',
+        )
+      }
+      const refundable = roundCurrency(payment.capturedAmount - payment.refundedAmount)
+      if (amount <= 0 || amount > refundable) {
+        throw new PaymentProcessorError(
+          `Only ${formatAmount(refundable)} of this payment can be refunded`,
+          'INVALID_REQUEST',
+        )
+      }
+
+      payment.refundedAmount = roundCurrency(payment.refundedAmount + amount)
+      if (payment.refundedAmount === payment.capturedAmount) {
+        payment.status = 'REFUNDED'
+      }
+      return { ...payment }
+    })
+  }
+
+  status(reference: string): Promise<ProcessorPayment> {
+    return respond(() => {
+      return { ...this.find(reference) }
+    })
+  }
+
+  private find(reference: string): ProcessorPayment {
+    const payment = this.payments.get(reference)
+    if (!payment) {
+      throw new PaymentProcessorError(`Card payment ${reference} not found`, 'UNKNOWN_PAYMENT')
+    }
+    return payment
+  }
+}
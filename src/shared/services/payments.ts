@@ -1,4 +1,8 @@
 import { api } from './api'
+import { giftCardsService } from './giftCards'
+import { tokenizeSimulatorCard } from './paymentSimulator'
+import type { TransactionTenderData } from '../types/transactions'
+import type { AuthorizePaymentData, ProcessorPayment } from '../types/payments'
 
 export interface CardPaymentData {
   cardNumber: string
@@ -15,6 +19,7 @@ export interface SplitPaymentData {
     amount: number
     cardData?: CardPaymentData
     giftCardNumber?: string
+    giftCardPin?: string
   }[]
   totalAmount: number
 }
@@ -24,78 +29,61 @@ export interface PaymentResult {
   transactionId?: string
   authorizationCode?: string
   last4Digits?: string
+  processor?: string
   errorMessage?: string
   receiptData?: any
+  // Tenders to send with the sale, set when a split payment succeeds
+  tenders?: TransactionTenderData[]
 }
 
 export const paymentService = {
-  // Process card payment (mock implementation)
+  // Authorize a card for the amount. The card is tokenized in the browser and
+  // only the token goes to the server, which captures it when the sale completes.
   async processCardPayment(cardData: CardPaymentData): Promise<PaymentResult> {
     try {
-      // In a real implementation, this would integrate with a payment processor
-      // like Stripe, Square, or a traditional POS payment terminal
-      
-      // Mock validation
-      if (!cardData.cardNumber || cardData.cardNumber.length < 13) {
-        throw new Error('Invalid card number')
-      }
-      
-      if (!cardData.cvv || cardData.cvv.length < 3) {
-        throw new Error('Invalid CVV')
-      }
-
-      // Simulate processing delay
-      await new Promise(resolve => setTimeout(resolve, 2000))
-
-      // Mock successful response (90% success rate for demo)
-      const isSuccess = Math.random() > 0.1
+      const card = tokenizeSimulatorCard(cardData)
+      const payment = await this.authorizeCard({ token: card.token, amount: cardData.amount })
 
-      if (!isSuccess) {
+      // Take all or nothing; a partly approved card is released so another tender can pay
+      if (payment.amount < cardData.amount) {
+        await this.voidCardPayment(payment.reference).catch(() => undefined)
         return {
           success: false,
-          errorMessage: 'Card declined - insufficient funds'
+          errorMessage: `Card only approved for $${payment.amount.toFixed(2)} of $${cardData.amount.toFixed(2)}`
         }
       }
 
       return {
         success: true,
-        transactionId: `card_${Date.now()}`,
-        authorizationCode: Math.random().toString(36).substr(2, 8).toUpperCase(),
-        last4Digits: cardData.cardNumber.slice(-4)
+        transactionId: payment.reference,
+        processor: payment.processor,
+        authorizationCode: payment.authCode,
+        last4Digits: payment.last4
       }
-    } catch (error) {
+    } catch (error: any) {
       return {
         success: false,
-        errorMessage: error instanceof Error ? error.message : 'Payment processing failed'
+        errorMessage: error.response?.data?.message || error.message || 'Payment processing failed'
       }
     }
   },
 
-  // Process gift card payment (mock implementation)
-  async processGiftCardPayment(giftCardNumber: string, amount: number): Promise<PaymentResult> {
-    try {
-      // Mock gift card validation
-      const mockGiftCards = {
-        '1234567890123456': { balance: 100.00, active: true },
-        '9876543210987654': { balance: 25.50, active: true },
-        '1111222233334444': { balance: 0.00, active: true }
-      }
-
-      const giftCard = mockGiftCards[giftCardNumber as keyof typeof mockGiftCards]
+  // Authorize a tokenized card with the store's processor; declines come back as errors
+  async authorizeCard(data: AuthorizePaymentData): Promise<ProcessorPayment> {
+    const response = await api.post('/api/payments/authorize', data)
+    return response.data.payment
+  },
 
-      if (!giftCard) {
-        return {
-          success: false,
-          errorMessage: 'Invalid gift card number'
-        }
-      }
+  // Release a card authorization that will not be used for a sale
+  async voidCardPayment(reference: string): Promise<ProcessorPayment> {
+    const response = await api.post(`/api/payments/${encodeURIComponent(reference)}/void`)
+    return response.data.payment
+  },
 
-      if (!giftCard.active) {
-        return {
-          success: false,
-          errorMessage: 'Gift card is not active'
-        }
-      }
+  // Check a gift card can cover the amount; the server takes the money when the sale completes
+  async processGiftCardPayment(giftCardNumber: string, pin: string, amount: number): Promise<PaymentResult> {
+    try {
+      const giftCard = await giftCardsService.checkBalance(giftCardNumber, pin)
 
       if (giftCard.balance < amount) {
         return {
@@ -104,17 +92,14 @@ export const paymentService = {
         }
       }
 
-      // Simulate processing
-      await new Promise(resolve => setTimeout(resolve, 1000))
-
       return {
         success: true,
-        transactionId: `gift_${Date.now()}`
+        last4Digits: giftCard.last4
       }
-    } catch (error) {
+    } catch (error: any) {
       return {
         success: false,
-        errorMessage: error instanceof Error ? error.message : 'Gift card processing failed'
+        errorMessage: error.response?.data?.message || error.message || 'Gift card processing failed'
       }
     }
   },
@@ -162,13 +147,17 @@ export const paymentService = {
             break
 
           case 'GIFT_CARD':
-            if (!payment.giftCardNumber) {
+            if (!payment.giftCardNumber || !payment.giftCardPin) {
               result = {
                 success: false,
-                errorMessage: 'Gift card number required'
+                errorMessage: 'Gift card number and PIN required'
               }
             } else {
-              result = await this.processGiftCardPayment(payment.giftCardNumber, payment.amount)
+              result = await this.processGiftCardPayment(
+                payment.giftCardNumber,
+                payment.giftCardPin,
+                payment.amount
+              )
             }
             break
 
@@ -182,7 +171,8 @@ export const paymentService = {
         results.push(result)
 
         if (!result.success) {
-          // If any payment fails, the entire split payment fails
+          // If any payment fails, the entire split payment fails and approved cards are released
+          await this.releaseCardPayments(results)
           return {
             success: false,
             errorMessage: `${payment.method} payment failed: ${result.errorMessage}`
@@ -204,7 +194,16 @@ export const paymentService = {
             last4Digits: result.last4Digits
           })),
           totalPaid
-        }
+        },
+        tenders: splitData.payments.map((payment, index) => ({
+          method: payment.method,
+          amount: payment.amount,
+          giftCardNumber: payment.giftCardNumber,
+          giftCardPin: payment.giftCardPin,
+          reference: payment.method === 'CARD' ? results[index].transactionId : undefined,
+          last4: results[index].last4Digits,
+          authCode: results[index].authorizationCode
+        }))
       }
     } catch (error) {
       return {
@@ -214,6 +213,15 @@ export const paymentService = {
     }
   },
 
+  // Release the card authorizations among payment results, ignoring any already gone
+  async releaseCardPayments(results: PaymentResult[]): Promise<void> {
+    for (const result of results) {
+      if (result.success && result.processor && result.transactionId) {
+        await this.voidCardPayment(result.transactionId).catch(() => undefined)
+      }
+    }
+  },
+
   // Validate card number using Luhn algorithm
   validateCardNumber(cardNumber: string): boolean {
     const cleaned = cardNumber.replace(/\s+/g, '').replace(/[^0-9]/gi, '')
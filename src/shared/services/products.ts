@@ -1,4 +1,11 @@
 import type { Product } from '../types/database'
+import type {
+  InventoryDiscrepancy,
+  InventoryMovementEntry,
+  InventoryMovementQuery,
+  RecordInventoryMovementData,
+  StockCountData
+} from '../types/inventory'
 import { api } from './api'
 
 export interface CreateProductData {
@@ -143,18 +150,40 @@ export class ProductService {
   }
 
   /**
-   * Update product stock quantity
+   * Record a stock count; the difference is kept as an adjustment movement
    */
-  static async updateStock(id: string, quantity: number): Promise<Product> {
-    const response = await api.patch<Product>(`/products/${id}/stock`, { quantity })
+  static async updateStock(id: string, count: StockCountData): Promise<Product> {
+    const response = await api.patch<Product>(`/products/${id}/stock`, count)
     return response.data
   }
 
   /**
-   * Bulk update product stock
+   * Record stock counts for several products at once
    */
-  static async bulkUpdateStock(updates: Array<{ id: string; quantity: number }>): Promise<Product[]> {
+  static async bulkUpdateStock(updates: Array<StockCountData & { id: string }>): Promise<Product[]> {
     const response = await api.patch<Product[]>('/products/bulk-stock', { updates })
     return response.data
   }
+
+  /**
+   * Receive stock, or adjust it for damage, theft or expiry
+   */
+  static async recordInventoryMovement(
+    id: string,
+    data: RecordInventoryMovementData
+  ): Promise<InventoryMovementEntry> {
+    const response = await api.post<InventoryMovementEntry>(`/products/${id}/movements`, data)
+    return response.data
+  }
+
+  /**
+   * A product's stock movements, newest first, and whether they add up to its quantity
+   */
+  static async getInventoryMovements(
+    id: string,
+    query: InventoryMovementQuery = {}
+  ): Promise<{ movements: InventoryMovementEntry[]; discrepancy: InventoryDiscrepancy | null }> {
+    const response = await api.get(`/products/${id}/movements`, { params: query })
+    return response.data
+  }
 }
\ No newline at end of file
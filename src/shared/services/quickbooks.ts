@@ -57,6 +57,15 @@ export interface QBSalesReceipt {
   lineItems: QBLineItem[]
   paymentMethod: string
   paymentReference?: string
+  // One line per tender, each deposited to its own account
+  payments?: QBSalesReceiptPayment[]
+}
+
+export interface QBSalesReceiptPayment {
+  paymentMethod: string
+  amount: number
+  depositAccountId: string | null
+  reference?: string
 }
 
 export interface QBLineItem {
@@ -74,6 +83,7 @@ export interface ChartOfAccountsMapping {
   cashAccount: string
   cardAccount: string
   giftCardAccount: string
+  storeCreditAccount: string
   inventoryAccount: string
   cogsAccount: string
   discountAccount: string
@@ -0,0 +1,326 @@
+import type {
+  Prisma,
+  GiftCardLedger,
+  QuickBooksAccountMapping,
+  TransactionPayment,
+  ZReport,
+} from '../../generated/prisma'
+import type { PaymentMethod } from '../types/database'
+import type { DailySalesReport } from '../types/reports'
+import type { QBSalesReceiptPayment } from './quickbooks'
+import { roundCurrency, toAmount } from '../utils/money'
+
+export type QuickBooksSyncStatus = 'SYNCED' | 'SKIPPED' | 'FAILED'
+
+export interface QuickBooksSyncResult {
+  status: QuickBooksSyncStatus
+  message?: string
+}
+
+// One side of a journal entry; exactly one of debit and credit is non-zero
+export interface QuickBooksJournalLine {
+  accountId: string
+  debit: number
+  credit: number
+  description: string
+}
+
+type TenderAccounts = Pick<
+  QuickBooksAccountMapping,
+  'cashAccount' | 'cardAccount' | 'giftCardAccount' | 'storeCreditAccount'
+>
+
+type DailySummaryAccounts = TenderAccounts &
+  Pick<QuickBooksAccountMapping, 'salesAccount' | 'taxAccount' | 'discountAccount'>
+
+// Only the most recent failures are kept on the integration record
+const MAX_SYNC_ERRORS = 50
+
+/**
+ * Server-side QuickBooks operations that follow changes made at the register.
+ *
+ * Like the rest of the QuickBooks integration this talks to a mocked API;
+ * in production the calls below would go through the QuickBooks SDK using
+ * the store's stored tokens. A failure never undoes the POS change: it is
+ * recorded in the integration's syncErrors so it can be retried.
+ */
+
+async function recordSyncError(
+  client: Prisma.TransactionClient,
+  integrationId: string,
+  existing: Prisma.JsonValue | null,
+  error: { operation: string; entityId: string; reason?: string; message: string },
+): Promise<void> {
+  const errors = Array.isArray(existing) ? existing : []
+  await client.quickBooksIntegration.update({
+    where: { id: integrationId },
+    data: {
+      lastSyncAt: new Date(),
+      syncErrors: [...errors, { ...error, occurredAt: new Date().toISOString() }].slice(
+        -MAX_SYNC_ERRORS,
+      ) as Prisma.InputJsonValue,
+    },
+  })
+}
+
+/**
+ * Voids a SalesReceipt previously synced for a transaction
+ */
+export async function voidQuickBooksSalesReceipt(
+  client: Prisma.TransactionClient,
+  storeId: string,
+  salesReceiptId: string,
+  reason: string,
+): Promise<QuickBooksSyncResult> {
+  const integration = await client.quickBooksIntegration.findUnique({
+    where: { storeId },
+  })
+
+  if (!integration || !integration.isActive) {
+    return { status: 'SKIPPED', message: 'QuickBooks is not connected for this store' }
+  }
+
+  try {
+    if (integration.expiresAt <= new Date()) {
+      throw new Error('QuickBooks access token has expired')
+    }
+
+    // Mock QuickBooks void; production sends POST /v3/company/{realmId}/salesreceipt?operation=void
+    // with the SalesReceipt id and the reason as its PrivateNote
+
+    await client.quickBooksIntegration.update({
+      where: { id: integration.id },
+      data: { lastSyncAt: new Date(), lastSuccessfulSync: new Date() },
+    })
+
+    return { status: 'SYNCED' }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    await recordSyncError(client, integration.id, integration.syncErrors, {
+      operation: 'void_sales_receipt',
+      entityId: salesReceiptId,
+      reason,
+      message,
+    })
+    return { status: 'FAILED', message }
+  }
+}
+
+/**
+ * The account a tender's money lands in. Sales paid by gift card or store
+ * credit draw down what the store owes the customer instead of a bank
+ * account, and refunds to store credit add to it.
+ */
+export function getTenderAccount(
+  paymentMethod: PaymentMethod,
+  mapping: TenderAccounts,
+): string | null {
+  switch (paymentMethod) {
+    case 'CASH':
+      return mapping.cashAccount
+    case 'CARD':
+      return mapping.cardAccount
+    case 'GIFT_CARD':
+      return mapping.giftCardAccount
+    case 'STORE_CREDIT':
+      return mapping.storeCreditAccount
+    default:
+      return null
+  }
+}
+
+/**
+ * A transaction's tenders as sales receipt payment lines, each deposited to
+ * the account its money lands in
+ */
+export function toSalesReceiptPayments(
+  payments: Pick<TransactionPayment, 'paymentMethod' | 'amount' | 'reference'>[],
+  mapping: TenderAccounts | null,
+): QBSalesReceiptPayment[] {
+  return payments.map((payment) => ({
+    paymentMethod: payment.paymentMethod,
+    amount: toAmount(payment.amount),
+    depositAccountId: mapping ? getTenderAccount(payment.paymentMethod, mapping) : null,
+    reference: payment.reference || undefined,
+  }))
+}
+
+/**
+ * Journal lines for selling or reloading a gift card: the money received is
+ * owed to the card holder, so it is credited to the gift card liability
+ * account rather than to sales income
+ */
+export function toGiftCardJournalLines(
+  entry: Pick<GiftCardLedger, 'entryType' | 'amount' | 'paymentMethod'>,
+  mapping: TenderAccounts,
+): QuickBooksJournalLine[] {
+  const amount = toAmount(entry.amount)
+  const tenderAccount = entry.paymentMethod && getTenderAccount(entry.paymentMethod, mapping)
+  if (!tenderAccount) {
+    throw new Error(`No QuickBooks account for ${entry.paymentMethod || 'unknown'} payments`)
+  }
+
+  const description = entry.entryType === 'ACTIVATE' ? 'Gift card sold' : 'Gift card reloaded'
+  return [
+    { accountId: tenderAccount, debit: amount, credit: 0, description },
+    { accountId: mapping.giftCardAccount, debit: 0, credit: amount, description },
+  ]
+}
+
+/**
+ * Books a gift card sale or reload as a journal entry against the store's
+ * gift card liability account. Spending a card is part of the sale's own
+ * receipt and refunds part of the return's, so only loads are posted here.
+ */
+export async function postQuickBooksGiftCardEntry(
+  client: Prisma.TransactionClient,
+  entry: GiftCardLedger,
+): Promise<QuickBooksSyncResult> {
+  const integration = await client.quickBooksIntegration.findUnique({
+    where: { storeId: entry.storeId },
+  })
+
+  if (!integration || !integration.isActive) {
+    return { status: 'SKIPPED', message: 'QuickBooks is not connected for this store' }
+  }
+
+  try {
+    if (integration.expiresAt <= new Date()) {
+      throw new Error('QuickBooks access token has expired')
+    }
+
+    const mapping = await client.quickBooksAccountMapping.findUnique({
+      where: { storeId: entry.storeId },
+    })
+    if (!mapping) {
+      throw new Error('QuickBooks accounts are not mapped for this store')
+    }
+
+    // Mock QuickBooks journal entry; production sends POST /v3/company/{realmId}/journalentry
+    // with these lines and the ledger entry id as its DocNumber
+    toGiftCardJournalLines(entry, mapping)
+    const journalEntryId = `qb_journal_${entry.id}`
+
+    await client.giftCardLedger.update({
+      where: { id: entry.id },
+      data: { quickBooksId: journalEntryId },
+    })
+    await client.quickBooksIntegration.update({
+      where: { id: integration.id },
+      data: { lastSyncAt: new Date(), lastSuccessfulSync: new Date() },
+    })
+
+    return { status: 'SYNCED' }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    await recordSyncError(client, integration.id, integration.syncErrors, {
+      operation: 'gift_card_journal_entry',
+      entityId: entry.id,
+      message,
+    })
+    return { status: 'FAILED', message }
+  }
+}
+
+/**
+ * Journal lines summarising a Z report: each tender's takings are debited to
+ * the account the money landed in, and net sales and tax are credited. With
+ * a discount account mapped, discounts and points redeemed are shown against
+ * it instead of being netted off sales. A net refund day flips the sides.
+ */
+export function toDailySummaryJournalLines(
+  report: DailySalesReport,
+  mapping: DailySummaryAccounts,
+): QuickBooksJournalLine[] {
+  const description = `Daily sales summary ${report.businessDate}`
+  const { sales } = report
+
+  // Positive amounts are debits, negative credits
+  const entries: { accountId: string; amount: number }[] = report.tenders.map((tender) => {
+    const accountId = getTenderAccount(tender.paymentMethod, mapping)
+    if (!accountId) {
+      throw new Error(`No QuickBooks account for ${tender.paymentMethod} payments`)
+    }
+    return { accountId, amount: tender.amount }
+  })
+
+  const contraAccount = mapping.discountAccount || mapping.salesAccount
+  entries.push({ accountId: contraAccount, amount: sales.loyaltyRedemptions })
+  if (mapping.discountAccount) {
+    entries.push({ accountId: mapping.discountAccount, amount: sales.discounts })
+    entries.push({
+      accountId: mapping.salesAccount,
+      amount: -roundCurrency(sales.netSales + sales.discounts),
+    })
+  } else {
+    entries.push({ accountId: mapping.salesAccount, amount: -sales.netSales })
+  }
+  entries.push({ accountId: mapping.taxAccount, amount: -sales.taxAmount })
+
+  return entries
+    .filter((entry) => entry.amount !== 0)
+    .map((entry) => ({
+      accountId: entry.accountId,
+      debit: entry.amount > 0 ? entry.amount : 0,
+      credit: entry.amount < 0 ? -entry.amount : 0,
+      description,
+    }))
+}
+
+/**
+ * Sends a Z report to QuickBooks as the store's daily summary journal entry.
+ * A report is only ever sent once.
+ */
+export async function postQuickBooksDailySummary(
+  client: Prisma.TransactionClient,
+  zReport: ZReport,
+): Promise<QuickBooksSyncResult> {
+  if (zReport.quickBooksId) {
+    return { status: 'SKIPPED', message: 'Z report was already sent to QuickBooks' }
+  }
+
+  const integration = await client.quickBooksIntegration.findUnique({
+    where: { storeId: zReport.storeId },
+  })
+
+  if (!integration || !integration.isActive) {
+    return { status: 'SKIPPED', message: 'QuickBooks is not connected for this store' }
+  }
+
+  try {
+    if (integration.expiresAt <= new Date()) {
+      throw new Error('QuickBooks access token has expired')
+    }
+
+    const mapping = await client.quickBooksAccountMapping.findUnique({
+      where: { storeId: zReport.storeId },
+    })
+    if (!mapping) {
+      throw new Error('QuickBooks accounts are not mapped for this store')
+    }
+
+    // Mock QuickBooks journal entry; production sends POST /v3/company/{realmId}/journalentry
+    // with these lines, the business date as its TxnDate and the Z number as its DocNumber
+    toDailySummaryJournalLines(zReport.report as unknown as DailySalesReport, mapping)
+    const journalEntryId = `qb_journal_z_${zReport.id}`
+
+    await client.zReport.update({
+      where: { id: zReport.id },
+      data: { quickBooksId: journalEntryId },
+    })
+    await client.quickBooksIntegration.update({
+      where: { id: integration.id },
+      data: { lastSyncAt: new Date(), lastSuccessfulSync: new Date() },
+    })
+
+    return { status: 'SYNCED' }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    await recordSyncError(client, integration.id, integration.syncErrors, {
+      operation: 'daily_summary_journal_entry',
+      entityId: zReport.id,
+      message,
+    })
+    return { status: 'FAILED', message }
+  }
+}
@@ -13,6 +13,11 @@ export const receiptService = {
     await api.post(`/api/transactions/${transactionId}/print`)
   },
 
+  // Dollar amount as printed, with refunds shown as -$1.00
+  formatAmount(amount: number): string {
+    return `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`
+  },
+
   // Format receipt for display/printing
   formatReceiptText(receipt: Receipt): string {
     const lines: string[] = []
@@ -58,12 +63,31 @@ export const receiptService = {
 
     // Totals
     lines.push(`Subtotal:${`$${receipt.subtotal.toFixed(2)}`.padStart(32)}`)
+    receipt.discounts?.forEach(discount => {
+      const nameStr = `  ${discount.name}`.substring(0, 30).padEnd(30)
+      lines.push(`${nameStr}${`-$${discount.amount.toFixed(2)}`.padStart(10)}`)
+    })
     lines.push(`Tax:${`$${receipt.taxAmount.toFixed(2)}`.padStart(36)}`)
+    receipt.taxLines?.forEach(taxLine => {
+      const nameStr = `  ${taxLine.name}`.substring(0, 30).padEnd(30)
+      lines.push(`${nameStr}${`$${taxLine.amount.toFixed(2)}`.padStart(10)}`)
+    })
     lines.push(`TOTAL:${`$${receipt.totalAmount.toFixed(2)}`.padStart(34)}`)
     lines.push('')
 
     // Payment Info
+    if (receipt.pointsTendered) {
+      const pointsStr = `Loyalty Points (${receipt.pointsTendered.points}):`
+      lines.push(`${pointsStr}${`$${receipt.pointsTendered.amount.toFixed(2)}`.padStart(40 - pointsStr.length)}`)
+    }
     lines.push(`Payment: ${receipt.paymentMethod}`)
+    receipt.tenders?.forEach(tender => {
+      const label = `  ${tender.method}${tender.last4 ? ` ****${tender.last4}` : ''}`
+      lines.push(`${label}${this.formatAmount(tender.amount).padStart(40 - label.length)}`)
+      if (tender.authCode) {
+        lines.push(`    Auth: ${tender.authCode}`)
+      }
+    })
     if (receipt.cashTendered && receipt.changeGiven) {
       lines.push(`Cash Tendered: $${receipt.cashTendered.toFixed(2)}`)
       lines.push(`Change: $${receipt.changeGiven.toFixed(2)}`)
@@ -115,6 +139,7 @@ export const receiptService = {
             .line-items th { border-bottom: 2px solid #000; }
             .totals { border-top: 2px solid #000; padding-top: 10px; margin-bottom: 15px; }
             .totals .total { font-weight: bold; font-size: 16px; }
+            .totals .tax-line { padding-left: 10px; font-size: 11px; }
             .loyalty { background: #f0f8ff; padding: 10px; border: 1px solid #0066cc; margin-bottom: 15px; }
             .footer { text-align: center; border-top: 2px solid #000; padding-top: 10px; font-size: 12px; }
           </style>
@@ -158,12 +183,22 @@ export const receiptService = {
 
           <div class="totals">
             <div>Subtotal: $${receipt.subtotal.toFixed(2)}</div>
+            ${(receipt.discounts || []).map(discount => `
+              <div class="tax-line">${discount.name}: -$${discount.amount.toFixed(2)}</div>
+            `).join('')}
             <div>Tax: $${receipt.taxAmount.toFixed(2)}</div>
+            ${(receipt.taxLines || []).map(taxLine => `
+              <div class="tax-line">${taxLine.name}: $${taxLine.amount.toFixed(2)}</div>
+            `).join('')}
             <div class="total">TOTAL: $${receipt.totalAmount.toFixed(2)}</div>
           </div>
 
           <div class="transaction-info">
+            ${receipt.pointsTendered ? `<div>Loyalty Points (${receipt.pointsTendered.points}): $${receipt.pointsTendered.amount.toFixed(2)}</div>` : ''}
             <div><strong>Payment:</strong> ${receipt.paymentMethod}</div>
+            ${(receipt.tenders || []).map(tender => `
+              <div class="tax-line">${tender.method}${tender.last4 ? ` ****${tender.last4}` : ''}: ${this.formatAmount(tender.amount)}${tender.authCode ? ` (Auth ${tender.authCode})` : ''}</div>
+            `).join('')}
             ${receipt.cashTendered ? `<div>Cash Tendered: $${receipt.cashTendered.toFixed(2)}</div>` : ''}
             ${receipt.changeGiven ? `<div>Change: $${receipt.changeGiven.toFixed(2)}</div>` : ''}
           </div>
@@ -0,0 +1,75 @@
+import { api } from './api'
+import type {
+  XReportQuery,
+  CreateZReportData,
+  DailySalesReport,
+  ZReportResponse,
+  SalesReportQuery,
+  SalesExportQuery,
+  SalesReport
+} from '../types/reports'
+import type { StockTransferReport, StockTransferReportQuery } from '../types/stockTransfers'
+import type { QuickBooksSyncResult } from './quickbooksSync'
+
+export interface ZReportFilters {
+  storeId?: string
+  startDate?: string
+  endDate?: string
+}
+
+export const reportsService = {
+  // Sales, margin and returns over a range of business days
+  async getSalesReport(query: SalesReportQuery): Promise<SalesReport> {
+    const response = await api.get('/api/reports/sales', { params: query })
+    return response.data.report
+  },
+
+  // One breakdown of the sales report as a CSV file
+  async exportSalesReport(query: SalesExportQuery): Promise<Blob> {
+    const response = await api.get('/api/reports/sales/export', {
+      params: query,
+      responseType: 'blob'
+    })
+    return response.data
+  },
+
+  // The business day so far, for a store or one register's drawer
+  async getXReport(query: XReportQuery = {}): Promise<DailySalesReport> {
+    const response = await api.get('/api/reports/x', { params: query })
+    return response.data.report
+  },
+
+  // Stock a store shipped and received by transfer, and what is in transit now
+  async getTransferReport(query: StockTransferReportQuery = {}): Promise<StockTransferReport> {
+    const response = await api.get('/api/reports/transfers', { params: query })
+    return response.data.report
+  },
+
+  // Close a business day; it takes no more sales once its Z report has run
+  async createZReport(data: CreateZReportData): Promise<ZReportResponse> {
+    const response = await api.post('/api/reports/z', data)
+    return response.data.zReport
+  },
+
+  async getZReports(filters: ZReportFilters = {}): Promise<ZReportResponse[]> {
+    const response = await api.get('/api/reports/z', { params: filters })
+    return response.data.zReports
+  },
+
+  // Fetch a Z report to print again; the server records the reprint
+  async reprintZReport(id: string): Promise<ZReportResponse> {
+    const response = await api.post(`/api/reports/z/${id}/reprint`)
+    return response.data.zReport
+  },
+
+  // Send a Z report to QuickBooks as the day's summary journal entry
+  async sendZReportToQuickBooks(id: string): Promise<QuickBooksSyncResult> {
+    try {
+      const response = await api.post(`/api/reports/z/${id}/quickbooks`)
+      return response.data.quickBooks
+    } catch (error: any) {
+      if (error.response?.data?.quickBooks) return error.response.data.quickBooks
+      throw error
+    }
+  }
+}
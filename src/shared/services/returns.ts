@@ -0,0 +1,248 @@
+import type { Prisma } from '../../generated/prisma'
+import type { ReturnDisposition } from '../types/database'
+import type { ReturnLineRequest, TaxJurisdictionAmount } from '../types/transactions'
+import { roundCurrency, toAmount } from '../utils/money'
+
+const RETURN_DISPOSITIONS: ReturnDisposition[] = ['RESTOCK', 'WRITE_OFF']
+
+// Raised when a return request cannot be honoured against the original sale
+export class ReturnValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ReturnValidationError'
+  }
+}
+
+// A line sold on the original transaction
+export interface ReturnableLine {
+  id: string
+  productId: string
+  productName: string
+  productSku: string
+  quantity: number
+  unitPrice: number
+  lineTotal: number
+  lineTaxAmount: number
+  taxDetails: TaxJurisdictionAmount[] | null
+}
+
+// A line from an earlier return; quantities and amounts are stored negative
+export interface PriorReturnLine {
+  originalLineItemId: string
+  quantity: number
+  lineTotal: number
+  lineTaxAmount: number
+}
+
+export interface ReturnedSoFar {
+  quantity: number
+  amount: number
+  taxAmount: number
+}
+
+// What to give back for one sold line; quantities and amounts are positive
+export interface PlannedReturnLine {
+  originalLineItemId: string
+  productId: string
+  productName: string
+  productSku: string
+  quantity: number
+  unitPrice: number
+  refundAmount: number
+  refundTaxAmount: number
+  taxDetails: TaxJurisdictionAmount[]
+  disposition: ReturnDisposition
+}
+
+export interface ReturnPlan {
+  lines: PlannedReturnLine[]
+  refundSubtotal: number
+  refundTaxAmount: number
+  refundTotal: number
+  // True when this return leaves nothing on the original sale to give back
+  completesReturn: boolean
+}
+
+/**
+ * Holds off other returns and voids of a sale until the surrounding
+ * transaction ends. Must be called on an interactive transaction client.
+ */
+export async function lockSale(
+  client: Prisma.TransactionClient,
+  transactionId: string,
+): Promise<void> {
+  await client.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`sale:${transactionId}`}))`
+}
+
+/**
+ * Lines that earlier returns and exchanges gave back, leaving out voided ones
+ */
+export async function loadPriorReturnLines(
+  client: Prisma.TransactionClient,
+  soldLineIds: string[],
+): Promise<PriorReturnLine[]> {
+  const lines = await client.lineItem.findMany({
+    where: {
+      originalLineItemId: { in: soldLineIds },
+      transaction: { paymentStatus: { not: 'VOIDED' } },
+    },
+    select: { originalLineItemId: true, quantity: true, lineTotal: true, lineTaxAmount: true },
+  })
+  return lines.map((line) => ({
+    originalLineItemId: line.originalLineItemId,
+    quantity: line.quantity,
+    lineTotal: toAmount(line.lineTotal),
+    lineTaxAmount: toAmount(line.lineTaxAmount),
+  }))
+}
+
+/**
+ * Totals what earlier returns already gave back, per original line
+ */
+export function getReturnedSoFar(priorLines: PriorReturnLine[]): Record<string, ReturnedSoFar> {
+  const totals: Record<string, ReturnedSoFar> = {}
+  for (const line of priorLines) {
+    const entry = (totals[line.originalLineItemId] ||= { quantity: 0, amount: 0, taxAmount: 0 })
+    entry.quantity += Math.abs(line.quantity)
+    entry.amount = roundCurrency(entry.amount + Math.abs(line.lineTotal))
+    entry.taxAmount = roundCurrency(entry.taxAmount + Math.abs(line.lineTaxAmount))
+  }
+  return totals
+}
+
+/**
+ * Validates a return request against what was sold and already returned,
+ * and prices each returned line.
+ *
+ * Partial returns refund a proportional share of the line total and tax.
+ * Returning the last units of a line refunds whatever is left, so rounding
+ * never leaves a cent behind or refunds one too many.
+ */
+export function planReturn(
+  soldLines: ReturnableLine[],
+  priorLines: PriorReturnLine[],
+  requests: ReturnLineRequest[],
+): ReturnPlan {
+  if (!Array.isArray(requests) || requests.length === 0) {
+    throw new ReturnValidationError('At least one line must be returned')
+  }
+
+  const soldById = new Map(soldLines.map((line) => [line.id, line]))
+  const returnedSoFar = getReturnedSoFar(priorLines)
+
+  // Merge repeated lines so a request cannot dodge the limit by splitting a line
+  const requested = new Map<string, { quantity: number; disposition: ReturnDisposition }[]>()
+  for (const request of requests) {
+    const sold = soldById.get(request.lineItemId)
+    if (!sold) {
+      throw new ReturnValidationError(
+        `Line ${request.lineItemId} is not part of the original transaction`,
+      )
+    }
+    if (!Number.isInteger(request.quantity) || request.quantity <= 0) {
+      throw new ReturnValidationError(
+        `Return quantity for ${sold.productName} must be a positive whole number`,
+      )
+    }
+    if (!RETURN_DISPOSITIONS.includes(request.disposition)) {
+      throw new ReturnValidationError(
+        `disposition for ${sold.productName} must be one of ${RETURN_DISPOSITIONS.join(', ')}`,
+      )
+    }
+    const entries = requested.get(sold.id) || []
+    entries.push({ quantity: request.quantity, disposition: request.disposition })
+    requested.set(sold.id, entries)
+  }
+
+  const lines: PlannedReturnLine[] = []
+
+  for (const [lineId, entries] of requested) {
+    const sold = soldById.get(lineId)
+    const already = returnedSoFar[lineId] || { quantity: 0, amount: 0, taxAmount: 0 }
+    const remaining = sold.quantity - already.quantity
+    const totalRequested = entries.reduce((sum, entry) => sum + entry.quantity, 0)
+
+    if (totalRequested > remaining) {
+      throw new ReturnValidationError(
+        `Cannot return ${totalRequested} of ${sold.productName}: ${sold.quantity} sold, ${already.quantity} already returned`,
+      )
+    }
+
+    let quantityLeft = remaining
+    let amountLeft = roundCurrency(sold.lineTotal - already.amount)
+    let taxLeft = roundCurrency(sold.lineTaxAmount - already.taxAmount)
+
+    for (const entry of entries) {
+      const isLast = entry.quantity === quantityLeft
+      const ratio = entry.quantity / sold.quantity
+      const refundAmount = isLast ? amountLeft : roundCurrency(sold.lineTotal * ratio)
+      const refundTaxAmount = isLast ? taxLeft : roundCurrency(sold.lineTaxAmount * ratio)
+
+      quantityLeft -= entry.quantity
+      amountLeft = roundCurrency(amountLeft - refundAmount)
+      taxLeft = roundCurrency(taxLeft - refundTaxAmount)
+
+      lines.push({
+        originalLineItemId: sold.id,
+        productId: sold.productId,
+        productName: sold.productName,
+        productSku: sold.productSku,
+        quantity: entry.quantity,
+        unitPrice: sold.unitPrice,
+        refundAmount,
+        refundTaxAmount,
+        taxDetails: (sold.taxDetails || []).map((detail) => ({
+          ...detail,
+          taxableAmount: roundCurrency(detail.taxableAmount * ratio),
+          taxAmount: roundCurrency(detail.taxAmount * ratio),
+        })),
+        disposition: entry.disposition,
+      })
+    }
+  }
+
+  const refundSubtotal = roundCurrency(lines.reduce((sum, line) => sum + line.refundAmount, 0))
+  const refundTaxAmount = roundCurrency(lines.reduce((sum, line) => sum + line.refundTaxAmount, 0))
+
+  const completesReturn = soldLines.every((sold) => {
+    const returned =
+      (returnedSoFar[sold.id]?.quantity || 0) +
+      (requested.get(sold.id) || []).reduce((sum, entry) => sum + entry.quantity, 0)
+    return returned >= sold.quantity
+  })
+
+  return {
+    lines,
+    refundSubtotal,
+    refundTaxAmount,
+    refundTotal: roundCurrency(refundSubtotal + refundTaxAmount),
+    completesReturn,
+  }
+}
+
+/**
+ * Loyalty points to take back for a refund.
+ *
+ * Points are reversed in proportion to the share of the sale refunded so
+ * far, so a series of partial returns reverses exactly what a single full
+ * return would.
+ */
+export function calculatePointsReversal(
+  pointsEarned: number,
+  saleTotal: number,
+  previouslyRefunded: number,
+  refundTotal: number,
+  completesReturn: boolean,
+): number {
+  if (pointsEarned <= 0 || saleTotal <= 0) return 0
+
+  const reversedBefore = Math.floor((pointsEarned * previouslyRefunded) / saleTotal)
+  const reversedAfter = completesReturn
+    ? pointsEarned
+    : Math.min(
+        pointsEarned,
+        Math.floor((pointsEarned * (previouslyRefunded + refundTotal)) / saleTotal),
+      )
+
+  return Math.max(0, reversedAfter - reversedBefore)
+}
@@ -0,0 +1,357 @@
+import type { Prisma, StoreLocation } from '../../generated/prisma'
+import type {
+  SalesBreakdown,
+  SalesFigures,
+  SalesInterval,
+  SalesReport,
+  SalesReportQuery,
+  SalesReportRow,
+} from '../types/reports'
+import { parseBusinessDate } from './dailyReports'
+import {
+  formatBusinessDate,
+  getBusinessDate,
+  getBusinessDateRange,
+  getZonedTime,
+} from '../utils/businessDate'
+import { roundCurrency, toAmount } from '../utils/money'
+
+/**
+ * Sales reporting over a range of business days: the trend by hour, day or
+ * week, and breakdowns by category, vendor, product, employee and store.
+ *
+ * Figures are built from line items so margin can be taken line by line.
+ * Voided sales are left out entirely. Returns count against the period and
+ * group they were rung in, not against the original sale's.
+ */
+
+// Raised when a report is asked for with a bad range or grouping
+export class SalesReportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SalesReportError'
+  }
+}
+
+export const SALES_INTERVALS: SalesInterval[] = ['hour', 'day', 'week']
+
+export const SALES_BREAKDOWNS: SalesBreakdown[] = [
+  'period',
+  'category',
+  'vendor',
+  'product',
+  'employee',
+  'store',
+]
+
+// Longest range a single report covers
+const MAX_REPORT_DAYS = 366
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type ReportStore = Pick<StoreLocation, 'id' | 'storeName' | 'timezone'>
+
+export interface SalesReportScope {
+  stores: ReportStore[]
+  // Null when the report covers every store
+  storeId: string | null
+  startDate: Date
+  endDate: Date
+  interval: SalesInterval
+}
+
+// Running totals for one period or group
+interface Tally {
+  label: string
+  // Transactions that sold at least one unit here
+  sold: Set<string>
+  unitsSold: number
+  unitsReturned: number
+  netSales: number
+  costedSales: number
+  cost: number
+}
+
+const newTally = (label: string): Tally => ({
+  label,
+  sold: new Set(),
+  unitsSold: 0,
+  unitsReturned: 0,
+  netSales: 0,
+  costedSales: 0,
+  cost: 0,
+})
+
+const percent = (part: number, whole: number) =>
+  whole === 0 ? null : roundCurrency((part / whole) * 100)
+
+/**
+ * Validates a report's dates and interval. Both dates are required and
+ * inclusive; the interval defaults to daily.
+ */
+export function parseSalesReportQuery(query: SalesReportQuery): {
+  startDate: Date
+  endDate: Date
+  interval: SalesInterval
+} {
+  if (!query.startDate || !query.endDate) {
+    throw new SalesReportError('startDate and endDate are required')
+  }
+
+  const startDate = parseBusinessDate(query.startDate)
+  const endDate = parseBusinessDate(query.endDate)
+  if (!startDate || !endDate) {
+    throw new SalesReportError('Dates must be in YYYY-MM-DD form')
+  }
+  if (startDate > endDate) {
+    throw new SalesReportError('startDate must not be after endDate')
+  }
+  if ((endDate.getTime() - startDate.getTime()) / DAY_MS + 1 > MAX_REPORT_DAYS) {
+    throw new SalesReportError(`A report can cover at most ${MAX_REPORT_DAYS} days`)
+  }
+
+  const interval = query.interval || 'day'
+  if (!SALES_INTERVALS.includes(interval)) {
+    throw new SalesReportError(`interval must be one of ${SALES_INTERVALS.join(', ')}`)
+  }
+
+  return { startDate, endDate, interval }
+}
+
+// The Monday starting the week a business date falls in
+function weekStart(businessDate: Date): Date {
+  const daysSinceMonday = (businessDate.getUTCDay() + 6) % 7
+  return new Date(businessDate.getTime() - daysSinceMonday * DAY_MS)
+}
+
+function periodKey(instant: Date, timeZone: string, interval: SalesInterval): string {
+  if (interval === 'hour') {
+    return `${String(getZonedTime(instant, timeZone).hour).padStart(2, '0')}:00`
+  }
+  const businessDate = getBusinessDate(instant, timeZone)
+  return formatBusinessDate(interval === 'week' ? weekStart(businessDate) : businessDate)
+}
+
+// Every period in the range, so quiet hours and days show as zero rather than gaps
+function allPeriods(startDate: Date, endDate: Date, interval: SalesInterval): Map<string, Tally> {
+  const periods = new Map<string, Tally>()
+  if (interval === 'hour') {
+    for (let hour = 0; hour < 24; hour++) {
+      const key = `${String(hour).padStart(2, '0')}:00`
+      periods.set(key, newTally(key))
+    }
+    return periods
+  }
+
+  const step = interval === 'week' ? 7 * DAY_MS : DAY_MS
+  const first = interval === 'week' ? weekStart(startDate) : startDate
+  for (let time = first.getTime(); time <= endDate.getTime(); time += step) {
+    const key = formatBusinessDate(new Date(time))
+    periods.set(key, newTally(interval === 'week' ? `Week of ${key}` : key))
+  }
+  return periods
+}
+
+function tallyFor(groups: Map<string, Tally>, key: string, label: string): Tally {
+  let tally = groups.get(key)
+  if (!tally) {
+    tally = newTally(label)
+    groups.set(key, tally)
+  }
+  return tally
+}
+
+function toFigures(tally: Tally): SalesFigures {
+  const grossMargin = roundCurrency(tally.costedSales - tally.cost)
+  return {
+    transactionCount: tally.sold.size,
+    unitsSold: tally.unitsSold,
+    unitsReturned: tally.unitsReturned,
+    returnRate: percent(tally.unitsReturned, tally.unitsSold),
+    netSales: roundCurrency(tally.netSales),
+    cost: roundCurrency(tally.cost),
+    grossMargin,
+    marginPercent: percent(grossMargin, tally.costedSales),
+    uncostedSales: roundCurrency(tally.netSales - tally.costedSales),
+  }
+}
+
+function toRows(groups: Map<string, Tally>, sortBySales: boolean): SalesReportRow[] {
+  const rows = Array.from(groups, ([key, tally]) => ({
+    key,
+    label: tally.label,
+    ...toFigures(tally),
+  }))
+  return sortBySales ? rows.sort((a, b) => b.netSales - a.netSales) : rows
+}
+
+/**
+ * Builds a sales report across one store or every store given. Each store's
+ * range runs from local midnight on the start date to local midnight after
+ * the end date, and hours and days are taken in the store's own timezone.
+ */
+export async function buildSalesReport(
+  client: Prisma.TransactionClient,
+  scope: SalesReportScope,
+  now = new Date(),
+): Promise<SalesReport> {
+  const storesById = new Map(scope.stores.map((store) => [store.id, store]))
+
+  const transactions = await client.transaction.findMany({
+    where: {
+      paymentStatus: { not: 'VOIDED' },
+      transactionType: { not: 'VOID' },
+      OR: scope.stores.map((store) => ({
+        storeId: store.id,
+        transactionDate: {
+          gte: getBusinessDateRange(scope.startDate, store.timezone).start,
+          lt: getBusinessDateRange(scope.endDate, store.timezone).end,
+        },
+      })),
+    },
+    select: {
+      id: true,
+      storeId: true,
+      employeeId: true,
+      transactionDate: true,
+      employee: { select: { username: true, firstName: true, lastName: true } },
+      lineItems: {
+        select: {
+          productId: true,
+          productName: true,
+          quantity: true,
+          lineTotal: true,
+          product: { select: { category: true, vendor: true, cost: true } },
+        },
+      },
+    },
+  })
+
+  const total = newTally('Total')
+  const returns = new Set<string>()
+  let soldAmount = 0
+  let returnAmount = 0
+  const byPeriod = allPeriods(scope.startDate, scope.endDate, scope.interval)
+  const byCategory = new Map<string, Tally>()
+  const byVendor = new Map<string, Tally>()
+  const byProduct = new Map<string, Tally>()
+  const byEmployee = new Map<string, Tally>()
+  const byStore = new Map<string, Tally>()
+
+  for (const transaction of transactions) {
+    const store = storesById.get(transaction.storeId)
+    if (!store) continue
+
+    const { employee } = transaction
+    const employeeName =
+      [employee.firstName, employee.lastName].filter(Boolean).join(' ') || employee.username
+    const period = periodKey(transaction.transactionDate, store.timezone, scope.interval)
+
+    for (const line of transaction.lineItems) {
+      const amount = toAmount(line.lineTotal)
+      // Product cost is not snapshotted on the line, so margin uses today's cost
+      const unitCost = line.product.cost === null ? null : toAmount(line.product.cost)
+
+      if (line.quantity > 0) {
+        soldAmount += amount
+      } else {
+        returns.add(transaction.id)
+        returnAmount += amount
+      }
+
+      const tallies = [
+        total,
+        tallyFor(byPeriod, period, period),
+        tallyFor(byCategory, line.product.category || '', line.product.category || 'Uncategorized'),
+        tallyFor(byVendor, line.product.vendor || '', line.product.vendor || 'No vendor'),
+        tallyFor(byProduct, line.productId, line.productName),
+        tallyFor(byEmployee, transaction.employeeId, employeeName),
+        tallyFor(byStore, store.id, store.storeName),
+      ]
+      for (const tally of tallies) {
+        if (line.quantity > 0) {
+          tally.sold.add(transaction.id)
+          tally.unitsSold += line.quantity
+        } else {
+          tally.unitsReturned -= line.quantity
+        }
+        tally.netSales += amount
+        if (unitCost !== null) {
+          tally.costedSales += amount
+          tally.cost += unitCost * line.quantity
+        }
+      }
+    }
+  }
+
+  const transactionCount = total.sold.size
+  return {
+    storeId: scope.storeId,
+    startDate: formatBusinessDate(scope.startDate),
+    endDate: formatBusinessDate(scope.endDate),
+    interval: scope.interval,
+    generatedAt: now.toISOString(),
+    summary: {
+      ...toFigures(total),
+      returnCount: returns.size,
+      returnAmount: roundCurrency(returnAmount),
+      basketSize: transactionCount === 0 ? null : roundCurrency(soldAmount / transactionCount),
+      unitsPerTransaction:
+        transactionCount === 0 ? null : roundCurrency(total.unitsSold / transactionCount),
+    },
+    byPeriod: toRows(byPeriod, false),
+    byCategory: toRows(byCategory, true),
+    byVendor: toRows(byVendor, true),
+    byProduct: toRows(byProduct, true),
+    byEmployee: toRows(byEmployee, true),
+    byStore: toRows(byStore, true),
+  }
+}
+
+/**
+ * The rows of one breakdown of a report
+ */
+export function getSalesReportRows(report: SalesReport, groupBy: SalesBreakdown): SalesReportRow[] {
+  switch (groupBy) {
+    case 'period':
+      return report.byPeriod
+    case 'category':
+      return report.byCategory
+    case 'vendor':
+      return report.byVendor
+    case 'product':
+      return report.byProduct
+    case 'employee':
+      return report.byEmployee
+    case 'store':
+      return report.byStore
+  }
+}
+
+const CSV_COLUMNS = [
+  'key',
+  'label',
+  'transactionCount',
+  'unitsSold',
+  'unitsReturned',
+  'returnRate',
+  'netSales',
+  'cost',
+  'grossMargin',
+  'marginPercent',
+  'uncostedSales',
+] as const
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Renders one breakdown of a report as CSV, a row per period or group
+ */
+export function formatSalesReportCsv(rows: SalesReportRow[]): string {
+  const lines = rows.map((row) => CSV_COLUMNS.map((column) => csvCell(row[column])).join(','))
+  return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n'
+}
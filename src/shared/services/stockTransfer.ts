@@ -0,0 +1,421 @@
+import type {
+  Prisma,
+  Product,
+  StockTransfer,
+  StockTransferItem,
+  StockTransferStatus,
+} from '../../generated/prisma'
+import type {
+  CreateStockTransferData,
+  ReceiveStockTransferData,
+  ShipStockTransferData,
+  StockTransferDiscrepancy,
+  StockTransferReport,
+  StockTransferResponse,
+  StockTransferTotals,
+} from '../types/stockTransfers'
+import { postInventoryMovement } from './inventoryLedger'
+import { parseBusinessDate } from './dailyReports'
+import { formatBusinessDate, getBusinessDateRange } from '../utils/businessDate'
+
+/**
+ * Stock transfers between stores.
+ *
+ * A transfer is requested, approved by someone with access to the source
+ * store, shipped and then received. Shipping takes the stock out of the
+ * source store; receiving adds what was counted in at the destination. In
+ * between the stock is in transit and counted at neither store. Both legs
+ * are TRANSFER movements in the ledger, referenced TR-<number> and carrying
+ * the lot and expiry of the units sent.
+ */
+
+// Raised when a transfer is not in the state a step needs, e.g. shipping one not yet approved
+export class StockTransferError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StockTransferError'
+  }
+}
+
+export const STOCK_TRANSFER_STATUSES: StockTransferStatus[] = [
+  'REQUESTED',
+  'APPROVED',
+  'IN_TRANSIT',
+  'RECEIVED',
+  'CANCELLED',
+]
+
+// A transfer with the store and product names its screens and reports show
+export type StockTransferRow = StockTransfer & {
+  fromStore: { storeName: string }
+  toStore: { storeName: string }
+  items: (StockTransferItem & {
+    product: Pick<Product, 'sku' | 'name' | 'lotNumber' | 'expirationDate'>
+  })[]
+}
+
+export const stockTransferInclude = {
+  fromStore: { select: { storeName: true } },
+  toStore: { select: { storeName: true } },
+  items: {
+    include: {
+      product: { select: { sku: true, name: true, lotNumber: true, expirationDate: true } },
+    },
+  },
+} satisfies Prisma.StockTransferInclude
+
+export const transferReference = (transferNumber: number) => `TR-${transferNumber}`
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0
+
+const formatDate = (date: Date | null) => (date ? formatBusinessDate(date) : null)
+
+/**
+ * Validates a transfer request.
+ * Returns a list of human-readable problems; an empty list means the request is valid.
+ */
+export function validateStockTransferRequest(input: CreateStockTransferData): string[] {
+  const errors: string[] = []
+
+  if (!input.fromStoreId || !input.toStoreId) {
+    errors.push('fromStoreId and toStoreId are required')
+  } else if (input.fromStoreId === input.toStoreId) {
+    errors.push('A transfer must go to a different store')
+  }
+
+  if (!Array.isArray(input.items) || input.items.length === 0) {
+    errors.push('items must list at least one product')
+    return errors
+  }
+  const seen = new Set<string>()
+  input.items.forEach((item, index) => {
+    if (!item.productId) {
+      errors.push(`Item ${index + 1}: productId is required`)
+    } else if (seen.has(item.productId)) {
+      errors.push(`Item ${index + 1}: ${item.productId} is already on this transfer`)
+    } else {
+      seen.add(item.productId)
+    }
+    if (!isCount(item.quantity) || item.quantity === 0) {
+      errors.push(`Item ${index + 1}: quantity must be a whole number more than zero`)
+    }
+  })
+
+  return errors
+}
+
+/**
+ * Validates what is being shipped against the lines requested.
+ * Returns a list of human-readable problems; an empty list means the shipment is valid.
+ */
+export function validateShipment(
+  transfer: StockTransferRow,
+  input: ShipStockTransferData,
+): string[] {
+  const errors: string[] = []
+  const items = new Map(transfer.items.map((item) => [item.id, item]))
+
+  for (const entry of input.items || []) {
+    const item = items.get(entry.itemId)
+    if (!item) {
+      errors.push(`${entry.itemId} is not a line on this transfer`)
+      continue
+    }
+    if (entry.quantityShipped !== undefined) {
+      if (!isCount(entry.quantityShipped)) {
+        errors.push(`${item.product.sku}: quantityShipped must be a whole number of zero or more`)
+      } else if (entry.quantityShipped > item.quantityRequested) {
+        errors.push(
+          `${item.product.sku}: cannot ship more than the ${item.quantityRequested} requested`,
+        )
+      }
+    }
+    if (entry.expirationDate !== undefined && !parseBusinessDate(entry.expirationDate)) {
+      errors.push(`${item.product.sku}: expirationDate must be a date in YYYY-MM-DD form`)
+    }
+  }
+
+  if (
+    errors.length === 0 &&
+    resolveShipment(transfer, input).every((line) => line.quantity === 0)
+  ) {
+    errors.push('A transfer must ship at least one unit')
+  }
+  return errors
+}
+
+/**
+ * Validates what was counted in at the destination.
+ * Returns a list of human-readable problems; an empty list means the receipt is valid.
+ */
+export function validateReceipt(
+  transfer: StockTransferRow,
+  input: ReceiveStockTransferData,
+): string[] {
+  const errors: string[] = []
+  const items = new Map(transfer.items.map((item) => [item.id, item]))
+
+  for (const entry of input.items || []) {
+    const item = items.get(entry.itemId)
+    if (!item) {
+      errors.push(`${entry.itemId} is not a line on this transfer`)
+    } else if (!isCount(entry.quantityReceived)) {
+      errors.push(`${item.product.sku}: quantityReceived must be a whole number of zero or more`)
+    } else if (
+      entry.quantityReceived !== (item.quantityShipped ?? 0) &&
+      !entry.discrepancyNote?.trim()
+    ) {
+      errors.push(
+        `${item.product.sku}: a note is required when ${entry.quantityReceived} received does not match ${item.quantityShipped ?? 0} shipped`,
+      )
+    }
+  }
+
+  return errors
+}
+
+// Each line as it will ship: the quantity requested unless told otherwise, with the product's lot and expiry
+function resolveShipment(transfer: StockTransferRow, input: ShipStockTransferData) {
+  const entries = new Map((input.items || []).map((entry) => [entry.itemId, entry]))
+  return transfer.items.map((item) => {
+    const entry = entries.get(item.id)
+    return {
+      item,
+      quantity: entry?.quantityShipped ?? item.quantityRequested,
+      lotNumber: entry?.lotNumber ?? item.product.lotNumber,
+      expirationDate: entry?.expirationDate
+        ? parseBusinessDate(entry.expirationDate)
+        : item.product.expirationDate,
+    }
+  })
+}
+
+/**
+ * Moves a transfer on to its next step, provided it is still in one of the
+ * states that step starts from. Guards against two people acting on the same
+ * transfer at once.
+ */
+export async function advanceStockTransfer(
+  tx: Prisma.TransactionClient,
+  transferId: string,
+  from: StockTransferStatus[],
+  data: Prisma.StockTransferUncheckedUpdateManyInput & { status: StockTransferStatus },
+): Promise<void> {
+  const { count } = await tx.stockTransfer.updateMany({
+    where: { id: transferId, status: { in: from } },
+    data,
+  })
+  if (count === 0) {
+    throw new StockTransferError(`Only ${from.join(' or ')} transfers can move to ${data.status}`)
+  }
+}
+
+/**
+ * Ships an approved transfer: each line's stock leaves the source store with
+ * its lot and expiry, and the transfer is in transit. Must run inside a
+ * transaction, so a line the source cannot cover rolls the whole shipment back.
+ */
+export async function shipStockTransfer(
+  tx: Prisma.TransactionClient,
+  transfer: StockTransferRow,
+  input: ShipStockTransferData,
+  userId: string,
+): Promise<void> {
+  await advanceStockTransfer(tx, transfer.id, ['APPROVED'], {
+    status: 'IN_TRANSIT',
+    shippedById: userId,
+    shippedAt: new Date(),
+  })
+
+  for (const line of resolveShipment(transfer, input)) {
+    await tx.stockTransferItem.update({
+      where: { id: line.item.id },
+      data: {
+        quantityShipped: line.quantity,
+        lotNumber: line.lotNumber,
+        expirationDate: line.expirationDate,
+      },
+    })
+    await postInventoryMovement(tx, {
+      productId: line.item.productId,
+      storeId: transfer.fromStoreId,
+      movementType: 'TRANSFER',
+      reasonCode: 'TRANSFERRED',
+      quantity: -line.quantity,
+      userId,
+      stockTransferId: transfer.id,
+      reference: transferReference(transfer.transferNumber),
+      lotNumber: line.lotNumber,
+      expirationDate: line.expirationDate,
+      notes: `To ${transfer.toStore.storeName}`,
+    })
+  }
+}
+
+/**
+ * Receives a transfer in transit: what was counted in is added to the
+ * destination store under the lot and expiry it shipped with. Units short are
+ * left as lost in transit; the note on each line says why.
+ */
+export async function receiveStockTransfer(
+  tx: Prisma.TransactionClient,
+  transfer: StockTransferRow,
+  input: ReceiveStockTransferData,
+  userId: string,
+): Promise<void> {
+  await advanceStockTransfer(tx, transfer.id, ['IN_TRANSIT'], {
+    status: 'RECEIVED',
+    receivedById: userId,
+    receivedAt: new Date(),
+  })
+
+  const entries = new Map((input.items || []).map((entry) => [entry.itemId, entry]))
+  for (const item of transfer.items) {
+    const entry = entries.get(item.id)
+    const quantityReceived = entry?.quantityReceived ?? item.quantityShipped ?? 0
+    await tx.stockTransferItem.update({
+      where: { id: item.id },
+      data: { quantityReceived, discrepancyNote: entry?.discrepancyNote?.trim() || null },
+    })
+    await postInventoryMovement(tx, {
+      productId: item.productId,
+      storeId: transfer.toStoreId,
+      movementType: 'TRANSFER',
+      reasonCode: 'TRANSFERRED',
+      quantity: quantityReceived,
+      userId,
+      stockTransferId: transfer.id,
+      reference: transferReference(transfer.transferNumber),
+      lotNumber: item.lotNumber,
+      expirationDate: item.expirationDate,
+      notes: `From ${transfer.fromStore.storeName}`,
+    })
+  }
+}
+
+// Received lines whose count did not match what was shipped
+export function findTransferDiscrepancies(transfer: StockTransferRow): StockTransferDiscrepancy[] {
+  if (!transfer.receivedAt) return []
+  const receivedAt = transfer.receivedAt.toISOString()
+  return transfer.items
+    .filter((item) => (item.quantityReceived ?? 0) !== (item.quantityShipped ?? 0))
+    .map((item) => ({
+      transferId: transfer.id,
+      reference: transferReference(transfer.transferNumber),
+      fromStoreName: transfer.fromStore.storeName,
+      productId: item.productId,
+      sku: item.product.sku,
+      name: item.product.name,
+      quantityShipped: item.quantityShipped ?? 0,
+      quantityReceived: item.quantityReceived ?? 0,
+      difference: (item.quantityReceived ?? 0) - (item.quantityShipped ?? 0),
+      note: item.discrepancyNote,
+      receivedAt,
+    }))
+}
+
+export function toStockTransferResponse(row: StockTransferRow): StockTransferResponse {
+  return {
+    id: row.id,
+    reference: transferReference(row.transferNumber),
+    fromStoreId: row.fromStoreId,
+    fromStoreName: row.fromStore.storeName,
+    toStoreId: row.toStoreId,
+    toStoreName: row.toStore.storeName,
+    status: row.status,
+    requestedById: row.requestedById,
+    approvedById: row.approvedById,
+    approvedAt: row.approvedAt?.toISOString() || null,
+    shippedById: row.shippedById,
+    shippedAt: row.shippedAt?.toISOString() || null,
+    receivedById: row.receivedById,
+    receivedAt: row.receivedAt?.toISOString() || null,
+    cancelledAt: row.cancelledAt?.toISOString() || null,
+    notes: row.notes,
+    createdAt: row.createdAt.toISOString(),
+    items: row.items.map((item) => ({
+      id: item.id,
+      productId: item.productId,
+      sku: item.product.sku,
+      name: item.product.name,
+      quantityRequested: item.quantityRequested,
+      quantityShipped: item.quantityShipped,
+      quantityReceived: item.quantityReceived,
+      lotNumber: item.lotNumber,
+      expirationDate: formatDate(item.expirationDate),
+      discrepancy:
+        item.quantityReceived === null ? null : item.quantityReceived - (item.quantityShipped ?? 0),
+      discrepancyNote: item.discrepancyNote,
+    })),
+  }
+}
+
+const totalTransfers = (
+  transfers: StockTransferRow[],
+  units: (item: StockTransferItem) => number,
+) =>
+  transfers.reduce<StockTransferTotals>(
+    (totals, transfer) => ({
+      transfers: totals.transfers + 1,
+      units: totals.units + transfer.items.reduce((sum, item) => sum + units(item), 0),
+    }),
+    { transfers: 0, units: 0 },
+  )
+
+/**
+ * A store's transfers over a run of business days: stock it shipped out and
+ * received in during the period, what it received short or over, and what is
+ * in transit to or from it now.
+ */
+export async function buildStockTransferReport(
+  client: Prisma.TransactionClient,
+  params: {
+    store: { id: string; storeName: string; timezone: string }
+    startDate: Date
+    endDate: Date
+  },
+): Promise<StockTransferReport> {
+  const { store, startDate, endDate } = params
+  const period = {
+    gte: getBusinessDateRange(startDate, store.timezone).start,
+    lt: getBusinessDateRange(endDate, store.timezone).end,
+  }
+  const inPeriod = (date: Date | null) => !!date && date >= period.gte && date < period.lt
+
+  const transfers: StockTransferRow[] = await client.stockTransfer.findMany({
+    where: {
+      OR: [
+        { fromStoreId: store.id, shippedAt: period },
+        { toStoreId: store.id, receivedAt: period },
+        { status: 'IN_TRANSIT', OR: [{ fromStoreId: store.id }, { toStoreId: store.id }] },
+      ],
+    },
+    include: stockTransferInclude,
+    orderBy: { transferNumber: 'asc' },
+  })
+
+  const shippedOut = transfers.filter((t) => t.fromStoreId === store.id && inPeriod(t.shippedAt))
+  const receivedIn = transfers.filter((t) => t.toStoreId === store.id && inPeriod(t.receivedAt))
+  const inTransit = transfers.filter((t) => t.status === 'IN_TRANSIT')
+  const shipped = (item: StockTransferItem) => item.quantityShipped ?? 0
+
+  return {
+    storeId: store.id,
+    storeName: store.storeName,
+    startDate: formatBusinessDate(startDate),
+    endDate: formatBusinessDate(endDate),
+    shippedOut: totalTransfers(shippedOut, shipped),
+    receivedIn: totalTransfers(receivedIn, (item) => item.quantityReceived ?? 0),
+    inTransitOut: totalTransfers(
+      inTransit.filter((t) => t.fromStoreId === store.id),
+      shipped,
+    ),
+    inTransitIn: totalTransfers(
+      inTransit.filter((t) => t.toStoreId === store.id),
+      shipped,
+    ),
+    discrepancies: receivedIn.flatMap(findTransferDiscrepancies),
+    transfers: transfers.map(toStockTransferResponse),
+  }
+}
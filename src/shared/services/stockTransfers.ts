@@ -0,0 +1,66 @@
+import { api } from './api'
+import type {
+  CreateStockTransferData,
+  ReceiveStockTransferData,
+  ShipStockTransferData,
+  StockTransferDiscrepancy,
+  StockTransferQuery,
+  StockTransferResponse
+} from '../types/stockTransfers'
+
+export interface TransferStore {
+  id: string
+  storeName: string
+}
+
+export const stockTransfersService = {
+  // Active stores stock can be sent to or from
+  async getStores(): Promise<TransferStore[]> {
+    const response = await api.get('/api/stock-transfers/stores')
+    return response.data.stores
+  },
+
+  // Transfers to or from the user's store, newest first
+  async getTransfers(query: StockTransferQuery = {}): Promise<StockTransferResponse[]> {
+    const response = await api.get('/api/stock-transfers', { params: query })
+    return response.data.transfers
+  },
+
+  async getTransfer(id: string): Promise<StockTransferResponse> {
+    const response = await api.get(`/api/stock-transfers/${id}`)
+    return response.data.transfer
+  },
+
+  // Request stock from one store for another
+  async createTransfer(data: CreateStockTransferData): Promise<StockTransferResponse> {
+    const response = await api.post('/api/stock-transfers', data)
+    return response.data.transfer
+  },
+
+  // Approve a request; only someone with access to the source store can
+  async approveTransfer(id: string): Promise<StockTransferResponse> {
+    const response = await api.post(`/api/stock-transfers/${id}/approve`)
+    return response.data.transfer
+  },
+
+  // Ship an approved transfer; its stock leaves the source store
+  async shipTransfer(id: string, data: ShipStockTransferData = {}): Promise<StockTransferResponse> {
+    const response = await api.post(`/api/stock-transfers/${id}/ship`, data)
+    return response.data.transfer
+  },
+
+  // Receive a transfer at the destination, with what was counted in
+  async receiveTransfer(id: string, data: ReceiveStockTransferData = {}): Promise<{
+    transfer: StockTransferResponse
+    discrepancies: StockTransferDiscrepancy[]
+  }> {
+    const response = await api.post(`/api/stock-transfers/${id}/receive`, data)
+    return response.data
+  },
+
+  // Cancel a transfer that has not shipped
+  async cancelTransfer(id: string, reason?: string): Promise<StockTransferResponse> {
+    const response = await api.post(`/api/stock-transfers/${id}/cancel`, { reason })
+    return response.data.transfer
+  }
+}
@@ -0,0 +1,112 @@
+import type { Prisma, PrismaClient, Product, StoreInventory } from '../../generated/prisma'
+
+/**
+ * Stock kept per store.
+ *
+ * Each store has its own quantity on hand for a product, and may set its own
+ * reorder point in place of the product's. Product.quantity stays as the total
+ * across every store, for catalog screens that are not looking at one store.
+ *
+ * Reads that belong to a store load its StoreInventory row alongside the
+ * product and present the product with that store's figures, so the register
+ * and the catalog see the stock of the store they are in.
+ */
+
+type StoreStock = Pick<StoreInventory, 'quantity' | 'minStockLevel'>
+
+export type ProductWithStoreStock = Product & { storeInventory: StoreStock[] }
+
+// Loads one store's stock alongside a product
+export function storeStockInclude(storeId: string) {
+  return {
+    storeInventory: {
+      where: { storeId },
+      select: { quantity: true, minStockLevel: true },
+    },
+  } satisfies Prisma.ProductInclude
+}
+
+/**
+ * A product as one store sees it: that store's quantity on hand, none if it
+ * has never stocked it, and its own reorder point if it has set one
+ */
+export function withStoreStock(product: ProductWithStoreStock): Product {
+  const { storeInventory, ...rest } = product
+  const stock = storeInventory[0]
+  return {
+    ...rest,
+    quantity: stock?.quantity ?? 0,
+    minStockLevel: stock?.minStockLevel ?? rest.minStockLevel,
+  }
+}
+
+/**
+ * Ids of active products at or below their reorder point, emptiest first.
+ * With a store, each is judged by that store's stock; without, by the total.
+ */
+export async function findLowStockProductIds(
+  client: Prisma.TransactionClient,
+  storeId?: string,
+): Promise<string[]> {
+  const rows = storeId
+    ? await client.$queryRaw<{ id: string }[]>`
+        SELECT p.id FROM products p
+        LEFT JOIN store_inventory si ON si.product_id = p.id AND si.store_id = ${storeId}
+        WHERE p.is_active = true
+        AND COALESCE(si.quantity, 0) <= COALESCE(si.min_stock_level, p.min_stock_level)
+        ORDER BY (COALESCE(si.quantity, 0) - COALESCE(si.min_stock_level, p.min_stock_level)) ASC
+      `
+    : await client.$queryRaw<{ id: string }[]>`
+        SELECT id FROM products
+        WHERE quantity <= min_stock_level
+        AND is_active = true
+        ORDER BY (quantity - min_stock_level) ASC
+      `
+  return rows.map((row) => row.id)
+}
+
+/**
+ * Sets a store's own reorder point for a product; null goes back to the
+ * product's
+ */
+export async function setStoreMinStockLevel(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  storeId: string,
+  minStockLevel: number | null,
+): Promise<void> {
+  await tx.storeInventory.upsert({
+    where: { productId_storeId: { productId, storeId } },
+    create: { productId, storeId, minStockLevel },
+    update: { minStockLevel },
+  })
+}
+
+/**
+ * Puts stock from before it was kept per store into one store: products not
+ * yet stocked at any store get their quantity there, and movements without a
+ * store are filed under it. Safe to run more than once.
+ */
+export async function assignStockToStore(
+  client: PrismaClient,
+  storeId: string,
+): Promise<{ products: number; movements: number }> {
+  return client.$transaction(async (tx) => {
+    const products = await tx.product.findMany({
+      where: { storeInventory: { none: {} } },
+      select: { id: true, quantity: true },
+    })
+    await tx.storeInventory.createMany({
+      data: products.map((product) => ({
+        productId: product.id,
+        storeId,
+        quantity: product.quantity,
+      })),
+    })
+    const movements = await tx.inventoryMovement.updateMany({
+      where: { storeId: null },
+      data: { storeId },
+    })
+    return { products: products.length, movements: movements.count }
+  })
+}
@@ -1,4 +1,13 @@
 import { api } from './api'
+import type { TaxBreakdown } from '../types/transactions'
+import {
+  getStateTaxRate,
+  getSpecialTaxRate,
+  isCategoryTaxExempt,
+  TOBACCO_PRODUCT_CATEGORIES
+} from '../utils/taxRates'
+
+export type { TaxBreakdown }
 
 export interface TaxJurisdiction {
   code: string
@@ -11,21 +20,6 @@ export interface TaxJurisdiction {
   maxAmount?: number // Maximum tax amount
 }
 
-export interface TaxBreakdown {
-  subtotal: number
-  jurisdictions: {
-    code: string
-    name: string
-    type: string
-    rate: number
-    taxableAmount: number
-    taxAmount: number
-  }[]
-  totalTaxAmount: number
-  totalAmount: number
-  exemptAmount?: number
-}
-
 export interface TaxCalculationRequest {
   subtotal: number
   storeZipCode: string
@@ -144,36 +138,12 @@ export const taxCalculationService = {
 
   // Get state tax rates (simplified)
   getStateTaxRate(state: string): number {
-    const stateTaxRates: Record<string, number> = {
-      'AL': 0.04, 'AK': 0.00, 'AZ': 0.056, 'AR': 0.065, 'CA': 0.075,
-      'CO': 0.029, 'CT': 0.0635, 'DE': 0.00, 'FL': 0.06, 'GA': 0.04,
-      'HI': 0.04, 'ID': 0.06, 'IL': 0.0625, 'IN': 0.07, 'IA': 0.06,
-      'KS': 0.065, 'KY': 0.06, 'LA': 0.045, 'ME': 0.055, 'MD': 0.06,
-      'MA': 0.0625, 'MI': 0.06, 'MN': 0.0688, 'MS': 0.07, 'MO': 0.0423,
-      'MT': 0.00, 'NE': 0.055, 'NV': 0.0685, 'NH': 0.00, 'NJ': 0.0663,
-      'NM': 0.0513, 'NY': 0.08, 'NC': 0.0475, 'ND': 0.05, 'OH': 0.0575,
-      'OK': 0.045, 'OR': 0.00, 'PA': 0.06, 'RI': 0.07, 'SC': 0.06,
-      'SD': 0.045, 'TN': 0.07, 'TX': 0.0625, 'UT': 0.061, 'VT': 0.06,
-      'VA': 0.053, 'WA': 0.065, 'WV': 0.06, 'WI': 0.05, 'WY': 0.04
-    }
-    return stateTaxRates[state] || 0.08 // Default 8%
+    return getStateTaxRate(state)
   },
 
   // Get special tax rates (tobacco, alcohol, etc.)
   getSpecialTaxRate(state: string, category: 'tobacco' | 'alcohol'): number {
-    if (category === 'tobacco') {
-      // Tobacco tax rates vary significantly by state
-      const tobaccoTaxRates: Record<string, number> = {
-        'NY': 0.20, // 20% additional tax on tobacco
-        'CA': 0.15,
-        'TX': 0.10,
-        'FL': 0.12,
-        'IL': 0.18
-      }
-      return tobaccoTaxRates[state] || 0.05 // Default 5% tobacco tax
-    }
-    
-    return 0
+    return getSpecialTaxRate(state, category)
   },
 
   // Get default jurisdictions for a state
@@ -193,7 +163,7 @@ export const taxCalculationService = {
         name: `${state} Tobacco Tax`,
         type: 'state',
         rate: tobaccoTaxRate,
-        applicableProducts: ['tobacco', 'vape', 'e-cigarette']
+        applicableProducts: TOBACCO_PRODUCT_CATEGORIES
       }
     ]
   },
@@ -260,12 +230,6 @@ export const taxCalculationService = {
 
   // Check if product category is tax exempt in a state
   isCategoryTaxExempt(category: string, state: string): boolean {
-    const exemptCategories: Record<string, string[]> = {
-      'MT': ['clothing', 'food'], // Montana exempts clothing and food
-      'OR': ['food', 'medicine'], // Oregon exempts food and medicine
-      'NH': ['food', 'medicine', 'clothing'] // New Hampshire broader exemptions
-    }
-
-    return exemptCategories[state]?.includes(category) || false
+    return isCategoryTaxExempt(category, state)
   }
 }
\ No newline at end of file
@@ -0,0 +1,204 @@
+import type { ComplianceRule, Product } from '../../generated/prisma'
+import type { ComplianceRuleDetails } from '../types/database'
+import type { TaxBreakdown, TaxJurisdictionAmount, LineTaxQuote } from '../types/transactions'
+import { isLineInScope } from './complianceEngine'
+import { calculateExciseForLine, exciseComponentFromRule } from './exciseTax'
+import {
+  getStateTaxRate,
+  getSpecialTaxRate,
+  isCategoryTaxExempt,
+  TOBACCO_PRODUCT_CATEGORIES,
+} from '../utils/taxRates'
+import { roundCurrency, toAmount } from '../utils/money'
+
+export interface TaxLocation {
+  stateCode: string
+}
+
+const JURISDICTION_LABELS: Record<string, string> = {
+  FEDERAL: 'Federal',
+  STATE: 'State',
+  COUNTY: 'County',
+  CITY: 'City',
+}
+
+// A priced cart line as seen by the tax engine
+export interface TaxableLine {
+  productId: string
+  productName: string
+  category: string | null
+  ageRestricted: boolean
+  quantity: number
+  amount: number
+
+  // Product facts used by per-ml, per-cartridge and wholesale excise formulas
+  unitCost?: number | null
+  volumeInMl?: number | null
+  numCartridges?: number | null
+  isClosedSystem?: boolean | null
+  isSyntheticNicotine?: boolean
+}
+
+/**
+ * Builds the tax engine's view of a cart line from the product record
+ */
+export function toTaxableLine(product: Product, quantity: number, amount: number): TaxableLine {
+  return {
+    productId: product.id,
+    productName: product.name,
+    category: product.category,
+    ageRestricted: product.ageRestricted,
+    quantity,
+    amount,
+    unitCost: product.cost === null ? null : toAmount(product.cost),
+    volumeInMl: product.volumeInMl === null ? null : toAmount(product.volumeInMl),
+    numCartridges: product.numCartridges,
+    isClosedSystem: product.isClosedSystem,
+    isSyntheticNicotine: product.isSyntheticNicotine,
+  }
+}
+
+export interface TransactionTax {
+  lines: LineTaxQuote[]
+  breakdown: TaxBreakdown
+}
+
+/**
+ * Nicotine products carry the special tobacco tax: anything age-restricted,
+ * plus any product filed under a tobacco category.
+ */
+export function isTobaccoProduct(line: Pick<TaxableLine, 'category' | 'ageRestricted'>): boolean {
+  if (line.ageRestricted) return true
+  const category = (line.category || '').toLowerCase()
+  return TOBACCO_PRODUCT_CATEGORIES.some((tobaccoCategory) => category.includes(tobaccoCategory))
+}
+
+/**
+ * Calculates per-line tax for a cart at a store location.
+ *
+ * Every taxable line pays state sales tax from the built-in rate table.
+ * Tobacco products also pay nicotine excise (see exciseTax.ts) or, for
+ * states without an excise formula, the flat state tobacco tax. A STATE-level
+ * TAX_RATE rule covering the line replaces both. COUNTY and CITY TAX_RATE
+ * rules add their own jurisdiction lines.
+ */
+export function calculateTransactionTax(
+  location: TaxLocation,
+  lines: TaxableLine[],
+  taxRules: ComplianceRule[],
+): TransactionTax {
+  const state = location.stateCode.toUpperCase()
+  const salesRate = getStateTaxRate(state)
+  const rateRules = taxRules.filter((rule) => rule.ruleType === 'TAX_RATE')
+
+  const quotedLines: LineTaxQuote[] = []
+  let exemptAmount = 0
+
+  for (const line of lines) {
+    const category = (line.category || '').toLowerCase()
+    const taxDetails: TaxJurisdictionAmount[] = []
+
+    if (isCategoryTaxExempt(category, state)) {
+      exemptAmount += line.amount
+      quotedLines.push({
+        productId: line.productId,
+        lineTotal: line.amount,
+        taxAmount: 0,
+        taxDetails,
+      })
+      continue
+    }
+
+    const addTax = (entry: Omit<TaxJurisdictionAmount, 'taxableAmount' | 'taxAmount'>) => {
+      if (entry.rate <= 0) return
+      taxDetails.push({
+        ...entry,
+        taxableAmount: line.amount,
+        taxAmount: roundCurrency(line.amount * entry.rate),
+      })
+    }
+
+    addTax({ code: `${state}_SALES`, name: `${state} Sales Tax`, type: 'state', rate: salesRate })
+
+    const rulesInScope = rateRules.filter((rule) =>
+      isLineInScope(
+        { ...line, flavorProfile: null },
+        (rule.ruleDetails || {}) as ComplianceRuleDetails,
+      ),
+    )
+    const exciseRules = rulesInScope.filter((rule) =>
+      exciseComponentFromRule((rule.ruleDetails || {}) as ComplianceRuleDetails),
+    )
+    const applicableRules = rulesInScope.filter((rule) => {
+      const details = (rule.ruleDetails || {}) as ComplianceRuleDetails
+      return details.taxType === 'PERCENTAGE' && (details.basis || 'RETAIL') === 'RETAIL'
+    })
+
+    const stateRuleApplies = applicableRules.some((rule) => rule.jurisdictionType === 'STATE')
+    if (isTobaccoProduct(line)) {
+      const excise = calculateExciseForLine(state, line, exciseRules, !stateRuleApplies)
+      if (excise) {
+        taxDetails.push(...excise)
+      } else if (!stateRuleApplies) {
+        addTax({
+          code: `${state}_TOBACCO`,
+          name: `${state} Tobacco Tax`,
+          type: 'state',
+          rate: getSpecialTaxRate(state, 'tobacco'),
+        })
+      }
+    }
+
+    for (const rule of applicableRules) {
+      const details = rule.ruleDetails as ComplianceRuleDetails
+      addTax({
+        code: `${rule.jurisdictionCode}_${rule.jurisdictionType}_TAX`,
+        name: `${rule.jurisdictionCode} ${JURISDICTION_LABELS[rule.jurisdictionType]} Tax`,
+        type: rule.jurisdictionType.toLowerCase(),
+        rate: details.rate || 0,
+      })
+    }
+
+    quotedLines.push({
+      productId: line.productId,
+      lineTotal: line.amount,
+      taxAmount: roundCurrency(taxDetails.reduce((sum, detail) => sum + detail.taxAmount, 0)),
+      taxDetails,
+    })
+  }
+
+  return {
+    lines: quotedLines,
+    breakdown: summariseTax(quotedLines, exemptAmount),
+  }
+}
+
+/**
+ * Rolls per-line tax details up into a transaction-level breakdown by jurisdiction
+ */
+export function summariseTax(lines: LineTaxQuote[], exemptAmount = 0): TaxBreakdown {
+  const byCode = new Map<string, TaxJurisdictionAmount>()
+
+  for (const line of lines) {
+    for (const detail of line.taxDetails) {
+      const existing = byCode.get(detail.code)
+      if (existing) {
+        existing.taxableAmount = roundCurrency(existing.taxableAmount + detail.taxableAmount)
+        existing.taxAmount = roundCurrency(existing.taxAmount + detail.taxAmount)
+      } else {
+        byCode.set(detail.code, { ...detail })
+      }
+    }
+  }
+
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.lineTotal, 0))
+  const totalTaxAmount = roundCurrency(lines.reduce((sum, line) => sum + line.taxAmount, 0))
+
+  return {
+    subtotal,
+    jurisdictions: Array.from(byCode.values()),
+    totalTaxAmount,
+    totalAmount: roundCurrency(subtotal + totalTaxAmount),
+    exemptAmount: exemptAmount > 0 ? roundCurrency(exemptAmount) : undefined,
+  }
+}
@@ -2,8 +2,15 @@ import { api } from './api'
 import type { 
   CreateTransactionData, 
   TransactionResponse, 
-  AgeVerificationData 
+  CalculateTaxRequest,
+  CartQuote,
+  CartQuoteRequest,
+  CreateReturnData,
+  ReturnResult,
+  VoidTransactionData,
+  TaxQuote
 } from '../types/transactions'
+import type { AgeVerificationRequest, AgeVerificationResult } from '../types/ageVerification'
 
 export const transactionService = {
   // Create a new transaction (checkout)
@@ -12,6 +19,18 @@ export const transactionService = {
     return response.data.transaction
   },
 
+  // Return or exchange lines from an earlier sale
+  async returnTransaction(id: string, data: CreateReturnData): Promise<ReturnResult> {
+    const response = await api.post(`/api/transactions/${id}/return`, data)
+    return response.data
+  },
+
+  // Void a sale from today; cashiers pass a manager's credentials
+  async voidTransaction(id: string, data: VoidTransactionData): Promise<TransactionResponse> {
+    const response = await api.post(`/api/transactions/${id}/void`, data)
+    return response.data.transaction
+  },
+
   // Get transaction by ID
   async getTransaction(id: string): Promise<TransactionResponse> {
     const response = await api.get(`/api/transactions/${id}`)
@@ -27,18 +46,20 @@ export const transactionService = {
   },
 
   // Process age verification
-  async processAgeVerification(data: AgeVerificationData) {
+  async processAgeVerification(data: AgeVerificationRequest): Promise<AgeVerificationResult> {
     const response = await api.post('/api/age-verification', data)
     return response.data
   },
 
-  // Calculate tax for transaction
-  async calculateTax(subtotal: number, storeId?: string, customerId?: string) {
-    const response = await api.post('/api/transactions/calculate-tax', {
-      subtotal,
-      storeId,
-      customerId
-    })
+  // Calculate tax for a cart (server-side, per store jurisdiction)
+  async calculateTax(data: CalculateTaxRequest): Promise<TaxQuote> {
+    const response = await api.post('/api/transactions/calculate-tax', data)
+    return response.data
+  },
+
+  // Price a cart exactly as checkout would, without saving it
+  async quoteTransaction(data: CartQuoteRequest): Promise<CartQuote> {
+    const response = await api.post('/api/transactions/quote', data)
     return response.data
   },
 
@@ -0,0 +1,76 @@
+import type { ManagerCredentials } from './auth'
+import type { OutOfStateIdPolicy } from './database'
+
+export type IdType = 'drivers_license' | 'state_id' | 'passport' | 'military_id'
+
+export type VerificationMethod = 'manual' | 'scanner' | 'digital'
+
+export interface ScannerData {
+  model?: string
+  softwareVersion?: string
+  confidenceScore?: number
+  rawData?: unknown
+}
+
+// What the register submits after checking an ID; age and outcome are worked out on the server
+export interface AgeVerificationRequest {
+  customerId?: string
+  idType: IdType
+  idIssuingState?: string
+  idExpirationDate: string // YYYY-MM-DD
+  customerDob: string // YYYY-MM-DD
+  verificationMethod: VerificationMethod
+  scannerData?: ScannerData
+  storeId?: string
+}
+
+export interface AgeVerificationResult {
+  isVerified: boolean
+  verificationId: string
+  calculatedAge: number
+  minAge: number
+  reasonForDenial?: string
+  requiresManagerOverride?: boolean
+  complianceWarnings?: string[]
+  managerOverride?: boolean
+  verifiedAt: string
+}
+
+export interface AgeVerificationOverrideRequest {
+  verificationId: string
+  reason: string
+  notes?: string
+  // Needed when the signed-in user cannot approve overrides themselves
+  managerCredentials?: ManagerCredentials
+}
+
+export interface AgeVerificationHistoryEntry {
+  id: string
+  verificationDate: string
+  customerId: string | null
+  transactionId: string | null
+  employeeId: string
+  storeId: string
+  idType: string | null
+  idIssuingState: string | null
+  calculatedAge: number | null
+  isVerified: boolean
+  verificationMethod: string | null
+  reasonForDenial: string | null
+  managerOverride: boolean
+  overrideManagerId: string | null
+  overrideReason: string | null
+}
+
+// The ID rules in force at a store, resolved from its AGE_VERIFICATION compliance rules
+export interface AgeVerificationPolicy {
+  storeId: string
+  stateCode: string
+  minimumAge: number
+  // Card anyone who looks younger than this
+  requireIdUnder?: number
+  acceptableIdTypes: IdType[]
+  outOfStateIds: OutOfStateIdPolicy
+  // Rules the policy was built from; empty when only the federal default applies
+  ruleIds: string[]
+}
@@ -0,0 +1,173 @@
+export interface AuditLogEntry {
+  id?: string
+  timestamp: string
+  userId: string
+  userRole: string
+  storeId: string
+  action: AuditAction
+  entityType: AuditEntityType
+  entityId?: string
+  details: Record<string, unknown>
+  metadata?: {
+    ipAddress?: string
+    userAgent?: string
+    sessionId?: string
+    clientVersion?: string
+  }
+  severity: AuditSeverity
+  // Set by the server: position in the store's hash chain and the hashes linking it
+  sequence?: number
+  previousHash?: string
+  entryHash?: string
+}
+
+export type AuditAction =
+  // Authentication actions
+  | 'login'
+  | 'logout'
+  | 'login_failed'
+  | 'password_changed'
+  | 'account_locked'
+  // Product actions
+  | 'product_created'
+  | 'product_updated'
+  | 'product_deleted'
+  | 'inventory_adjusted'
+  | 'inventory_received'
+  // Stock transfer actions
+  | 'stock_transfer_requested'
+  | 'stock_transfer_approved'
+  | 'stock_transfer_shipped'
+  | 'stock_transfer_received'
+  | 'stock_transfer_cancelled'
+  // Customer actions
+  | 'customer_created'
+  | 'customer_updated'
+  | 'customer_deleted'
+  | 'loyalty_points_adjusted'
+  // Gift card actions
+  | 'gift_card_issued'
+  | 'gift_card_reloaded'
+  | 'gift_card_redeemed'
+  | 'gift_card_refunded'
+  | 'gift_card_status_changed'
+  // Transaction actions
+  | 'transaction_created'
+  | 'transaction_voided'
+  | 'transaction_refunded'
+  | 'payment_processed'
+  | 'payment_failed'
+  | 'payment_refunded'
+  // Cash drawer actions
+  | 'cash_drawer_opened'
+  | 'cash_drawer_adjusted'
+  | 'cash_drawer_closed'
+  // Age verification actions
+  | 'age_verification_passed'
+  | 'age_verification_failed'
+  | 'manager_override_applied'
+  // System actions
+  | 'system_error'
+  | 'data_export'
+  | 'settings_changed'
+  | 'user_permissions_changed'
+  // Compliance actions
+  | 'tax_exemption_applied'
+  | 'compliance_violation'
+  | 'audit_report_generated'
+  | 'z_report_generated'
+  | 'z_report_reprinted'
+
+export type AuditEntityType =
+  | 'user'
+  | 'product'
+  | 'customer'
+  | 'transaction'
+  | 'payment'
+  | 'gift_card'
+  | 'cash_drawer'
+  | 'stock_transfer'
+  | 'age_verification'
+  | 'tax_calculation'
+  | 'system'
+  | 'report'
+
+export type AuditSeverity = 'low' | 'medium' | 'high' | 'critical'
+
+export interface AuditQuery {
+  startDate?: string
+  endDate?: string
+  userId?: string
+  storeId?: string
+  action?: AuditAction
+  entityType?: AuditEntityType
+  severity?: AuditSeverity
+  limit?: number
+  offset?: number
+}
+
+// Formats the server can export the audit log in
+export type AuditExportFormat = 'csv' | 'json'
+
+export interface AuditQueryResult {
+  logs: AuditLogEntry[]
+  totalCount: number
+  hasMore: boolean
+}
+
+export interface AuditSummary {
+  totalEvents: number
+  criticalEvents: number
+  highSeverityEvents: number
+  loginEvents: number
+  transactionEvents: number
+  complianceEvents: number
+  recentEvents: AuditLogEntry[]
+}
+
+export interface AuditChainHead {
+  sequence: number
+  entryHash: string
+}
+
+export type AuditChainBreakReason =
+  | 'SEQUENCE_GAP'
+  | 'PREVIOUS_HASH_MISMATCH'
+  | 'HASH_MISMATCH'
+  | 'CHECKPOINT_SIGNATURE_INVALID'
+  | 'CHECKPOINT_MISMATCH'
+  | 'TRUNCATED'
+
+export interface AuditChainBreak {
+  reason: AuditChainBreakReason
+  sequence: number
+  entryId?: string
+  checkpointId?: string
+  message: string
+}
+
+export interface AuditChainVerification {
+  storeId: string
+  valid: boolean
+  entriesChecked: number
+  checkpointsChecked: number
+  head: AuditChainHead
+  firstBreak?: AuditChainBreak
+  verifiedAt: string
+}
+
+// A checkpoint as exported for inspectors; the signature covers every other field
+export interface SignedAuditCheckpoint {
+  storeId: string
+  businessDate: string
+  lastSequence: number
+  lastEntryHash: string
+  entryCount: number
+  signature: string
+}
+
+// JSON export: the entries plus the signed checkpoints for the same days
+export interface AuditExportBundle {
+  entries: AuditLogEntry[]
+  checkpoints: SignedAuditCheckpoint[]
+}
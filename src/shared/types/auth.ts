@@ -63,6 +63,9 @@ export type Permission =
   | 'store:manage'
   | 'reports:view'
   | 'compliance:manage'
+  | 'offer:manage'
+  | 'loyalty:adjust'
+  | 'audit:view'
   | 'system:admin'
 
 // Role-based permissions mapping
@@ -91,6 +94,9 @@ export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     'user:read',
     'reports:view',
     'compliance:manage',
+    'offer:manage',
+    'loyalty:adjust',
+    'audit:view',
   ],
   ADMIN: [
     'transaction:create',
@@ -112,10 +118,19 @@ export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
     'store:manage',
     'reports:view',
     'compliance:manage',
+    'offer:manage',
+    'loyalty:adjust',
+    'audit:view',
     'system:admin',
   ],
 }
 
+// Credentials a manager keys in at the register to approve a restricted action
+export interface ManagerCredentials {
+  username: string
+  password: string
+}
+
 // Authentication errors
 export class AuthenticationError extends Error {
   constructor(
@@ -0,0 +1,67 @@
+import type { CashDrawerEventType, CashDrawerStatus } from './database'
+import type { ManagerCredentials } from './auth'
+
+export interface OpenCashDrawerData {
+  openingFloat: number
+  storeId?: string
+  notes?: string
+}
+
+export interface CashDrawerEventData {
+  eventType: CashDrawerEventType
+  amount: number
+  // Required for paid-ins and paid-outs, e.g. "Window cleaner"
+  reason?: string
+  // Needed for a paid-out when the signed-in user cannot approve one themselves
+  managerCredentials?: ManagerCredentials
+}
+
+// How many of each denomination were counted, keyed by face value, e.g. { "20": 4, "0.25": 12 }
+export type DenominationCount = Record<string, number>
+
+export interface CloseCashDrawerData {
+  denominations: DenominationCount
+  notes?: string
+}
+
+// Where the cash expected in a drawer came from
+export interface CashDrawerSummary {
+  openingFloat: number
+  cashSales: number
+  cashRefunds: number
+  // Cash taken selling and reloading gift cards
+  giftCardLoads: number
+  paidIn: number
+  paidOut: number
+  drops: number
+  expectedAmount: number
+}
+
+export interface CashDrawerEventResponse {
+  id: string
+  eventType: CashDrawerEventType
+  amount: number
+  reason: string | null
+  employeeId: string
+  approvedById: string | null
+  createdAt: string
+}
+
+// A drawer session; expected cash and over/short are left out for the cashier's blind count
+export interface CashDrawerSessionResponse {
+  id: string
+  storeId: string
+  userId: string
+  status: CashDrawerStatus
+  openingFloat: number
+  openedAt: string
+  closedAt: string | null
+  closedById: string | null
+  countedAmount: number | null
+  denominationCount: DenominationCount | null
+  notes: string | null
+  events?: CashDrawerEventResponse[]
+  summary?: CashDrawerSummary
+  expectedAmount?: number | null
+  overShort?: number | null
+}
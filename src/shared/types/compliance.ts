@@ -0,0 +1,109 @@
+import type {
+  ComplianceRuleDetails,
+  EnforcementPriority,
+  JurisdictionType,
+  RuleType,
+} from './database'
+
+// A jurisdiction a store sits in, expressed the way ComplianceRule rows are keyed
+export interface JurisdictionRef {
+  jurisdictionType: JurisdictionType
+  jurisdictionCode: string
+}
+
+// The product attributes the rules engine evaluates for one cart line
+export interface ComplianceLineInput {
+  productId: string
+  productName: string
+  category: string | null
+  flavorProfile: string | null
+  ageRestricted: boolean
+  quantity: number
+}
+
+export interface ComplianceContext {
+  // Store timezone, used for time-of-day restrictions
+  timezone: string
+  // Moment the sale is being made
+  at: Date
+  // Units of each product this customer has already bought today (store-local day)
+  priorQuantitiesToday?: Record<string, number>
+}
+
+export interface ComplianceFlag {
+  ruleId: string
+  ruleType: RuleType
+  jurisdictionType: JurisdictionType
+  jurisdictionCode: string
+  enforcementPriority: EnforcementPriority
+  productId?: string
+  productName?: string
+  // true when the flag blocks the sale, false when it is only a warning
+  blocking: boolean
+  message: string
+}
+
+export interface ComplianceEvaluation {
+  passed: boolean
+  rulesEvaluated: number
+  ageVerificationRequired: boolean
+  minimumAge?: number
+  violations: ComplianceFlag[]
+  warnings: ComplianceFlag[]
+  evaluatedAt: string
+}
+
+// Admin API payloads
+
+export interface CreateComplianceRuleData {
+  ruleType: RuleType
+  jurisdictionType: JurisdictionType
+  jurisdictionCode: string
+  ruleDetails: ComplianceRuleDetails
+  effectiveDate: string // ISO date string
+  endDate?: string | null
+  ruleSource?: string
+  referenceUrl?: string
+  enforcementPriority?: EnforcementPriority
+}
+
+export type UpdateComplianceRuleData = Partial<Omit<CreateComplianceRuleData, 'ruleType'>>
+
+export interface ComplianceRuleResponse {
+  id: string
+  ruleType: RuleType
+  jurisdictionType: JurisdictionType
+  jurisdictionCode: string
+  ruleDetails: ComplianceRuleDetails
+  effectiveDate: string
+  endDate?: string | null
+  ruleSource?: string | null
+  referenceUrl?: string | null
+  enforcementPriority: EnforcementPriority
+  previousVersionId?: string | null
+  isActive: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ComplianceRuleOverlap {
+  ruleType: RuleType
+  rules: ComplianceRuleResponse[]
+}
+
+export interface ComplianceRulePreviewItem {
+  productId: string
+  productName: string
+  sku: string
+  category: string | null
+  flavorProfile: string | null
+  flags: ComplianceFlag[]
+}
+
+export interface ComplianceRulePreview {
+  productsEvaluated: number
+  productsInScope: number
+  blocked: ComplianceRulePreviewItem[]
+  warned: ComplianceRulePreviewItem[]
+  evaluatedAt: string
+}
@@ -1,4 +1,5 @@
 import type { LoyaltyTier } from './database'
+import type { ManagerCredentials } from './auth'
 
 export interface CreateCustomerData {
   firstName: string
@@ -31,9 +32,6 @@ export interface UpdateCustomerData {
   marketingOptIn?: boolean
   smsOptIn?: boolean
   dataRetentionConsent?: boolean
-  loyaltyPoints?: number
-  totalSpent?: number
-  loyaltyTier?: LoyaltyTier
   isActive?: boolean
 }
 
@@ -74,6 +72,8 @@ export interface CustomerSearchResult {
   phoneNumber?: string
   loyaltyTier: LoyaltyTier
   loyaltyPoints: number
+  // Refunds taken as store credit, spendable as a tender
+  storeCreditBalance: number
 }
 
 export interface CustomerListItem {
@@ -90,10 +90,13 @@ export interface CustomerListItem {
   createdAt: string
 }
 
+// A manual correction to a customer's points balance
 export interface LoyaltyPointsUpdate {
   points: number
   operation: 'earn' | 'redeem'
   reason: string
+  // Needed when the signed-in user cannot adjust points themselves
+  managerCredentials?: ManagerCredentials
 }
 
 export interface LoyaltyCalculation {
@@ -150,4 +153,4 @@ export interface CustomerTransaction {
     unitPrice: number
     lineTotal: number
   }[]
-}
\ No newline at end of file
+}
@@ -6,11 +6,29 @@ export type {
   Product,
   Customer,
   LoyaltyTier,
+  LoyaltyLedgerType,
   Transaction,
   TransactionType,
+  TransactionPayment,
+  CashDrawerSession,
+  CashDrawerStatus,
+  CashDrawerEvent,
+  CashDrawerEventType,
+  ZReport,
   PaymentMethod,
   PaymentStatus,
+  GiftCard,
+  GiftCardStatus,
+  GiftCardLedgerType,
   LineItem,
+  ReturnDisposition,
+  InventoryMovement,
+  StoreInventory,
+  InventoryMovementType,
+  InventoryReasonCode,
+  StockTransfer,
+  StockTransferItem,
+  StockTransferStatus,
   Offer,
   OfferType,
   TargetAudience,
@@ -66,11 +84,15 @@ export interface CreateLineItemData {
   ageVerificationRequired?: boolean
 }
 
+// How a store treats a driver license or state ID issued by another state
+export type OutOfStateIdPolicy = 'ACCEPT' | 'MANAGER_APPROVAL' | 'REJECT'
+
 export interface ComplianceRuleDetails {
   // Age verification rules
   minAge?: number
   requireIdUnder?: number
   acceptableIds?: string[]
+  outOfStateIds?: OutOfStateIdPolicy
 
   // Flavor ban rules
   bannedFlavors?: string[]
@@ -81,6 +103,8 @@ export interface ComplianceRuleDetails {
   taxType?: 'PERCENTAGE' | 'PER_ML' | 'PER_CARTRIDGE' | 'FIXED'
   rate?: number
   basis?: 'WHOLESALE' | 'RETAIL'
+  appliesTo?: 'ALL' | 'OPEN_SYSTEM' | 'CLOSED_SYSTEM'
+  excludeSyntheticNicotine?: boolean
 
   // Product restrictions
   maxQuantityPerTransaction?: number
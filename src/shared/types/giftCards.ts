@@ -0,0 +1,84 @@
+import type { GiftCardLedgerType, GiftCardStatus, PaymentMethod } from './database'
+import type { ManagerCredentials } from './auth'
+
+// Tenders a gift card can be bought or reloaded with
+export type GiftCardFundingMethod = Extract<PaymentMethod, 'CASH' | 'CARD'>
+
+export interface ActivateGiftCardData {
+  // Number printed on the card; generated when selling an unprinted card
+  cardNumber?: string
+  // 6 to 8 digits; generated and returned once when left out
+  pin?: string
+  amount: number
+  paymentMethod: GiftCardFundingMethod
+  // Card loads send the reference /api/payments/authorize returned for the amount
+  paymentReference?: string
+  customerId?: string
+  expiresAt?: string | null
+}
+
+export interface ReloadGiftCardData {
+  amount: number
+  paymentMethod: GiftCardFundingMethod
+  // Card loads send the reference /api/payments/authorize returned for the amount
+  paymentReference?: string
+}
+
+export interface GiftCardBalanceRequest {
+  cardNumber: string
+  pin: string
+}
+
+export interface RedeemGiftCardData {
+  pin: string
+  // May be less than the balance; the rest stays on the card
+  amount: number
+  transactionId?: string
+}
+
+export interface RefundToGiftCardData {
+  amount: number
+  reason: string
+  transactionId?: string
+  // Needed when the signed-in user cannot issue refunds themselves
+  managerCredentials?: ManagerCredentials
+}
+
+export interface UpdateGiftCardStatusData {
+  status: GiftCardStatus
+  reason: string
+}
+
+// A card as shown at the register; the full number is never sent back
+export interface GiftCardResponse {
+  id: string
+  maskedNumber: string
+  last4: string
+  balance: number
+  status: GiftCardStatus
+  expiresAt: string | null
+  storeId: string
+  customerId: string | null
+  createdAt: string
+}
+
+export interface GiftCardLedgerEntry {
+  id: string
+  entryType: GiftCardLedgerType
+  amount: number
+  balanceAfter: number
+  storeId: string
+  transactionId: string | null
+  receiptNumber: string | null
+  employeeId: string | null
+  paymentMethod: PaymentMethod | null
+  reason: string | null
+  createdAt: string
+}
+
+// Money held on cards, owed to their holders
+export interface GiftCardLiability {
+  outstandingBalance: number
+  cardCount: number
+  byStore: { storeId: string; outstandingBalance: number; cardCount: number }[]
+}
@@ -0,0 +1,72 @@
+import type { InventoryMovementType, InventoryReasonCode } from './database'
+
+// Stock received, or adjusted by a signed quantity for damage, theft or expiry
+export interface RecordInventoryMovementData {
+  movementType: Extract<InventoryMovementType, 'RECEIVE' | 'ADJUSTMENT'>
+  reasonCode: InventoryReasonCode
+  // Signed: positive adds stock, negative takes it away
+  quantity: number
+  reference?: string
+  notes?: string
+  // Admins can move stock at any store; everyone else moves their own
+  storeId?: string
+}
+
+// A physical count: sets the quantity on hand and records the difference
+export interface StockCountData {
+  quantity: number
+  // COUNT by default; DAMAGE, THEFT or EXPIRED when the count explains a loss
+  reasonCode?: InventoryReasonCode
+  reference?: string
+  notes?: string
+  // Admins can count any store; everyone else counts their own
+  storeId?: string
+}
+
+export interface BulkStockCountData {
+  updates: (StockCountData & { id: string })[]
+}
+
+export interface InventoryMovementEntry {
+  id: string
+  productId: string
+  movementType: InventoryMovementType
+  reasonCode: InventoryReasonCode
+  quantity: number
+  quantityAfter: number
+  storeId: string | null
+  storeName: string | null
+  userId: string | null
+  userName: string | null
+  transactionId: string | null
+  receiptNumber: string | null
+  lineItemId: string | null
+  stockTransferId: string | null
+  reference: string | null
+  lotNumber: string | null
+  expirationDate: string | null
+  notes: string | null
+  createdAt: string
+}
+
+export interface InventoryMovementQuery {
+  // Admins can look at any store; everyone else sees their own
+  storeId?: string
+  movementType?: InventoryMovementType
+  startDate?: string
+  endDate?: string
+  limit?: number
+}
+
+// Stock whose quantity on hand no longer adds up from its movements
+export interface InventoryDiscrepancy {
+  productId: string
+  sku: string
+  name: string
+  // The store whose stock is off; null for the product's total across stores
+  storeId: string | null
+  storeName: string | null
+  quantity: number
+  movementTotal: number
+  difference: number
+}
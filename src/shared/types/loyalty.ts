@@ -0,0 +1,65 @@
+import type { LoyaltyLedgerType, LoyaltyTier } from './database'
+
+// How points may be redeemed by customers in one tier
+export interface LoyaltyRedemptionRule {
+  tier: LoyaltyTier
+  // Dollars one point is worth
+  pointValue: number
+  minRedemptionPoints: number
+  maxRedemptionPoints: number | null
+  // Largest share of a sale total points may pay, as a percentage
+  maxRedemptionPercent: number | null
+}
+
+// Everything configurable about one tier: how customers reach it, earn and redeem
+export interface LoyaltyTierSettings extends LoyaltyRedemptionRule {
+  // Spend over the last 12 months that qualifies a customer for the tier
+  minAnnualSpend: number
+  // Points earned per dollar paid, before offer bonuses
+  earnMultiplier: number
+  // Months without a purchase after which the balance expires; null never expires
+  pointsExpireMonths: number | null
+}
+
+export type UpdateLoyaltyTierRuleData = Partial<Omit<LoyaltyTierSettings, 'tier'>>
+
+// Points a customer can put towards a quoted cart, and what was asked for
+export interface LoyaltyRedemptionQuote {
+  availablePoints: number
+  pointValue: number
+  // Fewest and most points that may be redeemed on this cart; maxPoints is 0 when none can be
+  minPoints: number
+  maxPoints: number
+  // Points applied to the quote and their dollar value
+  points: number
+  amount: number
+}
+
+export interface LoyaltyLedgerEntry {
+  id: string
+  customerId: string
+  entryType: LoyaltyLedgerType
+  points: number
+  balanceAfter: number
+  transactionId: string | null
+  receiptNumber: string | null
+  employeeId: string | null
+  employeeName: string | null
+  reason: string | null
+  createdAt: string
+}
+
+export interface LoyaltyLedgerQuery {
+  entryType?: LoyaltyLedgerType
+  page?: number
+  limit?: number
+}
+
+// Outcome of one run of the scheduled loyalty jobs
+export interface LoyaltyJobResult {
+  runAt: string
+  expiredCustomers: number
+  pointsExpired: number
+  tiersUpgraded: number
+  tiersDowngraded: number
+}
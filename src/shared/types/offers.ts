@@ -0,0 +1,98 @@
+import type { CustomerSegments, OfferType, TargetAudience } from './database'
+
+// What one offer took off one cart line
+export interface OfferLineDiscount {
+  productId: string
+  lineIndex: number
+  amount: number
+}
+
+// An offer applied to a sale, as stored on Transaction.offersApplied
+export interface AppliedOffer {
+  offerId: string
+  name: string
+  offerType: OfferType
+  discountAmount: number
+  // Extra loyalty points from POINTS_MULTIPLIER offers
+  bonusPoints: number
+  lines: OfferLineDiscount[]
+}
+
+// Admin API payloads
+
+// Where an offer stands relative to now
+export type OfferStatus = 'all' | 'active' | 'scheduled' | 'expired' | 'inactive'
+
+export interface CreateOfferData {
+  name: string
+  description?: string | null
+  offerType: OfferType
+  // Percent off for PERCENTAGE and BOGO, dollars for FIXED_AMOUNT, multiplier for POINTS_MULTIPLIER
+  discountValue: number
+  minPurchaseAmount?: number
+  maxDiscountAmount?: number | null
+  targetAudience?: TargetAudience
+  customerSegments?: CustomerSegments | null
+  // Product ids, SKUs or categories; empty means every product
+  applicableProducts?: string[] | null
+  excludedProducts?: string[] | null
+  maxUsesTotal?: number | null
+  maxUsesPerCustomer?: number
+  startDate: string // ISO date-time string
+  endDate: string
+  isActive?: boolean
+}
+
+export type UpdateOfferData = Partial<CreateOfferData>
+
+export interface OfferResponse {
+  id: string
+  name: string
+  description: string | null
+  offerType: OfferType
+  discountValue: number
+  minPurchaseAmount: number
+  maxDiscountAmount: number | null
+  targetAudience: TargetAudience
+  customerSegments: CustomerSegments | null
+  applicableProducts: string[] | null
+  excludedProducts: string[] | null
+  maxUsesTotal: number | null
+  maxUsesPerCustomer: number
+  currentUses: number
+  startDate: string
+  endDate: string
+  isActive: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+// Products referenced by an offer's product lists, so pickers can show names
+export interface OfferProductRef {
+  id: string
+  name: string
+  sku: string
+}
+
+// Redemptions of one offer that have not been reversed by a void
+export interface OfferRedemptionSummary {
+  offerId: string
+  name: string
+  offerType: OfferType
+  discountAmount: number
+  bonusPoints: number
+  transactionCount: number
+  currentUses: number
+  maxUsesTotal: number | null
+}
+
+export interface OfferRedemptionReport {
+  startDate?: string
+  endDate?: string
+  offers: OfferRedemptionSummary[]
+  totals: {
+    discountAmount: number
+    bonusPoints: number
+    transactionCount: number
+  }
+}
@@ -0,0 +1,32 @@
+// Where a card payment stands at the processor
+export type ProcessorPaymentStatus = 'AUTHORIZED' | 'CAPTURED' | 'DECLINED' | 'VOIDED' | 'REFUNDED'
+
+// A card payment as the processor reports it; amounts are in dollars
+export interface ProcessorPayment {
+  processor: string
+  reference: string
+  status: ProcessorPaymentStatus
+  requestedAmount: number
+  // What the issuer approved; less than requested on a partial approval
+  amount: number
+  capturedAmount: number
+  refundedAmount: number
+  authCode?: string
+  last4?: string
+  brand?: string
+  declineReason?: string
+}
+
+// What the register sends to authorize a card; the card itself is only ever a processor token
+export interface AuthorizePaymentData {
+  token: string
+  amount: number
+  storeId?: string
+}
+
+// A card after the processor's hosted fields have tokenized it in the browser
+export interface CardToken {
+  token: string
+  last4: string
+  brand: string
+}
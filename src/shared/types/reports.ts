@@ -0,0 +1,160 @@
+import type { CashDrawerStatus, PaymentMethod } from './database'
+import type { TaxJurisdictionAmount } from './transactions'
+
+export interface XReportQuery {
+  storeId?: string
+  // Store-local business date, YYYY-MM-DD; defaults to today
+  businessDate?: string
+  // Limits the report to one register's drawer session
+  cashDrawerSessionId?: string
+}
+
+export interface CreateZReportData {
+  storeId?: string
+  // Store-local business date to close, YYYY-MM-DD; defaults to today
+  businessDate?: string
+}
+
+// Sales for the period; returns and exchanges count at their net, usually negative
+export interface SalesTotals {
+  transactionCount: number
+  grossSales: number
+  discounts: number
+  returns: number
+  netSales: number
+  taxAmount: number
+  totalSales: number
+  // Paid with loyalty points rather than a tender
+  loyaltyRedemptions: number
+}
+
+export interface TenderTotal {
+  paymentMethod: PaymentMethod
+  count: number
+  amount: number
+}
+
+export interface ReportCount {
+  count: number
+  amount: number
+}
+
+// One register's drawer for the period, with its sales and cash count
+export interface DrawerReconciliation {
+  cashDrawerSessionId: string
+  userId: string
+  status: CashDrawerStatus
+  openedAt: string
+  closedAt: string | null
+  transactionCount: number
+  netSales: number
+  openingFloat: number
+  expectedAmount: number
+  // Null until the drawer is counted at close
+  countedAmount: number | null
+  overShort: number | null
+}
+
+/**
+ * An X or Z report: a store's (or one register's) business day so far, or as closed
+ */
+export interface DailySalesReport {
+  storeId: string
+  businessDate: string
+  cashDrawerSessionId: string | null
+  periodStart: string
+  periodEnd: string
+  generatedAt: string
+  sales: SalesTotals
+  taxByJurisdiction: TaxJurisdictionAmount[]
+  tenders: TenderTotal[]
+  // Money taken selling and reloading gift cards; owed to card holders, so not in sales
+  giftCardLoads: TenderTotal[]
+  returns: ReportCount
+  voids: ReportCount
+  ageVerification: {
+    denials: number
+    overrides: number
+  }
+  cashDrawers: DrawerReconciliation[]
+  // Total over (positive) or short (negative) across closed drawers
+  cashOverShort: number
+}
+
+export interface ZReportResponse {
+  id: string
+  storeId: string
+  reportNumber: number
+  businessDate: string
+  generatedById: string
+  quickBooksId: string | null
+  createdAt: string
+  report: DailySalesReport
+}
+
+// How the sales trend is bucketed: hour of the day, business day or week (from Monday)
+export type SalesInterval = 'hour' | 'day' | 'week'
+
+export type SalesBreakdown = 'period' | 'category' | 'vendor' | 'product' | 'employee' | 'store'
+
+export interface SalesReportQuery {
+  // Store-local business dates, YYYY-MM-DD, both inclusive
+  startDate?: string
+  endDate?: string
+  // Omitted by admins to report across every store
+  storeId?: string
+  interval?: SalesInterval
+}
+
+export interface SalesExportQuery extends SalesReportQuery {
+  groupBy?: SalesBreakdown
+}
+
+/**
+ * Sales figures for a period or a group. Amounts are line totals after
+ * discounts and before tax; returned lines count against them. Margin is
+ * taken over lines whose product has a cost, at the product's current cost.
+ */
+export interface SalesFigures {
+  // Sales and exchanges that sold at least one unit
+  transactionCount: number
+  unitsSold: number
+  unitsReturned: number
+  // Units returned as a percentage of units sold
+  returnRate: number | null
+  netSales: number
+  cost: number
+  grossMargin: number
+  // Margin as a percentage of the sales it was taken over
+  marginPercent: number | null
+  // Sales of products with no cost recorded, left out of the margin
+  uncostedSales: number
+}
+
+export interface SalesReportRow extends SalesFigures {
+  key: string
+  label: string
+}
+
+export interface SalesSummary extends SalesFigures {
+  returnCount: number
+  returnAmount: number
+  // Average pre-tax amount sold per transaction
+  basketSize: number | null
+  unitsPerTransaction: number | null
+}
+
+export interface SalesReport {
+  storeId: string | null
+  startDate: string
+  endDate: string
+  interval: SalesInterval
+  generatedAt: string
+  summary: SalesSummary
+  byPeriod: SalesReportRow[]
+  byCategory: SalesReportRow[]
+  byVendor: SalesReportRow[]
+  byProduct: SalesReportRow[]
+  byEmployee: SalesReportRow[]
+  byStore: SalesReportRow[]
+}
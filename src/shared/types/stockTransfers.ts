@@ -0,0 +1,113 @@
+import type { StockTransferStatus } from './database'
+
+export interface CreateStockTransferData {
+  fromStoreId: string
+  toStoreId: string
+  items: { productId: string; quantity: number }[]
+  notes?: string
+}
+
+// What actually went in the box; lines left out ship as requested
+export interface ShipStockTransferData {
+  items?: {
+    itemId: string
+    quantityShipped?: number
+    // Default to the product's current lot and expiry
+    lotNumber?: string
+    expirationDate?: string
+  }[]
+}
+
+// What was counted in at the destination; lines left out are taken as received in full
+export interface ReceiveStockTransferData {
+  items?: {
+    itemId: string
+    quantityReceived: number
+    // Required when the count differs from what was shipped
+    discrepancyNote?: string
+  }[]
+}
+
+export interface StockTransferQuery {
+  // Admins can look at any store; everyone else sees transfers to or from their own
+  storeId?: string
+  status?: StockTransferStatus
+  limit?: number
+}
+
+export interface StockTransferItemResponse {
+  id: string
+  productId: string
+  sku: string
+  name: string
+  quantityRequested: number
+  quantityShipped: number | null
+  quantityReceived: number | null
+  lotNumber: string | null
+  expirationDate: string | null
+  // Received less shipped: negative is short, positive is over; null until received
+  discrepancy: number | null
+  discrepancyNote: string | null
+}
+
+export interface StockTransferResponse {
+  id: string
+  // e.g. TR-42, as it appears on the movements it posted
+  reference: string
+  fromStoreId: string
+  fromStoreName: string
+  toStoreId: string
+  toStoreName: string
+  status: StockTransferStatus
+  requestedById: string
+  approvedById: string | null
+  approvedAt: string | null
+  shippedById: string | null
+  shippedAt: string | null
+  receivedById: string | null
+  receivedAt: string | null
+  cancelledAt: string | null
+  notes: string | null
+  createdAt: string
+  items: StockTransferItemResponse[]
+}
+
+export interface StockTransferReportQuery {
+  storeId?: string
+  startDate?: string
+  endDate?: string
+}
+
+export interface StockTransferTotals {
+  transfers: number
+  units: number
+}
+
+// A received line whose count did not match what was shipped
+export interface StockTransferDiscrepancy {
+  transferId: string
+  reference: string
+  fromStoreName: string
+  productId: string
+  sku: string
+  name: string
+  quantityShipped: number
+  quantityReceived: number
+  difference: number
+  note: string | null
+  receivedAt: string
+}
+
+// Stock a store sent and took in by transfer over a period, and what is on the road now
+export interface StockTransferReport {
+  storeId: string
+  storeName: string
+  startDate: string
+  endDate: string
+  shippedOut: StockTransferTotals
+  receivedIn: StockTransferTotals
+  inTransitOut: StockTransferTotals
+  inTransitIn: StockTransferTotals
+  discrepancies: StockTransferDiscrepancy[]
+  transfers: StockTransferResponse[]
+}
@@ -1,4 +1,12 @@
-import type { PaymentMethod } from '../types/database'
+import type {
+  PaymentMethod,
+  PaymentStatus,
+  ReturnDisposition,
+  TransactionType,
+} from '../types/database'
+import type { ComplianceFlag } from './compliance'
+import type { ManagerCredentials } from './auth'
+import type { LoyaltyRedemptionQuote } from './loyalty'
 
 export interface CartItem {
   productId: string
@@ -11,14 +19,88 @@ export interface CartItem {
   }
 }
 
+// Tenders a sale can be paid with, alone or split; store credit needs the customer on the sale
+export type TenderMethod = Extract<PaymentMethod, 'CASH' | 'CARD' | 'GIFT_CARD' | 'STORE_CREDIT'>
+
+// One tender towards a sale; split payments send one per method used
+export interface TransactionTenderData {
+  method: TenderMethod
+  amount: number
+  // Cash handed over; may exceed amount, and the difference is the change
+  cashTendered?: number
+  // Required for gift card tenders
+  giftCardNumber?: string
+  giftCardPin?: string
+  // Card tenders send the reference /api/payments/authorize returned; the
+  // processor, last4 and auth code are then taken from the processor itself
+  processor?: string
+  reference?: string
+  last4?: string
+  authCode?: string
+}
+
 export interface CreateTransactionData {
   customerId?: string
   cartItems: CartItem[]
   paymentMethod: PaymentMethod
   cashTendered?: number
-  ageVerificationCompleted?: boolean
+  // AgeVerificationLog id from /api/age-verification; required when the cart has restricted products
+  ageVerificationId?: string
   storeId?: string
   notes?: string
+  // Loyalty points tendered towards the total; cash and card cover the rest
+  loyaltyPointsToRedeem?: number
+  // Required when paymentMethod is GIFT_CARD
+  giftCardNumber?: string
+  giftCardPin?: string
+  // Required when paymentMethod is CARD: the authorized card payment's reference
+  paymentReference?: string
+  // Required when paymentMethod is SPLIT; the amounts must add up to the amount due
+  payments?: TransactionTenderData[]
+}
+
+// Where a refund goes: back to the tender used on the original sale, or onto the customer's store credit
+export type RefundMethod = 'ORIGINAL' | 'STORE_CREDIT'
+
+export interface ReturnLineRequest {
+  lineItemId: string
+  quantity: number
+  disposition: ReturnDisposition
+}
+
+export interface CreateReturnData {
+  items: ReturnLineRequest[]
+  refundMethod?: RefundMethod
+  reason?: string
+  // New items taken in exchange; when present the return is recorded as an EXCHANGE
+  exchangeItems?: CartItem[]
+  // Tender for any balance the customer owes on an exchange
+  paymentMethod?: PaymentMethod
+  cashTendered?: number
+  // Required when the exchange balance is paid by gift card
+  giftCardNumber?: string
+  giftCardPin?: string
+  // Required when the exchange balance is paid by card
+  paymentReference?: string
+  // Required when the exchange items include restricted products
+  ageVerificationId?: string
+}
+
+export interface VoidTransactionData {
+  reason: string
+  // Needed when the signed-in user cannot void transactions themselves
+  managerCredentials?: ManagerCredentials
+}
+
+export interface ReturnResult {
+  message: string
+  transaction: TransactionResponse
+  refundAmount: number
+  refundMethod?: PaymentMethod
+  balanceDue: number
+  pointsReversed: number
+  // Redeemed points given back for the refunded share of the sale
+  pointsRestored: number
 }
 
 export interface TransactionResponse {
@@ -31,10 +113,13 @@ export interface TransactionResponse {
   paymentStatus: string
   cashTendered?: number
   changeGiven?: number
+  payments?: TransactionPaymentResponse[]
   ageVerificationRequired: boolean
   ageVerificationCompleted: boolean
   loyaltyPointsEarned: number
   loyaltyPointsRedeemed: number
+  transactionType?: TransactionType
+  originalTransactionId?: string | null
   transactionDate: string
   lineItems: TransactionLineItem[]
   customer?: {
@@ -49,6 +134,21 @@ export interface TransactionResponse {
   }
 }
 
+// A tender recorded against a transaction
+export interface TransactionPaymentResponse {
+  id: string
+  paymentMethod: PaymentMethod
+  amount: number
+  cashTendered?: number | null
+  changeGiven?: number | null
+  processor?: string | null
+  reference?: string | null
+  last4?: string | null
+  authCode?: string | null
+  status: PaymentStatus
+  sequence: number
+}
+
 export interface TransactionLineItem {
   id: string
   productId: string
@@ -67,20 +167,6 @@ export interface TransactionLineItem {
   }
 }
 
-export interface AgeVerificationData {
-  customerId?: string
-  idType: string
-  idIssuingState?: string
-  idExpirationDate?: string
-  customerDob: string
-  calculatedAge: number
-  isVerified: boolean
-  verificationMethod: string
-  reasonForDenial?: string
-  managerOverride?: boolean
-  overrideReason?: string
-}
-
 export interface PaymentData {
   method: PaymentMethod
   cashTendered?: number
@@ -93,6 +179,101 @@ export interface PaymentData {
   }[]
 }
 
+// One taxing jurisdiction's share of a line or transaction
+export interface TaxJurisdictionAmount {
+  code: string
+  name: string
+  type: string
+  rate: number
+  taxableAmount: number
+  taxAmount: number
+}
+
+export interface TaxBreakdown {
+  subtotal: number
+  jurisdictions: TaxJurisdictionAmount[]
+  totalTaxAmount: number
+  totalAmount: number
+  exemptAmount?: number
+}
+
+export interface LineTaxQuote {
+  productId: string
+  lineTotal: number
+  taxAmount: number
+  taxDetails: TaxJurisdictionAmount[]
+}
+
+export interface CalculateTaxRequest {
+  cartItems: CartItem[]
+  storeId?: string
+  customerId?: string
+}
+
+// Server-computed tax for a cart, shown before tender
+export interface TaxQuote {
+  subtotal: number
+  taxAmount: number
+  totalAmount: number
+  taxBreakdown: TaxBreakdown
+  lines: LineTaxQuote[]
+}
+
+export interface CartQuoteRequest extends CalculateTaxRequest {
+  loyaltyPointsToRedeem?: number
+}
+
+// A cart line priced by the checkout pipeline
+export interface QuotedLineItem {
+  productId: string
+  productName: string
+  productSku: string
+  quantity: number
+  unitPrice: number
+  lineDiscount: number
+  lineTotal: number
+  lineTaxAmount: number
+  taxDetails: TaxJurisdictionAmount[]
+  ageVerificationRequired: boolean
+}
+
+export interface CartDiscount {
+  offerId?: string
+  code?: string
+  description: string
+  amount: number
+}
+
+export interface RequiredVerification {
+  type: 'AGE'
+  minimumAge?: number
+  reason: string
+}
+
+// Everything checkout would charge for a cart, computed without saving anything
+export interface CartQuote {
+  lines: QuotedLineItem[]
+  subtotal: number
+  discountAmount: number
+  taxAmount: number
+  totalAmount: number
+  taxBreakdown: TaxBreakdown
+  discounts: CartDiscount[]
+  loyaltyPointsEarned: number
+  // Present when the cart has a customer
+  loyaltyRedemption?: LoyaltyRedemptionQuote
+  // What the customer has in store credit to pay with; present when the cart has a customer
+  storeCreditBalance?: number
+  // Left to pay after loyalty points
+  amountDue: number
+  requiredVerifications: RequiredVerification[]
+  compliance: {
+    passed: boolean
+    violations: ComplianceFlag[]
+    warnings: ComplianceFlag[]
+  }
+}
+
 export interface TaxCalculation {
   subtotal: number
   taxRate: number
@@ -125,9 +306,33 @@ export interface Receipt {
     lineTotal: number
   }[]
   subtotal: number
+  // Offers taken off the subtotal, one entry per offer
+  discounts?: {
+    name: string
+    amount: number
+  }[]
   taxAmount: number
+  taxLines?: {
+    name: string
+    amount: number
+  }[]
   totalAmount: number
   paymentMethod: string
+  // Every tender taken or refunded, in the order they were taken
+  tenders?: {
+    method: string
+    amount: number
+    reference?: string
+    last4?: string
+    authCode?: string
+    cashTendered?: number
+    changeGiven?: number
+  }[]
+  // Loyalty points tendered and the dollars they paid
+  pointsTendered?: {
+    points: number
+    amount: number
+  }
   cashTendered?: number
   changeGiven?: number
   loyaltyPoints?: {
@@ -0,0 +1,94 @@
+/**
+ * Store-local date helpers.
+ *
+ * Stores record their IANA timezone on StoreLocation.timezone. Anything that
+ * depends on "today" or "the current hour" at the register (restricted sale
+ * hours, same-day voids, end-of-day reports) must be evaluated in that zone
+ * rather than in the server's zone.
+ */
+
+export interface ZonedTime {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+}
+
+/**
+ * Breaks a UTC instant down into wall-clock parts for a timezone
+ */
+export function getZonedTime(date: Date, timeZone: string): ZonedTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(date)
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find((part) => part.type === type)?.value || '0', 10)
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+  }
+}
+
+/**
+ * Returns the store-local calendar date as a UTC-midnight Date,
+ * which is how Prisma represents @db.Date columns
+ */
+export function getBusinessDate(date: Date, timeZone: string): Date {
+  const { year, month, day } = getZonedTime(date, timeZone)
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+/**
+ * Returns the UTC instants bounding the store-local business day containing `date`
+ */
+export function getBusinessDayRange(date: Date, timeZone: string): { start: Date; end: Date } {
+  return getBusinessDateRange(getBusinessDate(date, timeZone), timeZone)
+}
+
+/**
+ * Returns the UTC instants bounding a business date given as UTC midnight
+ */
+export function getBusinessDateRange(
+  businessDate: Date,
+  timeZone: string,
+): { start: Date; end: Date } {
+  const start = zonedMidnightToUtc(businessDate, timeZone)
+  const nextDay = new Date(businessDate.getTime() + 24 * 60 * 60 * 1000)
+  const end = zonedMidnightToUtc(nextDay, timeZone)
+  return { start, end }
+}
+
+/**
+ * Checks whether two instants fall on the same store-local business day
+ */
+export function isSameBusinessDay(a: Date, b: Date, timeZone: string): boolean {
+  return getBusinessDate(a, timeZone).getTime() === getBusinessDate(b, timeZone).getTime()
+}
+
+/**
+ * Formats a store-local business date as YYYY-MM-DD
+ */
+export function formatBusinessDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+// Converts local midnight of a calendar date (given as UTC midnight) into a UTC instant
+function zonedMidnightToUtc(calendarDate: Date, timeZone: string): Date {
+  const guess = new Date(calendarDate.getTime())
+  const zoned = getZonedTime(guess, timeZone)
+  const zonedAsUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute)
+  const offset = zonedAsUtc - guess.getTime()
+  return new Date(calendarDate.getTime() - offset)
+}
@@ -0,0 +1,22 @@
+import axios from 'axios'
+
+// Body the API sends back with a failed request
+interface ApiErrorBody {
+  message?: string
+  error?: string
+  errors?: unknown
+}
+
+/**
+ * Message to show for a failed request: the API's own explanation when it
+ * sent one, otherwise the error's message, otherwise the fallback
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (axios.isAxiosError<ApiErrorBody>(error)) {
+    const body = error.response?.data
+    if (Array.isArray(body?.errors) && body.errors.length > 0) return body.errors.join('; ')
+    if (body?.error) return body.error
+    if (body?.message) return body.message
+  }
+  return error instanceof Error && error.message ? error.message : fallback
+}
@@ -0,0 +1,20 @@
+/**
+ * Currency helpers. Amounts are held as numbers of dollars and rounded to
+ * cents at each step that is persisted or shown to a customer.
+ */
+
+/**
+ * Rounds a dollar amount to whole cents (half away from zero)
+ */
+export function roundCurrency(amount: number): number {
+  const cents = Math.round(Math.abs(amount) * 100 + Number.EPSILON)
+  return (Math.sign(amount) * cents) / 100
+}
+
+/**
+ * Converts a Prisma Decimal, string or number to a number of dollars
+ */
+export function toAmount(value: { toString(): string } | number | null | undefined): number {
+  if (value === null || value === undefined) return 0
+  return typeof value === 'number' ? value : parseFloat(value.toString())
+}
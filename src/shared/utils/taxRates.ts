@@ -0,0 +1,107 @@
+/**
+ * Built-in sales and tobacco tax rate tables.
+ *
+ * Shared by the client-side taxCalculationService (fallback estimates) and the
+ * server-side tax engine, so both sides quote the same numbers. Jurisdiction
+ * specific overrides live in TAX_RATE compliance rules.
+ */
+
+const STATE_TAX_RATES: Record<string, number> = {
+  AL: 0.04,
+  AK: 0.0,
+  AZ: 0.056,
+  AR: 0.065,
+  CA: 0.075,
+  CO: 0.029,
+  CT: 0.0635,
+  DE: 0.0,
+  FL: 0.06,
+  GA: 0.04,
+  HI: 0.04,
+  ID: 0.06,
+  IL: 0.0625,
+  IN: 0.07,
+  IA: 0.06,
+  KS: 0.065,
+  KY: 0.06,
+  LA: 0.045,
+  ME: 0.055,
+  MD: 0.06,
+  MA: 0.0625,
+  MI: 0.06,
+  MN: 0.0688,
+  MS: 0.07,
+  MO: 0.0423,
+  MT: 0.0,
+  NE: 0.055,
+  NV: 0.0685,
+  NH: 0.0,
+  NJ: 0.0663,
+  NM: 0.0513,
+  NY: 0.08,
+  NC: 0.0475,
+  ND: 0.05,
+  OH: 0.0575,
+  OK: 0.045,
+  OR: 0.0,
+  PA: 0.06,
+  RI: 0.07,
+  SC: 0.06,
+  SD: 0.045,
+  TN: 0.07,
+  TX: 0.0625,
+  UT: 0.061,
+  VT: 0.06,
+  VA: 0.053,
+  WA: 0.065,
+  WV: 0.06,
+  WI: 0.05,
+  WY: 0.04,
+}
+
+// Additional tax on tobacco and vapor products, as a share of the retail price
+const TOBACCO_TAX_RATES: Record<string, number> = {
+  NY: 0.2,
+  CA: 0.15,
+  TX: 0.1,
+  FL: 0.12,
+  IL: 0.18,
+}
+
+const DEFAULT_STATE_TAX_RATE = 0.08
+const DEFAULT_TOBACCO_TAX_RATE = 0.05
+
+const EXEMPT_CATEGORIES: Record<string, string[]> = {
+  MT: ['clothing', 'food'], // Montana exempts clothing and food
+  OR: ['food', 'medicine'], // Oregon exempts food and medicine
+  NH: ['food', 'medicine', 'clothing'], // New Hampshire broader exemptions
+}
+
+// Product categories that carry the special tobacco tax
+export const TOBACCO_PRODUCT_CATEGORIES = ['tobacco', 'vape', 'e-cigarette']
+
+/**
+ * Returns the state sales tax rate. States with no sales tax return 0;
+ * states missing from the table fall back to 8%.
+ */
+export function getStateTaxRate(state: string): number {
+  const rate = STATE_TAX_RATES[state]
+  return rate === undefined ? DEFAULT_STATE_TAX_RATE : rate
+}
+
+/**
+ * Returns the special tax rate for a regulated category
+ */
+export function getSpecialTaxRate(state: string, category: 'tobacco' | 'alcohol'): number {
+  if (category === 'tobacco') {
+    return TOBACCO_TAX_RATES[state] ?? DEFAULT_TOBACCO_TAX_RATE
+  }
+  return 0
+}
+
+/**
+ * Checks if a product category is exempt from sales tax in a state
+ */
+export function isCategoryTaxExempt(category: string, state: string): boolean {
+  return EXEMPT_CATEGORIES[state]?.includes(category) || false
+}
@@ -11,12 +11,89 @@ jest.mock('../../../generated/prisma', () => {
       create: jest.fn(),
       findUnique: jest.fn(),
       findMany: jest.fn(),
-      count: jest.fn()
+      count: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      aggregate: jest.fn()
+    },
+    customer: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn()
+    },
+    loyaltyTierRule: {
+      findUnique: jest.fn(),
+      findMany: jest.fn()
+    },
+    loyaltyLedger: {
+      create: jest.fn()
+    },
+    giftCard: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn()
+    },
+    giftCardLedger: {
+      create: jest.fn(),
+      findMany: jest.fn()
+    },
+    transactionPayment: {
+      create: jest.fn(),
+      updateMany: jest.fn(),
+      groupBy: jest.fn()
+    },
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn()
+    },
+    auditLog: {
+      create: jest.fn(),
+      findFirst: jest.fn()
+    },
+    quickBooksIntegration: {
+      findUnique: jest.fn(),
+      update: jest.fn()
     },
     lineItem: {
+      create: jest.fn(),
+      findMany: jest.fn()
+    },
+    storeInventory: {
+      upsert: jest.fn()
+    },
+    inventoryMovement: {
       create: jest.fn()
     },
-    $transaction: jest.fn()
+    storeLocation: {
+      findUnique: jest.fn()
+    },
+    cashDrawerSession: {
+      findFirst: jest.fn()
+    },
+    zReport: {
+      findUnique: jest.fn()
+    },
+    complianceRule: {
+      findMany: jest.fn()
+    },
+    ageVerificationLog: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn()
+    },
+    offer: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+      update: jest.fn()
+    },
+    offerRedemption: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn()
+    },
+    $transaction: jest.fn(),
+    $executeRaw: jest.fn()
   }
 
   return {
@@ -25,12 +102,54 @@ jest.mock('../../../generated/prisma', () => {
   }
 })
 
+import bcrypt from 'bcryptjs'
 import { transactionController } from '../../../api/controllers/transactions'
+import { getPaymentProcessor } from '../../../shared/services/paymentGateway'
+import { tokenizeSimulatorCard } from '../../../shared/services/paymentSimulator'
 
 // Access the mock through module system
 const { __mockPrismaClient: mockPrismaClient } = require('../../../generated/prisma')
 
 describe('Transaction Controller', () => {
+  const mockStore = {
+    id: 'store-1',
+    storeName: 'Test Store',
+    city: 'Los Angeles',
+    county: 'Los Angeles',
+    stateCode: 'CA',
+    countryCode: 'US',
+    timezone: 'America/Los_Angeles',
+    paymentProcessor: 'SIMULATOR'
+  }
+
+  const simulator = getPaymentProcessor('SIMULATOR')
+
+  // Authorizes a test card with the simulator, as the register does before checkout
+  const authorizeCard = (amount: number, cardNumber = '4242424242424242') =>
+    simulator.authorize({
+      token: tokenizeSimulatorCard({ cardNumber, expiryMonth: '12', expiryYear: '2099', cvv: '123' })
+        .token,
+      amount
+    })
+
+  const mockVerification = {
+    id: 'verification-1',
+    storeId: 'store-1',
+    customerId: null,
+    transactionId: null,
+    calculatedAge: 34,
+    isVerified: true,
+    managerOverride: false
+  }
+
+  const mockDrawer = {
+    id: 'drawer-1',
+    storeId: 'store-1',
+    userId: 'user-123',
+    status: 'OPEN',
+    openingFloat: 100
+  }
+
   let mockRequest: Partial<Request>
   let mockResponse: Partial<Response>
 
@@ -41,10 +160,13 @@ describe('Transaction Controller', () => {
         id: 'user-123',
         username: 'testuser',
         role: 'CASHIER' as const,
+        storeId: 'store-1',
         isActive: true
       },
       params: {},
-      query: {}
+      query: {},
+      ip: '10.0.0.5',
+      get: jest.fn().mockReturnValue('Register/1.0') as any
     }
     
     mockResponse = {
@@ -54,6 +176,30 @@ describe('Transaction Controller', () => {
 
     // Reset all mocks before each test
     jest.clearAllMocks()
+
+    mockPrismaClient.storeLocation.findUnique.mockResolvedValue(mockStore)
+    mockPrismaClient.complianceRule.findMany.mockResolvedValue([])
+    mockPrismaClient.lineItem.findMany.mockResolvedValue([])
+    mockPrismaClient.auditLog.findFirst.mockResolvedValue(null)
+    mockPrismaClient.ageVerificationLog.findUnique.mockResolvedValue({
+      ...mockVerification,
+      verificationDate: new Date()
+    })
+    mockPrismaClient.ageVerificationLog.updateMany.mockResolvedValue({ count: 1 })
+    mockPrismaClient.offer.findMany.mockResolvedValue([])
+    mockPrismaClient.offerRedemption.findMany.mockResolvedValue([])
+    mockPrismaClient.loyaltyTierRule.findUnique.mockResolvedValue(null)
+    mockPrismaClient.loyaltyTierRule.findMany.mockResolvedValue([])
+    mockPrismaClient.customer.updateMany.mockResolvedValue({ count: 1 })
+    mockPrismaClient.transaction.aggregate.mockResolvedValue({ _sum: { totalAmount: 0 } })
+    mockPrismaClient.transactionPayment.groupBy.mockResolvedValue([])
+    mockPrismaClient.cashDrawerSession.findFirst.mockResolvedValue(mockDrawer)
+    mockPrismaClient.zReport.findUnique.mockResolvedValue(null)
+    mockPrismaClient.storeInventory.upsert.mockResolvedValue({ quantity: 10 })
+    mockPrismaClient.lineItem.create.mockResolvedValue({ id: 'line-new' })
+    mockPrismaClient.$transaction.mockImplementation(
+      (callback: (tx: typeof mockPrismaClient) => unknown) => callback(mockPrismaClient)
+    )
   })
 
   describe('createTransaction', () => {
@@ -64,7 +210,7 @@ describe('Transaction Controller', () => {
       ],
       paymentMethod: 'CASH' as const,
       cashTendered: 30.00,
-      ageVerificationCompleted: true,
+      ageVerificationId: 'verification-1',
       storeId: 'store-1'
     }
 
@@ -74,6 +220,7 @@ describe('Transaction Controller', () => {
       sku: 'TEST001',
       price: 10.00,
       quantity: 5,
+      storeInventory: [{ quantity: 5, minStockLevel: null }],
       ageRestricted: false,
       lotNumber: null,
       expirationDate: null
@@ -85,6 +232,7 @@ describe('Transaction Controller', () => {
       sku: 'TEST002', 
       price: 5.00,
       quantity: 3,
+      storeInventory: [{ quantity: 3, minStockLevel: null }],
       ageRestricted: true,
       lotNumber: 'LOT123',
       expirationDate: new Date('2024-12-31')
@@ -105,6 +253,36 @@ describe('Transaction Controller', () => {
       })
     })
 
+    it('should refuse a checkout at a store other than the cashier\'s own', async () => {
+      mockRequest.body = { ...validTransactionData, storeId: 'store-2' }
+
+      await transactionController.createTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403)
+      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Access denied to this store' })
+      expect(mockPrismaClient.storeLocation.findUnique).not.toHaveBeenCalled()
+      expect(mockPrismaClient.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should let an admin check out at any store', async () => {
+      mockRequest.user = { ...mockRequest.user!, role: 'ADMIN', storeId: 'store-2' }
+      mockRequest.body = validTransactionData
+      mockPrismaClient.product.findUnique.mockResolvedValueOnce(null)
+
+      await transactionController.createTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockPrismaClient.storeLocation.findUnique).toHaveBeenCalledWith({
+        where: { id: 'store-1' }
+      })
+      expect(mockResponse.status).not.toHaveBeenCalledWith(403)
+    })
+
     it('should return 400 if product not found', async () => {
       mockRequest.body = validTransactionData
       mockPrismaClient.product.findUnique.mockResolvedValueOnce(null)
@@ -165,6 +343,1686 @@ describe('Transaction Controller', () => {
         transaction: mockCompleteTransaction
       })
     })
+
+    describe('loyalty points', () => {
+      beforeEach(() => {
+        mockRequest.body = {
+          ...validTransactionData,
+          customerId: 'customer-1',
+          loyaltyPointsToRedeem: 500
+        }
+        mockPrismaClient.product.findUnique
+          .mockResolvedValueOnce(mockProduct1)
+          .mockResolvedValueOnce(mockProduct2)
+        mockPrismaClient.customer.findUnique.mockResolvedValue({
+          id: 'customer-1',
+          loyaltyTier: 'SILVER',
+          loyaltyPoints: 800,
+          totalSpent: 600
+        })
+      })
+
+      it('should take redeemed points off the amount due and the balance', async () => {
+        mockPrismaClient.transaction.create.mockResolvedValueOnce({ id: 'transaction-123' })
+
+        await transactionController.createTransaction(
+          mockRequest as Request,
+          mockResponse as Response
+        )
+
+        expect(mockResponse.status).toHaveBeenCalledWith(201)
+        expect(mockPrismaClient.transaction.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            totalAmount: 27.63,
+            loyaltyPointsRedeemed: 500,
+            loyaltyRedemptionAmount: 5,
+            changeGiven: 7.37
+          })
+        })
+        expect(mockPrismaClient.customer.updateMany).toHaveBeenCalledWith({
+          where: { id: 'customer-1', loyaltyPoints: { gte: 500 } },
+          data: {
+            loyaltyPoints: { increment: -500 },
+            pointsLifetimeRedeemed: { increment: 500 }
+          }
+        })
+        expect(mockPrismaClient.loyaltyLedger.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            customerId: 'customer-1',
+            entryType: 'REDEEM',
+            points: -500,
+            transactionId: 'transaction-123',
+            employeeId: 'user-123'
+          })
+        })
+      })
+
+      it('should reject more points than the customer has', async () => {
+        mockRequest.body.loyaltyPointsToRedeem = 1000
+
+        await transactionController.createTransaction(
+          mockRequest as Request,
+          mockResponse as Response
+        )
+
+        expect(mockResponse.status).toHaveBeenCalledWith(400)
+        expect(mockResponse.json).toHaveBeenCalledWith({
+          message: 'Insufficient points. Customer has 800 points.'
+        })
+        expect(mockPrismaClient.transaction.create).not.toHaveBeenCalled()
+      })
+    })
+
+    describe('gift cards', () => {
+      const giftCard = {
+        id: 'card-1',
+        cardNumber: '6011000000001234',
+        pinHash: bcrypt.hashSync('1234', 4),
+        balance: 50,
+        status: 'ACTIVE',
+        expiresAt: null
+      }
+
+      beforeEach(() => {
+        mockRequest.body = {
+          ...validTransactionData,
+          paymentMethod: 'GIFT_CARD',
+          cashTendered: undefined,
+          giftCardNumber: '6011 0000 0000 1234',
+          giftCardPin: '1234'
+        }
+        mockPrismaClient.product.findUnique
+          .mockResolvedValueOnce(mockProduct1)
+          .mockResolvedValueOnce(mockProduct2)
+        mockPrismaClient.giftCard.findUnique.mockResolvedValue(giftCard)
+        mockPrismaClient.giftCard.updateMany.mockResolvedValue({ count: 1 })
+      })
+
+      it('should take the sale total off the card and mask it on the receipt', async () => {
+        mockPrismaClient.transaction.create.mockResolvedValueOnce({ id: 'transaction-123' })
+
+        await transactionController.createTransaction(
+          mockRequest as Request,
+          mockResponse as Response
+        )
+
+        expect(mockResponse.status).toHaveBeenCalledWith(201)
+        expect(mockPrismaClient.transaction.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            paymentMethod: 'GIFT_CARD',
+            paymentReference: '************1234'
+          })
+        })
+        expect(mockPrismaClient.giftCard.updateMany).toHaveBeenCalledWith({
+          where: { id: 'card-1', balance: { gte: 27.63 } },
+          data: { balance: { increment: -27.63 } }
+        })
+        expect(mockPrismaClient.giftCardLedger.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            giftCardId: 'card-1',
+            entryType: 'REDEEM',
+            amount: -27.63,
+            transactionId: 'transaction-123'
+          })
+        })
+      })
+
+      it('should reject a wrong PIN without recording the sale, but count it', async () => {
+        mockRequest.body.giftCardPin = '9999'
+        mockPrismaClient.giftCard.update.mockResolvedValueOnce({ failedPinAttempts: 1 })
+
+        await transactionController.createTransaction(
+          mockRequest as Request,
+          mockResponse as Response
+        )
+
+        expect(mockResponse.status).toHaveBeenCalledWith(400)
+        expect(mockResponse.json).toHaveBeenCalledWith({
+          message: 'Gift card number or PIN is incorrect'
+        })
+        // Counted before the sale's transaction, so the rollback does not forget it
+        expect(mockPrismaClient.giftCard.update).toHaveBeenCalledWith({
+          where: { id: 'card-1' },
+          data: { failedPinAttempts: { increment: 1 } },
+          select: { failedPinAttempts: true }
+        })
+        expect(mockPrismaClient.$transaction).not.toHaveBeenCalled()
+        expect(mockPrismaClient.giftCardLedger.create).not.toHaveBeenCalled()
+      })
+
+      it('should require the card PIN', async () => {
+        mockRequest.body.giftCardPin = undefined
+
+        await transactionController.createTransaction(
+          mockRequest as Request,
+          mockResponse as Response
+        )
+
+        expect(mockResponse.status).toHaveBeenCalledWith(400)
+        expect(mockResponse.json).toHaveBeenCalledWith({
+          message: 'Invalid payment',
+          errors: ['Gift card number and PIN are required']
+        })
+        expect(mockPrismaClient.transaction.create).not.toHaveBeenCalled()
+      })
+    })
+
+    describe('store credit', () => {
+      beforeEach(() => {
+        mockRequest.body = {
+          ...validTransactionData,
+          customerId: 'customer-1',
+          paymentMethod: 'STORE_CREDIT',
+          cashTendered: undefined
+        }
+        mockPrismaClient.product.findUnique
+          .mockResolvedValueOnce(mockProduct1)
+          .mockResolvedValueOnce(mockProduct2)
+        mockPrismaClient.customer.findUnique.mockResolvedValue({
+          id: 'customer-1',
+          loyaltyTier: 'BRONZE',
+          loyaltyPoints: 0,
+          storeCreditBalance: 40,
+          totalSpent: 0
+        })
+        mockPrismaClient.transaction.create.mockResolvedValueOnce({ id: 'transaction-123' })
+      })
+
+      it('should take the sale total off the customer\'s store credit', async () => {
+        mockPrismaClient.customer.updateMany.mockResolvedValueOnce({ count: 1 })
+
+        await transactionController.createTransaction(
+          mockRequest as Request,
+          mockResponse as Response
+        )
+
+        expect(mockResponse.status).toHaveBeenCalledWith(201)
+        expect(mockPrismaClient.customer.updateMany).toHaveBeenCalledWith({
+          where: { id: 'customer-1', storeCreditBalance: { gte: 27.63 } },
+          data: { storeCreditBalance: { decrement: 27.63 } }
+        })
+      })
+
+      it('should refuse the sale when another register spent the credit first', async () => {
+        mockPrismaClient.customer.updateMany.mockResolvedValueOnce({ count: 0 })
+
+        await transactionController.createTransaction(
+          mockRequest as Request,
+          mockResponse as Response
+        )
+
+        expect(mockResponse.status).toHaveBeenCalledWith(400)
+        expect(mockResponse.json).toHaveBeenCalledWith({
+          message: 'Customer does not have $27.63 in store credit'
+        })
+      })
+
+      it('should need the customer on the sale', async () => {
+        mockRequest.body.customerId = undefined
+
+        await transactionController.createTransaction(
+          mockRequest as Request,
+          mockResponse as Response
+        )
+
+        expect(mockResponse.status).toHaveBeenCalledWith(400)
+        expect(mockPrismaClient.customer.updateMany).not.toHaveBeenCalled()
+      })
+    })
+
+    describe('split payments', () => {
+      let cardReference: string
+      let cardAuthCode: string | undefined
+
+      beforeEach(async () => {
+        const authorization = await authorizeCard(17.63)
+        cardReference = authorization.reference
+        cardAuthCode = authorization.authCode
+        mockRequest.body = {
+          ...validTransactionData,
+          paymentMethod: 'SPLIT',
+          cashTendered: undefined,
+          payments: [
+            { method: 'CASH', amount: 10, cashTendered: 20 },
+            // Whatever the register claims, card details come from the processor
+            { method: 'CARD', amount: 17.63, reference: cardReference, last4: '0000' }
+          ]
+        }
+        mockPrismaClient.product.findUnique
+          .mockResolvedValueOnce(mockProduct1)
+          .mockResolvedValueOnce(mockProduct2)
+      })
+
+      it('should record every tender and give change only on the cash', async () => {
+        mockPrismaClient.transaction.create.mockResolvedValueOnce({ id: 'transaction-123' })
+
+        await transactionController.createTransaction(
+          mockRequest as Request,
+          mockResponse as Response
+        )
+
+        expect(mockResponse.status).toHaveBeenCalledWith(201)
+        expect(mockPrismaClient.transaction.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            totalAmount: 27.63,
+            paymentMethod: 'SPLIT',
+            paymentProcessor: 'SIMULATOR',
+            cashDrawerSessionId: 'drawer-1',
+            cashTendered: 20,
+            changeGiven: 10
+          })
+        })
+        expect(mockPrismaClient.transactionPayment.create).toHaveBeenNthCalledWith(1, {
+          data: expect.objectContaining({
+            transactionId: 'transaction-123',
+            paymentMethod: 'CASH',
+            amount: 10,
+            cashTendered: 20,
+            changeGiven: 10,
+            sequence: 0
+          })
+        })
+        expect(mockPrismaClient.transactionPayment.create).toHaveBeenNthCalledWith(2, {
+          data: expect.objectContaining({
+            paymentMethod: 'CARD',
+            amount: 17.63,
+            processor: 'SIMULATOR',
+            reference: cardReference,
+            last4: '4242',
+            authCode: cardAuthCode,
+            sequence: 1
+          })
+        })
+        // The card is captured once the sale is saved
+        expect((await simulator.status(cardReference)).status).toBe('CAPTURED')
+      })
+
+      it('should refuse a card that was not authorized for its share', async () => {
+        mockRequest.body.payments = [
+          { method: 'CASH', amount: 10, cashTendered: 20 },
+          { method: 'CARD', amount: 17.63 }
+        ]
+
+        await transactionController.createTransaction(
+          mockRequest as Request,
+          mockResponse as Response
+        )
+
+        expect(mockResponse.status).toHaveBeenCalledWith(400)
+        expect(mockResponse.json).toHaveBeenCalledWith({
+          message: 'Card payments must be authorized before checkout'
+        })
+        expect(mockPrismaClient.transaction.create).not.toHaveBeenCalled()
+      })
+
+      it('should refuse cards at a store with no payment processor', async () => {
+        mockPrismaClient.storeLocation.findUnique.mockResolvedValueOnce({
+          ...mockStore,
+          paymentProcessor: null
+        })
+
+        await transactionController.createTransaction(
+          mockRequest as Request,
+          mockResponse as Response
+        )
+
+        expect(mockResponse.status).toHaveBeenCalledWith(400)
+        expect(mockResponse.json).toHaveBeenCalledWith({
+          message: 'No card payment processor is configured for this store'
+        })
+        expect(mockPrismaClient.transaction.create).not.toHaveBeenCalled()
+      })
+
+      it('should release the card hold when the sale fails to save', async () => {
+        mockPrismaClient.transaction.create.mockRejectedValueOnce(new Error('connection lost'))
+
+        await transactionController.createTransaction(
+          mockRequest as Request,
+          mockResponse as Response
+        )
+
+        expect(mockResponse.status).toHaveBeenCalledWith(500)
+        expect((await simulator.status(cardReference)).status).toBe('VOIDED')
+      })
+
+      it('should reject tenders that do not add up to the amount due', async () => {
+        mockRequest.body.payments[1].amount = 10
+
+        await transactionController.createTransaction(
+          mockRequest as Request,
+          mockResponse as Response
+        )
+
+        expect(mockResponse.status).toHaveBeenCalledWith(400)
+        expect(mockResponse.json).toHaveBeenCalledWith({
+          message: 'Invalid payment',
+          errors: ['Payments add up to $20.00 but $27.63 is due']
+        })
+        expect(mockPrismaClient.transaction.create).not.toHaveBeenCalled()
+      })
+    })
+
+    it('should not ring a sale on a business day its Z report has closed', async () => {
+      mockRequest.body = validTransactionData
+      mockPrismaClient.zReport.findUnique.mockResolvedValueOnce({ reportNumber: 7 })
+
+      await transactionController.createTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(409)
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: expect.stringMatching(/^Business day \d{4}-\d{2}-\d{2} was closed by Z report #7$/)
+      })
+      expect(mockPrismaClient.transaction.create).not.toHaveBeenCalled()
+    })
+
+    it('should not take cash without an open drawer', async () => {
+      mockRequest.body = validTransactionData
+      mockPrismaClient.product.findUnique
+        .mockResolvedValueOnce(mockProduct1)
+        .mockResolvedValueOnce(mockProduct2)
+      mockPrismaClient.cashDrawerSession.findFirst.mockResolvedValueOnce(null)
+
+      await transactionController.createTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(409)
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: 'Open a cash drawer before taking or refunding cash'
+      })
+      expect(mockPrismaClient.cashDrawerSession.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user-123', storeId: 'store-1', status: 'OPEN' }
+        })
+      )
+      expect(mockPrismaClient.transaction.create).not.toHaveBeenCalled()
+    })
+
+    it('should return 400 if store not found', async () => {
+      mockRequest.body = validTransactionData
+      mockPrismaClient.storeLocation.findUnique.mockResolvedValueOnce(null)
+
+      await transactionController.createTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: 'Store store-1 not found'
+      })
+    })
+
+    it('should load rules for the store jurisdictions', async () => {
+      mockRequest.body = { ...validTransactionData, cartItems: [] }
+      mockPrismaClient.$transaction.mockResolvedValue({ id: 'transaction-123' })
+
+      await transactionController.createTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      const query = mockPrismaClient.complianceRule.findMany.mock.calls[0][0]
+      expect(query.where.AND[1].OR).toEqual([
+        { jurisdictionType: 'FEDERAL', jurisdictionCode: 'US' },
+        { jurisdictionType: 'STATE', jurisdictionCode: 'CA' },
+        { jurisdictionType: 'COUNTY', jurisdictionCode: 'CA-LOS ANGELES' },
+        { jurisdictionType: 'CITY', jurisdictionCode: 'CA-LOS ANGELES' }
+      ])
+    })
+
+    it('should block banned flavors', async () => {
+      mockRequest.body = {
+        ...validTransactionData,
+        cartItems: [{ productId: 'product-3', quantity: 1 }]
+      }
+      mockPrismaClient.product.findUnique.mockResolvedValueOnce({
+        id: 'product-3',
+        name: 'Mango Pod',
+        sku: 'POD-MANGO',
+        price: 15.00,
+        quantity: 10,
+        storeInventory: [{ quantity: 10, minStockLevel: null }],
+        category: 'Pods',
+        flavorProfile: 'Fruit',
+        ageRestricted: true,
+        lotNumber: null,
+        expirationDate: null
+      })
+      mockPrismaClient.complianceRule.findMany.mockResolvedValueOnce([
+        {
+          id: 'rule-ca-flavor',
+          ruleType: 'FLAVOR_BAN',
+          jurisdictionType: 'STATE',
+          jurisdictionCode: 'CA',
+          ruleDetails: {
+            bannedFlavors: ['Fruit', 'Candy', 'Dessert'],
+            exceptions: ['Tobacco', 'Menthol'],
+            effectiveProducts: ['disposable_vapes', 'pods']
+          },
+          enforcementPriority: 'HIGH'
+        }
+      ])
+
+      await transactionController.createTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: 'Transaction blocked by compliance rules',
+        complianceViolations: [
+          expect.objectContaining({
+            ruleId: 'rule-ca-flavor',
+            productId: 'product-3',
+            blocking: true
+          })
+        ]
+      })
+      expect(mockPrismaClient.transaction.create).not.toHaveBeenCalled()
+      expect(mockPrismaClient.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-123',
+          storeId: 'store-1',
+          action: 'compliance_violation',
+          severity: 'high',
+          metadata: { ipAddress: '10.0.0.5', userAgent: 'Register/1.0' }
+        })
+      })
+    })
+
+    it('should audit a sale attempted without age verification', async () => {
+      mockRequest.body = { ...validTransactionData, ageVerificationId: undefined }
+      mockPrismaClient.product.findUnique
+        .mockResolvedValueOnce(mockProduct1)
+        .mockResolvedValueOnce(mockProduct2)
+
+      await transactionController.createTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+      expect(mockPrismaClient.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'age_verification_failed',
+          entityType: 'age_verification',
+          severity: 'high'
+        })
+      })
+    })
+
+    it('should audit the sale and its age check with the transaction', async () => {
+      mockRequest.body = validTransactionData
+      mockPrismaClient.product.findUnique
+        .mockResolvedValueOnce(mockProduct1)
+        .mockResolvedValueOnce(mockProduct2)
+      mockPrismaClient.$transaction.mockImplementationOnce(
+        (callback: (tx: typeof mockPrismaClient) => unknown) => callback(mockPrismaClient)
+      )
+      mockPrismaClient.transaction.create.mockResolvedValueOnce({ id: 'transaction-123' })
+
+      await transactionController.createTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(201)
+      const actions = mockPrismaClient.auditLog.create.mock.calls.map(
+        ([args]: any[]) => args.data.action
+      )
+      expect(actions).toEqual(['transaction_created', 'age_verification_passed'])
+      expect(mockPrismaClient.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'age_verification_passed',
+          entityId: 'verification-1',
+          details: expect.objectContaining({ transactionId: 'transaction-123', calculatedAge: 34 })
+        })
+      })
+      expect(mockPrismaClient.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entityId: 'transaction-123',
+          details: expect.objectContaining({ receiptNumber: expect.any(String), itemCount: 3 })
+        })
+      })
+      expect(mockPrismaClient.ageVerificationLog.updateMany).toHaveBeenCalledWith({
+        where: { id: 'verification-1', transactionId: null },
+        data: { transactionId: 'transaction-123' }
+      })
+      expect(mockPrismaClient.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          ageVerificationRequired: true,
+          ageVerificationCompleted: true
+        })
+      })
+    })
+
+    it('should not accept a verification that already backed another sale', async () => {
+      mockRequest.body = validTransactionData
+      mockPrismaClient.product.findUnique
+        .mockResolvedValueOnce(mockProduct1)
+        .mockResolvedValueOnce(mockProduct2)
+      mockPrismaClient.ageVerificationLog.findUnique.mockResolvedValueOnce({
+        ...mockVerification,
+        transactionId: 'transaction-99',
+        verificationDate: new Date()
+      })
+
+      await transactionController.createTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: 'Age verification has already been used for another sale',
+        requiresAgeVerification: true
+      })
+      expect(mockPrismaClient.transaction.create).not.toHaveBeenCalled()
+    })
+
+    it('should not accept a verification recorded at another store', async () => {
+      mockRequest.body = validTransactionData
+      mockPrismaClient.product.findUnique
+        .mockResolvedValueOnce(mockProduct1)
+        .mockResolvedValueOnce(mockProduct2)
+      mockPrismaClient.ageVerificationLog.findUnique.mockResolvedValueOnce({
+        ...mockVerification,
+        storeId: 'store-2',
+        verificationDate: new Date()
+      })
+
+      await transactionController.createTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+      expect(mockPrismaClient.transaction.create).not.toHaveBeenCalled()
+    })
+
+    describe('offers', () => {
+      const runningOffer = {
+        id: 'offer-1',
+        name: '10% off Test Product 1',
+        offerType: 'PERCENTAGE',
+        discountValue: 10,
+        minPurchaseAmount: 0,
+        maxDiscountAmount: null,
+        targetAudience: 'ALL',
+        customerSegments: null,
+        applicableProducts: ['TEST001'],
+        excludedProducts: null,
+        maxUsesTotal: 100,
+        maxUsesPerCustomer: 1,
+        currentUses: 0,
+        startDate: new Date('2020-01-01'),
+        endDate: new Date('2099-01-01'),
+        isActive: true
+      }
+
+      beforeEach(() => {
+        mockRequest.body = validTransactionData
+        mockPrismaClient.product.findUnique
+          .mockResolvedValueOnce(mockProduct1)
+          .mockResolvedValueOnce(mockProduct2)
+        mockPrismaClient.offer.findMany.mockResolvedValue([runningOffer])
+        mockPrismaClient.offer.findUnique.mockResolvedValue(runningOffer)
+        mockPrismaClient.transaction.create.mockResolvedValueOnce({ id: 'transaction-123' })
+      })
+
+      it('should discount the sale and count the offer use', async () => {
+        mockPrismaClient.offer.updateMany.mockResolvedValueOnce({ count: 1 })
+
+        await transactionController.createTransaction(
+          mockRequest as Request,
+          mockResponse as Response
+        )
+
+        expect(mockResponse.status).toHaveBeenCalledWith(201)
+        expect(mockPrismaClient.transaction.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            subtotalAmount: 25,
+            discountAmount: 2,
+            offersApplied: [
+              expect.objectContaining({ offerId: 'offer-1', discountAmount: 2 })
+            ]
+          })
+        })
+        expect(mockPrismaClient.lineItem.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({ productId: 'product-1', lineDiscount: 2, lineTotal: 18 })
+        })
+        expect(mockPrismaClient.offer.updateMany).toHaveBeenCalledWith({
+          where: { id: 'offer-1', currentUses: { lt: 100 } },
+          data: { currentUses: { increment: 1 } }
+        })
+        expect(mockPrismaClient.offerRedemption.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            offerId: 'offer-1',
+            transactionId: 'transaction-123',
+            discountAmount: 2
+          })
+        })
+      })
+
+      it('should ask for a new quote when the last use was taken by another register', async () => {
+        mockPrismaClient.offer.updateMany.mockResolvedValueOnce({ count: 0 })
+
+        await transactionController.createTransaction(
+          mockRequest as Request,
+          mockResponse as Response
+        )
+
+        expect(mockResponse.status).toHaveBeenCalledWith(409)
+        expect(mockResponse.json).toHaveBeenCalledWith({
+          message: 'Offer 10% off Test Product 1 has reached its use limit'
+        })
+      })
+    })
+  })
+
+  describe('calculateTax', () => {
+    it('should quote per-line tax for the store jurisdiction', async () => {
+      mockRequest.body = {
+        cartItems: [{ productId: 'product-1', quantity: 2 }],
+        storeId: 'store-1'
+      }
+      mockPrismaClient.product.findUnique.mockResolvedValueOnce({
+        id: 'product-1',
+        name: 'Test Product 1',
+        price: 10.00,
+        category: 'Accessories',
+        ageRestricted: false
+      })
+
+      await transactionController.calculateTax(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          subtotal: 20,
+          taxAmount: 1.5,
+          totalAmount: 21.5,
+          lines: [expect.objectContaining({ productId: 'product-1', taxAmount: 1.5 })]
+        })
+      )
+    })
+
+    it('should return 400 if product not found', async () => {
+      mockRequest.body = { cartItems: [{ productId: 'missing', quantity: 1 }], storeId: 'store-1' }
+      mockPrismaClient.product.findUnique.mockResolvedValueOnce(null)
+
+      await transactionController.calculateTax(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+    })
+
+    it.each([0, -2, 1.5])('should return 400 for a quantity of %p', async (quantity) => {
+      mockRequest.body = { cartItems: [{ productId: 'product-1', quantity }], storeId: 'store-1' }
+
+      await transactionController.calculateTax(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: 'Quantity for product-1 must be a whole number more than zero'
+      })
+      expect(mockPrismaClient.product.findUnique).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('quoteTransaction', () => {
+    it('should price the cart without saving or touching stock', async () => {
+      mockRequest.body = {
+        cartItems: [{ productId: 'product-1', quantity: 2 }],
+        storeId: 'store-1',
+        customerId: 'customer-1'
+      }
+      mockPrismaClient.customer.findUnique.mockResolvedValueOnce({
+        id: 'customer-1',
+        loyaltyTier: 'BRONZE',
+        loyaltyPoints: 1500
+      })
+      mockPrismaClient.product.findUnique.mockResolvedValueOnce({
+        id: 'product-1',
+        name: 'Test Product 1',
+        sku: 'TEST-001',
+        price: 10.00,
+        quantity: 5,
+        storeInventory: [{ quantity: 5, minStockLevel: null }],
+        category: 'Accessories',
+        ageRestricted: false
+      })
+
+      await transactionController.quoteTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          subtotal: 20,
+          discountAmount: 0,
+          taxAmount: 1.5,
+          totalAmount: 21.5,
+          loyaltyPointsEarned: 21,
+          loyaltyRedemption: expect.objectContaining({ availablePoints: 1500, maxPoints: 1500 }),
+          amountDue: 21.5,
+          requiredVerifications: [],
+          compliance: { passed: true, violations: [], warnings: [] },
+          lines: [expect.objectContaining({ productId: 'product-1', lineTotal: 20, lineTaxAmount: 1.5 })]
+        })
+      )
+      expect(mockPrismaClient.transaction.create).not.toHaveBeenCalled()
+      expect(mockPrismaClient.product.update).not.toHaveBeenCalled()
+    })
+
+    it('should report required age verification and compliance violations', async () => {
+      mockRequest.body = {
+        cartItems: [{ productId: 'product-1', quantity: 1 }],
+        storeId: 'store-1'
+      }
+      mockPrismaClient.product.findUnique.mockResolvedValueOnce({
+        id: 'product-1',
+        name: 'Strawberry Pod',
+        sku: 'POD-001',
+        price: 15.00,
+        quantity: 5,
+        storeInventory: [{ quantity: 5, minStockLevel: null }],
+        category: 'Pods',
+        flavorProfile: 'Strawberry',
+        ageRestricted: true
+      })
+      mockPrismaClient.complianceRule.findMany.mockResolvedValueOnce([
+        {
+          id: 'rule-1',
+          ruleType: 'FLAVOR_BAN',
+          jurisdictionType: 'STATE',
+          jurisdictionCode: 'CA',
+          ruleDetails: { bannedFlavors: ['*'], exceptions: ['Tobacco'] },
+          enforcementPriority: 'CRITICAL'
+        }
+      ])
+
+      await transactionController.quoteTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      const quote = (mockResponse.json as jest.Mock).mock.calls[0][0]
+      expect(quote.requiredVerifications).toEqual([expect.objectContaining({ type: 'AGE' })])
+      expect(quote.compliance.passed).toBe(false)
+      expect(quote.compliance.violations).toHaveLength(1)
+    })
+
+    it('should return 400 when the selling store is short, whatever other stores hold', async () => {
+      mockRequest.body = { cartItems: [{ productId: 'product-1', quantity: 3 }], storeId: 'store-1' }
+      mockPrismaClient.product.findUnique.mockResolvedValueOnce({
+        id: 'product-1',
+        name: 'Test Product 1',
+        price: 10.00,
+        quantity: 8,
+        storeInventory: [{ quantity: 1, minStockLevel: null }]
+      })
+
+      await transactionController.quoteTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockPrismaClient.product.findUnique).toHaveBeenCalledWith({
+        where: { id: 'product-1' },
+        include: {
+          storeInventory: {
+            where: { storeId: 'store-1' },
+            select: { quantity: true, minStockLevel: true }
+          }
+        }
+      })
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: 'Insufficient stock for Test Product 1. Available: 1, Requested: 3'
+      })
+    })
+
+    it('should check stock against every line of the same product together', async () => {
+      const product = {
+        id: 'product-1',
+        name: 'Test Product 1',
+        price: 10.00,
+        quantity: 3,
+        storeInventory: [{ quantity: 3, minStockLevel: null }]
+      }
+      mockRequest.body = {
+        cartItems: [
+          { productId: 'product-1', quantity: 2 },
+          { productId: 'product-1', quantity: 2 }
+        ],
+        storeId: 'store-1'
+      }
+      mockPrismaClient.product.findUnique
+        .mockResolvedValueOnce(product)
+        .mockResolvedValueOnce(product)
+
+      await transactionController.quoteTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: 'Insufficient stock for Test Product 1. Available: 3, Requested: 4'
+      })
+    })
+
+    it('should return 400 for a quantity that is not a whole number more than zero', async () => {
+      for (const quantity of [0, -2, 1.5]) {
+        mockRequest.body = { cartItems: [{ productId: 'product-1', quantity }], storeId: 'store-1' }
+
+        await transactionController.quoteTransaction(
+          mockRequest as Request,
+          mockResponse as Response
+        )
+
+        expect(mockResponse.status).toHaveBeenLastCalledWith(400)
+        expect(mockResponse.json).toHaveBeenLastCalledWith({
+          message: 'Quantity for product-1 must be a whole number more than zero'
+        })
+      }
+      expect(mockPrismaClient.product.findUnique).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('returnTransaction', () => {
+    const originalSale = {
+      id: 'sale-1',
+      storeId: 'store-1',
+      customerId: 'customer-1',
+      transactionType: 'SALE',
+      paymentStatus: 'COMPLETED',
+      paymentMethod: 'CARD',
+      totalAmount: 43,
+      loyaltyPointsEarned: 43,
+      loyaltyRedemptionAmount: 0,
+      payments: [{ paymentMethod: 'CARD', amount: 43 }],
+      store: mockStore,
+      lineItems: [
+        {
+          id: 'line-1',
+          productId: 'product-1',
+          productName: 'Mint Pod',
+          productSku: 'POD-1',
+          quantity: 3,
+          unitPrice: 10,
+          lineTotal: 30,
+          lineTaxAmount: 2.25,
+          taxDetails: []
+        },
+        {
+          id: 'line-2',
+          productId: 'product-2',
+          productName: 'Charger',
+          productSku: 'CHG-1',
+          quantity: 1,
+          unitPrice: 10,
+          lineTotal: 10,
+          lineTaxAmount: 0.75,
+          taxDetails: []
+        }
+      ]
+    }
+
+    beforeEach(() => {
+      mockRequest.params = { id: 'sale-1' }
+      // Earlier tests can leave queued values behind; clearAllMocks does not drop them
+      mockPrismaClient.transaction.findUnique.mockReset()
+      mockPrismaClient.transaction.findUnique
+        .mockResolvedValueOnce(originalSale)
+        .mockResolvedValueOnce({ id: 'return-1', lineItems: [] })
+      mockPrismaClient.transaction.create.mockResolvedValue({ id: 'return-1' })
+      mockPrismaClient.transaction.count.mockResolvedValue(1)
+      mockPrismaClient.customer.findUnique.mockResolvedValue({ loyaltyPoints: 100 })
+      mockPrismaClient.$transaction.mockImplementation(
+        (callback: (tx: typeof mockPrismaClient) => unknown) => callback(mockPrismaClient)
+      )
+    })
+
+    it('should refund to the original tender, restock and reverse points', async () => {
+      mockRequest.body = {
+        items: [{ lineItemId: 'line-1', quantity: 1, disposition: 'RESTOCK' }]
+      }
+
+      await transactionController.returnTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(201)
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({ refundAmount: 10.75, refundMethod: 'CARD', pointsReversed: 10 })
+      )
+      expect(mockPrismaClient.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          transactionType: 'RETURN',
+          originalTransactionId: 'sale-1',
+          totalAmount: -10.75,
+          paymentStatus: 'REFUNDED',
+          loyaltyPointsEarned: -10
+        })
+      })
+      expect(mockPrismaClient.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'transaction_refunded',
+          entityId: 'return-1',
+          details: expect.objectContaining({
+            originalTransactionId: 'sale-1',
+            refundAmount: 10.75,
+            refundMethod: 'CARD'
+          })
+        })
+      })
+      expect(mockPrismaClient.transactionPayment.create).toHaveBeenCalledWith({
+        data: {
+          transactionId: 'return-1',
+          paymentMethod: 'CARD',
+          amount: -10.75,
+          status: 'REFUNDED',
+          sequence: 0
+        }
+      })
+      expect(mockPrismaClient.lineItem.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          quantity: -1,
+          lineTotal: -10,
+          originalLineItemId: 'line-1',
+          returnDisposition: 'RESTOCK'
+        })
+      })
+      expect(mockPrismaClient.storeInventory.upsert).toHaveBeenCalledWith({
+        where: { productId_storeId: { productId: 'product-1', storeId: 'store-1' } },
+        create: { productId: 'product-1', storeId: 'store-1', quantity: 1 },
+        update: { quantity: { increment: 1 } },
+        select: { quantity: true }
+      })
+      expect(mockPrismaClient.product.update).toHaveBeenCalledWith({
+        where: { id: 'product-1' },
+        data: { quantity: { increment: 1 } }
+      })
+      expect(mockPrismaClient.inventoryMovement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          productId: 'product-1',
+          movementType: 'RETURN',
+          reasonCode: 'RESTOCKED',
+          quantity: 1,
+          quantityAfter: 10,
+          transactionId: 'return-1',
+          lineItemId: 'line-new'
+        })
+      })
+      expect(mockPrismaClient.loyaltyLedger.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entryType: 'EARN',
+          points: -10,
+          transactionId: 'return-1'
+        })
+      })
+      expect(mockPrismaClient.transaction.update).not.toHaveBeenCalled()
+    })
+
+    it('should credit the customer and close out a fully returned sale', async () => {
+      mockRequest.body = {
+        items: [
+          { lineItemId: 'line-1', quantity: 3, disposition: 'WRITE_OFF' },
+          { lineItemId: 'line-2', quantity: 1, disposition: 'RESTOCK' }
+        ],
+        refundMethod: 'STORE_CREDIT'
+      }
+
+      await transactionController.returnTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockPrismaClient.customer.update).toHaveBeenCalledWith({
+        where: { id: 'customer-1' },
+        data: { storeCreditBalance: { increment: 43 } }
+      })
+      expect(mockPrismaClient.customer.updateMany).toHaveBeenCalledWith({
+        where: { id: 'customer-1', loyaltyPoints: { gte: 43 } },
+        data: { loyaltyPoints: { increment: -43 }, pointsLifetimeEarned: { increment: -43 } }
+      })
+      // Written-off stock never comes back on hand
+      expect(mockPrismaClient.product.update).toHaveBeenCalledTimes(1)
+      expect(mockPrismaClient.inventoryMovement.create).toHaveBeenCalledTimes(1)
+      expect(mockPrismaClient.transaction.update).toHaveBeenCalledWith({
+        where: { id: 'sale-1' },
+        data: { paymentStatus: 'REFUNDED' }
+      })
+    })
+
+    it('should refund a split sale to the card before the cash', async () => {
+      mockPrismaClient.transaction.findUnique.mockReset()
+      mockPrismaClient.transaction.findUnique
+        .mockResolvedValueOnce({
+          ...originalSale,
+          paymentMethod: 'SPLIT',
+          payments: [
+            { paymentMethod: 'CASH', amount: 20 },
+            { paymentMethod: 'CARD', amount: 23 }
+          ]
+        })
+        .mockResolvedValueOnce({ id: 'return-1', lineItems: [] })
+      // An earlier return already put $20 back on the card
+      mockPrismaClient.transactionPayment.groupBy.mockResolvedValueOnce([
+        { paymentMethod: 'CARD', _sum: { amount: -20 } }
+      ])
+      mockRequest.body = {
+        items: [{ lineItemId: 'line-1', quantity: 1, disposition: 'RESTOCK' }]
+      }
+
+      await transactionController.returnTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({ refundAmount: 10.75, refundMethod: 'SPLIT' })
+      )
+      expect(mockPrismaClient.transactionPayment.create).toHaveBeenNthCalledWith(1, {
+        data: expect.objectContaining({ paymentMethod: 'CARD', amount: -3 })
+      })
+      expect(mockPrismaClient.transactionPayment.create).toHaveBeenNthCalledWith(2, {
+        data: expect.objectContaining({ paymentMethod: 'CASH', amount: -7.75 })
+      })
+      // The cash comes out of the cashier's drawer
+      expect(mockPrismaClient.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ cashDrawerSessionId: 'drawer-1' })
+      })
+    })
+
+    // The original sale, paid by a card the simulator has captured
+    const cardSale = async () => {
+      const authorization = await authorizeCard(43)
+      await simulator.capture(authorization.reference)
+      mockPrismaClient.transaction.findUnique.mockReset()
+      mockPrismaClient.transaction.findUnique
+        .mockResolvedValueOnce({
+          ...originalSale,
+          payments: [
+            {
+              paymentMethod: 'CARD',
+              amount: 43,
+              processor: 'SIMULATOR',
+              reference: authorization.reference
+            }
+          ]
+        })
+        .mockResolvedValueOnce({ id: 'return-1', lineItems: [] })
+      mockRequest.body = {
+        items: [{ lineItemId: 'line-1', quantity: 1, disposition: 'RESTOCK' }]
+      }
+      return authorization.reference
+    }
+
+    it('should refund the card at the processor once the return has saved', async () => {
+      const reference = await cardSale()
+
+      await transactionController.returnTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(201)
+      expect(mockPrismaClient.transactionPayment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          paymentMethod: 'CARD',
+          amount: -10.75,
+          processor: 'SIMULATOR',
+          reference
+        })
+      })
+      expect((await simulator.status(reference)).refundedAmount).toBe(10.75)
+    })
+
+    it('should not refund the card when the return fails to save', async () => {
+      const reference = await cardSale()
+      mockPrismaClient.transaction.create.mockRejectedValueOnce(new Error('Connection lost'))
+
+      await transactionController.returnTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(500)
+      expect((await simulator.status(reference)).refundedAmount).toBe(0)
+    })
+
+    it('should reject quantities beyond what is left after earlier returns', async () => {
+      mockPrismaClient.lineItem.findMany.mockResolvedValueOnce([
+        { originalLineItemId: 'line-2', quantity: -1, lineTotal: -10, lineTaxAmount: -0.75 }
+      ])
+      mockRequest.body = {
+        items: [{ lineItemId: 'line-2', quantity: 1, disposition: 'RESTOCK' }]
+      }
+
+      await transactionController.returnTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: 'Cannot return 1 of Charger: 1 sold, 1 already returned'
+      })
+      expect(mockPrismaClient.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should recheck the sale once locked when another register returned it meanwhile', async () => {
+      mockPrismaClient.lineItem.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([
+          { originalLineItemId: 'line-2', quantity: -1, lineTotal: -10, lineTaxAmount: -0.75 }
+        ])
+      mockRequest.body = {
+        items: [{ lineItemId: 'line-2', quantity: 1, disposition: 'RESTOCK' }]
+      }
+
+      await transactionController.returnTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockPrismaClient.$executeRaw).toHaveBeenCalled()
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: 'Cannot return 1 of Charger: 1 sold, 1 already returned'
+      })
+    })
+
+    it('should not return a sale voided after it was read', async () => {
+      mockPrismaClient.transaction.count.mockResolvedValue(0)
+      mockRequest.body = {
+        items: [{ lineItemId: 'line-1', quantity: 1, disposition: 'RESTOCK' }]
+      }
+
+      await transactionController.returnTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        message: 'The sale was voided or fully returned while this return was in progress'
+      })
+      expect(mockPrismaClient.transaction.create).not.toHaveBeenCalled()
+    })
+
+    it('should collect the balance on an exchange for a pricier item', async () => {
+      mockPrismaClient.product.findUnique.mockResolvedValueOnce({
+        id: 'product-3',
+        name: 'Vape Kit',
+        sku: 'KIT-1',
+        price: 40,
+        quantity: 2,
+        storeInventory: [{ quantity: 2, minStockLevel: null }],
+        category: 'Accessories',
+        ageRestricted: false
+      })
+      mockRequest.body = {
+        items: [{ lineItemId: 'line-2', quantity: 1, disposition: 'RESTOCK' }],
+        exchangeItems: [{ productId: 'product-3', quantity: 1 }],
+        paymentMethod: 'CASH',
+        cashTendered: 40
+      }
+
+      await transactionController.returnTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({ balanceDue: 32.25, refundAmount: 0 })
+      )
+      expect(mockPrismaClient.transaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          transactionType: 'EXCHANGE',
+          paymentMethod: 'CASH',
+          paymentStatus: 'COMPLETED',
+          changeGiven: 7.75
+        })
+      })
+      expect(mockPrismaClient.storeInventory.upsert).toHaveBeenCalledWith({
+        where: { productId_storeId: { productId: 'product-3', storeId: 'store-1' } },
+        create: { productId: 'product-3', storeId: 'store-1', quantity: -1 },
+        update: { quantity: { increment: -1 } },
+        select: { quantity: true }
+      })
+      expect(mockPrismaClient.product.update).toHaveBeenCalledWith({
+        where: { id: 'product-3' },
+        data: { quantity: { increment: -1 } }
+      })
+      expect(mockPrismaClient.inventoryMovement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          productId: 'product-3',
+          movementType: 'SALE',
+          reasonCode: 'SOLD',
+          quantity: -1
+        })
+      })
+    })
+
+    it('should return 404 for an unknown transaction', async () => {
+      mockPrismaClient.transaction.findUnique.mockReset()
+      mockPrismaClient.transaction.findUnique.mockResolvedValueOnce(null)
+      mockRequest.body = { items: [] }
+
+      await transactionController.returnTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404)
+    })
+  })
+
+  describe('voidTransaction', () => {
+    const todaysSale = () => ({
+      id: 'sale-1',
+      receiptNumber: 'R1',
+      storeId: 'store-1',
+      customerId: 'customer-1',
+      transactionType: 'SALE',
+      paymentStatus: 'COMPLETED',
+      transactionDate: new Date(),
+      totalAmount: 21.5,
+      paymentMethod: 'CASH',
+      payments: [{ paymentMethod: 'CASH', amount: 21.5 }],
+      loyaltyPointsEarned: 21,
+      loyaltyPointsRedeemed: 0,
+      loyaltyRedemptionAmount: 0,
+      quickBooksId: null as string | null,
+      store: mockStore,
+      lineItems: [{ productId: 'product-1', quantity: 2 }]
+    })
+
+    beforeEach(() => {
+      mockRequest.params = { id: 'sale-1' }
+      mockRequest.body = { reason: 'Rang up wrong item' }
+      mockRequest.user = {
+        id: 'manager-1',
+        username: 'manager',
+        role: 'MANAGER' as const,
+        storeId: 'store-1',
+        isActive: true
+      }
+      mockPrismaClient.transaction.findUnique.mockReset()
+      // Each test queues the sale it voids; later reads see it voided
+      mockPrismaClient.transaction.findUnique.mockResolvedValue({ id: 'sale-1', paymentStatus: 'VOIDED' })
+      mockPrismaClient.transaction.count.mockResolvedValue(0)
+      mockPrismaClient.transaction.updateMany.mockResolvedValue({ count: 1 })
+      mockPrismaClient.customer.findUnique.mockResolvedValue({ loyaltyPoints: 50 })
+      mockPrismaClient.$transaction.mockImplementation(
+        (callback: (tx: typeof mockPrismaClient) => unknown) => callback(mockPrismaClient)
+      )
+    })
+
+    it('should void, restock, reverse the customer and write a high-severity audit event', async () => {
+      mockPrismaClient.transaction.findUnique.mockResolvedValueOnce(todaysSale())
+
+      await transactionController.voidTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockPrismaClient.transaction.updateMany).toHaveBeenCalledWith({
+        where: { id: 'sale-1', paymentStatus: 'COMPLETED' },
+        data: expect.objectContaining({
+          paymentStatus: 'VOIDED',
+          voidedById: 'manager-1',
+          voidReason: 'Rang up wrong item'
+        })
+      })
+      expect(mockPrismaClient.storeInventory.upsert).toHaveBeenCalledWith({
+        where: { productId_storeId: { productId: 'product-1', storeId: 'store-1' } },
+        create: { productId: 'product-1', storeId: 'store-1', quantity: 2 },
+        update: { quantity: { increment: 2 } },
+        select: { quantity: true }
+      })
+      expect(mockPrismaClient.product.update).toHaveBeenCalledWith({
+        where: { id: 'product-1' },
+        data: { quantity: { increment: 2 } }
+      })
+      expect(mockPrismaClient.inventoryMovement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          productId: 'product-1',
+          movementType: 'VOID',
+          reasonCode: 'VOIDED',
+          quantity: 2,
+          userId: 'manager-1',
+          transactionId: 'sale-1'
+        })
+      })
+      expect(mockPrismaClient.customer.update).toHaveBeenCalledWith({
+        where: { id: 'customer-1' },
+        data: {
+          totalSpent: { decrement: 21.5 },
+          transactionCount: { decrement: 1 }
+        }
+      })
+      expect(mockPrismaClient.loyaltyLedger.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          entryType: 'EARN',
+          points: -21,
+          transactionId: 'sale-1',
+          employeeId: 'manager-1',
+          reason: 'Sale voided'
+        })
+      })
+      expect(mockPrismaClient.transactionPayment.updateMany).toHaveBeenCalledWith({
+        where: { transactionId: 'sale-1' },
+        data: { status: 'VOIDED' }
+      })
+      expect(mockPrismaClient.giftCardLedger.create).not.toHaveBeenCalled()
+      expect(mockPrismaClient.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: 'transaction_voided',
+          entityId: 'sale-1',
+          severity: 'high'
+        })
+      })
+      expect(mockPrismaClient.quickBooksIntegration.findUnique).not.toHaveBeenCalled()
+    })
+
+    it('should put a gift card payment back on the card', async () => {
+      mockPrismaClient.transaction.findUnique.mockResolvedValueOnce({
+        ...todaysSale(),
+        paymentMethod: 'GIFT_CARD',
+        payments: [{ paymentMethod: 'GIFT_CARD', amount: 21.5 }]
+      })
+      mockPrismaClient.giftCardLedger.findMany
+        .mockResolvedValueOnce([{ giftCardId: 'card-1', entryType: 'REDEEM', amount: -21.5 }])
+        .mockResolvedValueOnce([])
+      mockPrismaClient.giftCard.updateMany.mockResolvedValueOnce({ count: 1 })
+      mockPrismaClient.giftCard.findUnique.mockResolvedValueOnce({ balance: 21.5 })
+
+      await transactionController.voidTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockPrismaClient.giftCardLedger.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          giftCardId: 'card-1',
+          entryType: 'REFUND',
+          amount: 21.5,
+          balanceAfter: 21.5,
+          transactionId: 'sale-1',
+          employeeId: 'manager-1',
+          reason: 'Sale voided'
+        })
+      })
+    })
+
+    it('should give spent store credit back to the customer', async () => {
+      mockPrismaClient.transaction.findUnique.mockResolvedValueOnce({
+        ...todaysSale(),
+        paymentMethod: 'STORE_CREDIT',
+        payments: [{ paymentMethod: 'STORE_CREDIT', amount: 21.5 }]
+      })
+
+      await transactionController.voidTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockPrismaClient.customer.update).toHaveBeenCalledWith({
+        where: { id: 'customer-1' },
+        data: expect.objectContaining({ storeCreditBalance: { increment: 21.5 } })
+      })
+    })
+
+    it('should void a card payment at the processor that took it', async () => {
+      const authorization = await authorizeCard(21.5)
+      await simulator.capture(authorization.reference)
+      mockPrismaClient.transaction.findUnique.mockResolvedValueOnce({
+        ...todaysSale(),
+        paymentMethod: 'CARD',
+        payments: [
+          {
+            paymentMethod: 'CARD',
+            amount: 21.5,
+            processor: 'SIMULATOR',
+            reference: authorization.reference
+          }
+        ]
+      })
+
+      await transactionController.voidTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Transaction voided successfully' })
+      )
+      expect((await simulator.status(authorization.reference)).status).toBe('VOIDED')
+    })
+
+    it('should leave the card payment alone when the void fails to save', async () => {
+      const authorization = await authorizeCard(21.5)
+      await simulator.capture(authorization.reference)
+      mockPrismaClient.transaction.findUnique.mockResolvedValueOnce({
+        ...todaysSale(),
+        paymentMethod: 'CARD',
+        payments: [
+          {
+            paymentMethod: 'CARD',
+            amount: 21.5,
+            processor: 'SIMULATOR',
+            reference: authorization.reference
+          }
+        ]
+      })
+      mockPrismaClient.transaction.updateMany.mockRejectedValueOnce(new Error('Connection lost'))
+
+      await transactionController.voidTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(500)
+      expect((await simulator.status(authorization.reference)).status).toBe('CAPTURED')
+    })
+
+    it('should void the synced QuickBooks sales receipt', async () => {
+      mockPrismaClient.transaction.findUnique.mockResolvedValueOnce({
+        ...todaysSale(),
+        quickBooksId: 'qb_receipt_sale-1'
+      })
+      mockPrismaClient.quickBooksIntegration.findUnique.mockResolvedValueOnce({
+        id: 'qb-1',
+        isActive: true,
+        realmId: 'realm',
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        syncErrors: null
+      })
+
+      await transactionController.voidTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({ quickBooks: { status: 'SYNCED' } })
+      )
+    })
+
+    it('should require manager credentials from a cashier', async () => {
+      mockRequest.user = { ...mockRequest.user!, id: 'cashier-1', role: 'CASHIER' as const }
+      mockPrismaClient.transaction.findUnique.mockResolvedValueOnce(todaysSale())
+
+      await transactionController.voidTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403)
+      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Manager credentials are required' })
+      expect(mockPrismaClient.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should accept a manager keying in their credentials', async () => {
+      mockRequest.user = { ...mockRequest.user!, id: 'cashier-1', role: 'CASHIER' as const }
+      mockRequest.body.managerCredentials = { username: 'manager', password: 'Secret123!' }
+      mockPrismaClient.transaction.findUnique.mockResolvedValueOnce(todaysSale())
+      mockPrismaClient.user.findUnique.mockResolvedValueOnce({
+        id: 'manager-1',
+        username: 'manager',
+        passwordHash: bcrypt.hashSync('Secret123!', 4),
+        role: 'MANAGER',
+        storeId: 'store-1',
+        isActive: true,
+        lockedUntil: null
+      })
+
+      await transactionController.voidTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockPrismaClient.transaction.updateMany).toHaveBeenCalledWith({
+        where: { id: 'sale-1', paymentStatus: 'COMPLETED' },
+        data: expect.objectContaining({ voidedById: 'manager-1' })
+      })
+      expect(mockPrismaClient.auditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'cashier-1',
+          details: expect.objectContaining({ approvedBy: 'manager-1', managerOverride: true })
+        })
+      })
+    })
+
+    it('should count a wrong manager password against the manager', async () => {
+      mockRequest.user = { ...mockRequest.user!, id: 'cashier-1', role: 'CASHIER' as const }
+      mockRequest.body.managerCredentials = { username: 'manager', password: 'Wrong123!' }
+      mockPrismaClient.transaction.findUnique.mockResolvedValueOnce(todaysSale())
+      mockPrismaClient.user.findUnique.mockResolvedValueOnce({
+        id: 'manager-1',
+        username: 'manager',
+        passwordHash: bcrypt.hashSync('Secret123!', 4),
+        role: 'MANAGER',
+        storeId: 'store-1',
+        isActive: true,
+        failedLoginAttempts: 1,
+        lockedUntil: null
+      })
+
+      await transactionController.voidTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockPrismaClient.user.update).toHaveBeenCalledWith({
+        where: { id: 'manager-1' },
+        data: { failedLoginAttempts: 2, lockedUntil: null }
+      })
+      expect(mockResponse.status).toHaveBeenCalledWith(403)
+      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Invalid manager credentials' })
+      expect(mockPrismaClient.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should lock the manager out after too many wrong passwords', async () => {
+      mockRequest.user = { ...mockRequest.user!, id: 'cashier-1', role: 'CASHIER' as const }
+      mockRequest.body.managerCredentials = { username: 'manager', password: 'Wrong123!' }
+      mockPrismaClient.transaction.findUnique.mockResolvedValueOnce(todaysSale())
+      mockPrismaClient.user.findUnique.mockResolvedValueOnce({
+        id: 'manager-1',
+        username: 'manager',
+        passwordHash: bcrypt.hashSync('Secret123!', 4),
+        role: 'MANAGER',
+        storeId: 'store-1',
+        isActive: true,
+        failedLoginAttempts: 4,
+        lockedUntil: null
+      })
+
+      await transactionController.voidTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockPrismaClient.user.update).toHaveBeenCalledWith({
+        where: { id: 'manager-1' },
+        data: { failedLoginAttempts: 5, lockedUntil: expect.any(Date) }
+      })
+      expect(mockResponse.status).toHaveBeenCalledWith(403)
+    })
+
+    it('should let only one register void the sale', async () => {
+      mockPrismaClient.transaction.findUnique.mockResolvedValueOnce(todaysSale())
+      mockPrismaClient.transaction.updateMany.mockResolvedValueOnce({ count: 0 })
+
+      await transactionController.voidTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockPrismaClient.$executeRaw).toHaveBeenCalled()
+      expect(mockResponse.status).toHaveBeenCalledWith(409)
+      expect(mockPrismaClient.inventoryMovement.create).not.toHaveBeenCalled()
+      expect(mockPrismaClient.customer.update).not.toHaveBeenCalled()
+    })
+
+    it('should not void a sale returned against after it was read', async () => {
+      mockPrismaClient.transaction.findUnique.mockResolvedValueOnce(todaysSale())
+      mockPrismaClient.transaction.count.mockResolvedValueOnce(0).mockResolvedValueOnce(1)
+
+      await transactionController.voidTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(409)
+      expect(mockPrismaClient.transaction.updateMany).not.toHaveBeenCalled()
+    })
+
+    it('should only void transactions from the current business day', async () => {
+      mockPrismaClient.transaction.findUnique.mockResolvedValueOnce({
+        ...todaysSale(),
+        transactionDate: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000)
+      })
+
+      await transactionController.voidTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+      expect(mockPrismaClient.$transaction).not.toHaveBeenCalled()
+    })
+
+    it('should require a reason', async () => {
+      mockRequest.body = { reason: '  ' }
+
+      await transactionController.voidTransaction(
+        mockRequest as Request,
+        mockResponse as Response
+      )
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400)
+    })
   })
 
   describe('getTransaction', () => {
@@ -0,0 +1,190 @@
+import { parseAamvaBarcode } from '../../../shared/services/aamva'
+
+// Builds a payload the way a card encodes it, with a correct subfile directory
+function buildBarcode({
+  iin = '636014',
+  version = 8,
+  subfileType = 'DL',
+  elements,
+}: {
+  iin?: string
+  version?: number
+  subfileType?: string
+  elements: string[]
+}): string {
+  const versionPart = version === 1 ? '01' : `${String(version).padStart(2, '0')}00`
+  const header = `@\n\u001e\rANSI ${iin}${versionPart}01`
+  const subfile = `${subfileType}${elements.join('\n')}\r`
+  const offset = header.length + 10
+  const designator = `${subfileType}${String(offset).padStart(4, '0')}${String(subfile.length).padStart(4, '0')}`
+  return `${header}${designator}${subfile}`
+}
+
+describe('AAMVA barcode parsing', () => {
+  const now = new Date('2026-03-02T18:00:00.000Z')
+
+  const californiaElements = [
+    'DAQD1234567',
+    'DCSMORALES',
+    'DACMARIA',
+    'DADELENA',
+    'DBB05151990',
+    'DBA05152030',
+    'DBD05152022',
+    'DAG123 MAIN ST',
+    'DAISACRAMENTO',
+    'DAJCA',
+    'DAK958140000',
+    'DCGUSA',
+  ]
+
+  it('should read a current US license', () => {
+    const result = parseAamvaBarcode(buildBarcode({ elements: californiaElements }), now)
+
+    expect(result.valid).toBe(true)
+    expect(result.issues).toEqual([])
+    expect(result.confidenceScore).toBe(1)
+    expect(result).toEqual(
+      expect.objectContaining({
+        aamvaVersion: 8,
+        jurisdictionVersion: 0,
+        issuerIdentificationNumber: '636014',
+      }),
+    )
+    expect(result.license).toEqual({
+      documentType: 'DL',
+      idNumber: 'D1234567',
+      firstName: 'MARIA',
+      middleName: 'ELENA',
+      lastName: 'MORALES',
+      dateOfBirth: '1990-05-15',
+      expirationDate: '2030-05-15',
+      issueDate: '2022-05-15',
+      issuingJurisdiction: 'CA',
+      country: 'USA',
+      address: {
+        street: '123 MAIN ST',
+        street2: undefined,
+        city: 'SACRAMENTO',
+        jurisdiction: 'CA',
+        postalCode: '95814',
+      },
+    })
+  })
+
+  it('should read version 1 dates year first and split the full name', () => {
+    const result = parseAamvaBarcode(
+      buildBarcode({
+        iin: '636001',
+        version: 1,
+        subfileType: 'ID',
+        elements: ['DAQ123456789', 'DAADOE,JANE,Q', 'DBB19850704', 'DBA20280704', 'DAJNY'],
+      }),
+      now,
+    )
+
+    expect(result.valid).toBe(true)
+    expect(result.jurisdictionVersion).toBeUndefined()
+    expect(result.license).toEqual(
+      expect.objectContaining({
+        documentType: 'ID',
+        lastName: 'DOE',
+        firstName: 'JANE',
+        middleName: 'Q',
+        dateOfBirth: '1985-07-04',
+        expirationDate: '2028-07-04',
+      }),
+    )
+  })
+
+  it('should read Canadian dates year first', () => {
+    const result = parseAamvaBarcode(
+      buildBarcode({
+        iin: '636012',
+        version: 9,
+        elements: [
+          'DAQS1234-56789-01234',
+          'DCSTREMBLAY',
+          'DACLUC',
+          'DBB19920311',
+          'DBA20290311',
+          'DAJON',
+          'DCGCAN',
+          'DAKM5V 2T6',
+        ],
+      }),
+      now,
+    )
+
+    expect(result.issues).toEqual([])
+    expect(result.license).toEqual(
+      expect.objectContaining({ country: 'CAN', dateOfBirth: '1992-03-11' }),
+    )
+  })
+
+  it('should reject payloads that are not AAMVA or use an unknown version', () => {
+    const notALicense = parseAamvaBarcode('https://example.com/coupon', now)
+    expect(notALicense.valid).toBe(false)
+    expect(notALicense.confidenceScore).toBe(0)
+    expect(notALicense.issues[0].code).toBe('INVALID_HEADER')
+
+    const future = parseAamvaBarcode(
+      buildBarcode({ version: 11, elements: californiaElements }),
+      now,
+    )
+    expect(future.issues[0].code).toBe('UNSUPPORTED_VERSION')
+  })
+
+  it('should fail when a required field is missing or unreadable', () => {
+    const result = parseAamvaBarcode(
+      buildBarcode({ elements: ['DAQD1234567', 'DCSMORALES', 'DBA13452030'] }),
+      now,
+    )
+
+    expect(result.valid).toBe(false)
+    expect(result.license).toBeUndefined()
+    expect(result.issues.map((entry) => [entry.code, entry.element])).toEqual([
+      ['MISSING_FIELD', 'DBB'],
+      ['INVALID_DATE', 'DBA'],
+    ])
+  })
+
+  it('should reject a date of birth in the future', () => {
+    const elements = californiaElements.map((element) =>
+      element.startsWith('DBB') ? 'DBB01012030' : element,
+    )
+    const result = parseAamvaBarcode(buildBarcode({ elements }), now)
+
+    expect(result.valid).toBe(false)
+    expect(result.issues.map((entry) => entry.code)).toEqual(['DOB_IN_FUTURE'])
+  })
+
+  it('should flag an issuer number that does not match the jurisdiction', () => {
+    const result = parseAamvaBarcode(
+      buildBarcode({ iin: '636015', elements: californiaElements }),
+      now,
+    )
+
+    expect(result.valid).toBe(true)
+    expect(result.issues).toEqual([
+      expect.objectContaining({ code: 'IIN_JURISDICTION_MISMATCH', severity: 'warning' }),
+    ])
+    expect(result.confidenceScore).toBe(0.8)
+
+    const unknown = parseAamvaBarcode(
+      buildBarcode({ iin: '999999', elements: californiaElements }),
+      now,
+    )
+    expect(unknown.issues.map((entry) => entry.code)).toEqual(['UNKNOWN_IIN'])
+  })
+
+  it('should still read a scan whose control characters were lost by the wedge', () => {
+    const raw = buildBarcode({ elements: californiaElements }).replace(/[\u001e\r]/g, '')
+    const result = parseAamvaBarcode(raw, now)
+
+    expect(result.valid).toBe(true)
+    expect(result.license?.dateOfBirth).toBe('1990-05-15')
+    expect(result.issues.map((entry) => entry.code)).toEqual(['SUBFILE_OFFSET_MISMATCH'])
+    expect(result.confidenceScore).toBe(0.95)
+  })
+})
@@ -0,0 +1,317 @@
+import {
+  calculateAge,
+  evaluateAgeVerification,
+  parseAgeVerificationRequest,
+  checkVerificationForSale,
+  checkOverridable,
+  applyBarcodeScan,
+  resolveAgeVerificationPolicy,
+  applyIdPolicy,
+  AgeVerificationError,
+} from '../../../shared/services/ageVerificationLog'
+import type { AgeVerificationLog, ComplianceRule } from '../../../generated/prisma'
+import type { AgeVerificationPolicy } from '../../../shared/types/ageVerification'
+
+describe('Age verification log', () => {
+  const today = new Date('2026-03-02')
+
+  const log = (overrides: Partial<AgeVerificationLog> = {}): AgeVerificationLog =>
+    ({
+      id: 'verification-1',
+      transactionId: null,
+      customerId: 'customer-1',
+      employeeId: 'user-1',
+      storeId: 'store-1',
+      verificationDate: new Date('2026-03-02T18:00:00.000Z'),
+      calculatedAge: 30,
+      isVerified: true,
+      managerOverride: false,
+      ...overrides,
+    }) as AgeVerificationLog
+
+  describe('calculateAge', () => {
+    it('should only count a year once the birthday has passed', () => {
+      expect(calculateAge(new Date('2005-03-02'), today)).toBe(21)
+      expect(calculateAge(new Date('2005-03-03'), today)).toBe(20)
+    })
+
+    it('should treat a 29 February birthday as 1 March in common years', () => {
+      expect(calculateAge(new Date('2004-02-29'), new Date('2025-02-28'))).toBe(20)
+      expect(calculateAge(new Date('2004-02-29'), new Date('2025-03-01'))).toBe(21)
+    })
+  })
+
+  describe('evaluateAgeVerification', () => {
+    it('should pass a customer who is old enough with a current ID', () => {
+      expect(evaluateAgeVerification(new Date('1990-05-15'), today, today)).toEqual({
+        calculatedAge: 35,
+        isVerified: true,
+        reasonForDenial: undefined,
+        requiresManagerOverride: false,
+        complianceWarnings: [],
+      })
+    })
+
+    it('should offer an override only for an expired ID', () => {
+      const expired = evaluateAgeVerification(new Date('1990-05-15'), new Date('2026-03-01'), today)
+      expect(expired).toEqual(
+        expect.objectContaining({
+          isVerified: false,
+          requiresManagerOverride: true,
+          reasonForDenial: 'Expired identification document',
+        }),
+      )
+
+      const underage = evaluateAgeVerification(
+        new Date('2006-01-01'),
+        new Date('2030-01-01'),
+        today,
+      )
+      expect(underage).toEqual(
+        expect.objectContaining({
+          calculatedAge: 20,
+          isVerified: false,
+          requiresManagerOverride: false,
+          complianceWarnings: ['Customer is under 21 (tobacco age restriction)'],
+        }),
+      )
+    })
+  })
+
+  describe('parseAgeVerificationRequest', () => {
+    it('should ignore an age or outcome sent by the register', () => {
+      const request = parseAgeVerificationRequest({
+        idType: 'drivers_license',
+        idIssuingState: 'ny',
+        idExpirationDate: '2030-05-15',
+        customerDob: '1990-05-15T00:00:00.000Z',
+        verificationMethod: 'scanner',
+        calculatedAge: 40,
+        isVerified: true,
+      })
+
+      expect(request).toEqual(
+        expect.objectContaining({
+          idIssuingState: 'NY',
+          customerDob: new Date('1990-05-15'),
+          verificationMethod: 'scanner',
+        }),
+      )
+      expect(request).not.toHaveProperty('calculatedAge')
+      expect(request).not.toHaveProperty('isVerified')
+    })
+
+    it('should reject unknown ID types and malformed dates', () => {
+      expect(() =>
+        parseAgeVerificationRequest({
+          idType: 'library_card',
+          idExpirationDate: '2030-01-01',
+          customerDob: '1990-01-01',
+        }),
+      ).toThrow(AgeVerificationError)
+      expect(() =>
+        parseAgeVerificationRequest({
+          idType: 'passport',
+          idExpirationDate: '2030-01-01',
+          customerDob: '01/01/1990',
+        }),
+      ).toThrow('customerDob must be a date in the form YYYY-MM-DD')
+    })
+  })
+
+  describe('applyBarcodeScan', () => {
+    const barcode =
+      '@\n\u001e\rANSI 636014080001DL00310064' +
+      'DLDAQD1234567\nDCSMORALES\nDACMARIA\nDBB05152006\nDBA05152030\nDAJCA\r'
+
+    it('should take the dates from the barcode rather than the form', () => {
+      const { request, warnings } = applyBarcodeScan(
+        parseAgeVerificationRequest({
+          idType: 'passport',
+          idExpirationDate: '2030-05-15',
+          customerDob: '1980-01-01',
+          verificationMethod: 'scanner',
+          scannerData: { confidenceScore: 1, rawData: barcode },
+        }),
+        new Date('2026-03-02T18:00:00.000Z'),
+      )
+
+      expect(warnings).toEqual([])
+      expect(request).toEqual(
+        expect.objectContaining({
+          idType: 'drivers_license',
+          idIssuingState: 'CA',
+          customerDob: new Date('2006-05-15'),
+        }),
+      )
+      expect(request.scannerData?.rawData).toEqual(
+        expect.objectContaining({
+          aamvaVersion: 8,
+          issuerIdentificationNumber: '636014',
+          elements: expect.objectContaining({ DBB: '05152006' }),
+        }),
+      )
+    })
+
+    it('should reject a barcode that cannot be read', () => {
+      expect(() =>
+        applyBarcodeScan(
+          parseAgeVerificationRequest({
+            idType: 'drivers_license',
+            idExpirationDate: '2030-05-15',
+            customerDob: '1980-01-01',
+            verificationMethod: 'scanner',
+            scannerData: { rawData: 'not a license' },
+          }),
+          new Date('2026-03-02T18:00:00.000Z'),
+        ),
+      ).toThrow('Scanned ID could not be read: Barcode is not an AAMVA driver license or ID')
+    })
+  })
+
+  describe('resolveAgeVerificationPolicy', () => {
+    const rule = (id: string, ruleDetails: object, ruleType = 'AGE_VERIFICATION') =>
+      ({ id, ruleType, ruleDetails }) as unknown as ComplianceRule
+    const store = { id: 'store-1', stateCode: 'ny' }
+
+    it('should fall back to the federal minimum and every ID type without rules', () => {
+      expect(resolveAgeVerificationPolicy([], store)).toEqual({
+        storeId: 'store-1',
+        stateCode: 'NY',
+        minimumAge: 21,
+        requireIdUnder: undefined,
+        acceptableIdTypes: ['drivers_license', 'state_id', 'passport', 'military_id'],
+        outOfStateIds: 'ACCEPT',
+        ruleIds: [],
+      })
+    })
+
+    it('should take the strictest of the federal, state and local rules', () => {
+      const policy = resolveAgeVerificationPolicy(
+        [
+          rule('federal', {
+            minAge: 21,
+            requireIdUnder: 30,
+            acceptableIds: ['DRIVER_LICENSE', 'STATE_ID', 'PASSPORT'],
+          }),
+          rule('state', {
+            minAge: 21,
+            requireIdUnder: 35,
+            acceptableIds: ['driver_license', 'state_id', 'military_id'],
+            outOfStateIds: 'MANAGER_APPROVAL',
+          }),
+          rule('city', { minAge: 25, outOfStateIds: 'ACCEPT' }),
+          rule('tax', { taxType: 'PERCENTAGE', rate: 0.1 }, 'TAX_RATE'),
+        ],
+        store,
+      )
+
+      expect(policy).toEqual(
+        expect.objectContaining({
+          minimumAge: 25,
+          requireIdUnder: 35,
+          acceptableIdTypes: ['drivers_license', 'state_id'],
+          outOfStateIds: 'MANAGER_APPROVAL',
+          ruleIds: ['federal', 'state', 'city'],
+        }),
+      )
+    })
+  })
+
+  describe('applyIdPolicy', () => {
+    const policy: AgeVerificationPolicy = {
+      storeId: 'store-1',
+      stateCode: 'NY',
+      minimumAge: 21,
+      acceptableIdTypes: ['drivers_license', 'state_id', 'passport'],
+      outOfStateIds: 'MANAGER_APPROVAL',
+      ruleIds: ['rule-1'],
+    }
+    const passed = evaluateAgeVerification(new Date('1990-05-15'), new Date('2030-05-15'), today)
+
+    it('should leave an accepted in-state ID alone', () => {
+      expect(
+        applyIdPolicy(passed, { idType: 'drivers_license', idIssuingState: 'NY' }, policy),
+      ).toBe(passed)
+      expect(applyIdPolicy(passed, { idType: 'passport' }, policy)).toBe(passed)
+    })
+
+    it('should refuse ID types the jurisdiction does not accept', () => {
+      expect(applyIdPolicy(passed, { idType: 'military_id' }, policy)).toEqual(
+        expect.objectContaining({
+          isVerified: false,
+          requiresManagerOverride: false,
+          reasonForDenial: 'Military ID is not accepted in NY',
+        }),
+      )
+    })
+
+    it('should send out-of-state IDs to a manager or refuse them', () => {
+      const outOfState = { idType: 'drivers_license' as const, idIssuingState: 'NJ' }
+      expect(applyIdPolicy(passed, outOfState, policy)).toEqual(
+        expect.objectContaining({
+          isVerified: false,
+          requiresManagerOverride: true,
+          reasonForDenial: 'Out-of-state ID (NJ) requires manager approval',
+        }),
+      )
+      expect(applyIdPolicy(passed, outOfState, { ...policy, outOfStateIds: 'REJECT' })).toEqual(
+        expect.objectContaining({ isVerified: false, requiresManagerOverride: false }),
+      )
+    })
+
+    it('should not let a manager accept an ID the policy refuses', () => {
+      expect(() =>
+        checkOverridable(
+          log({ isVerified: false, idType: 'military_id', idIssuingState: null }),
+          policy,
+        ),
+      ).toThrow('Military ID is not accepted in NY and cannot be overridden')
+      expect(() =>
+        checkOverridable(
+          log({ isVerified: false, idType: 'drivers_license', idIssuingState: 'NJ' }),
+          policy,
+        ),
+      ).not.toThrow()
+    })
+  })
+
+  describe('checkVerificationForSale', () => {
+    const sale = {
+      storeId: 'store-1',
+      customerId: 'customer-1',
+      minimumAge: 21,
+      at: new Date('2026-03-02T18:10:00.000Z'),
+    }
+
+    it('should accept a recent passing check from the same store', () => {
+      expect(checkVerificationForSale(log(), sale).id).toBe('verification-1')
+      expect(
+        checkVerificationForSale(log({ isVerified: false, managerOverride: true }), sale).id,
+      ).toBe('verification-1')
+    })
+
+    it('should reject checks that cannot back this sale', () => {
+      expect(() => checkVerificationForSale(null, sale)).toThrow('Age verification not found')
+      expect(() => checkVerificationForSale(log({ isVerified: false }), sale)).toThrow(
+        'Age verification did not pass',
+      )
+      expect(() => checkVerificationForSale(log({ customerId: 'customer-2' }), sale)).toThrow(
+        'Age verification belongs to a different customer',
+      )
+      expect(() =>
+        checkVerificationForSale(log({ calculatedAge: 21 }), { ...sale, minimumAge: 25 }),
+      ).toThrow('Customer must be at least 25 for this sale')
+      expect(() =>
+        checkVerificationForSale(log(), { ...sale, at: new Date('2026-03-02T19:00:00.000Z') }),
+      ).toThrow('Age verification has expired; check the ID again')
+    })
+  })
+
+  it('should not let a manager override an underage customer', () => {
+    expect(() => checkOverridable(log({ isVerified: false, calculatedAge: 19 }))).toThrow(
+      'Underage customers cannot be overridden',
+    )
+    expect(() => checkOverridable(log({ isVerified: false }))).not.toThrow()
+  })
+})
@@ -0,0 +1,222 @@
+import {
+  canonicalJson,
+  createDailyCheckpoint,
+  verifyAuditChain,
+  signCheckpoint,
+  AuditChainError,
+  GENESIS_HASH,
+} from '../../../shared/services/auditChain'
+import { recordAuditEvent } from '../../../shared/services/auditTrail'
+import type { AuditEvent } from '../../../shared/services/auditTrail'
+import type { Prisma, AuditLog, AuditCheckpoint } from '../../../generated/prisma'
+
+// Just enough of the two audit tables to run the chain against
+function createFakeClient() {
+  const entries: AuditLog[] = []
+  const checkpoints: AuditCheckpoint[] = []
+
+  const inStore = (storeId: string) => entries.filter((entry) => entry.storeId === storeId)
+
+  const client = {
+    $executeRaw: jest.fn().mockResolvedValue(1),
+    auditLog: {
+      create: jest.fn(({ data }: { data: Omit<AuditLog, 'id'> }) => {
+        const entry = { id: `audit-${entries.length + 1}`, metadata: null, ...data } as AuditLog
+        entries.push(entry)
+        return Promise.resolve(entry)
+      }),
+      findFirst: jest.fn(({ where }: { where: { storeId: string; timestamp?: { lt: Date } } }) => {
+        const matches = inStore(where.storeId)
+          .filter((entry) => !where.timestamp || entry.timestamp < where.timestamp.lt)
+          .sort((a, b) => b.sequence - a.sequence)
+        return Promise.resolve(matches[0] || null)
+      }),
+      findMany: jest.fn(
+        ({ where, take }: { where: { storeId: string; sequence: { gt: number } }; take: number }) =>
+          Promise.resolve(
+            inStore(where.storeId)
+              .filter((entry) => entry.sequence > where.sequence.gt)
+              .sort((a, b) => a.sequence - b.sequence)
+              .slice(0, take),
+          ),
+      ),
+      count: jest.fn(
+        ({ where }: { where: { storeId: string; timestamp: { gte: Date; lt: Date } } }) =>
+          Promise.resolve(
+            inStore(where.storeId).filter(
+              (entry) =>
+                entry.timestamp >= where.timestamp.gte && entry.timestamp < where.timestamp.lt,
+            ).length,
+          ),
+      ),
+    },
+    auditCheckpoint: {
+      findUnique: jest.fn().mockResolvedValue(null),
+      findMany: jest.fn(({ where }: { where: { storeId: string } }) =>
+        Promise.resolve(
+          checkpoints
+            .filter((checkpoint) => checkpoint.storeId === where.storeId)
+            .sort((a, b) => a.lastSequence - b.lastSequence),
+        ),
+      ),
+      create: jest.fn(({ data }: { data: Omit<AuditCheckpoint, 'id' | 'createdAt'> }) => {
+        const checkpoint = {
+          id: `checkpoint-${checkpoints.length + 1}`,
+          createdAt: new Date(),
+          ...data,
+        }
+        checkpoints.push(checkpoint)
+        return Promise.resolve(checkpoint)
+      }),
+    },
+  }
+
+  return { client: client as unknown as Prisma.TransactionClient, entries, checkpoints }
+}
+
+describe('Audit chain', () => {
+  const event = (
+    action: AuditEvent['action'],
+    details: Record<string, unknown> = {},
+  ): AuditEvent => ({
+    userId: 'user-1',
+    userRole: 'CASHIER',
+    storeId: 'store-1',
+    action,
+    entityType: 'transaction',
+    entityId: 'txn-1',
+    details,
+    metadata: { ipAddress: '10.0.0.5', userAgent: undefined },
+    severity: 'low',
+  })
+
+  const store = { id: 'store-1', timezone: 'America/Los_Angeles' }
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  async function writeEntries(client: Prisma.TransactionClient, count: number) {
+    for (let i = 0; i < count; i++) {
+      await recordAuditEvent(client, event('transaction_created', { receiptNumber: `R${i}` }))
+    }
+  }
+
+  it('should hash JSON the same regardless of key order', () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, { y: 2, x: 1 }], c: undefined } })).toBe(
+      canonicalJson({ a: { d: [1, { x: 1, y: 2 }] }, b: 1 }),
+    )
+  })
+
+  it('should link each entry to the one before it, per store', async () => {
+    const { client, entries } = createFakeClient()
+
+    await writeEntries(client, 2)
+    await recordAuditEvent(client, { ...event('login'), storeId: 'store-2' })
+
+    expect(client.$executeRaw).toHaveBeenCalledTimes(3)
+    expect(entries.map((entry) => [entry.storeId, entry.sequence])).toEqual([
+      ['store-1', 1],
+      ['store-1', 2],
+      ['store-2', 1],
+    ])
+    expect(entries[0].previousHash).toBe(GENESIS_HASH)
+    expect(entries[1].previousHash).toBe(entries[0].entryHash)
+    expect(entries[2].previousHash).toBe(GENESIS_HASH)
+
+    const result = await verifyAuditChain(client, 'store-1')
+    expect(result).toEqual(
+      expect.objectContaining({
+        valid: true,
+        entriesChecked: 2,
+        head: { sequence: 2, entryHash: entries[1].entryHash },
+      }),
+    )
+  })
+
+  it('should report an edited entry', async () => {
+    const { client, entries } = createFakeClient()
+    await writeEntries(client, 3)
+
+    entries[1].details = { receiptNumber: 'R1', totalAmount: 0 }
+
+    const result = await verifyAuditChain(client, 'store-1')
+    expect(result.valid).toBe(false)
+    expect(result.firstBreak).toEqual(
+      expect.objectContaining({ reason: 'HASH_MISMATCH', sequence: 2, entryId: 'audit-2' }),
+    )
+    expect(result.entriesChecked).toBe(1)
+  })
+
+  it('should report a deleted entry as a gap', async () => {
+    const { client, entries } = createFakeClient()
+    await writeEntries(client, 3)
+
+    entries.splice(1, 1)
+
+    const result = await verifyAuditChain(client, 'store-1', 2)
+    expect(result.firstBreak).toEqual(
+      expect.objectContaining({ reason: 'SEQUENCE_GAP', sequence: 2 }),
+    )
+  })
+
+  it('should catch a truncated tail through the signed checkpoint', async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-02T20:00:00.000Z') })
+    const { client, entries } = createFakeClient()
+    await writeEntries(client, 2)
+
+    const checkpoint = await createDailyCheckpoint(
+      client,
+      store,
+      new Date('2026-03-02'),
+      new Date('2026-03-03T12:00:00.000Z'),
+    )
+    expect(checkpoint).toEqual(
+      expect.objectContaining({
+        lastSequence: 2,
+        lastEntryHash: entries[1].entryHash,
+        entryCount: 2,
+      }),
+    )
+    expect((await verifyAuditChain(client, 'store-1')).valid).toBe(true)
+
+    entries.pop()
+
+    const result = await verifyAuditChain(client, 'store-1')
+    expect(result.firstBreak).toEqual(expect.objectContaining({ reason: 'TRUNCATED', sequence: 2 }))
+  })
+
+  it('should reject a checkpoint that was not signed with the key', async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-02T20:00:00.000Z') })
+    const { client, checkpoints } = createFakeClient()
+    await writeEntries(client, 1)
+    await createDailyCheckpoint(client, store, new Date('2026-03-02'), new Date('2026-03-04'))
+
+    checkpoints[0].signature = signCheckpoint(
+      {
+        storeId: 'store-1',
+        businessDate: '2026-03-02',
+        lastSequence: 1,
+        lastEntryHash: checkpoints[0].lastEntryHash,
+        entryCount: 1,
+      },
+      'guessed-secret',
+    )
+
+    const result = await verifyAuditChain(client, 'store-1')
+    expect(result.firstBreak?.reason).toBe('CHECKPOINT_SIGNATURE_INVALID')
+  })
+
+  it('should not checkpoint a business day that has not ended', async () => {
+    const { client } = createFakeClient()
+
+    await expect(
+      createDailyCheckpoint(
+        client,
+        store,
+        new Date('2026-03-02'),
+        new Date('2026-03-02T23:00:00.000Z'),
+      ),
+    ).rejects.toThrow(AuditChainError)
+  })
+})
@@ -0,0 +1,148 @@
+import {
+  validateClientAuditEvent,
+  parseAuditQuery,
+  buildAuditWhere,
+  queryAuditLogs,
+  formatAuditLogsCsv,
+  toAuditLogEntry,
+  AuditValidationError,
+} from '../../../shared/services/auditTrail'
+import type { Prisma, AuditLog } from '../../../generated/prisma'
+
+describe('Audit trail', () => {
+  const row: AuditLog = {
+    id: 'audit-1',
+    timestamp: new Date('2026-03-02T18:30:00.000Z'),
+    userId: 'user-1',
+    userRole: 'CASHIER',
+    storeId: 'store-1',
+    action: 'transaction_created',
+    entityType: 'transaction',
+    entityId: 'txn-1',
+    details: { receiptNumber: 'R1', note: 'Paid "exact", thanks' },
+    metadata: { ipAddress: '10.0.0.5' },
+    severity: 'low',
+    sequence: 7,
+    previousHash: 'a'.repeat(64),
+    entryHash: 'b'.repeat(64),
+  }
+
+  describe('validateClientAuditEvent', () => {
+    it('should keep only the fields the register may set', () => {
+      const event = validateClientAuditEvent({
+        action: 'logout',
+        entityType: 'user',
+        entityId: 'user-1',
+        severity: 'low',
+        userId: 'someone-else',
+        storeId: 'other-store',
+        details: { reason: 'end of shift' },
+        metadata: { clientVersion: '1.0.0', ipAddress: '1.2.3.4' },
+      })
+
+      expect(event).toEqual({
+        action: 'logout',
+        entityType: 'user',
+        entityId: 'user-1',
+        severity: 'low',
+        details: { reason: 'end of shift' },
+        metadata: { sessionId: undefined, clientVersion: '1.0.0' },
+      })
+    })
+
+    it('should reject unknown actions and missing severities', () => {
+      expect(() =>
+        validateClientAuditEvent({ action: 'rm_rf', entityType: 'user', severity: 'low' }),
+      ).toThrow(AuditValidationError)
+      expect(() => validateClientAuditEvent({ action: 'logout', entityType: 'user' })).toThrow(
+        'action, entityType and severity are required',
+      )
+    })
+  })
+
+  describe('parseAuditQuery', () => {
+    it('should parse filters and cap the page size', () => {
+      const query = parseAuditQuery({
+        startDate: '2026-03-01',
+        severity: 'high',
+        limit: '5000',
+        offset: '20',
+      })
+
+      expect(query).toEqual(
+        expect.objectContaining({
+          startDate: '2026-03-01T00:00:00.000Z',
+          severity: 'high',
+          limit: 1000,
+          offset: 20,
+        }),
+      )
+    })
+
+    it('should reject invalid dates and filters', () => {
+      expect(() => parseAuditQuery({ endDate: 'yesterday' })).toThrow(
+        'endDate must be a valid date',
+      )
+      expect(() => parseAuditQuery({ entityType: 'invoice' })).toThrow(AuditValidationError)
+    })
+  })
+
+  it('should build a timestamp range filter', () => {
+    expect(
+      buildAuditWhere({
+        storeId: 'store-1',
+        startDate: '2026-03-01T00:00:00.000Z',
+        endDate: '2026-03-02T00:00:00.000Z',
+      }),
+    ).toEqual({
+      storeId: 'store-1',
+      timestamp: {
+        gte: new Date('2026-03-01T00:00:00.000Z'),
+        lte: new Date('2026-03-02T00:00:00.000Z'),
+      },
+    })
+  })
+
+  it('should page newest first and report whether more remain', async () => {
+    const client = {
+      auditLog: {
+        findMany: jest.fn().mockResolvedValue([row]),
+        count: jest.fn().mockResolvedValue(3),
+      },
+    }
+
+    const result = await queryAuditLogs(client as unknown as Prisma.TransactionClient, {
+      storeId: 'store-1',
+      limit: 1,
+      offset: 1,
+    })
+
+    expect(client.auditLog.findMany).toHaveBeenCalledWith({
+      where: { storeId: 'store-1' },
+      orderBy: { timestamp: 'desc' },
+      skip: 1,
+      take: 1,
+    })
+    expect(result).toEqual({
+      logs: [expect.objectContaining({ id: 'audit-1', timestamp: '2026-03-02T18:30:00.000Z' })],
+      totalCount: 3,
+      hasMore: true,
+    })
+  })
+
+  it('should export entries as CSV with canonical JSON and the chain hashes', () => {
+    const csv = formatAuditLogsCsv([toAuditLogEntry(row)])
+    const [header, line] = csv.trim().split('\n')
+
+    expect(header).toBe(
+      'id,timestamp,storeId,sequence,userId,userRole,action,entityType,entityId,severity,' +
+        'ipAddress,details,metadata,previousHash,entryHash',
+    )
+    expect(line).toBe(
+      'audit-1,2026-03-02T18:30:00.000Z,store-1,7,user-1,CASHIER,transaction_created,transaction,txn-1,low,10.0.0.5,' +
+        '"{""note"":""Paid \\""exact\\"", thanks"",""receiptNumber"":""R1""}",' +
+        '"{""ipAddress"":""10.0.0.5""}",' +
+        `${'a'.repeat(64)},${'b'.repeat(64)}`,
+    )
+  })
+})
@@ -0,0 +1,137 @@
+import {
+  countDenominations,
+  requireOpenDrawer,
+  summariseDrawer,
+  toCashDrawerResponse,
+  validateCashAvailable,
+  validateDenominationCount,
+  validateDrawerEvent,
+  validateOpeningFloat,
+  CashDrawerError,
+} from '../../../shared/services/cashDrawer'
+import type { CashDrawerSession, Prisma } from '../../../generated/prisma'
+
+describe('Cash drawer', () => {
+  const session = {
+    id: 'drawer-1',
+    storeId: 'store-1',
+    userId: 'user-1',
+    status: 'CLOSED',
+    openingFloat: 100,
+    openedAt: new Date('2026-06-15T09:00:00Z'),
+    closedAt: new Date('2026-06-15T17:00:00Z'),
+    closedById: 'user-1',
+    denominationCount: { '20': 10 },
+    countedAmount: 200,
+    expectedAmount: 205,
+    overShort: -5,
+    notes: null,
+    createdAt: new Date('2026-06-15T09:00:00Z'),
+    updatedAt: new Date('2026-06-15T17:00:00Z'),
+  } as unknown as CashDrawerSession
+
+  describe('validation', () => {
+    it('should accept a zero float but not a negative or fractional-cent one', () => {
+      expect(validateOpeningFloat(0)).toEqual([])
+      expect(validateOpeningFloat(-1)).toHaveLength(1)
+      expect(validateOpeningFloat(10.005)).toHaveLength(1)
+    })
+
+    it('should want a reason for cash paid in or out but not for a drop', () => {
+      expect(validateDrawerEvent({ eventType: 'DROP', amount: 200 })).toEqual([])
+      expect(validateDrawerEvent({ eventType: 'PAID_OUT', amount: 20, reason: ' ' })).toEqual([
+        'A reason is required for cash paid in or out',
+      ])
+      expect(
+        validateDrawerEvent({ eventType: 'REFUND' as never, amount: 0, reason: 'Stamps' }),
+      ).toHaveLength(2)
+    })
+
+    it('should only count known denominations in whole notes and coins', () => {
+      expect(validateDenominationCount({ '20': 4, '0.25': 12 })).toEqual([])
+      expect(validateDenominationCount({ '3': 1 })).toHaveLength(1)
+      expect(validateDenominationCount({ '20': 1.5 })).toEqual([
+        'Count of 20 must be a whole number of zero or more',
+      ])
+      expect(validateDenominationCount(undefined)).toHaveLength(1)
+    })
+  })
+
+  it('should add up a count in cents', () => {
+    expect(countDenominations({ '20': 4, '0.25': 3, '0.10': 3, '0.01': 7 })).toBe(81.12)
+    expect(countDenominations({})).toBe(0)
+  })
+
+  it('should summarise what the drawer should hold', async () => {
+    const client = {
+      transactionPayment: {
+        aggregate: jest
+          .fn()
+          .mockResolvedValueOnce({ _sum: { amount: 250.5 } })
+          .mockResolvedValueOnce({ _sum: { amount: -20.25 } }),
+      },
+      giftCardLedger: {
+        aggregate: jest.fn().mockResolvedValue({ _sum: { amount: 40 } }),
+      },
+      cashDrawerEvent: {
+        groupBy: jest.fn().mockResolvedValue([
+          { eventType: 'PAID_IN', _sum: { amount: 10 } },
+          { eventType: 'PAID_OUT', _sum: { amount: 15 } },
+          { eventType: 'DROP', _sum: { amount: 200 } },
+        ]),
+      },
+    }
+
+    const summary = await summariseDrawer(client as unknown as Prisma.TransactionClient, session)
+
+    expect(summary).toEqual({
+      openingFloat: 100,
+      cashSales: 250.5,
+      cashRefunds: 20.25,
+      giftCardLoads: 40,
+      paidIn: 10,
+      paidOut: 15,
+      drops: 200,
+      expectedAmount: 165.25,
+    })
+    // Only the session's own cash counts, and not cash handed back on a void
+    expect(client.transactionPayment.aggregate).toHaveBeenCalledWith({
+      where: {
+        paymentMethod: 'CASH',
+        status: { not: 'VOIDED' },
+        transaction: { cashDrawerSessionId: 'drawer-1' },
+        amount: { gt: 0 },
+      },
+      _sum: { amount: true },
+    })
+    // Cash taken for gift cards goes in the same drawer
+    expect(client.giftCardLedger.aggregate).toHaveBeenCalledWith({
+      where: { cashDrawerSessionId: 'drawer-1', paymentMethod: 'CASH' },
+      _sum: { amount: true },
+    })
+    expect(validateCashAvailable('DROP', 165.25, summary)).toEqual([])
+    expect(validateCashAvailable('PAID_OUT', 170, summary)).toEqual([
+      'The drawer should only hold $165.25',
+    ])
+    expect(validateCashAvailable('PAID_IN', 500, summary)).toEqual([])
+  })
+
+  it('should refuse cash without an open drawer', async () => {
+    const client = { cashDrawerSession: { findFirst: jest.fn().mockResolvedValue(null) } }
+
+    await expect(
+      requireOpenDrawer(client as unknown as Prisma.TransactionClient, 'user-1', 'store-1'),
+    ).rejects.toEqual(new CashDrawerError('Open a cash drawer before taking or refunding cash'))
+  })
+
+  it('should leave expected cash and over/short out of a blind response', () => {
+    const blind = toCashDrawerResponse(session)
+    expect(blind).not.toHaveProperty('expectedAmount')
+    expect(blind).not.toHaveProperty('overShort')
+    expect(blind.countedAmount).toBe(200)
+
+    expect(toCashDrawerResponse(session, { reconciled: true })).toEqual(
+      expect.objectContaining({ expectedAmount: 205, overShort: -5 }),
+    )
+  })
+})
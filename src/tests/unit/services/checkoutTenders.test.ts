@@ -0,0 +1,173 @@
+import {
+  resolveTenders,
+  validateTenders,
+  summariseTenders,
+  getTenderAmounts,
+  planTenderRefund,
+  TenderError,
+} from '../../../shared/services/checkoutTenders'
+import { toSalesReceiptPayments } from '../../../shared/services/quickbooksSync'
+import type { TransactionTenderData } from '../../../shared/types/transactions'
+
+describe('Checkout tenders', () => {
+  const split: TransactionTenderData[] = [
+    { method: 'CASH', amount: 10, cashTendered: 20 },
+    { method: 'GIFT_CARD', amount: 15.5, giftCardNumber: '6011000000001234', giftCardPin: '1234' },
+    { method: 'CARD', amount: 4.5, reference: 'card_1' },
+  ]
+
+  describe('resolveTenders', () => {
+    it('should pay the whole amount due with a single method', () => {
+      expect(resolveTenders({ paymentMethod: 'CASH', cashTendered: 40 }, 32.63)).toEqual([
+        {
+          method: 'CASH',
+          amount: 32.63,
+          cashTendered: 40,
+          giftCardNumber: undefined,
+          giftCardPin: undefined,
+        },
+      ])
+      expect(resolveTenders({ paymentMethod: 'CASH' }, 0)).toEqual([])
+    })
+
+    it('should use the listed payments for a split sale', () => {
+      expect(resolveTenders({ paymentMethod: 'SPLIT', payments: split }, 30)).toBe(split)
+      expect(resolveTenders({ paymentMethod: 'SPLIT' }, 30)).toEqual([])
+    })
+  })
+
+  describe('validateTenders', () => {
+    it('should accept tenders that pay exactly what is due', () => {
+      expect(validateTenders(split, 30, 'SPLIT')).toEqual([])
+    })
+
+    it('should report every problem with the tenders', () => {
+      expect(
+        validateTenders(
+          [
+            { method: 'CASH', amount: 10, cashTendered: 5 },
+            { method: 'GIFT_CARD', amount: 0, giftCardNumber: '6011000000001234' },
+            { method: 'CHECK' as 'CASH', amount: 4.555 },
+          ],
+          30,
+          'SPLIT',
+        ),
+      ).toEqual([
+        'Insufficient cash tendered',
+        'payments[1] amount must be more than zero in whole cents',
+        'Gift card number and PIN are required',
+        'payments[2] method must be one of CASH, CARD, GIFT_CARD, STORE_CREDIT',
+        'payments[2] amount must be more than zero in whole cents',
+        'Payments add up to $14.56 but $30.00 is due',
+      ])
+    })
+
+    it('should insist split payments really are split and single ones are not', () => {
+      expect(validateTenders([{ method: 'CARD', amount: 30 }], 30, 'SPLIT')).toEqual([
+        'A split payment needs at least two payments',
+      ])
+      expect(validateTenders(split, 30, 'CARD')).toEqual([
+        'payments[0] must be paid by CARD; use SPLIT to mix payment methods',
+        'payments[1] must be paid by CARD; use SPLIT to mix payment methods',
+      ])
+      expect(validateTenders([], 30, 'SPLIT')).toEqual([
+        'A split payment needs at least two payments',
+        'At least one payment is required',
+      ])
+    })
+  })
+
+  describe('summariseTenders', () => {
+    it('should record SPLIT with cash and change from the cash tender only', () => {
+      expect(summariseTenders(split, 'SPLIT')).toEqual({
+        paymentMethod: 'SPLIT',
+        paymentReference: undefined,
+        cashTendered: 20,
+        changeGiven: 10,
+      })
+    })
+
+    it('should keep the method and reference of a single tender', () => {
+      expect(summariseTenders([split[1]], 'GIFT_CARD')).toEqual({
+        paymentMethod: 'GIFT_CARD',
+        paymentReference: '************1234',
+        cashTendered: undefined,
+        changeGiven: undefined,
+      })
+      expect(summariseTenders([], 'CASH')).toEqual(
+        expect.objectContaining({ paymentMethod: 'CASH' }),
+      )
+    })
+  })
+
+  describe('refunds', () => {
+    it('should treat sales without recorded tenders as paid by their one method', () => {
+      expect(
+        getTenderAmounts({
+          paymentMethod: 'CARD',
+          totalAmount: 43,
+          loyaltyRedemptionAmount: 5,
+          payments: [],
+        }),
+      ).toEqual(new Map([['CARD', 38]]))
+      expect(
+        getTenderAmounts({
+          paymentMethod: 'SPLIT',
+          totalAmount: 43,
+          loyaltyRedemptionAmount: 0,
+          payments: [
+            { paymentMethod: 'GIFT_CARD', amount: 10 },
+            { paymentMethod: 'CASH', amount: 20 },
+            { paymentMethod: 'GIFT_CARD', amount: 13 },
+          ] as never,
+        }),
+      ).toEqual(
+        new Map([
+          ['GIFT_CARD', 23],
+          ['CASH', 20],
+        ]),
+      )
+    })
+
+    it('should refund cards before cash and skip what was already refunded', () => {
+      const paid = new Map([
+        ['CASH', 20],
+        ['CARD', 15],
+        ['GIFT_CARD', 10],
+      ] as const)
+
+      expect(planTenderRefund(paid, new Map([['GIFT_CARD', 10]]), 25)).toEqual([
+        { method: 'CARD', amount: 15 },
+        { method: 'CASH', amount: 10 },
+      ])
+    })
+
+    it('should refuse to refund more than is left to refund', () => {
+      expect(() => planTenderRefund(new Map([['CASH', 20]]), new Map([['CASH', 15]]), 10)).toThrow(
+        new TenderError('Refund is $5.00 more than was paid on this sale and not yet refunded'),
+      )
+    })
+  })
+
+  it('should deposit each tender on the QuickBooks sales receipt to its own account', () => {
+    const mapping = { cashAccount: '3', cardAccount: '4', giftCardAccount: '5', storeCreditAccount: '6' }
+
+    expect(
+      toSalesReceiptPayments(
+        [
+          { paymentMethod: 'CASH', amount: 10, reference: null },
+          { paymentMethod: 'GIFT_CARD', amount: 15.5, reference: '************1234' },
+        ] as never,
+        mapping,
+      ),
+    ).toEqual([
+      { paymentMethod: 'CASH', amount: 10, depositAccountId: '3', reference: undefined },
+      {
+        paymentMethod: 'GIFT_CARD',
+        amount: 15.5,
+        depositAccountId: '5',
+        reference: '************1234',
+      },
+    ])
+  })
+})
@@ -0,0 +1,205 @@
+import {
+  getStoreJurisdictions,
+  evaluateCompliance,
+  findBannedFlavor,
+  isLineInScope,
+} from '../../../shared/services/complianceEngine'
+import type { ComplianceRule } from '../../../generated/prisma'
+import type { ComplianceLineInput } from '../../../shared/types/compliance'
+
+describe('Compliance Engine', () => {
+  const buildRule = (overrides: Partial<ComplianceRule>): ComplianceRule => ({
+    id: 'rule-1',
+    ruleType: 'FLAVOR_BAN',
+    jurisdictionType: 'STATE',
+    jurisdictionCode: 'CA',
+    ruleDetails: {},
+    effectiveDate: new Date('2022-01-01'),
+    endDate: null,
+    ruleSource: null,
+    referenceUrl: null,
+    enforcementPriority: 'HIGH',
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  })
+
+  const fruitPod: ComplianceLineInput = {
+    productId: 'product-1',
+    productName: 'Mango Pod',
+    category: 'Pods',
+    flavorProfile: 'Fruit',
+    ageRestricted: true,
+    quantity: 2,
+  }
+
+  const tobaccoDisposable: ComplianceLineInput = {
+    productId: 'product-2',
+    productName: 'Classic Disposable',
+    category: 'Disposables',
+    flavorProfile: 'Tobacco',
+    ageRestricted: true,
+    quantity: 1,
+  }
+
+  const context = {
+    timezone: 'America/Los_Angeles',
+    at: new Date('2024-06-01T19:00:00Z'), // 12:00 in Los Angeles
+  }
+
+  describe('getStoreJurisdictions', () => {
+    it('should include county and city prefixed with the state', () => {
+      expect(
+        getStoreJurisdictions({
+          countryCode: 'US',
+          stateCode: 'ca',
+          county: 'San Francisco',
+          city: 'San Francisco',
+        }),
+      ).toEqual([
+        { jurisdictionType: 'FEDERAL', jurisdictionCode: 'US' },
+        { jurisdictionType: 'STATE', jurisdictionCode: 'CA' },
+        { jurisdictionType: 'COUNTY', jurisdictionCode: 'CA-SAN FRANCISCO' },
+        { jurisdictionType: 'CITY', jurisdictionCode: 'CA-SAN FRANCISCO' },
+      ])
+    })
+
+    it('should skip county and city when unknown', () => {
+      expect(
+        getStoreJurisdictions({ countryCode: 'US', stateCode: 'TX', county: null, city: null }),
+      ).toHaveLength(2)
+    })
+  })
+
+  describe('flavor bans', () => {
+    const details = {
+      bannedFlavors: ['Fruit', 'Candy'],
+      exceptions: ['Tobacco', 'Menthol'],
+      effectiveProducts: ['disposables', 'pods'],
+    }
+
+    it('should match banned flavors case-insensitively', () => {
+      expect(findBannedFlavor('Tropical FRUIT', details)).toBe('Fruit')
+      expect(findBannedFlavor('Tobacco', details)).toBeNull()
+      expect(findBannedFlavor(null, details)).toBeNull()
+    })
+
+    it('should let exceptions override a ban on all flavors', () => {
+      const allFlavors = { bannedFlavors: ['ALL'], exceptions: ['Tobacco'] }
+      expect(findBannedFlavor('Menthol', allFlavors)).toBe('ALL')
+      expect(findBannedFlavor('Tobacco', allFlavors)).toBeNull()
+    })
+
+    it('should only exempt a profile that is nothing but excepted flavors', () => {
+      expect(
+        findBannedFlavor('Tobacco Mango', { bannedFlavors: ['Mango'], exceptions: ['Tobacco'] }),
+      ).toBe('Mango')
+      expect(findBannedFlavor('Menthol Tobacco', details)).toBeNull()
+      expect(findBannedFlavor('Tobacco Fruit', details)).toBe('Fruit')
+    })
+
+    it('should match banned flavors as whole words', () => {
+      expect(findBannedFlavor('Grapefruit', details)).toBeNull()
+      expect(findBannedFlavor('Blue Razz Candy', { bannedFlavors: ['Blue Razz'] })).toBe(
+        'Blue Razz',
+      )
+    })
+
+    it('should scope rules to effective product categories', () => {
+      expect(isLineInScope(fruitPod, details)).toBe(true)
+      expect(isLineInScope(tobaccoDisposable, details)).toBe(true)
+      expect(isLineInScope({ ...fruitPod, category: 'E-Liquid' }, details)).toBe(false)
+      expect(isLineInScope({ ...fruitPod, category: null }, {})).toBe(true)
+    })
+
+    it('should match the whole category, not just its first word', () => {
+      const eLiquids = { effectiveProducts: ['e_liquids'] }
+      expect(isLineInScope({ ...fruitPod, category: 'E-Liquid' }, eLiquids)).toBe(true)
+      expect(isLineInScope({ ...fruitPod, category: 'E-Cigarettes' }, eLiquids)).toBe(false)
+      expect(isLineInScope({ ...fruitPod, category: 'Disposable Vapes' }, details)).toBe(false)
+    })
+
+    it('should block a banned flavor with a HIGH priority rule', () => {
+      const result = evaluateCompliance(
+        [buildRule({ ruleDetails: details })],
+        [fruitPod, tobaccoDisposable],
+        context,
+      )
+
+      expect(result.passed).toBe(false)
+      expect(result.violations).toHaveLength(1)
+      expect(result.violations[0]).toMatchObject({ productId: 'product-1', blocking: true })
+    })
+
+    it('should only warn for a LOW priority rule', () => {
+      const result = evaluateCompliance(
+        [buildRule({ ruleDetails: details, enforcementPriority: 'LOW' })],
+        [fruitPod],
+        context,
+      )
+
+      expect(result.passed).toBe(true)
+      expect(result.warnings).toHaveLength(1)
+    })
+  })
+
+  describe('quantity limits', () => {
+    it('should enforce the per-transaction limit across in-scope lines', () => {
+      const rule = buildRule({
+        ruleType: 'QUANTITY_LIMIT',
+        ruleDetails: { maxQuantityPerTransaction: 2 },
+      })
+
+      expect(evaluateCompliance([rule], [fruitPod], context).passed).toBe(true)
+      expect(evaluateCompliance([rule], [fruitPod, tobaccoDisposable], context).passed).toBe(false)
+    })
+
+    it('should include earlier purchases today in the daily limit', () => {
+      const rule = buildRule({
+        ruleType: 'QUANTITY_LIMIT',
+        ruleDetails: { maxQuantityPerDay: 5 },
+      })
+
+      const result = evaluateCompliance([rule], [fruitPod], {
+        ...context,
+        priorQuantitiesToday: { 'product-1': 4 },
+      })
+
+      expect(result.passed).toBe(false)
+      expect(result.violations[0].message).toContain('daily limit of 5')
+    })
+  })
+
+  describe('product restrictions', () => {
+    it('should block sales inside restricted hours in store time', () => {
+      const rule = buildRule({
+        ruleType: 'PRODUCT_RESTRICTION',
+        ruleDetails: { restrictedHours: [{ start: '22:00', end: '06:00' }] },
+      })
+      const lateNight = new Date('2024-06-02T06:30:00Z') // 23:30 in Los Angeles
+
+      expect(evaluateCompliance([rule], [fruitPod], context).passed).toBe(true)
+      expect(evaluateCompliance([rule], [fruitPod], { ...context, at: lateNight }).passed).toBe(
+        false,
+      )
+    })
+  })
+
+  describe('age verification', () => {
+    it('should require verification and report the highest minimum age', () => {
+      const result = evaluateCompliance(
+        [
+          buildRule({ ruleType: 'AGE_VERIFICATION', ruleDetails: { minAge: 18 } }),
+          buildRule({ id: 'rule-2', ruleType: 'AGE_VERIFICATION', ruleDetails: { minAge: 21 } }),
+        ],
+        [fruitPod],
+        context,
+      )
+
+      expect(result.passed).toBe(true)
+      expect(result.ageVerificationRequired).toBe(true)
+      expect(result.minimumAge).toBe(21)
+    })
+  })
+})
@@ -0,0 +1,138 @@
+import {
+  validateRuleDetails,
+  normaliseJurisdictionCode,
+  groupOverlappingRules,
+  previewRuleAgainstCatalog,
+} from '../../../shared/services/complianceRules'
+import type { ComplianceRule } from '../../../generated/prisma'
+
+describe('Compliance Rule Administration', () => {
+  describe('validateRuleDetails', () => {
+    it('should accept the seeded rule shapes', () => {
+      expect(
+        validateRuleDetails('AGE_VERIFICATION', {
+          minAge: 21,
+          requireIdUnder: 30,
+          acceptableIds: ['DRIVER_LICENSE', 'STATE_ID', 'PASSPORT'],
+        }),
+      ).toEqual([])
+      expect(
+        validateRuleDetails('FLAVOR_BAN', {
+          bannedFlavors: ['Fruit', 'Candy', 'Dessert'],
+          exceptions: ['Tobacco', 'Menthol'],
+          effectiveProducts: ['disposable_vapes', 'pods'],
+        }),
+      ).toEqual([])
+    })
+
+    it('should reject details that are not an object', () => {
+      expect(validateRuleDetails('FLAVOR_BAN', null)).toEqual(['ruleDetails must be an object'])
+      expect(validateRuleDetails('FLAVOR_BAN', ['Fruit'])).toEqual([
+        'ruleDetails must be an object',
+      ])
+    })
+
+    it('should require fields per rule type', () => {
+      expect(validateRuleDetails('AGE_VERIFICATION', {})).toContain(
+        'minAge is required and must be a whole number between 18 and 30',
+      )
+      expect(validateRuleDetails('FLAVOR_BAN', {})).toContain('bannedFlavors is required')
+      expect(
+        validateRuleDetails('AGE_VERIFICATION', {
+          minAge: 21,
+          acceptableIds: ['DRIVER_LICENSE', 'LIBRARY_CARD'],
+          outOfStateIds: 'SOMETIMES',
+        }),
+      ).toEqual([
+        'acceptableIds must only contain DRIVER_LICENSE, DRIVERS_LICENSE, STATE_ID, PASSPORT, MILITARY_ID',
+        'outOfStateIds must be one of ACCEPT, MANAGER_APPROVAL, REJECT',
+      ])
+      expect(validateRuleDetails('QUANTITY_LIMIT', {})).toContain(
+        'maxQuantityPerTransaction or maxQuantityPerDay is required',
+      )
+      expect(validateRuleDetails('TAX_RATE', { taxType: 'PERCENTAGE', rate: 15 })).toContain(
+        'rate for PERCENTAGE taxes is a fraction (0.15 for 15%)',
+      )
+    })
+
+    it('should validate restricted hour windows', () => {
+      expect(
+        validateRuleDetails('PRODUCT_RESTRICTION', {
+          restrictedHours: [{ start: '22:00', end: '06:00' }],
+        }),
+      ).toEqual([])
+      expect(
+        validateRuleDetails('PRODUCT_RESTRICTION', {
+          restrictedHours: [{ start: '10pm', end: '06:00' }],
+        }),
+      ).toContain('restrictedHours must be a list of { start, end } times in HH:MM format')
+    })
+  })
+
+  describe('normaliseJurisdictionCode', () => {
+    it('should normalise state and local codes', () => {
+      expect(normaliseJurisdictionCode('STATE', ' ca ')).toBe('CA')
+      expect(normaliseJurisdictionCode('CITY', 'ca-san  francisco')).toBe('CA-SAN FRANCISCO')
+    })
+
+    it('should reject codes that do not fit the jurisdiction type', () => {
+      expect(normaliseJurisdictionCode('STATE', 'California')).toBeNull()
+      expect(normaliseJurisdictionCode('COUNTY', 'Los Angeles')).toBeNull()
+    })
+  })
+
+  describe('groupOverlappingRules', () => {
+    it('should only report rule types with more than one rule', () => {
+      const overlaps = groupOverlappingRules([
+        { id: 'state', ruleType: 'FLAVOR_BAN' as const },
+        { id: 'city', ruleType: 'FLAVOR_BAN' as const },
+        { id: 'federal', ruleType: 'AGE_VERIFICATION' as const },
+      ])
+
+      expect(overlaps).toHaveLength(1)
+      expect(overlaps[0].ruleType).toBe('FLAVOR_BAN')
+      expect(overlaps[0].rules.map((rule) => rule.id)).toEqual(['state', 'city'])
+    })
+  })
+
+  describe('previewRuleAgainstCatalog', () => {
+    it('should list the products a rule would block', () => {
+      const rule = {
+        id: 'preview',
+        ruleType: 'FLAVOR_BAN',
+        jurisdictionType: 'STATE',
+        jurisdictionCode: 'CA',
+        ruleDetails: { bannedFlavors: ['Fruit'], exceptions: ['Tobacco'] },
+        enforcementPriority: 'HIGH',
+      } as unknown as ComplianceRule
+
+      const preview = previewRuleAgainstCatalog(
+        rule,
+        [
+          {
+            id: 'p1',
+            name: 'Mango Pod',
+            sku: 'P1',
+            category: 'Pods',
+            flavorProfile: 'Fruit',
+            ageRestricted: true,
+          },
+          {
+            id: 'p2',
+            name: 'Classic',
+            sku: 'P2',
+            category: 'Pods',
+            flavorProfile: 'Tobacco',
+            ageRestricted: true,
+          },
+        ],
+        'America/Los_Angeles',
+      )
+
+      expect(preview.productsEvaluated).toBe(2)
+      expect(preview.productsInScope).toBe(2)
+      expect(preview.blocked.map((item) => item.productId)).toEqual(['p1'])
+      expect(preview.warned).toEqual([])
+    })
+  })
+})
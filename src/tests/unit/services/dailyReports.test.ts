@@ -0,0 +1,334 @@
+import {
+  buildDailyReport,
+  createZReport,
+  parseBusinessDate,
+  DailyReportError,
+} from '../../../shared/services/dailyReports'
+import {
+  postQuickBooksDailySummary,
+  toDailySummaryJournalLines,
+} from '../../../shared/services/quickbooksSync'
+import type { CashDrawerSession, Prisma, ZReport } from '../../../generated/prisma'
+
+describe('Daily reports', () => {
+  const store = { id: 'store-1', timezone: 'America/Los_Angeles' }
+  const businessDate = new Date('2026-06-15T00:00:00.000Z')
+  // The next morning, after the Los Angeles business day has ended
+  const now = new Date('2026-06-16T12:00:00.000Z')
+
+  const californiaTax = (taxableAmount: number, taxAmount: number) => ({
+    subtotal: taxableAmount,
+    jurisdictions: [
+      { code: 'CA', name: 'California', type: 'STATE', rate: 0.09, taxableAmount, taxAmount },
+    ],
+    totalTaxAmount: taxAmount,
+    totalAmount: taxableAmount + taxAmount,
+  })
+
+  const transactions = [
+    {
+      id: 'sale-1',
+      transactionType: 'SALE',
+      paymentStatus: 'COMPLETED',
+      subtotalAmount: 100,
+      discountAmount: 10,
+      taxAmount: 8.1,
+      totalAmount: 98.1,
+      loyaltyRedemptionAmount: 5,
+      taxBreakdown: californiaTax(90, 8.1),
+      cashDrawerSessionId: 'drawer-1',
+    },
+    {
+      id: 'sale-2',
+      transactionType: 'SALE',
+      paymentStatus: 'VOIDED',
+      subtotalAmount: 20,
+      discountAmount: 0,
+      taxAmount: 1.8,
+      totalAmount: 21.8,
+      loyaltyRedemptionAmount: 0,
+      taxBreakdown: californiaTax(20, 1.8),
+      cashDrawerSessionId: 'drawer-1',
+    },
+    {
+      id: 'return-1',
+      transactionType: 'RETURN',
+      paymentStatus: 'REFUNDED',
+      subtotalAmount: -30,
+      discountAmount: 0,
+      taxAmount: -2.7,
+      totalAmount: -32.7,
+      loyaltyRedemptionAmount: 0,
+      taxBreakdown: californiaTax(-30, -2.7),
+      cashDrawerSessionId: 'drawer-1',
+    },
+  ]
+
+  const drawer = {
+    id: 'drawer-1',
+    storeId: 'store-1',
+    userId: 'user-1',
+    status: 'CLOSED',
+    openingFloat: 100,
+    openedAt: new Date('2026-06-15T16:00:00.000Z'),
+    closedAt: new Date('2026-06-16T01:00:00.000Z'),
+    closedById: 'user-1',
+    denominationCount: {},
+    countedAmount: 67,
+    expectedAmount: 67.3,
+    overShort: -0.3,
+    notes: null,
+    createdAt: new Date('2026-06-15T16:00:00.000Z'),
+    updatedAt: new Date('2026-06-16T01:00:00.000Z'),
+  } as unknown as CashDrawerSession
+
+  function createClient() {
+    return {
+      transaction: { findMany: jest.fn().mockResolvedValue(transactions) },
+      transactionPayment: {
+        groupBy: jest.fn().mockResolvedValue([
+          { paymentMethod: 'CARD', _sum: { amount: 93.1 }, _count: { _all: 1 } },
+          { paymentMethod: 'CASH', _sum: { amount: -32.7 }, _count: { _all: 1 } },
+        ]),
+      },
+      giftCardLedger: {
+        groupBy: jest
+          .fn()
+          .mockResolvedValue([
+            { paymentMethod: 'CASH', _sum: { amount: 25 }, _count: { _all: 1 } },
+          ]),
+      },
+      ageVerificationLog: { count: jest.fn().mockResolvedValueOnce(2).mockResolvedValueOnce(1) },
+      cashDrawerSession: {
+        findMany: jest.fn().mockResolvedValue([drawer]),
+        count: jest.fn().mockResolvedValue(0),
+      },
+      zReport: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findFirst: jest.fn().mockResolvedValue({ reportNumber: 11 }),
+        create: jest.fn(({ data }: { data: Record<string, unknown> }) =>
+          Promise.resolve({ id: 'z-1', ...data }),
+        ),
+      },
+    }
+  }
+
+  const asClient = (client: ReturnType<typeof createClient>) =>
+    client as unknown as Prisma.TransactionClient
+
+  describe('buildDailyReport', () => {
+    it('should total the business day, leaving voided sales out of everything but voids', async () => {
+      const client = createClient()
+
+      const report = await buildDailyReport(asClient(client), { store, businessDate }, now)
+
+      expect(report).toEqual(
+        expect.objectContaining({
+          businessDate: '2026-06-15',
+          cashDrawerSessionId: null,
+          periodStart: '2026-06-15T07:00:00.000Z',
+          periodEnd: '2026-06-16T07:00:00.000Z',
+          sales: {
+            transactionCount: 1,
+            grossSales: 100,
+            discounts: 10,
+            returns: -30,
+            netSales: 60,
+            taxAmount: 5.4,
+            totalSales: 65.4,
+            loyaltyRedemptions: 5,
+          },
+          tenders: [
+            { paymentMethod: 'CARD', count: 1, amount: 93.1 },
+            { paymentMethod: 'CASH', count: 1, amount: -32.7 },
+          ],
+          // Gift card loads are money owed to card holders, not sales
+          giftCardLoads: [{ paymentMethod: 'CASH', count: 1, amount: 25 }],
+          returns: { count: 1, amount: -30 },
+          voids: { count: 1, amount: 21.8 },
+          ageVerification: { denials: 2, overrides: 1 },
+          cashOverShort: -0.3,
+        }),
+      )
+      expect(report.taxByJurisdiction).toEqual([
+        expect.objectContaining({ code: 'CA', taxableAmount: 60, taxAmount: 5.4 }),
+      ])
+      expect(report.cashDrawers).toEqual([
+        expect.objectContaining({
+          cashDrawerSessionId: 'drawer-1',
+          transactionCount: 1,
+          netSales: 60,
+          expectedAmount: 67.3,
+          countedAmount: 67,
+          overShort: -0.3,
+        }),
+      ])
+      expect(client.transaction.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            storeId: 'store-1',
+            transactionDate: {
+              gte: new Date('2026-06-15T07:00:00.000Z'),
+              lt: new Date('2026-06-16T07:00:00.000Z'),
+            },
+          },
+        }),
+      )
+    })
+
+    it('should cover only what was rung on one register drawer', async () => {
+      const client = createClient()
+
+      const report = await buildDailyReport(
+        asClient(client),
+        { store, businessDate, cashDrawerSession: drawer },
+        now,
+      )
+
+      expect(report.cashDrawerSessionId).toBe('drawer-1')
+      expect(report.periodEnd).toBe('2026-06-16T01:00:00.000Z')
+      expect(client.transaction.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { cashDrawerSessionId: 'drawer-1' } }),
+      )
+      expect(client.ageVerificationLog.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({ employeeId: 'user-1', managerOverride: true }),
+      })
+      expect(client.giftCardLedger.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { entryType: { in: ['ACTIVATE', 'RELOAD'] }, cashDrawerSessionId: 'drawer-1' },
+        }),
+      )
+      expect(client.cashDrawerSession.findMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('createZReport', () => {
+    it('should number the report after the store’s last one and store its figures', async () => {
+      const client = createClient()
+
+      const zReport = await createZReport(asClient(client), store, businessDate, 'manager-1', now)
+
+      expect(client.zReport.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          storeId: 'store-1',
+          reportNumber: 12,
+          businessDate,
+          grossSales: 100,
+          netSales: 60,
+          taxAmount: 5.4,
+          overShort: -0.3,
+          generatedById: 'manager-1',
+        }),
+      })
+      expect(zReport.report).toEqual(expect.objectContaining({ businessDate: '2026-06-15' }))
+    })
+
+    it('should close a day only once, with every drawer counted, and not ahead of time', async () => {
+      const closed = createClient()
+      closed.zReport.findUnique.mockResolvedValueOnce({ reportNumber: 4 })
+      await expect(
+        createZReport(asClient(closed), store, businessDate, 'manager-1', now),
+      ).rejects.toEqual(
+        new DailyReportError('Business day 2026-06-15 was already closed by Z report #4'),
+      )
+
+      const open = createClient()
+      open.cashDrawerSession.count.mockResolvedValueOnce(1)
+      await expect(
+        createZReport(asClient(open), store, businessDate, 'manager-1', now),
+      ).rejects.toThrow('Close every cash drawer before running the Z report')
+
+      await expect(
+        createZReport(
+          asClient(createClient()),
+          store,
+          new Date('2026-06-17T00:00:00.000Z'),
+          'manager-1',
+          now,
+        ),
+      ).rejects.toThrow('Z reports cannot be run for a future business day')
+    })
+  })
+
+  it('should parse only real YYYY-MM-DD dates', () => {
+    expect(parseBusinessDate('2026-06-15')).toEqual(businessDate)
+    expect(parseBusinessDate('2026-02-30')).toBeNull()
+    expect(parseBusinessDate('06/15/2026')).toBeNull()
+  })
+
+  it('should book a Z report as a balanced daily summary journal entry', async () => {
+    const report = await buildDailyReport(asClient(createClient()), { store, businessDate }, now)
+
+    const lines = toDailySummaryJournalLines(report, {
+      salesAccount: '4000',
+      taxAccount: '2200',
+      cashAccount: '1000',
+      cardAccount: '1200',
+      giftCardAccount: '2400',
+      storeCreditAccount: '2450',
+      discountAccount: '4900',
+    })
+
+    expect(lines.map(({ accountId, debit, credit }) => ({ accountId, debit, credit }))).toEqual([
+      { accountId: '1200', debit: 93.1, credit: 0 },
+      { accountId: '1000', debit: 0, credit: 32.7 },
+      { accountId: '4900', debit: 5, credit: 0 },
+      { accountId: '4900', debit: 10, credit: 0 },
+      { accountId: '4000', debit: 0, credit: 70 },
+      { accountId: '2200', debit: 0, credit: 5.4 },
+    ])
+    const debits = lines.reduce((sum, line) => sum + line.debit, 0)
+    const credits = lines.reduce((sum, line) => sum + line.credit, 0)
+    expect(debits).toBeCloseTo(credits, 2)
+  })
+
+  it('should sync a day whose return went back as store credit', async () => {
+    const client = createClient()
+    client.transactionPayment.groupBy.mockResolvedValueOnce([
+      { paymentMethod: 'CARD', _sum: { amount: 93.1 }, _count: { _all: 1 } },
+      { paymentMethod: 'STORE_CREDIT', _sum: { amount: -32.7 }, _count: { _all: 1 } },
+    ])
+    const report = await buildDailyReport(asClient(client), { store, businessDate }, now)
+
+    const sync = {
+      quickBooksIntegration: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 'qb-1',
+          isActive: true,
+          expiresAt: new Date('2099-01-01T00:00:00.000Z'),
+          syncErrors: [],
+        }),
+        update: jest.fn().mockResolvedValue({}),
+      },
+      quickBooksAccountMapping: {
+        findUnique: jest.fn().mockResolvedValue({
+          salesAccount: '4000',
+          taxAccount: '2200',
+          cashAccount: '1000',
+          cardAccount: '1200',
+          giftCardAccount: '2400',
+          storeCreditAccount: '2450',
+          discountAccount: null,
+        }),
+      },
+      zReport: { update: jest.fn().mockResolvedValue({}) },
+    }
+    const zReport = {
+      id: 'z-1',
+      storeId: 'store-1',
+      quickBooksId: null,
+      report,
+    } as unknown as ZReport
+
+    const result = await postQuickBooksDailySummary(
+      sync as unknown as Prisma.TransactionClient,
+      zReport,
+    )
+
+    expect(result).toEqual({ status: 'SYNCED' })
+    expect(sync.zReport.update).toHaveBeenCalledWith({
+      where: { id: 'z-1' },
+      data: { quickBooksId: 'qb_journal_z_z-1' },
+    })
+  })
+})
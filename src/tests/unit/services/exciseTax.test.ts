@@ -0,0 +1,124 @@
+import {
+  calculateExcise,
+  calculateExciseForLine,
+  exciseComponentFromRule,
+} from '../../../shared/services/exciseTax'
+import type { ExciseLine } from '../../../shared/services/exciseTax'
+import type { ComplianceRule } from '../../../generated/prisma'
+
+describe('Excise Tax', () => {
+  const closedPods: ExciseLine = {
+    quantity: 2,
+    amount: 30,
+    unitCost: 6,
+    volumeInMl: 2,
+    numCartridges: 4,
+    isClosedSystem: true,
+    isSyntheticNicotine: false,
+  }
+
+  const bottledLiquid: ExciseLine = {
+    quantity: 1,
+    amount: 20,
+    unitCost: 8,
+    volumeInMl: 60,
+    numCartridges: null,
+    isClosedSystem: false,
+    isSyntheticNicotine: false,
+  }
+
+  const exciseRule = (overrides: Partial<ComplianceRule>): ComplianceRule =>
+    ({
+      id: 'excise-rule',
+      ruleType: 'TAX_RATE',
+      jurisdictionType: 'STATE',
+      jurisdictionCode: 'CA',
+      ruleDetails: { taxType: 'PER_ML', rate: 0.1 },
+      enforcementPriority: 'HIGH',
+      ...overrides,
+    }) as ComplianceRule
+
+  it('should tax per ml across the line quantity', () => {
+    const [line] = calculateExcise(
+      'LA',
+      'LA Vapor',
+      [{ basis: 'PER_ML', rate: 0.15 }],
+      bottledLiquid,
+    )
+
+    expect(line).toEqual(
+      expect.objectContaining({
+        code: 'LA_EXCISE_PER_ML',
+        type: 'excise',
+        taxableAmount: 60,
+        taxAmount: 9,
+      }),
+    )
+  })
+
+  it('should tax per cartridge and fall back to retail when cost is missing', () => {
+    const [perCartridge] = calculateExcise(
+      'KY',
+      'KY',
+      [{ basis: 'PER_CARTRIDGE', rate: 1.5 }],
+      closedPods,
+    )
+    expect(perCartridge.taxableAmount).toBe(8)
+    expect(perCartridge.taxAmount).toBe(12)
+
+    const [wholesale] = calculateExcise('PA', 'PA', [{ basis: 'WHOLESALE_PERCENT', rate: 0.4 }], {
+      ...bottledLiquid,
+      unitCost: null,
+    })
+    expect(wholesale.taxableAmount).toBe(20)
+    expect(wholesale.taxAmount).toBe(8)
+  })
+
+  it('should split mixed state formulas by open and closed systems', () => {
+    const closed = calculateExciseForLine('CT', closedPods, [])
+    expect(closed?.map((line) => line.code)).toEqual(['CT_EXCISE_PER_ML'])
+    expect(closed?.[0].taxAmount).toBe(1.6)
+
+    const open = calculateExciseForLine('CT', bottledLiquid, [])
+    expect(open?.map((line) => line.code)).toEqual(['CT_EXCISE_WHOLESALE_PERCENT'])
+    expect(open?.[0].taxAmount).toBe(0.8)
+  })
+
+  it('should return null when the state has no formula and no rules', () => {
+    expect(calculateExciseForLine('CA', bottledLiquid, [])).toBeNull()
+  })
+
+  it('should let state rules replace the formula and add local rules on top', () => {
+    const lines = calculateExciseForLine('LA', bottledLiquid, [
+      exciseRule({ jurisdictionCode: 'LA', ruleDetails: { taxType: 'PER_ML', rate: 0.2 } }),
+      exciseRule({
+        jurisdictionType: 'CITY',
+        jurisdictionCode: 'LA-NEW ORLEANS',
+        ruleDetails: { taxType: 'FIXED', rate: 0.5 },
+      }),
+    ])
+
+    expect(lines?.map((line) => [line.code, line.taxAmount])).toEqual([
+      ['LA_EXCISE_PER_ML', 12],
+      ['LA-NEW ORLEANS_EXCISE_PER_UNIT', 0.5],
+    ])
+  })
+
+  it('should skip synthetic nicotine when the rule excludes it', () => {
+    const rule = exciseRule({
+      ruleDetails: { taxType: 'PER_ML', rate: 0.1, excludeSyntheticNicotine: true },
+    })
+
+    expect(
+      calculateExciseForLine('CA', { ...bottledLiquid, isSyntheticNicotine: true }, [rule]),
+    ).toEqual([])
+    expect(calculateExciseForLine('CA', bottledLiquid, [rule])).toHaveLength(1)
+  })
+
+  it('should only translate non-retail rules into excise components', () => {
+    expect(exciseComponentFromRule({ taxType: 'PERCENTAGE', rate: 0.1 })).toBeNull()
+    expect(
+      exciseComponentFromRule({ taxType: 'PERCENTAGE', rate: 0.1, basis: 'WHOLESALE' }),
+    ).toEqual(expect.objectContaining({ basis: 'WHOLESALE_PERCENT', appliesTo: 'ALL' }))
+  })
+})
@@ -0,0 +1,360 @@
+import bcrypt from 'bcryptjs'
+import {
+  validateActivation,
+  validateLoadAmount,
+  postGiftCardEntry,
+  redeemGiftCard,
+  refundSaleToGiftCards,
+  maskCardNumber,
+  normalizeCardNumber,
+  GiftCardError,
+} from '../../../shared/services/giftCardLedger'
+import { toGiftCardJournalLines } from '../../../shared/services/quickbooksSync'
+import type { Prisma } from '../../../generated/prisma'
+
+describe('Gift card ledger', () => {
+  const now = new Date('2026-03-01T12:00:00.000Z')
+  const pinHash = bcrypt.hashSync('1234', 4)
+
+  interface CardRow {
+    id: string
+    cardNumber: string
+    pinHash: string
+    failedPinAttempts: number
+    pinLockedUntil: Date | null
+    balance: number
+    status: 'ACTIVE' | 'SUSPENDED'
+    expiresAt: Date | null
+  }
+
+  // Cards and ledger rows kept in memory, with just enough of the client to move balances
+  function createClient(cards: CardRow[], ledger: Record<string, unknown>[] = []) {
+    const byId = (id: string) => cards.find((card) => card.id === id) || null
+    const client = {
+      giftCard: {
+        findUnique: jest.fn(({ where }: { where: { id?: string; cardNumber?: string } }) =>
+          Promise.resolve(
+            where.id
+              ? byId(where.id)
+              : cards.find((card) => card.cardNumber === where.cardNumber) || null,
+          ),
+        ),
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { id: string; balance?: { gte?: number; lte?: number } }
+            data: { balance: { increment: number } }
+          }) => {
+            const card = byId(where.id)
+            if (
+              !card ||
+              card.balance < (where.balance?.gte ?? -Infinity) ||
+              card.balance > (where.balance?.lte ?? Infinity)
+            ) {
+              return Promise.resolve({ count: 0 })
+            }
+            card.balance = Math.round((card.balance + data.balance.increment) * 100) / 100
+            return Promise.resolve({ count: 1 })
+          },
+        ),
+        update: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { id: string }
+            data: {
+              failedPinAttempts: number | { increment: number }
+              pinLockedUntil?: Date
+            }
+          }) => {
+            const card = byId(where.id)
+            card.failedPinAttempts =
+              typeof data.failedPinAttempts === 'number'
+                ? data.failedPinAttempts
+                : card.failedPinAttempts + data.failedPinAttempts.increment
+            if (data.pinLockedUntil) card.pinLockedUntil = data.pinLockedUntil
+            return Promise.resolve({ ...card })
+          },
+        ),
+      },
+      giftCardLedger: {
+        create: jest.fn(({ data }: { data: Record<string, unknown> }) => {
+          const row = { id: `entry-${ledger.length + 1}`, ...data }
+          ledger.push(row)
+          return Promise.resolve(row)
+        }),
+        findMany: jest.fn(({ where }: { where: { transactionId?: string; entryType: string } }) =>
+          Promise.resolve(
+            ledger.filter(
+              (row) =>
+                row.entryType === where.entryType &&
+                (where.entryType === 'REFUND' || row.transactionId === where.transactionId),
+            ),
+          ),
+        ),
+      },
+    }
+    return { client, tx: client as unknown as Prisma.TransactionClient, ledger }
+  }
+
+  const card = (overrides: Partial<CardRow> = {}): CardRow => ({
+    id: 'card-1',
+    cardNumber: '6011000000001234',
+    pinHash,
+    failedPinAttempts: 0,
+    pinLockedUntil: null,
+    balance: 50,
+    status: 'ACTIVE',
+    expiresAt: null,
+    ...overrides,
+  })
+
+  describe('validation', () => {
+    it('should accept a valid activation and report every problem with an invalid one', () => {
+      expect(
+        validateActivation(
+          { cardNumber: '6011 0000 0000 1234', pin: '123456', amount: 25, paymentMethod: 'CASH' },
+          now,
+        ),
+      ).toEqual([])
+      expect(
+        validateActivation(
+          {
+            cardNumber: '12-34',
+            pin: '1234',
+            amount: 2.5,
+            paymentMethod: 'GIFT_CARD' as 'CASH',
+            expiresAt: '2026-01-01',
+          },
+          now,
+        ),
+      ).toEqual([
+        'cardNumber must be 10 to 19 digits',
+        'pin must be 6 to 8 digits',
+        'amount must be at least $5.00 in whole cents',
+        'paymentMethod must be one of CASH, CARD',
+        'expiresAt must be a date in the future',
+      ])
+    })
+
+    it('should not let a card hold more than the maximum balance', () => {
+      expect(validateLoadAmount(100, 400)).toEqual([])
+      expect(validateLoadAmount(100.5, 400)).toEqual([
+        'Gift cards can hold at most $500.00; this card can take $100.00 more',
+      ])
+      expect(validateLoadAmount(10.001, 0)).toEqual([
+        'amount must be at least $5.00 in whole cents',
+      ])
+    })
+
+    it('should clean up and mask card numbers', () => {
+      expect(normalizeCardNumber(' 6011-0000 0000-1234 ')).toBe('6011000000001234')
+      expect(maskCardNumber('6011000000001234')).toBe('************1234')
+    })
+  })
+
+  describe('postGiftCardEntry', () => {
+    it('should move the balance and record it with the balance after', async () => {
+      const { tx, ledger } = createClient([card()])
+
+      await postGiftCardEntry(tx, {
+        giftCardId: 'card-1',
+        entryType: 'RELOAD',
+        amount: 20,
+        storeId: 'store-1',
+        employeeId: 'user-1',
+        paymentMethod: 'CARD',
+      })
+
+      expect(ledger).toEqual([
+        expect.objectContaining({
+          giftCardId: 'card-1',
+          entryType: 'RELOAD',
+          amount: 20,
+          balanceAfter: 70,
+          paymentMethod: 'CARD',
+        }),
+      ])
+    })
+
+    it('should refuse to overfill a card or spend money it no longer has', async () => {
+      const { tx, ledger } = createClient([card({ balance: 490 })])
+
+      await expect(
+        postGiftCardEntry(tx, {
+          giftCardId: 'card-1',
+          entryType: 'RELOAD',
+          amount: 20,
+          storeId: 'store-1',
+        }),
+      ).rejects.toThrow('this card can take $10.00 more')
+      await expect(
+        postGiftCardEntry(tx, {
+          giftCardId: 'card-1',
+          entryType: 'REDEEM',
+          amount: -500,
+          storeId: 'store-1',
+        }),
+      ).rejects.toThrow('Insufficient gift card balance. Available: $490.00')
+      expect(ledger).toEqual([])
+    })
+  })
+
+  describe('redeemGiftCard', () => {
+    const redeem = (
+      tx: Prisma.TransactionClient,
+      overrides: { pin?: string; amount?: number } = {},
+    ) =>
+      redeemGiftCard(tx, {
+        cardNumber: '6011 0000 0000 1234',
+        pin: '1234',
+        amount: 30,
+        storeId: 'store-1',
+        transactionId: 'sale-1',
+        at: now,
+        ...overrides,
+      })
+
+    it('should spend part of the balance', async () => {
+      const { tx, ledger } = createClient([card()])
+
+      await redeem(tx)
+
+      expect(ledger).toEqual([
+        expect.objectContaining({
+          entryType: 'REDEEM',
+          amount: -30,
+          balanceAfter: 20,
+          transactionId: 'sale-1',
+        }),
+      ])
+    })
+
+    it('should give the same answer for a wrong PIN as for an unknown card', async () => {
+      const { tx } = createClient([card()])
+
+      await expect(redeem(tx, { pin: '9999' })).rejects.toThrow(
+        'Gift card number or PIN is incorrect',
+      )
+      await expect(
+        redeemGiftCard(tx, {
+          cardNumber: '0000000000',
+          pin: '1234',
+          amount: 5,
+          storeId: 'store-1',
+          at: now,
+        }),
+      ).rejects.toThrow('Gift card number or PIN is incorrect')
+    })
+
+    it('should lock the card after five wrong PINs in a row', async () => {
+      const cards = [card()]
+      const { tx } = createClient(cards)
+
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await expect(redeem(tx, { pin: '9999' })).rejects.toThrow(
+          'Gift card number or PIN is incorrect',
+        )
+      }
+
+      expect(cards[0].pinLockedUntil).toEqual(new Date('2026-03-01T12:30:00.000Z'))
+      // Not even the right PIN opens a locked card
+      await expect(redeem(tx)).rejects.toThrow(
+        'Gift card is locked after too many wrong PINs; try again later',
+      )
+      expect(cards[0].balance).toBe(50)
+    })
+
+    it('should start counting again after the right PIN', async () => {
+      const cards = [card({ failedPinAttempts: 4 })]
+      const { tx } = createClient(cards)
+
+      await redeem(tx)
+
+      expect(cards[0].failedPinAttempts).toBe(0)
+    })
+
+    it('should reject suspended and expired cards and amounts above the balance', async () => {
+      await expect(redeem(createClient([card({ status: 'SUSPENDED' })]).tx)).rejects.toThrow(
+        'Gift card is suspended',
+      )
+      await expect(
+        redeem(createClient([card({ expiresAt: new Date('2026-02-01T00:00:00.000Z') })]).tx),
+      ).rejects.toThrow('Gift card expired on 2026-02-01')
+      await expect(redeem(createClient([card()]).tx, { amount: 80 })).rejects.toThrow(GiftCardError)
+    })
+  })
+
+  describe('refundSaleToGiftCards', () => {
+    it('should refund each card no more than it paid, less earlier refunds', async () => {
+      const { tx, ledger } = createClient(
+        [card({ balance: 0 }), card({ id: 'card-2', cardNumber: '6011000000005678', balance: 0 })],
+        [
+          { giftCardId: 'card-1', entryType: 'REDEEM', amount: -20, transactionId: 'sale-1' },
+          { giftCardId: 'card-2', entryType: 'REDEEM', amount: -15, transactionId: 'sale-1' },
+          { giftCardId: 'card-1', entryType: 'REFUND', amount: 12, transactionId: 'return-1' },
+        ],
+      )
+
+      const entries = await refundSaleToGiftCards(tx, {
+        saleTransactionId: 'sale-1',
+        amount: 20,
+        storeId: 'store-1',
+        transactionId: 'return-2',
+      })
+
+      expect(entries).toEqual([
+        expect.objectContaining({ giftCardId: 'card-1', amount: 8, transactionId: 'return-2' }),
+        expect.objectContaining({ giftCardId: 'card-2', amount: 12, transactionId: 'return-2' }),
+      ])
+      expect(ledger).toHaveLength(5)
+    })
+
+    it('should refuse to refund more than the cards paid', async () => {
+      const { tx } = createClient(
+        [card({ balance: 0 })],
+        [{ giftCardId: 'card-1', entryType: 'REDEEM', amount: -10, transactionId: 'sale-1' }],
+      )
+
+      await expect(
+        refundSaleToGiftCards(tx, {
+          saleTransactionId: 'sale-1',
+          amount: 25,
+          storeId: 'store-1',
+          transactionId: 'return-1',
+        }),
+      ).rejects.toThrow('Refund is $15.00 more than the gift cards paid on this sale')
+    })
+  })
+
+  it('should book card sales against the gift card liability account, not sales income', () => {
+    const mapping = {
+      cashAccount: '3',
+      cardAccount: '4',
+      giftCardAccount: '5',
+      storeCreditAccount: '6',
+    }
+
+    expect(
+      toGiftCardJournalLines(
+        { entryType: 'ACTIVATE', amount: 50, paymentMethod: 'CARD' } as never,
+        mapping,
+      ),
+    ).toEqual([
+      { accountId: '4', debit: 50, credit: 0, description: 'Gift card sold' },
+      { accountId: '5', debit: 0, credit: 50, description: 'Gift card sold' },
+    ])
+    expect(
+      toGiftCardJournalLines(
+        { entryType: 'RELOAD', amount: 20, paymentMethod: 'CASH' } as never,
+        mapping,
+      ),
+    ).toEqual([
+      { accountId: '3', debit: 20, credit: 0, description: 'Gift card reloaded' },
+      { accountId: '5', debit: 0, credit: 20, description: 'Gift card reloaded' },
+    ])
+  })
+})
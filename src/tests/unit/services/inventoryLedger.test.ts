@@ -0,0 +1,329 @@
+import {
+  findInventoryDiscrepancies,
+  InventoryMovementError,
+  postInventoryMovement,
+  recordOpeningStock,
+  recordStockCount,
+  validateInventoryMovement,
+  validateStockCount,
+} from '../../../shared/services/inventoryLedger'
+import type { Prisma, PrismaClient } from '../../../generated/prisma'
+
+describe('Inventory ledger', () => {
+  type Level = { productId: string; storeId: string; quantity: number }
+
+  // Products, store stock and movements kept in memory, with just enough of the client to move stock
+  function createClient(
+    products: Record<string, { sku: string; quantity: number }>,
+    levels: Level[] = [],
+  ) {
+    const movements: Record<string, unknown>[] = []
+    const findLevel = (productId: string, storeId: string) =>
+      levels.find((level) => level.productId === productId && level.storeId === storeId)
+
+    const client = {
+      product: {
+        findUnique: jest.fn(
+          ({
+            where,
+            select,
+          }: {
+            where: { id: string }
+            select: { storeInventory: { where: { storeId: string } } }
+          }) => {
+            const level = findLevel(where.id, select.storeInventory.where.storeId)
+            return Promise.resolve(
+              products[where.id]
+                ? { storeInventory: level ? [{ quantity: level.quantity }] : [] }
+                : null,
+            )
+          },
+        ),
+        findMany: jest.fn(() =>
+          Promise.resolve(
+            Object.entries(products).map(([id, product]) => ({
+              id,
+              name: product.sku,
+              ...product,
+            })),
+          ),
+        ),
+        update: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { id: string }
+            data: { quantity: { increment: number } }
+          }) => {
+            products[where.id].quantity += data.quantity.increment
+            return Promise.resolve(products[where.id])
+          },
+        ),
+      },
+      storeInventory: {
+        upsert: jest.fn(
+          ({
+            where,
+            update,
+          }: {
+            where: { productId_storeId: { productId: string; storeId: string } }
+            update: { quantity: { increment: number } }
+          }) => {
+            const { productId, storeId } = where.productId_storeId
+            let level = findLevel(productId, storeId)
+            if (!level) {
+              level = { productId, storeId, quantity: 0 }
+              levels.push(level)
+            }
+            level.quantity += update.quantity.increment
+            return Promise.resolve({ quantity: level.quantity })
+          },
+        ),
+        findMany: jest.fn(() =>
+          Promise.resolve(
+            levels.map((level) => ({ ...level, store: { storeName: `Store ${level.storeId}` } })),
+          ),
+        ),
+      },
+      inventoryMovement: {
+        create: jest.fn(({ data }: { data: Record<string, unknown> }) => {
+          movements.push(data)
+          return Promise.resolve(data)
+        }),
+        groupBy: jest.fn().mockResolvedValue([]),
+      },
+    }
+    return { client, movements, levels }
+  }
+
+  const asTx = (client: unknown) => client as Prisma.TransactionClient
+
+  describe('postInventoryMovement', () => {
+    it("should change the store's quantity on hand and the product total", async () => {
+      const products = { pod: { sku: 'POD-1', quantity: 5 } }
+      const { client, movements, levels } = createClient(products, [
+        { productId: 'pod', storeId: 'store-1', quantity: 5 },
+      ])
+
+      await postInventoryMovement(asTx(client), {
+        productId: 'pod',
+        storeId: 'store-2',
+        movementType: 'RECEIVE',
+        reasonCode: 'RECEIVED',
+        quantity: 12,
+        userId: 'user-1',
+        reference: 'PO-77',
+      })
+
+      expect(levels).toEqual([
+        { productId: 'pod', storeId: 'store-1', quantity: 5 },
+        { productId: 'pod', storeId: 'store-2', quantity: 12 },
+      ])
+      expect(products.pod.quantity).toBe(17)
+      expect(movements).toEqual([
+        expect.objectContaining({
+          productId: 'pod',
+          storeId: 'store-2',
+          movementType: 'RECEIVE',
+          reasonCode: 'RECEIVED',
+          quantity: 12,
+          quantityAfter: 12,
+          userId: 'user-1',
+          reference: 'PO-77',
+        }),
+      ])
+    })
+
+    it("should refuse to take a store's stock below zero unless it is a sale", async () => {
+      const { client } = createClient({ pod: { sku: 'POD-1', quantity: 10 } }, [
+        { productId: 'pod', storeId: 'store-1', quantity: 2 },
+        { productId: 'pod', storeId: 'store-2', quantity: 8 },
+      ])
+      const writeOff = {
+        productId: 'pod',
+        storeId: 'store-1',
+        movementType: 'ADJUSTMENT' as const,
+        reasonCode: 'DAMAGE' as const,
+        quantity: -3,
+      }
+
+      await expect(postInventoryMovement(asTx(client), writeOff)).rejects.toThrow(
+        new InventoryMovementError('Only 2 on hand; cannot take away 3'),
+      )
+      expect(client.inventoryMovement.create).not.toHaveBeenCalled()
+
+      const sale = await postInventoryMovement(asTx(client), {
+        productId: 'pod',
+        storeId: 'store-1',
+        movementType: 'SALE',
+        reasonCode: 'SOLD',
+        quantity: -1,
+        allowNegativeStock: true,
+      })
+      expect(sale).toEqual(expect.objectContaining({ quantityAfter: -2 }))
+    })
+
+    it('should reject a reason that does not belong to the movement and skip empty moves', async () => {
+      const { client } = createClient({ pod: { sku: 'POD-1', quantity: 2 } })
+
+      await expect(
+        postInventoryMovement(asTx(client), {
+          productId: 'pod',
+          storeId: 'store-1',
+          movementType: 'SALE',
+          reasonCode: 'THEFT',
+          quantity: -1,
+        }),
+      ).rejects.toThrow('THEFT is not a reason for a SALE movement')
+      await expect(
+        postInventoryMovement(asTx(client), {
+          productId: 'pod',
+          storeId: 'store-1',
+          movementType: 'RECEIVE',
+          reasonCode: 'RECEIVED',
+          quantity: 0,
+        }),
+      ).resolves.toBeNull()
+      expect(client.storeInventory.upsert).not.toHaveBeenCalled()
+      expect(client.product.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('recordStockCount', () => {
+    it("should adjust the store's quantity on hand to what was counted", async () => {
+      const products = { pod: { sku: 'POD-1', quantity: 16 } }
+      const { client, movements } = createClient(products, [
+        { productId: 'pod', storeId: 'store-1', quantity: 10 },
+        { productId: 'pod', storeId: 'store-2', quantity: 6 },
+      ])
+
+      await recordStockCount(asTx(client), 'pod', { quantity: 7 }, { storeId: 'store-1' })
+
+      expect(products.pod.quantity).toBe(13)
+      expect(movements).toEqual([
+        expect.objectContaining({
+          movementType: 'ADJUSTMENT',
+          reasonCode: 'COUNT',
+          quantity: -3,
+          quantityAfter: 7,
+          storeId: 'store-1',
+        }),
+      ])
+    })
+
+    it('should count from nothing at a store that has never stocked the product', async () => {
+      const { client, movements } = createClient({ pod: { sku: 'POD-1', quantity: 10 } }, [
+        { productId: 'pod', storeId: 'store-1', quantity: 10 },
+      ])
+
+      await recordStockCount(asTx(client), 'pod', { quantity: 4 }, { storeId: 'store-2' })
+
+      expect(movements).toEqual([
+        expect.objectContaining({ storeId: 'store-2', quantity: 4, quantityAfter: 4 }),
+      ])
+    })
+
+    it('should write nothing when the count matches', async () => {
+      const { client } = createClient({ pod: { sku: 'POD-1', quantity: 10 } }, [
+        { productId: 'pod', storeId: 'store-1', quantity: 10 },
+      ])
+      const actor = { storeId: 'store-1' }
+
+      await expect(
+        recordStockCount(asTx(client), 'pod', { quantity: 10 }, actor),
+      ).resolves.toBeNull()
+      await expect(recordStockCount(asTx(client), 'gone', { quantity: 1 }, actor)).rejects.toThrow(
+        'Product gone not found',
+      )
+    })
+  })
+
+  it('should validate stock received, adjustments and counts', () => {
+    expect(
+      validateInventoryMovement({ movementType: 'RECEIVE', reasonCode: 'RECEIVED', quantity: 6 }),
+    ).toEqual([])
+    expect(
+      validateInventoryMovement({ movementType: 'RECEIVE', reasonCode: 'DAMAGE', quantity: -6 }),
+    ).toEqual([
+      'Stock received must use reasonCode RECEIVED',
+      'quantity received must be a whole number more than zero',
+    ])
+    expect(
+      validateInventoryMovement({ movementType: 'ADJUSTMENT', reasonCode: 'SOLD', quantity: 1.5 }),
+    ).toEqual([
+      'reasonCode must be one of DAMAGE, THEFT, EXPIRED, COUNT',
+      'quantity must be a whole number other than zero',
+    ])
+    expect(
+      validateInventoryMovement({ movementType: 'SALE' as never, reasonCode: 'SOLD', quantity: 1 }),
+    ).toEqual(['movementType must be RECEIVE or ADJUSTMENT'])
+
+    expect(validateStockCount({ quantity: 0, reasonCode: 'THEFT' })).toEqual([])
+    expect(validateStockCount({ quantity: -1 })).toEqual([
+      'quantity must be a whole number of zero or more',
+    ])
+  })
+
+  it('should list store stock and product totals that do not add up from their movements', async () => {
+    const { client } = createClient(
+      {
+        pod: { sku: 'POD-1', quantity: 8 },
+        kit: { sku: 'KIT-1', quantity: 3 },
+      },
+      [
+        { productId: 'pod', storeId: 'store-1', quantity: 5 },
+        { productId: 'pod', storeId: 'store-2', quantity: 3 },
+        { productId: 'kit', storeId: 'store-1', quantity: 3 },
+      ],
+    )
+    client.inventoryMovement.groupBy.mockImplementation(({ by }: { by: string[] }) =>
+      Promise.resolve(
+        by.includes('storeId')
+          ? [
+              { productId: 'pod', storeId: 'store-1', _sum: { quantity: 6 } },
+              { productId: 'pod', storeId: 'store-2', _sum: { quantity: 2 } },
+              { productId: 'kit', storeId: 'store-1', _sum: { quantity: 5 } },
+            ]
+          : [
+              { productId: 'pod', _sum: { quantity: 8 } },
+              { productId: 'kit', _sum: { quantity: 5 } },
+            ],
+      ),
+    )
+
+    const rows = await findInventoryDiscrepancies(asTx(client))
+
+    expect(rows.map(({ sku, storeId, difference }) => ({ sku, storeId, difference }))).toEqual([
+      { sku: 'POD-1', storeId: 'store-1', difference: -1 },
+      { sku: 'POD-1', storeId: 'store-2', difference: 1 },
+      { sku: 'KIT-1', storeId: null, difference: -2 },
+      { sku: 'KIT-1', storeId: 'store-1', difference: -2 },
+    ])
+    expect(rows[0]).toEqual(
+      expect.objectContaining({ storeName: 'Store store-1', quantity: 5, movementTotal: 6 }),
+    )
+  })
+
+  it('should give store stock that predates the ledger an opening balance', async () => {
+    const { client, movements } = createClient({ pod: { sku: 'POD-1', quantity: 9 } }, [
+      { productId: 'pod', storeId: 'store-1', quantity: 4 },
+      { productId: 'pod', storeId: 'store-2', quantity: 5 },
+    ])
+    client.inventoryMovement.groupBy.mockResolvedValue([
+      { productId: 'pod', storeId: 'store-2', _count: { _all: 1 } },
+    ])
+
+    await expect(recordOpeningStock(client as unknown as PrismaClient)).resolves.toBe(1)
+
+    expect(movements).toEqual([
+      expect.objectContaining({
+        productId: 'pod',
+        storeId: 'store-1',
+        reasonCode: 'OPENING_BALANCE',
+        quantity: 4,
+        quantityAfter: 4,
+      }),
+    ])
+  })
+})
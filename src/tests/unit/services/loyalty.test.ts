@@ -0,0 +1,159 @@
+import {
+  getRedeemableRange,
+  planPointsRedemption,
+  calculateRedemptionRefund,
+  validateTierSettings,
+  validateTierLadder,
+  resolveTier,
+  calculatePointsEarned,
+  toTierSettings,
+  LoyaltyRedemptionError,
+} from '../../../shared/services/loyalty'
+import type { LoyaltyTierSettings } from '../../../shared/types/loyalty'
+
+describe('Loyalty redemption', () => {
+  const rule = (overrides: Partial<LoyaltyTierSettings> = {}): LoyaltyTierSettings => ({
+    tier: 'SILVER',
+    pointValue: 0.01,
+    minRedemptionPoints: 100,
+    maxRedemptionPoints: null,
+    maxRedemptionPercent: null,
+    minAnnualSpend: 500,
+    earnMultiplier: 1,
+    pointsExpireMonths: null,
+    ...overrides,
+  })
+
+  it('should fall back to the program defaults for tiers without a rule', () => {
+    expect(toTierSettings('GOLD', null)).toEqual({
+      tier: 'GOLD',
+      pointValue: 0.01,
+      minRedemptionPoints: 100,
+      maxRedemptionPoints: null,
+      maxRedemptionPercent: null,
+      minAnnualSpend: 2000,
+      earnMultiplier: 1,
+      pointsExpireMonths: null,
+    })
+  })
+
+  describe('getRedeemableRange', () => {
+    it('should cap points by balance, tier limits and the amount due', () => {
+      expect(getRedeemableRange(rule(), 750, 20)).toEqual({ minPoints: 100, maxPoints: 750 })
+      expect(getRedeemableRange(rule(), 5000, 20)).toEqual({ minPoints: 100, maxPoints: 2000 })
+      expect(getRedeemableRange(rule({ maxRedemptionPoints: 500 }), 5000, 20).maxPoints).toBe(500)
+      expect(getRedeemableRange(rule({ maxRedemptionPercent: 50 }), 5000, 20.5).maxPoints).toBe(
+        1025,
+      )
+    })
+
+    it('should report nothing redeemable below the tier minimum', () => {
+      expect(getRedeemableRange(rule(), 80, 20)).toEqual({ minPoints: 100, maxPoints: 0 })
+      expect(getRedeemableRange(rule(), 5000, 0.5)).toEqual({ minPoints: 100, maxPoints: 0 })
+    })
+  })
+
+  describe('planPointsRedemption', () => {
+    it('should value the requested points', () => {
+      expect(planPointsRedemption(250, rule({ pointValue: 0.02 }), 1000, 30)).toEqual({
+        availablePoints: 1000,
+        pointValue: 0.02,
+        minPoints: 100,
+        maxPoints: 1000,
+        points: 250,
+        amount: 5,
+      })
+    })
+
+    it('should quote the range without redeeming when no points are asked for', () => {
+      expect(planPointsRedemption(0, rule(), 1000, 30)).toMatchObject({ points: 0, amount: 0 })
+    })
+
+    it('should explain why a redemption is not allowed', () => {
+      const plan = (points: number) => () => planPointsRedemption(points, rule(), 1000, 5)
+
+      expect(plan(2000)).toThrow('Insufficient points. Customer has 1000 points.')
+      expect(plan(50)).toThrow('At least 100 points must be redeemed for SILVER customers')
+      expect(plan(600)).toThrow('At most 500 points can be redeemed on this sale')
+      expect(plan(12.5)).toThrow(LoyaltyRedemptionError)
+    })
+  })
+
+  it('should restore redeemed points in proportion to the amount refunded', () => {
+    const redemption = { points: 1000, amount: 10 }
+
+    const first = calculateRedemptionRefund(redemption, 40, 0, 10, false)
+    const rest = calculateRedemptionRefund(redemption, 40, 10, 30, true)
+
+    expect(first).toEqual({ points: 250, amount: 2.5 })
+    expect(first.points + rest.points).toBe(1000)
+    expect(first.amount + rest.amount).toBe(10)
+    expect(calculateRedemptionRefund({ points: 0, amount: 0 }, 40, 0, 40, true)).toEqual({
+      points: 0,
+      amount: 0,
+    })
+  })
+
+  it('should validate tier rules', () => {
+    expect(
+      validateTierSettings(rule({ maxRedemptionPoints: 5000, maxRedemptionPercent: 50 })),
+    ).toEqual([])
+    expect(
+      validateTierSettings(
+        rule({ pointValue: 0, minRedemptionPoints: 500, maxRedemptionPoints: 100 }),
+      ),
+    ).toEqual([
+      'pointValue must be more than 0 and at most 1 dollar per point',
+      'maxRedemptionPoints must not be below minRedemptionPoints',
+    ])
+    expect(validateTierSettings(rule({ maxRedemptionPercent: 150 }))).toEqual([
+      'maxRedemptionPercent must be more than 0 and at most 100',
+    ])
+    expect(
+      validateTierSettings(
+        rule({ minAnnualSpend: -1, earnMultiplier: 0, pointsExpireMonths: 1.5 }),
+      ),
+    ).toEqual([
+      'minAnnualSpend must be zero or more',
+      'earnMultiplier must be more than 0 and at most 10',
+      'pointsExpireMonths must be a positive whole number',
+    ])
+  })
+
+  describe('tiers', () => {
+    const ladder = [
+      rule({ tier: 'BRONZE', minAnnualSpend: 0 }),
+      rule({ tier: 'SILVER', minAnnualSpend: 500 }),
+      rule({ tier: 'GOLD', minAnnualSpend: 2000 }),
+      rule({ tier: 'PLATINUM', minAnnualSpend: 5000 }),
+    ]
+
+    it('should place a customer in the highest tier their 12-month spend reaches', () => {
+      expect(resolveTier(ladder, 0)).toBe('BRONZE')
+      expect(resolveTier(ladder, 499.99)).toBe('BRONZE')
+      expect(resolveTier(ladder, 500)).toBe('SILVER')
+      expect(resolveTier(ladder, 4999)).toBe('GOLD')
+      expect(resolveTier(ladder, 12000)).toBe('PLATINUM')
+      expect(resolveTier(ladder, -40)).toBe('BRONZE')
+    })
+
+    it('should require each tier to need more spend than the one below', () => {
+      expect(validateTierLadder(ladder)).toEqual([])
+      expect(
+        validateTierLadder([
+          rule({ tier: 'BRONZE', minAnnualSpend: 100 }),
+          rule({ tier: 'SILVER', minAnnualSpend: 500 }),
+          rule({ tier: 'GOLD', minAnnualSpend: 500 }),
+          rule({ tier: 'PLATINUM', minAnnualSpend: 5000 }),
+        ]),
+      ).toEqual(['BRONZE minAnnualSpend must be 0', 'GOLD minAnnualSpend must be above SILVER'])
+    })
+
+    it('should earn points at the tier multiplier, rounded down', () => {
+      expect(calculatePointsEarned(21.5, 1)).toBe(21)
+      expect(calculatePointsEarned(21.5, 1.5)).toBe(32)
+      expect(calculatePointsEarned(0.99, 1)).toBe(0)
+      expect(calculatePointsEarned(-10, 2)).toBe(0)
+    })
+  })
+})
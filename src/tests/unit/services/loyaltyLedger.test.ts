@@ -0,0 +1,196 @@
+import {
+  postLoyaltyEntry,
+  expireInactivePoints,
+  recalculateTiers,
+} from '../../../shared/services/loyaltyLedger'
+import { LoyaltyRedemptionError } from '../../../shared/services/loyalty'
+import type { Prisma, PrismaClient } from '../../../generated/prisma'
+
+describe('Loyalty ledger', () => {
+  // Customers and ledger rows kept in memory, with just enough of the client to move points
+  function createClient(
+    customers: Record<string, { loyaltyPoints: number; loyaltyTier?: string }>,
+  ) {
+    const ledger: Record<string, unknown>[] = []
+    const client = {
+      customer: {
+        findUnique: jest.fn(({ where }: { where: { id: string } }) =>
+          Promise.resolve(customers[where.id] || null),
+        ),
+        findFirst: jest.fn(({ where }: { where: { id: string } }) =>
+          Promise.resolve(customers[where.id] || null),
+        ),
+        findMany: jest.fn(() =>
+          Promise.resolve(Object.entries(customers).map(([id, customer]) => ({ id, ...customer }))),
+        ),
+        update: jest.fn(
+          ({ where, data }: { where: { id: string }; data: { loyaltyTier: string } }) => {
+            customers[where.id].loyaltyTier = data.loyaltyTier
+            return Promise.resolve(customers[where.id])
+          },
+        ),
+        updateMany: jest.fn(
+          ({
+            where,
+            data,
+          }: {
+            where: { id: string; loyaltyPoints?: { gte: number } }
+            data: { loyaltyPoints: { increment: number } }
+          }) => {
+            const customer = customers[where.id]
+            if (!customer || customer.loyaltyPoints < (where.loyaltyPoints?.gte ?? -Infinity)) {
+              return Promise.resolve({ count: 0 })
+            }
+            customer.loyaltyPoints += data.loyaltyPoints.increment
+            return Promise.resolve({ count: 1 })
+          },
+        ),
+      },
+      loyaltyLedger: {
+        create: jest.fn(({ data }: { data: Record<string, unknown> }) => {
+          ledger.push(data)
+          return Promise.resolve(data)
+        }),
+      },
+      loyaltyTierRule: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      transaction: {
+        groupBy: jest.fn().mockResolvedValue([]),
+      },
+      $transaction: jest.fn((callback: (tx: unknown) => unknown) => callback(client)),
+    }
+    return { client, ledger, customers }
+  }
+
+  describe('postLoyaltyEntry', () => {
+    it('should move the balance and record it with the balance after', async () => {
+      const { client, ledger, customers } = createClient({ 'customer-1': { loyaltyPoints: 300 } })
+      const tx = client as unknown as Prisma.TransactionClient
+
+      await postLoyaltyEntry(tx, {
+        customerId: 'customer-1',
+        entryType: 'REDEEM',
+        points: -200,
+        transactionId: 'sale-1',
+        employeeId: 'user-1',
+      })
+
+      expect(customers['customer-1'].loyaltyPoints).toBe(100)
+      expect(client.customer.updateMany).toHaveBeenCalledWith({
+        where: { id: 'customer-1', loyaltyPoints: { gte: 200 } },
+        data: { loyaltyPoints: { increment: -200 }, pointsLifetimeRedeemed: { increment: 200 } },
+      })
+      expect(ledger).toEqual([
+        {
+          customerId: 'customer-1',
+          entryType: 'REDEEM',
+          points: -200,
+          balanceAfter: 100,
+          transactionId: 'sale-1',
+          employeeId: 'user-1',
+          reason: undefined,
+        },
+      ])
+    })
+
+    it('should refuse to spend points the customer no longer has', async () => {
+      const { client, ledger } = createClient({ 'customer-1': { loyaltyPoints: 50 } })
+
+      await expect(
+        postLoyaltyEntry(client as unknown as Prisma.TransactionClient, {
+          customerId: 'customer-1',
+          entryType: 'REDEEM',
+          points: -200,
+        }),
+      ).rejects.toThrow(LoyaltyRedemptionError)
+      expect(ledger).toEqual([])
+    })
+
+    it('should take back no more than the balance when clamped, and skip empty changes', async () => {
+      const { client, ledger, customers } = createClient({ 'customer-1': { loyaltyPoints: 15 } })
+      const tx = client as unknown as Prisma.TransactionClient
+
+      await postLoyaltyEntry(tx, {
+        customerId: 'customer-1',
+        entryType: 'EARN',
+        points: -40,
+        clampToBalance: true,
+      })
+      const empty = await postLoyaltyEntry(tx, {
+        customerId: 'customer-1',
+        entryType: 'EARN',
+        points: -40,
+        clampToBalance: true,
+      })
+
+      expect(customers['customer-1'].loyaltyPoints).toBe(0)
+      expect(ledger).toEqual([expect.objectContaining({ points: -15, balanceAfter: 0 })])
+      expect(empty).toBeNull()
+    })
+  })
+
+  it('should expire the whole balance of inactive customers in tiers that expire', async () => {
+    const { client, ledger, customers } = createClient({ 'customer-1': { loyaltyPoints: 420 } })
+    client.loyaltyTierRule.findMany.mockResolvedValue([
+      {
+        tier: 'BRONZE',
+        pointValue: 0.01,
+        minRedemptionPoints: 100,
+        maxRedemptionPoints: null,
+        maxRedemptionPercent: null,
+        minAnnualSpend: 0,
+        earnMultiplier: 1,
+        pointsExpireMonths: 12,
+      },
+    ])
+
+    const result = await expireInactivePoints(
+      client as unknown as PrismaClient,
+      new Date('2026-06-01T00:00:00.000Z'),
+    )
+
+    expect(client.customer.findMany).toHaveBeenCalledWith({
+      where: expect.objectContaining({
+        loyaltyTier: 'BRONZE',
+        OR: [
+          { lastPurchaseDate: { lt: new Date('2025-06-01T00:00:00.000Z') } },
+          { lastPurchaseDate: null, createdAt: { lt: new Date('2025-06-01T00:00:00.000Z') } },
+        ],
+      }),
+      select: { id: true },
+    })
+    expect(result).toEqual({ customers: 1, points: 420 })
+    expect(customers['customer-1'].loyaltyPoints).toBe(0)
+    expect(ledger).toEqual([
+      expect.objectContaining({
+        entryType: 'EXPIRE',
+        points: -420,
+        reason: 'No purchases in 12 months',
+      }),
+    ])
+  })
+
+  it('should move customers up and down to the tier their 12-month spend reaches', async () => {
+    const { client, customers } = createClient({
+      rising: { loyaltyPoints: 0, loyaltyTier: 'BRONZE' },
+      lapsed: { loyaltyPoints: 0, loyaltyTier: 'GOLD' },
+      steady: { loyaltyPoints: 0, loyaltyTier: 'SILVER' },
+    })
+    client.transaction.groupBy.mockResolvedValue([
+      { customerId: 'rising', _sum: { totalAmount: 2400 } },
+      { customerId: 'lapsed', _sum: { totalAmount: 120 } },
+      { customerId: 'steady', _sum: { totalAmount: 800 } },
+    ])
+
+    const result = await recalculateTiers(
+      client as unknown as PrismaClient,
+      new Date('2026-06-01T00:00:00.000Z'),
+    )
+
+    expect(result).toEqual({ upgraded: 1, downgraded: 1 })
+    expect(customers.rising.loyaltyTier).toBe('GOLD')
+    expect(customers.lapsed.loyaltyTier).toBe('BRONZE')
+    expect(client.customer.update).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,215 @@
+import {
+  applyOffers,
+  allocateDiscount,
+  calculateOfferDiscounts,
+  checkOfferEligibility,
+} from '../../../shared/services/offerEngine'
+import type { OfferCustomer, OfferLineInput } from '../../../shared/services/offerEngine'
+import type { Offer } from '../../../generated/prisma'
+
+describe('Offer engine', () => {
+  const at = new Date('2026-03-02T18:00:00.000Z')
+
+  const offer = (overrides: Partial<Record<keyof Offer, unknown>> = {}): Offer =>
+    ({
+      id: 'offer-1',
+      name: 'Offer',
+      offerType: 'PERCENTAGE',
+      discountValue: 10,
+      minPurchaseAmount: 0,
+      maxDiscountAmount: null,
+      targetAudience: 'ALL',
+      customerSegments: null,
+      applicableProducts: null,
+      excludedProducts: null,
+      maxUsesTotal: null,
+      maxUsesPerCustomer: 1,
+      currentUses: 0,
+      startDate: new Date('2026-03-01T00:00:00.000Z'),
+      endDate: new Date('2026-03-31T00:00:00.000Z'),
+      isActive: true,
+      ...overrides,
+    }) as Offer
+
+  const line = (overrides: Partial<OfferLineInput> = {}): OfferLineInput => ({
+    productId: 'product-1',
+    productSku: 'POD-001',
+    category: 'Pods',
+    quantity: 1,
+    unitPrice: 10,
+    amount: 10,
+    expirationDate: null,
+    ...overrides,
+  })
+
+  const customer: OfferCustomer = {
+    id: 'customer-1',
+    loyaltyTier: 'SILVER',
+    totalSpent: 250,
+    transactionCount: 4,
+    dateOfBirth: new Date('1990-05-15'),
+    lastPurchaseDate: new Date('2026-02-20T00:00:00.000Z'),
+    redemptions: {},
+  }
+
+  describe('allocateDiscount', () => {
+    it('should split in proportion and hand leftover cents to the largest remainder', () => {
+      expect(allocateDiscount(1, [10, 10, 10])).toEqual([0.34, 0.33, 0.33])
+      expect(allocateDiscount(5, [30, 10])).toEqual([3.75, 1.25])
+      expect(allocateDiscount(5, [0, 0])).toEqual([0, 0])
+    })
+  })
+
+  describe('calculateOfferDiscounts', () => {
+    it('should cap a percentage discount at the maximum discount', () => {
+      expect(
+        calculateOfferDiscounts(offer({ discountValue: 50, maxDiscountAmount: 6 }), [
+          line({ amount: 20 }),
+          line({ amount: 10 }),
+        ]),
+      ).toEqual([4, 2])
+    })
+
+    it('should not take more than the lines cost for a fixed amount', () => {
+      expect(
+        calculateOfferDiscounts(offer({ offerType: 'FIXED_AMOUNT', discountValue: 25 }), [
+          line({ amount: 12 }),
+        ]),
+      ).toEqual([12])
+    })
+
+    it('should discount every second unit, cheapest of each pair', () => {
+      const discounts = calculateOfferDiscounts(offer({ offerType: 'BOGO', discountValue: 100 }), [
+        line({ quantity: 2, unitPrice: 20, amount: 40 }),
+        line({ productId: 'product-2', quantity: 1, unitPrice: 8, amount: 8 }),
+      ])
+      // Units by price: 20, 20, 8 - only the second 20 is free
+      expect(discounts).toEqual([20, 0])
+    })
+  })
+
+  describe('checkOfferEligibility', () => {
+    it('should enforce running dates and use limits', () => {
+      expect(checkOfferEligibility(offer(), { at })).toBeNull()
+      expect(
+        checkOfferEligibility(offer({ endDate: new Date('2026-03-02T00:00:00.000Z') }), { at }),
+      ).toBe('Offer is not running')
+      expect(checkOfferEligibility(offer({ maxUsesTotal: 5, currentUses: 5 }), { at })).toBe(
+        'Offer has reached its use limit',
+      )
+      expect(
+        checkOfferEligibility(offer(), {
+          at,
+          customer: { ...customer, redemptions: { 'offer-1': 1 } },
+        }),
+      ).toBe('Customer has already used this offer')
+    })
+
+    it('should match the audience and customer segments', () => {
+      const loyalty = offer({
+        targetAudience: 'LOYALTY_MEMBERS',
+        customerSegments: { tiers: ['SILVER', 'GOLD'], minSpent: 100 },
+      })
+      expect(checkOfferEligibility(loyalty, { at })).toBe('Offer is for loyalty members')
+      expect(checkOfferEligibility(loyalty, { at, customer })).toBeNull()
+      expect(
+        checkOfferEligibility(loyalty, { at, customer: { ...customer, loyaltyTier: 'BRONZE' } }),
+      ).toBe('Customer is not in a qualifying loyalty tier')
+      expect(
+        checkOfferEligibility(offer({ targetAudience: 'NEW_CUSTOMERS' }), { at, customer }),
+      ).toBe('Offer is for new customers')
+      expect(checkOfferEligibility(offer({ targetAudience: 'VIP' }), { at, customer })).toBe(
+        'Offer is for VIP customers',
+      )
+    })
+  })
+
+  describe('applyOffers', () => {
+    it('should give each line the larger of two competing discounts', () => {
+      const lines = [
+        line({ amount: 40, unitPrice: 40 }),
+        line({ productId: 'product-2', amount: 10 }),
+      ]
+      const result = applyOffers(
+        [
+          offer({ id: 'percent', discountValue: 10 }),
+          offer({
+            id: 'fixed',
+            offerType: 'FIXED_AMOUNT',
+            discountValue: 8,
+            applicableProducts: ['product-1'],
+          }),
+        ],
+        lines,
+        { at },
+      )
+
+      // 10% of everything is 5.00; $8 off product-1 wins, then 10% applies to product-2 only
+      expect(result.applied.map((entry) => [entry.offerId, entry.discountAmount])).toEqual([
+        ['fixed', 8],
+        ['percent', 1],
+      ])
+      expect(result.lineDiscounts).toEqual([8, 1])
+      expect(result.discountAmount).toBe(9)
+    })
+
+    it('should break ties on start date then id', () => {
+      const result = applyOffers(
+        [
+          offer({ id: 'b', startDate: new Date('2026-02-01T00:00:00.000Z') }),
+          offer({ id: 'a', startDate: new Date('2026-02-01T00:00:00.000Z') }),
+          offer({ id: 'c', startDate: new Date('2026-01-01T00:00:00.000Z') }),
+        ],
+        [line()],
+        { at },
+      )
+
+      expect(result.applied.map((entry) => entry.offerId)).toEqual(['c'])
+    })
+
+    it('should skip offers below their minimum purchase or outside their products', () => {
+      const result = applyOffers(
+        [
+          offer({ id: 'minimum', minPurchaseAmount: 50 }),
+          offer({ id: 'excluded', excludedProducts: ['pods'] }),
+        ],
+        [line()],
+        { at },
+      )
+
+      expect(result.applied).toEqual([])
+      expect(result.lineDiscounts).toEqual([0])
+    })
+
+    it('should add bonus points from the highest multiplier on the discounted amount', () => {
+      const result = applyOffers(
+        [
+          offer({ id: 'percent', discountValue: 10 }),
+          offer({ id: 'double', offerType: 'POINTS_MULTIPLIER', discountValue: 2 }),
+          offer({ id: 'triple', offerType: 'POINTS_MULTIPLIER', discountValue: 3 }),
+        ],
+        [line({ amount: 50, unitPrice: 50 })],
+        { at, customer },
+      )
+
+      expect(result.bonusPoints).toBe(90)
+      expect(result.applied.map((entry) => [entry.offerId, entry.bonusPoints])).toEqual([
+        ['percent', 0],
+        ['triple', 90],
+      ])
+    })
+
+    it('should only discount products close to expiry for expiring product offers', () => {
+      const result = applyOffers(
+        [offer({ targetAudience: 'EXPIRING_PRODUCT_BUYERS', discountValue: 50 })],
+        [
+          line({ expirationDate: new Date('2026-03-20T00:00:00.000Z') }),
+          line({ productId: 'product-2', expirationDate: new Date('2027-01-01T00:00:00.000Z') }),
+        ],
+        { at },
+      )
+
+      expect(result.lineDiscounts).toEqual([5, 0])
+    })
+  })
+})
@@ -0,0 +1,126 @@
+import { validateOfferData, buildRedemptionReport } from '../../../shared/services/offerRules'
+import type { CreateOfferData } from '../../../shared/types/offers'
+import type { Offer } from '../../../generated/prisma'
+
+describe('Offer rules', () => {
+  const offerData = (overrides: Partial<CreateOfferData> = {}): CreateOfferData => ({
+    name: 'Spring Sale',
+    offerType: 'PERCENTAGE',
+    discountValue: 15,
+    targetAudience: 'ALL',
+    startDate: '2026-03-01T05:00:00.000Z',
+    endDate: '2026-03-31T04:59:59.000Z',
+    ...overrides,
+  })
+
+  describe('validateOfferData', () => {
+    it('should accept a complete offer', () => {
+      expect(
+        validateOfferData(
+          offerData({
+            maxDiscountAmount: 20,
+            customerSegments: { tiers: ['GOLD'], minSpent: 100, ageRange: { min: 21, max: 40 } },
+            applicableProducts: ['product-1', 'Pods'],
+            excludedProducts: ['product-2'],
+            maxUsesTotal: 100,
+            maxUsesPerCustomer: 2,
+          }),
+        ),
+      ).toEqual([])
+    })
+
+    it('should check the discount value against the offer type', () => {
+      expect(validateOfferData(offerData({ discountValue: 0 }))).toContain(
+        'discountValue must be greater than zero',
+      )
+      expect(validateOfferData(offerData({ offerType: 'BOGO', discountValue: 150 }))).toContain(
+        'discountValue is a percentage and must not be above 100',
+      )
+      expect(
+        validateOfferData(offerData({ offerType: 'POINTS_MULTIPLIER', discountValue: 1 })),
+      ).toContain('discountValue is a points multiplier and must be above 1')
+      expect(validateOfferData(offerData({ offerType: 'FREE_SHIPPING' }))).toContain(
+        'FREE_SHIPPING offers do not apply to in-store sales',
+      )
+    })
+
+    it('should require a schedule that ends after it starts', () => {
+      expect(validateOfferData(offerData({ endDate: '2026-02-01T00:00:00.000Z' }))).toContain(
+        'endDate must be after startDate',
+      )
+      expect(validateOfferData(offerData({ startDate: 'soon' }))).toContain(
+        'startDate is required and must be a valid date',
+      )
+    })
+
+    it('should reject products that are both applicable and excluded', () => {
+      expect(
+        validateOfferData(
+          offerData({ applicableProducts: ['Pods', 'product-1'], excludedProducts: ['pods'] }),
+        ),
+      ).toEqual(['Products cannot be both applicable and excluded: Pods'])
+    })
+
+    it('should validate customer segments', () => {
+      expect(
+        validateOfferData(
+          offerData({
+            customerSegments: {
+              tiers: ['DIAMOND' as never],
+              minSpent: 500,
+              maxSpent: 100,
+              lastPurchaseDays: 0,
+            },
+          }),
+        ),
+      ).toEqual([
+        'customerSegments.tiers must only contain BRONZE, SILVER, GOLD, PLATINUM',
+        'customerSegments.minSpent must not be above maxSpent',
+        'customerSegments.lastPurchaseDays must be a positive whole number',
+      ])
+    })
+
+    it('should not let the use limit drop below uses already made', () => {
+      expect(validateOfferData(offerData({ maxUsesTotal: 10 }), 12)).toEqual([
+        'maxUsesTotal must not be below the 12 uses already made',
+      ])
+      expect(validateOfferData(offerData({ maxUsesTotal: null }), 12)).toEqual([])
+    })
+  })
+
+  describe('buildRedemptionReport', () => {
+    const offer = (id: string, name: string, overrides: Partial<Offer> = {}): Offer =>
+      ({
+        id,
+        name,
+        offerType: 'PERCENTAGE',
+        currentUses: 0,
+        maxUsesTotal: null,
+        ...overrides,
+      }) as Offer
+
+    it('should list offers by discount given and total them', () => {
+      const report = buildRedemptionReport(
+        [
+          offer('a', 'Small', { currentUses: 3 }),
+          offer('b', 'Large', { currentUses: 5, maxUsesTotal: 10 }),
+          offer('c', 'Unused'),
+        ],
+        [
+          { offerId: 'a', discountAmount: 4.5, bonusPoints: 0, transactionCount: 3 },
+          { offerId: 'b', discountAmount: 25.1, bonusPoints: 40, transactionCount: 5 },
+        ],
+        { startDate: '2026-03-01T00:00:00.000Z' },
+      )
+
+      expect(report.offers.map((row) => [row.offerId, row.discountAmount])).toEqual([
+        ['b', 25.1],
+        ['a', 4.5],
+        ['c', 0],
+      ])
+      expect(report.offers[0]).toMatchObject({ currentUses: 5, maxUsesTotal: 10 })
+      expect(report.totals).toEqual({ discountAmount: 29.6, bonusPoints: 40, transactionCount: 8 })
+      expect(report.startDate).toBe('2026-03-01T00:00:00.000Z')
+    })
+  })
+})
@@ -0,0 +1,181 @@
+import {
+  SimulatorProcessor,
+  tokenizeSimulatorCard,
+} from '../../../shared/services/paymentSimulator'
+import { PaymentProcessorError } from '../../../shared/services/paymentProcessor'
+import { getPaymentProcessor, getStoreProcessor } from '../../../shared/services/paymentGateway'
+
+describe('Payment simulator', () => {
+  const now = new Date('2026-06-15T12:00:00Z')
+  let processor: SimulatorProcessor
+
+  const tokenize = (cardNumber: string) =>
+    tokenizeSimulatorCard({ cardNumber, expiryMonth: '12', expiryYear: '28', cvv: '123' }, now)
+
+  const authorize = (amount: number, cardNumber = '4242424242424242') =>
+    processor.authorize({ token: tokenize(cardNumber).token, amount })
+
+  beforeEach(() => {
+    processor = new SimulatorProcessor()
+  })
+
+  describe('tokenizeSimulatorCard', () => {
+    it('should keep only the brand and last four digits of the card', () => {
+      const card = tokenize('4242 4242 4242 4242')
+
+      expect(card).toEqual({ token: expect.any(String), last4: '4242', brand: 'visa' })
+      expect(card.token).not.toContain('4242424242424242')
+      expect(tokenize('4242424242424242').token).not.toBe(card.token)
+    })
+
+    it('should reject bad numbers, CVVs and expired cards', () => {
+      expect(() => tokenize('4242424242424241')).toThrow('Invalid card number')
+      expect(() =>
+        tokenizeSimulatorCard(
+          { cardNumber: '4242424242424242', expiryMonth: '12', expiryYear: '28', cvv: '12' },
+          now,
+        ),
+      ).toThrow('Invalid CVV')
+      expect(() =>
+        tokenizeSimulatorCard(
+          { cardNumber: '4242424242424242', expiryMonth: '05', expiryYear: '2026', cvv: '123' },
+          now,
+        ),
+      ).toThrow('Card has expired')
+    })
+  })
+
+  describe('authorize', () => {
+    it('should approve ordinary cards for the full amount', async () => {
+      const payment = await authorize(25)
+
+      expect(payment).toEqual(
+        expect.objectContaining({
+          processor: 'SIMULATOR',
+          status: 'AUTHORIZED',
+          requestedAmount: 25,
+          amount: 25,
+          authCode: expect.stringMatching(/^SIM\d{3}$/),
+          last4: '4242',
+          brand: 'visa',
+        }),
+      )
+    })
+
+    it('should decline the magic decline cards with their reason', async () => {
+      await expect(authorize(25, '4000000000000002')).resolves.toEqual(
+        expect.objectContaining({ status: 'DECLINED', amount: 0, declineReason: 'Card declined' }),
+      )
+      await expect(authorize(25, '4000000000009995')).resolves.toEqual(
+        expect.objectContaining({ status: 'DECLINED', declineReason: 'Insufficient funds' }),
+      )
+      await expect(authorize(25, '4000000000000069')).resolves.toEqual(
+        expect.objectContaining({ status: 'DECLINED', declineReason: 'Card expired' }),
+      )
+    })
+
+    it('should approve half of a partial approval, rounded down to the cent', async () => {
+      await expect(authorize(25.05, '4000000000000341')).resolves.toEqual(
+        expect.objectContaining({ status: 'AUTHORIZED', requestedAmount: 25.05, amount: 12.52 }),
+      )
+    })
+
+    it('should drive declines, partials and timeouts from the magic cents on any card', async () => {
+      await expect(authorize(10.91)).resolves.toEqual(
+        expect.objectContaining({ status: 'DECLINED' }),
+      )
+      await expect(authorize(10.92)).resolves.toEqual(expect.objectContaining({ amount: 5.46 }))
+      await expect(authorize(10.93)).rejects.toEqual(
+        new PaymentProcessorError('Card processor did not respond in time', 'TIMEOUT'),
+      )
+      await expect(authorize(10, '4000000000000408')).rejects.toHaveProperty('code', 'TIMEOUT')
+    })
+
+    it('should only accept its own tokens, once each', async () => {
+      const { token } = tokenize('4242424242424242')
+      await processor.authorize({ token, amount: 5 })
+
+      await expect(processor.authorize({ token, amount: 5 })).rejects.toHaveProperty(
+        'code',
+        'INVALID_REQUEST',
+      )
+      await expect(
+        processor.authorize({ token: '4242424242424242', amount: 5 }),
+      ).rejects.toHaveProperty('code', 'INVALID_REQUEST')
+    })
+  })
+
+  describe('capture, void and refund', () => {
+    it('should capture up to the authorized amount and refund what was captured', async () => {
+      const { reference } = await authorize(40)
+
+      await expect(processor.capture(reference, 45)).rejects.toHaveProperty(
+        'code',
+        'INVALID_REQUEST',
+      )
+      await expect(processor.capture(reference)).resolves.toEqual(
+        expect.objectContaining({ status: 'CAPTURED', capturedAmount: 40 }),
+      )
+      await expect(processor.refund(reference, 15)).resolves.toEqual(
+        expect.objectContaining({ status: 'CAPTURED', refundedAmount: 15 }),
+      )
+      await expect(processor.refund(reference, 30)).rejects.toEqual(
+        new PaymentProcessorError('Only $25.00 of this payment can be refunded', 'INVALID_REQUEST'),
+      )
+      await expect(processor.refund(reference, 25)).resolves.toEqual(
+        expect.objectContaining({ status: 'REFUNDED', refundedAmount: 40 }),
+      )
+    })
+
+    it('should void authorized and captured payments but not refunded ones', async () => {
+      const held = await authorize(10)
+      const captured = await authorize(10)
+      await processor.capture(captured.reference)
+      const refunded = await authorize(10)
+      await processor.capture(refunded.reference)
+      await processor.refund(refunded.reference, 1)
+
+      await expect(processor.void(held.reference)).resolves.toHaveProperty('status', 'VOIDED')
+      await expect(processor.void(captured.reference)).resolves.toHaveProperty('status', 'VOIDED')
+      await expect(processor.void(refunded.reference)).rejects.toHaveProperty(
+        'code',
+        'INVALID_STATE',
+      )
+      await expect(processor.capture(held.reference)).rejects.toHaveProperty(
+        'code',
+        'INVALID_STATE',
+      )
+    })
+
+    it('should not know payments it never took', async () => {
+      await expect(processor.status('sim_missing')).rejects.toHaveProperty(
+        'code',
+        'UNKNOWN_PAYMENT',
+      )
+    })
+  })
+
+  it('should pick adapters by name and share one per processor', () => {
+    expect(getPaymentProcessor('SIMULATOR')).toBe(getPaymentProcessor('SIMULATOR'))
+    expect(() => getPaymentProcessor('ACME')).toThrow('Payment processor ACME is not supported')
+  })
+
+  it('should only take test cards outside production', () => {
+    const nodeEnv = process.env.NODE_ENV
+    process.env.NODE_ENV = 'production'
+    try {
+      expect(() => getPaymentProcessor('SIMULATOR')).toThrow(
+        'Payment processor SIMULATOR is not available in production',
+      )
+    } finally {
+      process.env.NODE_ENV = nodeEnv
+    }
+  })
+
+  it('should leave a store with no processor unable to take cards', () => {
+    expect(getStoreProcessor({ paymentProcessor: null })).toBeNull()
+    expect(getStoreProcessor({ paymentProcessor: 'SIMULATOR' })).toBe(
+      getPaymentProcessor('SIMULATOR'),
+    )
+  })
+})
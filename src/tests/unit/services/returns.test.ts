@@ -0,0 +1,125 @@
+import {
+  planReturn,
+  calculatePointsReversal,
+  getReturnedSoFar,
+  ReturnValidationError,
+} from '../../../shared/services/returns'
+import type { ReturnableLine } from '../../../shared/services/returns'
+
+describe('Returns', () => {
+  const pods: ReturnableLine = {
+    id: 'line-1',
+    productId: 'pod',
+    productName: 'Mint Pod',
+    productSku: 'POD-1',
+    quantity: 3,
+    unitPrice: 10,
+    lineTotal: 30,
+    lineTaxAmount: 2.25,
+    taxDetails: [
+      {
+        code: 'CA_SALES',
+        name: 'CA Sales Tax',
+        type: 'state',
+        rate: 0.075,
+        taxableAmount: 30,
+        taxAmount: 2.25,
+      },
+    ],
+  }
+
+  const charger: ReturnableLine = {
+    ...pods,
+    id: 'line-2',
+    productId: 'charger',
+    productName: 'Charger',
+    quantity: 1,
+    lineTotal: 10,
+    lineTaxAmount: 0.75,
+    taxDetails: null,
+  }
+
+  it('should refund a proportional share of a partially returned line', () => {
+    const plan = planReturn(
+      [pods, charger],
+      [],
+      [{ lineItemId: 'line-1', quantity: 1, disposition: 'RESTOCK' }],
+    )
+
+    expect(plan.lines[0]).toEqual(
+      expect.objectContaining({ quantity: 1, refundAmount: 10, refundTaxAmount: 0.75 }),
+    )
+    expect(plan.lines[0].taxDetails[0].taxAmount).toBe(0.75)
+    expect(plan.refundTotal).toBe(10.75)
+    expect(plan.completesReturn).toBe(false)
+  })
+
+  it('should refund whatever is left when the last units come back', () => {
+    const oddTax = { ...pods, lineTaxAmount: 2.26 }
+    const plan = planReturn(
+      [oddTax],
+      [{ originalLineItemId: 'line-1', quantity: -2, lineTotal: -20, lineTaxAmount: -1.5 }],
+      [{ lineItemId: 'line-1', quantity: 1, disposition: 'WRITE_OFF' }],
+    )
+
+    expect(plan.lines[0].refundTaxAmount).toBe(0.76)
+    expect(plan.completesReturn).toBe(true)
+  })
+
+  it('should reject returning more than was sold across earlier returns', () => {
+    const prior = [
+      { originalLineItemId: 'line-1', quantity: -2, lineTotal: -20, lineTaxAmount: -1.5 },
+    ]
+
+    expect(() =>
+      planReturn([pods], prior, [{ lineItemId: 'line-1', quantity: 2, disposition: 'RESTOCK' }]),
+    ).toThrow('Cannot return 2 of Mint Pod: 3 sold, 2 already returned')
+  })
+
+  it('should not let a request split a line to get past the limit', () => {
+    expect(() =>
+      planReturn(
+        [charger],
+        [],
+        [
+          { lineItemId: 'line-2', quantity: 1, disposition: 'RESTOCK' },
+          { lineItemId: 'line-2', quantity: 1, disposition: 'WRITE_OFF' },
+        ],
+      ),
+    ).toThrow(ReturnValidationError)
+  })
+
+  it('should reject unknown lines, bad quantities and dispositions', () => {
+    expect(() => planReturn([pods], [], [])).toThrow('At least one line must be returned')
+    expect(() =>
+      planReturn([pods], [], [{ lineItemId: 'other', quantity: 1, disposition: 'RESTOCK' }]),
+    ).toThrow('not part of the original transaction')
+    expect(() =>
+      planReturn([pods], [], [{ lineItemId: 'line-1', quantity: 0.5, disposition: 'RESTOCK' }]),
+    ).toThrow('positive whole number')
+    expect(() =>
+      planReturn(
+        [pods],
+        [],
+        [{ lineItemId: 'line-1', quantity: 1, disposition: 'DONATE' as 'RESTOCK' }],
+      ),
+    ).toThrow('disposition')
+  })
+
+  it('should total earlier returns per original line', () => {
+    expect(
+      getReturnedSoFar([
+        { originalLineItemId: 'line-1', quantity: -1, lineTotal: -10, lineTaxAmount: -0.75 },
+        { originalLineItemId: 'line-1', quantity: -1, lineTotal: -10, lineTaxAmount: -0.75 },
+      ]),
+    ).toEqual({ 'line-1': { quantity: 2, amount: 20, taxAmount: 1.5 } })
+  })
+
+  it('should reverse loyalty points in proportion to the refund', () => {
+    // 43 points on a $43 sale
+    expect(calculatePointsReversal(43, 43, 0, 10.75, false)).toBe(10)
+    expect(calculatePointsReversal(43, 43, 10.75, 10.75, false)).toBe(11)
+    expect(calculatePointsReversal(43, 43, 21.5, 21.5, true)).toBe(22)
+    expect(calculatePointsReversal(0, 43, 0, 43, true)).toBe(0)
+  })
+})
@@ -0,0 +1,240 @@
+import {
+  buildSalesReport,
+  formatSalesReportCsv,
+  parseSalesReportQuery,
+  SalesReportError,
+} from '../../../shared/services/salesReports'
+import type { Prisma } from '../../../generated/prisma'
+import type { SalesReportRow } from '../../../shared/types/reports'
+
+describe('Sales reports', () => {
+  const stores = [
+    { id: 'store-1', storeName: 'Downtown', timezone: 'America/Los_Angeles' },
+    { id: 'store-2', storeName: 'Uptown', timezone: 'America/New_York' },
+  ]
+  const pods = { category: 'Pods', vendor: 'Acme', cost: 4 }
+  const lighter = { category: null, vendor: null, cost: null }
+  const ana = { username: 'ana', firstName: 'Ana', lastName: 'Lopez' }
+  const sam = { username: 'sam', firstName: null, lastName: null }
+
+  const transactions = [
+    {
+      id: 'sale-1',
+      storeId: 'store-1',
+      employeeId: 'user-1',
+      employee: ana,
+      // 10:30 in Los Angeles on the 15th
+      transactionDate: new Date('2026-06-15T17:30:00.000Z'),
+      lineItems: [
+        { productId: 'pod', productName: 'Mango Pod', quantity: 2, lineTotal: 20, product: pods },
+        {
+          productId: 'lighter',
+          productName: 'Lighter',
+          quantity: 1,
+          lineTotal: 5,
+          product: lighter,
+        },
+      ],
+    },
+    {
+      id: 'sale-2',
+      storeId: 'store-2',
+      employeeId: 'user-2',
+      employee: sam,
+      // 10:00 in New York on the 16th
+      transactionDate: new Date('2026-06-16T14:00:00.000Z'),
+      lineItems: [
+        { productId: 'pod', productName: 'Mango Pod', quantity: 1, lineTotal: 10, product: pods },
+      ],
+    },
+    {
+      id: 'return-1',
+      storeId: 'store-1',
+      employeeId: 'user-1',
+      employee: ana,
+      // 13:00 in Los Angeles on the 16th
+      transactionDate: new Date('2026-06-16T20:00:00.000Z'),
+      lineItems: [
+        { productId: 'pod', productName: 'Mango Pod', quantity: -1, lineTotal: -10, product: pods },
+      ],
+    },
+  ]
+
+  const createClient = () => ({
+    transaction: { findMany: jest.fn().mockResolvedValue(transactions) },
+  })
+
+  const asClient = (client: ReturnType<typeof createClient>) =>
+    client as unknown as Prisma.TransactionClient
+
+  const scope = {
+    stores,
+    storeId: null,
+    startDate: new Date('2026-06-15T00:00:00.000Z'),
+    endDate: new Date('2026-06-16T00:00:00.000Z'),
+    interval: 'day' as const,
+  }
+
+  const byKey = (rows: SalesReportRow[]) => Object.fromEntries(rows.map((row) => [row.key, row]))
+
+  describe('buildSalesReport', () => {
+    it('should summarise sales, margin, basket size and returns', async () => {
+      const report = await buildSalesReport(asClient(createClient()), scope)
+
+      expect(report.summary).toEqual({
+        transactionCount: 2,
+        unitsSold: 4,
+        unitsReturned: 1,
+        returnRate: 25,
+        netSales: 25,
+        cost: 8,
+        grossMargin: 12,
+        marginPercent: 60,
+        uncostedSales: 5,
+        returnCount: 1,
+        returnAmount: -10,
+        basketSize: 17.5,
+        unitsPerTransaction: 2,
+      })
+    })
+
+    it('should look up each store by its own local business days, leaving voids out', async () => {
+      const client = createClient()
+
+      await buildSalesReport(asClient(client), scope)
+
+      expect(client.transaction.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            paymentStatus: { not: 'VOIDED' },
+            transactionType: { not: 'VOID' },
+            OR: [
+              {
+                storeId: 'store-1',
+                transactionDate: {
+                  gte: new Date('2026-06-15T07:00:00.000Z'),
+                  lt: new Date('2026-06-17T07:00:00.000Z'),
+                },
+              },
+              {
+                storeId: 'store-2',
+                transactionDate: {
+                  gte: new Date('2026-06-15T04:00:00.000Z'),
+                  lt: new Date('2026-06-17T04:00:00.000Z'),
+                },
+              },
+            ],
+          },
+        }),
+      )
+    })
+
+    it('should break sales down by category, vendor, product, employee and store', async () => {
+      const report = await buildSalesReport(asClient(createClient()), scope)
+
+      expect(report.byCategory.map((row) => row.label)).toEqual(['Pods', 'Uncategorized'])
+      expect(byKey(report.byCategory).Pods).toEqual(
+        expect.objectContaining({ netSales: 20, cost: 8, grossMargin: 12, marginPercent: 60 }),
+      )
+      expect(byKey(report.byCategory)['']).toEqual(
+        expect.objectContaining({ netSales: 5, marginPercent: null, uncostedSales: 5 }),
+      )
+      expect(byKey(report.byVendor)[''].label).toBe('No vendor')
+      expect(byKey(report.byProduct).pod).toEqual(
+        expect.objectContaining({
+          label: 'Mango Pod',
+          transactionCount: 2,
+          unitsSold: 3,
+          unitsReturned: 1,
+          returnRate: 33.33,
+        }),
+      )
+      expect(
+        report.byEmployee.map(({ key, label, netSales }) => ({ key, label, netSales })),
+      ).toEqual([
+        { key: 'user-1', label: 'Ana Lopez', netSales: 15 },
+        { key: 'user-2', label: 'sam', netSales: 10 },
+      ])
+      expect(report.byStore.map(({ label, netSales }) => ({ label, netSales }))).toEqual([
+        { label: 'Downtown', netSales: 15 },
+        { label: 'Uptown', netSales: 10 },
+      ])
+    })
+
+    it('should bucket sales by business day, hour of day or week, with empty periods at zero', async () => {
+      const daily = await buildSalesReport(asClient(createClient()), scope)
+      expect(daily.byPeriod.map(({ key, netSales }) => ({ key, netSales }))).toEqual([
+        { key: '2026-06-15', netSales: 25 },
+        { key: '2026-06-16', netSales: 0 },
+      ])
+
+      const hourly = await buildSalesReport(asClient(createClient()), {
+        ...scope,
+        interval: 'hour',
+      })
+      expect(hourly.byPeriod).toHaveLength(24)
+      // Each store's hour is its own local hour
+      expect(byKey(hourly.byPeriod)['10:00']).toEqual(
+        expect.objectContaining({ transactionCount: 2, netSales: 35 }),
+      )
+      expect(byKey(hourly.byPeriod)['13:00'].netSales).toBe(-10)
+      expect(byKey(hourly.byPeriod)['03:00'].netSales).toBe(0)
+
+      const weekly = await buildSalesReport(asClient(createClient()), {
+        ...scope,
+        startDate: new Date('2026-06-14T00:00:00.000Z'),
+        interval: 'week',
+      })
+      expect(weekly.byPeriod.map(({ key, label }) => ({ key, label }))).toEqual([
+        { key: '2026-06-08', label: 'Week of 2026-06-08' },
+        { key: '2026-06-15', label: 'Week of 2026-06-15' },
+      ])
+    })
+  })
+
+  describe('parseSalesReportQuery', () => {
+    it('should default to daily over an inclusive date range', () => {
+      expect(parseSalesReportQuery({ startDate: '2026-06-01', endDate: '2026-06-30' })).toEqual({
+        startDate: new Date('2026-06-01T00:00:00.000Z'),
+        endDate: new Date('2026-06-30T00:00:00.000Z'),
+        interval: 'day',
+      })
+    })
+
+    it('should reject missing, malformed, reversed or overlong ranges and unknown intervals', () => {
+      expect(() => parseSalesReportQuery({ startDate: '2026-06-01' })).toThrow(
+        new SalesReportError('startDate and endDate are required'),
+      )
+      expect(() =>
+        parseSalesReportQuery({ startDate: '2026-06-01', endDate: '06/30/2026' }),
+      ).toThrow('Dates must be in YYYY-MM-DD form')
+      expect(() =>
+        parseSalesReportQuery({ startDate: '2026-06-30', endDate: '2026-06-01' }),
+      ).toThrow('startDate must not be after endDate')
+      expect(() =>
+        parseSalesReportQuery({ startDate: '2025-01-01', endDate: '2026-06-30' }),
+      ).toThrow('A report can cover at most 366 days')
+      expect(() =>
+        parseSalesReportQuery({
+          startDate: '2026-06-01',
+          endDate: '2026-06-30',
+          interval: 'month' as never,
+        }),
+      ).toThrow('interval must be one of hour, day, week')
+    })
+  })
+
+  it('should write a breakdown as CSV, quoting labels and leaving missing figures blank', async () => {
+    const report = await buildSalesReport(asClient(createClient()), scope)
+    const rows = report.byCategory.map((row) =>
+      row.key === 'Pods' ? { ...row, label: 'Pods, disposable' } : row,
+    )
+
+    expect(formatSalesReportCsv(rows).split('\n')).toEqual([
+      'key,label,transactionCount,unitsSold,unitsReturned,returnRate,netSales,cost,grossMargin,marginPercent,uncostedSales',
+      'Pods,"Pods, disposable",2,3,1,33.33,20,8,12,60,0',
+      ',Uncategorized,1,1,0,0,5,0,0,,5',
+      '',
+    ])
+  })
+})
@@ -0,0 +1,324 @@
+import {
+  buildStockTransferReport,
+  receiveStockTransfer,
+  shipStockTransfer,
+  StockTransferError,
+  StockTransferRow,
+  toStockTransferResponse,
+  validateReceipt,
+  validateShipment,
+  validateStockTransferRequest,
+} from '../../../shared/services/stockTransfer'
+import type { Prisma } from '../../../generated/prisma'
+
+describe('Stock transfers', () => {
+  const createTransfer = (overrides: Partial<StockTransferRow> = {}): StockTransferRow => ({
+    id: 'transfer-1',
+    transferNumber: 7,
+    fromStoreId: 'store-1',
+    toStoreId: 'store-2',
+    status: 'APPROVED',
+    requestedById: 'user-2',
+    approvedById: 'user-1',
+    approvedAt: new Date('2026-03-02T15:00:00Z'),
+    shippedById: null,
+    shippedAt: null,
+    receivedById: null,
+    receivedAt: null,
+    cancelledAt: null,
+    notes: null,
+    createdAt: new Date('2026-03-02T14:00:00Z'),
+    updatedAt: new Date('2026-03-02T15:00:00Z'),
+    fromStore: { storeName: 'Downtown' },
+    toStore: { storeName: 'Uptown' },
+    items: [
+      {
+        id: 'item-pod',
+        transferId: 'transfer-1',
+        productId: 'pod',
+        quantityRequested: 10,
+        quantityShipped: null,
+        quantityReceived: null,
+        lotNumber: null,
+        expirationDate: null,
+        discrepancyNote: null,
+        product: {
+          sku: 'POD-1',
+          name: 'Mint Pods',
+          lotNumber: 'L-100',
+          expirationDate: new Date('2027-01-31'),
+        },
+      },
+      {
+        id: 'item-kit',
+        transferId: 'transfer-1',
+        productId: 'kit',
+        quantityRequested: 4,
+        quantityShipped: null,
+        quantityReceived: null,
+        lotNumber: null,
+        expirationDate: null,
+        discrepancyNote: null,
+        product: { sku: 'KIT-1', name: 'Starter Kit', lotNumber: null, expirationDate: null },
+      },
+    ],
+    ...overrides,
+  })
+
+  // Store stock and movements kept in memory, with just enough of the client to move stock
+  function createTx(levels: Record<string, number>, claimed = true) {
+    const movements: Record<string, unknown>[] = []
+    const tx = {
+      stockTransfer: { updateMany: jest.fn().mockResolvedValue({ count: claimed ? 1 : 0 }) },
+      stockTransferItem: { update: jest.fn().mockResolvedValue({}) },
+      storeInventory: {
+        upsert: jest.fn(
+          ({
+            where,
+            update,
+          }: {
+            where: { productId_storeId: { productId: string; storeId: string } }
+            update: { quantity: { increment: number } }
+          }) => {
+            const { productId, storeId } = where.productId_storeId
+            const key = `${productId}@${storeId}`
+            levels[key] = (levels[key] || 0) + update.quantity.increment
+            return Promise.resolve({ quantity: levels[key] })
+          },
+        ),
+      },
+      product: { update: jest.fn().mockResolvedValue({}) },
+      inventoryMovement: {
+        create: jest.fn(({ data }: { data: Record<string, unknown> }) => {
+          movements.push(data)
+          return Promise.resolve(data)
+        }),
+      },
+    }
+    return { tx, movements, levels }
+  }
+
+  const asTx = (tx: unknown) => tx as Prisma.TransactionClient
+
+  it('should validate a transfer request', () => {
+    expect(
+      validateStockTransferRequest({
+        fromStoreId: 'store-1',
+        toStoreId: 'store-2',
+        items: [{ productId: 'pod', quantity: 5 }],
+      }),
+    ).toEqual([])
+    expect(
+      validateStockTransferRequest({
+        fromStoreId: 'store-1',
+        toStoreId: 'store-1',
+        items: [
+          { productId: 'pod', quantity: 5 },
+          { productId: 'pod', quantity: 1.5 },
+        ],
+      }),
+    ).toEqual([
+      'A transfer must go to a different store',
+      'Item 2: pod is already on this transfer',
+      'Item 2: quantity must be a whole number more than zero',
+    ])
+    expect(
+      validateStockTransferRequest({ fromStoreId: '', toStoreId: 'store-2', items: [] }),
+    ).toEqual(['fromStoreId and toStoreId are required', 'items must list at least one product'])
+  })
+
+  describe('shipping', () => {
+    it('should take the stock out of the source store with the lot and expiry it ships with', async () => {
+      const { tx, movements, levels } = createTx({ 'pod@store-1': 12, 'kit@store-1': 4 })
+
+      await shipStockTransfer(
+        asTx(tx),
+        createTransfer(),
+        { items: [{ itemId: 'item-kit', quantityShipped: 3, lotNumber: 'K-9' }] },
+        'user-1',
+      )
+
+      expect(tx.stockTransfer.updateMany).toHaveBeenCalledWith({
+        where: { id: 'transfer-1', status: { in: ['APPROVED'] } },
+        data: expect.objectContaining({ status: 'IN_TRANSIT', shippedById: 'user-1' }),
+      })
+      // In transit: gone from the source and not yet at the destination
+      expect(levels).toEqual({ 'pod@store-1': 2, 'kit@store-1': 1 })
+      expect(tx.stockTransferItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-pod' },
+        data: { quantityShipped: 10, lotNumber: 'L-100', expirationDate: new Date('2027-01-31') },
+      })
+      expect(movements).toEqual([
+        expect.objectContaining({
+          productId: 'pod',
+          storeId: 'store-1',
+          movementType: 'TRANSFER',
+          reasonCode: 'TRANSFERRED',
+          quantity: -10,
+          quantityAfter: 2,
+          stockTransferId: 'transfer-1',
+          reference: 'TR-7',
+          lotNumber: 'L-100',
+          notes: 'To Uptown',
+        }),
+        expect.objectContaining({ productId: 'kit', quantity: -3, lotNumber: 'K-9' }),
+      ])
+    })
+
+    it('should refuse to ship more than the source store has', async () => {
+      const { tx } = createTx({ 'pod@store-1': 6, 'kit@store-1': 4 })
+
+      await expect(shipStockTransfer(asTx(tx), createTransfer(), {}, 'user-1')).rejects.toThrow(
+        'Only 6 on hand; cannot take away 10',
+      )
+    })
+
+    it('should refuse to ship a transfer that is no longer approved', async () => {
+      const { tx, movements } = createTx({ 'pod@store-1': 20 }, false)
+
+      await expect(shipStockTransfer(asTx(tx), createTransfer(), {}, 'user-1')).rejects.toThrow(
+        new StockTransferError('Only APPROVED transfers can move to IN_TRANSIT'),
+      )
+      expect(movements).toEqual([])
+    })
+
+    it('should validate what is shipped against the lines requested', () => {
+      const transfer = createTransfer()
+      expect(
+        validateShipment(transfer, {
+          items: [
+            { itemId: 'item-pod', quantityShipped: 11 },
+            { itemId: 'item-kit', expirationDate: '2027-02-30' },
+            { itemId: 'item-gone' },
+          ],
+        }),
+      ).toEqual([
+        'POD-1: cannot ship more than the 10 requested',
+        'KIT-1: expirationDate must be a date in YYYY-MM-DD form',
+        'item-gone is not a line on this transfer',
+      ])
+      expect(
+        validateShipment(transfer, {
+          items: [
+            { itemId: 'item-pod', quantityShipped: 0 },
+            { itemId: 'item-kit', quantityShipped: 0 },
+          ],
+        }),
+      ).toEqual(['A transfer must ship at least one unit'])
+    })
+  })
+
+  describe('receiving', () => {
+    const inTransit = () => {
+      const transfer = createTransfer({ status: 'IN_TRANSIT', shippedAt: new Date() })
+      transfer.items[0] = {
+        ...transfer.items[0],
+        quantityShipped: 10,
+        lotNumber: 'L-100',
+        expirationDate: new Date('2027-01-31'),
+      }
+      transfer.items[1] = { ...transfer.items[1], quantityShipped: 4 }
+      return transfer
+    }
+
+    it('should add what was counted in to the destination and keep the shortfall', async () => {
+      const { tx, movements, levels } = createTx({ 'pod@store-2': 1 })
+
+      await receiveStockTransfer(
+        asTx(tx),
+        inTransit(),
+        { items: [{ itemId: 'item-pod', quantityReceived: 8, discrepancyNote: ' 2 crushed ' }] },
+        'user-2',
+      )
+
+      expect(levels).toEqual({ 'pod@store-2': 9, 'kit@store-2': 4 })
+      expect(tx.stockTransferItem.update).toHaveBeenCalledWith({
+        where: { id: 'item-pod' },
+        data: { quantityReceived: 8, discrepancyNote: '2 crushed' },
+      })
+      expect(movements).toEqual([
+        expect.objectContaining({
+          productId: 'pod',
+          storeId: 'store-2',
+          movementType: 'TRANSFER',
+          quantity: 8,
+          quantityAfter: 9,
+          reference: 'TR-7',
+          lotNumber: 'L-100',
+          expirationDate: new Date('2027-01-31'),
+          notes: 'From Downtown',
+        }),
+        expect.objectContaining({ productId: 'kit', quantity: 4 }),
+      ])
+    })
+
+    it('should require a note for any line that does not match what was shipped', () => {
+      expect(
+        validateReceipt(inTransit(), {
+          items: [
+            { itemId: 'item-pod', quantityReceived: 9 },
+            { itemId: 'item-kit', quantityReceived: 5, discrepancyNote: 'Extra in box' },
+          ],
+        }),
+      ).toEqual(['POD-1: a note is required when 9 received does not match 10 shipped'])
+    })
+  })
+
+  it('should show each line with what arrived short or over', () => {
+    const transfer = createTransfer({ status: 'RECEIVED', receivedAt: new Date() })
+    transfer.items[0] = { ...transfer.items[0], quantityShipped: 10, quantityReceived: 8 }
+
+    const response = toStockTransferResponse(transfer)
+
+    expect(response.reference).toBe('TR-7')
+    expect(response.items.map((item) => item.discrepancy)).toEqual([-2, null])
+  })
+
+  it("should total a store's transfers over the period and what is in transit now", async () => {
+    const received = createTransfer({
+      id: 'transfer-2',
+      transferNumber: 8,
+      fromStoreId: 'store-2',
+      toStoreId: 'store-1',
+      fromStore: { storeName: 'Uptown' },
+      toStore: { storeName: 'Downtown' },
+      status: 'RECEIVED',
+      shippedAt: new Date('2026-03-02T16:00:00Z'),
+      receivedAt: new Date('2026-03-03T16:00:00Z'),
+    })
+    received.items = received.items.map((item) => ({
+      ...item,
+      quantityShipped: item.quantityRequested,
+      quantityReceived: item.productId === 'pod' ? 9 : item.quantityRequested,
+      discrepancyNote: item.productId === 'pod' ? 'Short one' : null,
+    }))
+    const shipped = createTransfer({
+      status: 'IN_TRANSIT',
+      shippedAt: new Date('2026-03-03T18:00:00Z'),
+    })
+    shipped.items = shipped.items.map((item) => ({ ...item, quantityShipped: 2 }))
+
+    const client = { stockTransfer: { findMany: jest.fn().mockResolvedValue([received, shipped]) } }
+    const report = await buildStockTransferReport(asTx(client), {
+      store: { id: 'store-1', storeName: 'Downtown', timezone: 'UTC' },
+      startDate: new Date('2026-03-01T00:00:00Z'),
+      endDate: new Date('2026-03-03T00:00:00Z'),
+    })
+
+    expect(report.shippedOut).toEqual({ transfers: 1, units: 4 })
+    expect(report.receivedIn).toEqual({ transfers: 1, units: 13 })
+    expect(report.inTransitOut).toEqual({ transfers: 1, units: 4 })
+    expect(report.inTransitIn).toEqual({ transfers: 0, units: 0 })
+    expect(report.discrepancies).toEqual([
+      expect.objectContaining({
+        reference: 'TR-8',
+        sku: 'POD-1',
+        quantityShipped: 10,
+        quantityReceived: 9,
+        difference: -1,
+        note: 'Short one',
+      }),
+    ])
+    expect(report.transfers).toHaveLength(2)
+  })
+})
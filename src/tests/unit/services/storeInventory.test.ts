@@ -0,0 +1,60 @@
+import { assignStockToStore, withStoreStock } from '../../../shared/services/storeInventory'
+import type { PrismaClient, Product } from '../../../generated/prisma'
+
+describe('Store inventory', () => {
+  const product = { id: 'pod', sku: 'POD-1', quantity: 40, minStockLevel: 5 } as Product
+
+  describe('withStoreStock', () => {
+    it("should show the store's own quantity and reorder point", () => {
+      expect(
+        withStoreStock({ ...product, storeInventory: [{ quantity: 12, minStockLevel: 8 }] }),
+      ).toEqual({ ...product, quantity: 12, minStockLevel: 8 })
+    })
+
+    it("should fall back to the product's reorder point, and to none on hand where never stocked", () => {
+      expect(
+        withStoreStock({ ...product, storeInventory: [{ quantity: 12, minStockLevel: null }] }),
+      ).toEqual({ ...product, quantity: 12, minStockLevel: 5 })
+      expect(withStoreStock({ ...product, storeInventory: [] })).toEqual({
+        ...product,
+        quantity: 0,
+        minStockLevel: 5,
+      })
+    })
+  })
+
+  it('should put unassigned stock and movements into the chosen store', async () => {
+    const tx = {
+      product: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: 'pod', quantity: 40 },
+          { id: 'kit', quantity: 0 },
+        ]),
+      },
+      storeInventory: { createMany: jest.fn().mockResolvedValue({ count: 2 }) },
+      inventoryMovement: { updateMany: jest.fn().mockResolvedValue({ count: 3 }) },
+    }
+    const client = {
+      $transaction: jest.fn((callback: (client: typeof tx) => unknown) => callback(tx)),
+    }
+
+    await expect(assignStockToStore(client as unknown as PrismaClient, 'store-1')).resolves.toEqual(
+      { products: 2, movements: 3 },
+    )
+
+    // Products already stocked somewhere are left alone
+    expect(tx.product.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { storeInventory: { none: {} } } }),
+    )
+    expect(tx.storeInventory.createMany).toHaveBeenCalledWith({
+      data: [
+        { productId: 'pod', storeId: 'store-1', quantity: 40 },
+        { productId: 'kit', storeId: 'store-1', quantity: 0 },
+      ],
+    })
+    expect(tx.inventoryMovement.updateMany).toHaveBeenCalledWith({
+      where: { storeId: null },
+      data: { storeId: 'store-1' },
+    })
+  })
+})
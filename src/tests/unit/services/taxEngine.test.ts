@@ -0,0 +1,112 @@
+import { calculateTransactionTax, isTobaccoProduct } from '../../../shared/services/taxEngine'
+import type { TaxableLine } from '../../../shared/services/taxEngine'
+import type { ComplianceRule } from '../../../generated/prisma'
+
+describe('Tax Engine', () => {
+  const accessory: TaxableLine = {
+    productId: 'charger',
+    productName: 'USB Charger',
+    category: 'Accessories',
+    ageRestricted: false,
+    quantity: 1,
+    amount: 10,
+  }
+
+  const pod: TaxableLine = {
+    productId: 'pod',
+    productName: 'Mint Pod',
+    category: 'Pods',
+    ageRestricted: true,
+    quantity: 2,
+    amount: 30,
+  }
+
+  const taxRule = (overrides: Partial<ComplianceRule>): ComplianceRule =>
+    ({
+      id: 'tax-rule',
+      ruleType: 'TAX_RATE',
+      jurisdictionType: 'CITY',
+      jurisdictionCode: 'CA-LOS ANGELES',
+      ruleDetails: { taxType: 'PERCENTAGE', rate: 0.02 },
+      enforcementPriority: 'HIGH',
+      ...overrides,
+    }) as ComplianceRule
+
+  it('should treat age-restricted products as tobacco', () => {
+    expect(isTobaccoProduct(pod)).toBe(true)
+    expect(isTobaccoProduct(accessory)).toBe(false)
+    expect(isTobaccoProduct({ category: 'Vape Kits', ageRestricted: false })).toBe(true)
+  })
+
+  it('should apply state sales tax and tobacco tax per line', () => {
+    const { lines, breakdown } = calculateTransactionTax({ stateCode: 'CA' }, [accessory, pod], [])
+
+    // Accessory: 7.5% sales tax only
+    expect(lines[0].taxAmount).toBe(0.75)
+    expect(lines[0].taxDetails.map((d) => d.code)).toEqual(['CA_SALES'])
+
+    // Pod: 7.5% sales + 15% tobacco
+    expect(lines[1].taxAmount).toBe(6.75)
+    expect(lines[1].taxDetails.map((d) => d.code)).toEqual(['CA_SALES', 'CA_TOBACCO'])
+
+    expect(breakdown.subtotal).toBe(40)
+    expect(breakdown.totalTaxAmount).toBe(7.5)
+    expect(breakdown.totalAmount).toBe(47.5)
+    expect(breakdown.jurisdictions).toEqual([
+      expect.objectContaining({ code: 'CA_SALES', taxableAmount: 40, taxAmount: 3 }),
+      expect.objectContaining({ code: 'CA_TOBACCO', taxableAmount: 30, taxAmount: 4.5 }),
+    ])
+  })
+
+  it('should add local TAX_RATE rules as separate jurisdictions', () => {
+    const { breakdown } = calculateTransactionTax({ stateCode: 'CA' }, [accessory], [taxRule({})])
+
+    expect(breakdown.jurisdictions.map((d) => d.code)).toEqual([
+      'CA_SALES',
+      'CA-LOS ANGELES_CITY_TAX',
+    ])
+    expect(breakdown.totalTaxAmount).toBe(0.95)
+  })
+
+  it('should let a state TAX_RATE rule replace the built-in tobacco rate', () => {
+    const stateRule = taxRule({
+      jurisdictionType: 'STATE',
+      jurisdictionCode: 'CA',
+      ruleDetails: { taxType: 'PERCENTAGE', rate: 0.1, effectiveProducts: ['pods'] },
+    })
+
+    const { lines } = calculateTransactionTax({ stateCode: 'CA' }, [pod], [stateRule])
+
+    expect(lines[0].taxDetails.map((d) => d.code)).toEqual(['CA_SALES', 'CA_STATE_TAX'])
+    expect(lines[0].taxAmount).toBe(5.25)
+  })
+
+  it('should replace the flat tobacco rate with state excise lines', () => {
+    const liquid: TaxableLine = {
+      ...pod,
+      quantity: 1,
+      amount: 20,
+      volumeInMl: 30,
+      isClosedSystem: false,
+    }
+    const { lines, breakdown } = calculateTransactionTax({ stateCode: 'WV' }, [liquid], [])
+
+    expect(lines[0].taxDetails.map((d) => d.code)).toEqual(['WV_SALES', 'WV_EXCISE_PER_ML'])
+    expect(breakdown.jurisdictions[1]).toEqual(
+      expect.objectContaining({ type: 'excise', taxableAmount: 30, taxAmount: 2.25 }),
+    )
+  })
+
+  it('should not tax states without sales tax on non-tobacco lines', () => {
+    const { breakdown } = calculateTransactionTax({ stateCode: 'OR' }, [accessory], [])
+    expect(breakdown.totalTaxAmount).toBe(0)
+  })
+
+  it('should report exempt categories', () => {
+    const food: TaxableLine = { ...accessory, productId: 'snack', category: 'Food', amount: 5 }
+    const { lines, breakdown } = calculateTransactionTax({ stateCode: 'NH' }, [food], [])
+
+    expect(lines[0].taxAmount).toBe(0)
+    expect(breakdown.exemptAmount).toBe(5)
+  })
+})